@@ -60,6 +60,8 @@ export default function Header({ setSidebarOpen }: HeaderProps) {
         return "WhatsApp";
       case "/whatsapp/config":
         return "Configurações do WhatsApp";
+      case "/whatsapp/campanhas":
+        return "Campanhas do WhatsApp";
       case "/favale-ia":
         return "FavaleIA";
       case "/config":
@@ -3,6 +3,7 @@ import { useState, useEffect } from "react";
 import { useTheme } from "@/providers/ThemeProvider"; // Updated path
 import { useAuth } from "@/features/auth/hooks/use-auth"; // Updated path
 import { Avatar, AvatarFallback } from "@/components/data-display/avatar"; // Updated path
+import { useLeadSegments } from "@/features/leads/hooks/useLeads";
 import { LogOut, User, Shield } from "lucide-react";
 import {
   DropdownMenu,
@@ -49,6 +50,9 @@ export default function Sidebar({ open, setOpen, expanded = true }: SidebarProps
     { path: "/config", label: "Configurações", icon: "settings" },
   ];
   
+  // Saved lead segments the user pinned (see LeadSegmentBar)
+  const { data: pinnedSegments = [] } = useLeadSegments(true, !!user);
+
   const getNavClasses = (path: string) => {
     const isActive = location === path;
     const baseClasses = "flex items-center text-white transition-all duration-300 rounded-md my-2";
@@ -97,6 +101,30 @@ export default function Sidebar({ open, setOpen, expanded = true }: SidebarProps
               </li>
             ))}
           </ul>
+          {expanded && pinnedSegments.length > 0 && (
+            <>
+              <div className="px-3 pt-4 pb-1 text-xs font-medium text-gray-400 uppercase tracking-wider">
+                Segmentos
+              </div>
+              <ul className="space-y-1">
+                {pinnedSegments.map((segment) => (
+                  <li key={segment.id}>
+                    <Link
+                      href={`/leads?segment=${segment.id}`}
+                      onClick={() => setOpen(false)}
+                      className="flex items-center justify-between text-gray-400 hover:text-white hover:bg-gray-700/50 rounded-md px-4 mx-3 py-1.5 transition-all duration-300"
+                    >
+                      <span className="flex items-center min-w-0">
+                        <span className="material-icons text-sm mr-3">push_pin</span>
+                        <span className="text-sm truncate">{segment.name}</span>
+                      </span>
+                      <span className="text-xs bg-gray-800 rounded-full px-2 py-0.5 ml-2">{segment.count}</span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
         </nav>
         
         {user && (
@@ -4,6 +4,7 @@ import { Lead, InsertLead } from "@/types"; // Updated
 import { invokeSupabaseFunction, queryClient } from "@/lib/queryClient";
 import { useQueryClient } from "@tanstack/react-query"; // useQueryClient is still needed for invalidation
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/feedback/toast";
 
 interface LeadContextProps {
   selectedLead: Lead | null;
@@ -15,16 +16,25 @@ interface LeadContextProps {
   deleteLead: (id: number) => Promise<void>;
   updateLeadsInBatch: (ids: number[], updates: Partial<InsertLead>) => Promise<number>;
   deleteLeadsInBatch: (ids: number[]) => Promise<number>;
+  restoreLeadsInBatch: (ids: number[]) => Promise<number>;
+  lastBatchDeletion: BatchDeletion | null;
   selectedLeadIds: number[];
   setSelectedLeadIds: (ids: number[]) => void;
 }
 
+// Batch deletions are soft and can be undone until restorableUntil (see lead-functions batch/restore)
+export interface BatchDeletion {
+  ids: number[];
+  restorableUntil: Date;
+}
+
 const LeadContext = createContext<LeadContextProps | undefined>(undefined);
 
 export function LeadProvider({ children }: { children: ReactNode }) {
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedLeadIds, setSelectedLeadIds] = useState<number[]>([]);
+  const [lastBatchDeletion, setLastBatchDeletion] = useState<BatchDeletion | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
@@ -107,7 +117,7 @@ export function LeadProvider({ children }: { children: ReactNode }) {
   // Batch operations
   const updateLeadsInBatch = async (ids: number[], updates: Partial<InsertLead>): Promise<number> => {
     try {
-      const response = await invokeSupabaseFunction<{ updatedCount: number }>(
+      const response = await invokeSupabaseFunction<{ data: { updatedCount: number; errors?: Array<{ id: number; error: string }> } }>(
         "lead-functions",
         "POST",
         { ids, updates },
@@ -115,13 +125,22 @@ export function LeadProvider({ children }: { children: ReactNode }) {
       );
       await queryClient.invalidateQueries({ queryKey: ["leadsList"] });
       await queryClient.invalidateQueries({ queryKey: ["dashboardStats"] });
+      if (updates.status === "Aluno") await queryClient.invalidateQueries({ queryKey: ["studentOptions"] });
       
-      const updatedCount = response.updatedCount || 0;
+      const updatedCount = response.data?.updatedCount || 0;
+      const conversionErrors = response.data?.errors || [];
       
       toast({
         title: "Sucesso",
         description: `${updatedCount} leads atualizados com sucesso`,
       });
+      if (conversionErrors.length > 0) {
+        toast({
+          title: "Conversão incompleta",
+          description: `${conversionErrors.length} lead(s) não puderam ser convertidos em aluno: ${conversionErrors[0].error}`,
+          variant: "destructive",
+        });
+      }
       
       setSelectedLeadIds([]);
       return updatedCount;
@@ -136,9 +155,43 @@ export function LeadProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const restoreLeadsInBatch = async (ids: number[]): Promise<number> => {
+    try {
+      const response = await invokeSupabaseFunction<{ data: { restoredCount: number } }>(
+        "lead-functions",
+        "POST",
+        { ids },
+        { slug: "batch/restore" }
+      );
+      await queryClient.invalidateQueries({ queryKey: ["leadsList"] });
+      await queryClient.invalidateQueries({ queryKey: ["dashboardStats"] });
+
+      const restoredCount = response.data?.restoredCount || 0;
+      setLastBatchDeletion(null);
+
+      toast({
+        title: "Exclusão desfeita",
+        description: `${restoredCount} leads restaurados`,
+      });
+
+      return restoredCount;
+    } catch (error) {
+      setLastBatchDeletion(null);
+      toast({
+        title: "Erro",
+        description: error instanceof Error && error.message.startsWith("410")
+          ? "O prazo para desfazer a exclusão expirou"
+          : "Falha ao restaurar leads",
+        variant: "destructive",
+      });
+      console.error("Error restoring leads in batch:", error);
+      return 0;
+    }
+  };
+
   const deleteLeadsInBatch = async (ids: number[]): Promise<number> => {
     try {
-      const response = await invokeSupabaseFunction<{ deletedCount: number }>(
+      const response = await invokeSupabaseFunction<{ data: { deletedCount: number; deletedIds: number[]; restorableUntil: string } }>(
         "lead-functions",
         "POST",
         { ids },
@@ -147,11 +200,17 @@ export function LeadProvider({ children }: { children: ReactNode }) {
       await queryClient.invalidateQueries({ queryKey: ["leadsList"] });
       await queryClient.invalidateQueries({ queryKey: ["dashboardStats"] });
       
-      const deletedCount = response.deletedCount || 0;
-      
+      const { deletedCount = 0, deletedIds = [], restorableUntil } = response.data || {};
+      if (deletedIds.length > 0 && restorableUntil) {
+        setLastBatchDeletion({ ids: deletedIds, restorableUntil: new Date(restorableUntil) });
+      }
+
       toast({
         title: "Sucesso",
         description: `${deletedCount} leads excluídos com sucesso`,
+        action: deletedIds.length > 0 ? (
+          <ToastAction altText="Desfazer exclusão" onClick={() => restoreLeadsInBatch(deletedIds)}>Desfazer</ToastAction>
+        ) : undefined,
       });
       
       setSelectedLeadIds([]);
@@ -177,6 +236,8 @@ export function LeadProvider({ children }: { children: ReactNode }) {
     deleteLead,
     updateLeadsInBatch,
     deleteLeadsInBatch,
+    restoreLeadsInBatch,
+    lastBatchDeletion,
     selectedLeadIds,
     setSelectedLeadIds
   };
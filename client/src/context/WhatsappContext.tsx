@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, ReactNode, useEffect } from 'react';
 import { Lead } from '@/types'; // Updated
-import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/features/auth/hooks/use-auth';
+import { useWhatsappRealtime, useWhatsappStatus } from '@/features/whatsapp/hooks/useWhatsapp';
 
 interface WhatsappConnectionStatus {
   status: 'connected' | 'disconnected' | 'checking' | 'error';
@@ -28,22 +29,12 @@ export function WhatsappProvider({ children }: { children: ReactNode }) {
   const [isWhatsappOpen, setIsWhatsappOpen] = useState(false);
   const [selectedLeadForWhatsapp, setSelectedLeadForWhatsapp] = useState<Lead | null>(null);
 
-  // Consulta do status da conexão WhatsApp
-  const { data: statusData, refetch: refetchStatus, isLoading: isStatusLoading } = useQuery<{
-    status: 'connected' | 'disconnected' | 'error';
-    message: string;
-    details?: {
-      name?: string;
-      phone?: string;
-      quality?: string;
-      [key: string]: unknown; // Updated from any
-    };
-  }>({
-    queryKey: ['/api/whatsapp/status'],
-    retry: 1,
-    refetchOnWindowFocus: false,
-    refetchInterval: 60000, // Verificar a cada minuto
-  });
+  // Conversas e mensagens atualizadas em tempo real enquanto houver sessão
+  const { user } = useAuth();
+  useWhatsappRealtime(user?.id);
+
+  // Consulta do status da conexão WhatsApp (whatsapp-manager /status)
+  const { data: statusData, refetch: refetchStatus, isLoading: isStatusLoading } = useWhatsappStatus();
 
   // Definir o status da conexão com base na resposta da API
   const connectionStatus: WhatsappConnectionStatus = isStatusLoading
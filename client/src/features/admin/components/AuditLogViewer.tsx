@@ -73,7 +73,7 @@ export default function AuditLogViewer() {
       LOGIN_SUCCESS: 'Login Sucesso', LOGIN_FAILURE: 'Falha Login', LOGOUT: 'Logout',
       USER_CREATED: 'Usuário Criado', USER_UPDATED: 'Usuário Atualizado', USER_DELETED: 'Usuário Excluído',
       LEAD_CREATED: 'Lead Criado', LEAD_UPDATED: 'Lead Atualizado', LEAD_DELETED: 'Lead Excluído',
-      LEAD_BATCH_UPDATE: 'Leads (Lote)', LEAD_BATCH_DELETE: 'Leads Excluídos (Lote)'
+      LEAD_BATCH_UPDATE: 'Leads (Lote)', LEAD_BATCH_DELETE: 'Leads Excluídos (Lote)', LEAD_EXPORTED: 'Leads Exportados'
     };
     return eventTypes[type] || type;
   };
@@ -8,6 +8,8 @@ import TimelineChart from "./TimelineChart"; // Sibling, correct
 import TodayAppointmentCard from "./TodayAppointmentCard"; // Sibling, correct
 import GreetingWidget from "./GreetingWidget"; // Sibling, correct
 import UserWeatherWidget from "./UserWeatherWidget"; // Sibling, correct
+import PipelineMetricsCard, { PipelineStageMetric } from "./PipelineMetricsCard";
+import ScoreDistributionCard, { ScoreBucket } from "./ScoreDistributionCard";
 import { Button } from "@/components/inputs/Button"; // Updated path
 import { Filter } from "lucide-react"; // External, correct
 import { useTheme } from "@/providers/ThemeProvider"; // Updated path
@@ -23,6 +25,10 @@ interface DashboardStats {
   leadsByState: Record<string, number>;
   leadsByCampaign: Record<string, number>;
   totalLeadsByCampaign: number;
+  pipelineStages: PipelineStageMetric[];
+  pipelineDays: number;
+  scoreDistribution: ScoreBucket[];
+  averageScore: number;
 }
 
 export default function Dashboard() {
@@ -250,6 +256,16 @@ export default function Dashboard() {
           <TodayAppointmentCard />
         </div>
       </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 lg:col-span-2">
+          <PipelineMetricsCard stages={stats.pipelineStages || []} days={stats.pipelineDays ?? 90} />
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+          <ScoreDistributionCard buckets={stats.scoreDistribution || []} averageScore={stats.averageScore ?? 0} />
+        </div>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+
+export interface PipelineStageMetric {
+  stageId: number;
+  source: string | null; // null = funil padrão
+  name: string;
+  position: number;
+  kind: "open" | "won" | "lost";
+  currentLeads: number;
+  enteredLeads: number;
+  conversionRate: number | null; // % dos que entraram e avançaram; nulo para etapas finais
+  avgDaysInStage: number | null;
+}
+
+interface PipelineMetricsCardProps {
+  stages: PipelineStageMetric[];
+  days: number;
+}
+
+const pipelineOf = (stage: PipelineStageMetric) => stage.source ?? "Outras origens";
+
+export default function PipelineMetricsCard({ stages, days }: PipelineMetricsCardProps) {
+  const pipelines = Array.from(new Set(stages.map(pipelineOf)));
+  const [selected, setSelected] = useState<string | null>(null);
+  const pipeline = selected && pipelines.includes(selected) ? selected : pipelines[0];
+  const rows = stages.filter(stage => pipelineOf(stage) === pipeline).sort((a, b) => a.position - b.position);
+  const maxCurrent = Math.max(1, ...rows.map(row => row.currentLeads));
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-base font-medium text-gray-800 dark:text-white">Funil de Vendas</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Conversão e tempo médio por etapa {days > 0 ? `nos últimos ${days} dias` : "em todo o histórico"}
+          </p>
+        </div>
+        {pipelines.length > 1 && (
+          <Select value={pipeline} onValueChange={setSelected}>
+            <SelectTrigger className="h-8 w-[170px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {pipelines.map(key => <SelectItem key={key} value={key}>{key}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">Nenhuma etapa configurada.</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+            <span className="col-span-5">Etapa</span>
+            <span className="col-span-3 text-right">Entraram</span>
+            <span className="col-span-2 text-right">Avançaram</span>
+            <span className="col-span-2 text-right">Dias</span>
+          </div>
+          {rows.map(row => (
+            <div key={row.stageId} className="grid grid-cols-12 gap-2 items-center text-sm">
+              <div className="col-span-5 min-w-0">
+                <div className="flex justify-between gap-2">
+                  <span className="truncate text-gray-800 dark:text-gray-200">{row.name}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">{row.currentLeads} agora</span>
+                </div>
+                <div className="h-1.5 mt-1 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${row.kind === "won" ? "bg-green-500" : row.kind === "lost" ? "bg-red-400" : "bg-primary"}`}
+                    style={{ width: `${(row.currentLeads / maxCurrent) * 100}%` }}
+                  />
+                </div>
+              </div>
+              <span className="col-span-3 text-right text-gray-700 dark:text-gray-300">{row.enteredLeads}</span>
+              <span className="col-span-2 text-right font-medium text-gray-800 dark:text-white">
+                {row.conversionRate === null ? "—" : `${row.conversionRate}%`}
+              </span>
+              <span className="col-span-2 text-right text-gray-700 dark:text-gray-300">
+                {row.avgDaysInStage === null ? "—" : row.avgDaysInStage.toLocaleString("pt-BR")}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+export interface ScoreBucket {
+  label: string;
+  min: number | null; // inclusivo; nulo = sem limite
+  max: number | null; // exclusivo; nulo = sem limite
+  count: number;
+}
+
+interface ScoreDistributionCardProps {
+  buckets: ScoreBucket[];
+  averageScore: number;
+}
+
+const barColor = (bucket: ScoreBucket) => {
+  if (bucket.max !== null && bucket.max <= 0) return "bg-red-400";
+  if (bucket.min !== null && bucket.min >= 60) return "bg-green-500";
+  if (bucket.min !== null && bucket.min >= 20) return "bg-amber-400";
+  return "bg-gray-400";
+};
+
+export default function ScoreDistributionCard({ buckets, averageScore }: ScoreDistributionCardProps) {
+  const total = buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+  const maxCount = Math.max(1, ...buckets.map(bucket => bucket.count));
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-base font-medium text-gray-800 dark:text-white">Pontuação dos Leads</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">Leads por faixa de pontuação</p>
+        </div>
+        <div className="text-right">
+          <p className="text-lg font-semibold text-gray-800 dark:text-white">{averageScore.toLocaleString("pt-BR")}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">média</p>
+        </div>
+      </div>
+
+      {total === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">Nenhum lead pontuado.</p>
+      ) : (
+        <div className="space-y-3">
+          {buckets.map(bucket => (
+            <div key={bucket.label} className="grid grid-cols-12 gap-2 items-center text-sm">
+              <span className="col-span-3 text-gray-800 dark:text-gray-200">{bucket.label}</span>
+              <div className="col-span-7 h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                <div className={`h-full rounded-full ${barColor(bucket)}`} style={{ width: `${(bucket.count / maxCount) * 100}%` }} />
+              </div>
+              <span className="col-span-2 text-right text-gray-700 dark:text-gray-300">{bucket.count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/data-display/Card";
+import { Input } from "@/components/inputs/InputField";
+import { Switch } from "@/components/inputs/switch";
+import { Skeleton } from "@/components/data-display/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import { LEAD_SOURCES } from "../services/leadServices";
+import {
+  ASSIGNABLE_ROLES, ASSIGNMENT_STRATEGY_LABELS, LeadAssignmentRule, LeadAssignmentRulePayload, LeadAssignmentSettings,
+  LeadAssignmentStrategy, createAssignmentRule, deleteAssignmentRule, updateAssignmentRule, updateAssignmentSettings,
+} from "../services/leadAssignmentServices";
+import { useAssignableUsers, useAssignmentSettings } from "../hooks/useLeads";
+
+const EMPTY_RULE = { field: "source" as LeadAssignmentRule["field"], value: "", userId: "" };
+
+export default function LeadAssignmentConfig() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [newRule, setNewRule] = useState(EMPTY_RULE);
+  const [saving, setSaving] = useState(false);
+
+  const { data, isLoading } = useAssignmentSettings();
+  const { data: assignableUsers = [] } = useAssignableUsers();
+  const settings = data?.settings;
+  const rules = data?.rules || [];
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setSaving(true);
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: ["assignmentSettings"] });
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, fallback), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSettings = (changes: Partial<LeadAssignmentSettings>) =>
+    run(() => updateAssignmentSettings(changes), "Não foi possível salvar a configuração.");
+
+  const toggleRole = (role: string) => {
+    if (!settings) return;
+    const roles = settings.roles.includes(role) ? settings.roles.filter(r => r !== role) : [...settings.roles, role];
+    if (roles.length > 0) handleSettings({ roles });
+  };
+
+  const handleRuleUpdate = (rule: LeadAssignmentRule, changes: Partial<LeadAssignmentRulePayload>) =>
+    run(() => updateAssignmentRule(rule.id, changes), "Não foi possível atualizar a regra.");
+
+  const handleRuleDelete = (rule: LeadAssignmentRule) =>
+    run(() => deleteAssignmentRule(rule.id), "Não foi possível excluir a regra.");
+
+  // New rules go to the end, so the existing order is kept
+  const handleRuleCreate = () => run(async () => {
+    const position = rules.reduce((max, rule) => Math.max(max, rule.position), 0) + 1;
+    await createAssignmentRule({ ...newRule, value: newRule.value.trim(), position, active: true });
+    setNewRule(EMPTY_RULE);
+  }, "Não foi possível criar a regra.");
+
+  const handleRuleMove = (index: number, offset: number) => {
+    const current = rules[index];
+    const other = rules[index + offset];
+    return run(async () => {
+      await updateAssignmentRule(current.id, { position: other.position });
+      await updateAssignmentRule(other.id, { position: current.position === other.position ? current.position + offset : current.position });
+    }, "Não foi possível reordenar as regras.");
+  };
+
+  const userName = (userId: string) => assignableUsers.find(member => member.id === userId)?.name || "Usuário inativo";
+
+  if (isLoading || !settings) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="border-0 shadow-lg bg-white dark:bg-gray-800 rounded-2xl overflow-hidden">
+      <CardHeader className="bg-gradient-to-r from-purple-50 to-pink-50 dark:from-gray-700 dark:to-gray-800 pb-6">
+        <CardTitle className="text-2xl font-bold text-gray-900 dark:text-white">Distribuição de leads</CardTitle>
+        <CardDescription className="text-gray-600 dark:text-gray-300 text-base">
+          Novos leads (cadastro ou importação) recebem um responsável, que ganha uma tarefa de primeiro contato.
+          Ao desativar um usuário, os leads em aberto dele são redistribuídos.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-8 space-y-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <label className="flex items-center justify-between gap-4 text-sm">
+            <span>
+              <span className="font-medium block">Distribuir novos leads automaticamente</span>
+              <span className="text-gray-500 dark:text-gray-400">Desligado, os leads chegam sem responsável.</span>
+            </span>
+            <Switch checked={settings.autoAssign} onCheckedChange={(autoAssign) => handleSettings({ autoAssign })} disabled={saving} />
+          </label>
+          <div className="space-y-1 text-sm">
+            <span className="font-medium block">Prazo da tarefa de primeiro contato (horas)</span>
+            <Input
+              key={settings.slaHours}
+              type="number"
+              min={1}
+              max={720}
+              className="h-9 w-[120px]"
+              defaultValue={settings.slaHours}
+              onBlur={(e) => {
+                const slaHours = parseInt(e.target.value);
+                if (!isNaN(slaHours) && slaHours !== settings.slaHours) handleSettings({ slaHours });
+              }}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-1 text-sm">
+            <span className="font-medium block">Sem regra aplicável, distribuir por</span>
+            <Select value={settings.strategy} onValueChange={(value) => handleSettings({ strategy: value as LeadAssignmentStrategy })} disabled={saving}>
+              <SelectTrigger className="h-9 w-[300px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ASSIGNMENT_STRATEGY_LABELS) as LeadAssignmentStrategy[]).map(strategy => (
+                  <SelectItem key={strategy} value={strategy}>{ASSIGNMENT_STRATEGY_LABELS[strategy]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 text-sm">
+            <span className="font-medium block">Entre os usuários ativos dos perfis</span>
+            <div className="flex flex-wrap gap-1">
+              {ASSIGNABLE_ROLES.map(role => (
+                <button
+                  key={role.value}
+                  className={`rounded-full border px-3 py-0.5 text-xs ${settings.roles.includes(role.value) ? "bg-primary text-white border-primary" : "border-gray-200 dark:border-gray-700"}`}
+                  onClick={() => toggleRole(role.value)}
+                  disabled={saving}
+                >
+                  {role.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Regras por origem ou estado</h4>
+          <p className="text-xs text-gray-500 dark:text-gray-400">A primeira regra ativa que se aplica ao lead define o responsável.</p>
+          {rules.map((rule, index) => (
+            <div key={rule.id} className={`flex items-center gap-2 text-sm ${rule.active ? "" : "opacity-60"}`}>
+              <span className="w-[260px] shrink-0">
+                {rule.field === "source" ? "Origem" : "Estado"} = <span className="font-medium">{rule.value}</span>
+              </span>
+              <span className="material-icons text-base text-gray-400">arrow_forward</span>
+              <Select value={rule.userId} onValueChange={(userId) => handleRuleUpdate(rule, { userId })} disabled={saving}>
+                <SelectTrigger className="h-9 w-[220px]"><SelectValue>{userName(rule.userId)}</SelectValue></SelectTrigger>
+                <SelectContent>
+                  {assignableUsers.map(member => <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Switch
+                checked={rule.active}
+                onCheckedChange={(active) => handleRuleUpdate(rule, { active })}
+                disabled={saving}
+                title={rule.active ? "Desativar regra" : "Ativar regra"}
+              />
+              <button className="text-gray-500 disabled:opacity-30" onClick={() => handleRuleMove(index, -1)} disabled={saving || index === 0} title="Mover para cima">
+                <span className="material-icons text-base">arrow_upward</span>
+              </button>
+              <button className="text-gray-500 disabled:opacity-30" onClick={() => handleRuleMove(index, 1)} disabled={saving || index === rules.length - 1} title="Mover para baixo">
+                <span className="material-icons text-base">arrow_downward</span>
+              </button>
+              <button className="text-red-600 disabled:opacity-30" onClick={() => handleRuleDelete(rule)} disabled={saving} title="Excluir regra">
+                <span className="material-icons text-base">delete</span>
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+            <Select
+              value={newRule.field}
+              onValueChange={(value) => setNewRule(prev => ({ ...prev, field: value as LeadAssignmentRule["field"], value: "" }))}
+            >
+              <SelectTrigger className="h-9 w-[120px] shrink-0"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="source">Origem</SelectItem>
+                <SelectItem value="state">Estado</SelectItem>
+              </SelectContent>
+            </Select>
+            {newRule.field === "source" ? (
+              <Select value={newRule.value} onValueChange={(value) => setNewRule(prev => ({ ...prev, value }))}>
+                <SelectTrigger className="h-9 w-[130px] shrink-0"><SelectValue placeholder="Origem" /></SelectTrigger>
+                <SelectContent>
+                  {LEAD_SOURCES.map(source => <SelectItem key={source} value={source}>{source}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                className="h-9 w-[130px] shrink-0"
+                placeholder="UF"
+                maxLength={2}
+                value={newRule.value}
+                onChange={(e) => setNewRule(prev => ({ ...prev, value: e.target.value.toUpperCase() }))}
+              />
+            )}
+            <span className="material-icons text-base text-gray-400">arrow_forward</span>
+            <Select value={newRule.userId} onValueChange={(userId) => setNewRule(prev => ({ ...prev, userId }))}>
+              <SelectTrigger className="h-9 w-[220px]"><SelectValue placeholder="Responsável" /></SelectTrigger>
+              <SelectContent>
+                {assignableUsers.map(member => <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <button
+              className="bg-primary text-white rounded-md px-4 py-2 text-sm disabled:opacity-50 shrink-0"
+              onClick={handleRuleCreate}
+              disabled={saving || !newRule.value.trim() || !newRule.userId}
+            >
+              Adicionar
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Carga atual</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+            {assignableUsers.filter(member => settings.roles.includes(member.role)).map(member => (
+              <div key={member.id} className="flex justify-between rounded-md border border-gray-200 dark:border-gray-700 px-3 py-2 text-sm">
+                <span className="truncate">{member.name}</span>
+                <span className="text-gray-500 dark:text-gray-400 shrink-0">{member.openLeads} em aberto</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,9 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/feedback/dialog"; // Updated path
 import { useLeadContext } from "@/context/LeadContext"; // Correct
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/navigation/tabs";
 import LeadForm from "./LeadForm"; // Correct
+import LeadTimeline from "./LeadTimeline";
+import LeadOwnerPicker from "./LeadOwnerPicker";
 import { InsertLead } from "@/types"; // Updated
 
 export default function LeadDialog() {
@@ -36,11 +39,31 @@ export default function LeadDialog() {
             {selectedLead ? "Modifique as informações do lead selecionado abaixo." : "Preencha os dados abaixo para adicionar um novo lead ao sistema."}
           </DialogDescription>
         </DialogHeader>
-        <LeadForm 
-          lead={selectedLead} 
-          onSubmit={handleSubmit}
-          onCancel={handleClose}
-        />
+        {selectedLead ? (
+          <Tabs defaultValue="details">
+            <TabsList className="mb-2">
+              <TabsTrigger value="details">Dados</TabsTrigger>
+              <TabsTrigger value="timeline">Histórico</TabsTrigger>
+            </TabsList>
+            <TabsContent value="details">
+              <LeadOwnerPicker leadId={selectedLead.id} ownerId={selectedLead.ownerId ?? null} />
+              <LeadForm 
+                lead={selectedLead} 
+                onSubmit={handleSubmit}
+                onCancel={handleClose}
+              />
+            </TabsContent>
+            <TabsContent value="timeline">
+              <LeadTimeline leadId={selectedLead.id} />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          <LeadForm 
+            lead={selectedLead} 
+            onSubmit={handleSubmit}
+            onCancel={handleClose}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/data-display/badge";
+import { Skeleton } from "@/components/data-display/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/data-display/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/feedback/dialog";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import {
+  DUPLICATE_REASON_LABELS, DuplicateLead, LeadDuplicatePair, LeadMergeField, MERGE_FIELDS,
+  dismissLeadDuplicate, fetchLeadDuplicates, mergeLeads,
+} from "../services/leadDuplicateServices";
+
+interface LeadDuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const isEmptyValue = (value: unknown) => value === null || value === undefined || value === "";
+
+const formatFieldValue = (lead: DuplicateLead, field: LeadMergeField): string => {
+  const value = lead[field];
+  if (isEmptyValue(value)) return "—";
+  if (value instanceof Date) return value.toLocaleDateString("pt-BR");
+  return String(value);
+};
+
+// Keeps the student record (only one lead may have it) or else the oldest lead
+const defaultSurvivor = (pair: LeadDuplicatePair) =>
+  pair.duplicate.isStudent && !pair.lead.isStudent ? pair.duplicate : pair.lead;
+
+// Each field starts with the survivor's value, unless it is empty and the other lead has one
+const defaultWinners = (survivor: DuplicateLead, other: DuplicateLead): Record<LeadMergeField, number> =>
+  Object.fromEntries(MERGE_FIELDS.map(({ key }) => [
+    key,
+    isEmptyValue(survivor[key]) && !isEmptyValue(other[key]) ? other.id : survivor.id,
+  ])) as Record<LeadMergeField, number>;
+
+export default function LeadDuplicatesDialog({ open, onOpenChange }: LeadDuplicatesDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [selectedPair, setSelectedPair] = useState<LeadDuplicatePair | null>(null);
+  const [survivorId, setSurvivorId] = useState<number | null>(null);
+  const [winners, setWinners] = useState<Record<LeadMergeField, number> | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  const { data: pairs = [], isLoading } = useQuery<LeadDuplicatePair[]>({
+    queryKey: ["leadsList", "duplicates"],
+    queryFn: fetchLeadDuplicates,
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) setSelectedPair(null);
+  }, [open]);
+
+  const pairLeads = selectedPair ? [selectedPair.lead, selectedPair.duplicate] : [];
+  const survivor = pairLeads.find(l => l.id === survivorId) || null;
+  const other = pairLeads.find(l => l.id !== survivorId) || null;
+  const bothStudents = !!selectedPair && selectedPair.lead.isStudent && selectedPair.duplicate.isStudent;
+  const mergedTags = Array.from(new Set(pairLeads.flatMap(l => l.tags || []).filter(Boolean))).sort();
+
+  const openPair = (pair: LeadDuplicatePair) => {
+    const keep = defaultSurvivor(pair);
+    const drop = keep.id === pair.lead.id ? pair.duplicate : pair.lead;
+    setSelectedPair(pair);
+    setSurvivorId(keep.id);
+    setWinners(defaultWinners(keep, drop));
+  };
+
+  const changeSurvivor = (lead: DuplicateLead) => {
+    if (!selectedPair) return;
+    const drop = lead.id === selectedPair.lead.id ? selectedPair.duplicate : selectedPair.lead;
+    setSurvivorId(lead.id);
+    setWinners(defaultWinners(lead, drop));
+  };
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: ["leadsList"] });
+    await queryClient.invalidateQueries({ queryKey: ["tasksList"] });
+    await queryClient.invalidateQueries({ queryKey: ["dashboardStats"] });
+  };
+
+  const handleDismiss = async (pair: LeadDuplicatePair) => {
+    try {
+      await dismissLeadDuplicate(pair.lead.id, pair.duplicate.id);
+      await queryClient.invalidateQueries({ queryKey: ["leadsList", "duplicates"] });
+      setSelectedPair(null);
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível descartar o par."), variant: "destructive" });
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!survivor || !other || !winners) return;
+    setMerging(true);
+    try {
+      // Fields left out keep the survivor's value
+      const fields = Object.fromEntries(Object.entries(winners).filter(([, id]) => id !== survivor.id));
+      const result = await mergeLeads({ survivorId: survivor.id, mergedIds: [other.id], fields });
+      const { whatsappMessages, tasks, activities, students } = result.moved;
+      toast({
+        title: "Leads mesclados",
+        description: `${other.name} foi incorporado a ${result.lead.name}. Movidos: ${whatsappMessages} mensagem(ns) de WhatsApp, ${tasks} tarefa(s), ${activities} nota(s) e ligação(ões)${students ? " e o cadastro de aluno" : ""}.`,
+      });
+      setSelectedPair(null);
+      await refresh();
+    } catch (error) {
+      toast({ title: "Erro ao mesclar", description: getSessionErrorMessage(error, "Não foi possível mesclar os leads."), variant: "destructive" });
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const cellClasses = (selected: boolean) =>
+    `cursor-pointer rounded-md px-2 py-1 text-sm ${selected ? "bg-primary/10 ring-1 ring-primary font-medium" : "hover:bg-gray-50 dark:hover:bg-gray-800"}`;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !merging && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[860px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{selectedPair ? "Mesclar leads" : "Possíveis leads duplicados"}</DialogTitle>
+          <DialogDescription>
+            {selectedPair
+              ? "Escolha qual registro será mantido e clique no valor que deve prevalecer em cada campo. As tags dos dois leads são combinadas."
+              : "Leads com o mesmo telefone (últimos 8 dígitos), o mesmo e-mail (ignorando apelidos \"+\" e pontos do Gmail) ou nomes muito parecidos."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!selectedPair && (
+          isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-14 w-full" />
+              <Skeleton className="h-14 w-full" />
+              <Skeleton className="h-14 w-full" />
+            </div>
+          ) : pairs.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">Nenhum possível duplicado encontrado.</p>
+          ) : (
+            <div className="space-y-2">
+              {pairs.map(pair => (
+                <div key={`${pair.lead.id}-${pair.duplicate.id}`} className="flex flex-col md:flex-row md:items-center gap-3 border border-gray-200 dark:border-gray-700 rounded-md p-3">
+                  <div className="grid grid-cols-2 gap-3 flex-1 text-sm">
+                    {[pair.lead, pair.duplicate].map(lead => (
+                      <div key={lead.id} className="min-w-0">
+                        <div className="font-medium truncate">{lead.name}{lead.isStudent ? " (aluno)" : ""}</div>
+                        <div className="text-xs text-muted-foreground truncate">{lead.email || "—"} · {lead.phone || "—"}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {pair.reasons.map(reason => <Badge key={reason} variant="secondary">{DUPLICATE_REASON_LABELS[reason]}</Badge>)}
+                    {!pair.reasons.includes("name") && pair.nameSimilarity >= 0.5 && (
+                      <Badge variant="outline">Nome {Math.round(pair.nameSimilarity * 100)}% parecido</Badge>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <button className="border rounded-md px-3 py-1 text-sm" onClick={() => handleDismiss(pair)}>Não são duplicados</button>
+                    <button className="bg-primary text-white rounded-md px-3 py-1 text-sm" onClick={() => openPair(pair)}>Comparar</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        {selectedPair && survivor && other && winners && (
+          <div className="space-y-3">
+            {bothStudents && (
+              <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-md px-3 py-2 text-sm">
+                Os dois leads já têm cadastro de aluno. Um lead só pode ter um aluno vinculado, por isso eles não podem ser mesclados.
+              </div>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-36">Campo</TableHead>
+                  {pairLeads.map(lead => (
+                    <TableHead key={lead.id}>
+                      <button className={cellClasses(lead.id === survivor.id)} onClick={() => changeSurvivor(lead)}>
+                        {lead.id === survivor.id ? "Manter este registro" : "Incorporar e excluir"}
+                        {lead.isStudent ? " · aluno" : ""}
+                      </button>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {MERGE_FIELDS.map(({ key, label }) => (
+                  <TableRow key={key}>
+                    <TableCell className="font-medium text-sm">{label}</TableCell>
+                    {pairLeads.map(lead => (
+                      <TableCell key={lead.id}>
+                        <div
+                          className={cellClasses(winners[key] === lead.id)}
+                          onClick={() => setWinners({ ...winners, [key]: lead.id })}
+                        >
+                          {formatFieldValue(lead, key)}
+                        </div>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-medium text-sm">Tags</TableCell>
+                  <TableCell colSpan={2}>
+                    <div className="flex flex-wrap gap-1">
+                      {mergedTags.length > 0 ? mergedTags.map(tag => <Badge key={tag} variant="outline">{tag}</Badge>) : <span className="text-sm text-muted-foreground">—</span>}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground">
+              O histórico de WhatsApp, as tarefas e o cadastro de aluno de {other.name} passam para o registro mantido; depois {other.name} é excluído.
+              A mesclagem fica registrada no log de auditoria.
+            </p>
+          </div>
+        )}
+
+        {selectedPair && (
+          <DialogFooter>
+            <button className="border rounded-md px-4 py-2 text-sm" onClick={() => setSelectedPair(null)} disabled={merging}>Voltar</button>
+            <button className="border rounded-md px-4 py-2 text-sm" onClick={() => handleDismiss(selectedPair)} disabled={merging}>Não são duplicados</button>
+            <button className="bg-primary text-white rounded-md px-4 py-2 text-sm disabled:opacity-50" onClick={handleMerge} disabled={merging || bothStudents}>
+              {merging ? "Mesclando..." : "Mesclar"}
+            </button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,7 +3,9 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm, useWatch } from "react-hook-form";
 import { Lead, InsertLead, leadValidationSchema } from "@/types"; // Updated
 import TagInput from "./TagInput";
-import LeadStatusChangeNotification from "./LeadStatusChangeNotification";
+import StudentConversionWizard from "./StudentConversionWizard";
+import StudentDeactivationDialog from "./StudentDeactivationDialog";
+import { fetchLeadById } from "../services/leadServices";
 
 interface LeadFormProps {
   lead?: Lead | null;
@@ -13,16 +15,26 @@ interface LeadFormProps {
 
 export default function LeadForm({ lead, onSubmit, onCancel }: LeadFormProps) {
   const [tags, setTags] = useState<string[]>(lead?.tags || []);
-  const [showStatusNotification, setShowStatusNotification] = useState(false);
+  const [statusTransition, setStatusTransition] = useState<"convert" | "deactivate" | null>(null);
   const originalStatus = useRef(lead?.status || "Lead");
   const formattedData = useRef<InsertLead | null>(null);
   
-  // Função para lidar com o resultado da notificação
-  const handleNotificationResult = (sendNotification: boolean, message?: string) => {
-    setShowStatusNotification(false);
-    if (formattedData.current) {
-      onSubmit(formattedData.current);
-      formattedData.current = null;
+  // Salva as demais alterações do formulário depois da conversão/desativação do aluno. Quando o status já
+  // foi alterado no servidor (a desativação sempre deixa "Ex-Aluno"), usa o status recarregado do lead
+  const handleTransitionDone = async (statusChanged: boolean) => {
+    setStatusTransition(null);
+    const pending = formattedData.current;
+    formattedData.current = null;
+    if (!pending || !lead?.id) return;
+    if (!statusChanged) {
+      onSubmit(pending);
+      return;
+    }
+    try {
+      const current = await fetchLeadById(lead.id);
+      onSubmit({ ...pending, status: current.status });
+    } catch (error) {
+      console.error('Error reloading lead after status change:', error);
     }
   };
   
@@ -129,17 +141,15 @@ export default function LeadForm({ lead, onSubmit, onCancel }: LeadFormProps) {
       };
       console.log('Normalized form data for submission:', normalizedFormData);
       
-      // Check if status is changing from Lead to Aluno
-      if (
-        originalStatus.current === "Lead" && 
-        data.status === "Aluno" &&
-        lead?.id // Only existing leads with ID
-      ) {
-        // Store the formatted data and show notification dialog
+      // Entering or leaving "Aluno" creates/deactivates the student record first (existing leads only)
+      const becomesStudent = originalStatus.current !== "Aluno" && data.status === "Aluno";
+      const leavesStudent = originalStatus.current === "Aluno" && data.status !== "Aluno";
+      if (lead?.id && (becomesStudent || leavesStudent)) {
+        // Store the formatted data and open the conversion wizard / deactivation dialog
         formattedData.current = normalizedFormData;
-        setShowStatusNotification(true);
+        setStatusTransition(becomesStudent ? "convert" : "deactivate");
       } else {
-        // Submit directly if no status change or not a lead->aluno transition
+        // Submit directly if the student status did not change
         onSubmit(normalizedFormData);
       }
     } catch (error) {
@@ -291,6 +301,15 @@ export default function LeadForm({ lead, onSubmit, onCancel }: LeadFormProps) {
             />
             <span className="ml-2 text-sm text-gray-700 dark:text-gray-200">Aluno</span>
           </label>
+          <label className="inline-flex items-center">
+            <input 
+              type="radio" 
+              value="Ex-Aluno" 
+              className="text-primary"
+              {...register("status")}
+            />
+            <span className="ml-2 text-sm text-gray-700 dark:text-gray-200">Ex-Aluno</span>
+          </label>
         </div>
         {errors.status && (
           <p className="mt-1 text-xs text-red-600">{errors.status.message}</p>
@@ -336,12 +355,21 @@ export default function LeadForm({ lead, onSubmit, onCancel }: LeadFormProps) {
         </button>
       </div>
       
-      {lead && showStatusNotification && (
-        <LeadStatusChangeNotification
+      {lead && statusTransition === "convert" && (
+        <StudentConversionWizard
+          lead={lead}
+          isOpen
+          onClose={() => setStatusTransition(null)}
+          onConverted={() => handleTransitionDone(true)}
+        />
+      )}
+      
+      {lead && statusTransition === "deactivate" && (
+        <StudentDeactivationDialog
           lead={lead}
-          isOpen={showStatusNotification}
-          onClose={() => setShowStatusNotification(false)}
-          onSubmitChange={handleNotificationResult}
+          isOpen
+          onClose={() => setStatusTransition(null)}
+          onDone={handleTransitionDone}
         />
       )}
     </form>
@@ -0,0 +1,394 @@
+import { useRef, useState, ChangeEvent } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Progress } from "@/components/data-display/progress";
+import { Badge } from "@/components/data-display/badge";
+import { Button } from "@/components/inputs/Button";
+import { Input } from "@/components/inputs/InputField";
+import { Label } from "@/components/inputs/label";
+import { ScrollArea } from "@/components/layout-helpers/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/data-display/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/feedback/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/inputs/select";
+import {
+  ImportBatchResult, ImportDefaults, ImportMapping, ImportPreview, ImportRow, ImportRowError, ParsedSheet,
+  LEAD_SOURCES, LEAD_STATUSES, buildImportRows, deleteImportPreset, fetchImportPresets, findMatchingPreset,
+  guessMapping, importLeadRows, leadImportFieldLabels, leadImportFields, parseLeadFile, previewLeadImport, saveImportPreset,
+} from "../services/leadImportServices";
+
+type ImportStep = "upload" | "mapping" | "preview" | "importing" | "done";
+
+type ImportStats = {
+  currentBatch: number; totalBatches: number; processedCount: number; successCount: number;
+  errorCount: number; updatedCount: number; totalCount: number; currentBatchSize: number;
+  statusMessage: string; batchResults: ImportBatchResult[];
+};
+
+const initialImportStats: ImportStats = {
+  currentBatch: 0, totalBatches: 0, processedCount: 0, successCount: 0, errorCount: 0,
+  updatedCount: 0, totalCount: 0, currentBatchSize: 0, statusMessage: 'Aguardando início da importação', batchResults: []
+};
+
+const NO_COLUMN = "__none__";
+const NO_DEFAULT = "__none__";
+const PREVIEW_ROW_LIMIT = 100;
+
+interface LeadImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function LeadImportDialog({ open, onOpenChange }: LeadImportDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [defaults, setDefaults] = useState<ImportDefaults>({ source: "", status: "Lead", campaign: "Importação em Lote" });
+  const [fileSource, setFileSource] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [rowsToImport, setRowsToImport] = useState<ImportRow[]>([]);
+  const [importErrors, setImportErrors] = useState<ImportRowError[]>([]);
+  const [previewProgress, setPreviewProgress] = useState(0);
+  const [isWorking, setIsWorking] = useState(false);
+  const [importStats, setImportStats] = useState<ImportStats>(initialImportStats);
+
+  const { data: presets = [] } = useQuery({ queryKey: ["leadImportPresets"], queryFn: fetchImportPresets, enabled: open });
+
+  const reset = () => {
+    setStep("upload"); setSheet(null); setMapping({}); setFileSource(""); setPreview(null);
+    setRowsToImport([]); setImportErrors([]); setPreviewProgress(0); setImportStats(initialImportStats);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value && step === "importing") return; // Chunks already sent cannot be cancelled
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFileUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = await parseLeadFile(file);
+      if (parsed.rows.length === 0) throw new Error("Nenhuma linha de dados encontrada abaixo do cabeçalho.");
+      const preset = findMatchingPreset(presets, parsed.headers);
+      setSheet(parsed);
+      setMapping(preset ? preset.mapping : guessMapping(parsed.headers));
+      setFileSource(preset?.fileSource || "");
+      setStep("mapping");
+      toast({
+        title: "Arquivo carregado",
+        description: `${parsed.rows.length} linhas em ${file.name}${preset ? `. Modelo "${preset.fileSource}" aplicado.` : '.'}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro ao ler arquivo",
+        description: error instanceof Error ? error.message : "Não foi possível ler o arquivo.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const applyPreset = (id: string) => {
+    const preset = presets.find(p => String(p.id) === id);
+    if (!preset || !sheet) return;
+    // Columns missing from this file are left unmapped
+    setMapping(Object.fromEntries(Object.entries(preset.mapping).filter(([, header]) => header && sheet.headers.includes(header))));
+    setFileSource(preset.fileSource);
+  };
+
+  const handleSavePreset = async () => {
+    if (!fileSource.trim()) return;
+    try {
+      await saveImportPreset(fileSource.trim(), mapping);
+      await queryClient.invalidateQueries({ queryKey: ["leadImportPresets"] });
+      toast({ title: "Modelo salvo", description: `O mapeamento de "${fileSource.trim()}" será sugerido nas próximas importações.` });
+    } catch (error) {
+      toast({ title: "Erro", description: "Não foi possível salvar o modelo de importação.", variant: "destructive" });
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    const preset = presets.find(p => p.fileSource === fileSource.trim());
+    if (!preset) return;
+    try {
+      await deleteImportPreset(preset.id);
+      await queryClient.invalidateQueries({ queryKey: ["leadImportPresets"] });
+      toast({ title: "Modelo excluído", description: `O modelo "${preset.fileSource}" foi removido.` });
+    } catch (error) {
+      toast({ title: "Erro", description: "Não foi possível excluir o modelo de importação.", variant: "destructive" });
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!sheet) return;
+    const { rows, errors } = buildImportRows(sheet, mapping, defaults);
+    setIsWorking(true); setPreviewProgress(0);
+    try {
+      const result = rows.length > 0
+        ? await previewLeadImport(rows, processed => setPreviewProgress(Math.round((processed / rows.length) * 100)))
+        : { inserts: [], updates: [], errors: [] };
+      const allErrors = [...errors, ...result.errors].sort((a, b) => a.rowNumber - b.rowNumber);
+      const validRows = new Set([...result.inserts, ...result.updates].map(r => r.rowNumber));
+      setPreview({ ...result, errors: allErrors });
+      setRowsToImport(rows.filter(r => validRows.has(r.rowNumber)));
+      setStep("preview");
+    } catch (error) {
+      toast({
+        title: "Erro na pré-visualização",
+        description: error instanceof Error ? error.message : "Não foi possível validar o arquivo.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const confirmImport = async () => {
+    if (rowsToImport.length === 0) return;
+    setStep("importing");
+    setImportErrors([]);
+    setImportStats({ ...initialImportStats, totalCount: rowsToImport.length, statusMessage: 'Iniciando importação...' });
+
+    const totals = await importLeadRows(rowsToImport, {
+      onBatchStart: (batch, totalBatches, size) => setImportStats(prev => ({
+        ...prev, currentBatch: batch, totalBatches, currentBatchSize: size,
+        statusMessage: `Enviando lote ${batch} de ${totalBatches} (${size} leads)...`,
+      })),
+      onBatchDone: (result, errors) => {
+        setImportStats(prev => ({
+          ...prev,
+          processedCount: prev.processedCount + prev.currentBatchSize,
+          successCount: prev.successCount + result.success,
+          updatedCount: prev.updatedCount + result.updated,
+          errorCount: prev.errorCount + result.errors,
+          batchResults: [...prev.batchResults, result],
+        }));
+        setImportErrors(prev => [...prev, ...errors]);
+      },
+    });
+
+    setImportStats(prev => ({ ...prev, statusMessage: 'Importação concluída' }));
+    setStep("done");
+    await queryClient.invalidateQueries({ queryKey: ["leadsList"] });
+    toast({
+      title: "Importação concluída",
+      description: `${totals.success} leads criados, ${totals.updated} atualizados, ${totals.errors.length} com erro.`,
+      variant: totals.errors.length > 0 ? "destructive" : "default",
+    });
+  };
+
+  const previewRows = preview ? [
+    ...preview.inserts.map(r => ({ rowNumber: r.rowNumber, name: r.lead.name, action: "insert" as const, detail: r.lead.email || r.lead.phone || "" })),
+    ...preview.updates.map(r => ({ rowNumber: r.rowNumber, name: r.lead.name, action: "update" as const, detail: `Atualiza lead #${r.leadId} (${r.currentName})` })),
+    ...preview.errors.map(r => ({ rowNumber: r.rowNumber, name: sheet?.rows.find(row => row.rowNumber === r.rowNumber)?.values[mapping.name || ""] || "", action: "error" as const, detail: r.error })),
+  ].sort((a, b) => a.rowNumber - b.rowNumber) : [];
+
+  const importPercent = importStats.totalCount > 0 ? Math.round((importStats.processedCount / importStats.totalCount) * 100) : 0;
+  const hasIdentifier = !!(mapping.name && (mapping.email || mapping.phone));
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Importar leads</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Selecione uma planilha CSV ou XLSX com uma linha de cabeçalho."}
+            {step === "mapping" && `${sheet?.fileName}: associe as colunas da planilha aos campos do lead.`}
+            {step === "preview" && "Confira o que será feito antes de gravar. Nada foi salvo ainda."}
+            {(step === "importing" || step === "done") && importStats.statusMessage}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="flex flex-col items-center justify-center gap-3 border-2 border-dashed rounded-md py-10">
+            <span className="material-icons text-4xl text-muted-foreground">upload_file</span>
+            <Button onClick={() => fileInputRef.current?.click()}>Selecionar arquivo</Button>
+            <p className="text-xs text-muted-foreground">Leads com telefone ou e-mail já cadastrados serão atualizados.</p>
+            <input ref={fileInputRef} type="file" accept=".csv,.txt,.xlsx,.xls" className="hidden" onChange={handleFileUpload} />
+          </div>
+        )}
+
+        {step === "mapping" && sheet && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 rounded-md border p-3">
+              <div className="space-y-1">
+                <Label>Modelo salvo</Label>
+                <Select onValueChange={applyPreset} value={String(presets.find(p => p.fileSource === fileSource)?.id ?? "")}>
+                  <SelectTrigger><SelectValue placeholder={presets.length ? "Aplicar modelo" : "Nenhum modelo salvo"} /></SelectTrigger>
+                  <SelectContent>
+                    {presets.map(p => <SelectItem key={p.id} value={String(p.id)}>{p.fileSource}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Origem do arquivo</Label>
+                <div className="flex gap-2">
+                  <Input value={fileSource} onChange={e => setFileSource(e.target.value)} placeholder="Ex.: Planilha Pink" />
+                  <Button variant="outline" onClick={handleSavePreset} disabled={!fileSource.trim()}>Salvar</Button>
+                  {presets.some(p => p.fileSource === fileSource.trim()) && (
+                    <Button variant="ghost" size="icon" onClick={handleDeletePreset} title="Excluir modelo">
+                      <span className="material-icons text-sm">delete</span>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <ScrollArea className="h-[320px] pr-3">
+              <div className="space-y-2">
+                {leadImportFields.map(field => {
+                  const header = mapping[field];
+                  const sample = header ? sheet.rows.find(r => r.values[header])?.values[header] : undefined;
+                  return (
+                    <div key={field} className="grid grid-cols-[140px_1fr_1fr] items-center gap-3">
+                      <Label>{leadImportFieldLabels[field]}</Label>
+                      <Select
+                        value={header || NO_COLUMN}
+                        onValueChange={value => setMapping(prev => {
+                          const next = { ...prev };
+                          if (value === NO_COLUMN) delete next[field]; else next[field] = value;
+                          return next;
+                        })}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_COLUMN}>— Não importar —</SelectItem>
+                          {sheet.headers.map(h => <SelectItem key={h} value={h}>{h}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <span className="text-xs text-muted-foreground truncate">{sample ? `Ex.: ${sample}` : ""}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 rounded-md border p-3">
+              <p className="md:col-span-3 text-xs text-muted-foreground">Valores usados quando a coluna não foi mapeada ou está vazia:</p>
+              <Select value={defaults.source || NO_DEFAULT} onValueChange={value => setDefaults(prev => ({ ...prev, source: value === NO_DEFAULT ? "" : value }))}>
+                <SelectTrigger><SelectValue placeholder="Origem padrão" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_DEFAULT}>Origem: padrão do sistema</SelectItem>
+                  {LEAD_SOURCES.map(s => <SelectItem key={s} value={s}>Origem: {s}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={defaults.status} onValueChange={value => setDefaults(prev => ({ ...prev, status: value }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {LEAD_STATUSES.map(s => <SelectItem key={s} value={s}>Status: {s}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Input value={defaults.campaign} onChange={e => setDefaults(prev => ({ ...prev, campaign: e.target.value }))} placeholder="Campanha padrão" />
+            </div>
+
+            {isWorking && <Progress value={previewProgress} className="h-2" />}
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Badge className="bg-green-500">{preview.inserts.length} novos</Badge>
+              <Badge className="bg-blue-500">{preview.updates.length} atualizações</Badge>
+              <Badge variant={preview.errors.length ? "destructive" : "outline"}>{preview.errors.length} com erro</Badge>
+            </div>
+            <ScrollArea className="h-[360px] rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[70px]">Linha</TableHead>
+                    <TableHead>Nome</TableHead>
+                    <TableHead className="w-[110px]">Ação</TableHead>
+                    <TableHead>Detalhe</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+                    <TableRow key={`${row.action}-${row.rowNumber}`}>
+                      <TableCell>{row.rowNumber || "—"}</TableCell>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell>
+                        {row.action === "insert" && <Badge variant="outline" className="text-green-600 border-green-300">Novo</Badge>}
+                        {row.action === "update" && <Badge variant="outline" className="text-blue-600 border-blue-300">Atualizar</Badge>}
+                        {row.action === "error" && <Badge variant="outline" className="text-red-600 border-red-300">Erro</Badge>}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{row.detail}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {previewRows.length > PREVIEW_ROW_LIMIT && (
+                <p className="p-2 text-xs text-center text-muted-foreground">Exibindo {PREVIEW_ROW_LIMIT} de {previewRows.length} linhas.</p>
+              )}
+            </ScrollArea>
+          </div>
+        )}
+
+        {(step === "importing" || step === "done") && (
+          <div className="space-y-3">
+            <Progress value={importPercent} className="h-2" />
+            <div className="flex justify-between text-sm">
+              <span>Lote {importStats.currentBatch} de {importStats.totalBatches}</span>
+              <span>{importStats.processedCount} / {importStats.totalCount} leads</span>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-center text-sm">
+              <div className="rounded-md border p-2"><p className="text-lg font-semibold text-green-600">{importStats.successCount}</p>criados</div>
+              <div className="rounded-md border p-2"><p className="text-lg font-semibold text-blue-600">{importStats.updatedCount}</p>atualizados</div>
+              <div className="rounded-md border p-2"><p className="text-lg font-semibold text-red-600">{importStats.errorCount}</p>com erro</div>
+            </div>
+            {importStats.batchResults.length > 0 && (
+              <ScrollArea className="h-[140px] rounded-md border p-2">
+                {importStats.batchResults.map(r => (
+                  <p key={r.batch} className="text-xs text-muted-foreground">
+                    Lote {r.batch}: {r.success} criados, {r.updated} atualizados, {r.errors} erros
+                  </p>
+                ))}
+                {importErrors.map((e, i) => (
+                  <p key={`error-${i}`} className="text-xs text-red-600">Linha {e.rowNumber || "?"}: {e.error}</p>
+                ))}
+              </ScrollArea>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "mapping" && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={isWorking}>Trocar arquivo</Button>
+              <Button onClick={handlePreview} disabled={isWorking || !hasIdentifier}>
+                {isWorking ? "Validando..." : "Pré-visualizar"}
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("mapping")}>Voltar ao mapeamento</Button>
+              <Button onClick={confirmImport} disabled={rowsToImport.length === 0}>
+                Importar {rowsToImport.length} leads
+              </Button>
+            </>
+          )}
+          {step === "done" && <Button onClick={() => handleOpenChange(false)}>Fechar</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
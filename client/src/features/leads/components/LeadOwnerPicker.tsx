@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/features/auth/hooks/use-auth";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import { setLeadOwner } from "../services/leadAssignmentServices";
+import { useAssignableUsers } from "../hooks/useLeads";
+
+interface LeadOwnerPickerProps {
+  leadId: number;
+  ownerId: string | null;
+}
+
+const UNASSIGNED = "none";
+
+// Admins may assign any lead; other users only hand over their own leads or take unassigned ones
+export default function LeadOwnerPicker({ leadId, ownerId }: LeadOwnerPickerProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const { data: assignableUsers = [] } = useAssignableUsers();
+  const [currentOwnerId, setCurrentOwnerId] = useState(ownerId);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => { setCurrentOwnerId(ownerId); }, [leadId, ownerId]);
+
+  const isAdmin = profile?.role === "admin";
+  const canChange = isAdmin || currentOwnerId === user?.id;
+  const canClaim = !currentOwnerId && !!user;
+
+  const assign = async (payload: { ownerId?: string | null; automatic?: boolean }) => {
+    setSaving(true);
+    try {
+      setCurrentOwnerId(await setLeadOwner(leadId, payload));
+      await queryClient.invalidateQueries({ queryKey: ["leadsList"] });
+      await queryClient.invalidateQueries({ queryKey: ["tasksList"] });
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível alterar o responsável."), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const ownerName = currentOwnerId
+    ? assignableUsers.find(member => member.id === currentOwnerId)?.name || "Usuário inativo"
+    : "Sem responsável";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+      <span className="text-gray-500 dark:text-gray-400">Responsável:</span>
+      {canChange ? (
+        <Select
+          value={currentOwnerId || UNASSIGNED}
+          onValueChange={(value) => assign({ ownerId: value === UNASSIGNED ? null : value })}
+          disabled={saving}
+        >
+          <SelectTrigger className="h-8 w-[220px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Sem responsável</SelectItem>
+            {currentOwnerId && !assignableUsers.some(member => member.id === currentOwnerId) && (
+              <SelectItem value={currentOwnerId}>Usuário inativo</SelectItem>
+            )}
+            {assignableUsers.map(member => (
+              <SelectItem key={member.id} value={member.id}>{member.name} ({member.openLeads} em aberto)</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <span className="font-medium">{ownerName}</span>
+      )}
+      {canClaim && !isAdmin && (
+        <button className="border rounded-md px-3 py-1 text-xs disabled:opacity-50" onClick={() => assign({ ownerId: user!.id })} disabled={saving}>
+          Assumir lead
+        </button>
+      )}
+      {isAdmin && (
+        <button className="border rounded-md px-3 py-1 text-xs disabled:opacity-50" onClick={() => assign({ automatic: true })} disabled={saving}>
+          Distribuir automaticamente
+        </button>
+      )}
+    </div>
+  );
+}
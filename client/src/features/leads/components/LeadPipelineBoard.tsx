@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { DragDropContext, Droppable, Draggable, DroppableProvided, DraggableProvided } from "react-beautiful-dnd";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/features/auth/hooks/use-auth";
+import { useLeadContext } from "@/context/LeadContext";
+import { Skeleton } from "@/components/data-display/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import { LeadExportFilters } from "../services/leadServices";
+import {
+  DEFAULT_PIPELINE, PipelineColumn, moveLeadToStage, pipelineKey, pipelineLabel,
+} from "../services/leadPipelineServices";
+import { usePipelineBoard, usePipelineStages } from "../hooks/useLeads";
+import PipelineStagesDialog from "./PipelineStagesDialog";
+
+interface LeadPipelineBoardProps {
+  filters: Omit<LeadExportFilters, "source">;
+}
+
+const daysSince = (date: Date) => Math.max(0, Math.floor((Date.now() - date.getTime()) / (24 * 60 * 60 * 1000)));
+
+const timeInStageLabel = (date: Date) => {
+  const days = daysSince(date);
+  return days === 0 ? "hoje" : days === 1 ? "há 1 dia" : `há ${days} dias`;
+};
+
+export default function LeadPipelineBoard({ filters }: LeadPipelineBoardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const { setSelectedLead, setIsDialogOpen } = useLeadContext();
+  const [pipeline, setPipeline] = useState("Favale");
+  const [stagesDialogOpen, setStagesDialogOpen] = useState(false);
+
+  const { data: stages = [] } = usePipelineStages();
+  const { data: board, isLoading } = usePipelineBoard(pipeline, filters);
+  const [columns, setColumns] = useState<PipelineColumn[]>([]);
+
+  // Sincroniza as colunas locais com o servidor (as mudanças otimistas são locais)
+  useEffect(() => {
+    setColumns(board || []);
+  }, [board]);
+
+  const pipelines = useMemo(() => {
+    const keys = Array.from(new Set(stages.map(stage => pipelineKey(stage.source))));
+    return keys.sort((a, b) => (a === DEFAULT_PIPELINE ? 1 : b === DEFAULT_PIPELINE ? -1 : a.localeCompare(b)));
+  }, [stages]);
+
+  const onDragEnd = async (result: { destination?: { droppableId: string } | null; source: { droppableId: string }; draggableId: string }) => {
+    const { destination, source, draggableId } = result;
+    if (!destination || destination.droppableId === source.droppableId) return;
+
+    const fromStageId = Number(source.droppableId);
+    const toStageId = Number(destination.droppableId);
+    const previousColumns = columns;
+    const lead = columns.find(col => col.stage.id === fromStageId)?.leads.find(l => String(l.id) === draggableId);
+    if (!lead) return;
+
+    // Optimistic update: the lead goes to the top of the new stage, entered now
+    const movedLead = { ...lead, stageId: toStageId, stageEnteredAt: new Date() };
+    setColumns(prev => prev.map(col => {
+      if (col.stage.id === fromStageId) return { ...col, leads: col.leads.filter(l => l.id !== lead.id), total: col.total - 1 };
+      if (col.stage.id === toStageId) return { ...col, leads: [movedLead, ...col.leads], total: col.total + 1 };
+      return col;
+    }));
+
+    try {
+      await moveLeadToStage(lead.id, toStageId);
+      await queryClient.invalidateQueries({ queryKey: ["leadsList"] });
+      await queryClient.invalidateQueries({ queryKey: ["dashboardStats"] });
+    } catch (error) {
+      setColumns(previousColumns);
+      toast({
+        variant: "destructive",
+        title: "Erro ao mover lead",
+        description: getSessionErrorMessage(error, "Não foi possível mover o lead para a nova etapa."),
+      });
+    }
+  };
+
+  const openLead = (leadId: number) => {
+    const lead = columns.flatMap(col => col.leads).find(l => l.id === leadId);
+    if (!lead) return;
+    setSelectedLead(lead);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select value={pipeline} onValueChange={setPipeline}>
+          <SelectTrigger className="h-9 w-[200px]"><SelectValue placeholder="Funil" /></SelectTrigger>
+          <SelectContent>
+            {(pipelines.length > 0 ? pipelines : [pipeline]).map(key => (
+              <SelectItem key={key} value={key}>Funil {pipelineLabel(key)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {profile?.role === "admin" && (
+          <button
+            className="border border-gray-200 dark:border-gray-700 rounded-md px-3 py-2 text-sm flex items-center hover:bg-gray-50 dark:hover:bg-gray-800"
+            onClick={() => setStagesDialogOpen(true)}
+          >
+            <span className="material-icons text-sm mr-1">tune</span>
+            Configurar etapas
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex gap-3">
+          {[0, 1, 2, 3].map(i => <Skeleton key={i} className="h-[400px] w-72 shrink-0 rounded-2xl" />)}
+        </div>
+      ) : (
+        <DragDropContext onDragEnd={onDragEnd}>
+          <div className="flex gap-3 overflow-x-auto pb-2 min-h-[500px]">
+            {columns.map(col => (
+              <Droppable droppableId={String(col.stage.id)} key={col.stage.id}>
+                {(provided: DroppableProvided) => (
+                  <div
+                    ref={provided.innerRef}
+                    {...provided.droppableProps}
+                    className="flex flex-col w-72 shrink-0 bg-slate-100 dark:bg-slate-900 rounded-2xl max-h-[calc(100vh-260px)] overflow-hidden"
+                  >
+                    {/* Header da coluna */}
+                    <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: col.stage.color || "#94a3b8" }} />
+                        <span className="font-semibold text-sm text-slate-700 dark:text-slate-200 truncate">{col.stage.name}</span>
+                      </div>
+                      <span className="text-xs py-0.5 px-1.5 rounded-md font-bold bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300">{col.total}</span>
+                    </div>
+                    {/* Cards da coluna */}
+                    <div className="flex-1 p-3 space-y-2 overflow-y-auto">
+                      {col.leads.map((lead, idx) => (
+                        <Draggable draggableId={String(lead.id)} index={idx} key={lead.id}>
+                          {(provided: DraggableProvided) => (
+                            <div
+                              ref={provided.innerRef}
+                              {...provided.draggableProps}
+                              {...provided.dragHandleProps}
+                              style={{ ...provided.draggableProps.style }}
+                              className="rounded-xl bg-white dark:bg-slate-800 shadow-sm border border-slate-200 dark:border-slate-700 hover:shadow-md transition-shadow duration-200 p-3 text-sm cursor-pointer"
+                              onClick={() => openLead(lead.id)}
+                            >
+                              <div className="font-medium truncate">{lead.name}</div>
+                              <div className="text-xs text-muted-foreground truncate">{lead.phone || lead.email || "—"}</div>
+                              <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
+                                <span className="truncate mr-2">{lead.campaign || lead.source}</span>
+                                <span className="shrink-0" title={`Nesta etapa desde ${lead.stageEnteredAt.toLocaleDateString("pt-BR")}`}>
+                                  {timeInStageLabel(lead.stageEnteredAt)}
+                                </span>
+                              </div>
+                            </div>
+                          )}
+                        </Draggable>
+                      ))}
+                      {provided.placeholder}
+                      {col.leads.length === 0 && (
+                        <p className="text-xs text-center text-slate-500 dark:text-slate-400 py-6">Nenhum lead nesta etapa.</p>
+                      )}
+                    </div>
+                    {col.total > col.leads.length && (
+                      <div className="px-3 py-2 border-t border-slate-200 dark:border-slate-700 text-xs text-center text-muted-foreground">
+                        Mostrando os {col.leads.length} mais recentes de {col.total}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </Droppable>
+            ))}
+          </div>
+        </DragDropContext>
+      )}
+
+      {profile?.role === "admin" && (
+        <PipelineStagesDialog open={stagesDialogOpen} onOpenChange={setStagesDialogOpen} initialPipeline={pipeline} />
+      )}
+    </div>
+  );
+}
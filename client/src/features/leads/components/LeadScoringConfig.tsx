@@ -0,0 +1,212 @@
+import { useState, ChangeEvent, FocusEvent } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/data-display/Card";
+import { Input } from "@/components/inputs/InputField";
+import { Switch } from "@/components/inputs/switch";
+import { Skeleton } from "@/components/data-display/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import { LEAD_SOURCES } from "../services/leadServices";
+import {
+  LeadScoreRule, LeadScoreRuleField, LeadScoreRulePayload, SCORE_RULE_FIELDS, TASK_STATUS_OPTIONS,
+  createLeadScoreRule, deleteLeadScoreRule, recalculateLeadScores, updateLeadScoreRule,
+} from "../services/leadScoringServices";
+import { useLeadScoreRules } from "../hooks/useLeads";
+
+const EMPTY_RULE: LeadScoreRulePayload = { name: "", field: "source", value: "", points: 10, active: true };
+
+const fieldLabel = (field: LeadScoreRuleField) => SCORE_RULE_FIELDS.find(f => f.value === field)?.label || field;
+
+// Fields with a fixed list of values get a select instead of free text
+const valueOptions = (field: LeadScoreRuleField) => {
+  if (field === "source") return LEAD_SOURCES.map(source => ({ value: source, label: source }));
+  if (field === "task_status") return TASK_STATUS_OPTIONS;
+  return null;
+};
+
+// commitOnBlur: text values of saved rules are only sent when the input loses focus
+function RuleValueInput({ field, value, onChange, disabled, commitOnBlur }: {
+  field: LeadScoreRuleField; value: string; onChange: (value: string) => void; disabled?: boolean; commitOnBlur?: boolean;
+}) {
+  const options = valueOptions(field);
+  if (field === "whatsapp_no_reply") return <div className="w-[160px] shrink-0" />;
+  if (options) {
+    return (
+      <Select value={value} onValueChange={onChange} disabled={disabled}>
+        <SelectTrigger className="h-9 w-[160px] shrink-0"><SelectValue placeholder="Selecione" /></SelectTrigger>
+        <SelectContent>
+          {options.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+        </SelectContent>
+      </Select>
+    );
+  }
+  const numeric = field === "entry_recency" || field === "whatsapp_reply";
+  return (
+    <Input
+      className="h-9 w-[160px] shrink-0"
+      type={numeric ? "number" : "text"}
+      min={numeric ? 1 : undefined}
+      placeholder={SCORE_RULE_FIELDS.find(f => f.value === field)?.valueHint || ""}
+      {...(commitOnBlur
+        ? { defaultValue: value, onBlur: (e: FocusEvent<HTMLInputElement>) => onChange(e.target.value.trim()) }
+        : { value, onChange: (e: ChangeEvent<HTMLInputElement>) => onChange(e.target.value) })}
+      disabled={disabled}
+    />
+  );
+}
+
+export default function LeadScoringConfig() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [newRule, setNewRule] = useState<LeadScoreRulePayload>(EMPTY_RULE);
+  const [saving, setSaving] = useState(false);
+
+  const { data: rules = [], isLoading } = useLeadScoreRules();
+
+  // Rule changes recompute every score, so the lead lists and the dashboard are refreshed too
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: ["leadScoreRules"] });
+    await queryClient.invalidateQueries({ queryKey: ["leadsList"] });
+    await queryClient.invalidateQueries({ queryKey: ["dashboardStats"] });
+  };
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setSaving(true);
+    try {
+      await action();
+      await refresh();
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, fallback), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = (rule: LeadScoreRule, changes: Partial<LeadScoreRulePayload>) =>
+    run(() => updateLeadScoreRule(rule.id, changes), "Não foi possível atualizar a regra.");
+
+  const handleDelete = (rule: LeadScoreRule) =>
+    run(() => deleteLeadScoreRule(rule.id), "Não foi possível excluir a regra.");
+
+  const handleCreate = () => run(async () => {
+    await createLeadScoreRule({ ...newRule, name: newRule.name.trim(), value: newRule.value.trim() });
+    setNewRule(EMPTY_RULE);
+  }, "Não foi possível criar a regra.");
+
+  const handleRecalculate = () => run(async () => {
+    const updated = await recalculateLeadScores();
+    toast({ title: "Pontuação recalculada", description: `${updated} lead(s) atualizados.` });
+  }, "Não foi possível recalcular a pontuação.");
+
+  const canCreate = newRule.name.trim() && (newRule.field === "whatsapp_no_reply" || newRule.value.trim());
+
+  return (
+    <Card className="border-0 shadow-lg bg-white dark:bg-gray-800 rounded-2xl overflow-hidden">
+      <CardHeader className="bg-gradient-to-r from-purple-50 to-pink-50 dark:from-gray-700 dark:to-gray-800 pb-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl font-bold text-gray-900 dark:text-white">Pontuação de leads</CardTitle>
+            <CardDescription className="text-gray-600 dark:text-gray-300 text-base">
+              Cada regra ativa que se aplica ao lead soma seus pontos (use valores negativos para descontar).
+              A pontuação é recalculada sempre que o lead, suas respostas no WhatsApp ou suas tarefas mudam.
+            </CardDescription>
+          </div>
+          <button
+            className="border rounded-md px-3 py-1.5 text-sm shrink-0 disabled:opacity-50 bg-white dark:bg-gray-800"
+            onClick={handleRecalculate}
+            disabled={saving}
+          >
+            Recalcular agora
+          </button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-8">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {rules.length === 0 && <p className="text-sm text-muted-foreground">Nenhuma regra cadastrada; todos os leads têm 0 pontos.</p>}
+            {rules.map(rule => (
+              <div key={`${rule.id}-${rule.field}-${rule.value}`} className={`flex items-center gap-2 ${rule.active ? "" : "opacity-60"}`}>
+                <Input
+                  className="h-9"
+                  defaultValue={rule.name}
+                  onBlur={(e) => e.target.value.trim() && e.target.value.trim() !== rule.name && handleUpdate(rule, { name: e.target.value.trim() })}
+                  disabled={saving}
+                />
+                <span className="text-sm text-gray-600 dark:text-gray-300 w-[260px] shrink-0 truncate" title={fieldLabel(rule.field)}>
+                  {fieldLabel(rule.field)}
+                </span>
+                <RuleValueInput
+                  field={rule.field}
+                  value={rule.value}
+                  onChange={(value) => value && value !== rule.value && handleUpdate(rule, { value })}
+                  disabled={saving}
+                  commitOnBlur
+                />
+                <Input
+                  className="h-9 w-[90px] shrink-0"
+                  type="number"
+                  defaultValue={rule.points}
+                  onBlur={(e) => {
+                    const points = parseInt(e.target.value);
+                    if (!isNaN(points) && points !== rule.points) handleUpdate(rule, { points });
+                  }}
+                  disabled={saving}
+                  title="Pontos"
+                />
+                <Switch
+                  checked={rule.active}
+                  onCheckedChange={(active) => handleUpdate(rule, { active })}
+                  disabled={saving}
+                  title={rule.active ? "Desativar regra" : "Ativar regra"}
+                />
+                <button className="text-red-600 disabled:opacity-30" onClick={() => handleDelete(rule)} disabled={saving} title="Excluir regra">
+                  <span className="material-icons text-base">delete</span>
+                </button>
+              </div>
+            ))}
+
+            <div className="flex items-center gap-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+              <Input
+                className="h-9"
+                placeholder="Nova regra"
+                value={newRule.name}
+                onChange={(e) => setNewRule(prev => ({ ...prev, name: e.target.value }))}
+              />
+              <Select
+                value={newRule.field}
+                onValueChange={(value) => setNewRule(prev => ({ ...prev, field: value as LeadScoreRuleField, value: "" }))}
+              >
+                <SelectTrigger className="h-9 w-[260px] shrink-0"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SCORE_RULE_FIELDS.map(field => <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <RuleValueInput field={newRule.field} value={newRule.value} onChange={(value) => setNewRule(prev => ({ ...prev, value }))} />
+              <Input
+                className="h-9 w-[90px] shrink-0"
+                type="number"
+                value={newRule.points}
+                onChange={(e) => setNewRule(prev => ({ ...prev, points: parseInt(e.target.value) || 0 }))}
+                title="Pontos"
+              />
+              <button
+                className="bg-primary text-white rounded-md px-4 py-2 text-sm disabled:opacity-50 shrink-0"
+                onClick={handleCreate}
+                disabled={saving || !canCreate}
+              >
+                Adicionar
+              </button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/inputs/InputField";
+import { Label } from "@/components/inputs/label";
+import { Switch } from "@/components/inputs/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/feedback/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/inputs/select";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import { useLeadSegments } from "../hooks/useLeads";
+import {
+  LeadSegment, LeadSegmentFilters, LeadSegmentVisibility,
+  createLeadSegment, deleteLeadSegment, fetchLeadSegmentLeadIds, setLeadSegmentPinned, updateLeadSegment,
+} from "../services/leadSegmentServices";
+
+interface LeadSegmentBarProps {
+  activeSegment: LeadSegment | null;
+  currentFilters: LeadSegmentFilters; // Filters on screen, saved as the segment definition
+  isModified: boolean; // Filters on screen differ from the active segment
+  onSelect: (segmentId: number | null) => void;
+  onSelectLeads: (ids: number[]) => void;
+}
+
+export default function LeadSegmentBar({ activeSegment, currentFilters, isModified, onSelect, onSelectLeads }: LeadSegmentBarProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data: segments = [] } = useLeadSegments();
+
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [visibility, setVisibility] = useState<LeadSegmentVisibility>("private");
+  const [saving, setSaving] = useState(false);
+  const [selectingLeads, setSelectingLeads] = useState(false);
+
+  useEffect(() => {
+    if (!saveDialogOpen) return;
+    setName(activeSegment?.name || "");
+    setVisibility(activeSegment?.visibility || "private");
+  }, [saveDialogOpen, activeSegment]);
+
+  // Live counts and the sidebar pins come from the same "leadsList" queries
+  const refreshSegments = () => queryClient.invalidateQueries({ queryKey: ["leadsList", "segments"] });
+
+  const hasFilters = Object.keys(currentFilters).length > 0;
+  const canUpdate = !!activeSegment && activeSegment.isOwner;
+
+  const handleSave = async (asNew: boolean) => {
+    setSaving(true);
+    try {
+      if (!asNew && activeSegment) {
+        await updateLeadSegment(activeSegment.id, { name, visibility, filters: currentFilters });
+        toast({ title: "Segmento atualizado", description: `"${name}" foi atualizado com os filtros atuais.` });
+        await refreshSegments();
+      } else {
+        const segment = await createLeadSegment({ name, visibility, filters: currentFilters });
+        toast({ title: "Segmento salvo", description: `"${segment.name}" tem ${segment.count} lead(s) no momento.` });
+        await refreshSegments();
+        onSelect(segment.id);
+      }
+      setSaveDialogOpen(false);
+    } catch (error) {
+      toast({ title: "Erro ao salvar segmento", description: getSessionErrorMessage(error, "Não foi possível salvar o segmento."), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTogglePin = async () => {
+    if (!activeSegment) return;
+    try {
+      await setLeadSegmentPinned(activeSegment.id, !activeSegment.pinned);
+      await refreshSegments();
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível fixar o segmento."), variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeSegment || !window.confirm(`Excluir o segmento "${activeSegment.name}"? Os leads não são afetados.`)) return;
+    try {
+      await deleteLeadSegment(activeSegment.id);
+      await refreshSegments();
+      onSelect(null);
+      toast({ title: "Segmento excluído" });
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível excluir o segmento."), variant: "destructive" });
+    }
+  };
+
+  // Selects every lead of the segment, not only the loaded page, so the batch actions apply to all of them
+  const handleSelectAll = async () => {
+    if (!activeSegment) return;
+    setSelectingLeads(true);
+    try {
+      const ids = await fetchLeadSegmentLeadIds(activeSegment.id);
+      onSelectLeads(ids);
+      toast({ title: "Segmento selecionado", description: `${ids.length} lead(s) selecionado(s) para ações em lote.` });
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível carregar os leads do segmento."), variant: "destructive" });
+    } finally {
+      setSelectingLeads(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!activeSegment) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/leads?segment=${activeSegment.id}`);
+      toast({ title: "Link copiado", description: "Quem tiver acesso ao segmento verá os leads atuais dele." });
+    } catch {
+      toast({ title: "Erro", description: "Não foi possível copiar o link.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center gap-2 mb-3">
+      <Select
+        value={activeSegment ? String(activeSegment.id) : "none"}
+        onValueChange={(value) => onSelect(value === "none" ? null : parseInt(value))}
+      >
+        <SelectTrigger className="h-9 md:w-[280px]"><SelectValue placeholder="Segmentos salvos" /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Todos os leads</SelectItem>
+          {segments.map(segment => (
+            <SelectItem key={segment.id} value={String(segment.id)}>
+              {segment.name} ({segment.count}){segment.visibility === "team" ? " · equipe" : ""}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {activeSegment && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">
+            {activeSegment.count} lead(s){isModified ? " · filtros alterados" : ""}
+            {!activeSegment.isOwner && activeSegment.ownerName ? ` · por ${activeSegment.ownerName}` : ""}
+          </span>
+          <button
+            className="border border-gray-200 dark:border-gray-700 rounded-md px-2 py-1 flex items-center hover:bg-gray-50 dark:hover:bg-gray-800"
+            onClick={handleTogglePin}
+            title={activeSegment.pinned ? "Desafixar da barra lateral" : "Fixar na barra lateral"}
+          >
+            <span className={`material-icons text-sm ${activeSegment.pinned ? "text-primary" : "text-gray-400"}`}>push_pin</span>
+          </button>
+          <button
+            className="border border-gray-200 dark:border-gray-700 rounded-md px-2 py-1 flex items-center hover:bg-gray-50 dark:hover:bg-gray-800"
+            onClick={handleCopyLink}
+            title="Copiar link do segmento"
+          >
+            <span className="material-icons text-sm">link</span>
+          </button>
+          <button
+            className="border border-gray-200 dark:border-gray-700 rounded-md px-3 py-1 flex items-center hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+            onClick={handleSelectAll}
+            disabled={selectingLeads || activeSegment.count === 0}
+          >
+            <span className="material-icons text-sm mr-1">select_all</span>
+            {selectingLeads ? "Selecionando..." : `Selecionar todos (${activeSegment.count})`}
+          </button>
+          {activeSegment.isOwner && (
+            <button className="text-red-600 px-2 py-1 flex items-center" onClick={handleDelete} title="Excluir segmento">
+              <span className="material-icons text-sm">delete</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      <button
+        className="md:ml-auto border border-gray-200 dark:border-gray-700 rounded-md px-4 py-2 text-sm flex items-center hover:bg-gray-50 dark:hover:bg-gray-800 transition-all duration-200 disabled:opacity-50"
+        onClick={() => setSaveDialogOpen(true)}
+        disabled={!hasFilters}
+        title={hasFilters ? undefined : "Aplique ao menos um filtro para salvar um segmento"}
+      >
+        <span className="material-icons text-sm mr-1">bookmark_add</span>
+        Salvar segmento
+      </button>
+
+      <Dialog open={saveDialogOpen} onOpenChange={(open) => !saving && setSaveDialogOpen(open)}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>Salvar segmento</DialogTitle>
+            <DialogDescription>
+              O segmento guarda os filtros, não a lista de leads: períodos como "Últimos 30 dias" são recalculados sempre que ele é aberto.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="segment-name">Nome</Label>
+              <Input id="segment-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Ex.: Pink SP - últimos 30 dias" />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="segment-team">Compartilhar com a equipe</Label>
+              <Switch
+                id="segment-team"
+                checked={visibility === "team"}
+                onCheckedChange={(checked) => setVisibility(checked ? "team" : "private")}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <button className="border rounded-md px-4 py-2 text-sm" onClick={() => setSaveDialogOpen(false)} disabled={saving}>Cancelar</button>
+            {canUpdate && (
+              <button className="border rounded-md px-4 py-2 text-sm disabled:opacity-50" onClick={() => handleSave(false)} disabled={saving || !name.trim()}>
+                Atualizar segmento
+              </button>
+            )}
+            <button className="bg-primary text-white rounded-md px-4 py-2 text-sm disabled:opacity-50" onClick={() => handleSave(true)} disabled={saving || !name.trim()}>
+              {saving ? "Salvando..." : canUpdate ? "Salvar como novo" : "Salvar"}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
-import { useState, useEffect } from "react";
 import { Lead } from "@/types"; // Updated
 import { useLeadContext } from "@/context/LeadContext"; // Correct
 import { useWhatsappContext } from "@/context/WhatsappContext"; // Correct
 import { formatDate } from "@/utils/formatters"; // Correct (assuming global util)
+import { LeadSortDirection, LeadSortField } from "../services/leadServices";
+import { useAssignableUsers } from "../hooks/useLeads";
 import WhatsappButton from "@/features/whatsapp/components/WhatsappButton"; // Updated path
 import {
   DropdownMenu,
@@ -14,13 +15,23 @@ import {
 } from "@/components/overlays/dropdown-menu"; // Updated path
 
 interface LeadTableProps {
-  leads: Lead[];
+  leads: Lead[]; // Current page, already filtered and sorted by the server
   isLoading: boolean;
   onDelete: (lead: Lead) => void;
-  indexOfFirstLead?: number; // This seems unused in the component logic
+  total: number;
+  page: number; // 1-based
+  pageSize: number;
+  hasNextPage: boolean;
+  onNextPage: () => void;
+  onPreviousPage: () => void;
+  sort: LeadSortField;
+  direction: LeadSortDirection;
+  onSortChange: (field: LeadSortField) => void;
 }
 
-export default function LeadTable({ leads, isLoading, onDelete }: LeadTableProps) {
+export default function LeadTable({
+  leads, isLoading, onDelete, total, page, pageSize, hasNextPage, onNextPage, onPreviousPage, sort, direction, onSortChange,
+}: LeadTableProps) {
   const {
     setSelectedLead,
     setIsDialogOpen,
@@ -28,9 +39,8 @@ export default function LeadTable({ leads, isLoading, onDelete }: LeadTableProps
     setSelectedLeadIds
   } = useLeadContext();
   const { openWhatsappChat } = useWhatsappContext();
-  const [currentPage, setCurrentPage] = useState(1);
-  const leadsPerPage = 10;
-  const [selectMode, setSelectMode] = useState<'page' | 'all'>('page'); // unused
+  const { data: assignableUsers = [] } = useAssignableUsers();
+  const ownerNames = new Map(assignableUsers.map(member => [member.id, member.name]));
 
   const handleEdit = (lead: Lead) => {
     setSelectedLead(lead);
@@ -45,35 +55,22 @@ export default function LeadTable({ leads, isLoading, onDelete }: LeadTableProps
     }
   };
 
+  // Selects the leads of the current page only
   const handleSelectAll = (checked: boolean) => {
+    const pageIds = leads.map(lead => lead.id);
     if (checked) {
-      // if (selectMode === 'page') { // selectMode logic was not fully implemented
-        const allPageIds = currentLeads.map(lead => lead.id);
-        setSelectedLeadIds(allPageIds);
-      // } else {
-      //   const allIds = leads.map(lead => lead.id);
-      //   setSelectedLeadIds(allIds);
-      // }
+      setSelectedLeadIds(Array.from(new Set([...selectedLeadIds, ...pageIds])));
     } else {
-      setSelectedLeadIds([]);
+      setSelectedLeadIds(selectedLeadIds.filter(id => !pageIds.includes(id)));
     }
   };
 
-  const indexOfLastLead = currentPage * leadsPerPage;
-  const indexOfFirstLead = indexOfLastLead - leadsPerPage;
-  const currentLeads = leads.slice(indexOfFirstLead, indexOfLastLead);
-  const totalPages = Math.ceil(leads.length / leadsPerPage);
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const firstIndex = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastIndex = (page - 1) * pageSize + leads.length;
 
-  const pageNumbers = [];
-  for (let i = 1; i <= totalPages; i++) {
-    if (i === 1 || i === totalPages || (i >= currentPage - 1 && i <= currentPage + 1)) {
-      pageNumbers.push(i);
-    } else if (i === currentPage - 2 || i === currentPage + 2) {
-      pageNumbers.push('...');
-    }
-  }
-
-  const displayPageNumbers = pageNumbers.filter((number, index, self) => number === '...' ? self.indexOf(number) === index : true);
+  const sortIndicator = (field: LeadSortField) =>
+    sort === field ? <span className="material-icons text-xs align-middle">{direction === "asc" ? "arrow_upward" : "arrow_downward"}</span> : null;
 
   const getStatusBadgeClasses = (status: string) => {
     return status === "Aluno"
@@ -87,6 +84,15 @@ export default function LeadTable({ leads, isLoading, onDelete }: LeadTableProps
       : "inline-flex items-center px-1.5 sm:px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium bg-purple-100 text-secondary dark:bg-purple-900/30 dark:text-purple-400 transition-colors duration-200 shadow-sm hover:shadow hover:-translate-y-0.5 transform";
   };
 
+  // Same bands as the score distribution in general-stats
+  const getScoreBadgeClasses = (score: number) => {
+    const base = "inline-flex items-center justify-center min-w-[2rem] px-1.5 sm:px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-semibold";
+    if (score >= 60) return `${base} bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400`;
+    if (score >= 20) return `${base} bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400`;
+    if (score < 0) return `${base} bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400`;
+    return `${base} bg-gray-100 text-gray-700 dark:bg-gray-700/50 dark:text-gray-300`;
+  };
+
   if (isLoading) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/30 p-6 flex justify-center items-center transition-all duration-200 min-h-[300px]">
@@ -105,24 +111,26 @@ export default function LeadTable({ leads, isLoading, onDelete }: LeadTableProps
                 <input
                   type="checkbox"
                   className="mr-1 sm:mr-2 h-3 w-3 sm:h-4 sm:w-4 rounded border-primary/30 text-primary focus:ring-primary/30 transition-all duration-200"
-                  checked={currentLeads.length > 0 && currentLeads.every(lead => selectedLeadIds.includes(lead.id))}
+                  checked={leads.length > 0 && leads.every(lead => selectedLeadIds.includes(lead.id))}
                   onChange={(e) => handleSelectAll(e.target.checked)}
                 />
               </th>
-              <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider hidden sm:table-cell">Data</th>
-              <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Nome</th>
+              <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider hidden sm:table-cell cursor-pointer select-none" onClick={() => onSortChange("entryDate")}>Data {sortIndicator("entryDate")}</th>
+              <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider cursor-pointer select-none" onClick={() => onSortChange("name")}>Nome {sortIndicator("name")}</th>
               <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider hidden md:table-cell">Telefone</th>
               <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider hidden md:table-cell">Estado</th>
               <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider hidden lg:table-cell">Campanha</th>
               <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider hidden lg:table-cell">Tags</th>
               <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider hidden sm:table-cell">Origem</th>
               <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Status</th>
+              <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider hidden lg:table-cell">Responsável</th>
+              <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider cursor-pointer select-none" onClick={() => onSortChange("score")}>Pontos {sortIndicator("score")}</th>
               <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Ações</th>
             </tr>
           </thead>
           <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-            {currentLeads.length > 0 ? (
-              currentLeads.map((lead) => (
+            {leads.length > 0 ? (
+              leads.map((lead) => (
                 <tr key={lead.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/70 transition-all duration-200 hover:shadow-md dark:hover:shadow-gray-900/20">
                   <td className="px-2 sm:px-6 py-2 sm:py-4 whitespace-nowrap">
                     <input
@@ -153,6 +161,12 @@ export default function LeadTable({ leads, isLoading, onDelete }: LeadTableProps
                   <td className="px-2 sm:px-6 py-2 sm:py-4 whitespace-nowrap">
                     <span className={getStatusBadgeClasses(lead.status)}>{lead.status}</span>
                   </td>
+                  <td className="px-2 sm:px-6 py-2 sm:py-4 whitespace-nowrap text-xs sm:text-sm text-gray-600 dark:text-gray-300 hidden lg:table-cell">
+                    {lead.ownerId ? ownerNames.get(lead.ownerId) || "Usuário inativo" : <span className="text-gray-400 dark:text-gray-500">Sem responsável</span>}
+                  </td>
+                  <td className="px-2 sm:px-6 py-2 sm:py-4 whitespace-nowrap">
+                    <span className={getScoreBadgeClasses(lead.score)}>{lead.score}</span>
+                  </td>
                   <td className="px-2 sm:px-6 py-2 sm:py-4 whitespace-nowrap text-xs sm:text-sm font-medium">
                     <div className="flex space-x-1 sm:space-x-3">
                       <WhatsappButton onClick={() => openWhatsappChat(lead)} />
@@ -163,15 +177,36 @@ export default function LeadTable({ leads, isLoading, onDelete }: LeadTableProps
                 </tr>
               ))
             ) : (
-              <tr className="transition-colors duration-200"><td colSpan={10} className="px-2 sm:px-6 py-2 sm:py-4 text-center text-xs sm:text-sm text-gray-500 dark:text-gray-400 transition-colors duration-200">Nenhum lead encontrado</td></tr>
+              <tr className="transition-colors duration-200"><td colSpan={12} className="px-2 sm:px-6 py-2 sm:py-4 text-center text-xs sm:text-sm text-gray-500 dark:text-gray-400 transition-colors duration-200">Nenhum lead encontrado</td></tr>
             )}
           </tbody>
         </table>
       </div>
 
-      {leads.length > 0 && (
+      {total > 0 && (
         <div className="px-3 sm:px-6 py-3 sm:py-4 flex flex-col sm:flex-row items-center space-y-3 sm:space-y-0 justify-between border-t dark:border-gray-700">
-          {/* ... (Pagination JSX remains the same) ... */}
+          <div className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">
+            Mostrando <span className="font-medium">{firstIndex}</span> a <span className="font-medium">{lastIndex}</span> de <span className="font-medium">{total}</span> leads
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              className="border border-gray-200 dark:border-gray-700 rounded-md px-3 py-1 text-xs sm:text-sm flex items-center disabled:opacity-50 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all duration-200"
+              onClick={onPreviousPage}
+              disabled={page <= 1}
+            >
+              <span className="material-icons text-sm">chevron_left</span>
+              Anterior
+            </button>
+            <span className="text-xs sm:text-sm text-gray-600 dark:text-gray-300">Página {page} de {totalPages}</span>
+            <button
+              className="border border-gray-200 dark:border-gray-700 rounded-md px-3 py-1 text-xs sm:text-sm flex items-center disabled:opacity-50 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all duration-200"
+              onClick={onNextPage}
+              disabled={!hasNextPage}
+            >
+              Próxima
+              <span className="material-icons text-sm">chevron_right</span>
+            </button>
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useInfiniteQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/features/auth/hooks/use-auth";
+import { Input } from "@/components/inputs/InputField";
+import { Textarea } from "@/components/inputs/textarea";
+import { Skeleton } from "@/components/data-display/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import {
+  CALL_OUTCOME_LABELS, LeadCallOutcome, LeadTimelineFilter, LeadTimelineItem, TIMELINE_FILTERS,
+  createLeadActivity, deleteLeadActivity, fetchLeadTimeline,
+} from "../services/leadTimelineServices";
+
+interface LeadTimelineProps {
+  leadId: number;
+}
+
+const KIND_ICONS: Record<LeadTimelineItem["kind"], string> = {
+  whatsapp: "chat",
+  task: "task_alt",
+  task_comment: "comment",
+  session: "fitness_center",
+  audit: "history",
+  stage: "view_kanban",
+  note: "sticky_note_2",
+  call: "call",
+};
+
+const AUDIT_EVENT_LABELS: Record<string, string> = {
+  lead_created: "Lead criado",
+  lead_updated: "Lead atualizado",
+  lead_deleted: "Lead excluído",
+  lead_batch_import: "Atualizado por importação",
+  lead_batch_update: "Atualizado em lote",
+  lead_batch_delete: "Excluído em lote",
+  lead_batch_restore: "Exclusão desfeita",
+  lead_merged: "Leads mesclados neste registro",
+  lead_assigned: "Responsável alterado",
+  lead_created_from_whatsapp: "Lead criado por mensagem no WhatsApp",
+  whatsapp_conversation_assigned: "Responsável pela conversa no WhatsApp alterado",
+};
+
+const SESSION_STATUS_LABELS: Record<string, string> = {
+  agendado: "agendada",
+  concluído: "concluída",
+  cancelado: "cancelada",
+  remarcado: "remarcada",
+};
+
+const itemTitle = (item: LeadTimelineItem): string => {
+  const { kind, data } = item;
+  switch (kind) {
+    case "whatsapp":
+      return data.direction === "incoming" ? "Mensagem recebida no WhatsApp" : "Mensagem enviada no WhatsApp";
+    case "task":
+      return `Tarefa criada: ${data.title}`;
+    case "task_comment":
+      return `Comentário na tarefa "${data.title}"`;
+    case "session":
+      return `Sessão ${SESSION_STATUS_LABELS[data.status] || data.status}${data.trainerName ? ` com ${data.trainerName}` : ""}`;
+    case "audit":
+      return AUDIT_EVENT_LABELS[data.eventType] || data.eventType;
+    case "stage":
+      return data.fromStage ? `Etapa: ${data.fromStage} → ${data.toStage}` : `Entrou no funil em ${data.toStage}`;
+    case "note":
+      return "Nota";
+    case "call": {
+      const parts = ["Ligação"];
+      if (data.callOutcome) parts.push(CALL_OUTCOME_LABELS[data.callOutcome]);
+      if (data.durationMinutes != null) parts.push(`${data.durationMinutes} min`);
+      return parts.join(" · ");
+    }
+  }
+};
+
+const itemDetail = (item: LeadTimelineItem): string | null => {
+  if (item.kind === "audit" && Array.isArray(item.data.details?.updatedFields)) {
+    return `Campos: ${item.data.details.updatedFields.join(", ")}`;
+  }
+  if (item.kind === "session" && item.data.location) return item.data.location;
+  return item.body;
+};
+
+export default function LeadTimeline({ leadId }: LeadTimelineProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const [types, setTypes] = useState<LeadTimelineFilter[]>([]);
+  const [draft, setDraft] = useState<{ type: "note" | "call"; content: string; callOutcome: LeadCallOutcome; duration: string }>({
+    type: "note", content: "", callOutcome: "answered", duration: "",
+  });
+  const [saving, setSaving] = useState(false);
+
+  // Under "leadsList" so edits to the lead (audit entries, stage moves) show up here too
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["leadsList", "timeline", leadId, types],
+    queryFn: ({ pageParam }) => fetchLeadTimeline(leadId, types, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const items = data?.pages.flatMap(page => page.items) || [];
+
+  const toggleType = (value: LeadTimelineFilter) =>
+    setTypes(prev => (prev.includes(value) ? prev.filter(t => t !== value) : [...prev, value]));
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["leadsList", "timeline", leadId] });
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      await createLeadActivity(leadId, {
+        type: draft.type,
+        content: draft.content.trim(),
+        callOutcome: draft.type === "call" ? draft.callOutcome : null,
+        durationMinutes: draft.type === "call" && draft.duration ? parseInt(draft.duration) : null,
+      });
+      setDraft(prev => ({ ...prev, content: "", duration: "" }));
+      await refresh();
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível registrar a atividade."), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (item: Extract<LeadTimelineItem, { kind: "note" | "call" }>) => {
+    try {
+      await deleteLeadActivity(leadId, item.data.activityId);
+      await refresh();
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível excluir a atividade."), variant: "destructive" });
+    }
+  };
+
+  const canDelete = (item: LeadTimelineItem): item is Extract<LeadTimelineItem, { kind: "note" | "call" }> =>
+    (item.kind === "note" || item.kind === "call") && (item.actorId === user?.id || profile?.role === "admin");
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2 border border-gray-200 dark:border-gray-700 rounded-md p-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={draft.type} onValueChange={(value) => setDraft(prev => ({ ...prev, type: value as "note" | "call" }))}>
+            <SelectTrigger className="h-8 w-[120px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="note">Nota</SelectItem>
+              <SelectItem value="call">Ligação</SelectItem>
+            </SelectContent>
+          </Select>
+          {draft.type === "call" && (
+            <>
+              <Select value={draft.callOutcome} onValueChange={(value) => setDraft(prev => ({ ...prev, callOutcome: value as LeadCallOutcome }))}>
+                <SelectTrigger className="h-8 w-[150px]"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CALL_OUTCOME_LABELS) as LeadCallOutcome[]).map(outcome => (
+                    <SelectItem key={outcome} value={outcome}>{CALL_OUTCOME_LABELS[outcome]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                className="h-8 w-[110px]"
+                placeholder="Minutos"
+                value={draft.duration}
+                onChange={(e) => setDraft(prev => ({ ...prev, duration: e.target.value }))}
+              />
+            </>
+          )}
+        </div>
+        <Textarea
+          rows={2}
+          placeholder={draft.type === "call" ? "Resumo da ligação..." : "Escreva uma nota..."}
+          value={draft.content}
+          onChange={(e) => setDraft(prev => ({ ...prev, content: e.target.value }))}
+        />
+        <div className="flex justify-end">
+          <button
+            className="bg-primary text-white rounded-md px-4 py-1.5 text-sm disabled:opacity-50"
+            onClick={handleCreate}
+            disabled={saving || !draft.content.trim()}
+          >
+            {saving ? "Salvando..." : "Registrar"}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {TIMELINE_FILTERS.map(filter => (
+          <button
+            key={filter.value}
+            className={`rounded-full border px-3 py-0.5 text-xs ${types.includes(filter.value) ? "bg-primary text-white border-primary" : "border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800"}`}
+            onClick={() => toggleType(filter.value)}
+          >
+            {filter.label}
+          </button>
+        ))}
+        {types.length > 0 && (
+          <button className="text-xs text-muted-foreground px-2" onClick={() => setTypes([])}>Todos</button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-12 w-full" />
+          <Skeleton className="h-12 w-full" />
+          <Skeleton className="h-12 w-full" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-6 text-center">Nenhuma atividade registrada.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-3 space-y-4">
+          {items.map(item => {
+            const detail = itemDetail(item);
+            return (
+              <li key={item.key} className="ml-5">
+                <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-gray-100 dark:bg-gray-700">
+                  <span className="material-icons text-sm text-gray-600 dark:text-gray-300">{KIND_ICONS[item.kind]}</span>
+                </span>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{itemTitle(item)}</p>
+                    {detail && <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap break-words">{detail}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {item.occurredAt.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })}
+                      {item.actorName ? ` · ${item.actorName}` : ""}
+                    </p>
+                  </div>
+                  {canDelete(item) && (
+                    <button className="text-gray-400 hover:text-red-600 shrink-0" onClick={() => handleDelete(item)} title="Excluir">
+                      <span className="material-icons text-base">delete</span>
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <button className="border rounded-md px-4 py-1.5 text-sm disabled:opacity-50" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? "Carregando..." : "Carregar mais"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
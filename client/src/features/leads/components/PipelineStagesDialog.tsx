@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/inputs/InputField";
+import { Switch } from "@/components/inputs/switch";
+import { Skeleton } from "@/components/data-display/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/feedback/dialog";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import {
+  DEFAULT_PIPELINE, PIPELINE_STAGE_KIND_LABELS, PipelineStage, PipelineStageKind,
+  createPipelineStage, deletePipelineStage, pipelineKey, pipelineLabel, reorderPipelineStages, updatePipelineStage,
+} from "../services/leadPipelineServices";
+import { usePipelineStages } from "../hooks/useLeads";
+
+interface PipelineStagesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialPipeline: string;
+}
+
+const STAGE_KINDS = Object.keys(PIPELINE_STAGE_KIND_LABELS) as PipelineStageKind[];
+
+export default function PipelineStagesDialog({ open, onOpenChange, initialPipeline }: PipelineStagesDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [pipeline, setPipeline] = useState(initialPipeline);
+  const [newStage, setNewStage] = useState<{ name: string; kind: PipelineStageKind }>({ name: "", kind: "open" });
+  const [saving, setSaving] = useState(false);
+
+  const { data: allStages = [], isLoading } = usePipelineStages(true);
+
+  useEffect(() => {
+    if (open) setPipeline(initialPipeline);
+  }, [open, initialPipeline]);
+
+  const pipelines = Array.from(new Set(allStages.map(stage => pipelineKey(stage.source))));
+  const stages = allStages.filter(stage => pipelineKey(stage.source) === pipeline).sort((a, b) => a.position - b.position);
+  const source = pipeline === DEFAULT_PIPELINE ? null : pipeline;
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: ["pipelineStages"] });
+    await queryClient.invalidateQueries({ queryKey: ["leadsList", "pipeline"] });
+    await queryClient.invalidateQueries({ queryKey: ["dashboardStats"] });
+  };
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setSaving(true);
+    try {
+      await action();
+      await refresh();
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, fallback), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = (stage: PipelineStage, changes: Partial<Pick<PipelineStage, "name" | "kind" | "color" | "active">>) =>
+    run(() => updatePipelineStage(stage.id, changes), "Não foi possível atualizar a etapa.");
+
+  const handleMove = (index: number, offset: number) => {
+    const ids = stages.map(stage => stage.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    return run(() => reorderPipelineStages(source, ids), "Não foi possível reordenar as etapas.");
+  };
+
+  const handleDelete = (stage: PipelineStage) => run(async () => {
+    const { deactivated } = await deletePipelineStage(stage.id);
+    if (deactivated) {
+      toast({ title: "Etapa desativada", description: `"${stage.name}" já aparece no histórico dos leads, por isso foi desativada em vez de excluída.` });
+    }
+  }, "Não foi possível excluir a etapa.");
+
+  const handleCreate = () => run(async () => {
+    await createPipelineStage({ source, name: newStage.name.trim(), kind: newStage.kind });
+    setNewStage({ name: "", kind: "open" });
+  }, "Não foi possível criar a etapa.");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Etapas do funil</DialogTitle>
+          <DialogDescription>
+            Cada origem pode ter seu próprio funil; as demais origens usam o funil "Outras origens".
+            Uma etapa só pode ser desativada ou excluída quando não houver leads nela.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={pipeline} onValueChange={setPipeline}>
+          <SelectTrigger className="h-9 w-[220px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(pipelines.length > 0 ? pipelines : [pipeline]).map(key => (
+              <SelectItem key={key} value={key}>Funil {pipelineLabel(key)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {stages.map((stage, index) => (
+              <div key={stage.id} className={`flex items-center gap-2 ${stage.active ? "" : "opacity-60"}`}>
+                <input
+                  type="color"
+                  className="h-9 w-9 shrink-0 rounded border border-gray-200 dark:border-gray-700 bg-transparent"
+                  defaultValue={stage.color || "#94a3b8"}
+                  onBlur={(e) => e.target.value !== stage.color && handleUpdate(stage, { color: e.target.value })}
+                  disabled={saving}
+                />
+                <Input
+                  className="h-9"
+                  defaultValue={stage.name}
+                  onBlur={(e) => e.target.value.trim() && e.target.value.trim() !== stage.name && handleUpdate(stage, { name: e.target.value.trim() })}
+                  disabled={saving}
+                />
+                <Select value={stage.kind} onValueChange={(value) => handleUpdate(stage, { kind: value as PipelineStageKind })} disabled={saving}>
+                  <SelectTrigger className="h-9 w-[170px] shrink-0"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {STAGE_KINDS.map(kind => <SelectItem key={kind} value={kind}>{PIPELINE_STAGE_KIND_LABELS[kind]}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Switch
+                  checked={stage.active}
+                  onCheckedChange={(active) => handleUpdate(stage, { active })}
+                  disabled={saving}
+                  title={stage.active ? "Desativar etapa" : "Reativar etapa"}
+                />
+                <button className="text-gray-500 disabled:opacity-30" onClick={() => handleMove(index, -1)} disabled={saving || index === 0} title="Mover para cima">
+                  <span className="material-icons text-base">arrow_upward</span>
+                </button>
+                <button className="text-gray-500 disabled:opacity-30" onClick={() => handleMove(index, 1)} disabled={saving || index === stages.length - 1} title="Mover para baixo">
+                  <span className="material-icons text-base">arrow_downward</span>
+                </button>
+                <button className="text-red-600 disabled:opacity-30" onClick={() => handleDelete(stage)} disabled={saving} title="Excluir etapa">
+                  <span className="material-icons text-base">delete</span>
+                </button>
+              </div>
+            ))}
+
+            <div className="flex items-center gap-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+              <Input
+                className="h-9"
+                placeholder="Nova etapa"
+                value={newStage.name}
+                onChange={(e) => setNewStage(prev => ({ ...prev, name: e.target.value }))}
+              />
+              <Select value={newStage.kind} onValueChange={(value) => setNewStage(prev => ({ ...prev, kind: value as PipelineStageKind }))}>
+                <SelectTrigger className="h-9 w-[170px] shrink-0"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {STAGE_KINDS.map(kind => <SelectItem key={kind} value={kind}>{PIPELINE_STAGE_KIND_LABELS[kind]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <button
+                className="bg-primary text-white rounded-md px-4 py-2 text-sm disabled:opacity-50 shrink-0"
+                onClick={handleCreate}
+                disabled={saving || !newStage.name.trim()}
+              >
+                Adicionar
+              </button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { addDays, format } from 'date-fns';
+import { AlertTriangle, Check, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { Lead } from '@/types';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/features/auth/hooks/use-auth';
+import { Button } from '@/components/inputs/Button';
+import { Input } from '@/components/inputs/InputField';
+import { Label } from '@/components/inputs/label';
+import { Textarea } from '@/components/inputs/textarea';
+import { Switch } from '@/components/inputs/switch';
+import { Checkbox } from '@/components/inputs/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/inputs/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/feedback/dialog';
+import { TrainerOption, fetchActiveTrainers, getSessionErrorMessage } from '@/features/scheduling/services/sessionServices';
+import {
+  DEFAULT_ONBOARDING_TASKS,
+  STUDENT_PLANS,
+  StudentConversionResult,
+  WELCOME_MESSAGE,
+  convertLeadToStudent,
+  sendWelcomeMessage,
+} from '../services/studentConversionServices';
+
+type WizardStep = 'student' | 'session' | 'tasks' | 'welcome';
+
+const steps: Array<{ key: WizardStep; label: string }> = [
+  { key: 'student', label: 'Dados do aluno' },
+  { key: 'session', label: 'Primeira sessão' },
+  { key: 'tasks', label: 'Onboarding' },
+  { key: 'welcome', label: 'Boas-vindas' },
+];
+
+interface OnboardingTaskDraft {
+  title: string;
+  dueDate: string; // AAAA-MM-DD
+  priority: 'low' | 'medium' | 'high';
+  selected: boolean;
+}
+
+interface StudentConversionWizardProps {
+  lead: Lead;
+  isOpen: boolean;
+  onClose: () => void;
+  onConverted: (result: StudentConversionResult) => void;
+}
+
+export default function StudentConversionWizard({ lead, isOpen, onClose, onConverted }: StudentConversionWizardProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [step, setStep] = useState<WizardStep>('student');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [address, setAddress] = useState('');
+  const [preferences, setPreferences] = useState('');
+  const [plan, setPlan] = useState('');
+  const [source, setSource] = useState(lead.source === 'Pink' ? 'Pink' : 'Favale');
+
+  const [scheduleSession, setScheduleSession] = useState(false);
+  const [trainerId, setTrainerId] = useState('');
+  const [sessionDate, setSessionDate] = useState(format(addDays(new Date(), 1), 'yyyy-MM-dd'));
+  const [sessionStart, setSessionStart] = useState('09:00');
+  const [sessionEnd, setSessionEnd] = useState('10:00');
+  const [location, setLocation] = useState('');
+
+  const [tasks, setTasks] = useState<OnboardingTaskDraft[]>(() => DEFAULT_ONBOARDING_TASKS.map(task => ({
+    title: task.title,
+    dueDate: format(addDays(new Date(), task.dueInDays), 'yyyy-MM-dd'),
+    priority: task.priority,
+    selected: true,
+  })));
+
+  const [sendWelcome, setSendWelcome] = useState(true);
+  const [message, setMessage] = useState(WELCOME_MESSAGE.replace('{nome}', lead.name));
+
+  const { data: trainers = [] } = useQuery<TrainerOption[]>({ queryKey: ['activeTrainers'], queryFn: fetchActiveTrainers, enabled: isOpen });
+
+  const stepIndex = steps.findIndex(s => s.key === step);
+  const sessionStartDate = new Date(`${sessionDate}T${sessionStart}`);
+  const sessionEndDate = new Date(`${sessionDate}T${sessionEnd}`);
+
+  const stepError = (): string | null => {
+    if (step === 'session' && scheduleSession) {
+      if (!trainerId) return 'Selecione o professor.';
+      if (!location.trim()) return 'Informe o local da sessão.';
+      if (isNaN(sessionStartDate.getTime()) || !(sessionEndDate > sessionStartDate)) return 'O horário de término deve ser posterior ao de início.';
+    }
+    if (step === 'tasks' && tasks.some(t => t.selected && !t.title.trim())) return 'Toda tarefa selecionada precisa de um título.';
+    return null;
+  };
+
+  const updateTask = (index: number, changes: Partial<OnboardingTaskDraft>) =>
+    setTasks(prev => prev.map((task, i) => (i === index ? { ...task, ...changes } : task)));
+
+  const handleConvert = async () => {
+    if (!user) return;
+    setIsSubmitting(true);
+    try {
+      const result = await convertLeadToStudent({
+        leadId: lead.id,
+        address: address.trim() || undefined,
+        preferences: preferences.trim() || undefined,
+        plan: plan || undefined,
+        source,
+        firstSession: scheduleSession ? {
+          startTime: sessionStartDate.toISOString(),
+          endTime: sessionEndDate.toISOString(),
+          trainerId: parseInt(trainerId),
+          location: location.trim(),
+        } : undefined,
+        tasks: tasks.filter(t => t.selected).map(t => ({
+          title: t.title.trim(),
+          assignedToId: user.id,
+          dueDate: new Date(`${t.dueDate}T09:00`).toISOString(),
+          priority: t.priority,
+        })),
+      });
+
+      await queryClient.invalidateQueries({ queryKey: ['studentOptions'] });
+      await queryClient.invalidateQueries({ queryKey: ['leadsList'] });
+      if (result.sessionId) await queryClient.invalidateQueries({ queryKey: ['sessionsList'] });
+
+      toast({
+        title: result.reactivated ? 'Aluno reativado' : 'Aluno cadastrado',
+        description: `${lead.name} agora é aluno${result.sessionId ? ', com a primeira sessão agendada' : ''}.`,
+      });
+
+      // The conversion is already committed; a WhatsApp failure only warns
+      if (sendWelcome && message.trim()) {
+        try {
+          await sendWelcomeMessage(lead.id, message);
+        } catch (error) {
+          toast({
+            title: 'Mensagem de boas-vindas não enviada',
+            description: getSessionErrorMessage(error, 'Não foi possível enviar a mensagem pelo WhatsApp.'),
+            variant: 'destructive',
+          });
+        }
+      }
+
+      onConverted(result);
+    } catch (error) {
+      toast({
+        title: 'Erro na conversão',
+        description: getSessionErrorMessage(error, 'Não foi possível converter o lead em aluno.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const error = stepError();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Converter {lead.name} em aluno</DialogTitle>
+          <DialogDescription>
+            Passo {stepIndex + 1} de {steps.length}: {steps[stepIndex].label}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-1">
+          {steps.map((s, i) => (
+            <div key={s.key} className={`h-1 flex-1 rounded ${i <= stepIndex ? 'bg-primary' : 'bg-gray-200 dark:bg-gray-700'}`} />
+          ))}
+        </div>
+
+        <div className="space-y-4 py-2">
+          {step === 'student' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="student-address">Endereço</Label>
+                <Input id="student-address" value={address} onChange={(e) => setAddress(e.target.value)} placeholder="Rua, número, bairro, cidade" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="student-preferences">Preferências</Label>
+                <Textarea
+                  id="student-preferences"
+                  value={preferences}
+                  onChange={(e) => setPreferences(e.target.value)}
+                  rows={3}
+                  placeholder="Horários, objetivos, restrições..."
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Plano</Label>
+                  <Select value={plan} onValueChange={setPlan}>
+                    <SelectTrigger><SelectValue placeholder="Selecione o plano" /></SelectTrigger>
+                    <SelectContent>
+                      {STUDENT_PLANS.map(p => <SelectItem key={p} value={p}>{p}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Marca</Label>
+                  <Select value={source} onValueChange={setSource}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="Favale">Favale</SelectItem>
+                      <SelectItem value="Pink">Pink</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </>
+          )}
+
+          {step === 'session' && (
+            <>
+              <div className="flex items-center space-x-2">
+                <Switch id="schedule-session" checked={scheduleSession} onCheckedChange={setScheduleSession} />
+                <Label htmlFor="schedule-session" className="cursor-pointer">Agendar a primeira sessão agora</Label>
+              </div>
+              {scheduleSession && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Professor</Label>
+                    <Select value={trainerId} onValueChange={setTrainerId}>
+                      <SelectTrigger><SelectValue placeholder="Selecione o professor" /></SelectTrigger>
+                      <SelectContent>
+                        {trainers.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="session-date">Data</Label>
+                      <Input id="session-date" type="date" value={sessionDate} onChange={(e) => setSessionDate(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="session-start">Início</Label>
+                      <Input id="session-start" type="time" value={sessionStart} onChange={(e) => setSessionStart(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="session-end">Término</Label>
+                      <Input id="session-end" type="time" value={sessionEnd} onChange={(e) => setSessionEnd(e.target.value)} />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="session-location">Local</Label>
+                    <Input id="session-location" value={location} onChange={(e) => setLocation(e.target.value)} placeholder="Academia, casa do aluno, online..." />
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
+          {step === 'tasks' && (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">As tarefas selecionadas serão criadas para você e vinculadas a este lead.</p>
+              {tasks.map((task, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Checkbox checked={task.selected} onCheckedChange={(checked) => updateTask(index, { selected: checked === true })} />
+                  <Input
+                    value={task.title}
+                    onChange={(e) => updateTask(index, { title: e.target.value })}
+                    disabled={!task.selected}
+                    className="flex-1"
+                  />
+                  <Input
+                    type="date"
+                    value={task.dueDate}
+                    onChange={(e) => updateTask(index, { dueDate: e.target.value })}
+                    disabled={!task.selected}
+                    className="w-40"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {step === 'welcome' && (
+            <>
+              <div className="flex items-center space-x-2">
+                <Switch id="send-welcome" checked={sendWelcome} onCheckedChange={setSendWelcome} />
+                <Label htmlFor="send-welcome" className="cursor-pointer">Enviar boas-vindas via WhatsApp</Label>
+              </div>
+              {sendWelcome && (
+                <div className="space-y-2">
+                  <Textarea value={message} onChange={(e) => setMessage(e.target.value)} rows={7} className="min-h-[100px]" />
+                  <div className="flex items-start gap-2 text-xs text-muted-foreground">
+                    <AlertTriangle size={14} className="mt-0.5 min-w-[14px]" />
+                    <p>Esta mensagem será enviada para {lead.phone} depois que o aluno for cadastrado.</p>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter className="flex items-center justify-between gap-2 sm:justify-between">
+          <Button
+            variant="outline"
+            onClick={() => (stepIndex === 0 ? onClose() : setStep(steps[stepIndex - 1].key))}
+            disabled={isSubmitting}
+          >
+            {stepIndex === 0 ? 'Cancelar' : <><ChevronLeft size={16} className="mr-1" />Voltar</>}
+          </Button>
+          {step === 'welcome' ? (
+            <Button onClick={handleConvert} disabled={isSubmitting || !user} className="flex items-center gap-1.5">
+              {isSubmitting ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />}
+              <span>{isSubmitting ? 'Convertendo...' : 'Converter em aluno'}</span>
+            </Button>
+          ) : (
+            <Button onClick={() => setStep(steps[stepIndex + 1].key)} disabled={!!error}>
+              Próximo<ChevronRight size={16} className="ml-1" />
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
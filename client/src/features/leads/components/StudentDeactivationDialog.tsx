@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { Lead } from '@/types';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/inputs/Button';
+import { Label } from '@/components/inputs/label';
+import { Textarea } from '@/components/inputs/textarea';
+import { Switch } from '@/components/inputs/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/feedback/dialog';
+import { getSessionErrorMessage } from '@/features/scheduling/services/sessionServices';
+import { deactivateStudent, fetchStudentByLead } from '../services/studentConversionServices';
+
+interface StudentDeactivationDialogProps {
+  lead: Lead;
+  isOpen: boolean;
+  onClose: () => void;
+  onDone: (deactivated: boolean) => void; // false when the lead has no active student record, so nothing changed
+}
+
+export default function StudentDeactivationDialog({ lead, isOpen, onClose, onDone }: StudentDeactivationDialogProps) {
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState('');
+  const [cancelFutureSessions, setCancelFutureSessions] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: student, isLoading } = useQuery({
+    queryKey: ['leadStudent', lead.id],
+    queryFn: () => fetchStudentByLead(lead.id),
+    enabled: isOpen,
+  });
+
+  const handleDeactivate = async () => {
+    if (!student?.active) {
+      onDone(false);
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const result = await deactivateStudent(student.id, reason.trim(), cancelFutureSessions);
+      await queryClient.invalidateQueries({ queryKey: ['studentOptions'] });
+      await queryClient.invalidateQueries({ queryKey: ['leadStudent', lead.id] });
+      if (result.cancelledSessionIds.length > 0) await queryClient.invalidateQueries({ queryKey: ['sessionsList'] });
+      toast({
+        title: 'Aluno desativado',
+        description: result.cancelledSessionIds.length > 0
+          ? `${result.cancelledSessionIds.length} sessão(ões) futura(s) cancelada(s).`
+          : `${lead.name} não é mais um aluno ativo.`,
+      });
+      onDone(true);
+    } catch (error) {
+      toast({
+        title: 'Erro',
+        description: getSessionErrorMessage(error, 'Não foi possível desativar o aluno.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Desativar aluno</DialogTitle>
+          <DialogDescription>
+            {lead.name} deixará de ser aluno. O cadastro é mantido e pode ser reativado convertendo o lead novamente.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : student?.active ? (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="deactivation-reason">Motivo</Label>
+              <Textarea
+                id="deactivation-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                placeholder="Ex.: mudou de cidade, pausa no treino..."
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="cancel-future-sessions" checked={cancelFutureSessions} onCheckedChange={setCancelFutureSessions} />
+              <Label htmlFor="cancel-future-sessions" className="cursor-pointer">Cancelar as sessões futuras</Label>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground py-2">Este lead não possui cadastro de aluno ativo. Apenas o status será alterado.</p>
+        )}
+
+        <DialogFooter className="flex items-center justify-end gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Cancelar</Button>
+          <Button variant={student?.active ? 'destructive' : 'default'} onClick={handleDeactivate} disabled={isLoading || isSubmitting}>
+            {isSubmitting ? 'Desativando...' : student?.active ? 'Desativar aluno' : 'Continuar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
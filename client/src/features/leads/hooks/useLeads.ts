@@ -1,6 +1,12 @@
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { Lead } from "@/types"; // Updated
-import { fetchLeadsService } from "../services/leadServices";
+import { fetchLeadsService, LeadSearchParams, LeadSearchResult, searchLeadsService } from "../services/leadServices";
+import { fetchLeadSegments, LeadSegment } from "../services/leadSegmentServices";
+import { fetchPipelineBoard, fetchPipelineStages, PipelineColumn, PipelineStage } from "../services/leadPipelineServices";
+import { fetchLeadScoreRules, LeadScoreRule } from "../services/leadScoringServices";
+import {
+  AssignableUser, LeadAssignmentRule, LeadAssignmentSettings, fetchAssignableUsers, fetchAssignmentSettings,
+} from "../services/leadAssignmentServices";
 
 export const useLeads = () => {
   return useQuery<Lead[], Error>({ // Explicitly type Error for the error object
@@ -10,6 +16,64 @@ export const useLeads = () => {
   });
 };
 
+// One page of the server-side lead search. Keyed under "leadsList" so existing invalidations refresh it;
+// the previous page stays on screen while the next one loads
+export const useLeadSearch = (params: LeadSearchParams) => {
+  return useQuery<LeadSearchResult, Error>({
+    queryKey: ["leadsList", "search", params],
+    queryFn: () => searchLeadsService(params),
+    placeholderData: keepPreviousData,
+  });
+};
+
+// Saved segments with live counts; also under "leadsList" so lead changes refresh the counts
+export const useLeadSegments = (pinnedOnly = false, enabled = true) => {
+  return useQuery<LeadSegment[], Error>({
+    queryKey: ["leadsList", "segments", { pinnedOnly }],
+    queryFn: () => fetchLeadSegments(pinnedOnly),
+    enabled,
+  });
+};
+
+export const usePipelineStages = (includeInactive = false) => {
+  return useQuery<PipelineStage[], Error>({
+    queryKey: ["pipelineStages", { includeInactive }],
+    queryFn: () => fetchPipelineStages(includeInactive),
+  });
+};
+
+// Kanban columns of one pipeline; under "leadsList" so edits made in the table show up on the board
+export const usePipelineBoard = (pipeline: string, filters: Parameters<typeof fetchPipelineBoard>[1]) => {
+  return useQuery<PipelineColumn[], Error>({
+    queryKey: ["leadsList", "pipeline", pipeline, filters],
+    queryFn: () => fetchPipelineBoard(pipeline, filters),
+  });
+};
+
+export const useLeadScoreRules = () => {
+  return useQuery<LeadScoreRule[], Error>({
+    queryKey: ["leadScoreRules"],
+    queryFn: fetchLeadScoreRules,
+  });
+};
+
+// Active users with their open leads; owner names in the lead table come from here
+export const useAssignableUsers = () => {
+  return useQuery<AssignableUser[], Error>({
+    queryKey: ["leadsList", "assignableUsers"],
+    queryFn: fetchAssignableUsers,
+    staleTime: 60 * 1000,
+  });
+};
+
+export const useAssignmentSettings = (enabled = true) => {
+  return useQuery<{ settings: LeadAssignmentSettings; rules: LeadAssignmentRule[] }, Error>({
+    queryKey: ["assignmentSettings"],
+    queryFn: fetchAssignmentSettings,
+    enabled,
+  });
+};
+
 // Example for a single lead, if needed later
 // import { fetchLeadByIdService } from "../services/leadServices"; // Assuming this service exists
 // export const useLead = (leadId: string | number) => {
@@ -0,0 +1,71 @@
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+
+export type LeadAssignmentStrategy = "round_robin" | "workload";
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<LeadAssignmentStrategy, string> = {
+  round_robin: "Rodízio (um de cada vez)",
+  workload: "Menor carga (menos leads em aberto)",
+};
+
+export const ASSIGNABLE_ROLES = [
+  { value: "comercial", label: "Comercial" },
+  { value: "marketing", label: "Marketing" },
+  { value: "admin", label: "Administrador" },
+  { value: "trainer", label: "Professor" },
+];
+
+// Active user as returned by lead-functions /assignment/users; openLeads = owned leads still being worked on
+export interface AssignableUser {
+  id: string;
+  name: string;
+  role: string;
+  openLeads: number;
+}
+
+export interface LeadAssignmentSettings {
+  autoAssign: boolean;
+  strategy: LeadAssignmentStrategy;
+  roles: string[];
+  slaHours: number;
+}
+
+export interface LeadAssignmentRule {
+  id: number;
+  field: "source" | "state";
+  value: string;
+  userId: string;
+  position: number;
+  active: boolean;
+}
+
+export type LeadAssignmentRulePayload = Omit<LeadAssignmentRule, "id">;
+
+export const fetchAssignableUsers = async (): Promise<AssignableUser[]> => {
+  const response = await invokeSupabaseFunction<{ data: AssignableUser[] }>("lead-functions", "GET", undefined, { slug: "assignment/users" });
+  return response.data || [];
+};
+
+// ownerId null unassigns; automatic applies the assignment rules. The new owner gets a follow-up task
+export const setLeadOwner = async (leadId: number, payload: { ownerId?: string | null; automatic?: boolean }): Promise<string | null> => {
+  const response = await invokeSupabaseFunction<{ data: { owner_id: string | null } }>("lead-functions", "PUT", payload, { slug: `${leadId}/owner` });
+  return response.data?.owner_id ?? null;
+};
+
+export const fetchAssignmentSettings = async (): Promise<{ settings: LeadAssignmentSettings; rules: LeadAssignmentRule[] }> => {
+  const response = await invokeSupabaseFunction<{ data: { settings: LeadAssignmentSettings; rules: LeadAssignmentRule[] } }>(
+    "lead-functions", "GET", undefined, { slug: "assignment/settings" },
+  );
+  return response.data;
+};
+
+export const updateAssignmentSettings = (payload: Partial<LeadAssignmentSettings>) =>
+  invokeSupabaseFunction("lead-functions", "PUT", payload, { slug: "assignment/settings" });
+
+export const createAssignmentRule = (payload: LeadAssignmentRulePayload) =>
+  invokeSupabaseFunction("lead-functions", "POST", payload, { slug: "assignment/rules" });
+
+export const updateAssignmentRule = (id: number, payload: Partial<LeadAssignmentRulePayload>) =>
+  invokeSupabaseFunction("lead-functions", "PATCH", payload, { slug: `assignment/rules/${id}` });
+
+export const deleteAssignmentRule = (id: number) =>
+  invokeSupabaseFunction("lead-functions", "DELETE", undefined, { slug: `assignment/rules/${id}` });
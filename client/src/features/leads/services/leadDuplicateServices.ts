@@ -0,0 +1,80 @@
+import { Lead } from "@/types";
+import type { LeadDuplicatePairRow, LeadRow } from "@shared/schema";
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+
+export type LeadDuplicateReason = "phone" | "email" | "name";
+
+export const DUPLICATE_REASON_LABELS: Record<LeadDuplicateReason, string> = {
+  phone: "Mesmo telefone",
+  email: "Mesmo e-mail",
+  name: "Nome parecido",
+};
+
+// Fields whose value can come from any of the merged leads; tags are always combined
+export const MERGE_FIELDS = [
+  { key: "name", label: "Nome" },
+  { key: "email", label: "E-mail" },
+  { key: "phone", label: "Telefone" },
+  { key: "state", label: "Estado" },
+  { key: "campaign", label: "Campanha" },
+  { key: "source", label: "Origem" },
+  { key: "status", label: "Status" },
+  { key: "notes", label: "Observações" },
+  { key: "entryDate", label: "Data de entrada" },
+] as const;
+
+export type LeadMergeField = typeof MERGE_FIELDS[number]["key"];
+
+export type DuplicateLead = Lead & { isStudent: boolean };
+
+export interface LeadDuplicatePair {
+  lead: DuplicateLead;
+  duplicate: DuplicateLead;
+  reasons: LeadDuplicateReason[];
+  nameSimilarity: number; // 0..1
+}
+
+export interface LeadMergePayload {
+  survivorId: number;
+  mergedIds: number[];
+  fields: Partial<Record<LeadMergeField, number>>; // Lead id that provides each value
+}
+
+export interface LeadMergeResult {
+  lead: LeadRow;
+  mergedIds: number[];
+  moved: { whatsappMessages: number; tasks: number; students: number; activities: number; stageChanges: number };
+}
+
+const toDuplicateLead = (row: LeadDuplicatePairRow["lead"]): DuplicateLead => ({
+  ...row,
+  entryDate: new Date(row.entryDate),
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+  deletedAt: null,
+  deletedBy: null,
+  ownerId: row.owner_id,
+  assignedAt: row.assigned_at ? new Date(row.assigned_at) : null,
+  isStudent: !!row.is_student,
+});
+
+export const fetchLeadDuplicates = async (): Promise<LeadDuplicatePair[]> => {
+  const response = await invokeSupabaseFunction<{ data: LeadDuplicatePairRow[] }>("lead-functions", "GET", undefined, {
+    slug: "duplicates",
+    params: { limit: "200" },
+  });
+  return (response.data || []).map(pair => ({
+    lead: toDuplicateLead(pair.lead),
+    duplicate: toDuplicateLead(pair.duplicate),
+    reasons: pair.reasons || [],
+    nameSimilarity: pair.nameSimilarity ?? 0,
+  }));
+};
+
+export const dismissLeadDuplicate = (leadId: number, duplicateId: number) =>
+  invokeSupabaseFunction("lead-functions", "POST", { leadId, duplicateId }, { slug: "duplicates/dismiss" });
+
+export const mergeLeads = async (payload: LeadMergePayload): Promise<LeadMergeResult> => {
+  const response = await invokeSupabaseFunction<{ data: LeadMergeResult }>("lead-functions", "POST", payload, { slug: "merge" });
+  return response.data;
+};
@@ -0,0 +1,271 @@
+import * as XLSX from "xlsx";
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+import { leadImportFields, type InsertLead, type LeadImportField, type LeadImportPresetRow } from "@shared/schema";
+import { LEAD_SOURCES, LEAD_STATUSES } from "./leadServices";
+
+export { leadImportFields };
+export type { LeadImportField };
+
+export type ImportMapping = Partial<Record<LeadImportField, string>>;
+
+export { LEAD_SOURCES, LEAD_STATUSES };
+
+export const leadImportFieldLabels: Record<LeadImportField, string> = {
+  name: "Nome",
+  email: "E-mail",
+  phone: "Telefone",
+  state: "Estado",
+  campaign: "Campanha",
+  source: "Origem",
+  status: "Status",
+  tags: "Tags",
+  notes: "Observações",
+  entryDate: "Data de entrada",
+};
+
+// Rows per lead-functions call, both for the dry-run and for the actual import
+export const IMPORT_CHUNK_SIZE = 200;
+
+export interface ParsedSheet {
+  fileName: string;
+  headers: string[];
+  rows: Array<{ rowNumber: number; values: Record<string, string> }>; // rowNumber is the line shown by the spreadsheet app
+}
+
+export interface ImportDefaults {
+  source: string;
+  status: string;
+  campaign: string;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  lead: Record<string, string>;
+}
+
+export interface ImportRowError {
+  rowNumber: number;
+  error: string;
+}
+
+export interface ImportPreview {
+  inserts: Array<{ rowNumber: number; lead: InsertLead }>;
+  updates: Array<{ rowNumber: number; leadId: number; currentName: string; lead: Partial<InsertLead> }>;
+  errors: ImportRowError[];
+}
+
+export interface ImportBatchResult {
+  batch: number;
+  success: number;
+  updated: number;
+  errors: number;
+}
+
+export interface ImportPreset {
+  id: number;
+  fileSource: string;
+  mapping: ImportMapping;
+}
+
+const normalizeHeader = (value: string) =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Common spreadsheet headers for each lead field (already normalized)
+const headerSynonyms: Record<LeadImportField, string[]> = {
+  name: ["nome", "nomecompleto", "name", "fullname", "cliente", "aluno"],
+  email: ["email", "emailaddress", "correioeletronico"],
+  phone: ["telefone", "celular", "whatsapp", "fone", "phone", "phonenumber", "tel"],
+  state: ["estado", "uf", "state"],
+  campaign: ["campanha", "campaign", "campaignname", "anuncio"],
+  source: ["origem", "source", "fonte", "marca"],
+  status: ["status", "situacao", "etapa"],
+  tags: ["tags", "etiquetas", "marcadores"],
+  notes: ["observacoes", "observacao", "obs", "notas", "notes", "comentarios"],
+  entryDate: ["dataentrada", "datadeentrada", "datacadastro", "data", "entrydate", "createdtime", "createdat"],
+};
+
+const cellToString = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return "";
+  if (cell instanceof Date) {
+    // Dates come from XLSX cells; keep only the calendar day
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `${cell.getFullYear()}-${pad(cell.getMonth() + 1)}-${pad(cell.getDate())}`;
+  }
+  return String(cell).trim();
+};
+
+// CSV exported by Excel in Portuguese is often Windows-1252; fall back to it when UTF-8 decoding fails
+const decodeCsv = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("windows-1252").decode(buffer);
+  }
+};
+
+export async function parseLeadFile(file: File): Promise<ParsedSheet> {
+  const buffer = await file.arrayBuffer();
+  const isCsv = /\.(csv|txt)$/i.test(file.name);
+  const workbook = isCsv
+    ? XLSX.read(decodeCsv(buffer).replace(/^\uFEFF/, ""), { type: "string", raw: true })
+    : XLSX.read(buffer, { type: "array", cellDates: true });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error("O arquivo não contém nenhuma planilha.");
+
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "", blankrows: true });
+  const headerIndex = matrix.findIndex(row => row.some(cell => cellToString(cell) !== ""));
+  if (headerIndex === -1) throw new Error("O arquivo está vazio.");
+
+  // Repeated or blank headers get a suffix so every column can still be mapped
+  const seen = new Map<string, number>();
+  const headers = matrix[headerIndex].map((cell, i) => {
+    const base = cellToString(cell) || `Coluna ${i + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+
+  const rows = matrix.slice(headerIndex + 1)
+    .map((row, i) => ({
+      rowNumber: headerIndex + i + 2,
+      values: Object.fromEntries(headers.map((header, col) => [header, cellToString(row[col])])),
+    }))
+    .filter(row => Object.values(row.values).some(Boolean));
+
+  return { fileName: file.name, headers, rows };
+}
+
+export function guessMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const used = new Set<string>();
+  for (const field of leadImportFields) {
+    const header = headers.find(h => !used.has(h) && headerSynonyms[field].includes(normalizeHeader(h)));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+  return mapping;
+}
+
+// Picks the saved preset whose columns all exist in the file, preferring the most complete one
+export function findMatchingPreset(presets: ImportPreset[], headers: string[]): ImportPreset | undefined {
+  const available = new Set(headers);
+  return presets
+    .filter(p => Object.values(p.mapping).length > 0 && Object.values(p.mapping).every(h => h && available.has(h)))
+    .sort((a, b) => Object.keys(b.mapping).length - Object.keys(a.mapping).length)[0];
+}
+
+const matchOption = (value: string, options: readonly string[]) =>
+  options.find(option => normalizeHeader(option) === normalizeHeader(value)) || value;
+
+// Applies the column mapping and defaults; rows repeating a phone or e-mail from earlier in the file are
+// reported here because lead-functions only sees one chunk at a time
+export function buildImportRows(sheet: ParsedSheet, mapping: ImportMapping, defaults: ImportDefaults): { rows: ImportRow[]; errors: ImportRowError[] } {
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  const seenPhones = new Map<string, number>();
+  const seenEmails = new Map<string, number>();
+
+  for (const { rowNumber, values } of sheet.rows) {
+    const lead: Record<string, string> = {};
+    for (const field of leadImportFields) {
+      const header = mapping[field];
+      const value = header ? values[header] : "";
+      if (value) lead[field] = value;
+    }
+    if (!lead.source && defaults.source) lead.source = defaults.source;
+    if (!lead.status && defaults.status) lead.status = defaults.status;
+    if (!lead.campaign && defaults.campaign) lead.campaign = defaults.campaign;
+    if (lead.source) lead.source = matchOption(lead.source, LEAD_SOURCES);
+    if (lead.status) lead.status = matchOption(lead.status, LEAD_STATUSES);
+
+    const phone = (lead.phone || "").replace(/\D/g, "");
+    const email = (lead.email || "").toLowerCase();
+    const firstRow = (phone ? seenPhones.get(phone) : undefined) ?? (email ? seenEmails.get(email) : undefined);
+    if (firstRow !== undefined) {
+      errors.push({ rowNumber, error: `Duplicado da linha ${firstRow} (mesmo telefone ou e-mail).` });
+      continue;
+    }
+    if (phone) seenPhones.set(phone, rowNumber);
+    if (email) seenEmails.set(email, rowNumber);
+    rows.push({ rowNumber, lead });
+  }
+
+  return { rows, errors };
+}
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+export async function previewLeadImport(rows: ImportRow[], onProgress?: (processed: number) => void): Promise<ImportPreview> {
+  const preview: ImportPreview = { inserts: [], updates: [], errors: [] };
+  let processed = 0;
+
+  for (const batch of chunk(rows, IMPORT_CHUNK_SIZE)) {
+    const response = await invokeSupabaseFunction<{ data: {
+      toInsert: Array<{ index: number; lead: InsertLead }>;
+      toUpdate: Array<{ index: number; leadId: number; currentName: string; lead: Partial<InsertLead> }>;
+      errors: Array<{ index?: number; error: string }>;
+    } }>("lead-functions", "POST", { dryRun: true, leads: batch.map(r => r.lead) }, { slug: "batch/import" });
+
+    const { toInsert, toUpdate, errors } = response.data;
+    preview.inserts.push(...toInsert.map(({ index, lead }) => ({ rowNumber: batch[index].rowNumber, lead })));
+    preview.updates.push(...toUpdate.map(({ index, ...rest }) => ({ rowNumber: batch[index].rowNumber, ...rest })));
+    preview.errors.push(...errors.map(({ index, error }) => ({ rowNumber: index !== undefined ? batch[index].rowNumber : 0, error })));
+
+    processed += batch.length;
+    onProgress?.(processed);
+  }
+
+  return preview;
+}
+
+export async function importLeadRows(
+  rows: ImportRow[],
+  handlers: {
+    onBatchStart?: (batch: number, totalBatches: number, size: number) => void;
+    onBatchDone?: (result: ImportBatchResult, errors: ImportRowError[]) => void;
+  } = {},
+): Promise<{ success: number; updated: number; errors: ImportRowError[] }> {
+  const batches = chunk(rows, IMPORT_CHUNK_SIZE);
+  const totals = { success: 0, updated: 0, errors: [] as ImportRowError[] };
+
+  for (let i = 0; i < batches.length; i++) {
+    const batch = batches[i];
+    handlers.onBatchStart?.(i + 1, batches.length, batch.length);
+    let result: ImportBatchResult;
+    let errors: ImportRowError[];
+    try {
+      const response = await invokeSupabaseFunction<{ data: {
+        successfulImports: unknown[]; updatedLeads: unknown[]; errors: Array<{ index?: number; error: string }>;
+      } }>("lead-functions", "POST", { leads: batch.map(r => r.lead) }, { slug: "batch/import" });
+      const { successfulImports, updatedLeads } = response.data;
+      errors = response.data.errors.map(({ index, error }) => ({ rowNumber: index !== undefined ? batch[index].rowNumber : 0, error }));
+      result = { batch: i + 1, success: successfulImports.length, updated: updatedLeads.length, errors: errors.length };
+    } catch (error) {
+      // A failed call only loses its own chunk; the remaining chunks are still sent
+      const message = error instanceof Error ? error.message : "Falha ao enviar o lote.";
+      errors = batch.map(r => ({ rowNumber: r.rowNumber, error: message }));
+      result = { batch: i + 1, success: 0, updated: 0, errors: batch.length };
+    }
+    totals.success += result.success;
+    totals.updated += result.updated;
+    totals.errors.push(...errors);
+    handlers.onBatchDone?.(result, errors);
+  }
+
+  return totals;
+}
+
+export const fetchImportPresets = async (): Promise<ImportPreset[]> => {
+  const response = await invokeSupabaseFunction<{ data: LeadImportPresetRow[] }>("lead-functions", "GET", undefined, { slug: "import-presets" });
+  return (response.data || []).map(p => ({ id: p.id, fileSource: p.file_source, mapping: p.mapping || {} }));
+};
+
+export const saveImportPreset = (fileSource: string, mapping: ImportMapping) =>
+  invokeSupabaseFunction("lead-functions", "POST", { fileSource, mapping }, { slug: "import-presets" });
+
+export const deleteImportPreset = (id: number) =>
+  invokeSupabaseFunction("lead-functions", "DELETE", undefined, { slug: `import-presets/${id}` });
@@ -0,0 +1,102 @@
+import { Lead } from "@/types";
+import type { PipelineBoardColumnRow } from "@shared/schema";
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+import { LeadExportFilters } from "./leadServices";
+
+export type PipelineStageKind = "open" | "won" | "lost";
+
+export const PIPELINE_STAGE_KIND_LABELS: Record<PipelineStageKind, string> = {
+  open: "Em andamento",
+  won: "Fechado (ganho)",
+  lost: "Perdido",
+};
+
+// Stages with source null form the default pipeline, used by sources without stages of their own
+export const DEFAULT_PIPELINE = "default";
+
+export const pipelineKey = (source: string | null) => source ?? DEFAULT_PIPELINE;
+export const pipelineLabel = (key: string) => (key === DEFAULT_PIPELINE ? "Outras origens" : key);
+
+export interface PipelineStage {
+  id: number;
+  source: string | null;
+  name: string;
+  position: number;
+  kind: PipelineStageKind;
+  color: string | null;
+  active: boolean;
+}
+
+export type PipelineLead = Lead & { stageId: number; stageEnteredAt: Date };
+
+export interface PipelineColumn {
+  stage: PipelineStage;
+  leads: PipelineLead[];
+  total: number; // Leads in the stage; the board loads only the most recent ones
+}
+
+const toPipelineLead = (row: PipelineBoardColumnRow["leads"][number]): PipelineLead => ({
+  ...row,
+  entryDate: new Date(row.entryDate),
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+  deletedAt: null,
+  deletedBy: null,
+  ownerId: row.owner_id,
+  assignedAt: row.assigned_at ? new Date(row.assigned_at) : null,
+  stageId: row.stage_id,
+  stageEnteredAt: new Date(row.stage_entered_at),
+});
+
+export const fetchPipelineStages = async (includeInactive = false): Promise<PipelineStage[]> => {
+  const response = await invokeSupabaseFunction<{ data: PipelineStage[] }>("lead-functions", "GET", undefined, {
+    slug: "pipeline/stages",
+    params: includeInactive ? { includeInactive: "true" } : {},
+  });
+  return response.data || [];
+};
+
+// The lead table filters apply to the board too, except source, which is given by the pipeline
+export const fetchPipelineBoard = async (pipeline: string, filters: Omit<LeadExportFilters, "source">): Promise<PipelineColumn[]> => {
+  const params: Record<string, string> = { source: pipeline };
+  const { tag, ...rest } = filters;
+  Object.entries({ ...rest, tags: tag }).forEach(([key, value]) => { if (value) params[key] = value; });
+  const response = await invokeSupabaseFunction<{ data: PipelineBoardColumnRow[] }>("lead-functions", "GET", undefined, { slug: "pipeline/board", params });
+  return (response.data || []).map(column => ({
+    stage: column.stage,
+    leads: (column.leads || []).map(toPipelineLead),
+    total: column.total ?? 0,
+  }));
+};
+
+export const moveLeadToStage = (leadId: number, stageId: number) =>
+  invokeSupabaseFunction("lead-functions", "PUT", { stageId }, { slug: `${leadId}/stage` });
+
+export interface PipelineStagePayload {
+  source: string | null;
+  name: string;
+  kind: PipelineStageKind;
+  color?: string | null;
+}
+
+export const createPipelineStage = async (payload: PipelineStagePayload): Promise<PipelineStage> => {
+  const response = await invokeSupabaseFunction<{ data: PipelineStage }>("lead-functions", "POST", payload, { slug: "pipeline/stages" });
+  return response.data;
+};
+
+export const updatePipelineStage = async (
+  id: number,
+  payload: Partial<Pick<PipelineStage, "name" | "kind" | "color" | "active">>,
+): Promise<PipelineStage> => {
+  const response = await invokeSupabaseFunction<{ data: PipelineStage }>("lead-functions", "PATCH", payload, { slug: `pipeline/stages/${id}` });
+  return response.data;
+};
+
+// Stages already used in the history are deactivated instead of deleted
+export const deletePipelineStage = async (id: number): Promise<{ deactivated: boolean }> => {
+  const response = await invokeSupabaseFunction<{ meta?: { deactivated?: boolean } }>("lead-functions", "DELETE", undefined, { slug: `pipeline/stages/${id}` });
+  return { deactivated: !!response?.meta?.deactivated };
+};
+
+export const reorderPipelineStages = (source: string | null, stageIds: number[]) =>
+  invokeSupabaseFunction("lead-functions", "PUT", { source, stageIds }, { slug: "pipeline/stages/order" });
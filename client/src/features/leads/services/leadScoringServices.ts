@@ -0,0 +1,58 @@
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+
+// Rule fields accepted by lead-functions /scoring/rules (see 0023_lead_scoring.sql)
+export type LeadScoreRuleField =
+  | "source" | "campaign" | "state" | "tag" | "entry_recency" | "whatsapp_reply" | "whatsapp_no_reply" | "task_status";
+
+export const SCORE_RULE_FIELDS: { value: LeadScoreRuleField; label: string; valueHint: string | null }[] = [
+  { value: "source", label: "Origem é", valueHint: "Ex.: Favale" },
+  { value: "campaign", label: "Campanha contém", valueHint: "Ex.: verão" },
+  { value: "state", label: "Estado é", valueHint: "Ex.: SP" },
+  { value: "tag", label: "Tem a tag", valueHint: "Ex.: instagram" },
+  { value: "entry_recency", label: "Entrou nos últimos (dias)", valueHint: "Dias" },
+  { value: "whatsapp_reply", label: "Respondeu no WhatsApp nos últimos (dias)", valueHint: "Dias" },
+  { value: "whatsapp_no_reply", label: "Nunca respondeu no WhatsApp", valueHint: null },
+  { value: "task_status", label: "Tem tarefa com status", valueHint: null },
+];
+
+export const TASK_STATUS_OPTIONS = [
+  { value: "pending", label: "Pendente" },
+  { value: "in_progress", label: "Em andamento" },
+  { value: "completed", label: "Concluída" },
+  { value: "cancelled", label: "Cancelada" },
+];
+
+export interface LeadScoreRule {
+  id: number;
+  name: string;
+  field: LeadScoreRuleField;
+  value: string;
+  points: number;
+  active: boolean;
+}
+
+export type LeadScoreRulePayload = Omit<LeadScoreRule, "id">;
+
+export const fetchLeadScoreRules = async (): Promise<LeadScoreRule[]> => {
+  const response = await invokeSupabaseFunction<{ data: LeadScoreRule[] }>("lead-functions", "GET", undefined, { slug: "scoring/rules" });
+  return response.data || [];
+};
+
+// Every change recomputes the score of all leads on the server
+export const createLeadScoreRule = async (payload: LeadScoreRulePayload): Promise<LeadScoreRule> => {
+  const response = await invokeSupabaseFunction<{ data: LeadScoreRule }>("lead-functions", "POST", payload, { slug: "scoring/rules" });
+  return response.data;
+};
+
+export const updateLeadScoreRule = async (id: number, payload: Partial<LeadScoreRulePayload>): Promise<LeadScoreRule> => {
+  const response = await invokeSupabaseFunction<{ data: LeadScoreRule }>("lead-functions", "PATCH", payload, { slug: `scoring/rules/${id}` });
+  return response.data;
+};
+
+export const deleteLeadScoreRule = (id: number) =>
+  invokeSupabaseFunction("lead-functions", "DELETE", undefined, { slug: `scoring/rules/${id}` });
+
+export const recalculateLeadScores = async (): Promise<number> => {
+  const response = await invokeSupabaseFunction<{ data: { updated: number } }>("lead-functions", "POST", undefined, { slug: "scoring/recalculate" });
+  return response.data?.updated ?? 0;
+};
@@ -0,0 +1,70 @@
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+import type { LeadSegmentFilters, LeadSegmentRow } from "@shared/schema";
+
+export type { LeadSegmentFilters };
+
+export type LeadSegmentVisibility = "private" | "team";
+
+// Saved filter definition (lead-functions /segments); count is evaluated by the server on every fetch
+export interface LeadSegment {
+  id: number;
+  name: string;
+  filters: LeadSegmentFilters;
+  visibility: LeadSegmentVisibility;
+  ownerName: string | null;
+  isOwner: boolean;
+  pinned: boolean;
+  count: number;
+  updatedAt: Date;
+}
+
+export interface LeadSegmentPayload {
+  name: string;
+  filters: LeadSegmentFilters;
+  visibility: LeadSegmentVisibility;
+}
+
+const toLeadSegment = (row: LeadSegmentRow): LeadSegment => ({
+  id: row.id,
+  name: row.name,
+  filters: row.filters || {},
+  visibility: row.visibility,
+  ownerName: row.owner?.full_name || row.owner?.username || null,
+  isOwner: !!row.is_owner,
+  pinned: !!row.pinned,
+  count: row.count ?? 0,
+  updatedAt: new Date(row.updated_at),
+});
+
+export const fetchLeadSegments = async (pinnedOnly = false): Promise<LeadSegment[]> => {
+  const response = await invokeSupabaseFunction<{ data: LeadSegmentRow[] }>("lead-functions", "GET", undefined, {
+    slug: "segments",
+    params: pinnedOnly ? { pinned: "true" } : undefined,
+  });
+  return (response.data || []).map(toLeadSegment);
+};
+
+export const fetchLeadSegment = async (id: number): Promise<LeadSegment> => {
+  const response = await invokeSupabaseFunction<{ data: LeadSegmentRow }>("lead-functions", "GET", undefined, { slug: `segments/${id}` });
+  return toLeadSegment(response.data);
+};
+
+export const createLeadSegment = async (payload: LeadSegmentPayload): Promise<LeadSegment> => {
+  const response = await invokeSupabaseFunction<{ data: LeadSegmentRow }>("lead-functions", "POST", payload, { slug: "segments" });
+  return toLeadSegment(response.data);
+};
+
+export const updateLeadSegment = (id: number, payload: Partial<LeadSegmentPayload>) =>
+  invokeSupabaseFunction("lead-functions", "PATCH", payload, { slug: `segments/${id}` });
+
+export const deleteLeadSegment = (id: number) =>
+  invokeSupabaseFunction("lead-functions", "DELETE", undefined, { slug: `segments/${id}` });
+
+export const setLeadSegmentPinned = (id: number, pinned: boolean) =>
+  invokeSupabaseFunction("lead-functions", pinned ? "PUT" : "DELETE", undefined, { slug: `segments/${id}/pin` });
+
+// Every lead currently matching the segment, so batch actions can target the whole segment
+export const fetchLeadSegmentLeadIds = async (id: number): Promise<number[]> => {
+  const response = await invokeSupabaseFunction<{ data: number[] }>("lead-functions", "GET", undefined, { slug: `segments/${id}/lead-ids` });
+  return response.data || [];
+};
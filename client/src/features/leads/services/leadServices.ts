@@ -1,5 +1,10 @@
 import { Lead } from "@/types"; // Updated
-import { getSupabaseQueryFn } from "@/lib/queryClient";
+import type { LeadRow } from "@shared/schema";
+import { getSupabaseQueryFn, fetchSupabaseFunctionFile, invokeSupabaseFunction } from "@/lib/queryClient";
+
+// Values accepted by lead-functions (see leadSourceEnum / leadStatusEnum there)
+export const LEAD_SOURCES = ["Favale", "Pink", "Website", "Referencia", "Campanha", "Outro"] as const;
+export const LEAD_STATUSES = ["Lead", "Aluno", "Contato", "Oportunidade", "Cliente", "Ex-Aluno", "Perdido"] as const;
 
 // Service function to fetch all leads
 // This function will be used by useQuery's queryFn
@@ -19,3 +24,87 @@ export const fetchLeadsService = getSupabaseQueryFn<Lead[]>({
 //   // For now, this service is primarily for use with useQuery.
 //   return queryFn();
 // };
+
+// --- Server-side search (lead-functions GET /search) ---
+export type LeadSortField = "entryDate" | "name" | "createdAt" | "updatedAt" | "score";
+export type LeadSortDirection = "asc" | "desc";
+
+export interface LeadSearchParams {
+  filters: LeadExportFilters;
+  sort: LeadSortField;
+  direction: LeadSortDirection;
+  limit: number;
+  cursor?: string; // meta.nextCursor of the previous page
+}
+
+export interface LeadSearchResult {
+  leads: Lead[];
+  total: number;
+  nextCursor: string | null;
+}
+
+const toLead = (row: LeadRow): Lead => ({
+  ...row,
+  entryDate: new Date(row.entryDate),
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+  deletedAt: null,
+  deletedBy: null,
+  ownerId: row.owner_id,
+  assignedAt: row.assigned_at ? new Date(row.assigned_at) : null,
+});
+
+export const searchLeadsService = async ({ filters, sort, direction, limit, cursor }: LeadSearchParams): Promise<LeadSearchResult> => {
+  const params: Record<string, string> = { sort, direction, limit: String(limit) };
+  const { tag, ...rest } = filters;
+  Object.entries({ ...rest, tags: tag }).forEach(([key, value]) => { if (value) params[key] = value; });
+  if (cursor) params.cursor = cursor;
+  const response = await invokeSupabaseFunction<{ data: LeadRow[]; meta: { total: number; nextCursor: string | null } }>(
+    "lead-functions", "GET", undefined, { slug: "search", params },
+  );
+  return { leads: (response.data || []).map(toLead), total: response.meta?.total ?? 0, nextCursor: response.meta?.nextCursor ?? null };
+};
+
+export type LeadExportFormat = "csv" | "json" | "excel";
+
+// Same filters the lead table applies; empty values are skipped
+export interface LeadExportFilters {
+  status?: string;
+  source?: string;
+  state?: string;
+  campaign?: string;
+  tag?: string;
+  startDate?: string;
+  endDate?: string;
+  search?: string;
+  whatsappReply?: string; // "replied" | "notReplied"
+  ownerId?: string; // user id, or "none" for unassigned leads
+}
+
+// Downloads every lead matching the filters (not only the loaded page) from lead-functions /export
+export const exportLeadsService = async (format: LeadExportFormat, filters: LeadExportFilters) => {
+  const params: Record<string, string> = { format: format === "excel" ? "xlsx" : format };
+  const { tag, ...rest } = filters;
+  Object.entries({ ...rest, tags: tag }).forEach(([key, value]) => { if (value) params[key] = value; });
+  return fetchSupabaseFunctionFile("lead-functions", { slug: "export", params });
+};
+
+// Related records of the selected leads, shown before a batch delete
+export interface LeadDeletionImpact {
+  total: number;
+  withTasks: number;
+  withSessions: number;
+  withWhatsapp: number;
+  students: number;
+  undoWindowMinutes: number;
+}
+
+export const fetchLeadById = async (id: number): Promise<Lead> => {
+  const response = await invokeSupabaseFunction<{ data: Lead }>("lead-functions", "GET", undefined, { slug: id.toString() });
+  return response.data;
+};
+
+export const fetchLeadDeletionImpact = async (ids: number[]): Promise<LeadDeletionImpact> => {
+  const response = await invokeSupabaseFunction<{ data: LeadDeletionImpact }>("lead-functions", "POST", { ids }, { slug: "batch/impact" });
+  return response.data;
+};
@@ -0,0 +1,64 @@
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+import type { LeadTimelineItemRow } from "@shared/schema";
+
+// Filter values accepted by lead-functions /:id/timeline; "task" also brings the task comments
+export const TIMELINE_FILTERS = [
+  { value: "whatsapp", label: "WhatsApp" },
+  { value: "task", label: "Tarefas" },
+  { value: "session", label: "Sessões" },
+  { value: "note", label: "Notas" },
+  { value: "call", label: "Ligações" },
+  { value: "stage", label: "Funil" },
+  { value: "audit", label: "Alterações" },
+] as const;
+
+export type LeadTimelineFilter = typeof TIMELINE_FILTERS[number]["value"];
+export type LeadTimelineKind = LeadTimelineFilter | "task_comment";
+
+export type LeadCallOutcome = "answered" | "no_answer" | "voicemail";
+
+export const CALL_OUTCOME_LABELS: Record<LeadCallOutcome, string> = {
+  answered: "Atendeu",
+  no_answer: "Não atendeu",
+  voicemail: "Caixa postal",
+};
+
+// Same as the response row with occurredAt parsed; switching on kind narrows data
+export type LeadTimelineItem = {
+  [K in LeadTimelineKind]: Omit<Extract<LeadTimelineItemRow, { kind: K }>, "occurredAt"> & { occurredAt: Date };
+}[LeadTimelineKind];
+
+export interface LeadTimelinePage {
+  items: LeadTimelineItem[];
+  nextCursor: string | null;
+}
+
+export const fetchLeadTimeline = async (
+  leadId: number,
+  types: LeadTimelineFilter[],
+  cursor?: string | null,
+): Promise<LeadTimelinePage> => {
+  const params: Record<string, string> = { limit: "30" };
+  if (types.length > 0) params.types = types.join(",");
+  if (cursor) params.cursor = cursor;
+  const response = await invokeSupabaseFunction<{ data: LeadTimelineItemRow[]; meta: { nextCursor: string | null } }>(
+    "lead-functions", "GET", undefined, { slug: `${leadId}/timeline`, params },
+  );
+  return {
+    items: (response.data || []).map(item => ({ ...item, occurredAt: new Date(item.occurredAt) })),
+    nextCursor: response.meta?.nextCursor ?? null,
+  };
+};
+
+export interface LeadActivityPayload {
+  type: "note" | "call";
+  content: string;
+  callOutcome?: LeadCallOutcome | null;
+  durationMinutes?: number | null;
+}
+
+export const createLeadActivity = (leadId: number, payload: LeadActivityPayload) =>
+  invokeSupabaseFunction("lead-functions", "POST", payload, { slug: `${leadId}/activities` });
+
+export const deleteLeadActivity = (leadId: number, activityId: number) =>
+  invokeSupabaseFunction("lead-functions", "DELETE", undefined, { slug: `${leadId}/activities/${activityId}` });
@@ -0,0 +1,83 @@
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+import type { StudentRow } from "@shared/schema";
+
+export type OnboardingTaskPriority = "low" | "medium" | "high";
+
+export interface OnboardingTaskInput {
+  title: string;
+  description?: string;
+  assignedToId: string;
+  dueDate?: string; // ISO
+  priority: OnboardingTaskPriority;
+}
+
+export interface StudentConversionPayload {
+  leadId: number;
+  address?: string;
+  preferences?: string;
+  plan?: string;
+  source: string;
+  firstSession?: {
+    startTime: string;
+    endTime: string;
+    trainerId: number;
+    location: string;
+    notes?: string;
+  };
+  tasks: OnboardingTaskInput[];
+}
+
+export interface StudentConversionResult {
+  studentId: number;
+  reactivated: boolean;
+  sessionId: number | null;
+  taskIds: number[];
+}
+
+export interface StudentDeactivationResult {
+  studentId: number;
+  leadId: number | null;
+  cancelledSessionIds: number[];
+}
+
+export interface LeadStudentRecord {
+  id: number;
+  leadId: number;
+  plan: string | null;
+  active: boolean;
+}
+
+export const STUDENT_PLANS = ["1x por semana", "2x por semana", "3x por semana", "Avulso", "Online"] as const;
+
+// Suggested onboarding checklist; due dates are days after the conversion
+export const DEFAULT_ONBOARDING_TASKS: Array<{ title: string; dueInDays: number; priority: OnboardingTaskPriority }> = [
+  { title: "Enviar contrato e formas de pagamento", dueInDays: 1, priority: "high" },
+  { title: "Realizar avaliação física", dueInDays: 7, priority: "medium" },
+  { title: "Adicionar ao grupo de alunos", dueInDays: 2, priority: "low" },
+];
+
+export const WELCOME_MESSAGE = `Olá {nome},\n\nEstamos felizes em informar que sua inscrição foi confirmada com sucesso!\n\nAgora você é oficialmente um aluno da Favale&Pink Personal Training. Entraremos em contato para agendar sua primeira sessão.\n\nBem-vindo à nossa equipe!`;
+
+export const convertLeadToStudent = async (payload: StudentConversionPayload): Promise<StudentConversionResult> => {
+  const response = await invokeSupabaseFunction<{ data: StudentConversionResult }>("scheduling-functions", "POST", payload, { slug: "students/convert" });
+  return response.data;
+};
+
+export const deactivateStudent = async (studentId: number, reason: string, cancelFutureSessions: boolean): Promise<StudentDeactivationResult> => {
+  const response = await invokeSupabaseFunction<{ data: StudentDeactivationResult }>(
+    "scheduling-functions", "POST", { reason: reason || undefined, cancelFutureSessions }, { slug: `students/${studentId}/deactivate` },
+  );
+  return response.data;
+};
+
+export const fetchStudentByLead = async (leadId: number): Promise<LeadStudentRecord | null> => {
+  const response = await invokeSupabaseFunction<{ data: StudentRow[] }>("scheduling-functions", "GET", undefined, {
+    slug: "students",
+    params: { leadId: String(leadId) },
+  });
+  const student = response.data?.[0];
+  return student ? { id: student.id, leadId: student.lead_id ?? leadId, plan: student.plan, active: student.active } : null;
+};
+
+export const sendWelcomeMessage = (leadId: number, content: string) =>
+  invokeSupabaseFunction("whatsapp-manager", "POST", { lead_id: leadId, content }, { slug: "send" });
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/data-display/Card';
+import { Button } from '@/components/inputs/Button';
+import { Input } from '@/components/inputs/InputField';
+import { Badge } from '@/components/data-display/badge';
+import { Separator } from '@/components/layout-helpers/separator';
+import { toast } from '@/hooks/use-toast';
+import { AlertTriangle, Link2, Loader2, RefreshCw, Unlink } from 'lucide-react';
+import {
+  CalendarConflictKind, CalendarConflictResolution, CalendarSyncConflictItem, TrainerSyncStatus,
+  connectTrainerCalendar, disconnectTrainerCalendar, fetchCalendarSyncConflicts, fetchCalendarSyncStatus,
+  pullCalendarChanges, resolveCalendarSyncConflict,
+} from '@/features/scheduling/services/calendarSyncServices';
+
+const conflictKindText: Record<CalendarConflictKind, string> = {
+  both_modified: 'Alterada no CRM e no Google',
+  external_delete: 'Evento excluído no Google',
+  overlap: 'Novo horário conflita com outra sessão',
+};
+
+const formatSlot = (value: { start_time?: string; end_time?: string; location?: string } | null) => {
+  if (!value?.start_time || !value.end_time) return '—';
+  const slot = `${format(new Date(value.start_time), "dd/MM/yyyy HH:mm", { locale: ptBR })} - ${format(new Date(value.end_time), 'HH:mm')}`;
+  return value.location ? `${slot} · ${value.location}` : slot;
+};
+
+export default function CalendarSyncPanel() {
+  const queryClient = useQueryClient();
+  const [calendarInputs, setCalendarInputs] = useState<Record<number, string>>({});
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const { data: status, isLoading } = useQuery({ queryKey: ['calendarSyncStatus'], queryFn: fetchCalendarSyncStatus });
+  const { data: conflicts = [] } = useQuery({ queryKey: ['calendarSyncConflicts'], queryFn: () => fetchCalendarSyncConflicts('pending') });
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: ['calendarSyncStatus'] });
+    await queryClient.invalidateQueries({ queryKey: ['calendarSyncConflicts'] });
+  };
+
+  const runAction = async (key: string, action: () => Promise<unknown>, successMessage?: string) => {
+    setBusyKey(key);
+    try {
+      await action();
+      if (successMessage) toast({ title: 'Sincronização', description: successMessage });
+      await refresh();
+    } catch (error) {
+      toast({
+        title: 'Erro',
+        description: error instanceof Error ? error.message : 'Não foi possível concluir a operação.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handlePull = () => runAction('pull', async () => {
+    const results = await pullCalendarChanges();
+    const applied = results.reduce((sum, r) => sum + (r.applied || 0), 0);
+    const newConflicts = results.reduce((sum, r) => sum + (r.conflict || 0), 0);
+    const failed = results.filter(r => r.error);
+    if (failed.length > 0) throw new Error(`Falha em ${failed.length} calendário(s): ${failed[0].error}`);
+    toast({ title: 'Google Calendar', description: `${applied} alteração(ões) aplicada(s), ${newConflicts} conflito(s) para revisar.` });
+    await queryClient.invalidateQueries({ queryKey: ['sessionsList'] });
+  });
+
+  const handleConnect = (trainer: TrainerSyncStatus) =>
+    runAction(`connect-${trainer.trainerId}`, () => connectTrainerCalendar(trainer.trainerId, calendarInputs[trainer.trainerId]), `Calendário de ${trainer.trainerName} vinculado.`);
+
+  const handleDisconnect = (trainer: TrainerSyncStatus) =>
+    runAction(`disconnect-${trainer.trainerId}`, () => disconnectTrainerCalendar(trainer.trainerId), `Calendário de ${trainer.trainerName} desvinculado.`);
+
+  const handleResolve = (conflict: CalendarSyncConflictItem, resolution: CalendarConflictResolution) =>
+    runAction(`resolve-${conflict.id}`, async () => {
+      await resolveCalendarSyncConflict(conflict.id, resolution);
+      await queryClient.invalidateQueries({ queryKey: ['sessionsList'] });
+    }, resolution === 'keep_local' ? 'Versão do CRM enviada ao Google.' : 'Alteração do Google aplicada à sessão.');
+
+  return (
+    <Card className="border-gray-100 dark:border-gray-700 shadow-sm rounded-xl">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg font-medium text-gray-800 dark:text-white">Sincronização de Calendários</CardTitle>
+            <CardDescription className="text-gray-500 dark:text-gray-400">
+              Vincule o calendário de cada professor à sua conta Google. Sessões criadas ou alteradas no CRM são enviadas automaticamente.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handlePull} disabled={busyKey !== null}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${busyKey === 'pull' ? 'animate-spin' : ''}`} />
+            Sincronizar agora
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {(status?.trainers || []).map(trainer => (
+              <div key={trainer.trainerId} className="flex flex-col md:flex-row md:items-center gap-2 rounded-md border p-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{trainer.trainerName}</span>
+                    {trainer.linked
+                      ? <Badge variant="default" className="bg-green-500">Vinculado</Badge>
+                      : <Badge variant="outline">Não vinculado</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {trainer.linked
+                      ? `${trainer.calendarId} · ${trainer.lastSyncedAt ? `última leitura ${format(new Date(trainer.lastSyncedAt), 'dd/MM HH:mm')}` : 'ainda não sincronizado'}`
+                      : 'Informe o ID do calendário ou deixe em branco para usar o principal.'}
+                  </p>
+                  {trainer.lastError && <p className="text-xs text-red-500 truncate">{trainer.lastError}</p>}
+                </div>
+                {trainer.linked ? (
+                  <Button variant="outline" size="sm" onClick={() => handleDisconnect(trainer)} disabled={busyKey !== null}>
+                    <Unlink className="mr-2 h-4 w-4" />
+                    Desvincular
+                  </Button>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder={trainer.calendarId || 'primary'}
+                      value={calendarInputs[trainer.trainerId] || ''}
+                      onChange={(e) => setCalendarInputs(prev => ({ ...prev, [trainer.trainerId]: e.target.value }))}
+                      className="h-9 w-56"
+                    />
+                    <Button size="sm" onClick={() => handleConnect(trainer)} disabled={busyKey !== null}>
+                      <Link2 className="mr-2 h-4 w-4" />
+                      Vincular
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-amber-500" />
+            <h4 className="text-sm font-medium">Conflitos para revisar ({conflicts.length})</h4>
+          </div>
+          {conflicts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma alteração do Google aguardando revisão.</p>
+          ) : (
+            conflicts.map(conflict => (
+              <div key={conflict.id} className="rounded-md border border-amber-200 dark:border-amber-800 p-3 space-y-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{conflict.studentName} com {conflict.trainerName}</span>
+                  <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">{conflictKindText[conflict.kind]}</Badge>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+                  <div><span className="text-muted-foreground">CRM:</span> {formatSlot(conflict.localValue)}</div>
+                  <div>
+                    <span className="text-muted-foreground">Google:</span>{' '}
+                    {conflict.kind === 'external_delete' ? 'evento excluído' : formatSlot(conflict.remoteValue)}
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleResolve(conflict, 'keep_local')} disabled={busyKey !== null}>
+                    Manter CRM
+                  </Button>
+                  <Button size="sm" onClick={() => handleResolve(conflict, 'accept_remote')} disabled={busyKey !== null}>
+                    {conflict.kind === 'external_delete' ? 'Cancelar sessão' : 'Aceitar Google'}
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -25,8 +25,8 @@ export default function GoogleCalendarConfig() {
     try {
       setIsLoading(true);
       // Use invokeSupabaseFunction for 'google-oauth' with slug 'status'
-      const response = await invokeSupabaseFunction<TokenStatus>('google-oauth', 'GET', undefined, { slug: 'status' });
-      setTokenStatus(response);
+      const response = await invokeSupabaseFunction<{ data: TokenStatus }>('google-oauth', 'GET', undefined, { slug: 'status' });
+      setTokenStatus(response.data);
     } catch (error) {
       console.error('Erro ao verificar status:', error);
       toast({
@@ -43,15 +43,16 @@ export default function GoogleCalendarConfig() {
     try {
       setIsAuthenticating(true);
       // Use invokeSupabaseFunction for 'google-oauth' with slug 'auth-url'
-      const response = await invokeSupabaseFunction<{ authUrl: string }>('google-oauth', 'GET', undefined, { slug: 'auth-url' });
-      
-      if (!response.authUrl) {
+      const response = await invokeSupabaseFunction<{ data: { authUrl: string } }>('google-oauth', 'GET', undefined, { slug: 'auth-url' });
+      const authUrl = response.data?.authUrl;
+
+      if (!authUrl) {
         throw new Error("URL de autorização não recebida.");
       }
 
       // Abrir janela de autorização
       const authWindow = window.open(
-        response.authUrl,
+        authUrl,
         'google-auth',
         'width=500,height=600,scrollbars=yes,resizable=yes'
       );
@@ -0,0 +1,30 @@
+import { RadioGroup, RadioGroupItem } from '@/components/inputs/radio-group';
+import { Label } from '@/components/inputs/label';
+import type { SeriesScope } from '../services/sessionServices';
+
+interface SeriesScopeOptionsProps {
+  value: SeriesScope;
+  onChange: (scope: SeriesScope) => void;
+  idPrefix: string; // Keeps radio ids unique when more than one instance is mounted
+  className?: string;
+}
+
+const scopeOptions: { value: SeriesScope; label: string }[] = [
+  { value: 'this', label: 'Somente esta sessão' },
+  { value: 'following', label: 'Esta e as seguintes' },
+  { value: 'all', label: 'Todas as sessões futuras da série' },
+];
+
+// "Esta / esta e as seguintes / todas" choice shown when editing or cancelling an occurrence of a recurring series
+export function SeriesScopeOptions({ value, onChange, idPrefix, className }: SeriesScopeOptionsProps) {
+  return (
+    <RadioGroup value={value} onValueChange={(scope) => onChange(scope as SeriesScope)} className={className}>
+      {scopeOptions.map(option => (
+        <div key={option.value} className="flex items-center gap-2">
+          <RadioGroupItem value={option.value} id={`${idPrefix}-${option.value}`} />
+          <Label htmlFor={`${idPrefix}-${option.value}`}>{option.label}</Label>
+        </div>
+      ))}
+    </RadioGroup>
+  );
+}
@@ -1,16 +1,20 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Calendar as CalendarComponent } from '@/components/data-display/calendar'; // Updated
 import { Badge } from '@/components/data-display/badge'; // Updated
 import { Button } from '@/components/inputs/Button'; // Updated
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/feedback/dialog'; // Updated
 import { SessionForm } from './SessionForm';
-import { format, addDays, setHours, setMinutes, isSameDay, parseISO } from 'date-fns';
+import { format, isSameDay } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { CalendarIcon, Plus, Clock, MapPin, User, ArrowLeft } from 'lucide-react';
+import { CalendarIcon, Plus, Clock, MapPin, User, ArrowLeft, Repeat } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Avatar } from '@/components/data-display/avatar'; // Updated
 import { Skeleton } from '@/components/data-display/skeleton'; // Updated
 import { Link } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/feedback/alert-dialog';
+import { SeriesScopeOptions } from './SeriesScopeOptions';
+import { cancelSession, fetchSessionDetails, getSessionErrorMessage, SeriesScope } from '../services/sessionServices';
 
 type SessionStatus = 'scheduled' | 'completed' | 'cancelled' | 'no-show';
 
@@ -20,6 +24,7 @@ interface Session {
   endTime: Date;
   location: string;
   source: 'Favale' | 'Pink';
+  price?: number;
   notes?: string;
   status: SessionStatus;
   studentId: string;
@@ -27,6 +32,7 @@ interface Session {
   trainerId: string;
   trainerName: string;
   calendarEventId?: string;
+  seriesId?: number;
 }
 
 export function SessionCalendar() {
@@ -34,61 +40,16 @@ export function SessionCalendar() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
   const [selectedSession, setSelectedSession] = useState<Session | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [cancelAlertOpen, setCancelAlertOpen] = useState(false);
+  const [cancelScope, setCancelScope] = useState<SeriesScope>('this');
   const { toast } = useToast();
-  
-  // Mock data de sessões - a ser substituído por chamadas à API
-  const [sessions, setSessions] = useState<Session[]>([]);
+  const queryClient = useQueryClient();
 
-  useEffect(() => {
-    setIsLoading(true);
-    // Simulando carregamento de dados
-    setTimeout(() => {
-      setSessions([
-        {
-          id: 1,
-          startTime: setMinutes(setHours(new Date(), 9), 0),
-          endTime: setMinutes(setHours(new Date(), 10), 0),
-          location: 'Academia Central',
-          source: 'Favale',
-          notes: 'Foco em treinamento de força',
-          status: 'scheduled',
-          studentId: '101',
-          studentName: 'Carlos Oliveira',
-          trainerId: '201',
-          trainerName: 'Ana Silva',
-          calendarEventId: 'event123',
-        },
-        {
-          id: 2,
-          startTime: setMinutes(setHours(new Date(), 15), 0),
-          endTime: setMinutes(setHours(new Date(), 16), 0),
-          location: 'Estúdio Zona Norte',
-          source: 'Pink',
-          notes: 'Treino de cardio e flexibilidade',
-          status: 'scheduled',
-          studentId: '102',
-          studentName: 'Maria Santos',
-          trainerId: '202',
-          trainerName: 'Pedro Costa',
-        },
-        {
-          id: 3,
-          startTime: setMinutes(setHours(addDays(new Date(), 1), 10), 0),
-          endTime: setMinutes(setHours(addDays(new Date(), 1), 11), 0),
-          location: 'Academia Sul',
-          source: 'Favale',
-          status: 'scheduled',
-          studentId: '103',
-          studentName: 'João Pereira',
-          trainerId: '201',
-          trainerName: 'Ana Silva',
-          calendarEventId: 'event456',
-        },
-      ]);
-      setIsLoading(false);
-    }, 1000);
-  }, []);
+  const { data: sessions = [], isLoading } = useQuery<Session[]>({
+    queryKey: ['sessionsList'],
+    queryFn: fetchSessionDetails,
+  });
 
   // Filtrar sessões para o dia selecionado
   const sessionsForSelectedDay = sessions.filter(session => 
@@ -104,6 +65,25 @@ export function SessionCalendar() {
     setDetailsDialogOpen(true);
   };
 
+  const handleEditSession = () => {
+    setDetailsDialogOpen(false);
+    setEditDialogOpen(true);
+  };
+
+  const handleCancelSession = async () => {
+    if (!selectedSession) return;
+    try {
+      await cancelSession(selectedSession.id, undefined, selectedSession.seriesId ? cancelScope : undefined);
+      await queryClient.invalidateQueries({ queryKey: ['sessionsList'] });
+      toast({ title: 'Sessão cancelada', description: 'A sessão foi cancelada com sucesso.' });
+      setCancelAlertOpen(false);
+      setDetailsDialogOpen(false);
+    } catch (error) {
+      console.error('Erro ao cancelar sessão:', error);
+      toast({ title: 'Erro', description: getSessionErrorMessage(error, 'Não foi possível cancelar a sessão.'), variant: 'destructive' });
+    }
+  };
+
   const getStatusBadge = (status: SessionStatus) => {
     switch(status) {
       case 'scheduled':
@@ -239,6 +219,7 @@ export function SessionCalendar() {
                               {format(new Date(session.endTime), 'HH:mm', { locale: ptBR })}
                             </p>
                             {getStatusBadge(session.status)}
+                            {session.seriesId && <Repeat className="h-3.5 w-3.5 text-gray-400" aria-label="Sessão recorrente" />}
                           </div>
                           
                           <div className="flex items-center gap-2 mb-2">
@@ -287,13 +268,7 @@ export function SessionCalendar() {
           </DialogHeader>
           <SessionForm 
             defaultValues={{ date: date, startTime: '09:00', endTime: '10:00' }}
-            onSuccess={() => {
-              setDialogOpen(false);
-              toast({
-                title: 'Sessão agendada',
-                description: 'A sessão foi agendada com sucesso!',
-              });
-            }} 
+            onSuccess={() => setDialogOpen(false)} 
           />
         </DialogContent>
       </Dialog>
@@ -362,19 +337,71 @@ export function SessionCalendar() {
                 <Button variant="outline" onClick={() => setDetailsDialogOpen(false)}>
                   Fechar
                 </Button>
-                <div className="flex gap-2">
-                  <Button variant="outline" className="border-amber-300 bg-amber-50 hover:bg-amber-100 text-amber-700">
-                    Editar
-                  </Button>
-                  <Button variant="outline" className="border-red-300 bg-red-50 hover:bg-red-100 text-red-700">
-                    Cancelar Sessão
-                  </Button>
-                </div>
+                {selectedSession.status === 'scheduled' && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={handleEditSession} className="border-amber-300 bg-amber-50 hover:bg-amber-100 text-amber-700">
+                      Editar
+                    </Button>
+                    <Button variant="outline" onClick={() => { setCancelScope('this'); setCancelAlertOpen(true); }} className="border-red-300 bg-red-50 hover:bg-red-100 text-red-700">
+                      Cancelar Sessão
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
           </DialogContent>
         </Dialog>
       )}
+
+      {/* Dialog para editar sessão */}
+      {selectedSession && (
+        <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
+          <DialogContent className="sm:max-w-[650px] bg-white dark:bg-gray-800 border-gray-100 dark:border-gray-700 rounded-xl">
+            <DialogHeader>
+              <DialogTitle className="text-xl font-semibold text-gray-800 dark:text-white">
+                Editar Sessão
+              </DialogTitle>
+            </DialogHeader>
+            <SessionForm
+              sessionId={selectedSession.id}
+              seriesId={selectedSession.seriesId}
+              defaultValues={{
+                date: new Date(selectedSession.startTime),
+                startTime: format(new Date(selectedSession.startTime), 'HH:mm'),
+                endTime: format(new Date(selectedSession.endTime), 'HH:mm'),
+                location: selectedSession.location,
+                source: selectedSession.source,
+                studentId: selectedSession.studentId,
+                trainerId: selectedSession.trainerId,
+                notes: selectedSession.notes || '',
+                price: selectedSession.price !== undefined ? String(selectedSession.price).replace('.', ',') : '',
+              }}
+              onSuccess={() => setEditDialogOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Confirmação de cancelamento */}
+      <AlertDialog open={cancelAlertOpen} onOpenChange={setCancelAlertOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar Sessão</AlertDialogTitle>
+            <AlertDialogDescription>
+              Você tem certeza que deseja cancelar esta sessão? Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {selectedSession?.seriesId && (
+            <SeriesScopeOptions value={cancelScope} onChange={setCancelScope} idPrefix="cancel-calendar" className="py-2" />
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancelSession} className="bg-red-500 hover:bg-red-600">
+              Sim, cancelar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
@@ -5,6 +5,8 @@ import { Badge } from '@/components/data-display/badge'; // Updated
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/feedback/alert-dialog'; // Updated
 import { CalendarIcon, Clock, FileEdit, MapPin, User, X } from 'lucide-react';
 import { useState } from 'react';
+import { SeriesScopeOptions } from './SeriesScopeOptions';
+import type { SeriesScope } from '../services/sessionServices';
 
 type SessionStatus = 'scheduled' | 'completed' | 'cancelled' | 'no-show';
 
@@ -21,17 +23,19 @@ interface Session {
   trainerId: string;
   trainerName: string;
   calendarEventId?: string;
+  seriesId?: number;
 }
 
 interface SessionDetailsProps {
   session: Session;
-  onCancelSession: (id: number) => void;
+  onCancelSession: (id: number, scope?: SeriesScope) => void;
   onCompleteSession: (id: number) => void;
   onEditSession: (id: number) => void;
 }
 
 export function SessionDetails({ session, onCancelSession, onCompleteSession, onEditSession }: SessionDetailsProps) {
   const [cancelAlertOpen, setCancelAlertOpen] = useState(false);
+  const [cancelScope, setCancelScope] = useState<SeriesScope>('this');
   
   function getStatusClass(status: SessionStatus): string {
     switch (status) {
@@ -161,9 +165,12 @@ export function SessionDetails({ session, onCancelSession, onCompleteSession, on
               Você tem certeza que deseja cancelar esta sessão? Esta ação não pode ser desfeita.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {session.seriesId && (
+            <SeriesScopeOptions value={cancelScope} onChange={setCancelScope} idPrefix="cancel-details" className="py-2" />
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel>Voltar</AlertDialogCancel>
-            <AlertDialogAction onClick={() => onCancelSession(session.id)} className="bg-red-500 hover:bg-red-600">
+            <AlertDialogAction onClick={() => onCancelSession(session.id, session.seriesId ? cancelScope : undefined)} className="bg-red-500 hover:bg-red-600">
               Sim, cancelar
             </AlertDialogAction>
           </AlertDialogFooter>
@@ -13,11 +13,20 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/feedback/p
 import { Calendar } from '@/components/data-display/calendar'; // Updated
 import { CalendarIcon, Loader2, Clock, Info, Check } from 'lucide-react';
 import { cn } from '@/lib/utils'; // Correct
-import { apiRequest } from '@/lib/queryClient'; // Correct
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast'; // Correct
+import { sessionValidationSchema } from '@shared/schema';
+import {
+  createSession, createSessionSeries, updateSession, fetchActiveTrainers, fetchStudentOptions,
+  getSessionErrorMessage, SessionPayload, TrainerOption, StudentOption,
+} from '../services/sessionServices';
+import { fetchTrainersForSlot } from '../services/trainerServices';
+import { SeriesScopeOptions } from './SeriesScopeOptions';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/navigation/tabs'; // Updated
 import { Label } from '@/components/inputs/label'; // Updated
-import { Avatar } from '@/components/data-display/avatar'; // Updated
+import { Avatar, AvatarFallback } from '@/components/data-display/avatar'; // Updated
+import { Switch } from '@/components/inputs/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/inputs/toggle-group';
 // Badge was not used in the provided code, so import can be removed or kept if planned for future use
 // import { Badge } from '@/components/data-display/badge'; // Updated
 
@@ -26,54 +35,70 @@ const sessionFormSchema = z.object({
   startTime: z.string({ required_error: "O horário de início é obrigatório." }),
   endTime: z.string({ required_error: "O horário de término é obrigatório." }),
   location: z.string().min(1, "O local é obrigatório."),
+  price: z.string().optional().refine(value => !value || (!isNaN(Number(value.replace(',', '.'))) && Number(value.replace(',', '.')) >= 0), "Informe um valor válido."),
   source: z.enum(["Favale", "Pink"], { required_error: "A origem é obrigatória." }),
   studentId: z.string().min(1, "Um aluno deve ser selecionado."),
   trainerId: z.string().min(1, "Um professor deve ser selecionado."),
   notes: z.string().optional(),
+  // Recorrência (apenas na criação)
+  repeat: z.boolean().optional(),
+  weekdays: z.array(z.string()).optional(),
+  intervalWeeks: z.string().optional(),
+  endMode: z.enum(["count", "date"]).optional(),
+  occurrenceCount: z.string().optional(),
+  untilDate: z.date().optional(),
+  // Alcance da edição de uma sessão recorrente
+  scope: z.enum(["this", "following", "all"]).optional(),
   _tab: z.string().optional(), // For controlling tabs, not part of schema
 }).refine(data => {
   const startDateTime = new Date(`${format(data.date, 'yyyy-MM-dd')}T${data.startTime}`);
   const endDateTime = new Date(`${format(data.date, 'yyyy-MM-dd')}T${data.endTime}`);
   return endDateTime > startDateTime;
-}, { message: "O horário de término deve ser depois do horário de início.", path: ["endTime"] });
+}, { message: "O horário de término deve ser depois do horário de início.", path: ["endTime"] })
+.refine(data => !data.repeat || (data.weekdays?.length ?? 0) > 0, { message: "Selecione ao menos um dia da semana.", path: ["weekdays"] })
+.refine(data => !data.repeat || (data.endMode === 'date' ? !!data.untilDate : parseInt(data.occurrenceCount || '') > 0), {
+  message: "Informe quando a recorrência termina.", path: ["occurrenceCount"],
+});
 
 type SessionFormValues = z.infer<typeof sessionFormSchema>;
-type TrainerOption = { id: string; name: string; };
-type StudentOption = { id: string; name: string; source: string; };
-type SessionFormProps = { defaultValues?: Partial<SessionFormValues>; sessionId?: number; onSuccess: () => void; };
+type SessionFormProps = { defaultValues?: Partial<SessionFormValues>; sessionId?: number; seriesId?: number; onSuccess: () => void; };
 
-export function SessionForm({ defaultValues, sessionId, onSuccess }: SessionFormProps) {
+const weekdayOptions = [
+  { value: '0', label: 'Dom' }, { value: '1', label: 'Seg' }, { value: '2', label: 'Ter' }, { value: '3', label: 'Qua' },
+  { value: '4', label: 'Qui' }, { value: '5', label: 'Sex' }, { value: '6', label: 'Sáb' },
+];
+
+export function SessionForm({ defaultValues, sessionId, seriesId, onSuccess }: SessionFormProps) {
   const [isLoading, setIsLoading] = useState(false);
-  const [trainers, setTrainers] = useState<TrainerOption[]>([]);
-  const [students, setStudents] = useState<StudentOption[]>([]);
+  const queryClient = useQueryClient();
+  const { data: trainers = [] } = useQuery<TrainerOption[]>({ queryKey: ['activeTrainers'], queryFn: fetchActiveTrainers });
+  const { data: students = [] } = useQuery<StudentOption[]>({ queryKey: ['studentOptions'], queryFn: fetchStudentOptions });
   const [selectedSource, setSelectedSource] = useState<string>(defaultValues?.source || '');
   const [selectedStudent, setSelectedStudent] = useState<StudentOption | null>(null);
   const [selectedTrainer, setSelectedTrainer] = useState<TrainerOption | null>(null);
   const { toast } = useToast();
 
   const filteredStudents = selectedSource ? students.filter(student => student.source === selectedSource) : students;
+  const [specialty, setSpecialty] = useState('all');
+  const [slotLocation, setSlotLocation] = useState(defaultValues?.location || '');
 
   const form = useForm<SessionFormValues>({
     resolver: zodResolver(sessionFormSchema),
     defaultValues: {
-      date: new Date(), startTime: '09:00', endTime: '10:00', location: '', source: undefined,
-      studentId: '', trainerId: '', notes: '', ...defaultValues, _tab: 'basic'
+      date: new Date(), startTime: '09:00', endTime: '10:00', location: '', price: '', source: undefined,
+      studentId: '', trainerId: '', notes: '', repeat: false, weekdays: [], intervalWeeks: '1', endMode: 'count',
+      occurrenceCount: '8', scope: 'this', ...defaultValues, _tab: 'basic'
     },
   });
 
   useEffect(() => {
-    setTrainers([ { id: '201', name: 'Ana Silva' }, { id: '202', name: 'Pedro Costa' }, { id: '203', name: 'Juliana Ferreira' } ]);
-    setStudents([
-      { id: '101', name: 'Carlos Oliveira', source: 'Favale' }, { id: '102', name: 'Maria Santos', source: 'Pink' },
-      { id: '103', name: 'João Pereira', source: 'Favale' }, { id: '104', name: 'Rita Mendes', source: 'Pink' },
-    ]);
     if (defaultValues?.studentId) {
       const student = students.find(s => s.id === defaultValues.studentId); if (student) setSelectedStudent(student);
     }
     if (defaultValues?.trainerId) {
       const trainer = trainers.find(t => t.id === defaultValues.trainerId); if (trainer) setSelectedTrainer(trainer);
     }
-  }, [defaultValues, students, trainers]); // Added students & trainers to dep array, though they are static mocks here
+  }, [defaultValues, students, trainers]);
 
   useEffect(() => {
     const subscription = form.watch((value, { name }) => {
@@ -84,6 +109,31 @@ export function SessionForm({ defaultValues, sessionId, onSuccess }: SessionForm
     return () => subscription.unsubscribe();
   }, [form, students, trainers]); // form.watch is stable, added form to dep array
 
+  // Only trainers free and qualified for the chosen slot and location are offered (first occurrence for series)
+  const [watchedDate, watchedStart, watchedEnd, watchedLocation] = form.watch(['date', 'startTime', 'endTime', 'location']);
+  useEffect(() => {
+    const timeout = setTimeout(() => setSlotLocation((watchedLocation || '').trim()), 400); // Wait for the user to stop typing
+    return () => clearTimeout(timeout);
+  }, [watchedLocation]);
+  const slotStart = watchedDate && watchedStart ? new Date(`${format(watchedDate, 'yyyy-MM-dd')}T${watchedStart}`) : null;
+  const slotEnd = watchedDate && watchedEnd ? new Date(`${format(watchedDate, 'yyyy-MM-dd')}T${watchedEnd}`) : null;
+  const hasValidSlot = !!slotStart && !!slotEnd && !isNaN(slotStart.getTime()) && !isNaN(slotEnd.getTime()) && slotEnd > slotStart;
+  const { data: slotTrainers } = useQuery({
+    queryKey: ['trainersForSlot', slotStart?.toISOString(), slotEnd?.toISOString(), slotLocation, specialty, sessionId],
+    queryFn: () => fetchTrainersForSlot({
+      startTime: slotStart!.toISOString(),
+      endTime: slotEnd!.toISOString(),
+      location: slotLocation || undefined,
+      specialty: specialty !== 'all' ? specialty : undefined,
+      excludeSessionId: sessionId,
+    }),
+    enabled: hasValidSlot,
+    staleTime: 30 * 1000,
+  });
+  const specialtyOptions = Array.from(new Set((slotTrainers || []).flatMap(t => t.specialties))).sort();
+  const unavailableTrainers = (slotTrainers || []).filter(t => !t.available);
+  const selectedTrainerCheck = slotTrainers?.find(t => String(t.id) === form.watch('trainerId'));
+
   const availableTimes = ["08:00", "08:30", "09:00", "09:30", "10:00", "10:30", "11:00", "11:30", "12:00", "12:30", "13:00", "13:30", "14:00", "14:30", "15:00", "15:30", "16:00", "16:30", "17:00", "17:30", "18:00", "18:30", "19:00", "19:30"];
 
   const onSubmitHandler = async (values: SessionFormValues) => { // Renamed from onSubmit to avoid conflict
@@ -91,19 +141,52 @@ export function SessionForm({ defaultValues, sessionId, onSuccess }: SessionForm
     try {
       const startDateTime = new Date(`${format(values.date, 'yyyy-MM-dd')}T${values.startTime}`);
       const endDateTime = new Date(`${format(values.date, 'yyyy-MM-dd')}T${values.endTime}`);
-      const sessionData = {
+      const sessionData: SessionPayload = {
         startTime: startDateTime.toISOString(), endTime: endDateTime.toISOString(), location: values.location,
         source: values.source, studentId: parseInt(values.studentId), trainerId: parseInt(values.trainerId),
-        notes: values.notes || undefined, status: 'scheduled',
+        notes: values.notes || undefined, status: 'agendado',
+        price: values.price ? Number(values.price.replace(',', '.')) : null,
       };
-      console.log('Enviando dados para API:', sessionData);
-      // API call simulation
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate API call
-      toast({ title: sessionId ? 'Sessão atualizada' : 'Sessão agendada', description: 'Operação realizada com sucesso (simulado).' });
+      const validation = sessionValidationSchema.safeParse(sessionData);
+      if (!validation.success) {
+        toast({ title: 'Dados inválidos', description: validation.error.errors[0]?.message, variant: 'destructive' });
+        return;
+      }
+
+      let successTitle = sessionId ? 'Sessão atualizada' : 'Sessão agendada';
+      let successDescription = 'Operação realizada com sucesso.';
+      if (sessionId) {
+        const slotChanged = defaultValues?.date && (
+          format(defaultValues.date, 'yyyy-MM-dd') !== format(values.date, 'yyyy-MM-dd') ||
+          defaultValues.startTime !== values.startTime || defaultValues.endTime !== values.endTime
+        );
+        const scope = seriesId ? values.scope : undefined;
+        // A new slot goes in the same PATCH, so the server checks it against the new trainer and records one change
+        const { status, startTime, endTime, ...details } = sessionData;
+        await updateSession(sessionId, slotChanged ? { ...details, startTime, endTime } : details, scope);
+      } else if (values.repeat) {
+        const { status, ...seriesData } = sessionData;
+        const { skipped, sessions } = await createSessionSeries({
+          ...seriesData,
+          weekdays: (values.weekdays || []).map(Number),
+          intervalWeeks: parseInt(values.intervalWeeks || '1'),
+          untilDate: values.endMode === 'date' && values.untilDate ? format(values.untilDate, 'yyyy-MM-dd') : undefined,
+          occurrenceCount: values.endMode === 'count' ? parseInt(values.occurrenceCount || '') : undefined,
+        });
+        successTitle = `${sessions.length} sessões agendadas`;
+        if (skipped.length > 0) {
+          successDescription = `${skipped.length} data(s) puladas: ${skipped.map(o => `${format(new Date(`${o.date}T12:00:00`), 'dd/MM')} (${o.reason === 'holiday' ? o.detail : 'conflito'})`).join(', ')}`;
+        }
+      } else {
+        await createSession(sessionData);
+      }
+      await queryClient.invalidateQueries({ queryKey: ['sessionsList'] });
+      await queryClient.invalidateQueries({ queryKey: ['todaySessions'] });
+      toast({ title: successTitle, description: successDescription });
       onSuccess();
     } catch (error) {
       console.error('Erro ao salvar sessão:', error);
-      toast({ title: 'Erro', description: 'Ocorreu um erro ao salvar a sessão.', variant: 'destructive' });
+      toast({ title: 'Erro', description: getSessionErrorMessage(error), variant: 'destructive' });
     } finally {
       setIsLoading(false);
     }
@@ -125,7 +208,6 @@ export function SessionForm({ defaultValues, sessionId, onSuccess }: SessionForm
     return () => subscription.unsubscribe();
   }, [form]); // form.watch is stable, added form
 
-  // Simplified JSX structure for brevity, focusing on ensuring FormField and other components use updated imports
   return (
     <div className="animate-in fade-in-50 duration-300">
       <Tabs defaultValue="basic" onValueChange={(value) => form.setValue('_tab', value)} value={form.watch('_tab')} className="w-full mt-1">
@@ -136,20 +218,256 @@ export function SessionForm({ defaultValues, sessionId, onSuccess }: SessionForm
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmitHandler)} className="space-y-4">
             <TabsContent value="basic" className="space-y-4 pt-2">
-              <FormField control={form.control} name="source" render={({ field }) => ( <FormItem> {/* Source */} </FormItem> )} />
-              <FormField control={form.control} name="studentId" render={({ field }) => ( <FormItem> {/* Student */} </FormItem> )} />
-              <FormField control={form.control} name="trainerId" render={({ field }) => ( <FormItem> {/* Trainer */} </FormItem> )} />
-              <FormField control={form.control} name="date" render={({ field }) => ( <FormItem className="flex flex-col"> {/* Date */} </FormItem> )} />
+              <FormField control={form.control} name="source" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Origem</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue placeholder="Selecione a origem" /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      <SelectItem value="Favale">Favale</SelectItem>
+                      <SelectItem value="Pink">Pink</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="studentId" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Aluno</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue placeholder="Selecione o aluno" /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      {filteredStudents.map(student => (
+                        <SelectItem key={student.id} value={student.id}>{student.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="date" render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Data</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button variant="outline" className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}>
+                          {field.value ? format(field.value, "PPP", { locale: ptBR }) : <span>Selecione uma data</span>}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar mode="single" selected={field.value} onSelect={field.onChange} locale={ptBR} initialFocus />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )} />
               <div className="grid grid-cols-2 gap-4">
-                <FormField control={form.control} name="startTime" render={({ field }) => ( <FormItem> {/* Start Time */} </FormItem> )} />
-                <FormField control={form.control} name="endTime" render={({ field }) => ( <FormItem> {/* End Time */} </FormItem> )} />
+                <FormField control={form.control} name="startTime" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Início</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl><SelectTrigger><Clock className="mr-2 h-4 w-4 opacity-50" /><SelectValue placeholder="Início" /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        {availableTimes.map(time => <SelectItem key={time} value={time}>{time}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name="endTime" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Término</FormLabel>
+                    <FormControl><Input type="time" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
               </div>
-              <FormField control={form.control} name="location" render={({ field }) => ( <FormItem> {/* Location */} </FormItem> )} />
+              <FormField control={form.control} name="location" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Local</FormLabel>
+                  <FormControl><Input placeholder="Ex: Academia Central, Parque Ibirapuera..." {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              {specialtyOptions.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Modalidade</Label>
+                  <Select value={specialty} onValueChange={setSpecialty}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Qualquer modalidade</SelectItem>
+                      {specialtyOptions.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <FormField control={form.control} name="trainerId" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Professor</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue placeholder="Selecione o professor" /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      {slotTrainers ? (
+                        <>
+                          {slotTrainers.filter(t => t.available).map(trainer => (
+                            <SelectItem key={trainer.id} value={String(trainer.id)}>{trainer.name}</SelectItem>
+                          ))}
+                          {unavailableTrainers.map(trainer => (
+                            <SelectItem key={trainer.id} value={String(trainer.id)} disabled>
+                              {trainer.name} ({trainer.reasons.join(', ').toLowerCase()})
+                            </SelectItem>
+                          ))}
+                        </>
+                      ) : trainers.map(trainer => (
+                        <SelectItem key={trainer.id} value={trainer.id}>{trainer.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedTrainerCheck && !selectedTrainerCheck.available ? (
+                    <p className="text-sm text-destructive">Professor indisponível: {selectedTrainerCheck.reasons.join(', ').toLowerCase()}.</p>
+                  ) : slotTrainers && (
+                    <FormDescription>
+                      {slotTrainers.length - unavailableTrainers.length} de {slotTrainers.length} professor(es) disponível(is) neste horário e local.
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="price" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Valor da sessão (R$)</FormLabel>
+                  <FormControl><Input inputMode="decimal" placeholder="Ex: 120,00" {...field} /></FormControl>
+                  <FormDescription>Usado nos relatórios de sessões.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )} />
               <div className="pt-4 flex justify-end"> <Button type="button" onClick={() => form.setValue('_tab', 'details')}>Próximo</Button> </div>
             </TabsContent>
             <TabsContent value="details" className="space-y-4 pt-2">
               {/* Summary Section */}
-              <FormField control={form.control} name="notes" render={({ field }) => ( <FormItem> {/* Notes */} </FormItem> )} />
+              <div className="rounded-md border p-3 space-y-2 text-sm">
+                <div className="flex items-center gap-2 font-medium"><Info className="h-4 w-4 text-muted-foreground" /> Resumo</div>
+                <div className="flex items-center gap-2">
+                  <Avatar className="h-6 w-6"><AvatarFallback className="text-xs">{selectedStudent?.name.charAt(0) || '?'}</AvatarFallback></Avatar>
+                  <Label>Aluno:</Label> <span>{selectedStudent?.name || '—'}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Avatar className="h-6 w-6"><AvatarFallback className="text-xs">{selectedTrainer?.name.charAt(0) || '?'}</AvatarFallback></Avatar>
+                  <Label>Professor:</Label> <span>{selectedTrainer?.name || '—'}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Check className="h-4 w-4 text-muted-foreground" />
+                  <span>
+                    {form.watch('date') ? format(form.watch('date'), "PPP", { locale: ptBR }) : ''} · {form.watch('startTime')} - {form.watch('endTime')}
+                  </span>
+                </div>
+              </div>
+              {!sessionId && (
+                <div className="rounded-md border p-3 space-y-3">
+                  <FormField control={form.control} name="repeat" render={({ field }) => (
+                    <FormItem className="flex items-center justify-between">
+                      <div>
+                        <FormLabel>Repetir semanalmente</FormLabel>
+                        <FormDescription>Gera as sessões do pacote, pulando feriados e horários ocupados.</FormDescription>
+                      </div>
+                      <FormControl><Switch checked={!!field.value} onCheckedChange={field.onChange} /></FormControl>
+                    </FormItem>
+                  )} />
+                  {form.watch('repeat') && (
+                    <>
+                      <FormField control={form.control} name="weekdays" render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Dias da semana</FormLabel>
+                          <FormControl>
+                            <ToggleGroup type="multiple" variant="outline" value={field.value} onValueChange={field.onChange} className="justify-start flex-wrap">
+                              {weekdayOptions.map(day => <ToggleGroupItem key={day.value} value={day.value}>{day.label}</ToggleGroupItem>)}
+                            </ToggleGroup>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField control={form.control} name="intervalWeeks" render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Frequência</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                              <SelectContent>
+                                <SelectItem value="1">Toda semana</SelectItem>
+                                <SelectItem value="2">A cada 2 semanas</SelectItem>
+                                <SelectItem value="3">A cada 3 semanas</SelectItem>
+                                <SelectItem value="4">A cada 4 semanas</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )} />
+                        <FormField control={form.control} name="endMode" render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Termina</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                              <SelectContent>
+                                <SelectItem value="count">Após N sessões</SelectItem>
+                                <SelectItem value="date">Em uma data</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )} />
+                      </div>
+                      {form.watch('endMode') === 'date' ? (
+                        <FormField control={form.control} name="untilDate" render={({ field }) => (
+                          <FormItem className="flex flex-col">
+                            <FormLabel>Data final</FormLabel>
+                            <Popover>
+                              <PopoverTrigger asChild>
+                                <FormControl>
+                                  <Button variant="outline" className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}>
+                                    {field.value ? format(field.value, "PPP", { locale: ptBR }) : <span>Selecione uma data</span>}
+                                    <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                                  </Button>
+                                </FormControl>
+                              </PopoverTrigger>
+                              <PopoverContent className="w-auto p-0" align="start">
+                                <Calendar mode="single" selected={field.value} onSelect={field.onChange} locale={ptBR} initialFocus />
+                              </PopoverContent>
+                            </Popover>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
+                      ) : (
+                        <FormField control={form.control} name="occurrenceCount" render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Número de sessões</FormLabel>
+                            <FormControl><Input type="number" min={1} max={200} {...field} /></FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+              {seriesId && (
+                <FormField control={form.control} name="scope" render={({ field }) => (
+                  <FormItem className="rounded-md border p-3">
+                    <FormLabel>Esta sessão faz parte de uma série. Aplicar alterações a:</FormLabel>
+                    <FormControl>
+                      <SeriesScopeOptions value={field.value || 'this'} onChange={field.onChange} idPrefix="scope-form" className="pt-1" />
+                    </FormControl>
+                  </FormItem>
+                )} />
+              )}
+              <FormField control={form.control} name="notes" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Observações</FormLabel>
+                  <FormControl><Textarea placeholder="Informações adicionais sobre a sessão" className="resize-none" {...field} /></FormControl>
+                  <FormDescription>Opcional.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )} />
               <div className="pt-4 flex justify-between">
                 <Button type="button" variant="outline" onClick={() => form.setValue('_tab', 'basic')}>Voltar</Button>
                 <Button type="submit" disabled={isLoading} className="bg-[#ff9810] hover:bg-[#ff9810]/90 text-white">
@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/navigation/tabs'; // Updated
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/data-display/Card'; // Updated
 import { Button } from '@/components/inputs/Button'; // Updated
@@ -6,100 +7,42 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/f
 import { SessionTable } from './SessionTable';
 import { SessionForm } from './SessionForm';
 import { SessionReport } from './SessionReport';
+import { StudentBilling } from './StudentBilling';
+import { TrainerManagement } from './TrainerManagement';
 import { Plus, Calendar, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Link } from 'wouter';
 import { Skeleton } from '@/components/data-display/skeleton'; // Updated
-
-type SessionStatus = 'scheduled' | 'completed' | 'cancelled' | 'no-show';
-
-interface Session {
-  id: number;
-  startTime: Date;
-  endTime: Date;
-  location: string;
-  source: 'Favale' | 'Pink';
-  notes?: string;
-  status: SessionStatus;
-  studentId: string;
-  studentName: string;
-  trainerId: string;
-  trainerName: string;
-  calendarEventId?: string;
-}
+import { fetchSessionDetails, ScheduledSession } from '../services/sessionServices';
 
 export function SessionManagement() {
-  const [sessions, setSessions] = useState<Session[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [formDialogOpen, setFormDialogOpen] = useState(false);
   const { toast } = useToast();
   
-  // Mock data de sessões - a ser substituído por chamadas à API
-  useEffect(() => {
-    // Simular carregamento de dados da API
-    setIsLoading(true);
-    setTimeout(() => {
-      setSessions([
-        {
-          id: 1,
-          startTime: new Date(new Date().setHours(9, 0, 0, 0)),
-          endTime: new Date(new Date().setHours(10, 0, 0, 0)),
-          location: 'Casa',
-          source: 'Favale',
-          notes: 'Foco em treinamento de força',
-          status: 'scheduled',
-          studentId: '101',
-          studentName: 'Carlos Oliveira',
-          trainerId: '201',
-          trainerName: 'André Silva',
-          calendarEventId: 'event123',
-        },
-        {
-          id: 2,
-          startTime: new Date(new Date().setHours(15, 0, 0, 0)),
-          endTime: new Date(new Date().setHours(16, 0, 0, 0)),
-          location: 'Bodytech Iguatemi',
-          source: 'Pink',
-          notes: 'Treino de cardio e flexibilidade',
-          status: 'scheduled',
-          studentId: '102',
-          studentName: 'Maria Santos',
-          trainerId: '202',
-          trainerName: 'Michelle Amorim',
-        },
-        {
-          id: 3,
-          startTime: new Date(new Date().setDate(new Date().getDate() + 1)),
-          endTime: new Date(new Date().setDate(new Date().getDate() + 1)),
-          location: 'Bodytech Eldourado',
-          source: 'Favale',
-          status: 'scheduled',
-          studentId: '103',
-          studentName: 'João Pereira',
-          trainerId: '201',
-          trainerName: 'Gabriel Tonini',
-          calendarEventId: 'event456',
-        },
-      ]);
-      setIsLoading(false);
-    }, 1000);
-  }, []);
+  const { data: sessions = [], isLoading, refetch } = useQuery<ScheduledSession[]>({
+    queryKey: ['sessionsList'],
+    queryFn: fetchSessionDetails,
+  });
 
   // Atualizar sessões (para ser chamado após ações como criar, atualizar, etc.)
-  const refreshSessions = () => {
-    // Simular recarregamento de dados da API
+  const refreshSessions = async () => {
     setIsRefreshing(true);
+    const { error } = await refetch();
+    setIsRefreshing(false);
     
-    setTimeout(() => {
-      // Aqui você faria uma nova chamada à API
-      setIsRefreshing(false);
-      
+    if (error) {
       toast({
-        title: 'Dados atualizados',
-        description: 'As sessões foram atualizadas com sucesso.',
+        title: 'Erro ao atualizar',
+        description: 'Não foi possível carregar as sessões.',
+        variant: 'destructive',
       });
-    }, 800);
+      return;
+    }
+    toast({
+      title: 'Dados atualizados',
+      description: 'As sessões foram atualizadas com sucesso.',
+    });
   };
 
   const handleAddSessionSuccess = () => {
@@ -118,6 +61,12 @@ export function SessionManagement() {
             <TabsTrigger value="reports" className="text-sm data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700 rounded-md">
               Relatórios
             </TabsTrigger>
+            <TabsTrigger value="billing" className="text-sm data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700 rounded-md">
+              Financeiro
+            </TabsTrigger>
+            <TabsTrigger value="trainers" className="text-sm data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700 rounded-md">
+              Professores
+            </TabsTrigger>
           </TabsList>
           
           <div className="flex gap-2">
@@ -203,6 +152,46 @@ export function SessionManagement() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="billing" className="space-y-4">
+          <Card className="border-gray-100 dark:border-gray-800 shadow-sm rounded-xl overflow-hidden">
+            <CardHeader className="bg-gray-50/80 dark:bg-gray-800/20 pb-3">
+              <div className="flex justify-between items-center">
+                <div>
+                  <CardTitle className="text-lg font-medium text-gray-800 dark:text-white">
+                    Financeiro dos Alunos
+                  </CardTitle>
+                  <CardDescription className="text-gray-500 dark:text-gray-400 mt-1">
+                    Saldos, pacotes de sessões e pagamentos de cada aluno.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="pt-4">
+              <StudentBilling />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="trainers" className="space-y-4">
+          <Card className="border-gray-100 dark:border-gray-800 shadow-sm rounded-xl overflow-hidden">
+            <CardHeader className="bg-gray-50/80 dark:bg-gray-800/20 pb-3">
+              <div className="flex justify-between items-center">
+                <div>
+                  <CardTitle className="text-lg font-medium text-gray-800 dark:text-white">
+                    Professores
+                  </CardTitle>
+                  <CardDescription className="text-gray-500 dark:text-gray-400 mt-1">
+                    Cadastro, especialidades, locais atendidos, disponibilidade e folgas.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="pt-4">
+              <TrainerManagement />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
       {/* Dialog para adicionar nova sessão */}
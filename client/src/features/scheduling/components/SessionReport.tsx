@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { format, startOfMonth, endOfMonth, sub, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/navigation/tabs'; // Updated
@@ -27,112 +28,93 @@ import { Badge } from '@/components/data-display/badge'; // Updated
 import { CalendarIcon, Download, Printer } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import {
+  SessionDbStatus, SessionReport as SessionReportData, SessionReportGroupBy, StudentOption, TrainerOption,
+  fetchActiveTrainers, fetchSessionReport, fetchStudentOptions, formatDuration, getSessionErrorMessage,
+} from '../services/sessionServices';
+
+const statusLabels: Record<SessionDbStatus, string> = {
+  agendado: 'Agendada',
+  concluído: 'Concluída',
+  cancelado: 'Cancelada',
+  remarcado: 'Remarcada',
+};
 
-type StudentOption = {
-  id: string;
-  name: string;
-  source: 'Favale' | 'Pink';
+const groupTitles: Record<SessionReportGroupBy, string> = {
+  student: 'Resumo por aluno',
+  period: 'Resumo por mês',
+  category: 'Resumo por categoria',
 };
 
-type ReportSession = {
-  id: number;
-  date: string;
-  startTime: string;
-  endTime: string;
-  duration: string;
-  trainerName: string;
-  source: 'Favale' | 'Pink';
-  status: string;
-  location: string;
-  value: number;
+const tabGroupBy: Record<string, SessionReportGroupBy> = {
+  'by-student': 'student',
+  'by-period': 'period',
+  'by-category': 'category',
+};
+
+const formatMoney = (value: number) => `R$ ${value.toFixed(2)}`;
+
+// Quotes fields for the ;-separated CSV opened by Excel in Portuguese
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
 };
 
 export function SessionReport() {
+  const [activeTab, setActiveTab] = useState<string>('by-student');
   const [selectedStudent, setSelectedStudent] = useState<string>("");
   const [fromDate, setFromDate] = useState<Date>(startOfMonth(new Date()));
   const [toDate, setToDate] = useState<Date>(endOfMonth(new Date()));
   const [selectedSource, setSelectedSource] = useState<string>("");
-  const [reportData, setReportData] = useState<ReportSession[]>([]);
+  const [selectedTrainer, setSelectedTrainer] = useState<string>("all");
+  const [selectedStatus, setSelectedStatus] = useState<string>("concluído");
+  const [report, setReport] = useState<SessionReportData | null>(null);
+  const [reportGroupBy, setReportGroupBy] = useState<SessionReportGroupBy>('student');
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
   
-  // Mock data de estudantes
-  const students: StudentOption[] = [
-    { id: '101', name: 'Carlos Oliveira', source: 'Favale' },
-    { id: '102', name: 'Maria Santos', source: 'Pink' },
-    { id: '103', name: 'João Pereira', source: 'Favale' },
-    { id: '104', name: 'Rita Mendes', source: 'Pink' },
-  ];
+  const { data: students = [] } = useQuery<StudentOption[]>({ queryKey: ['studentOptions'], queryFn: fetchStudentOptions });
+  const { data: trainers = [] } = useQuery<TrainerOption[]>({ queryKey: ['activeTrainers'], queryFn: fetchActiveTrainers });
+  
+  const sourceFilter = selectedSource === 'Favale' || selectedSource === 'Pink' ? selectedSource : undefined;
+  const reportData = report?.sessions || [];
   
   // Filtrar alunos baseado na fonte selecionada
-  const filteredStudents = selectedSource 
-    ? students.filter(student => student.source === selectedSource) 
+  const filteredStudents = sourceFilter 
+    ? students.filter(student => student.source === sourceFilter) 
     : students;
   
   // Função para gerar relatório
-  const generateReport = () => {
+  const generateReport = async () => {
+    const groupBy = tabGroupBy[activeTab] || 'period';
     setIsLoading(true);
-    
-    // Simular busca de dados da API
-    setTimeout(() => {
-      // Mock de dados para relatório
-      setReportData([
-        {
-          id: 1,
-          date: '2023-05-10',
-          startTime: '09:00',
-          endTime: '10:00',
-          duration: '1h',
-          trainerName: 'Ana Silva',
-          source: 'Favale',
-          status: 'Concluída',
-          location: 'Academia Central',
-          value: 120,
-        },
-        {
-          id: 2,
-          date: '2023-05-17',
-          startTime: '09:00',
-          endTime: '10:00',
-          duration: '1h',
-          trainerName: 'Ana Silva',
-          source: 'Favale',
-          status: 'Concluída',
-          location: 'Academia Central',
-          value: 120,
-        },
-        {
-          id: 3,
-          date: '2023-05-24',
-          startTime: '09:00',
-          endTime: '10:00',
-          duration: '1h',
-          trainerName: 'Ana Silva',
-          source: 'Favale',
-          status: 'Concluída',
-          location: 'Academia Central',
-          value: 120,
-        },
-        {
-          id: 4,
-          date: '2023-05-31',
-          startTime: '09:00',
-          endTime: '10:00',
-          duration: '1h',
-          trainerName: 'Pedro Costa',
-          source: 'Favale',
-          status: 'Concluída',
-          location: 'Academia Sul',
-          value: 120,
-        },
-      ]);
-      
-      setIsLoading(false);
+    try {
+      const data = await fetchSessionReport({
+        groupBy,
+        from: format(fromDate, 'yyyy-MM-dd'),
+        to: format(toDate, 'yyyy-MM-dd'),
+        studentId: groupBy === 'student' ? selectedStudent : undefined,
+        trainerId: selectedTrainer !== 'all' ? selectedTrainer : undefined,
+        source: sourceFilter,
+        status: selectedStatus !== 'all' ? selectedStatus as SessionDbStatus : undefined,
+      });
+      setReport(data);
+      setReportGroupBy(groupBy);
       toast({
         title: 'Relatório gerado',
-        description: 'O relatório foi gerado com sucesso!',
+        description: data.sessions.length > 0
+          ? `${data.sessions.length} sessão(ões) encontrada(s).`
+          : 'Nenhuma sessão encontrada com os filtros selecionados.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao gerar relatório',
+        description: getSessionErrorMessage(error, 'Não foi possível gerar o relatório.'),
+        variant: 'destructive',
       });
-    }, 1500);
+    } finally {
+      setIsLoading(false);
+    }
   };
   
   // Função para exportar relatório como CSV
@@ -147,29 +129,30 @@ export function SessionReport() {
     }
     
     // Criar cabeçalho CSV
-    const headers = ['ID', 'Data', 'Horário', 'Duração', 'Professor', 'Categoria', 'Status', 'Local', 'Valor'];
+    const headers = ['ID', 'Data', 'Horário', 'Duração', 'Aluno', 'Professor', 'Categoria', 'Status', 'Local', 'Valor'];
     
     // Formatar dados para CSV
     const dataRows = reportData.map(session => [
       session.id,
-      format(parseISO(session.date), 'dd/MM/yyyy'),
-      `${session.startTime} - ${session.endTime}`,
-      session.duration,
+      format(session.startTime, 'dd/MM/yyyy'),
+      `${format(session.startTime, 'HH:mm')} - ${format(session.endTime, 'HH:mm')}`,
+      formatDuration(session.durationMinutes),
+      session.studentName,
       session.trainerName,
       session.source,
-      session.status,
+      statusLabels[session.status] || session.status,
       session.location,
-      `R$ ${session.value.toFixed(2)}`,
+      session.price !== null ? formatMoney(session.price) : '',
     ]);
     
     // Combinar cabeçalho e linhas
     const csvContent = [
-      headers.join(','),
-      ...dataRows.map(row => row.join(','))
+      headers.join(';'),
+      ...dataRows.map(row => row.map(csvField).join(';'))
     ].join('\n');
     
     // Criar blob e link para download
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     
@@ -180,6 +163,7 @@ export function SessionReport() {
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
     
     toast({
       title: 'Relatório exportado',
@@ -208,7 +192,9 @@ export function SessionReport() {
   };
   
   // Calcular valor total do relatório
-  const totalValue = reportData.reduce((sum, session) => sum + session.value, 0);
+  const totalValue = report?.summary.totalValue ?? 0;
+  const totalMinutes = report?.summary.totalMinutes ?? 0;
+  const unpricedSessions = report?.summary.unpricedSessions ?? 0;
   
   // Atalhos rápidos para períodos
   const setPeriodPreset = (preset: string) => {
@@ -241,13 +227,120 @@ export function SessionReport() {
     <div className="space-y-6 print:m-6">
       {/* Opções de relatório - não imprime */}
       <div className="print:hidden">
-        <Tabs defaultValue="by-student">
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
           <TabsList>
             <TabsTrigger value="by-student">Por Aluno</TabsTrigger>
             <TabsTrigger value="by-period">Por Período</TabsTrigger>
             <TabsTrigger value="by-category">Por Categoria</TabsTrigger>
           </TabsList>
           
+          {/* Filtros comuns a todas as abas */}
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mt-4 mb-6">
+            <div>
+              <Label>Data Inicial</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant={"outline"}
+                    className={cn(
+                      "w-full justify-start text-left font-normal",
+                      !fromDate && "text-muted-foreground"
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {fromDate ? format(fromDate, "PPP", { locale: ptBR }) : <span>Selecione uma data</span>}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={fromDate}
+                    onSelect={(date) => setFromDate(date || startOfMonth(new Date()))}
+                    initialFocus
+                    locale={ptBR}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            
+            <div>
+              <Label>Data Final</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant={"outline"}
+                    className={cn(
+                      "w-full justify-start text-left font-normal",
+                      !toDate && "text-muted-foreground"
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {toDate ? format(toDate, "PPP", { locale: ptBR }) : <span>Selecione uma data</span>}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={toDate}
+                    onSelect={(date) => setToDate(date || endOfMonth(new Date()))}
+                    initialFocus
+                    locale={ptBR}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            
+            <div>
+              <Label>Período</Label>
+              <Select defaultValue="select" onValueChange={setPeriodPreset}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecionar" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="select">Selecionar período</SelectItem>
+                  <SelectItem value="current-month">Mês Atual</SelectItem>
+                  <SelectItem value="last-month">Mês Anterior</SelectItem>
+                  <SelectItem value="last-3-months">Últimos 3 Meses</SelectItem>
+                  <SelectItem value="current-year">Ano Atual</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div>
+              <Label htmlFor="trainer">Professor</Label>
+              <Select value={selectedTrainer} onValueChange={setSelectedTrainer}>
+                <SelectTrigger id="trainer">
+                  <SelectValue placeholder="Todos" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  {trainers.map((trainer) => (
+                    <SelectItem key={trainer.id} value={trainer.id}>
+                      {trainer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div>
+              <Label htmlFor="status">Status</Label>
+              <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+                <SelectTrigger id="status">
+                  <SelectValue placeholder="Todos" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  {(Object.keys(statusLabels) as SessionDbStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {statusLabels[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          
           <TabsContent value="by-student" className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div className="md:col-span-2">
@@ -293,78 +386,22 @@ export function SessionReport() {
           </TabsContent>
           
           <TabsContent value="by-period" className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
-              <div className="md:col-span-2">
-                <Label>Data Inicial</Label>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button
-                      variant={"outline"}
-                      className={cn(
-                        "w-full justify-start text-left font-normal",
-                        !fromDate && "text-muted-foreground"
-                      )}
-                    >
-                      <CalendarIcon className="mr-2 h-4 w-4" />
-                      {fromDate ? format(fromDate, "PPP", { locale: ptBR }) : <span>Selecione uma data</span>}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={fromDate}
-                      onSelect={(date) => setFromDate(date || startOfMonth(new Date()))}
-                      initialFocus
-                      locale={ptBR}
-                    />
-                  </PopoverContent>
-                </Popover>
-              </div>
-              
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div className="md:col-span-2">
-                <Label>Data Final</Label>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button
-                      variant={"outline"}
-                      className={cn(
-                        "w-full justify-start text-left font-normal",
-                        !toDate && "text-muted-foreground"
-                      )}
-                    >
-                      <CalendarIcon className="mr-2 h-4 w-4" />
-                      {toDate ? format(toDate, "PPP", { locale: ptBR }) : <span>Selecione uma data</span>}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={toDate}
-                      onSelect={(date) => setToDate(date || endOfMonth(new Date()))}
-                      initialFocus
-                      locale={ptBR}
-                    />
-                  </PopoverContent>
-                </Popover>
-              </div>
-              
-              <div>
-                <Label>Período</Label>
-                <Select defaultValue="select" onValueChange={setPeriodPreset}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Selecionar" />
+                <Label htmlFor="period-source">Categoria</Label>
+                <Select value={selectedSource} onValueChange={setSelectedSource}>
+                  <SelectTrigger id="period-source">
+                    <SelectValue placeholder="Todas" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="select">Selecionar período</SelectItem>
-                    <SelectItem value="current-month">Mês Atual</SelectItem>
-                    <SelectItem value="last-month">Mês Anterior</SelectItem>
-                    <SelectItem value="last-3-months">Últimos 3 Meses</SelectItem>
-                    <SelectItem value="current-year">Ano Atual</SelectItem>
+                    <SelectItem value="all">Todas</SelectItem>
+                    <SelectItem value="Favale">Favale</SelectItem>
+                    <SelectItem value="Pink">Pink</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
               
-              <div className="flex items-end">
+              <div className="md:col-span-2 flex items-end">
                 <Button 
                   onClick={generateReport} 
                   disabled={!fromDate || !toDate || isLoading}
@@ -416,14 +453,24 @@ export function SessionReport() {
                 <p className="text-muted-foreground">
                   Período: {format(fromDate, "dd/MM/yyyy")} - {format(toDate, "dd/MM/yyyy")}
                 </p>
-                {selectedStudent && (
+                {reportGroupBy === 'student' && selectedStudent && (
+                  <p className="text-muted-foreground">
+                    Aluno: {students.find(s => s.id === selectedStudent)?.name || reportData[0]?.studentName}
+                  </p>
+                )}
+                {sourceFilter && (
                   <p className="text-muted-foreground">
-                    Aluno: {students.find(s => s.id === selectedStudent)?.name || selectedStudent}
+                    Categoria: {sourceFilter}
                   </p>
                 )}
-                {selectedSource && (
+                {selectedTrainer !== 'all' && (
                   <p className="text-muted-foreground">
-                    Categoria: {selectedSource}
+                    Professor: {trainers.find(t => t.id === selectedTrainer)?.name}
+                  </p>
+                )}
+                {selectedStatus !== 'all' && (
+                  <p className="text-muted-foreground">
+                    Status: {statusLabels[selectedStatus as SessionDbStatus]}
                   </p>
                 )}
               </div>
@@ -442,6 +489,36 @@ export function SessionReport() {
             </div>
           </div>
           
+          {/* Subtotais do agrupamento */}
+          {report && report.groups.length > 1 && (
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{groupTitles[reportGroupBy]}</TableHead>
+                    <TableHead className="text-right">Sessões</TableHead>
+                    <TableHead className="text-right">Horas</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.groups.map((group) => (
+                    <TableRow key={group.key}>
+                      <TableCell>
+                        {reportGroupBy === 'period'
+                          ? format(parseISO(`${group.key}-01`), "MMMM 'de' yyyy", { locale: ptBR })
+                          : group.label}
+                      </TableCell>
+                      <TableCell className="text-right">{group.sessions}</TableCell>
+                      <TableCell className="text-right">{formatDuration(group.minutes)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatMoney(group.value)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          
           {/* Tabela de resultados */}
           <div className="border rounded-md">
             <Table>
@@ -449,8 +526,10 @@ export function SessionReport() {
                 <TableRow>
                   <TableHead>Data</TableHead>
                   <TableHead>Horário</TableHead>
+                  <TableHead>Aluno</TableHead>
                   <TableHead>Professor</TableHead>
                   <TableHead>Categoria</TableHead>
+                  <TableHead>Status</TableHead>
                   <TableHead>Local</TableHead>
                   <TableHead className="text-right">Valor</TableHead>
                 </TableRow>
@@ -458,10 +537,11 @@ export function SessionReport() {
               <TableBody>
                 {reportData.map((session) => (
                   <TableRow key={session.id}>
-                    <TableCell>{format(parseISO(session.date), 'dd/MM/yyyy')}</TableCell>
+                    <TableCell>{format(session.startTime, 'dd/MM/yyyy')}</TableCell>
                     <TableCell>
-                      {session.startTime} - {session.endTime} ({session.duration})
+                      {format(session.startTime, 'HH:mm')} - {format(session.endTime, 'HH:mm')} ({formatDuration(session.durationMinutes)})
                     </TableCell>
+                    <TableCell>{session.studentName}</TableCell>
                     <TableCell>{session.trainerName}</TableCell>
                     <TableCell>
                       <Badge 
@@ -473,18 +553,19 @@ export function SessionReport() {
                         {session.source}
                       </Badge>
                     </TableCell>
+                    <TableCell>{statusLabels[session.status] || session.status}</TableCell>
                     <TableCell>{session.location}</TableCell>
                     <TableCell className="text-right font-medium">
-                      R$ {session.value.toFixed(2)}
+                      {session.price !== null ? formatMoney(session.price) : <span className="text-muted-foreground font-normal">sem valor</span>}
                     </TableCell>
                   </TableRow>
                 ))}
                 <TableRow className="font-bold">
-                  <TableCell colSpan={5} className="text-right">
+                  <TableCell colSpan={7} className="text-right">
                     Total:
                   </TableCell>
                   <TableCell className="text-right">
-                    R$ {totalValue.toFixed(2)}
+                    {formatMoney(totalValue)}
                   </TableCell>
                 </TableRow>
               </TableBody>
@@ -501,13 +582,18 @@ export function SessionReport() {
                 </div>
                 <div>
                   <h4 className="text-sm font-medium text-muted-foreground">Total de Horas</h4>
-                  <p className="text-2xl font-bold">{reportData.length}h</p>
+                  <p className="text-2xl font-bold">{formatDuration(totalMinutes)}</p>
                 </div>
                 <div>
                   <h4 className="text-sm font-medium text-muted-foreground">Valor Total</h4>
-                  <p className="text-2xl font-bold">R$ {totalValue.toFixed(2)}</p>
+                  <p className="text-2xl font-bold">{formatMoney(totalValue)}</p>
                 </div>
               </div>
+              {unpricedSessions > 0 && (
+                <p className="text-xs text-muted-foreground mt-4">
+                  {unpricedSessions} sessão(ões) sem valor cadastrado não entram no valor total.
+                </p>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -1,4 +1,5 @@
  import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import {
@@ -25,10 +26,11 @@ import {
   DialogTitle,
 } from '@/components/feedback/dialog'; // Updated
 import { Badge } from '@/components/data-display/badge'; // Updated
-import { Check, FileEdit, MoreVertical, X } from 'lucide-react';
+import { Check, FileEdit, MoreVertical, Repeat, X } from 'lucide-react';
 import { SessionDetails } from './SessionDetails';
 import { SessionForm } from './SessionForm';
 import { useToast } from '@/hooks/use-toast';
+import { cancelSession, completeSession, getSessionErrorMessage, SeriesScope } from '../services/sessionServices';
 
 type SessionStatus = 'scheduled' | 'completed' | 'cancelled' | 'no-show';
 
@@ -38,6 +40,7 @@ interface Session {
   endTime: Date;
   location: string;
   source: 'Favale' | 'Pink';
+  price?: number;
   notes?: string;
   status: SessionStatus;
   studentId: string;
@@ -45,6 +48,7 @@ interface Session {
   trainerId: string;
   trainerName: string;
   calendarEventId?: string;
+  seriesId?: number;
 }
 
 interface SessionTableProps {
@@ -87,27 +91,44 @@ export function SessionTable({ sessions, onRefresh }: SessionTableProps) {
   const [viewDetailsOpen, setViewDetailsOpen] = useState(false);
   const [editSessionOpen, setEditSessionOpen] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Completing or cancelling a session consumes/refunds package credits and session charges
+  const refreshBilling = () => {
+    queryClient.invalidateQueries({ queryKey: ['studentBalances'] });
+    queryClient.invalidateQueries({ queryKey: ['studentBilling'] });
+  };
   
-  // Mock function para cancelar sessão
-  const handleCancelSession = (id: number) => {
-    console.log('Cancelando sessão:', id);
-    toast({
-      title: 'Sessão cancelada',
-      description: 'A sessão foi cancelada com sucesso.',
-    });
-    setViewDetailsOpen(false);
-    onRefresh();
+  const handleCancelSession = async (id: number, scope?: SeriesScope) => {
+    try {
+      await cancelSession(id, undefined, scope);
+      toast({
+        title: 'Sessão cancelada',
+        description: 'A sessão foi cancelada com sucesso.',
+      });
+      setViewDetailsOpen(false);
+      onRefresh();
+      refreshBilling();
+    } catch (error) {
+      console.error('Erro ao cancelar sessão:', error);
+      toast({ title: 'Erro', description: getSessionErrorMessage(error, 'Não foi possível cancelar a sessão.'), variant: 'destructive' });
+    }
   };
   
-  // Mock function para marcar sessão como concluída
-  const handleCompleteSession = (id: number) => {
-    console.log('Marcando sessão como concluída:', id);
-    toast({
-      title: 'Sessão concluída',
-      description: 'A sessão foi marcada como concluída com sucesso.',
-    });
-    setViewDetailsOpen(false);
-    onRefresh();
+  const handleCompleteSession = async (id: number) => {
+    try {
+      await completeSession(id);
+      toast({
+        title: 'Sessão concluída',
+        description: 'A sessão foi marcada como concluída com sucesso.',
+      });
+      setViewDetailsOpen(false);
+      onRefresh();
+      refreshBilling();
+    } catch (error) {
+      console.error('Erro ao concluir sessão:', error);
+      toast({ title: 'Erro', description: getSessionErrorMessage(error, 'Não foi possível concluir a sessão.'), variant: 'destructive' });
+    }
   };
   
   // Abrir dialog de detalhes/edição da sessão
@@ -149,8 +170,9 @@ export function SessionTable({ sessions, onRefresh }: SessionTableProps) {
                 <TableRow key={session.id} className="cursor-pointer hover:bg-muted/50" onClick={() => openSessionDetails(session)}>
                   <TableCell>
                     <div>
-                      <div className="font-medium">
+                      <div className="font-medium flex items-center gap-1">
                         {format(new Date(session.startTime), 'dd/MM/yyyy', { locale: ptBR })}
+                        {session.seriesId && <Repeat className="h-3 w-3 text-muted-foreground" aria-label="Sessão recorrente" />}
                       </div>
                       <div className="text-sm text-muted-foreground">
                         {format(new Date(session.startTime), 'HH:mm', { locale: ptBR })} - 
@@ -261,6 +283,7 @@ export function SessionTable({ sessions, onRefresh }: SessionTableProps) {
           {selectedSession && (
             <SessionForm 
               sessionId={selectedSession.id}
+              seriesId={selectedSession.seriesId}
               defaultValues={{
                 date: new Date(selectedSession.startTime),
                 startTime: format(new Date(selectedSession.startTime), 'HH:mm'),
@@ -270,6 +293,7 @@ export function SessionTable({ sessions, onRefresh }: SessionTableProps) {
                 studentId: selectedSession.studentId,
                 trainerId: selectedSession.trainerId,
                 notes: selectedSession.notes || '',
+                price: selectedSession.price !== undefined ? String(selectedSession.price).replace('.', ',') : '',
               }}
               onSuccess={() => {
                 setEditSessionOpen(false);
@@ -0,0 +1,218 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, Plus } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/features/auth/hooks/use-auth';
+import { Button } from '@/components/inputs/Button';
+import { Input } from '@/components/inputs/InputField';
+import { Label } from '@/components/inputs/label';
+import { Switch } from '@/components/inputs/switch';
+import { Badge } from '@/components/data-display/badge';
+import { Skeleton } from '@/components/data-display/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/data-display/table';
+import { getSessionErrorMessage } from '../services/sessionServices';
+import {
+  createBillingPackage,
+  fetchBillingPackages,
+  fetchStudentBalances,
+  formatBillingDate,
+  formatMoney,
+  updateBillingPackage,
+} from '../services/billingServices';
+import { StudentBillingDialog } from './StudentBillingDialog';
+
+export function StudentBilling() {
+  const queryClient = useQueryClient();
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+  const [search, setSearch] = useState('');
+  const [onlyOverdue, setOnlyOverdue] = useState(false);
+  const [selectedStudentId, setSelectedStudentId] = useState<number | null>(null);
+  const [newPackage, setNewPackage] = useState({ name: '', price: '', sessionCredits: '', validityDays: '30' });
+  const [isSavingPackage, setIsSavingPackage] = useState(false);
+
+  const { data: balances = [], isLoading } = useQuery({
+    queryKey: ['studentBalances'],
+    queryFn: () => fetchStudentBalances(),
+  });
+
+  const { data: packages = [] } = useQuery({
+    queryKey: ['billingPackages', 'all'],
+    queryFn: () => fetchBillingPackages(),
+  });
+
+  const filteredBalances = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return balances
+      .filter(row => !term || row.name.toLowerCase().includes(term))
+      .filter(row => !onlyOverdue || row.overdueAmount > 0)
+      .sort((a, b) => b.overdueAmount - a.overdueAmount || b.balance - a.balance);
+  }, [balances, search, onlyOverdue]);
+
+  const totals = useMemo(() => ({
+    receivable: balances.reduce((sum, row) => sum + Math.max(row.balance, 0), 0),
+    overdue: balances.reduce((sum, row) => sum + row.overdueAmount, 0),
+    overdueStudents: balances.filter(row => row.overdueAmount > 0).length,
+  }), [balances]);
+
+  const refreshPackages = () => queryClient.invalidateQueries({ queryKey: ['billingPackages'] });
+
+  const handleCreatePackage = async () => {
+    const price = Number(newPackage.price.replace(',', '.'));
+    const sessionCredits = parseInt(newPackage.sessionCredits);
+    const validityDays = parseInt(newPackage.validityDays);
+    if (!newPackage.name.trim() || !(price >= 0) || !(sessionCredits > 0) || !(validityDays > 0)) {
+      toast({ title: 'Dados incompletos', description: 'Preencha nome, valor, sessões e validade do pacote.', variant: 'destructive' });
+      return;
+    }
+    setIsSavingPackage(true);
+    try {
+      await createBillingPackage({ name: newPackage.name.trim(), price, sessionCredits, validityDays, source: null, active: true });
+      await refreshPackages();
+      setNewPackage({ name: '', price: '', sessionCredits: '', validityDays: '30' });
+      toast({ title: 'Pacote criado' });
+    } catch (error) {
+      toast({ title: 'Erro', description: getSessionErrorMessage(error, 'Não foi possível criar o pacote.'), variant: 'destructive' });
+    } finally {
+      setIsSavingPackage(false);
+    }
+  };
+
+  const handleTogglePackage = async (id: number, active: boolean) => {
+    try {
+      await updateBillingPackage(id, { active });
+      await refreshPackages();
+    } catch (error) {
+      toast({ title: 'Erro', description: getSessionErrorMessage(error, 'Não foi possível atualizar o pacote.'), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="rounded-lg border p-4">
+          <h4 className="text-sm font-medium text-muted-foreground">A receber</h4>
+          <p className="text-2xl font-bold">{formatMoney(totals.receivable)}</p>
+        </div>
+        <div className="rounded-lg border p-4">
+          <h4 className="text-sm font-medium text-muted-foreground">Em atraso</h4>
+          <p className={`text-2xl font-bold ${totals.overdue > 0 ? 'text-red-600' : ''}`}>{formatMoney(totals.overdue)}</p>
+        </div>
+        <div className="rounded-lg border p-4">
+          <h4 className="text-sm font-medium text-muted-foreground">Alunos inadimplentes</h4>
+          <p className="text-2xl font-bold">{totals.overdueStudents}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <Input placeholder="Buscar aluno..." value={search} onChange={(e) => setSearch(e.target.value)} className="sm:max-w-xs" />
+        <div className="flex items-center space-x-2">
+          <Switch id="only-overdue" checked={onlyOverdue} onCheckedChange={setOnlyOverdue} />
+          <Label htmlFor="only-overdue" className="cursor-pointer">Somente em atraso</Label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+        </div>
+      ) : filteredBalances.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-6 text-center">Nenhum aluno encontrado.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Aluno</TableHead>
+              <TableHead>Plano</TableHead>
+              <TableHead>Sessões disponíveis</TableHead>
+              <TableHead>Pacote vence em</TableHead>
+              <TableHead className="text-right">Saldo</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredBalances.map(row => (
+              <TableRow key={row.studentId} className="cursor-pointer" onClick={() => setSelectedStudentId(row.studentId)}>
+                <TableCell className="font-medium">
+                  {row.name}
+                  {row.overdueAmount > 0 && (
+                    <Badge variant="destructive" className="ml-2">
+                      <AlertTriangle className="h-3 w-3 mr-1" />
+                      {formatMoney(row.overdueAmount)} em atraso
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>{row.plan || '-'}</TableCell>
+                <TableCell>{row.creditsRemaining}</TableCell>
+                <TableCell>{formatBillingDate(row.nextExpiration)}</TableCell>
+                <TableCell className={`text-right font-medium ${row.balance > 0 ? 'text-red-600' : row.balance < 0 ? 'text-green-600' : ''}`}>
+                  {row.balance < 0 ? `Crédito ${formatMoney(-row.balance)}` : formatMoney(row.balance)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="text-base font-medium">Pacotes</h3>
+        {packages.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>Sessões</TableHead>
+                <TableHead>Validade</TableHead>
+                <TableHead className="text-right">Valor</TableHead>
+                <TableHead className="text-right">Ativo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {packages.map(pkg => (
+                <TableRow key={pkg.id}>
+                  <TableCell>{pkg.name}</TableCell>
+                  <TableCell>{pkg.sessionCredits}</TableCell>
+                  <TableCell>{pkg.validityDays} dias</TableCell>
+                  <TableCell className="text-right">{formatMoney(pkg.price)}</TableCell>
+                  <TableCell className="text-right">
+                    <Switch checked={pkg.active} disabled={!isAdmin} onCheckedChange={(active) => handleTogglePackage(pkg.id, active)} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {isAdmin && (
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end rounded-lg border p-3">
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="package-name">Nome</Label>
+              <Input id="package-name" value={newPackage.name} onChange={(e) => setNewPackage({ ...newPackage, name: e.target.value })} placeholder="Ex.: Mensal 2x por semana" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="package-price">Valor (R$)</Label>
+              <Input id="package-price" inputMode="decimal" value={newPackage.price} onChange={(e) => setNewPackage({ ...newPackage, price: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="package-credits">Sessões</Label>
+              <Input id="package-credits" type="number" min={1} value={newPackage.sessionCredits} onChange={(e) => setNewPackage({ ...newPackage, sessionCredits: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="package-validity">Validade (dias)</Label>
+              <Input id="package-validity" type="number" min={1} value={newPackage.validityDays} onChange={(e) => setNewPackage({ ...newPackage, validityDays: e.target.value })} />
+            </div>
+            <div className="md:col-span-5 flex justify-end">
+              <Button onClick={handleCreatePackage} disabled={isSavingPackage}>
+                <Plus className="h-4 w-4 mr-1" />
+                Criar pacote
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <StudentBillingDialog studentId={selectedStudentId} onClose={() => setSelectedStudentId(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, Loader2, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/features/auth/hooks/use-auth';
+import { Button } from '@/components/inputs/Button';
+import { Input } from '@/components/inputs/InputField';
+import { Label } from '@/components/inputs/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/inputs/select';
+import { Badge } from '@/components/data-display/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/navigation/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/data-display/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/feedback/dialog';
+import { getSessionErrorMessage } from '../services/sessionServices';
+import {
+  PAYMENT_METHOD_LABELS,
+  PaymentMethod,
+  STUDENT_PACKAGE_STATUS_LABELS,
+  deleteLedgerEntry,
+  fetchBillingPackages,
+  fetchStudentBilling,
+  formatBillingDate,
+  formatMoney,
+  registerCharge,
+  registerPayment,
+  sellStudentPackage,
+} from '../services/billingServices';
+
+interface StudentBillingDialogProps {
+  studentId: number | null;
+  onClose: () => void;
+}
+
+const todayIso = () => new Date().toLocaleDateString('en-CA');
+
+export function StudentBillingDialog({ studentId, onClose }: StudentBillingDialogProps) {
+  const queryClient = useQueryClient();
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+  const isOpen = studentId !== null;
+
+  const [packageId, setPackageId] = useState('');
+  const [startsOn, setStartsOn] = useState(todayIso());
+  const [packageDueDate, setPackageDueDate] = useState(todayIso());
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('pix');
+  const [paymentDate, setPaymentDate] = useState(todayIso());
+  const [chargeAmount, setChargeAmount] = useState('');
+  const [chargeDescription, setChargeDescription] = useState('');
+  const [chargeDueDate, setChargeDueDate] = useState(todayIso());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: billing, isLoading } = useQuery({
+    queryKey: ['studentBilling', studentId],
+    queryFn: () => fetchStudentBilling(studentId!),
+    enabled: isOpen,
+  });
+
+  const { data: packages = [] } = useQuery({
+    queryKey: ['billingPackages', 'active'],
+    queryFn: () => fetchBillingPackages(true),
+    enabled: isOpen,
+  });
+
+  const runAction = async (action: () => Promise<unknown>, successTitle: string, fallback: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: ['studentBilling', studentId] });
+      await queryClient.invalidateQueries({ queryKey: ['studentBalances'] });
+      toast({ title: successTitle });
+      return true;
+    } catch (error) {
+      toast({ title: 'Erro', description: getSessionErrorMessage(error, fallback), variant: 'destructive' });
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSellPackage = async () => {
+    if (!studentId || !packageId) return;
+    const done = await runAction(
+      () => sellStudentPackage(studentId, { packageId: Number(packageId), startsOn, dueDate: packageDueDate }),
+      'Pacote vendido',
+      'Não foi possível vender o pacote.',
+    );
+    if (done) setPackageId('');
+  };
+
+  const handleRegisterPayment = async () => {
+    const amount = Number(paymentAmount.replace(',', '.'));
+    if (!studentId || !(amount > 0)) {
+      toast({ title: 'Valor inválido', description: 'Informe um valor maior que zero.', variant: 'destructive' });
+      return;
+    }
+    const done = await runAction(
+      () => registerPayment(studentId, { amount, paymentMethod, occurredOn: paymentDate }),
+      'Pagamento registrado',
+      'Não foi possível registrar o pagamento.',
+    );
+    if (done) setPaymentAmount('');
+  };
+
+  const handleRegisterCharge = async () => {
+    const amount = Number(chargeAmount.replace(',', '.'));
+    if (!studentId || !(amount > 0) || !chargeDescription.trim()) {
+      toast({ title: 'Dados incompletos', description: 'Informe o valor e a descrição da cobrança.', variant: 'destructive' });
+      return;
+    }
+    const done = await runAction(
+      () => registerCharge(studentId, { amount, description: chargeDescription.trim(), dueDate: chargeDueDate }),
+      'Cobrança registrada',
+      'Não foi possível registrar a cobrança.',
+    );
+    if (done) {
+      setChargeAmount('');
+      setChargeDescription('');
+    }
+  };
+
+  const handleDeleteEntry = (entryId: number) =>
+    runAction(() => deleteLedgerEntry(entryId), 'Lançamento excluído', 'Não foi possível excluir o lançamento.');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{billing?.name ?? 'Financeiro do aluno'}</DialogTitle>
+          <DialogDescription>Pacotes, cobranças e pagamentos do aluno.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !billing ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Saldo devedor</p>
+                <p className={`text-lg font-semibold ${billing.balance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {formatMoney(Math.max(billing.balance, 0))}
+                </p>
+                {billing.balance < 0 && <p className="text-xs text-muted-foreground">Crédito de {formatMoney(-billing.balance)}</p>}
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Em atraso</p>
+                <p className={`text-lg font-semibold ${billing.overdueAmount > 0 ? 'text-red-600' : ''}`}>{formatMoney(billing.overdueAmount)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Sessões disponíveis</p>
+                <p className="text-lg font-semibold">{billing.creditsRemaining}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Próximo vencimento</p>
+                <p className="text-lg font-semibold">{formatBillingDate(billing.nextExpiration)}</p>
+              </div>
+            </div>
+
+            {billing.overdueAmount > 0 && (
+              <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-900 dark:bg-red-950/30 dark:text-red-300">
+                <AlertTriangle className="h-4 w-4" />
+                Há cobranças vencidas e não pagas.
+              </div>
+            )}
+
+            <Tabs defaultValue="ledger">
+              <TabsList>
+                <TabsTrigger value="ledger">Extrato</TabsTrigger>
+                <TabsTrigger value="packages">Pacotes</TabsTrigger>
+                <TabsTrigger value="payment">Registrar pagamento</TabsTrigger>
+                <TabsTrigger value="charge">Nova cobrança</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="ledger">
+                {billing.ledger.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-4">Nenhum lançamento registrado.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Descrição</TableHead>
+                        <TableHead>Vencimento</TableHead>
+                        <TableHead className="text-right">Valor</TableHead>
+                        {isAdmin && <TableHead className="w-10" />}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {billing.ledger.map(entry => (
+                        <TableRow key={entry.id}>
+                          <TableCell>{formatBillingDate(entry.occurredOn)}</TableCell>
+                          <TableCell>
+                            {entry.description}
+                            {entry.paymentMethod && <span className="text-muted-foreground"> · {PAYMENT_METHOD_LABELS[entry.paymentMethod]}</span>}
+                          </TableCell>
+                          <TableCell>{entry.entryType === 'charge' ? formatBillingDate(entry.dueDate) : '-'}</TableCell>
+                          <TableCell className={`text-right font-medium ${entry.entryType === 'payment' ? 'text-green-600' : ''}`}>
+                            {entry.entryType === 'payment' ? '+ ' : '- '}{formatMoney(entry.amount)}
+                          </TableCell>
+                          {isAdmin && (
+                            <TableCell>
+                              {!entry.sessionId && !entry.studentPackageId && (
+                                <Button variant="ghost" size="icon" disabled={isSubmitting} onClick={() => handleDeleteEntry(entry.id)} title="Excluir lançamento">
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+
+              <TabsContent value="packages" className="space-y-4">
+                {billing.packages.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Pacote</TableHead>
+                        <TableHead>Validade</TableHead>
+                        <TableHead>Sessões</TableHead>
+                        <TableHead>Situação</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {billing.packages.map(pkg => (
+                        <TableRow key={pkg.id}>
+                          <TableCell>{pkg.name} <span className="text-muted-foreground">({formatMoney(pkg.price)})</span></TableCell>
+                          <TableCell>{formatBillingDate(pkg.startsOn)} a {formatBillingDate(pkg.expiresOn)}</TableCell>
+                          <TableCell>{pkg.creditsUsed} de {pkg.creditsTotal}</TableCell>
+                          <TableCell>
+                            <Badge variant={pkg.status === 'active' ? 'default' : 'secondary'}>{STUDENT_PACKAGE_STATUS_LABELS[pkg.status]}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end rounded-lg border p-3">
+                  <div className="space-y-1 md:col-span-2">
+                    <Label>Vender pacote</Label>
+                    <Select value={packageId} onValueChange={setPackageId}>
+                      <SelectTrigger><SelectValue placeholder="Selecione um pacote" /></SelectTrigger>
+                      <SelectContent>
+                        {packages.map(pkg => (
+                          <SelectItem key={pkg.id} value={String(pkg.id)}>
+                            {pkg.name} · {pkg.sessionCredits} sessões · {formatMoney(pkg.price)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="package-starts-on">Início</Label>
+                    <Input id="package-starts-on" type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="package-due-date">Vencimento</Label>
+                    <Input id="package-due-date" type="date" value={packageDueDate} onChange={(e) => setPackageDueDate(e.target.value)} />
+                  </div>
+                  <div className="md:col-span-4 flex justify-end">
+                    <Button onClick={handleSellPackage} disabled={isSubmitting || !packageId}>Vender pacote</Button>
+                  </div>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="payment">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end rounded-lg border p-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="payment-amount">Valor (R$)</Label>
+                    <Input id="payment-amount" inputMode="decimal" value={paymentAmount} onChange={(e) => setPaymentAmount(e.target.value)} placeholder="0,00" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Forma de pagamento</Label>
+                    <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+                          <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="payment-date">Data</Label>
+                    <Input id="payment-date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+                  </div>
+                  <div className="md:col-span-3 flex justify-end">
+                    <Button onClick={handleRegisterPayment} disabled={isSubmitting}>Registrar pagamento</Button>
+                  </div>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="charge">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end rounded-lg border p-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="charge-description">Descrição</Label>
+                    <Input id="charge-description" value={chargeDescription} onChange={(e) => setChargeDescription(e.target.value)} placeholder="Ex.: Avaliação física" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="charge-amount">Valor (R$)</Label>
+                    <Input id="charge-amount" inputMode="decimal" value={chargeAmount} onChange={(e) => setChargeAmount(e.target.value)} placeholder="0,00" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="charge-due-date">Vencimento</Label>
+                    <Input id="charge-due-date" type="date" value={chargeDueDate} onChange={(e) => setChargeDueDate(e.target.value)} />
+                  </div>
+                  <div className="md:col-span-3 flex justify-end">
+                    <Button onClick={handleRegisterCharge} disabled={isSubmitting}>Registrar cobrança</Button>
+                  </div>
+                </div>
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,296 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { trainerValidationSchema } from '@shared/schema';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/inputs/Button';
+import { Input } from '@/components/inputs/InputField';
+import { Label } from '@/components/inputs/label';
+import { Switch } from '@/components/inputs/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/inputs/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/navigation/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/feedback/dialog';
+import { getSessionErrorMessage } from '../services/sessionServices';
+import {
+  TrainerAvailabilitySlot,
+  WEEKDAY_LABELS,
+  addTrainerTimeOff,
+  createTrainer,
+  deleteTrainerTimeOff,
+  fetchTrainer,
+  saveTrainerAvailability,
+  updateTrainer,
+} from '../services/trainerServices';
+
+interface TrainerDialogProps {
+  trainerId: number | 'new' | null; // null = closed
+  onClose: () => void;
+}
+
+const emptyForm = { name: '', email: '', phone: '', specialties: '', locations: '', calendarId: '', active: true };
+
+// "Pilates, Funcional" -> ["Pilates", "Funcional"]
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+export function TrainerDialog({ trainerId, onClose }: TrainerDialogProps) {
+  const queryClient = useQueryClient();
+  const isNew = trainerId === 'new';
+  const isOpen = trainerId !== null;
+  const [form, setForm] = useState(emptyForm);
+  const [slots, setSlots] = useState<TrainerAvailabilitySlot[]>([]);
+  const [timeOff, setTimeOff] = useState({ startsOn: '', endsOn: '', reason: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: trainer, isLoading } = useQuery({
+    queryKey: ['trainer', trainerId],
+    queryFn: () => fetchTrainer(trainerId as number),
+    enabled: isOpen && !isNew,
+  });
+
+  useEffect(() => {
+    if (isNew || !trainer) {
+      setForm(emptyForm);
+      setSlots([]);
+      return;
+    }
+    setForm({
+      name: trainer.name,
+      email: trainer.email,
+      phone: trainer.phone || '',
+      specialties: trainer.specialties.join(', '),
+      locations: trainer.locations.join(', '),
+      calendarId: trainer.calendarId || '',
+      active: trainer.active,
+    });
+    setSlots(trainer.availability);
+  }, [trainer, isNew]);
+
+  const invalidateTrainers = async () => {
+    await queryClient.invalidateQueries({ queryKey: ['trainersList'] });
+    await queryClient.invalidateQueries({ queryKey: ['activeTrainers'] });
+    await queryClient.invalidateQueries({ queryKey: ['trainer', trainerId] });
+  };
+
+  const handleSaveDetails = async () => {
+    const payload = {
+      name: form.name.trim(),
+      email: form.email.trim(),
+      phone: form.phone.trim() || undefined,
+      specialties: splitList(form.specialties),
+      locations: splitList(form.locations),
+      calendarId: form.calendarId.trim() || undefined,
+      active: form.active,
+    };
+    const validation = trainerValidationSchema.safeParse(payload);
+    if (!validation.success) {
+      toast({ title: 'Dados inválidos', description: validation.error.errors[0]?.message, variant: 'destructive' });
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      if (isNew) await createTrainer(payload);
+      else await updateTrainer(trainerId as number, payload);
+      await invalidateTrainers();
+      toast({ title: isNew ? 'Professor cadastrado' : 'Professor atualizado' });
+      if (isNew) onClose();
+    } catch (error) {
+      toast({ title: 'Erro', description: getSessionErrorMessage(error, 'Não foi possível salvar o professor.'), variant: 'destructive' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const updateSlot = (index: number, changes: Partial<TrainerAvailabilitySlot>) =>
+    setSlots(current => current.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+
+  const handleSaveAvailability = async () => {
+    setIsSubmitting(true);
+    try {
+      await saveTrainerAvailability(trainerId as number, [...slots].sort((a, b) => a.weekday - b.weekday || a.startTime.localeCompare(b.startTime)));
+      await invalidateTrainers();
+      toast({ title: 'Disponibilidade salva' });
+    } catch (error) {
+      toast({ title: 'Erro', description: getSessionErrorMessage(error, 'Não foi possível salvar a disponibilidade.'), variant: 'destructive' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAddTimeOff = async () => {
+    if (!timeOff.startsOn || !timeOff.endsOn || timeOff.endsOn < timeOff.startsOn) {
+      toast({ title: 'Período inválido', description: 'Informe as datas de início e fim da folga.', variant: 'destructive' });
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      // Whole days in local time: from the start of the first day to the end of the last one
+      const startsAt = new Date(`${timeOff.startsOn}T00:00`);
+      const endsAt = new Date(`${timeOff.endsOn}T00:00`);
+      endsAt.setDate(endsAt.getDate() + 1);
+      const affected = await addTrainerTimeOff(trainerId as number, {
+        startsAt: startsAt.toISOString(),
+        endsAt: endsAt.toISOString(),
+        reason: timeOff.reason.trim() || undefined,
+      });
+      await invalidateTrainers();
+      setTimeOff({ startsOn: '', endsOn: '', reason: '' });
+      toast({
+        title: 'Folga registrada',
+        description: affected.length > 0
+          ? `Atenção: ${affected.length} sessão(ões) agendada(s) neste período precisam ser remarcadas.`
+          : undefined,
+        variant: affected.length > 0 ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      toast({ title: 'Erro', description: getSessionErrorMessage(error, 'Não foi possível registrar a folga.'), variant: 'destructive' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteTimeOff = async (timeOffId: number) => {
+    try {
+      await deleteTrainerTimeOff(trainerId as number, timeOffId);
+      await invalidateTrainers();
+    } catch (error) {
+      toast({ title: 'Erro', description: getSessionErrorMessage(error, 'Não foi possível excluir a folga.'), variant: 'destructive' });
+    }
+  };
+
+  const detailsForm = (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-1">
+        <Label htmlFor="trainer-name">Nome</Label>
+        <Input id="trainer-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="trainer-email">E-mail</Label>
+        <Input id="trainer-email" type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="trainer-phone">Telefone</Label>
+        <Input id="trainer-phone" value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="trainer-calendar">ID do Google Calendar</Label>
+        <Input id="trainer-calendar" value={form.calendarId} onChange={(e) => setForm({ ...form, calendarId: e.target.value })} placeholder="Opcional" />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="trainer-specialties">Especialidades</Label>
+        <Input id="trainer-specialties" value={form.specialties} onChange={(e) => setForm({ ...form, specialties: e.target.value })} placeholder="Ex.: Pilates, Funcional" />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="trainer-locations">Locais atendidos</Label>
+        <Input id="trainer-locations" value={form.locations} onChange={(e) => setForm({ ...form, locations: e.target.value })} placeholder="Vazio = qualquer local" />
+      </div>
+      <div className="flex items-center space-x-2">
+        <Switch id="trainer-active" checked={form.active} onCheckedChange={(active) => setForm({ ...form, active })} />
+        <Label htmlFor="trainer-active" className="cursor-pointer">Ativo</Label>
+      </div>
+      <div className="md:col-span-2 flex justify-end">
+        <Button onClick={handleSaveDetails} disabled={isSubmitting}>{isNew ? 'Cadastrar professor' : 'Salvar dados'}</Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? 'Novo professor' : trainer?.name ?? 'Professor'}</DialogTitle>
+          <DialogDescription>
+            {isNew ? 'Cadastre os dados do professor. A disponibilidade pode ser definida depois.' : 'Dados, grade semanal e folgas do professor.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isNew ? detailsForm : isLoading || !trainer ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Tabs defaultValue="details">
+            <TabsList>
+              <TabsTrigger value="details">Dados</TabsTrigger>
+              <TabsTrigger value="availability">Disponibilidade</TabsTrigger>
+              <TabsTrigger value="time-off">Folgas</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="details" className="pt-2">{detailsForm}</TabsContent>
+
+            <TabsContent value="availability" className="space-y-3 pt-2">
+              <p className="text-sm text-muted-foreground">
+                Horários em que o professor atende. Sem nenhum horário cadastrado, ele é considerado disponível a qualquer hora.
+              </p>
+              {slots.map((slot, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={String(slot.weekday)} onValueChange={(value) => updateSlot(index, { weekday: Number(value) })}>
+                    <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAY_LABELS.map((label, weekday) => <SelectItem key={weekday} value={String(weekday)}>{label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Input type="time" value={slot.startTime} onChange={(e) => updateSlot(index, { startTime: e.target.value })} className="w-32" />
+                  <span className="text-sm text-muted-foreground">às</span>
+                  <Input type="time" value={slot.endTime} onChange={(e) => updateSlot(index, { endTime: e.target.value })} className="w-32" />
+                  <Button variant="ghost" size="icon" onClick={() => setSlots(current => current.filter((_, i) => i !== index))} title="Remover horário">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <Button variant="outline" size="sm" onClick={() => setSlots(current => [...current, { weekday: 1, startTime: '08:00', endTime: '12:00' }])}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Adicionar horário
+                </Button>
+                <Button onClick={handleSaveAvailability} disabled={isSubmitting}>Salvar disponibilidade</Button>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="time-off" className="space-y-3 pt-2">
+              {trainer.timeOff.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma folga programada.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {trainer.timeOff.map(block => (
+                    <li key={block.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                      <span>
+                        {format(block.startsAt, 'dd/MM/yyyy', { locale: ptBR })} a {format(new Date(block.endsAt.getTime() - 1), 'dd/MM/yyyy', { locale: ptBR })}
+                        {block.reason && <span className="text-muted-foreground"> · {block.reason}</span>}
+                      </span>
+                      <Button variant="ghost" size="icon" onClick={() => handleDeleteTimeOff(block.id)} title="Excluir folga">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end rounded-lg border p-3">
+                <div className="space-y-1">
+                  <Label htmlFor="time-off-start">De</Label>
+                  <Input id="time-off-start" type="date" value={timeOff.startsOn} onChange={(e) => setTimeOff({ ...timeOff, startsOn: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="time-off-end">Até</Label>
+                  <Input id="time-off-end" type="date" value={timeOff.endsOn} onChange={(e) => setTimeOff({ ...timeOff, endsOn: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="time-off-reason">Motivo</Label>
+                  <Input id="time-off-reason" value={timeOff.reason} onChange={(e) => setTimeOff({ ...timeOff, reason: e.target.value })} placeholder="Ex.: Férias" />
+                </div>
+                <div className="md:col-span-3 flex justify-end">
+                  <Button onClick={handleAddTimeOff} disabled={isSubmitting}>Registrar folga</Button>
+                </div>
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Fechar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
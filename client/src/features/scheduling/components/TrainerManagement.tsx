@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/inputs/Button';
+import { Badge } from '@/components/data-display/badge';
+import { Skeleton } from '@/components/data-display/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/data-display/table';
+import { getSessionErrorMessage } from '../services/sessionServices';
+import { TrainerRecord, deleteTrainer, fetchTrainers } from '../services/trainerServices';
+import { TrainerDialog } from './TrainerDialog';
+
+export function TrainerManagement() {
+  const queryClient = useQueryClient();
+  const [selectedTrainerId, setSelectedTrainerId] = useState<number | 'new' | null>(null);
+
+  const { data: trainers = [], isLoading } = useQuery<TrainerRecord[]>({
+    queryKey: ['trainersList'],
+    queryFn: fetchTrainers,
+  });
+
+  const handleDelete = async (trainer: TrainerRecord) => {
+    if (!window.confirm(`Excluir o professor ${trainer.name}?`)) return;
+    try {
+      await deleteTrainer(trainer.id);
+      await queryClient.invalidateQueries({ queryKey: ['trainersList'] });
+      await queryClient.invalidateQueries({ queryKey: ['activeTrainers'] });
+      toast({ title: 'Professor excluído' });
+    } catch (error) {
+      toast({ title: 'Erro', description: getSessionErrorMessage(error, 'Não foi possível excluir o professor.'), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button size="sm" onClick={() => setSelectedTrainerId('new')}>
+          <Plus className="h-4 w-4 mr-1" />
+          Novo Professor
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+        </div>
+      ) : trainers.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-6 text-center">Nenhum professor cadastrado.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nome</TableHead>
+              <TableHead>Contato</TableHead>
+              <TableHead>Especialidades</TableHead>
+              <TableHead>Locais</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {trainers.map(trainer => (
+              <TableRow key={trainer.id}>
+                <TableCell className="font-medium">{trainer.name}</TableCell>
+                <TableCell>
+                  <div className="text-sm">{trainer.email}</div>
+                  {trainer.phone && <div className="text-xs text-muted-foreground">{trainer.phone}</div>}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {trainer.specialties.map(specialty => <Badge key={specialty} variant="secondary">{specialty}</Badge>)}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm">{trainer.locations.length > 0 ? trainer.locations.join(', ') : 'Qualquer local'}</TableCell>
+                <TableCell>
+                  <Badge variant={trainer.active ? 'default' : 'outline'}>{trainer.active ? 'Ativo' : 'Inativo'}</Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => setSelectedTrainerId(trainer.id)} title="Editar">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(trainer)} title="Excluir">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <TrainerDialog trainerId={selectedTrainerId} onClose={() => setSelectedTrainerId(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+import type { PaymentMethod } from "@shared/schema";
+
+export type { PaymentMethod };
+
+export interface BillingPackage {
+  id: number;
+  name: string;
+  price: number;
+  sessionCredits: number;
+  validityDays: number;
+  source: 'Favale' | 'Pink' | null;
+  active: boolean;
+}
+
+export type BillingPackagePayload = Omit<BillingPackage, 'id'>;
+
+export type StudentPackageStatus = 'active' | 'expired' | 'exhausted' | 'cancelled';
+
+export interface StudentPackage {
+  id: number;
+  packageId: number | null;
+  name: string;
+  price: number;
+  creditsTotal: number;
+  creditsUsed: number;
+  startsOn: string; // AAAA-MM-DD
+  expiresOn: string; // AAAA-MM-DD
+  status: StudentPackageStatus;
+}
+
+export interface BillingLedgerEntry {
+  id: number;
+  entryType: 'charge' | 'payment';
+  amount: number;
+  description: string;
+  occurredOn: string;
+  dueDate: string | null;
+  paymentMethod: PaymentMethod | null;
+  studentPackageId: number | null;
+  sessionId: number | null;
+  createdAt: string;
+}
+
+export interface StudentBalance {
+  totalCharged: number;
+  totalPaid: number;
+  balance: number; // > 0 means the student owes the studio
+  overdueAmount: number;
+  creditsRemaining: number;
+  nextExpiration: string | null;
+}
+
+export interface StudentBalanceRow extends StudentBalance {
+  studentId: number;
+  leadId: number | null;
+  name: string;
+  source: string;
+  plan: string | null;
+  active: boolean;
+}
+
+export interface StudentBillingDetail extends StudentBalance {
+  studentId: number;
+  name: string;
+  source: string;
+  plan: string | null;
+  active: boolean;
+  packages: StudentPackage[];
+  ledger: BillingLedgerEntry[];
+}
+
+export interface PaymentPayload {
+  amount: number;
+  paymentMethod: PaymentMethod;
+  occurredOn?: string;
+  description?: string;
+}
+
+export interface ChargePayload {
+  amount: number;
+  description: string;
+  dueDate: string;
+}
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pix: 'Pix',
+  cartao: 'Cartão',
+  dinheiro: 'Dinheiro',
+  transferencia: 'Transferência',
+};
+
+export const STUDENT_PACKAGE_STATUS_LABELS: Record<StudentPackageStatus, string> = {
+  active: 'Ativo',
+  expired: 'Expirado',
+  exhausted: 'Esgotado',
+  cancelled: 'Cancelado',
+};
+
+export const formatMoney = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+// "2024-05-01" -> "01/05/2024" without going through Date (avoids the UTC day shift)
+export const formatBillingDate = (date: string | null) => (date ? date.split('-').reverse().join('/') : '-');
+
+export const fetchBillingPackages = async (activeOnly = false): Promise<BillingPackage[]> => {
+  const response = await invokeSupabaseFunction<{ data: BillingPackage[] }>('billing-functions', 'GET', undefined, {
+    slug: 'packages',
+    params: activeOnly ? { active: 'true' } : undefined,
+  });
+  return response.data || [];
+};
+
+export const createBillingPackage = async (payload: BillingPackagePayload): Promise<BillingPackage> => {
+  const response = await invokeSupabaseFunction<{ data: BillingPackage }>('billing-functions', 'POST', payload, { slug: 'packages' });
+  return response.data;
+};
+
+export const updateBillingPackage = async (id: number, payload: Partial<BillingPackagePayload>): Promise<BillingPackage> => {
+  const response = await invokeSupabaseFunction<{ data: BillingPackage }>('billing-functions', 'PATCH', payload, { slug: `packages/${id}` });
+  return response.data;
+};
+
+export const fetchStudentBalances = async (includeInactive = false): Promise<StudentBalanceRow[]> => {
+  const response = await invokeSupabaseFunction<{ data: StudentBalanceRow[] }>('billing-functions', 'GET', undefined, {
+    slug: 'students',
+    params: includeInactive ? { includeInactive: 'true' } : undefined,
+  });
+  return response.data || [];
+};
+
+export const fetchStudentBilling = async (studentId: number): Promise<StudentBillingDetail> => {
+  const response = await invokeSupabaseFunction<{ data: StudentBillingDetail }>('billing-functions', 'GET', undefined, { slug: `students/${studentId}` });
+  return response.data;
+};
+
+export const sellStudentPackage = (studentId: number, payload: { packageId: number; startsOn?: string; dueDate?: string }) =>
+  invokeSupabaseFunction('billing-functions', 'POST', payload, { slug: `students/${studentId}/packages` });
+
+export const registerPayment = (studentId: number, payload: PaymentPayload) =>
+  invokeSupabaseFunction('billing-functions', 'POST', payload, { slug: `students/${studentId}/payments` });
+
+export const registerCharge = (studentId: number, payload: ChargePayload) =>
+  invokeSupabaseFunction('billing-functions', 'POST', payload, { slug: `students/${studentId}/charges` });
+
+export const deleteLedgerEntry = (entryId: number) =>
+  invokeSupabaseFunction('billing-functions', 'DELETE', undefined, { slug: `ledger/${entryId}` });
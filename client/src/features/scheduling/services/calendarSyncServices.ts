@@ -0,0 +1,79 @@
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+
+export interface TrainerSyncStatus {
+  trainerId: number;
+  trainerName: string;
+  linked: boolean;
+  calendarId: string | null;
+  linkedByCurrentUser: boolean;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+export interface CalendarSyncStatus {
+  trainers: TrainerSyncStatus[];
+  pendingConflicts: number;
+}
+
+export type CalendarConflictKind = 'both_modified' | 'external_delete' | 'overlap';
+export type CalendarConflictResolution = 'keep_local' | 'accept_remote';
+
+interface SessionSnapshot {
+  start_time?: string;
+  end_time?: string;
+  location?: string;
+  status?: string;
+}
+
+export interface CalendarSyncConflictItem {
+  id: number;
+  kind: CalendarConflictKind;
+  status: 'pending' | 'resolved';
+  resolution: CalendarConflictResolution | null;
+  googleEventId: string;
+  localValue: SessionSnapshot | null;
+  remoteValue: SessionSnapshot | null;
+  createdAt: string;
+  resolvedAt: string | null;
+  sessionId: number;
+  studentName: string;
+  trainerName: string;
+}
+
+export interface CalendarPullResult {
+  trainerId: number;
+  applied?: number;
+  conflict?: number;
+  unchanged?: number;
+  ignored?: number;
+  error?: string;
+}
+
+export const fetchCalendarSyncStatus = async (): Promise<CalendarSyncStatus> => {
+  const response = await invokeSupabaseFunction<{ data: CalendarSyncStatus }>('calendar-sync', 'GET', undefined, { slug: 'status' });
+  return response.data;
+};
+
+export const connectTrainerCalendar = (trainerId: number, calendarId?: string) =>
+  invokeSupabaseFunction('calendar-sync', 'POST', { calendarId: calendarId || undefined }, { slug: `connect/${trainerId}` });
+
+export const disconnectTrainerCalendar = (trainerId: number) =>
+  invokeSupabaseFunction('calendar-sync', 'DELETE', undefined, { slug: `connect/${trainerId}` });
+
+export const pullCalendarChanges = async (trainerId?: number): Promise<CalendarPullResult[]> => {
+  const response = await invokeSupabaseFunction<{ data: CalendarPullResult[] }>('calendar-sync', 'POST', undefined, {
+    slug: trainerId ? `pull/${trainerId}` : 'pull',
+  });
+  return response.data || [];
+};
+
+export const fetchCalendarSyncConflicts = async (status: 'pending' | 'resolved' = 'pending'): Promise<CalendarSyncConflictItem[]> => {
+  const response = await invokeSupabaseFunction<{ data: CalendarSyncConflictItem[] }>('calendar-sync', 'GET', undefined, {
+    slug: 'conflicts',
+    params: { status },
+  });
+  return response.data || [];
+};
+
+export const resolveCalendarSyncConflict = (id: number, resolution: CalendarConflictResolution) =>
+  invokeSupabaseFunction('calendar-sync', 'POST', { resolution }, { slug: `conflicts/${id}/resolve` });
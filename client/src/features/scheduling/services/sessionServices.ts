@@ -0,0 +1,198 @@
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+import type { LeadRow, SeriesScope, SessionDetailsRow, StudentRow, TrainerRow } from "@shared/schema";
+
+export type { SeriesScope };
+
+// Status values stored in the `sessions` table
+export type SessionDbStatus = 'agendado' | 'concluído' | 'cancelado' | 'remarcado';
+// Status values used by the scheduling UI components
+export type SessionUiStatus = 'scheduled' | 'completed' | 'cancelled' | 'no-show';
+
+export interface ScheduledSession {
+  id: number;
+  startTime: Date;
+  endTime: Date;
+  location: string;
+  source: 'Favale' | 'Pink';
+  price?: number;
+  notes?: string;
+  status: SessionUiStatus;
+  studentId: string;
+  studentName: string;
+  trainerId: string;
+  trainerName: string;
+  calendarEventId?: string;
+  seriesId?: number;
+  seriesException?: boolean;
+}
+
+export interface SessionPayload {
+  startTime: string;
+  endTime: string;
+  studentId: number;
+  trainerId: number;
+  location: string;
+  source: string;
+  price?: number | null;
+  notes?: string;
+  status?: SessionDbStatus;
+}
+
+export interface SessionSeriesPayload extends Omit<SessionPayload, 'status'> {
+  weekdays: number[]; // 0 = domingo ... 6 = sábado
+  intervalWeeks: number;
+  untilDate?: string; // AAAA-MM-DD
+  occurrenceCount?: number;
+}
+
+export interface SkippedOccurrence {
+  date: string;
+  reason: 'holiday' | 'conflict';
+  detail: string;
+}
+
+export interface TrainerOption { id: string; name: string; }
+export interface StudentOption { id: string; name: string; source: string; }
+
+const statusFromDb: Record<string, SessionUiStatus> = {
+  agendado: 'scheduled',
+  remarcado: 'scheduled', // A rescheduled session is still an upcoming appointment
+  concluído: 'completed',
+  cancelado: 'cancelled',
+};
+
+export const toSessionUiStatus = (status: string): SessionUiStatus => statusFromDb[status] || 'scheduled';
+
+// Edge function errors arrive as "<status>: <json body>" (see throwIfResNotOk)
+export function getSessionErrorMessage(error: unknown, fallback = 'Ocorreu um erro ao salvar a sessão.'): string {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d{3}:\s*/, '');
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.details && typeof parsed.details === 'string' ? `${parsed.error} ${parsed.details}` : parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+export const fetchSessionDetails = async (): Promise<ScheduledSession[]> => {
+  const response = await invokeSupabaseFunction<{ data: SessionDetailsRow[] }>('scheduling-functions', 'GET', undefined, { slug: 'sessions/details' });
+  return (response.data || []).map(s => ({
+    id: s.id,
+    startTime: new Date(s.startTime),
+    endTime: new Date(s.endTime),
+    location: s.location,
+    source: s.source as ScheduledSession['source'],
+    price: s.price ?? undefined,
+    notes: s.notes || undefined,
+    status: toSessionUiStatus(s.status),
+    studentId: String(s.studentId),
+    studentName: s.studentName,
+    trainerId: String(s.trainerId),
+    trainerName: s.trainerName,
+    calendarEventId: s.googleEventId || undefined,
+    seriesId: s.seriesId || undefined,
+    seriesException: !!s.seriesException,
+  }));
+};
+
+export const fetchActiveTrainers = async (): Promise<TrainerOption[]> => {
+  const response = await invokeSupabaseFunction<{ data: TrainerRow[] }>('scheduling-functions', 'GET', undefined, { slug: 'trainers/active' });
+  return (response.data || []).map(t => ({ id: String(t.id), name: t.name }));
+};
+
+export const fetchStudentOptions = async (): Promise<StudentOption[]> => {
+  const response = await invokeSupabaseFunction<{ data: (StudentRow & { lead: LeadRow | null })[] }>('scheduling-functions', 'GET', undefined, {
+    slug: 'students/details',
+    params: { limit: '1000' },
+  });
+  return (response.data || [])
+    .filter(s => s.active !== false)
+    .map(s => ({ id: String(s.id), name: s.lead?.name || `Aluno #${s.id}`, source: s.source }));
+};
+
+// Series-wide operations go through ?scope=; the edge function ignores it for sessions outside a series
+const withScope = (slug: string, scope?: SeriesScope) => (scope && scope !== 'this' ? `${slug}?scope=${scope}` : slug);
+
+export const createSession = (payload: SessionPayload) =>
+  invokeSupabaseFunction('scheduling-functions', 'POST', payload, { slug: 'sessions' });
+
+export const createSessionSeries = async (payload: SessionSeriesPayload) => {
+  const response = await invokeSupabaseFunction<{ data: { series: { id: number }; sessions: unknown[]; skipped: SkippedOccurrence[] } }>(
+    'scheduling-functions', 'POST', payload, { slug: 'series' },
+  );
+  return response.data;
+};
+
+export const updateSession = (id: number, payload: Partial<SessionPayload>, scope?: SeriesScope) =>
+  invokeSupabaseFunction('scheduling-functions', 'PATCH', payload, { slug: withScope(`sessions/${id}`, scope) });
+
+export const completeSession = (id: number) => updateSession(id, { status: 'concluído' });
+
+export const cancelSession = (id: number, reason?: string, scope?: SeriesScope) =>
+  invokeSupabaseFunction('scheduling-functions', 'POST', { reason }, { slug: withScope(`sessions/${id}/cancel`, scope) });
+
+export const rescheduleSession = (
+  id: number,
+  payload: { startTime: string; endTime: string; trainerId?: number; location?: string; reason?: string },
+  scope?: SeriesScope,
+) => invokeSupabaseFunction('scheduling-functions', 'POST', payload, { slug: withScope(`sessions/${id}/reschedule`, scope) });
+
+export type SessionReportGroupBy = 'student' | 'period' | 'category';
+
+export interface SessionReportFilters {
+  groupBy: SessionReportGroupBy;
+  from: string; // AAAA-MM-DD
+  to: string; // AAAA-MM-DD
+  studentId?: string;
+  trainerId?: string;
+  source?: 'Favale' | 'Pink';
+  status?: SessionDbStatus;
+}
+
+export interface SessionReportRow {
+  id: number;
+  startTime: Date;
+  endTime: Date;
+  durationMinutes: number;
+  studentId: number;
+  studentName: string;
+  trainerId: number;
+  trainerName: string;
+  source: 'Favale' | 'Pink';
+  status: SessionDbStatus;
+  location: string;
+  price: number | null;
+}
+
+export interface SessionReportGroup {
+  key: string;
+  label: string;
+  sessions: number;
+  minutes: number;
+  value: number;
+  unpriced: number;
+}
+
+export interface SessionReport {
+  summary: { totalSessions: number; totalMinutes: number; totalValue: number; unpricedSessions: number };
+  groups: SessionReportGroup[];
+  sessions: SessionReportRow[];
+}
+
+export const fetchSessionReport = async (filters: SessionReportFilters): Promise<SessionReport> => {
+  const params = Object.fromEntries(Object.entries(filters).filter(([, value]) => value)) as Record<string, string>;
+  const response = await invokeSupabaseFunction<{ data: SessionReport }>('scheduling-functions', 'GET', undefined, { slug: 'sessions/report', params });
+  return {
+    ...response.data,
+    sessions: response.data.sessions.map(s => ({ ...s, startTime: new Date(s.startTime), endTime: new Date(s.endTime) })),
+  };
+};
+
+// 90 -> "1h30", 60 -> "1h", 45 -> "45min"
+export const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}min`;
+  return rest ? `${hours}h${String(rest).padStart(2, '0')}` : `${hours}h`;
+};
@@ -0,0 +1,127 @@
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+import type { TrainerAvailabilitySlot, TrainerDetailRow, TrainerRow } from "@shared/schema";
+
+export type { TrainerAvailabilitySlot };
+
+export interface TrainerRecord {
+  id: number;
+  name: string;
+  email: string;
+  phone: string | null;
+  specialties: string[];
+  locations: string[];
+  calendarId: string | null;
+  active: boolean;
+}
+
+export interface TrainerTimeOffBlock {
+  id: number;
+  startsAt: Date;
+  endsAt: Date;
+  reason: string | null;
+}
+
+export interface TrainerDetail extends TrainerRecord {
+  availability: TrainerAvailabilitySlot[];
+  timeOff: TrainerTimeOffBlock[]; // Only current and upcoming blocks
+}
+
+export interface TrainerPayload {
+  name: string;
+  email: string;
+  phone?: string;
+  specialties?: string[];
+  locations?: string[];
+  calendarId?: string;
+  active?: boolean;
+}
+
+export interface TrainerSlotAvailability {
+  id: number;
+  name: string;
+  specialties: string[];
+  locations: string[];
+  available: boolean;
+  reasons: string[];
+}
+
+export interface TrainerSlotQuery {
+  startTime: string; // ISO
+  endTime: string; // ISO
+  location?: string;
+  specialty?: string;
+  excludeSessionId?: number;
+}
+
+export const WEEKDAY_LABELS = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+
+const toTrainerRecord = (t: TrainerRow): TrainerRecord => ({
+  id: t.id,
+  name: t.name,
+  email: t.email,
+  phone: t.phone,
+  specialties: t.specialties || [],
+  locations: t.locations || [],
+  calendarId: t.calendar_id,
+  active: t.active,
+});
+
+export const fetchTrainers = async (): Promise<TrainerRecord[]> => {
+  const response = await invokeSupabaseFunction<{ data: TrainerRow[] }>('scheduling-functions', 'GET', undefined, {
+    slug: 'trainers',
+    params: { limit: '500' },
+  });
+  return (response.data || []).map(toTrainerRecord);
+};
+
+export const fetchTrainer = async (id: number): Promise<TrainerDetail> => {
+  const response = await invokeSupabaseFunction<{ data: TrainerDetailRow }>('scheduling-functions', 'GET', undefined, { slug: `trainers/${id}` });
+  const t = response.data;
+  return {
+    ...toTrainerRecord(t),
+    availability: (t.availability || []).map(slot => ({
+      weekday: slot.weekday,
+      startTime: slot.start_time.slice(0, 5),
+      endTime: slot.end_time.slice(0, 5),
+    })),
+    timeOff: (t.timeOff || []).map(block => ({
+      id: block.id,
+      startsAt: new Date(block.starts_at),
+      endsAt: new Date(block.ends_at),
+      reason: block.reason,
+    })),
+  };
+};
+
+export const createTrainer = (payload: TrainerPayload) =>
+  invokeSupabaseFunction('scheduling-functions', 'POST', payload, { slug: 'trainers' });
+
+export const updateTrainer = (id: number, payload: Partial<TrainerPayload>) =>
+  invokeSupabaseFunction('scheduling-functions', 'PATCH', payload, { slug: `trainers/${id}` });
+
+export const deleteTrainer = (id: number) =>
+  invokeSupabaseFunction('scheduling-functions', 'DELETE', undefined, { slug: `trainers/${id}` });
+
+export const saveTrainerAvailability = (id: number, slots: TrainerAvailabilitySlot[]) =>
+  invokeSupabaseFunction('scheduling-functions', 'PUT', { slots }, { slug: `trainers/${id}/availability` });
+
+export const addTrainerTimeOff = async (id: number, payload: { startsAt: string; endsAt: string; reason?: string }) => {
+  const response = await invokeSupabaseFunction<{ data: unknown; affectedSessions: Array<{ id: number; start_time: string }> }>(
+    'scheduling-functions', 'POST', payload, { slug: `trainers/${id}/time-off` },
+  );
+  return response.affectedSessions || [];
+};
+
+export const deleteTrainerTimeOff = (trainerId: number, timeOffId: number) =>
+  invokeSupabaseFunction('scheduling-functions', 'DELETE', undefined, { slug: `trainers/${trainerId}/time-off/${timeOffId}` });
+
+export const fetchTrainersForSlot = async (query: TrainerSlotQuery): Promise<TrainerSlotAvailability[]> => {
+  const params = Object.fromEntries(
+    Object.entries(query).filter(([, value]) => value !== undefined && value !== '').map(([key, value]) => [key, String(value)]),
+  );
+  const response = await invokeSupabaseFunction<{ data: TrainerSlotAvailability[] }>('scheduling-functions', 'GET', undefined, {
+    slug: 'trainers/available',
+    params,
+  });
+  return response.data || [];
+};
@@ -19,13 +19,17 @@ import { Input } from "@/components/inputs/InputField"; // Updated
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select"; // Updated
 import { Separator } from "@/components/layout-helpers/separator"; // Updated
 import { toast } from "@/hooks/use-toast"; // Correct
-import { Loader2, PlusCircle, Trash2, Shield, Pencil } from "lucide-react";
+import { Loader2, PlusCircle, Trash2, Shield, Pencil, UserCheck, UserX } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, 
          DialogHeader, DialogTitle, DialogTrigger } from "@/components/feedback/dialog"; // Updated
 import { useQuery, useQueryClient as useTanstackQueryClient } from "@tanstack/react-query"; // Renamed to avoid conflict
 // Replace apiRequest, queryClient with Supabase specific ones
 import { invokeSupabaseFunction, getSupabaseQueryFn } from "@/lib/queryClient"; // Correct
 import AuditLogViewer from "@/features/admin/components/AuditLogViewer"; // Updated
+import GoogleCalendarConfig from "@/features/oauth/components/GoogleCalendarConfig";
+import CalendarSyncPanel from "@/features/oauth/components/CalendarSyncPanel";
+import LeadScoringConfig from "@/features/leads/components/LeadScoringConfig";
+import LeadAssignmentConfig from "@/features/leads/components/LeadAssignmentConfig";
 
 // Schema for changing password (if you implement this via an Edge Function)
 const changePasswordSchema = z.object({
@@ -71,6 +75,7 @@ type User = {
   username?: string; // From your profiles table
   email?: string; // From auth.users
   role?: string;  // From your profiles table
+  active?: boolean; // Inactive users cannot sign in and receive no leads
   created_at?: string;
   last_sign_in_at?: string;
 };
@@ -208,6 +213,29 @@ export default function ConfigPage() {
     }
   };
   
+  // Deactivating hands the user's open leads to other owners (see lead assignment settings)
+  const toggleUserActive = async (user: User) => {
+    const active = user.active === false;
+    if (!active && !confirm(`Desativar ${user.username || user.email}? O usuário não poderá entrar e seus leads em aberto serão redistribuídos.`)) return;
+
+    try {
+      const response = await invokeSupabaseFunction<{ meta?: { reassignedLeads?: number } }>("user-management", "PATCH", { active }, { slug: user.id });
+      const reassigned = response?.meta?.reassignedLeads ?? 0;
+      toast({
+        title: active ? "Usuário reativado" : "Usuário desativado",
+        description: active ? undefined : `${reassigned} lead(s) em aberto foram redistribuídos.`,
+      });
+      await tanstackQueryClient.invalidateQueries({ queryKey: ["userList"] });
+      await tanstackQueryClient.invalidateQueries({ queryKey: ["leadsList"] });
+    } catch (error) {
+      toast({
+        title: "Erro ao atualizar usuário",
+        description: error instanceof Error ? error.message : "Ocorreu um erro inesperado.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const deleteUser = async (userId: string) => {
     if (!confirm("Tem certeza que deseja excluir este usuário?")) return;
     
@@ -236,7 +264,7 @@ export default function ConfigPage() {
   return (
     <div className="p-6 space-y-6">
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-            <TabsList className={`grid w-full ${currentProfile?.role === 'admin' ? 'grid-cols-3' : 'grid-cols-1'} bg-gray-100 dark:bg-gray-800 p-1 rounded-xl`}>
+            <TabsList className={`grid w-full ${currentProfile?.role === 'admin' ? 'grid-cols-6' : 'grid-cols-1'} bg-gray-100 dark:bg-gray-800 p-1 rounded-xl`}>
               <TabsTrigger 
                 value="profile" 
                 className="rounded-lg data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700 data-[state=active]:shadow-sm font-medium transition-all"
@@ -257,6 +285,24 @@ export default function ConfigPage() {
                   >
                     Auditoria
                   </TabsTrigger>
+                  <TabsTrigger 
+                    value="integrations" 
+                    className="rounded-lg data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700 data-[state=active]:shadow-sm font-medium transition-all"
+                  >
+                    Integrações
+                  </TabsTrigger>
+                  <TabsTrigger 
+                    value="scoring" 
+                    className="rounded-lg data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700 data-[state=active]:shadow-sm font-medium transition-all"
+                  >
+                    Pontuação
+                  </TabsTrigger>
+                  <TabsTrigger 
+                    value="assignment" 
+                    className="rounded-lg data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700 data-[state=active]:shadow-sm font-medium transition-all"
+                  >
+                    Distribuição
+                  </TabsTrigger>
                 </>
               )}
             </TabsList>
@@ -496,7 +542,12 @@ export default function ConfigPage() {
                           {users.length > 0 ? (
                             users.map((user) => (
                               <tr key={user.id} className="border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
-                                <td className="py-4 px-6 font-medium text-gray-900 dark:text-white">{user.username || 'N/A'}</td>
+                                <td className="py-4 px-6 font-medium text-gray-900 dark:text-white">
+                                  {user.username || 'N/A'}
+                                  {user.active === false && (
+                                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">Inativo</span>
+                                  )}
+                                </td>
                                 <td className="py-4 px-6 text-gray-600 dark:text-gray-300">{user.email || 'N/A'}</td>
                                 <td className="py-4 px-6">
                                   <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
@@ -525,6 +576,16 @@ export default function ConfigPage() {
                                   >
                                     <Pencil className="h-4 w-4" />
                                   </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => toggleUserActive(user)}
+                                    disabled={user.id === currentUserId}
+                                    title={user.active === false ? "Reativar usuário" : "Desativar usuário"}
+                                    className="h-9 w-9 p-0 mr-1"
+                                  >
+                                    {user.active === false ? <UserCheck className="h-4 w-4" /> : <UserX className="h-4 w-4" />}
+                                  </Button>
                                   <Button
                                     variant="ghost"
                                     size="sm"
@@ -651,6 +712,25 @@ export default function ConfigPage() {
                 </Card>
               </TabsContent>
             )}
+
+            {currentProfile?.role === 'admin' && (
+              <TabsContent value="integrations" className="space-y-6">
+                <GoogleCalendarConfig />
+                <CalendarSyncPanel />
+              </TabsContent>
+            )}
+
+            {currentProfile?.role === 'admin' && (
+              <TabsContent value="scoring" className="space-y-6">
+                <LeadScoringConfig />
+              </TabsContent>
+            )}
+
+            {currentProfile?.role === 'admin' && (
+              <TabsContent value="assignment" className="space-y-6">
+                <LeadAssignmentConfig />
+              </TabsContent>
+            )}
           </Tabs>
     </div>
   );
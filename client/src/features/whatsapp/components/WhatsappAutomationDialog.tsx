@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { whatsappAutomationRuleValidationSchema } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/inputs/Button";
+import { Input } from "@/components/inputs/InputField";
+import { Label } from "@/components/inputs/label";
+import { Switch } from "@/components/inputs/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/feedback/dialog";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import { useAssignableUsers } from "@/features/leads/hooks/useLeads";
+import {
+  AUTOMATION_TRIGGER_LABELS, WhatsappAutomationRule, WhatsappAutomationRuleInput, WhatsappAutomationTrigger,
+  saveWhatsappAutomation,
+} from "../services/whatsappAutomationServices";
+import { useWhatsappTemplates } from "../hooks/useWhatsapp";
+
+interface WhatsappAutomationDialogProps {
+  rule: WhatsappAutomationRule | "new" | null; // null = closed
+  nextPosition: number;
+  onClose: () => void;
+}
+
+// Select value for "no template" / "the default assignee" (Radix selects don't accept an empty value)
+const NONE = "none";
+
+const emptyRule: WhatsappAutomationRuleInput = {
+  name: "",
+  triggerType: "keyword",
+  triggerValue: "",
+  templateId: null,
+  tag: null,
+  taskTitle: null,
+  taskAssigneeId: null,
+  taskDueHours: 4,
+  cooldownMinutes: 1440,
+  position: 0,
+  active: true,
+};
+
+const TRIGGER_HINTS: Record<WhatsappAutomationTrigger, string> = {
+  keyword: "Dispara quando a mensagem contém uma das palavras, separadas por vírgula. Acentos e maiúsculas são ignorados.",
+  regex: "Dispara quando a mensagem corresponde à expressão (sem diferenciar maiúsculas).",
+  first_contact: "Dispara na primeira mensagem recebida do lead.",
+  outside_hours: "Dispara para mensagens recebidas fora do horário de atendimento cadastrado abaixo.",
+};
+
+export default function WhatsappAutomationDialog({ rule, nextPosition, onClose }: WhatsappAutomationDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [form, setForm] = useState<WhatsappAutomationRuleInput>(emptyRule);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isNew = rule === "new";
+
+  const { data: templates = [] } = useWhatsappTemplates(true);
+  const { data: assignableUsers = [] } = useAssignableUsers();
+
+  useEffect(() => {
+    if (rule === null) return;
+    if (rule === "new") {
+      setForm({ ...emptyRule, position: nextPosition });
+    } else {
+      const { id: _id, templateName: _templateName, templateActive: _templateActive, ...values } = rule;
+      setForm(values);
+    }
+  }, [rule, nextPosition]);
+
+  const update = (changes: Partial<WhatsappAutomationRuleInput>) => setForm(prev => ({ ...prev, ...changes }));
+  const hasTriggerValue = form.triggerType === "keyword" || form.triggerType === "regex";
+  // The rule's template may have been deactivated since; it stays selectable so saving doesn't drop it
+  const currentTemplate = rule && rule !== "new" && rule.templateId && !templates.some(template => template.id === rule.templateId)
+    ? { id: rule.templateId, name: `${rule.templateName ?? "Template"} (inativo)` }
+    : null;
+
+  const handleSubmit = async () => {
+    const validation = whatsappAutomationRuleValidationSchema.safeParse({
+      ...form,
+      triggerValue: hasTriggerValue ? form.triggerValue : "",
+      tag: form.tag?.trim() || null,
+      taskTitle: form.taskTitle?.trim() || null,
+    });
+    if (!validation.success) {
+      toast({ title: "Verifique a regra", description: validation.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await saveWhatsappAutomation(validation.data, isNew ? undefined : (rule as WhatsappAutomationRule).id);
+      await queryClient.invalidateQueries({ queryKey: ["whatsappAutomations"] });
+      toast({ title: "Regra salva", description: `"${validation.data.name}" ${validation.data.active ? "está ativa" : "está inativa"}.` });
+      onClose();
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível salvar a regra."), variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={rule !== null} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? "Nova automação" : "Editar automação"}</DialogTitle>
+          <DialogDescription>
+            Cada mensagem recebida passa pelas regras ativas, na ordem. A regra dispara no máximo uma vez por lead dentro
+            do intervalo definido.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="automation-name">Nome</Label>
+              <Input id="automation-name" value={form.name} onChange={(e) => update({ name: e.target.value })} placeholder="Dúvidas sobre preços" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="automation-position">Ordem</Label>
+              <Input id="automation-position" type="number" value={form.position} onChange={(e) => update({ position: Number(e.target.value) })} />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Gatilho</Label>
+            <Select value={form.triggerType} onValueChange={(triggerType) => update({ triggerType: triggerType as WhatsappAutomationTrigger })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {Object.entries(AUTOMATION_TRIGGER_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            {hasTriggerValue && (
+              <Input
+                value={form.triggerValue}
+                onChange={(e) => update({ triggerValue: e.target.value })}
+                placeholder={form.triggerType === "keyword" ? "preço, valor, quanto custa" : "hor[aá]rio|funciona"}
+                className={form.triggerType === "regex" ? "font-mono" : undefined}
+              />
+            )}
+            <p className="text-xs text-muted-foreground">{TRIGGER_HINTS[form.triggerType]}</p>
+          </div>
+
+          <div className="space-y-3 rounded-md border p-3">
+            <p className="text-sm font-medium">Ações</p>
+            <div className="space-y-1">
+              <Label>Responder com template</Label>
+              <Select value={form.templateId ? String(form.templateId) : NONE} onValueChange={(value) => update({ templateId: value === NONE ? null : Number(value) })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Não enviar</SelectItem>
+                  {currentTemplate && <SelectItem value={String(currentTemplate.id)}>{currentTemplate.name}</SelectItem>}
+                  {templates.map(template => <SelectItem key={template.id} value={String(template.id)}>{template.displayName}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="automation-tag">Adicionar etiqueta ao lead</Label>
+              <Input id="automation-tag" value={form.tag ?? ""} onChange={(e) => update({ tag: e.target.value })} placeholder="Interesse em planos" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="automation-task">Criar tarefa</Label>
+              <Input id="automation-task" value={form.taskTitle ?? ""} onChange={(e) => update({ taskTitle: e.target.value })} placeholder="Retornar contato" />
+            </div>
+            {form.taskTitle?.trim() && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Responsável pela tarefa</Label>
+                  <Select value={form.taskAssigneeId || NONE} onValueChange={(value) => update({ taskAssigneeId: value === NONE ? null : value })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Responsável pelo lead</SelectItem>
+                      {assignableUsers.map(member => <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="automation-due">Prazo (horas)</Label>
+                  <Input id="automation-due" type="number" min={1} max={720} value={form.taskDueHours} onChange={(e) => update({ taskDueHours: Number(e.target.value) })} />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="automation-cooldown">Intervalo por lead (minutos)</Label>
+            <Input id="automation-cooldown" type="number" min={1} value={form.cooldownMinutes} onChange={(e) => update({ cooldownMinutes: Number(e.target.value) })} />
+            <p className="text-xs text-muted-foreground">Depois de disparar para um lead, a regra aguarda esse tempo antes de disparar de novo para ele (1440 = 1 dia).</p>
+          </div>
+
+          <label className="flex items-center justify-between gap-4 text-sm">
+            <span>
+              <span className="font-medium block">Ativa</span>
+              <span className="text-muted-foreground">Regras inativas não são avaliadas.</span>
+            </span>
+            <Switch checked={form.active} onCheckedChange={(active) => update({ active })} />
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Cancelar</Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>{isSubmitting ? "Salvando..." : "Salvar"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
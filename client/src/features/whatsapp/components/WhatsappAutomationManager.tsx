@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/features/auth/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/data-display/Card";
+import { Badge } from "@/components/data-display/badge";
+import { Skeleton } from "@/components/data-display/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/data-display/table";
+import { Button } from "@/components/inputs/Button";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import {
+  AUTOMATION_RUN_STATUS_LABELS, AUTOMATION_TRIGGER_LABELS, WhatsappAutomationRule, deleteWhatsappAutomation,
+} from "../services/whatsappAutomationServices";
+import { useWhatsappAutomationRuns, useWhatsappAutomations } from "../hooks/useWhatsapp";
+import WhatsappAutomationDialog from "./WhatsappAutomationDialog";
+
+const ruleActions = (rule: WhatsappAutomationRule) => [
+  rule.templateId && `Template ${rule.templateName ?? ""}${rule.templateActive ? "" : " (inativo)"}`,
+  rule.tag && `Etiqueta "${rule.tag}"`,
+  rule.taskTitle && `Tarefa "${rule.taskTitle}"`,
+].filter(Boolean).join(" · ");
+
+export default function WhatsappAutomationManager() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === "admin";
+  const [editing, setEditing] = useState<WhatsappAutomationRule | "new" | null>(null);
+
+  const { data: rules = [], isLoading } = useWhatsappAutomations();
+  const { data: runs = [] } = useWhatsappAutomationRuns();
+
+  const handleDelete = async (rule: WhatsappAutomationRule) => {
+    if (!window.confirm(`Excluir a automação "${rule.name}"? O histórico de execuções dela também é excluído.`)) return;
+    try {
+      await deleteWhatsappAutomation(rule.id);
+      await queryClient.invalidateQueries({ queryKey: ["whatsappAutomations"] });
+      await queryClient.invalidateQueries({ queryKey: ["whatsappAutomationRuns"] });
+      toast({ title: "Automação excluída" });
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível excluir a automação."), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Automações</CardTitle>
+            <CardDescription>
+              Respostas automáticas para mensagens recebidas: por palavra-chave, no primeiro contato ou fora do horário de
+              atendimento. Podem enviar um template, etiquetar o lead e criar uma tarefa.
+            </CardDescription>
+          </div>
+          {isAdmin && (
+            <Button size="sm" className="shrink-0" onClick={() => setEditing("new")}>
+              <Plus className="h-4 w-4 mr-1" />
+              Nova automação
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">Nenhuma automação cadastrada.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Regra</TableHead>
+                <TableHead>Ações</TableHead>
+                <TableHead>Status</TableHead>
+                {isAdmin && <TableHead className="w-20" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map(rule => (
+                <TableRow key={rule.id}>
+                  <TableCell>
+                    <div className="font-medium">{rule.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {AUTOMATION_TRIGGER_LABELS[rule.triggerType]}{rule.triggerValue && `: ${rule.triggerValue}`}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{ruleActions(rule)}</TableCell>
+                  <TableCell>
+                    <Badge variant={rule.active ? "default" : "outline"}>{rule.active ? "Ativa" : "Inativa"}</Badge>
+                  </TableCell>
+                  {isAdmin && (
+                    <TableCell>
+                      <div className="flex gap-1 justify-end">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditing(rule)} title="Editar">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-red-600" onClick={() => handleDelete(rule)} title="Excluir">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {runs.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Execuções recentes</p>
+            <ul className="max-h-64 overflow-y-auto divide-y text-sm">
+              {runs.map(run => (
+                <li key={run.id} className="flex items-start justify-between gap-4 py-2">
+                  <div className="min-w-0">
+                    <div><span className="font-medium">{run.ruleName}</span> para {run.leadName}</div>
+                    {run.error && <div className="text-xs text-red-600 break-words">{run.error}</div>}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{format(new Date(run.createdAt), "dd/MM HH:mm", { locale: ptBR })}</span>
+                    <Badge variant={run.status === "failed" ? "destructive" : run.status === "done" ? "secondary" : "outline"}>
+                      {AUTOMATION_RUN_STATUS_LABELS[run.status]}
+                    </Badge>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+      <WhatsappAutomationDialog
+        rule={editing}
+        nextPosition={rules.reduce((max, rule) => Math.max(max, rule.position + 1), 0)}
+        onClose={() => setEditing(null)}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { WhatsappTemplateParam, whatsappBroadcastValidationSchema, whatsappTemplatePlaceholders } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/inputs/Button";
+import { Input } from "@/components/inputs/InputField";
+import { Label } from "@/components/inputs/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/feedback/dialog";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import { createWhatsappBroadcast } from "../services/whatsappBroadcastServices";
+import { SAMPLE_TEMPLATE_LEAD, templateParamValue } from "../services/whatsappTemplateServices";
+import { useWhatsappTemplates } from "../hooks/useWhatsapp";
+import WhatsappTemplatePreview from "./WhatsappTemplatePreview";
+import WhatsappTemplateParamsEditor, { fitTemplateParams } from "./WhatsappTemplateParamsEditor";
+
+interface WhatsappBroadcastDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  leadIds: number[];
+  onCreated?: () => void;
+}
+
+const emptyForm = { name: "", templateId: "", intervalSeconds: "20" };
+
+const formatDuration = (seconds: number) => {
+  if (seconds < 3600) return `${Math.max(1, Math.round(seconds / 60))} min`;
+  return `${Math.floor(seconds / 3600)} h ${Math.round((seconds % 3600) / 60)} min`;
+};
+
+export default function WhatsappBroadcastDialog({ open, onOpenChange, leadIds, onCreated }: WhatsappBroadcastDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [form, setForm] = useState(emptyForm);
+  const [bodyParams, setBodyParams] = useState<WhatsappTemplateParam[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: templates = [] } = useWhatsappTemplates(true);
+  const selectedTemplate = templates.find(template => String(template.id) === form.templateId);
+
+  useEffect(() => {
+    if (open) {
+      setForm(emptyForm);
+      setBodyParams([]);
+    }
+  }, [open]);
+
+  const intervalSeconds = parseInt(form.intervalSeconds) || 0;
+  const placeholderCount = selectedTemplate ? whatsappTemplatePlaceholders(selectedTemplate.body).length : 0;
+
+  // Starts from the template's own mapping, which can be changed for this campaign
+  const handleTemplateChange = (templateId: string) => {
+    setForm(prev => ({ ...prev, templateId }));
+    const template = templates.find(t => String(t.id) === templateId);
+    setBodyParams(template ? fitTemplateParams(template.bodyParams, whatsappTemplatePlaceholders(template.body).length) : []);
+  };
+
+  const handleSubmit = async () => {
+    const validation = whatsappBroadcastValidationSchema.safeParse({
+      name: form.name,
+      templateId: selectedTemplate?.id,
+      templateName: selectedTemplate?.name ?? "",
+      languageCode: selectedTemplate?.languageCode,
+      bodyParams,
+      intervalSeconds,
+      leadIds,
+    });
+    if (!validation.success) {
+      toast({ title: "Verifique a campanha", description: validation.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const broadcast = await createWhatsappBroadcast(validation.data);
+      await queryClient.invalidateQueries({ queryKey: ["whatsappBroadcasts"] });
+      toast({
+        title: "Campanha criada",
+        description: `${broadcast.stats.queued} mensagem(ns) na fila${broadcast.stats.skipped ? `, ${broadcast.stats.skipped} lead(s) sem telefone válido ignorado(s)` : ""}.`,
+      });
+      onOpenChange(false);
+      onCreated?.();
+      navigate(`/whatsapp/campanhas?id=${broadcast.id}`);
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível criar a campanha."), variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSubmitting && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Enviar WhatsApp em massa</DialogTitle>
+          <DialogDescription>
+            Um template aprovado será enviado para {leadIds.length} lead(s), um de cada vez, respeitando o intervalo
+            entre as mensagens para evitar o bloqueio do número.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="broadcast-name">Nome da campanha</Label>
+            <Input id="broadcast-name" value={form.name} onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))} placeholder="Ex.: Black Friday Pink" />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Template</Label>
+            <Select value={form.templateId} onValueChange={handleTemplateChange}>
+              <SelectTrigger><SelectValue placeholder="Escolha um template" /></SelectTrigger>
+              <SelectContent>
+                {templates.map(template => <SelectItem key={template.id} value={String(template.id)}>{template.displayName}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            {selectedTemplate && (
+              <p className="text-xs text-muted-foreground">{selectedTemplate.description}</p>
+            )}
+          </div>
+
+          {selectedTemplate && (
+            <div className="space-y-2">
+              <Label>Variáveis do texto</Label>
+              <WhatsappTemplateParamsEditor count={placeholderCount} params={bodyParams} onChange={setBodyParams} />
+            </div>
+          )}
+
+          {selectedTemplate && (
+            <div className="space-y-1">
+              <Label>Prévia com dados de exemplo</Label>
+              <WhatsappTemplatePreview
+                template={selectedTemplate}
+                values={bodyParams.map(param => templateParamValue(SAMPLE_TEMPLATE_LEAD, param))}
+              />
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="broadcast-interval">Intervalo entre mensagens (segundos)</Label>
+            <Input
+              id="broadcast-interval"
+              type="number"
+              min={5}
+              max={600}
+              className="w-[120px]"
+              value={form.intervalSeconds}
+              onChange={(e) => setForm(prev => ({ ...prev, intervalSeconds: e.target.value }))}
+            />
+            {intervalSeconds > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Duração estimada: {formatDuration(leadIds.length * intervalSeconds)}.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>Cancelar</Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !selectedTemplate}>
+            {isSubmitting ? "Criando..." : "Iniciar campanha"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
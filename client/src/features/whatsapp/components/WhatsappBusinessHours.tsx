@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/features/auth/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/data-display/Card";
+import { Skeleton } from "@/components/data-display/skeleton";
+import { Button } from "@/components/inputs/Button";
+import { Input } from "@/components/inputs/InputField";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import { WEEKDAY_LABELS } from "@/features/scheduling/services/trainerServices";
+import { WhatsappBusinessHoursSlot, saveWhatsappBusinessHours } from "../services/whatsappAutomationServices";
+import { useWhatsappBusinessHours } from "../hooks/useWhatsapp";
+
+// Weekly slots used by the "fora do horário" automations; edited locally and saved as a whole
+export default function WhatsappBusinessHours() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === "admin";
+  const [slots, setSlots] = useState<WhatsappBusinessHoursSlot[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const { data: savedSlots, isLoading } = useWhatsappBusinessHours();
+
+  useEffect(() => {
+    if (savedSlots) setSlots(savedSlots);
+  }, [savedSlots]);
+
+  const updateSlot = (index: number, changes: Partial<WhatsappBusinessHoursSlot>) =>
+    setSlots(current => current.map((slot, i) => i === index ? { ...slot, ...changes } : slot));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveWhatsappBusinessHours([...slots].sort((a, b) => a.weekday - b.weekday || a.startTime.localeCompare(b.startTime)));
+      await queryClient.invalidateQueries({ queryKey: ["whatsappBusinessHours"] });
+      toast({ title: "Horário de atendimento salvo" });
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível salvar o horário de atendimento."), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Horário de atendimento</CardTitle>
+        <CardDescription>
+          Usado pelas automações "fora do horário de atendimento", no horário de Brasília. Sem nenhum horário
+          cadastrado, o estúdio é considerado sempre aberto.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : slots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum horário cadastrado.</p>
+        ) : (
+          slots.map((slot, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select value={String(slot.weekday)} onValueChange={(value) => updateSlot(index, { weekday: Number(value) })} disabled={!isAdmin}>
+                <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {WEEKDAY_LABELS.map((label, weekday) => <SelectItem key={weekday} value={String(weekday)}>{label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Input type="time" value={slot.startTime} onChange={(e) => updateSlot(index, { startTime: e.target.value })} className="w-32" disabled={!isAdmin} />
+              <span className="text-sm text-muted-foreground">às</span>
+              <Input type="time" value={slot.endTime} onChange={(e) => updateSlot(index, { endTime: e.target.value })} className="w-32" disabled={!isAdmin} />
+              {isAdmin && (
+                <Button variant="ghost" size="icon" onClick={() => setSlots(current => current.filter((_, i) => i !== index))} title="Remover horário">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+        {isAdmin && (
+          <div className="flex justify-between">
+            <Button variant="outline" size="sm" onClick={() => setSlots(current => [...current, { weekday: 1, startTime: "08:00", endTime: "18:00" }])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Adicionar horário
+            </Button>
+            <Button onClick={handleSave} disabled={saving || isLoading}>{saving ? "Salvando..." : "Salvar horário"}</Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,13 @@
 import { useState, useEffect, useRef, FormEvent } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Lead, WhatsappMessage } from '@/types'; // Updated
-import { apiRequest } from '@/lib/queryClient';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Lead } from '@/types'; // Updated
 import { useToast } from '@/hooks/use-toast';
+import { getSessionErrorMessage } from '@/features/scheduling/services/sessionServices';
+import { sendWhatsappMessage } from '../services/whatsappServices';
+import {
+  WHATSAPP_MEDIA_RULES, WhatsappMediaType, createWhatsappThumbnail, getWhatsappMediaType, sendWhatsappMedia, validateWhatsappMedia,
+} from '../services/whatsappMediaServices';
+import { useLeadMessages } from '../hooks/useWhatsapp';
 import { 
   Paperclip, Send, Image, Mic, AlertCircle, MoreVertical, ChevronLeft, 
   Video, FileText, X, Check, RotateCw 
@@ -23,6 +28,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/overlays/dropdown-menu"; // Updated
 import WhatsappTemplateSelector from './WhatsappTemplateSelector';
+import WhatsappMessageContent from './WhatsappMessageContent';
 
 interface WhatsappChatProps {
   lead: Lead;
@@ -32,110 +38,77 @@ interface WhatsappChatProps {
 const WhatsappChat = ({ lead, onClose }: WhatsappChatProps) => {
   const [message, setMessage] = useState('');
   const [attaching, setAttaching] = useState(false);
-  const [showMediaDialog, setShowMediaDialog] = useState(false);
-  const [mediaType, setMediaType] = useState<'image' | 'document' | 'audio' | 'video'>('image');
-  const [mediaUrl, setMediaUrl] = useState('');
+  // File picked from the attach buttons, shown in the dialog before sending
+  const [mediaFile, setMediaFile] = useState<File | null>(null);
+  const [mediaThumbnail, setMediaThumbnail] = useState<Blob | null>(null);
+  const [mediaPreviewUrl, setMediaPreviewUrl] = useState<string | null>(null);
   const [mediaCaption, setMediaCaption] = useState('');
-  const [documentName, setDocumentName] = useState('');
-  // Missing state variables for image dialog
-  const [showImageDialog, setShowImageDialog] = useState(false);
-  const [imageUrl, setImageUrl] = useState('');
-  const [imageCaption, setImageCaption] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const endOfMessagesRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
   // Buscar mensagens do lead
-  const { data: messages = [], isLoading, error } = useQuery<WhatsappMessage[]>({
-    queryKey: [`/api/whatsapp/lead/${lead.id}`],
-    refetchInterval: 10000, // Atualizar a cada 10 segundos
-  });
+  const { data: messages = [], isLoading, error } = useLeadMessages(lead.id);
 
-  // Function to reset media dialog state
   const resetMediaDialog = () => {
-    setShowImageDialog(false);
-    setImageUrl('');
-    setImageCaption('');
-    setShowMediaDialog(false);
-    setMediaUrl('');
+    setMediaFile(null);
+    setMediaThumbnail(null);
     setMediaCaption('');
-    setDocumentName('');
   };
 
-  // Error handler for media sending
-  const handleSendMediaError = (error: any) => {
-    console.error('Erro ao enviar mídia:', error);
-    
-    let errorMessage = 'Não foi possível enviar a mídia';
-    
-    // Verificar se é um erro específico de número não autorizado
-    if (error?.response?.data?.isUnauthorizedNumber) {
-      errorMessage = `Número ${lead.phone} não autorizado. Apenas números verificados podem receber mensagens no ambiente de teste.`;
-    } else if (error?.response?.data?.error) {
-      // Usar mensagem de erro da API quando disponível
-      errorMessage = error.response.data.error;
-    }
-    
-    toast({
-      title: 'Erro no envio de mídia',
-      description: errorMessage,
-      variant: 'destructive',
-    });
+  // Object URL of the picked file for the dialog preview (audio plays from it, images and videos use the thumbnail)
+  useEffect(() => {
+    if (!mediaFile) return;
+    const url = URL.createObjectURL(mediaThumbnail ?? mediaFile);
+    setMediaPreviewUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setMediaPreviewUrl(null);
+    };
+  }, [mediaFile, mediaThumbnail]);
+
+  // Failed sends are stored with status "failed", so the thread is refreshed either way
+  const refreshMessages = () => {
+    queryClient.invalidateQueries({ queryKey: ['whatsappMessages', lead.id] });
+    queryClient.invalidateQueries({ queryKey: ['whatsappConversations'] });
   };
 
   // Mutação para enviar mensagem de texto
   const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
-      return apiRequest('POST', '/api/whatsapp/send', {
-        leadId: lead.id,
-        direction: 'outgoing',
-        content,
-        status: 'sent',
-      });
-    },
+    mutationFn: (content: string) => sendWhatsappMessage(lead.id, content),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/whatsapp/lead/${lead.id}`] });
       setMessage('');
     },
-    onError: (error: any) => {
-      console.error('Erro ao enviar mensagem:', error);
-      
-      let errorMessage = 'Não foi possível enviar a mensagem';
-      
-      // Verificar se é um erro específico de número não autorizado
-      if (error?.response?.data?.isUnauthorizedNumber) {
-        errorMessage = `Número ${lead.phone} não autorizado. Apenas números verificados podem receber mensagens no ambiente de teste.`;
-      } else if (error?.response?.data?.error) {
-        // Usar mensagem de erro da API quando disponível
-        errorMessage = error.response.data.error;
-      }
-      
+    onError: (error) => {
       toast({
         title: 'Erro no envio',
-        description: errorMessage,
+        description: getSessionErrorMessage(error, 'Não foi possível enviar a mensagem'),
         variant: 'destructive',
       });
     },
+    onSettled: refreshMessages,
   });
   
-  // Mutação para enviar imagem
-  const sendImageMutation = useMutation({
-    mutationFn: async ({ url, caption }: { url: string; caption: string }) => {
-      return apiRequest('POST', '/api/whatsapp/send-image', {
-        leadId: lead.id,
-        imageUrl: url,
-        caption
-      });
-    },
+  // Mutação para enviar mídia (upload para o Storage e envio pela Evolution)
+  const sendMediaMutation = useMutation({
+    mutationFn: ({ file, caption, thumbnail }: { file: File; caption: string; thumbnail: Blob | null }) =>
+      sendWhatsappMedia(lead.id, file, caption, thumbnail),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/whatsapp/lead/${lead.id}`] });
       resetMediaDialog();
       toast({
-        title: 'Imagem enviada',
-        description: 'Imagem enviada com sucesso'
+        title: 'Mídia enviada',
+        description: 'Arquivo enviado com sucesso'
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erro no envio de mídia',
+        description: getSessionErrorMessage(error, 'Não foi possível enviar a mídia'),
+        variant: 'destructive',
       });
     },
-    onError: handleSendMediaError
+    onSettled: refreshMessages,
   });
 
   // Rolar para o final das mensagens quando novas mensagens chegarem
@@ -145,54 +118,6 @@ const WhatsappChat = ({ lead, onClose }: WhatsappChatProps) => {
     }
   }, [messages]);
   
-  // Verificar status das mensagens recentes periodicamente
-  useEffect(() => {
-    if (!messages.length) return;
-    
-    // Função para verificar status das mensagens enviadas recentemente
-    const checkRecentMessageStatus = async () => {
-      // Selecionar mensagens enviadas nas últimas 24 horas que têm messageId e não estão com status final
-      const recentMessages = messages.filter(msg => {
-        // Verifica se tem messageId, é de saída e não está em status final
-        if (!msg.messageId || msg.direction !== 'outgoing') return false;
-        if (msg.status === 'read' || msg.status === 'failed') return false;
-        
-        // Verifica se é recente (últimas 24 horas)
-        const messageTime = new Date(msg.timestamp).getTime();
-        const oneDayAgo = Date.now() - (24 * 60 * 60 * 1000);
-        return messageTime > oneDayAgo;
-      });
-      
-      // Verificar status de cada mensagem
-      for (const message of recentMessages) {
-        try {
-          const response = await fetch(`/api/whatsapp/message-status/${message.messageId}`);
-          if (response.ok) {
-            const data = await response.json();
-            if (data.success && data.status !== message.status) {
-              // Se o status mudou, atualizar as mensagens
-              queryClient.invalidateQueries({ queryKey: [`/api/whatsapp/lead/${lead.id}`] });
-              break; // Uma atualização é suficiente para recarregar todas as mensagens
-            }
-          }
-        } catch (error) {
-          console.warn('Erro ao verificar status da mensagem:', error);
-        }
-      }
-    };
-    
-    // Verificar inicialmente após 10 segundos
-    const initialTimeout = setTimeout(checkRecentMessageStatus, 10000);
-    
-    // Depois verificar a cada 30 segundos
-    const interval = setInterval(checkRecentMessageStatus, 30000);
-    
-    return () => {
-      clearTimeout(initialTimeout);
-      clearInterval(interval);
-    };
-  }, [messages, lead.id, queryClient]);
-
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -201,22 +126,33 @@ const WhatsappChat = ({ lead, onClose }: WhatsappChatProps) => {
     }
   };
   
-  const handleSendImage = () => {
-    if (!imageUrl) {
-      toast({
-        title: 'URL da imagem obrigatória',
-        description: 'Por favor, insira uma URL válida para a imagem',
-        variant: 'destructive'
-      });
+  const pickFile = (type: WhatsappMediaType) => {
+    if (!fileInputRef.current) return;
+    fileInputRef.current.accept = WHATSAPP_MEDIA_RULES[type].mimetypes.join(',');
+    fileInputRef.current.click();
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const validationError = validateWhatsappMedia(file);
+    if (validationError) {
+      toast({ title: 'Arquivo inválido', description: validationError, variant: 'destructive' });
       return;
     }
-    
-    sendImageMutation.mutate({ 
-      url: imageUrl, 
-      caption: imageCaption 
-    });
+    setAttaching(false);
+    setMediaThumbnail(await createWhatsappThumbnail(file));
+    setMediaFile(file);
   };
 
+  const handleSendMedia = () => {
+    if (!mediaFile) return;
+    sendMediaMutation.mutate({ file: mediaFile, caption: mediaCaption.trim(), thumbnail: mediaThumbnail });
+  };
+
+  const mediaFileType = mediaFile ? getWhatsappMediaType(mediaFile) : null;
+
   const formatTime = (timestamp: string | Date) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -301,23 +237,7 @@ const WhatsappChat = ({ lead, onClose }: WhatsappChatProps) => {
               <div 
                 className={`max-w-xs md:max-w-md rounded-lg p-3 ${msg.direction === 'outgoing' ? 'bg-primary text-primary-foreground rounded-br-none' : 'bg-gray-100 dark:bg-muted text-gray-900 dark:text-muted-foreground rounded-bl-none'}`}
               >
-                {msg.mediaUrl && msg.mediaType === 'image' ? (
-                  <div className="space-y-2">
-                    <img 
-                      src={msg.mediaUrl} 
-                      alt="Imagem" 
-                      className="max-w-full rounded-md"
-                      onError={(e) => {
-                        e.currentTarget.src = 'https://via.placeholder.com/300x200?text=Erro+ao+carregar+imagem';
-                      }} 
-                    />
-                    {msg.content && msg.content !== '[Imagem enviada]' && (
-                      <p className="whitespace-pre-wrap break-words text-sm">{msg.content}</p>
-                    )}
-                  </div>
-                ) : (
-                  <p className="whitespace-pre-wrap break-words text-sm">{msg.content}</p>
-                )}
+                <WhatsappMessageContent message={msg} />
                 <div className="text-xs opacity-80 text-right mt-1 flex justify-end items-center">
                   {formatTime(msg.timestamp)}
                   {msg.direction === 'outgoing' && (
@@ -326,6 +246,10 @@ const WhatsappChat = ({ lead, onClose }: WhatsappChatProps) => {
                         <span className="text-blue-400">✓✓</span>
                       ) : msg.status === 'delivered' ? (
                         <span>✓✓</span>
+                      ) : msg.status === 'failed' ? (
+                        <span className="text-red-300" title={msg.errorMessage || 'Falha no envio'}>⚠</span>
+                      ) : msg.status === 'pending' ? (
+                        <span className="opacity-50">⌛</span>
                       ) : (
                         <span>✓</span>
                       )}
@@ -360,18 +284,13 @@ const WhatsappChat = ({ lead, onClose }: WhatsappChatProps) => {
           </Tooltip>
         </TooltipProvider>
         
+        <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileSelected} />
         {attaching && (
           <div className="flex space-x-1">
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
-                  <Button 
-                    type="button" 
-                    variant="ghost" 
-                    size="icon" 
-                    className="h-9 w-9"
-                    onClick={() => setShowImageDialog(true)}
-                  >
+                  <Button type="button" variant="ghost" size="icon" className="h-9 w-9" onClick={() => pickFile('image')}>
                     <Image size={18} className="text-muted-foreground" />
                   </Button>
                 </TooltipTrigger>
@@ -380,11 +299,24 @@ const WhatsappChat = ({ lead, onClose }: WhatsappChatProps) => {
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
-            
+
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
-                  <Button type="button" variant="ghost" size="icon" className="h-9 w-9">
+                  <Button type="button" variant="ghost" size="icon" className="h-9 w-9" onClick={() => pickFile('video')}>
+                    <Video size={18} className="text-muted-foreground" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent side="top">
+                  <p>Enviar vídeo</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button type="button" variant="ghost" size="icon" className="h-9 w-9" onClick={() => pickFile('audio')}>
                     <Mic size={18} className="text-muted-foreground" />
                   </Button>
                 </TooltipTrigger>
@@ -393,6 +325,19 @@ const WhatsappChat = ({ lead, onClose }: WhatsappChatProps) => {
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
+
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button type="button" variant="ghost" size="icon" className="h-9 w-9" onClick={() => pickFile('document')}>
+                    <FileText size={18} className="text-muted-foreground" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent side="top">
+                  <p>Enviar PDF</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
           </div>
         )}
         
@@ -431,63 +376,50 @@ const WhatsappChat = ({ lead, onClose }: WhatsappChatProps) => {
         </TooltipProvider>
       </form>
       
-      {/* Dialog para upload de imagem */}
-      <Dialog open={showImageDialog} onOpenChange={setShowImageDialog}>
+      {/* Dialog de envio de mídia */}
+      <Dialog open={!!mediaFile} onOpenChange={(open) => { if (!open && !sendMediaMutation.isPending) resetMediaDialog(); }}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
-            <DialogTitle>Enviar Imagem</DialogTitle>
+            <DialogTitle>Enviar {mediaFileType ? WHATSAPP_MEDIA_RULES[mediaFileType].label.toLowerCase() : 'arquivo'}</DialogTitle>
           </DialogHeader>
-          <div className="space-y-4 py-2">
-            <div className="space-y-2">
-              <Label htmlFor="imageUrl">URL da Imagem</Label>
-              <Input
-                id="imageUrl"
-                placeholder="https://exemplo.com/imagem.jpg"
-                value={imageUrl}
-                onChange={(e) => setImageUrl(e.target.value)}
-              />
-              <p className="text-xs text-muted-foreground">
-                Insira a URL de uma imagem pública disponível na internet
-              </p>
-            </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="caption">Legenda (opcional)</Label>
-              <Input
-                id="caption"
-                placeholder="Escreva uma legenda para a imagem..."
-                value={imageCaption}
-                onChange={(e) => setImageCaption(e.target.value)}
-              />
-            </div>
-            
-            {imageUrl && (
-              <div className="border rounded-md p-2 mt-2">
-                <img 
-                  src={imageUrl} 
-                  alt="Pré-visualização" 
-                  className="max-w-full h-auto rounded" 
-                  onError={(e) => {
-                    e.currentTarget.src = 'https://via.placeholder.com/300x200?text=Erro+ao+carregar+imagem';
-                    toast({
-                      title: 'Erro ao carregar imagem',
-                      description: 'Verifique se a URL é válida e acessível',
-                      variant: 'destructive'
-                    });
-                  }}
-                />
+          {mediaFile && (
+            <div className="space-y-4 py-2">
+              <div className="border rounded-md p-2">
+                {mediaPreviewUrl && (mediaFileType === 'image' || mediaFileType === 'video') && mediaThumbnail ? (
+                  <img src={mediaPreviewUrl} alt="Pré-visualização" className="max-w-full max-h-64 mx-auto rounded" />
+                ) : mediaPreviewUrl && mediaFileType === 'audio' ? (
+                  <audio controls src={mediaPreviewUrl} className="w-full" />
+                ) : (
+                  <div className="flex items-center gap-2 text-sm">
+                    <FileText size={18} className="text-muted-foreground shrink-0" />
+                    <span className="truncate">{mediaFile.name}</span>
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground mt-2">
+                  {mediaFile.name} · {(mediaFile.size / 1024 / 1024).toFixed(1)} MB
+                </p>
               </div>
-            )}
-          </div>
+
+              {mediaFileType !== 'audio' && (
+                <div className="space-y-2">
+                  <Label htmlFor="caption">Legenda (opcional)</Label>
+                  <Input
+                    id="caption"
+                    placeholder="Escreva uma legenda..."
+                    value={mediaCaption}
+                    maxLength={1024}
+                    onChange={(e) => setMediaCaption(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+          )}
           <div className="flex justify-end space-x-2">
-            <Button variant="outline" onClick={() => setShowImageDialog(false)}>
+            <Button variant="outline" onClick={resetMediaDialog} disabled={sendMediaMutation.isPending}>
               Cancelar
             </Button>
-            <Button 
-              onClick={handleSendImage} 
-              disabled={!imageUrl || sendImageMutation.isPending}
-            >
-              Enviar Imagem
+            <Button onClick={handleSendMedia} disabled={sendMediaMutation.isPending}>
+              {sendMediaMutation.isPending ? 'Enviando...' : 'Enviar'}
             </Button>
           </div>
         </DialogContent>
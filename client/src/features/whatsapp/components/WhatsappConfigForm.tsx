@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
+import { getSessionErrorMessage } from '@/features/scheduling/services/sessionServices';
+import { fetchWhatsappQrCode, saveWhatsappConfig } from '../services/whatsappServices';
+import { useWhatsappConfig, useWhatsappStatus } from '../hooks/useWhatsapp';
 import { Eye, EyeOff, RefreshCw, RotateCw, Check, X } from 'lucide-react';
 
 import { Button } from '@/components/inputs/Button'; // Updated
@@ -14,19 +16,6 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/navigatio
 import { Badge } from '@/components/data-display/badge'; // Updated
 import { Skeleton } from '@/components/data-display/skeleton'; // Updated
 
-interface WhatsappConfigData {
-  apiUrl?: string;
-  apiInstance?: string;
-  hasToken?: boolean;
-  lastUpdated?: string;
-}
-
-interface WhatsappStatusData {
-  status: string;
-  phone?: string;
-  details?: { qrcode?: string }; // Assuming qrcode is nested under details
-}
-
 export default function WhatsappConfigForm() {
   const [apiUrl, setApiUrl] = useState('');
   const [apiToken, setApiToken] = useState('');
@@ -38,23 +27,20 @@ export default function WhatsappConfigForm() {
   const queryClient = useQueryClient();
 
   // Consulta para obter a configuração atual
-  const { data: configData, isLoading: isLoadingConfig } = useQuery<WhatsappConfigData, Error>({
-    queryKey: ['/api/whatsapp/config'],
-    // onSuccess removed, will be handled by useEffect
-    onError: (error) => {
+  const { data: configData, isLoading: isLoadingConfig, error: configError } = useWhatsappConfig();
+
+  // Consulta para verificar o status da conexão
+  const { data: statusData, isLoading: isLoadingStatus, refetch: refetchStatus } = useWhatsappStatus();
+
+  useEffect(() => {
+    if (configError) {
       toast({
         title: 'Erro ao carregar configurações',
-        description: 'Não foi possível carregar as configurações do WhatsApp.',
+        description: getSessionErrorMessage(configError, 'Não foi possível carregar as configurações do WhatsApp.'),
         variant: 'destructive',
       });
-    },
-  });
-
-  // Consulta para verificar o status da conexão
-  const { data: statusData, isLoading: isLoadingStatus, refetch: refetchStatus } = useQuery<WhatsappStatusData, Error>({
-    queryKey: ['/api/whatsapp/status'],
-    refetchInterval: 30000, // Refetch every 30 seconds
-  });
+    }
+  }, [configError]);
 
   useEffect(() => {
     if (configData) {
@@ -65,16 +51,14 @@ export default function WhatsappConfigForm() {
 
   // Mutação para salvar as configurações
   const saveConfigMutation = useMutation({
-    mutationFn: async () => {
-      return apiRequest('POST', '/api/whatsapp/config', {
-        apiUrl: apiUrl.trim(),
-        apiToken: apiToken.trim() || undefined,
-        apiInstance: apiInstance.trim() || 'default',
-      });
-    },
+    mutationFn: () => saveWhatsappConfig({
+      apiUrl: apiUrl.trim(),
+      apiToken: apiToken.trim() || undefined,
+      apiInstance: apiInstance.trim() || 'default',
+    }),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/config'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/status'] });
+      queryClient.invalidateQueries({ queryKey: ['whatsappConfig'] });
+      queryClient.invalidateQueries({ queryKey: ['whatsappStatus'] });
       toast({
         title: 'Configurações salvas',
         description: 'As configurações do WhatsApp foram salvas com sucesso.',
@@ -83,10 +67,10 @@ export default function WhatsappConfigForm() {
       setApiToken('');
       setShowToken(false);
     },
-    onError: (error: any) => {
+    onError: (error) => {
       toast({
         title: 'Erro ao salvar configurações',
-        description: error?.response?.data?.message || 'Não foi possível salvar as configurações do WhatsApp.',
+        description: getSessionErrorMessage(error, 'Não foi possível salvar as configurações do WhatsApp.'),
         variant: 'destructive',
       });
     },
@@ -94,20 +78,18 @@ export default function WhatsappConfigForm() {
 
   // Mutação para obter o QR Code
   const qrCodeMutation = useMutation({
-    mutationFn: async () => {
-      return apiRequest('GET', '/api/whatsapp/qrcode');
-    },
-    onSuccess: (data) => {
+    mutationFn: fetchWhatsappQrCode,
+    onSuccess: () => {
       setQrCodeVisible(true);
       // Também atualizamos o status para ver se o QR code funcionou
       setTimeout(() => {
         refetchStatus();
       }, 5000);
     },
-    onError: (error: any) => {
+    onError: (error) => {
       toast({
         title: 'Erro ao gerar QR Code',
-        description: error?.response?.data?.message || 'Não foi possível gerar o QR Code para conexão.',
+        description: getSessionErrorMessage(error, 'Não foi possível gerar o QR Code para conexão.'),
         variant: 'destructive',
       });
     },
@@ -273,7 +255,16 @@ export default function WhatsappConfigForm() {
                   <div>
                     <p className="text-sm font-medium">Telefone:</p>
                     <p className="text-sm text-muted-foreground mt-1">
-                      {statusData.phone || 'Não disponível'}
+                      {statusData.details?.phone || 'Não disponível'}
+                    </p>
+                  </div>
+
+                  <div>
+                    <p className="text-sm font-medium">Último evento do webhook:</p>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {statusData.details?.webhook_state
+                        ? `${statusData.details.webhook_state}${statusData.details.webhook_state_at ? ` em ${new Date(statusData.details.webhook_state_at).toLocaleString('pt-BR')}` : ''}`
+                        : 'Nenhum evento recebido'}
                     </p>
                   </div>
                 </div>
@@ -291,11 +282,11 @@ export default function WhatsappConfigForm() {
                         <div className="w-64 h-64 flex items-center justify-center">
                           <RotateCw className="h-10 w-10 animate-spin text-primary" />
                         </div>
-                      ) : qrCodeMutation.data?.details?.qrcode ? (
+                      ) : qrCodeMutation.data?.qrcode ? (
                         <div className="space-y-2">
                           <div className="overflow-hidden rounded-lg border border-gray-200">
                             <img
-                              src={qrCodeMutation.data.details.qrcode}
+                              src={qrCodeMutation.data.qrcode}
                               alt="QR Code para conexão do WhatsApp"
                               className="w-64 h-64 object-contain"
                             />
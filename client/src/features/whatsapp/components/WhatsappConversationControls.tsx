@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/features/auth/hooks/use-auth";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import { Button } from "@/components/inputs/Button";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import { useAssignableUsers } from "@/features/leads/hooks/useLeads";
+import {
+  CONVERSATION_STATUS_LABELS, WhatsappConversation, WhatsappConversationStatus, updateWhatsappConversation,
+} from "../services/whatsappServices";
+
+interface WhatsappConversationControlsProps {
+  leadId: number;
+  conversation: NonNullable<WhatsappConversation["conversation"]>;
+}
+
+const UNASSIGNED = "none";
+
+// Owner and status of a conversation. As with lead owners, admins assign any conversation; other users hand over
+// their own or take unassigned ones
+export default function WhatsappConversationControls({ leadId, conversation }: WhatsappConversationControlsProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const { data: assignableUsers = [] } = useAssignableUsers();
+  const [saving, setSaving] = useState(false);
+
+  const isAdmin = profile?.role === "admin";
+  const canReassign = isAdmin || conversation.ownerId === user?.id;
+
+  const update = async (changes: { ownerId?: string | null; status?: WhatsappConversationStatus }) => {
+    setSaving(true);
+    try {
+      await updateWhatsappConversation(leadId, changes);
+      await queryClient.invalidateQueries({ queryKey: ["whatsappConversations"] });
+      await queryClient.invalidateQueries({ queryKey: ["whatsappInboxCounts"] });
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível atualizar a conversa."), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {canReassign ? (
+        <Select
+          value={conversation.ownerId || UNASSIGNED}
+          onValueChange={(value) => update({ ownerId: value === UNASSIGNED ? null : value })}
+          disabled={saving}
+        >
+          <SelectTrigger className="h-8 w-[180px] text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Sem responsável</SelectItem>
+            {conversation.ownerId && !assignableUsers.some(member => member.id === conversation.ownerId) && (
+              <SelectItem value={conversation.ownerId}>{conversation.ownerName || "Usuário inativo"}</SelectItem>
+            )}
+            {assignableUsers.map(member => (
+              <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : conversation.ownerId ? (
+        <span className="text-xs text-muted-foreground">Responsável: {conversation.ownerName || "Usuário inativo"}</span>
+      ) : (
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => update({ ownerId: user!.id })} disabled={saving || !user}>
+          Assumir conversa
+        </Button>
+      )}
+      <Select
+        value={conversation.status}
+        onValueChange={(status) => update({ status: status as WhatsappConversationStatus })}
+        disabled={saving}
+      >
+        <SelectTrigger className="h-8 w-[120px] text-xs"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {Object.entries(CONVERSATION_STATUS_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
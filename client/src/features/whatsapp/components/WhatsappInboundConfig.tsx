@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/data-display/Card";
+import { Input } from "@/components/inputs/InputField";
+import { Switch } from "@/components/inputs/switch";
+import { Skeleton } from "@/components/data-display/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import { LEAD_SOURCES } from "@/features/leads/services/leadServices";
+import { useAssignableUsers } from "@/features/leads/hooks/useLeads";
+import { WhatsappInboundSettings, updateInboundSettings } from "../services/whatsappServices";
+import { useWhatsappInboundSettings } from "../hooks/useWhatsapp";
+
+// Select value for "nobody in particular" (Radix selects don't accept an empty value)
+const DEFAULT_TRIAGE = "default";
+
+export default function WhatsappInboundConfig() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+  const [newDdd, setNewDdd] = useState({ ddd: "", source: "" });
+
+  const { data: settings, isLoading } = useWhatsappInboundSettings();
+  const { data: assignableUsers = [] } = useAssignableUsers();
+
+  const handleSettings = async (changes: Partial<WhatsappInboundSettings>) => {
+    setSaving(true);
+    try {
+      const saved = await updateInboundSettings(changes);
+      queryClient.setQueryData(["whatsappInboundSettings"], saved);
+      return true;
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível salvar a configuração."), variant: "destructive" });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (isLoading || !settings) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  const dddEntries = Object.entries(settings.dddSources).sort(([a], [b]) => a.localeCompare(b));
+
+  const handleDddAdd = async () => {
+    if (await handleSettings({ dddSources: { ...settings.dddSources, [newDdd.ddd]: newDdd.source } })) {
+      setNewDdd({ ddd: "", source: "" });
+    }
+  };
+
+  const handleDddRemove = (ddd: string) => {
+    const { [ddd]: _removed, ...dddSources } = settings.dddSources;
+    handleSettings({ dddSources });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Novos contatos</CardTitle>
+        <CardDescription>
+          Mensagens de números que não pertencem a nenhum lead criam um lead na campanha "WhatsApp Inbound", com o nome
+          do perfil do WhatsApp e o estado e a origem pelo DDD. A mensagem fica no histórico do lead e uma tarefa de
+          triagem é criada.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <label className="flex items-center justify-between gap-4 text-sm">
+          <span>
+            <span className="font-medium block">Criar leads automaticamente</span>
+            <span className="text-muted-foreground">Desligado, mensagens de números desconhecidos são ignoradas.</span>
+          </span>
+          <Switch checked={settings.autoCreateLeads} onCheckedChange={(autoCreateLeads) => handleSettings({ autoCreateLeads })} disabled={saving} />
+        </label>
+
+        <div className={`grid grid-cols-1 md:grid-cols-2 gap-6 ${settings.autoCreateLeads ? "" : "opacity-60"}`}>
+          <div className="space-y-1 text-sm">
+            <span className="font-medium block">Responsável pela triagem</span>
+            <Select
+              value={settings.triageUserId ?? DEFAULT_TRIAGE}
+              onValueChange={(value) => handleSettings({ triageUserId: value === DEFAULT_TRIAGE ? null : value })}
+              disabled={saving}
+            >
+              <SelectTrigger className="h-9 w-full"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_TRIAGE}>Responsável do lead (ou um administrador)</SelectItem>
+                {assignableUsers.map(member => <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 text-sm">
+            <span className="font-medium block">Prazo da tarefa de triagem (horas)</span>
+            <Input
+              key={settings.triageDueHours}
+              type="number"
+              min={1}
+              max={720}
+              className="h-9 w-[120px]"
+              defaultValue={settings.triageDueHours}
+              onBlur={(e) => {
+                const triageDueHours = parseInt(e.target.value);
+                if (!isNaN(triageDueHours) && triageDueHours !== settings.triageDueHours) handleSettings({ triageDueHours });
+              }}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-1 text-sm">
+            <span className="font-medium block">Origem padrão</span>
+            <Select value={settings.defaultSource} onValueChange={(defaultSource) => handleSettings({ defaultSource })} disabled={saving}>
+              <SelectTrigger className="h-9 w-[200px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {LEAD_SOURCES.map(source => <SelectItem key={source} value={source}>{source}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Origem por DDD</h4>
+          <p className="text-xs text-muted-foreground">Números de outros DDDs (ou de fora do Brasil) recebem a origem padrão.</p>
+          {dddEntries.map(([ddd, source]) => (
+            <div key={ddd} className="flex items-center gap-2 text-sm">
+              <span className="w-[80px]">DDD <span className="font-medium">{ddd}</span></span>
+              <span className="material-icons text-base text-gray-400">arrow_forward</span>
+              <span className="w-[130px]">{source}</span>
+              <button className="text-red-600 disabled:opacity-30" onClick={() => handleDddRemove(ddd)} disabled={saving} title="Remover">
+                <span className="material-icons text-base">delete</span>
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2 pt-2 border-t">
+            <Input
+              className="h-9 w-[80px] shrink-0"
+              placeholder="DDD"
+              maxLength={2}
+              value={newDdd.ddd}
+              onChange={(e) => setNewDdd(prev => ({ ...prev, ddd: e.target.value.replace(/\D/g, "") }))}
+            />
+            <span className="material-icons text-base text-gray-400">arrow_forward</span>
+            <Select value={newDdd.source} onValueChange={(source) => setNewDdd(prev => ({ ...prev, source }))}>
+              <SelectTrigger className="h-9 w-[130px] shrink-0"><SelectValue placeholder="Origem" /></SelectTrigger>
+              <SelectContent>
+                {LEAD_SOURCES.map(source => <SelectItem key={source} value={source}>{source}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <button
+              className="bg-primary text-white rounded-md px-4 py-2 text-sm disabled:opacity-50 shrink-0"
+              onClick={handleDddAdd}
+              disabled={saving || !/^[1-9]{2}$/.test(newDdd.ddd) || !newDdd.source}
+            >
+              Adicionar
+            </button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
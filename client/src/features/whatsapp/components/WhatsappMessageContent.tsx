@@ -0,0 +1,108 @@
+import { Bot, FileText, MapPin, User } from 'lucide-react';
+import { WhatsappChatMessage } from '../services/whatsappServices';
+
+// Texts stored in place of a caption for media without one (see whatsapp-manager)
+const MEDIA_PLACEHOLDERS = ['[Imagem]', '[Imagem enviada]', '[Áudio]', '[Vídeo]', '[Documento]'];
+
+interface WhatsappMessageContentProps {
+  message: WhatsappChatMessage;
+}
+
+// Body of a chat bubble: media with its caption, location, shared contacts or plain text
+const MessageBody = ({ message }: WhatsappMessageContentProps) => {
+  const caption = message.content && !MEDIA_PLACEHOLDERS.includes(message.content) ? (
+    <p className="whitespace-pre-wrap break-words text-sm">{message.content}</p>
+  ) : null;
+  const metadata = message.metadata;
+
+  if (message.mediaType === 'location' && metadata?.location) {
+    const { latitude, longitude, name, address } = metadata.location;
+    return (
+      <a
+        href={`https://www.google.com/maps?q=${latitude},${longitude}`}
+        target="_blank"
+        rel="noreferrer"
+        className="flex items-start gap-2 text-sm underline-offset-2 hover:underline"
+      >
+        <MapPin size={16} className="mt-0.5 shrink-0" />
+        <span>{name || address || `${latitude}, ${longitude}`}</span>
+      </a>
+    );
+  }
+
+  if (message.mediaType === 'contact' && metadata?.contacts) {
+    return (
+      <div className="space-y-1">
+        {metadata.contacts.map((contact, index) => (
+          <div key={index} className="flex items-start gap-2 text-sm">
+            <User size={16} className="mt-0.5 shrink-0" />
+            <span>
+              <span className="font-medium block">{contact.name}</span>
+              {contact.phones.map(phone => <span key={phone} className="block text-xs opacity-80">{phone}</span>)}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (!message.mediaUrl) {
+    return <p className="whitespace-pre-wrap break-words text-sm">{message.content}</p>;
+  }
+
+  // The list shows the preview when there is one; the full image opens in a new tab
+  if (message.mediaType === 'image') {
+    return (
+      <div className="space-y-2">
+        <a href={message.mediaUrl} target="_blank" rel="noreferrer">
+          <img
+            src={message.thumbnailUrl || message.mediaUrl}
+            alt="Imagem"
+            loading="lazy"
+            className="max-w-full max-h-64 rounded-md object-cover"
+            onError={(e) => {
+              e.currentTarget.src = 'https://via.placeholder.com/300x200?text=Erro+ao+carregar+imagem';
+            }}
+          />
+        </a>
+        {caption}
+      </div>
+    );
+  }
+  if (message.mediaType === 'audio') {
+    return <audio controls src={message.mediaUrl} className="max-w-full" />;
+  }
+  if (message.mediaType === 'video') {
+    return (
+      <div className="space-y-2">
+        <video controls preload="none" poster={message.thumbnailUrl ?? undefined} src={message.mediaUrl} className="max-w-full max-h-64 rounded-md" />
+        {caption}
+      </div>
+    );
+  }
+  return (
+    <div className="space-y-2">
+      <a href={message.mediaUrl} target="_blank" rel="noreferrer" className="flex items-center gap-2 text-sm underline-offset-2 hover:underline">
+        <FileText size={16} className="shrink-0" />
+        <span className="truncate">{metadata?.fileName || 'Documento'}</span>
+      </a>
+      {metadata?.fileName !== message.content && caption}
+    </div>
+  );
+};
+
+// Replies sent by an automation rule are marked so the team can tell them from their own
+const WhatsappMessageContent = ({ message }: WhatsappMessageContentProps) => {
+  if (!message.metadata?.automationRuleId) return <MessageBody message={message} />;
+  return (
+    <div className="space-y-1">
+      <span className="flex items-center gap-1 text-xs opacity-80">
+        <Bot size={12} />
+        Resposta automática
+      </span>
+      <MessageBody message={message} />
+    </div>
+  );
+};
+
+export default WhatsappMessageContent;
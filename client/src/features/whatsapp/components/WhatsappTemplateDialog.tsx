@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { WhatsappTemplateButton, WhatsappTemplateParam, whatsappTemplatePlaceholders, whatsappTemplateValidationSchema } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/inputs/Button";
+import { Input } from "@/components/inputs/InputField";
+import { Label } from "@/components/inputs/label";
+import { Switch } from "@/components/inputs/switch";
+import { Textarea } from "@/components/inputs/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/feedback/dialog";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import {
+  SAMPLE_TEMPLATE_LEAD, TEMPLATE_CATEGORY_LABELS, TEMPLATE_HEADER_LABELS, WhatsappTemplate, WhatsappTemplateCategory,
+  WhatsappTemplateHeaderType, WhatsappTemplateInput, saveWhatsappTemplate, templateParamValue,
+} from "../services/whatsappTemplateServices";
+import WhatsappTemplatePreview from "./WhatsappTemplatePreview";
+import WhatsappTemplateParamsEditor, { fitTemplateParams } from "./WhatsappTemplateParamsEditor";
+
+interface WhatsappTemplateDialogProps {
+  template: WhatsappTemplate | "new" | null; // null = closed
+  onClose: () => void;
+}
+
+const emptyTemplate: WhatsappTemplateInput = {
+  name: "",
+  displayName: "",
+  description: "",
+  languageCode: "pt_BR",
+  category: "MARKETING",
+  headerType: "none",
+  headerContent: null,
+  body: "",
+  bodyParams: [],
+  buttons: [],
+  active: true,
+};
+
+const BUTTON_TYPE_LABELS: Record<WhatsappTemplateButton["type"], string> = {
+  quick_reply: "Resposta rápida",
+  url: "Link",
+  phone_number: "Ligar",
+};
+
+export default function WhatsappTemplateDialog({ template, onClose }: WhatsappTemplateDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [form, setForm] = useState<WhatsappTemplateInput>(emptyTemplate);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isNew = template === "new";
+
+  useEffect(() => {
+    if (template === null) return;
+    if (template === "new") {
+      setForm(emptyTemplate);
+    } else {
+      const { id: _id, ...values } = template;
+      setForm(values);
+    }
+  }, [template]);
+
+  const placeholderCount = whatsappTemplatePlaceholders(form.body).length;
+  const bodyParams = fitTemplateParams(form.bodyParams, placeholderCount);
+
+  const update = (changes: Partial<WhatsappTemplateInput>) => setForm(prev => ({ ...prev, ...changes }));
+  const updateButton = (index: number, changes: Partial<WhatsappTemplateButton>) =>
+    update({ buttons: form.buttons.map((button, i) => i === index ? { ...button, ...changes } : button) });
+
+  const handleSubmit = async () => {
+    const validation = whatsappTemplateValidationSchema.safeParse({
+      ...form,
+      headerContent: form.headerType === "none" ? null : form.headerContent,
+      bodyParams,
+    });
+    if (!validation.success) {
+      toast({ title: "Verifique o template", description: validation.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await saveWhatsappTemplate(validation.data as WhatsappTemplateInput, isNew ? undefined : (template as WhatsappTemplate).id);
+      await queryClient.invalidateQueries({ queryKey: ["whatsappTemplates"] });
+      toast({ title: "Template salvo", description: `"${validation.data.displayName}" está disponível para envio.` });
+      onClose();
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível salvar o template."), variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={template !== null} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? "Novo template" : "Editar template"}</DialogTitle>
+          <DialogDescription>
+            O nome, o idioma e o texto devem ser iguais aos do template aprovado no WhatsApp Manager da Meta.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="template-display-name">Nome de exibição</Label>
+                <Input id="template-display-name" value={form.displayName} onChange={(e) => update({ displayName: e.target.value })} placeholder="Oferta Especial" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="template-name">Nome na Meta</Label>
+                <Input id="template-name" value={form.name} onChange={(e) => update({ name: e.target.value.toLowerCase() })} placeholder="special_offer" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="template-language">Idioma</Label>
+                <Input id="template-language" value={form.languageCode} onChange={(e) => update({ languageCode: e.target.value })} placeholder="pt_BR" />
+              </div>
+              <div className="space-y-1">
+                <Label>Categoria</Label>
+                <Select value={form.category} onValueChange={(category) => update({ category: category as WhatsappTemplateCategory })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TEMPLATE_CATEGORY_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="template-description">Descrição</Label>
+              <Input id="template-description" value={form.description} onChange={(e) => update({ description: e.target.value })} placeholder="Quando usar este template" />
+            </div>
+
+            <div className="space-y-1">
+              <Label>Cabeçalho</Label>
+              <div className="flex gap-2">
+                <Select value={form.headerType} onValueChange={(headerType) => update({ headerType: headerType as WhatsappTemplateHeaderType })}>
+                  <SelectTrigger className="w-[160px] shrink-0"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TEMPLATE_HEADER_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                {form.headerType !== "none" && (
+                  <Input
+                    value={form.headerContent ?? ""}
+                    onChange={(e) => update({ headerContent: e.target.value })}
+                    placeholder={form.headerType === "text" ? "Texto do cabeçalho" : "URL pública da mídia"}
+                  />
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="template-body">Texto</Label>
+              <Textarea
+                id="template-body"
+                rows={5}
+                value={form.body}
+                onChange={(e) => update({ body: e.target.value })}
+                placeholder="Olá, {{1}}! Temos uma oferta especial para você."
+              />
+              <p className="text-xs text-muted-foreground">{form.body.length}/1024 caracteres. Use {"{{1}}"}, {"{{2}}"}... para as variáveis.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Variáveis</Label>
+              <WhatsappTemplateParamsEditor
+                count={placeholderCount}
+                params={bodyParams}
+                onChange={(params: WhatsappTemplateParam[]) => update({ bodyParams: params })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Botões</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7"
+                  onClick={() => update({ buttons: [...form.buttons, { type: "quick_reply", text: "", value: "" }] })}
+                  disabled={form.buttons.length >= 3}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Adicionar
+                </Button>
+              </div>
+              {form.buttons.map((button, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={button.type} onValueChange={(type) => updateButton(index, { type: type as WhatsappTemplateButton["type"] })}>
+                    <SelectTrigger className="h-9 w-[150px] shrink-0"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(BUTTON_TYPE_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Input className="h-9" value={button.text} maxLength={25} onChange={(e) => updateButton(index, { text: e.target.value })} placeholder="Texto" />
+                  {button.type !== "quick_reply" && (
+                    <Input
+                      className="h-9"
+                      value={button.value}
+                      onChange={(e) => updateButton(index, { value: e.target.value })}
+                      placeholder={button.type === "url" ? "https://..." : "+5511999998888"}
+                    />
+                  )}
+                  <button className="text-red-600 shrink-0" onClick={() => update({ buttons: form.buttons.filter((_, i) => i !== index) })} title="Remover">
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <label className="flex items-center justify-between gap-4 text-sm">
+              <span>
+                <span className="font-medium block">Ativo</span>
+                <span className="text-muted-foreground">Templates inativos não aparecem para envio.</span>
+              </span>
+              <Switch checked={form.active} onCheckedChange={(active) => update({ active })} />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Prévia com dados de exemplo</Label>
+            <WhatsappTemplatePreview
+              template={form}
+              values={bodyParams.map(param => templateParamValue(SAMPLE_TEMPLATE_LEAD, param))}
+            />
+            <p className="text-xs text-muted-foreground">
+              No envio, as variáveis são preenchidas com os dados de cada lead.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Cancelar</Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>{isSubmitting ? "Salvando..." : "Salvar"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/features/auth/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/data-display/Card";
+import { Badge } from "@/components/data-display/badge";
+import { Skeleton } from "@/components/data-display/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/data-display/table";
+import { Button } from "@/components/inputs/Button";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import { TEMPLATE_CATEGORY_LABELS, WhatsappTemplate, deleteWhatsappTemplate } from "../services/whatsappTemplateServices";
+import { useWhatsappTemplates } from "../hooks/useWhatsapp";
+import WhatsappTemplateDialog from "./WhatsappTemplateDialog";
+
+export default function WhatsappTemplateManager() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === "admin";
+  const [editing, setEditing] = useState<WhatsappTemplate | "new" | null>(null);
+
+  const { data: templates = [], isLoading } = useWhatsappTemplates();
+
+  const handleDelete = async (template: WhatsappTemplate) => {
+    if (!window.confirm(`Excluir o template "${template.displayName}"? Campanhas já criadas continuam com o envio.`)) return;
+    try {
+      await deleteWhatsappTemplate(template.id);
+      await queryClient.invalidateQueries({ queryKey: ["whatsappTemplates"] });
+      toast({ title: "Template excluído" });
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível excluir o template."), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Templates</CardTitle>
+            <CardDescription>
+              Mensagens aprovadas pela Meta que podem ser enviadas a qualquer momento, inclusive em campanhas. Cada
+              variável do texto é preenchida com um dado do lead.
+            </CardDescription>
+          </div>
+          {isAdmin && (
+            <Button size="sm" className="shrink-0" onClick={() => setEditing("new")}>
+              <Plus className="h-4 w-4 mr-1" />
+              Novo template
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">Nenhum template cadastrado.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Template</TableHead>
+                <TableHead>Categoria</TableHead>
+                <TableHead>Idioma</TableHead>
+                <TableHead>Status</TableHead>
+                {isAdmin && <TableHead className="w-20" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map(template => (
+                <TableRow key={template.id}>
+                  <TableCell>
+                    <div className="font-medium">{template.displayName}</div>
+                    <div className="text-xs text-muted-foreground">{template.name}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">{TEMPLATE_CATEGORY_LABELS[template.category]}</TableCell>
+                  <TableCell className="text-sm">{template.languageCode}</TableCell>
+                  <TableCell>
+                    <Badge variant={template.active ? "default" : "outline"}>{template.active ? "Ativo" : "Inativo"}</Badge>
+                  </TableCell>
+                  {isAdmin && (
+                    <TableCell>
+                      <div className="flex gap-1 justify-end">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditing(template)} title="Editar">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-red-600" onClick={() => handleDelete(template)} title="Excluir">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      <WhatsappTemplateDialog template={editing} onClose={() => setEditing(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+import { WhatsappTemplateParam, whatsappTemplateLeadFields } from "@shared/schema";
+import { Input } from "@/components/inputs/InputField";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import { TEMPLATE_LEAD_FIELD_LABELS, WhatsappTemplateLeadField } from "../services/whatsappTemplateServices";
+
+interface WhatsappTemplateParamsEditorProps {
+  count: number; // number of {{n}} in the template body
+  params: WhatsappTemplateParam[];
+  onChange: (params: WhatsappTemplateParam[]) => void;
+}
+
+// Select value of a parameter: "field:first_name" or "text"
+const paramKind = (param: WhatsappTemplateParam) => param.type === "field" ? `field:${param.value}` : "text";
+
+// Pads or trims the mapping to the number of placeholders; new ones default to the first name
+export const fitTemplateParams = (params: WhatsappTemplateParam[], count: number): WhatsappTemplateParam[] =>
+  Array.from({ length: count }, (_, index) => params[index] ?? { type: "field", value: "first_name" });
+
+// One row per {{n}}: a lead field or a fixed text
+export default function WhatsappTemplateParamsEditor({ count, params, onChange }: WhatsappTemplateParamsEditorProps) {
+  const rows = fitTemplateParams(params, count);
+
+  const update = (index: number, param: WhatsappTemplateParam) => onChange(rows.map((row, i) => i === index ? param : row));
+
+  if (count === 0) {
+    return <p className="text-xs text-muted-foreground">O texto não tem variáveis ({"{{1}}"}, {"{{2}}"}...).</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {rows.map((param, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="w-[44px] shrink-0 text-sm text-muted-foreground">{`{{${index + 1}}}`}</span>
+          <Select
+            value={paramKind(param)}
+            onValueChange={(kind) => update(index, kind === "text"
+              ? { type: "text", value: "" }
+              : { type: "field", value: kind.slice("field:".length) as WhatsappTemplateLeadField })}
+          >
+            <SelectTrigger className="h-9 w-[170px] shrink-0"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {whatsappTemplateLeadFields.map(field => (
+                <SelectItem key={field} value={`field:${field}`}>{TEMPLATE_LEAD_FIELD_LABELS[field]}</SelectItem>
+              ))}
+              <SelectItem value="text">Texto fixo</SelectItem>
+            </SelectContent>
+          </Select>
+          {param.type === "text" && (
+            <Input
+              className="h-9"
+              value={param.value}
+              placeholder="Texto enviado a todos"
+              onChange={(e) => update(index, { type: "text", value: e.target.value })}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
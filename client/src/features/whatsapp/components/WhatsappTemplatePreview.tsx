@@ -0,0 +1,44 @@
+import { FileText, Image as ImageIcon, Link2, Phone, Reply, Video } from "lucide-react";
+import { WhatsappTemplate, renderTemplateBody } from "../services/whatsappTemplateServices";
+
+interface WhatsappTemplatePreviewProps {
+  template: Pick<WhatsappTemplate, "headerType" | "headerContent" | "body" | "buttons">;
+  values: string[]; // {{1}}, {{2}}... already filled
+}
+
+const mediaIcons = { image: ImageIcon, video: Video, document: FileText };
+const buttonIcons = { quick_reply: Reply, url: Link2, phone_number: Phone };
+
+// The message as the lead will see it, in the style of the chat bubbles
+export default function WhatsappTemplatePreview({ template, values }: WhatsappTemplatePreviewProps) {
+  const MediaIcon = template.headerType !== "none" && template.headerType !== "text" ? mediaIcons[template.headerType] : null;
+
+  return (
+    <div className="flex justify-end rounded-md bg-muted/50 p-3">
+      <div className="max-w-xs md:max-w-sm w-full">
+        <div className="rounded-lg rounded-br-none bg-primary text-primary-foreground p-3 text-sm">
+          {MediaIcon && (
+            <div className="mb-2 flex h-24 items-center justify-center rounded bg-primary-foreground/15">
+              {template.headerType === "image" && template.headerContent
+                ? <img src={template.headerContent} alt="" className="h-24 w-full rounded object-cover" />
+                : <MediaIcon className="h-8 w-8 opacity-70" />}
+            </div>
+          )}
+          {template.headerType === "text" && template.headerContent && (
+            <p className="mb-1 font-semibold">{template.headerContent}</p>
+          )}
+          <p className="whitespace-pre-wrap break-words">{renderTemplateBody(template.body, values) || "..."}</p>
+        </div>
+        {template.buttons.map((button, index) => {
+          const ButtonIcon = buttonIcons[button.type];
+          return (
+            <div key={index} className="mt-1 flex items-center justify-center gap-1 rounded-lg border bg-background py-1.5 text-sm text-primary">
+              <ButtonIcon className="h-3.5 w-3.5" />
+              {button.text}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
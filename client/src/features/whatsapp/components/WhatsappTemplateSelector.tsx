@@ -1,8 +1,12 @@
 import { useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { Lead } from '@/types'; // Updated
-import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { getSessionErrorMessage } from '@/features/scheduling/services/sessionServices';
+import { sendWhatsappTemplate } from '../services/whatsappServices';
+import { TEMPLATE_CATEGORY_LABELS, WhatsappTemplateCategory, templateParamValue } from '../services/whatsappTemplateServices';
+import { useWhatsappTemplates } from '../hooks/useWhatsapp';
+import WhatsappTemplatePreview from './WhatsappTemplatePreview';
 import { Send, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/inputs/Button'; // Updated
 import {
@@ -30,83 +34,18 @@ interface WhatsappTemplateSelectorProps {
   onSuccess?: () => void;
 }
 
-// Tipos de template disponíveis conforme documentação
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  category?: string;
-}
-
-// Utilizamos apenas templates pré-aprovados pela Meta
-const availableTemplates: Template[] = [
-  {
-    id: 'hello_world',
-    name: 'Boas-vindas',
-    description: 'Mensagem de boas-vindas para novos leads',
-    category: 'MARKETING'
-  },
-  {
-    id: 'welcome_personal_training',
-    name: 'Boas-vindas Treinamento',
-    description: 'Mensagem de boas-vindas específica para treinamento pessoal',
-    category: 'MARKETING'
-  },
-  {
-    id: 'special_offer',
-    name: 'Oferta Especial',
-    description: 'Informar sobre promoção ou pacote especial',
-    category: 'MARKETING'
-  },
-  {
-    id: 'workout_plan',
-    name: 'Plano de Treino',
-    description: 'Confirmação de envio do plano de treino personalizado',
-    category: 'UTILITY'
-  },
-  {
-    id: 'agendamento_confirmado',
-    name: 'Confirmação de Agendamento',
-    description: 'Confirmar um agendamento de sessão de treinamento',
-    category: 'UTILITY'
-  },
-  {
-    id: 'lembrete_sessao',
-    name: 'Lembrete de Sessão',
-    description: 'Lembrar o cliente sobre uma sessão agendada',
-    category: 'UTILITY'
-  },
-  {
-    id: 'nutritional_plan',
-    name: 'Plano Nutricional',
-    description: 'Confirmação de envio do plano nutricional',
-    category: 'UTILITY'
-  },
-  {
-    id: 'progress_update',
-    name: 'Atualização de Progresso',
-    description: 'Solicitar atualização de progresso do aluno',
-    category: 'UTILITY'
-  }
-];
-
 const WhatsappTemplateSelector = ({ lead, onSuccess }: WhatsappTemplateSelectorProps) => {
   const [templateId, setTemplateId] = useState<string>('');
   const [isOpen, setIsOpen] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { data: templates = [], isLoading } = useWhatsappTemplates(true);
+  const selectedTemplate = templates.find(t => String(t.id) === templateId);
 
   // Mutação para enviar template
   const sendTemplateMutation = useMutation({
-    mutationFn: async (template: string) => {
-      return apiRequest('POST', '/api/whatsapp/template', {
-        leadId: lead.id,
-        templateName: template,
-        language: 'pt_BR'
-      });
-    },
+    mutationFn: (template: number) => sendWhatsappTemplate(lead.id, template),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/whatsapp/lead/${lead.id}`] });
       toast({
         title: 'Sucesso',
         description: 'Template enviado com sucesso',
@@ -114,23 +53,13 @@ const WhatsappTemplateSelector = ({ lead, onSuccess }: WhatsappTemplateSelectorP
       if (onSuccess) onSuccess();
       setIsOpen(false);
     },
-    onError: (error: any) => {
-      console.error('Erro ao enviar template:', error);
-      
-      let errorMessage = 'Não foi possível enviar o template';
-      
-      // Verificar se é um erro específico de número não autorizado
-      if (error?.response?.data?.isUnauthorizedNumber) {
-        errorMessage = `Número ${lead.phone} não autorizado. Apenas números verificados podem receber mensagens no ambiente de teste.`;
-      } else if (error?.response?.data?.error) {
-        // Usar mensagem de erro da API quando disponível
-        errorMessage = error.response.data.error;
-      }
+    onError: (error) => {
+      let errorMessage = getSessionErrorMessage(error, 'Não foi possível enviar o template');
       
       // Verificar se o erro menciona template não encontrado
       if (errorMessage.toLowerCase().includes('template não encontrado') ||
           errorMessage.toLowerCase().includes('template not found')) {
-        errorMessage = `Template "${availableTemplates.find(t => t.id === templateId)?.name || templateId}" não encontrado na plataforma Meta. Verifique se o template foi aprovado.`;
+        errorMessage = `Template "${selectedTemplate?.displayName || templateId}" não encontrado na plataforma Meta. Verifique se o template foi aprovado.`;
       }
       
       toast({
@@ -139,20 +68,22 @@ const WhatsappTemplateSelector = ({ lead, onSuccess }: WhatsappTemplateSelectorP
         variant: 'destructive',
       });
     },
+    // The attempt is stored even when it fails
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['whatsappMessages', lead.id] });
+      queryClient.invalidateQueries({ queryKey: ['whatsappConversations'] });
+    },
   });
 
   const handleSendTemplate = () => {
-    if (templateId) {
-      sendTemplateMutation.mutate(templateId);
+    if (selectedTemplate) {
+      sendTemplateMutation.mutate(selectedTemplate.id);
     }
   };
 
-  const getAvailableTemplatesByCategory = (category: string) => {
-    return availableTemplates.filter(template => template.category === category);
-  };
-
-  const marketingTemplates = getAvailableTemplatesByCategory('MARKETING');
-  const utilityTemplates = getAvailableTemplatesByCategory('UTILITY');
+  const categories = (Object.keys(TEMPLATE_CATEGORY_LABELS) as WhatsappTemplateCategory[])
+    .map(category => ({ category, templates: templates.filter(template => template.category === category) }))
+    .filter(group => group.templates.length > 0);
   
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
@@ -180,33 +111,32 @@ const WhatsappTemplateSelector = ({ lead, onSuccess }: WhatsappTemplateSelectorP
               <SelectValue placeholder="Escolha um template" />
             </SelectTrigger>
             <SelectContent>
-              <SelectGroup>
-                <SelectLabel>Marketing</SelectLabel>
-                {marketingTemplates.map(template => (
-                  <SelectItem key={template.id} value={template.id}>
-                    {template.name}
-                  </SelectItem>
-                ))}
-              </SelectGroup>
-              <SelectGroup>
-                <SelectLabel>Utilitários</SelectLabel>
-                {utilityTemplates.map(template => (
-                  <SelectItem key={template.id} value={template.id}>
-                    {template.name}
-                  </SelectItem>
-                ))}
-              </SelectGroup>
+              {categories.map(group => (
+                <SelectGroup key={group.category}>
+                  <SelectLabel>{TEMPLATE_CATEGORY_LABELS[group.category]}</SelectLabel>
+                  {group.templates.map(template => (
+                    <SelectItem key={template.id} value={String(template.id)}>
+                      {template.displayName}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              ))}
             </SelectContent>
           </Select>
           
-          {templateId && (
-            <div className="mt-4 p-3 bg-muted rounded-md">
-              <h4 className="text-sm font-medium mb-1">
-                {availableTemplates.find(t => t.id === templateId)?.name}
-              </h4>
-              <p className="text-xs text-muted-foreground">
-                {availableTemplates.find(t => t.id === templateId)?.description}
-              </p>
+          {!isLoading && templates.length === 0 && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              Nenhum template ativo. Um administrador pode cadastrá-los nas configurações do WhatsApp.
+            </p>
+          )}
+
+          {selectedTemplate && (
+            <div className="mt-4 space-y-2">
+              <p className="text-xs text-muted-foreground">{selectedTemplate.description}</p>
+              <WhatsappTemplatePreview
+                template={selectedTemplate}
+                values={selectedTemplate.bodyParams.map(param => templateParamValue(lead, param))}
+              />
             </div>
           )}
         </div>
@@ -217,7 +147,7 @@ const WhatsappTemplateSelector = ({ lead, onSuccess }: WhatsappTemplateSelectorP
           </DialogClose>
           <Button 
             onClick={handleSendTemplate} 
-            disabled={!templateId || sendTemplateMutation.isPending}
+            disabled={!selectedTemplate || sendTemplateMutation.isPending}
             size="sm"
           >
             {sendTemplateMutation.isPending ? 'Enviando...' : 'Enviar Template'}
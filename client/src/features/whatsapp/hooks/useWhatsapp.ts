@@ -0,0 +1,151 @@
+import { useEffect } from "react";
+import { keepPreviousData, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  WhatsappChatMessage, WhatsappConfigSummary, WhatsappConversation, WhatsappConversationNote, WhatsappConversationStatus,
+  WhatsappInboundSettings, WhatsappInboxCounts, WhatsappInboxView, WhatsappStatus, fetchConversationNotes,
+  fetchInboundSettings, fetchInboxCounts, fetchLeadMessages, fetchRecentConversations, fetchWhatsappConfig,
+  fetchWhatsappStatus,
+} from "../services/whatsappServices";
+import {
+  WhatsappBroadcastDetails, WhatsappBroadcastSummary, fetchWhatsappBroadcast, fetchWhatsappBroadcasts,
+} from "../services/whatsappBroadcastServices";
+import { WhatsappTemplate, fetchWhatsappTemplates } from "../services/whatsappTemplateServices";
+import {
+  WhatsappAutomationRule, WhatsappAutomationRun, WhatsappBusinessHoursSlot, fetchWhatsappAutomationRuns,
+  fetchWhatsappAutomations, fetchWhatsappBusinessHours,
+} from "../services/whatsappAutomationServices";
+
+// Inbox queries have no polling: useWhatsappRealtime (WhatsappContext) invalidates them when a conversation changes.
+// Messages of one lead, oldest first. Every send invalidates ["whatsappMessages"] and ["whatsappConversations"]
+export const useLeadMessages = (leadId: number | null | undefined) => {
+  return useQuery<WhatsappChatMessage[], Error>({
+    queryKey: ["whatsappMessages", leadId],
+    queryFn: () => fetchLeadMessages(leadId!),
+    enabled: !!leadId,
+  });
+};
+
+export const useRecentConversations = (search: string, view: WhatsappInboxView = "all", status: WhatsappConversationStatus | null = null) => {
+  return useQuery<WhatsappConversation[], Error>({
+    queryKey: ["whatsappConversations", search.trim(), view, status],
+    queryFn: () => fetchRecentConversations(search, view, status),
+    placeholderData: keepPreviousData,
+  });
+};
+
+// One Realtime subscription for the whole app. Messages, receipts, notes, assignment and read state all touch the
+// lead's whatsapp_conversations row (see 0031_whatsapp_inbox.sql), so that row is the only table to watch
+export const useWhatsappRealtime = (userId: string | null | undefined) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+    const channel = supabase
+      .channel("whatsapp-inbox")
+      .on("postgres_changes", { event: "*", schema: "public", table: "whatsapp_conversations" }, (payload) => {
+        const leadId = (payload.new as { lead_id?: number } | null)?.lead_id ?? (payload.old as { lead_id?: number } | null)?.lead_id;
+        queryClient.invalidateQueries({ queryKey: ["whatsappConversations"] });
+        queryClient.invalidateQueries({ queryKey: ["whatsappInboxCounts"] });
+        if (leadId) {
+          queryClient.invalidateQueries({ queryKey: ["whatsappMessages", leadId] });
+          queryClient.invalidateQueries({ queryKey: ["whatsappNotes", leadId] });
+        }
+      })
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+};
+
+export const useInboxCounts = () => {
+  return useQuery<WhatsappInboxCounts, Error>({
+    queryKey: ["whatsappInboxCounts"],
+    queryFn: fetchInboxCounts,
+  });
+};
+
+// Internal notes of a conversation, oldest first
+export const useConversationNotes = (leadId: number | null | undefined) => {
+  return useQuery<WhatsappConversationNote[], Error>({
+    queryKey: ["whatsappNotes", leadId],
+    queryFn: () => fetchConversationNotes(leadId!),
+    enabled: !!leadId,
+  });
+};
+
+export const useWhatsappStatus = () => {
+  return useQuery<WhatsappStatus, Error>({
+    queryKey: ["whatsappStatus"],
+    queryFn: fetchWhatsappStatus,
+    retry: 1,
+    refetchOnWindowFocus: false,
+    refetchInterval: 60000,
+  });
+};
+
+export const useWhatsappConfig = (enabled = true) => {
+  return useQuery<WhatsappConfigSummary | null, Error>({
+    queryKey: ["whatsappConfig"],
+    queryFn: fetchWhatsappConfig,
+    enabled,
+  });
+};
+
+export const useWhatsappInboundSettings = () => {
+  return useQuery<WhatsappInboundSettings, Error>({
+    queryKey: ["whatsappInboundSettings"],
+    queryFn: fetchInboundSettings,
+  });
+};
+
+// Campaign list and report; refreshed while campaigns are being sent
+export const useWhatsappBroadcasts = () => {
+  return useQuery<WhatsappBroadcastSummary[], Error>({
+    queryKey: ["whatsappBroadcasts"],
+    queryFn: fetchWhatsappBroadcasts,
+    refetchInterval: 15000,
+  });
+};
+
+export const useWhatsappBroadcast = (broadcastId: number | null) => {
+  return useQuery<WhatsappBroadcastDetails, Error>({
+    queryKey: ["whatsappBroadcasts", broadcastId],
+    queryFn: () => fetchWhatsappBroadcast(broadcastId!),
+    enabled: !!broadcastId,
+    refetchInterval: 15000,
+  });
+};
+
+// Library templates; activeOnly for the ones that can be sent
+export const useWhatsappTemplates = (activeOnly = false) => {
+  return useQuery<WhatsappTemplate[], Error>({
+    queryKey: ["whatsappTemplates", activeOnly],
+    queryFn: () => fetchWhatsappTemplates(activeOnly),
+  });
+};
+
+// Automation rules in evaluation order; saving or deleting one invalidates ["whatsappAutomations"]
+export const useWhatsappAutomations = () => {
+  return useQuery<WhatsappAutomationRule[], Error>({
+    queryKey: ["whatsappAutomations"],
+    queryFn: fetchWhatsappAutomations,
+  });
+};
+
+// Latest runs; they happen in the webhook, so the list refreshes on its own
+export const useWhatsappAutomationRuns = () => {
+  return useQuery<WhatsappAutomationRun[], Error>({
+    queryKey: ["whatsappAutomationRuns"],
+    queryFn: () => fetchWhatsappAutomationRuns(),
+    refetchInterval: 30000,
+  });
+};
+
+export const useWhatsappBusinessHours = () => {
+  return useQuery<WhatsappBusinessHoursSlot[], Error>({
+    queryKey: ["whatsappBusinessHours"],
+    queryFn: fetchWhatsappBusinessHours,
+  });
+};
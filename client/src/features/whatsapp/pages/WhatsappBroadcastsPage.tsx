@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Pause, Play, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/features/auth/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/data-display/Card";
+import { Badge } from "@/components/data-display/badge";
+import { Progress } from "@/components/data-display/progress";
+import { Skeleton } from "@/components/data-display/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/data-display/table";
+import { Button } from "@/components/inputs/Button";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import {
+  BROADCAST_STATUS_LABELS, WhatsappBroadcastRecipientRow, WhatsappBroadcastStatus, WhatsappBroadcastSummary,
+  changeWhatsappBroadcastStatus,
+} from "../services/whatsappBroadcastServices";
+import { useWhatsappBroadcast, useWhatsappBroadcasts, useWhatsappTemplates } from "../hooks/useWhatsapp";
+
+const statusBadgeClass: Record<WhatsappBroadcastStatus, string> = {
+  queued: "bg-gray-100 text-gray-700",
+  sending: "bg-blue-100 text-blue-700",
+  paused: "bg-amber-100 text-amber-700",
+  completed: "bg-green-100 text-green-700",
+  cancelled: "bg-red-100 text-red-700",
+};
+
+// Most advanced state of a recipient: the message status once it was sent
+const recipientLabel = (recipient: WhatsappBroadcastRecipientRow) => {
+  if (recipient.status !== "sent") {
+    return { queued: "Na fila", sending: "Enviando", failed: "Falhou", skipped: "Ignorado" }[recipient.status];
+  }
+  return { read: "Lida", delivered: "Entregue", failed: "Falhou" }[recipient.messageStatus ?? ""] ?? "Enviada";
+};
+
+const formatDate = (value: string | null) => value ? format(new Date(value), "dd/MM/yyyy HH:mm", { locale: ptBR }) : "—";
+const processedCount = (broadcast: WhatsappBroadcastSummary) => broadcast.stats.total - broadcast.stats.queued;
+
+export default function WhatsappBroadcastsPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const [, navigate] = useLocation();
+  const selectedId = Number(new URLSearchParams(useSearch()).get("id")) || null;
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  const { data: broadcasts = [], isLoading } = useWhatsappBroadcasts();
+  const { data: broadcast, isLoading: isLoadingDetails } = useWhatsappBroadcast(selectedId);
+  const { data: templates = [] } = useWhatsappTemplates();
+  const canManage = profile?.role === "admin" || profile?.role === "marketing";
+
+  const handleStatusChange = async (action: "pause" | "resume" | "cancel") => {
+    if (!broadcast) return;
+    setBusyAction(action);
+    try {
+      await changeWhatsappBroadcastStatus(broadcast.id, action);
+      await queryClient.invalidateQueries({ queryKey: ["whatsappBroadcasts"] });
+    } catch (error) {
+      toast({ title: "Erro", description: getSessionErrorMessage(error, "Não foi possível alterar a campanha."), variant: "destructive" });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const templateLabel = (item: WhatsappBroadcastSummary) =>
+    templates.find(template => template.id === item.templateId)?.displayName ?? item.templateName;
+
+  const stats = broadcast?.stats;
+  const statCards = stats ? [
+    { label: "Leads", value: stats.total },
+    { label: "Na fila", value: stats.queued },
+    { label: "Enviadas", value: stats.sent },
+    { label: "Entregues", value: stats.delivered },
+    { label: "Lidas", value: stats.read },
+    { label: "Falhas", value: stats.failed },
+    { label: "Ignorados", value: stats.skipped },
+  ] : [];
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Campanhas do WhatsApp</h1>
+        <p className="text-muted-foreground">
+          Para criar uma campanha, selecione os leads na lista de leads e use "Enviar WhatsApp".
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-2">
+          {isLoading && <Skeleton className="h-20 w-full" />}
+          {!isLoading && broadcasts.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma campanha criada ainda.</p>
+          )}
+          {broadcasts.map(item => (
+            <button
+              key={item.id}
+              className={`w-full text-left border rounded-md p-3 hover:bg-muted ${item.id === selectedId ? "border-primary bg-muted" : ""}`}
+              onClick={() => navigate(`/whatsapp/campanhas?id=${item.id}`)}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">{item.name}</span>
+                <Badge variant="outline" className={statusBadgeClass[item.status]}>{BROADCAST_STATUS_LABELS[item.status]}</Badge>
+              </div>
+              <div className="text-xs text-muted-foreground mt-1">
+                {templateLabel(item)} · {formatDate(item.createdAt)}
+              </div>
+              <Progress value={item.stats.total ? (processedCount(item) / item.stats.total) * 100 : 0} className="h-1.5 mt-2" />
+            </button>
+          ))}
+        </div>
+
+        <div className="lg:col-span-2">
+          {!selectedId && (
+            <p className="text-sm text-muted-foreground">Selecione uma campanha para ver o relatório.</p>
+          )}
+          {selectedId && isLoadingDetails && <Skeleton className="h-60 w-full" />}
+          {broadcast && stats && (
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <CardTitle>{broadcast.name}</CardTitle>
+                    <CardDescription>
+                      {templateLabel(broadcast)} · uma mensagem a cada {broadcast.intervalSeconds}s
+                      {broadcast.createdBy ? ` · criada por ${broadcast.createdBy}` : ""} em {formatDate(broadcast.createdAt)}
+                    </CardDescription>
+                  </div>
+                  {canManage && (
+                    <div className="flex gap-2">
+                      {(broadcast.status === "queued" || broadcast.status === "sending") && (
+                        <Button variant="outline" size="sm" onClick={() => handleStatusChange("pause")} disabled={!!busyAction}>
+                          <Pause className="h-4 w-4 mr-1" /> Pausar
+                        </Button>
+                      )}
+                      {broadcast.status === "paused" && (
+                        <Button variant="outline" size="sm" onClick={() => handleStatusChange("resume")} disabled={!!busyAction}>
+                          <Play className="h-4 w-4 mr-1" /> Retomar
+                        </Button>
+                      )}
+                      {["queued", "sending", "paused"].includes(broadcast.status) && (
+                        <Button variant="outline" size="sm" className="text-red-600" onClick={() => handleStatusChange("cancel")} disabled={!!busyAction}>
+                          <XCircle className="h-4 w-4 mr-1" /> Cancelar
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+                  {statCards.map(card => (
+                    <div key={card.label} className="border rounded-md p-3 text-center">
+                      <div className="text-xl font-semibold">{card.value}</div>
+                      <div className="text-xs text-muted-foreground">{card.label}</div>
+                    </div>
+                  ))}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {BROADCAST_STATUS_LABELS[broadcast.status]} · início {formatDate(broadcast.startedAt)} · fim {formatDate(broadcast.completedAt)}
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Lead</TableHead>
+                      <TableHead>Telefone</TableHead>
+                      <TableHead>Situação</TableHead>
+                      <TableHead>Processado em</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {broadcast.recipients.map(recipient => (
+                      <TableRow key={recipient.id}>
+                        <TableCell>{recipient.leadName}</TableCell>
+                        <TableCell>{recipient.leadPhone}</TableCell>
+                        <TableCell>
+                          {recipientLabel(recipient)}
+                          {recipient.error && <div className="text-xs text-red-600">{recipient.error}</div>}
+                        </TableCell>
+                        <TableCell>{formatDate(recipient.processedAt)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
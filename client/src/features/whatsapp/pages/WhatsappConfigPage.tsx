@@ -1,4 +1,8 @@
 import WhatsappConfigForm from "@/features/whatsapp/components/WhatsappConfigForm"; // Updated path
+import WhatsappInboundConfig from "@/features/whatsapp/components/WhatsappInboundConfig";
+import WhatsappTemplateManager from "@/features/whatsapp/components/WhatsappTemplateManager";
+import WhatsappAutomationManager from "@/features/whatsapp/components/WhatsappAutomationManager";
+import WhatsappBusinessHours from "@/features/whatsapp/components/WhatsappBusinessHours";
 
 export default function WhatsappConfigPage() {
   return (
@@ -9,8 +13,12 @@ export default function WhatsappConfigPage() {
           Configure a integração com a Evolution API para usar o WhatsApp no CRM.
         </p>
       </div>
-      <div className="mx-auto max-w-3xl">
+      <div className="mx-auto max-w-3xl space-y-6">
         <WhatsappConfigForm />
+        <WhatsappInboundConfig />
+        <WhatsappTemplateManager />
+        <WhatsappAutomationManager />
+        <WhatsappBusinessHours />
       </div>
     </div>
   );
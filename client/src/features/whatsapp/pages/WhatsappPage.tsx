@@ -7,65 +7,71 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/navigation/tabs"; // U
 import { Badge } from "@/components/data-display/badge"; // Updated
 import { Alert, AlertDescription, AlertTitle } from "@/components/feedback/alert"; // Updated
 import { useToast } from "@/hooks/use-toast"; // Correct
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient"; // Correct
-import { Lead, WhatsappMessage } from "@/types"; // Updated
 import { useWhatsappContext } from "@/context/WhatsappContext"; // Correct
-import { CheckCircle2, AlertCircle, XCircle, Search, Filter, PlusCircle, MoreVertical, Star, Clock, Inbox, RefreshCw, Paperclip, Send } from "lucide-react";
+import { getSessionErrorMessage } from "@/features/scheduling/services/sessionServices";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/inputs/select";
+import {
+  CONVERSATION_STATUS_LABELS, WhatsappConversation, WhatsappConversationStatus, WhatsappInboxView, addConversationNote,
+  markWhatsappConversationRead, sendWhatsappMessage,
+} from "../services/whatsappServices";
+import { useConversationNotes, useInboxCounts, useLeadMessages, useRecentConversations } from "../hooks/useWhatsapp";
+import WhatsappMessageContent from "../components/WhatsappMessageContent";
+import WhatsappConversationControls from "../components/WhatsappConversationControls";
+import { CheckCircle2, AlertCircle, XCircle, Search, Filter, PlusCircle, MoreVertical, Inbox, RefreshCw, Paperclip, Send, User, UserX, StickyNote } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/feedback/tooltip"; // Updated
 import { format, isToday, isYesterday, isSameWeek } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
 export default function WhatsappPage() {
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedTab, setSelectedTab] = useState("all");
-  const { openWhatsappChat, connectionStatus, refreshConnectionStatus } = useWhatsappContext();
+  const { connectionStatus, refreshConnectionStatus } = useWhatsappContext();
+
+  // Caixa de entrada: minhas, sem responsável ou todas, filtradas pelo status da conversa
+  const [inboxView, setInboxView] = useState<WhatsappInboxView>("mine");
+  const [statusFilter, setStatusFilter] = useState<WhatsappConversationStatus | "any">("open");
 
   // Estado para o lead selecionado na lista
-  const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
-  const [activeTab, setActiveTab] = useState('all');
+  const [selectedLead, setSelectedLead] = useState<WhatsappConversation["lead"] | null>(null);
   const endOfMessagesRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
-  
-  // Buscar todos os leads
-  const { data: leads = [], isLoading } = useQuery<Lead[]>({
-    queryKey: ["/api/leads"],
-  });
-  
-  // Mensagem mais recente para exibir na prévia
-  const { data: allMessages = {} } = useQuery<{[leadId: string]: WhatsappMessage[]}>({
-    queryKey: ['/api/whatsapp/recent-messages'],
-    refetchInterval: 30000, // Atualiza a cada 30 segundos
-  });
-  
-  /*
-   * Filtrar leads com base em 3 critérios:
-   * 1. Somente mostrar Leonardo Soledade (ID 14776) inicialmente
-   * 2. Adicionar outros leads à lista quando eles tiverem mensagens
-   * 3. Aplicar os filtros de busca e tab selecionada
-   * 
-   * Isso reduz o lag inicial ao carregar a página, mostrando apenas
-   * as conversas realmente relevantes.
-   */
-  const filteredLeads = leads.filter((lead: Lead) => {
-    // Verifica se é o Leonardo Soledade (ID 14776) ou se tem mensagens enviadas/recebidas
-    const isLeonardo = lead.id === 14776;
-    const hasMessages = Object.keys(allMessages || {})
-      .map(id => parseInt(id))
-      .includes(lead.id);
-    
-    // Se não for o Leonardo e não tiver mensagens, não mostra na lista
-    if (!isLeonardo && !hasMessages) return false;
-    
-    // Aplica o filtro de busca
-    const matchesSearch = searchQuery === "" ||
-      lead.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (lead.phone && lead.phone.includes(searchQuery)) ||
-      (lead.email && lead.email.toLowerCase().includes(searchQuery.toLowerCase()));
 
-    if (selectedTab === "all") return matchesSearch;
-    return matchesSearch && lead.status.toLowerCase() === selectedTab.toLowerCase();
-  });
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 400);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Conversas com a mensagem mais recente de cada lead; a busca ignora os filtros e também encontra leads
+  // sem mensagens, para iniciar uma conversa. Atualizadas em tempo real (useWhatsappRealtime)
+  const { data: conversations = [], isLoading } = useRecentConversations(
+    debouncedSearch, inboxView, statusFilter === "any" ? null : statusFilter);
+  const { data: inboxCounts } = useInboxCounts();
+
+  // A conversa aberta pode sair do filtro (ex.: ao fechá-la); o último estado conhecido continua no cabeçalho
+  const [selectedConversation, setSelectedConversation] = useState<WhatsappConversation["conversation"]>(null);
+  const listedConversation = conversations.find(item => item.lead.id === selectedLead?.id);
+  useEffect(() => {
+    if (listedConversation) setSelectedConversation(listedConversation.conversation);
+  }, [listedConversation]);
+
+  const selectConversation = ({ lead, conversation }: WhatsappConversation) => {
+    setSelectedLead(lead);
+    setSelectedConversation(conversation);
+  };
+
+  // Abrir a conversa, ou receber mensagens com ela aberta, zera as não lidas
+  const unreadCount = selectedConversation?.unreadCount ?? 0;
+  useEffect(() => {
+    if (!selectedLead || unreadCount === 0) return;
+    markWhatsappConversationRead(selectedLead.id)
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: ['whatsappConversations'] });
+        queryClient.invalidateQueries({ queryKey: ['whatsappInboxCounts'] });
+      })
+      .catch(() => undefined); // volta a tentar na próxima atualização da lista
+  }, [selectedLead, unreadCount]);
   
   // Formatar a data para exibição
   const formatMessageDate = (date: Date | string) => {
@@ -82,106 +88,93 @@ export default function WhatsappPage() {
     }
   };
   
-  // Buscar mensagens do lead selecionado
-  const { data: messages = [] } = useQuery<WhatsappMessage[]>({
-    queryKey: selectedLead ? [`/api/whatsapp/lead/${selectedLead.id}`] : ['no-messages'],
-    enabled: !!selectedLead,
-    refetchInterval: selectedLead ? 10000 : false, // Atualizar a cada 10 segundos se tiver um lead selecionado
-  });
+  // Buscar mensagens e notas internas do lead selecionado, intercaladas por data
+  const { data: messages = [] } = useLeadMessages(selectedLead?.id);
+  const { data: notes = [] } = useConversationNotes(selectedLead?.id);
+  const thread = [
+    ...messages.map(message => ({ kind: 'message' as const, at: new Date(message.timestamp).getTime(), message })),
+    ...notes.map(note => ({ kind: 'note' as const, at: new Date(note.createdAt).getTime(), note })),
+  ].sort((a, b) => a.at - b.at);
   
-  const getLastMessage = (leadId: number) => {
-    const leadMessages = allMessages[leadId] || [];
-    if (leadMessages.length === 0) {
+  const getLastMessage = (lastMessage: WhatsappConversation["lastMessage"]) => {
+    if (!lastMessage) {
       return 'Nenhuma mensagem ainda...';
     }
-    
-    const lastMessage = leadMessages[0]; // A primeira mensagem do array será a mais recente
     const prefix = lastMessage.direction === 'outgoing' ? 'Você: ' : '';
     return `${prefix}${lastMessage.content}`;
   };
   
-  const getLastMessageTime = (leadId: number) => {
-    const leadMessages = allMessages[leadId] || [];
-    if (leadMessages.length === 0) {
-      return null;
-    }
-    
-    return new Date(leadMessages[0].timestamp);
-  };
-  
-  // Estado para a mensagem a ser enviada
+  // Estado para a mensagem a ser enviada; no modo nota o texto vira uma nota interna, que não vai para o lead
   const [messageText, setMessageText] = useState("");
+  const [isNoteMode, setIsNoteMode] = useState(false);
+  const canAddNote = !!selectedConversation;
+  const noteMode = isNoteMode && canAddNote;
   
   // Efeito para rolar para o final das mensagens quando novas mensagens chegarem
   useEffect(() => {
     if (endOfMessagesRef.current) {
       endOfMessagesRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages]);
+  }, [messages, notes]);
   
   // Mutação para enviar mensagem
   const { mutate: sendMessage, isPending: isSending } = useMutation({
     mutationFn: async (content: string) => {
       if (!selectedLead) return null;
-      
-      return fetch('/api/whatsapp/send', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          leadId: selectedLead.id,
-          direction: 'outgoing',
-          content,
-          status: 'pending',
-        }),
-      }).then(async res => {
-        const responseData = await res.json();
-        
-        if (!res.ok) {
-          // Verificar se o erro é de número não autorizado
-          if (responseData.unauthorizedNumber) {
-            throw new Error(
-              'Número não autorizado: Este número não está na lista de permissões da API do WhatsApp. ' +
-              'Em modo de desenvolvimento, você só pode enviar mensagens para números previamente autorizados.'
-            );
-          }
-          throw new Error(responseData.error || 'Falha ao enviar mensagem');
-        }
-        
-        return responseData;
-      });
+      return sendWhatsappMessage(selectedLead.id, content);
     },
     onSuccess: () => {
       // Limpar o campo de mensagem
       setMessageText('');
-      
-      // Atualizar a lista de mensagens
-      if (selectedLead) {
-        // Invalidar tanto a consulta de mensagens específicas quanto a de mensagens recentes
-        queryClient.invalidateQueries({ queryKey: [`/api/whatsapp/lead/${selectedLead.id}`] });
-        queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/recent-messages'] });
-      }
     },
     onError: (error) => {
-      console.error('Erro ao enviar mensagem:', error);
-      
-      // Exibir notificação de erro usando o toast
       toast({
         title: "Erro ao enviar mensagem",
-        description: error instanceof Error ? error.message : 'Falha ao enviar mensagem',
+        description: getSessionErrorMessage(error, 'Falha ao enviar mensagem'),
         variant: "destructive",
       });
     },
+    // A tentativa fica registrada mesmo quando falha
+    onSettled: () => {
+      if (selectedLead) {
+        queryClient.invalidateQueries({ queryKey: ['whatsappMessages', selectedLead.id] });
+        queryClient.invalidateQueries({ queryKey: ['whatsappConversations'] });
+      }
+    },
   });
   
-  // Função para lidar com o envio de mensagem
-  const handleSendMessage = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (messageText.trim() && !isSending) {
+  const { mutate: saveNote, isPending: isSavingNote } = useMutation({
+    mutationFn: (content: string) => addConversationNote(selectedLead!.id, content),
+    onSuccess: () => {
+      setMessageText('');
+      if (selectedLead) queryClient.invalidateQueries({ queryKey: ['whatsappNotes', selectedLead.id] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao salvar nota",
+        description: getSessionErrorMessage(error, 'Falha ao salvar a nota'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isSubmitting = isSending || isSavingNote;
+  const canSubmit = !!messageText.trim() && !isSubmitting && (noteMode || connectionStatus.status === 'connected');
+
+  // Função para lidar com o envio de mensagem ou nota
+  const submitComposer = () => {
+    if (!canSubmit) return;
+    if (noteMode) {
+      saveNote(messageText.trim());
+    } else {
       sendMessage(messageText.trim());
     }
   };
+
+  const handleSendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitComposer();
+  };
   
   return (
     <div className="flex flex-col h-[calc(100vh-8rem)] w-full bg-background rounded-lg border">
@@ -218,6 +211,14 @@ export default function WhatsappPage() {
               <RefreshCw className="h-3.5 w-3.5 mr-1" />
               Verificar
             </Button>
+            <Button 
+              onClick={() => window.location.href = '/whatsapp/campanhas'} 
+              variant="outline" 
+              size="sm"
+              className="h-7"
+            >
+              Campanhas
+            </Button>
             <Button 
               onClick={() => window.location.href = '/whatsapp/config'} 
               variant="outline" 
@@ -237,18 +238,29 @@ export default function WhatsappPage() {
           <div className="p-4 border-b">
             <div className="flex items-center justify-between mb-3">
               <h2 className="text-lg font-semibold">Conversas</h2>
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button variant="ghost" size="icon" className="h-8 w-8">
-                      <PlusCircle className="h-5 w-5 text-muted-foreground" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Nova conversa</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
+              <div className="flex items-center gap-1">
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as WhatsappConversationStatus | "any")}>
+                  <SelectTrigger className="h-8 w-[120px] text-xs"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="open">Abertas</SelectItem>
+                    <SelectItem value="pending">Pendentes</SelectItem>
+                    <SelectItem value="closed">Fechadas</SelectItem>
+                    <SelectItem value="any">Todos os status</SelectItem>
+                  </SelectContent>
+                </Select>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8">
+                        <PlusCircle className="h-5 w-5 text-muted-foreground" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Nova conversa</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </div>
             </div>
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -262,24 +274,21 @@ export default function WhatsappPage() {
           </div>
           
           <div className="border-b">
-            <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-              <TabsList className="grid w-full grid-cols-4">
-                <TabsTrigger value="all" className="text-xs">
-                  <Inbox className="h-3.5 w-3.5 mr-1.5" />
-                  Todos
-                </TabsTrigger>
-                <TabsTrigger value="novo" className="text-xs">
-                  <Badge variant="secondary" className="h-4 w-4 p-0 text-[10px] mr-1.5 flex items-center justify-center">3</Badge>
-                  Novos
-                </TabsTrigger>
-                <TabsTrigger value="contatado" className="text-xs">
-                  <Clock className="h-3.5 w-3.5 mr-1.5" />
-                  Recentes
-                </TabsTrigger>
-                <TabsTrigger value="qualificado" className="text-xs">
-                  <Star className="h-3.5 w-3.5 mr-1.5" />
-                  Favoritos
-                </TabsTrigger>
+            <Tabs value={inboxView} onValueChange={(value) => setInboxView(value as WhatsappInboxView)} className="w-full">
+              <TabsList className="grid w-full grid-cols-3">
+                {([
+                  { value: "mine", label: "Minhas", icon: User },
+                  { value: "unassigned", label: "Sem responsável", icon: UserX },
+                  { value: "all", label: "Todas", icon: Inbox },
+                ] as const).map(({ value, label, icon: Icon }) => (
+                  <TabsTrigger key={value} value={value} className="text-xs">
+                    <Icon className="h-3.5 w-3.5 mr-1.5" />
+                    {label}
+                    {!!inboxCounts?.[value] && (
+                      <Badge className="h-4 min-w-4 px-1 text-[10px] ml-1.5 flex items-center justify-center">{inboxCounts[value]}</Badge>
+                    )}
+                  </TabsTrigger>
+                ))}
               </TabsList>
             </Tabs>
           </div>
@@ -289,47 +298,63 @@ export default function WhatsappPage() {
               <div className="flex justify-center items-center h-full">
                 <div className="animate-spin rounded-full h-8 w-8 border-2 border-t-primary border-r-transparent border-b-primary border-l-transparent"></div>
               </div>
-            ) : filteredLeads.length === 0 ? (
+            ) : conversations.length === 0 ? (
               <div className="flex flex-col items-center justify-center h-full text-center p-4">
                 <div className="bg-muted rounded-full p-3 mb-3">
                   <Inbox className="h-5 w-5 text-muted-foreground" />
                 </div>
                 <h3 className="font-medium mb-1">Nenhuma conversa encontrada</h3>
                 <p className="text-sm text-muted-foreground">
-                  Não foram encontrados resultados para sua busca.
+                  {debouncedSearch
+                    ? 'Não foram encontrados resultados para sua busca.'
+                    : 'Nenhuma conversa nesta caixa. Busque um lead pelo nome ou telefone para iniciar uma conversa.'}
                 </p>
               </div>
             ) : (
               <ul className="divide-y">
-                {filteredLeads.map((lead) => (
-                  <li 
-                    key={lead.id} 
-                    className={`hover:bg-muted/50 cursor-pointer transition-colors duration-200 ${selectedLead?.id === lead.id ? 'bg-muted' : ''}`}
-                    onClick={() => setSelectedLead(lead)}
-                  >
-                    <div className="p-3 sm:p-4 flex items-start">
-                      <Avatar className="h-10 w-10 mr-3 flex-shrink-0">
-                        <AvatarFallback className="bg-primary-light text-white">
-                          {lead.name.substring(0, 2).toUpperCase()}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-start justify-between">
-                          <h3 className="font-medium text-sm truncate">{lead.name}</h3>
-                          <span className="text-xs text-muted-foreground whitespace-nowrap ml-2">
-                            {formatMessageDate(lead.updatedAt)}
-                          </span>
+                {conversations.map((item) => {
+                  const { lead, conversation, lastMessage } = item;
+                  const unread = conversation?.unreadCount ?? 0;
+                  return (
+                    <li 
+                      key={lead.id} 
+                      className={`hover:bg-muted/50 cursor-pointer transition-colors duration-200 ${selectedLead?.id === lead.id ? 'bg-muted' : ''}`}
+                      onClick={() => selectConversation(item)}
+                    >
+                      <div className="p-3 sm:p-4 flex items-start">
+                        <Avatar className="h-10 w-10 mr-3 flex-shrink-0">
+                          <AvatarFallback className="bg-primary-light text-white">
+                            {lead.name.substring(0, 2).toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-start justify-between">
+                            <h3 className={`text-sm truncate ${unread > 0 ? 'font-semibold' : 'font-medium'}`}>{lead.name}</h3>
+                            {lastMessage && (
+                              <span className="text-xs text-muted-foreground whitespace-nowrap ml-2">
+                                {formatMessageDate(lastMessage.timestamp)}
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground truncate mt-1">
+                            {lead.phone || 'Sem telefone'}
+                            {conversation && ` · ${conversation.ownerName || 'Sem responsável'}`}
+                          </p>
+                          <div className="flex items-center justify-between gap-2 mt-0.5">
+                            <p className={`text-xs truncate ${unread > 0 ? 'font-medium' : ''}`}>
+                              {getLastMessage(lastMessage)}
+                            </p>
+                            {unread > 0 ? (
+                              <Badge className="h-5 min-w-5 px-1.5 text-[10px] rounded-full shrink-0">{unread}</Badge>
+                            ) : conversation && statusFilter === "any" && (
+                              <span className="text-[10px] text-muted-foreground shrink-0">{CONVERSATION_STATUS_LABELS[conversation.status]}</span>
+                            )}
+                          </div>
                         </div>
-                        <p className="text-xs text-muted-foreground truncate mt-1">
-                          {lead.phone || 'Sem telefone'}
-                        </p>
-                        <p className="text-xs truncate mt-0.5">
-                          {getLastMessage(lead.id)}
-                        </p>
                       </div>
-                    </div>
-                  </li>
-                ))}
+                    </li>
+                  );
+                })}
               </ul>
             )}
           </div>
@@ -353,6 +378,9 @@ export default function WhatsappPage() {
                   </div>
                 </div>
                 <div className="flex items-center space-x-1">
+                  {selectedConversation && (
+                    <WhatsappConversationControls leadId={selectedLead.id} conversation={selectedConversation} />
+                  )}
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -370,7 +398,7 @@ export default function WhatsappPage() {
               
               {/* Área de mensagens */}
               <div className="flex-1 overflow-y-auto p-4 space-y-3" style={{ backgroundImage: 'url("data:image/svg+xml,%3Csvg width=\'20\' height=\'20\' viewBox=\'0 0 40 40\' xmlns=\'http://www.w3.org/2000/svg\'%3E%3Cg fill=\'%239C92AC\' fill-opacity=\'0.05\' fill-rule=\'evenodd\'%3E%3Cpath d=\'M0 20L20 0h20L0 40z\'/%3E%3Cpath d=\'M20 40L40 20 40 40z\'/%3E%3C/g%3E%3C/svg%3E")' }}>
-                {messages.length === 0 ? (
+                {thread.length === 0 ? (
                   <div className="flex flex-col items-center justify-center h-full text-center">
                     <div className="bg-muted rounded-full p-4 mb-3">
                       <Inbox className="h-6 w-6 text-muted-foreground" />
@@ -379,35 +407,41 @@ export default function WhatsappPage() {
                     <p className="text-sm text-muted-foreground">
                       Envie uma mensagem para iniciar a conversa.
                     </p>
-                    <Button className="mt-4" onClick={() => openWhatsappChat(selectedLead)}>
-                      <span className="material-icons text-sm mr-2">chat</span>
-                      Iniciar Conversa
-                    </Button>
                   </div>
                 ) : (
                   <>
-                    {messages.map((message) => (
+                    {thread.map((item) => item.kind === 'note' ? (
+                      <div key={`note-${item.note.id}`} className="flex justify-center">
+                        <div className="max-w-md w-full rounded-lg border border-amber-200 bg-amber-50 dark:bg-amber-950/40 dark:border-amber-900 p-3 text-sm">
+                          <div className="flex items-center text-xs text-amber-700 dark:text-amber-400 mb-1">
+                            <StickyNote className="h-3.5 w-3.5 mr-1" />
+                            Nota interna{item.note.authorName ? ` · ${item.note.authorName}` : ''} · {formatMessageDate(item.note.createdAt)}
+                          </div>
+                          <p className="whitespace-pre-wrap break-words">{item.note.content}</p>
+                        </div>
+                      </div>
+                    ) : (
                       <div 
-                        key={message.id} 
-                        className={`flex ${message.direction === 'outgoing' ? 'justify-end' : 'justify-start'}`}
+                        key={item.message.id} 
+                        className={`flex ${item.message.direction === 'outgoing' ? 'justify-end' : 'justify-start'}`}
                       >
                         <div 
-                          className={`max-w-xs md:max-w-sm rounded-lg p-3 ${message.direction === 'outgoing' 
+                          className={`max-w-xs md:max-w-sm rounded-lg p-3 ${item.message.direction === 'outgoing' 
                             ? 'bg-primary text-primary-foreground rounded-br-none' 
                             : 'bg-card dark:bg-gray-700 rounded-bl-none'}`}
                         >
-                          <p className="whitespace-pre-wrap break-words text-sm">{message.content}</p>
+                          <WhatsappMessageContent message={item.message} />
                           <div className="text-xs opacity-80 text-right mt-1 flex justify-end items-center">
-                            {formatMessageDate(message.timestamp)}
-                            {message.direction === 'outgoing' && (
+                            {formatMessageDate(item.message.timestamp)}
+                            {item.message.direction === 'outgoing' && (
                               <span className="ml-1">
-                                {message.status === 'read' ? (
+                                {item.message.status === 'read' ? (
                                   <span className="text-blue-400">✓✓</span>
-                                ) : message.status === 'delivered' ? (
+                                ) : item.message.status === 'delivered' ? (
                                   <span>✓✓</span>
-                                ) : message.status === 'sent' ? (
+                                ) : item.message.status === 'sent' ? (
                                   <span>✓</span>
-                                ) : message.status === 'failed' ? (
+                                ) : item.message.status === 'failed' ? (
                                   <span className="text-red-500">⚠</span>
                                 ) : (
                                   <span className="opacity-50">⌛</span>
@@ -438,22 +472,42 @@ export default function WhatsappPage() {
                     </TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
+                {canAddNote && (
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          type="button"
+                          variant={noteMode ? "secondary" : "ghost"}
+                          size="icon"
+                          className="h-9 w-9 mr-1"
+                          onClick={() => setIsNoteMode(!isNoteMode)}
+                        >
+                          <StickyNote className={`h-5 w-5 ${noteMode ? 'text-amber-600' : 'text-muted-foreground'}`} />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>{noteMode ? 'Voltar a enviar mensagens' : 'Nota interna (só a equipe vê)'}</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                )}
                 <div className="flex-1 mr-2">
                   <textarea 
-                    className="w-full p-2 border rounded-lg focus:outline-none focus:ring-1 focus:ring-primary resize-none min-h-[40px] max-h-32" 
-                    placeholder="Digite uma mensagem"
+                    className={`w-full p-2 border rounded-lg focus:outline-none focus:ring-1 resize-none min-h-[40px] max-h-32 ${noteMode
+                      ? 'bg-amber-50 dark:bg-amber-950/40 border-amber-300 focus:ring-amber-500'
+                      : 'focus:ring-primary'}`} 
+                    placeholder={noteMode ? "Nota interna, não é enviada ao lead" : "Digite uma mensagem"}
                     rows={1}
                     value={messageText}
                     onChange={(e) => setMessageText(e.target.value)}
                     onKeyDown={(e) => {
                       if (e.key === 'Enter' && !e.shiftKey) {
                         e.preventDefault();
-                        if (messageText.trim() && !isSending) {
-                          sendMessage(messageText.trim());
-                        }
+                        submitComposer();
                       }
                     }}
-                    disabled={isSending || connectionStatus.status !== 'connected'}
+                    disabled={isSubmitting || (!noteMode && connectionStatus.status !== 'connected')}
                   />
                 </div>
                 <TooltipProvider>
@@ -462,17 +516,19 @@ export default function WhatsappPage() {
                       <Button 
                         type="submit" 
                         className="h-9 w-9 p-0 rounded-full"
-                        disabled={!messageText.trim() || isSending || connectionStatus.status !== 'connected'}
+                        disabled={!canSubmit}
                       >
-                        {isSending ? (
+                        {isSubmitting ? (
                           <div className="h-4 w-4 animate-spin rounded-full border-2 border-t-transparent border-white" />
+                        ) : noteMode ? (
+                          <StickyNote className="h-4 w-4" />
                         ) : (
                           <Send className="h-4 w-4" />
                         )}
                       </Button>
                     </TooltipTrigger>
                     <TooltipContent>
-                      <p>Enviar mensagem</p>
+                      <p>{noteMode ? 'Salvar nota' : 'Enviar mensagem'}</p>
                     </TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
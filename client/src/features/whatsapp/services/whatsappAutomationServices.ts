@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+import type { WhatsappAutomationRuleRow, WhatsappAutomationRunRow, WhatsappBusinessHoursRow, whatsappAutomationRuleValidationSchema, whatsappAutomationTriggers } from "@shared/schema";
+
+// Automation rules (whatsapp-manager /automations): evaluated by the webhook for each incoming message.
+// Business hours are weekly slots in the studio's local time, saved as a whole
+
+export type WhatsappAutomationTrigger = typeof whatsappAutomationTriggers[number];
+export type WhatsappAutomationRuleInput = z.infer<typeof whatsappAutomationRuleValidationSchema>;
+
+export const AUTOMATION_TRIGGER_LABELS: Record<WhatsappAutomationTrigger, string> = {
+  keyword: "Palavra-chave",
+  regex: "Expressão regular",
+  first_contact: "Primeiro contato",
+  outside_hours: "Fora do horário de atendimento",
+};
+
+export const AUTOMATION_RUN_STATUS_LABELS: Record<WhatsappAutomationRun["status"], string> = {
+  running: "Executando",
+  done: "Concluída",
+  failed: "Falhou",
+};
+
+export interface WhatsappAutomationRule extends WhatsappAutomationRuleInput {
+  id: number;
+  templateName: string | null;
+  templateActive: boolean;
+}
+
+export interface WhatsappAutomationRun {
+  id: number;
+  ruleId: number;
+  ruleName: string;
+  leadId: number;
+  leadName: string;
+  status: "running" | "done" | "failed";
+  sentMessageId: number | null;
+  taskId: number | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface WhatsappBusinessHoursSlot {
+  weekday: number; // 0 = domingo
+  startTime: string; // HH:MM
+  endTime: string;
+}
+
+const toAutomationRule = (row: WhatsappAutomationRuleRow): WhatsappAutomationRule => ({
+  id: row.id,
+  name: row.name,
+  triggerType: row.trigger_type,
+  triggerValue: row.trigger_value ?? "",
+  templateId: row.template_id ?? null,
+  templateName: row.template?.display_name ?? null,
+  templateActive: row.template?.active ?? false,
+  tag: row.tag ?? null,
+  taskTitle: row.task_title ?? null,
+  taskAssigneeId: row.task_assignee_id ?? null,
+  taskDueHours: row.task_due_hours,
+  cooldownMinutes: row.cooldown_minutes,
+  position: row.position,
+  active: row.active,
+});
+
+export const fetchWhatsappAutomations = async (): Promise<WhatsappAutomationRule[]> => {
+  const response = await invokeSupabaseFunction<{ data: WhatsappAutomationRuleRow[] }>("whatsapp-manager", "GET", undefined, { slug: "automations" });
+  return (response.data || []).map(toAutomationRule);
+};
+
+export const saveWhatsappAutomation = async (rule: WhatsappAutomationRuleInput, ruleId?: number): Promise<WhatsappAutomationRule> => {
+  const payload = {
+    name: rule.name,
+    trigger_type: rule.triggerType,
+    trigger_value: rule.triggerValue,
+    template_id: rule.templateId,
+    tag: rule.tag,
+    task_title: rule.taskTitle,
+    task_assignee_id: rule.taskAssigneeId,
+    task_due_hours: rule.taskDueHours,
+    cooldown_minutes: rule.cooldownMinutes,
+    position: rule.position,
+    active: rule.active,
+  };
+  const response = ruleId
+    ? await invokeSupabaseFunction<{ data: WhatsappAutomationRuleRow }>("whatsapp-manager", "PUT", payload, { slug: `automations/${ruleId}` })
+    : await invokeSupabaseFunction<{ data: WhatsappAutomationRuleRow }>("whatsapp-manager", "POST", payload, { slug: "automations" });
+  return toAutomationRule(response.data);
+};
+
+export const deleteWhatsappAutomation = (ruleId: number) =>
+  invokeSupabaseFunction("whatsapp-manager", "DELETE", undefined, { slug: `automations/${ruleId}` });
+
+export const fetchWhatsappAutomationRuns = async (ruleId?: number): Promise<WhatsappAutomationRun[]> => {
+  const params: Record<string, string> = ruleId ? { rule_id: String(ruleId) } : {};
+  const response = await invokeSupabaseFunction<{ data: WhatsappAutomationRunRow[] }>("whatsapp-manager", "GET", undefined, { slug: "automations/runs", params });
+  return (response.data || []).map(row => ({
+    id: row.id,
+    ruleId: row.rule_id,
+    ruleName: row.rule?.name ?? "Regra excluída",
+    leadId: row.lead_id,
+    leadName: row.lead?.name ?? "Lead excluído",
+    status: row.status,
+    sentMessageId: row.sent_message_id ?? null,
+    taskId: row.task_id ?? null,
+    error: row.error ?? null,
+    createdAt: row.created_at,
+  }));
+};
+
+export const fetchWhatsappBusinessHours = async (): Promise<WhatsappBusinessHoursSlot[]> => {
+  const response = await invokeSupabaseFunction<{ data: WhatsappBusinessHoursRow[] }>("whatsapp-manager", "GET", undefined, { slug: "automations/business-hours" });
+  return (response.data || []).map(row => ({
+    weekday: row.weekday,
+    startTime: row.start_time.slice(0, 5),
+    endTime: row.end_time.slice(0, 5),
+  }));
+};
+
+export const saveWhatsappBusinessHours = (slots: WhatsappBusinessHoursSlot[]) =>
+  invokeSupabaseFunction("whatsapp-manager", "PUT", {
+    slots: slots.map(slot => ({ weekday: slot.weekday, start_time: slot.startTime, end_time: slot.endTime })),
+  }, { slug: "automations/business-hours" });
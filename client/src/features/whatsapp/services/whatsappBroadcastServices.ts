@@ -0,0 +1,114 @@
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+import type { WhatsappBroadcastDetailsRow, WhatsappBroadcastRow, WhatsappTemplateParam } from "@shared/schema";
+
+// Broadcast campaigns (whatsapp-manager /broadcasts): one template sent to many leads through a throttled queue
+
+export type WhatsappBroadcastStatus = "queued" | "sending" | "paused" | "completed" | "cancelled";
+
+export const BROADCAST_STATUS_LABELS: Record<WhatsappBroadcastStatus, string> = {
+  queued: "Na fila",
+  sending: "Enviando",
+  paused: "Pausada",
+  completed: "Concluída",
+  cancelled: "Cancelada",
+};
+
+// Cumulative: delivered includes read and sent includes both
+export interface WhatsappBroadcastStats {
+  total: number;
+  queued: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface WhatsappBroadcastSummary {
+  id: number;
+  name: string;
+  templateId: number | null;
+  templateName: string;
+  status: WhatsappBroadcastStatus;
+  intervalSeconds: number;
+  createdBy: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  stats: WhatsappBroadcastStats;
+}
+
+export interface WhatsappBroadcastRecipientRow {
+  id: number;
+  leadId: number;
+  leadName: string;
+  leadPhone: string;
+  status: "queued" | "sending" | "sent" | "failed" | "skipped";
+  messageStatus: string | null; // status of the sent message: sent, delivered, read or failed
+  error: string | null;
+  processedAt: string | null;
+}
+
+export type WhatsappBroadcastDetails = WhatsappBroadcastSummary & { recipients: WhatsappBroadcastRecipientRow[] };
+
+const toBroadcastSummary = (row: WhatsappBroadcastRow): WhatsappBroadcastSummary => ({
+  id: row.id,
+  name: row.name,
+  templateId: row.template_id ?? null,
+  templateName: row.template_name,
+  status: row.status,
+  intervalSeconds: row.interval_seconds,
+  createdBy: row.creator?.full_name || row.creator?.username || null,
+  createdAt: row.created_at,
+  startedAt: row.started_at ?? null,
+  completedAt: row.completed_at ?? null,
+  stats: row.stats,
+});
+
+export const fetchWhatsappBroadcasts = async (): Promise<WhatsappBroadcastSummary[]> => {
+  const response = await invokeSupabaseFunction<{ data: WhatsappBroadcastRow[] }>("whatsapp-manager", "GET", undefined, { slug: "broadcasts" });
+  return (response.data || []).map(toBroadcastSummary);
+};
+
+export const fetchWhatsappBroadcast = async (broadcastId: number): Promise<WhatsappBroadcastDetails> => {
+  const response = await invokeSupabaseFunction<{ data: WhatsappBroadcastDetailsRow }>("whatsapp-manager", "GET", undefined, { slug: `broadcasts/${broadcastId}` });
+  return {
+    ...toBroadcastSummary(response.data),
+    recipients: (response.data.recipients || []).map(row => ({
+      id: row.id,
+      leadId: row.lead_id,
+      leadName: row.lead?.name ?? "",
+      leadPhone: row.lead?.phone ?? "",
+      status: row.status,
+      messageStatus: row.message?.status ?? null,
+      error: row.error ?? row.message?.error_message ?? null,
+      processedAt: row.processed_at ?? null,
+    })),
+  };
+};
+
+export interface WhatsappBroadcastInput {
+  name: string;
+  templateId?: number;
+  templateName: string;
+  languageCode?: string;
+  bodyParams: WhatsappTemplateParam[];
+  intervalSeconds: number;
+  leadIds: number[];
+}
+
+export const createWhatsappBroadcast = async (input: WhatsappBroadcastInput): Promise<WhatsappBroadcastSummary> => {
+  const response = await invokeSupabaseFunction<{ data: WhatsappBroadcastRow }>("whatsapp-manager", "POST", {
+    name: input.name,
+    template_id: input.templateId,
+    template_name: input.templateName,
+    language_code: input.languageCode,
+    body_params: input.bodyParams,
+    interval_seconds: input.intervalSeconds,
+    lead_ids: input.leadIds,
+  }, { slug: "broadcasts" });
+  return toBroadcastSummary(response.data);
+};
+
+export const changeWhatsappBroadcastStatus = (broadcastId: number, action: "pause" | "resume" | "cancel") =>
+  invokeSupabaseFunction("whatsapp-manager", "POST", undefined, { slug: `broadcasts/${broadcastId}/${action}` });
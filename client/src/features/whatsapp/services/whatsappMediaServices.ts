@@ -0,0 +1,86 @@
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+
+// Files the chat can send through whatsapp-manager /send-media/:type; keep in sync with SEND_MEDIA_RULES there
+
+export type WhatsappMediaType = "image" | "video" | "audio" | "document";
+
+export const WHATSAPP_MEDIA_RULES: Record<WhatsappMediaType, { label: string; mimetypes: string[]; maxMb: number }> = {
+  image: { label: "Imagem", mimetypes: ["image/jpeg", "image/png", "image/webp"], maxMb: 5 },
+  video: { label: "Vídeo", mimetypes: ["video/mp4", "video/3gpp"], maxMb: 16 },
+  audio: { label: "Áudio", mimetypes: ["audio/ogg", "audio/mpeg", "audio/mp4", "audio/aac", "audio/amr"], maxMb: 16 },
+  document: { label: "PDF", mimetypes: ["application/pdf"], maxMb: 20 },
+};
+
+// accept attribute of the file input
+export const WHATSAPP_MEDIA_ACCEPT = Object.values(WHATSAPP_MEDIA_RULES).flatMap(rule => rule.mimetypes).join(",");
+
+// Some browsers report M4A recordings as audio/x-m4a
+const normalizeMimetype = (file: File) => {
+  const mimetype = file.type.split(";")[0].trim();
+  return mimetype === "audio/x-m4a" ? "audio/mp4" : mimetype;
+};
+
+export const getWhatsappMediaType = (file: File): WhatsappMediaType | null => {
+  const mimetype = normalizeMimetype(file);
+  const entry = Object.entries(WHATSAPP_MEDIA_RULES).find(([, rule]) => rule.mimetypes.includes(mimetype));
+  return entry ? entry[0] as WhatsappMediaType : null;
+};
+
+// Error message for a file the server would reject, or null
+export const validateWhatsappMedia = (file: File): string | null => {
+  const type = getWhatsappMediaType(file);
+  if (!type) return "Tipo de arquivo não suportado. Envie imagens (JPEG, PNG, WebP), vídeos MP4, áudios ou PDFs.";
+  const { label, maxMb } = WHATSAPP_MEDIA_RULES[type];
+  if (file.size > maxMb * 1024 * 1024) return `${label} maior que o limite de ${maxMb} MB.`;
+  return null;
+};
+
+const THUMBNAIL_SIZE = 320;
+
+const drawThumbnail = (source: CanvasImageSource, width: number, height: number): Promise<Blob | null> => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext("2d")?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return new Promise(resolve => canvas.toBlob(resolve, "image/jpeg", 0.7));
+};
+
+// Small JPEG of an image, or of a video's first second, shown in the message list instead of the full file.
+// Resolves null when the browser can't decode the file; the message is sent without a preview
+export const createWhatsappThumbnail = (file: File): Promise<Blob | null> => {
+  const type = getWhatsappMediaType(file);
+  if (type !== "image" && type !== "video") return Promise.resolve(null);
+  const url = URL.createObjectURL(file);
+  const done = (result: Promise<Blob | null>) => result.catch(() => null).finally(() => URL.revokeObjectURL(url));
+
+  if (type === "image") {
+    return done(new Promise((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(drawThumbnail(image, image.naturalWidth, image.naturalHeight));
+      image.onerror = reject;
+      image.src = url;
+    }));
+  }
+  return done(new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.preload = "metadata";
+    video.onloadedmetadata = () => { video.currentTime = Math.min(1, video.duration / 2 || 0); };
+    video.onseeked = () => resolve(drawThumbnail(video, video.videoWidth, video.videoHeight));
+    video.onerror = reject;
+    video.src = url;
+  }));
+};
+
+export const sendWhatsappMedia = (leadId: number, file: File, caption: string, thumbnail: Blob | null) => {
+  const type = getWhatsappMediaType(file);
+  if (!type) return Promise.reject(new Error(validateWhatsappMedia(file) ?? "Tipo de arquivo não suportado."));
+  const form = new FormData();
+  form.append("lead_id", String(leadId));
+  form.append("caption", caption);
+  // Re-wrapped so the server sees the normalized type
+  form.append("file", new File([file], file.name, { type: normalizeMimetype(file) }));
+  if (thumbnail) form.append("thumbnail", thumbnail, "thumbnail.jpg");
+  return invokeSupabaseFunction("whatsapp-manager", "POST", form, { slug: `send-media/${type}` });
+};
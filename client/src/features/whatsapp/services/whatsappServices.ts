@@ -0,0 +1,215 @@
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+import { WhatsappMessage } from "@/types";
+import type {
+  WhatsappConfigRow, WhatsappConversationNoteRow, WhatsappConversationRow, WhatsappInboundSettingsRow, WhatsappMessageRow,
+} from "@shared/schema";
+
+// Client for the whatsapp-manager edge function; rows come back in snake_case and are mapped here
+
+export type WhatsappConnectionState = "connected" | "disconnected" | "error";
+
+export interface WhatsappStatus {
+  status: WhatsappConnectionState;
+  message?: string;
+  details?: {
+    name?: string;
+    phone?: string;
+    state?: string | null;
+    webhook_state?: string | null; // último connection.update recebido pelo webhook
+    webhook_state_at?: string | null;
+    [key: string]: unknown;
+  };
+}
+
+export interface WhatsappConfigSummary {
+  apiUrl: string;
+  apiInstance: string;
+  hasToken: boolean;
+  lastUpdated: string | null;
+  source: "database" | "env";
+}
+
+// thumbnailUrl is a signed link to the stored preview, not a column
+export type WhatsappChatMessage = WhatsappMessage & { thumbnailUrl: string | null };
+
+export type WhatsappConversationStatus = "open" | "pending" | "closed";
+export type WhatsappInboxView = "mine" | "unassigned" | "all";
+
+export const CONVERSATION_STATUS_LABELS: Record<WhatsappConversationStatus, string> = {
+  open: "Aberta",
+  pending: "Pendente",
+  closed: "Fechada",
+};
+
+export interface WhatsappConversation {
+  lead: { id: number; name: string; phone: string; email: string; status: string };
+  // null for leads found by the search that never exchanged messages
+  conversation: { ownerId: string | null; ownerName: string | null; status: WhatsappConversationStatus; unreadCount: number } | null;
+  lastMessage: Pick<WhatsappMessage, "id" | "direction" | "content" | "status" | "mediaType" | "timestamp"> | null;
+}
+
+// Conversations with unread messages per inbox view
+export type WhatsappInboxCounts = Record<WhatsappInboxView, number>;
+
+export interface WhatsappConversationNote {
+  id: number;
+  leadId: number;
+  content: string;
+  authorName: string | null;
+  createdAt: string;
+}
+
+const toWhatsappMessage = (row: WhatsappMessageRow): WhatsappChatMessage => ({
+  id: row.id,
+  leadId: row.lead_id,
+  direction: row.direction,
+  content: row.content,
+  status: row.status,
+  timestamp: new Date(row.timestamp),
+  mediaUrl: row.media_url ?? null,
+  mediaType: row.media_type ?? null,
+  messageId: row.message_id ?? null,
+  errorMessage: row.error_message ?? null,
+  mediaPath: row.media_path ?? null,
+  mediaMimeType: row.media_mime_type ?? null,
+  thumbnailPath: row.thumbnail_path ?? null,
+  thumbnailUrl: row.thumbnail_url ?? null,
+  metadata: row.metadata ?? null,
+});
+
+export const fetchLeadMessages = async (leadId: number): Promise<WhatsappChatMessage[]> => {
+  const response = await invokeSupabaseFunction<{ data: WhatsappMessageRow[] }>("whatsapp-manager", "GET", undefined, { slug: `lead/${leadId}` });
+  return (response.data || []).map(toWhatsappMessage);
+};
+
+// A search ignores view and status and also finds leads without messages
+export const fetchRecentConversations = async (
+  search: string,
+  view: WhatsappInboxView = "all",
+  status: WhatsappConversationStatus | null = null,
+): Promise<WhatsappConversation[]> => {
+  const params: Record<string, string> = { view };
+  if (status) params.status = status;
+  if (search.trim()) params.search = search.trim();
+  const response = await invokeSupabaseFunction<{ data: WhatsappConversationRow[] }>("whatsapp-manager", "GET", undefined, { slug: "recent-messages", params });
+  return (response.data || []).map(row => ({
+    lead: row.lead,
+    conversation: row.conversation ? {
+      ownerId: row.conversation.owner_id ?? null,
+      ownerName: row.conversation.owner_name ?? null,
+      status: row.conversation.status,
+      unreadCount: row.conversation.unread_count ?? 0,
+    } : null,
+    lastMessage: row.last_message ? {
+      id: row.last_message.id,
+      direction: row.last_message.direction,
+      content: row.last_message.content,
+      status: row.last_message.status,
+      mediaType: row.last_message.media_type,
+      timestamp: new Date(row.last_message.timestamp),
+    } : null,
+  }));
+};
+
+export const fetchInboxCounts = async (): Promise<WhatsappInboxCounts> => {
+  const response = await invokeSupabaseFunction<{ data: WhatsappInboxCounts }>("whatsapp-manager", "GET", undefined, { slug: "inbox-counts" });
+  return response.data;
+};
+
+export const updateWhatsappConversation = (leadId: number, changes: { ownerId?: string | null; status?: WhatsappConversationStatus }) =>
+  invokeSupabaseFunction("whatsapp-manager", "PATCH", { owner_id: changes.ownerId, status: changes.status }, { slug: `conversations/${leadId}` });
+
+export const markWhatsappConversationRead = (leadId: number) =>
+  invokeSupabaseFunction("whatsapp-manager", "POST", undefined, { slug: `conversations/${leadId}/read` });
+
+const toConversationNote = (row: WhatsappConversationNoteRow): WhatsappConversationNote => ({
+  id: row.id,
+  leadId: row.lead_id,
+  content: row.content,
+  authorName: row.author?.full_name || row.author?.username || null,
+  createdAt: row.created_at,
+});
+
+export const fetchConversationNotes = async (leadId: number): Promise<WhatsappConversationNote[]> => {
+  const response = await invokeSupabaseFunction<{ data: WhatsappConversationNoteRow[] }>("whatsapp-manager", "GET", undefined, { slug: `conversations/${leadId}/notes` });
+  return (response.data || []).map(toConversationNote);
+};
+
+export const addConversationNote = async (leadId: number, content: string): Promise<WhatsappConversationNote> => {
+  const response = await invokeSupabaseFunction<{ data: WhatsappConversationNoteRow }>("whatsapp-manager", "POST", { content }, { slug: `conversations/${leadId}/notes` });
+  return toConversationNote(response.data);
+};
+
+// Failed sends are stored too (status "failed"), so callers refresh the messages on error as well
+export const sendWhatsappMessage = (leadId: number, content: string) =>
+  invokeSupabaseFunction("whatsapp-manager", "POST", { lead_id: leadId, content }, { slug: "send" });
+
+// Library template; the server fills its params from the lead
+export const sendWhatsappTemplate = (leadId: number, templateId: number) =>
+  invokeSupabaseFunction("whatsapp-manager", "POST", { lead_id: leadId, template_id: templateId }, { slug: "send-template" });
+
+export const fetchWhatsappStatus = async (): Promise<WhatsappStatus> => {
+  const response = await invokeSupabaseFunction<{ data: WhatsappStatus }>("whatsapp-manager", "GET", undefined, { slug: "status" });
+  return response.data;
+};
+
+export const fetchWhatsappConfig = async (): Promise<WhatsappConfigSummary | null> => {
+  const response = await invokeSupabaseFunction<{ data: WhatsappConfigRow | null }>("whatsapp-manager", "GET", undefined, { slug: "config" });
+  const config = response.data;
+  if (!config) return null;
+  return {
+    apiUrl: config.api_url,
+    apiInstance: config.api_instance,
+    hasToken: config.has_token,
+    lastUpdated: config.updated_at,
+    source: config.source,
+  };
+};
+
+// An empty token keeps the one already saved
+export const saveWhatsappConfig = (config: { apiUrl: string; apiToken?: string; apiInstance: string }) =>
+  invokeSupabaseFunction("whatsapp-manager", "POST", {
+    api_url: config.apiUrl,
+    api_token: config.apiToken || undefined,
+    api_instance: config.apiInstance,
+  }, { slug: "config" });
+
+export const fetchWhatsappQrCode = async (): Promise<{ qrcode: string | null; pairingCode: string | null }> => {
+  const response = await invokeSupabaseFunction<{ data: { qrcode: string | null; pairing_code: string | null } }>(
+    "whatsapp-manager", "GET", undefined, { slug: "qrcode" },
+  );
+  return { qrcode: response.data?.qrcode ?? null, pairingCode: response.data?.pairing_code ?? null };
+};
+
+// Leads created for unknown numbers that message us (admin only)
+export interface WhatsappInboundSettings {
+  autoCreateLeads: boolean;
+  defaultSource: string;
+  dddSources: Record<string, string>;
+  triageUserId: string | null;
+  triageDueHours: number;
+}
+
+const toInboundSettings = (row: WhatsappInboundSettingsRow): WhatsappInboundSettings => ({
+  autoCreateLeads: row.auto_create_leads,
+  defaultSource: row.default_source,
+  dddSources: row.ddd_sources || {},
+  triageUserId: row.triage_user_id ?? null,
+  triageDueHours: row.triage_due_hours,
+});
+
+export const fetchInboundSettings = async (): Promise<WhatsappInboundSettings> => {
+  const response = await invokeSupabaseFunction<{ data: WhatsappInboundSettingsRow }>("whatsapp-manager", "GET", undefined, { slug: "inbound-settings" });
+  return toInboundSettings(response.data);
+};
+
+export const updateInboundSettings = async (changes: Partial<WhatsappInboundSettings>): Promise<WhatsappInboundSettings> => {
+  const payload: Record<string, unknown> = {};
+  if (changes.autoCreateLeads !== undefined) payload.auto_create_leads = changes.autoCreateLeads;
+  if (changes.defaultSource !== undefined) payload.default_source = changes.defaultSource;
+  if (changes.dddSources !== undefined) payload.ddd_sources = changes.dddSources;
+  if (changes.triageUserId !== undefined) payload.triage_user_id = changes.triageUserId;
+  if (changes.triageDueHours !== undefined) payload.triage_due_hours = changes.triageDueHours;
+  const response = await invokeSupabaseFunction<{ data: WhatsappInboundSettingsRow }>("whatsapp-manager", "PUT", payload, { slug: "inbound-settings" });
+  return toInboundSettings(response.data);
+};
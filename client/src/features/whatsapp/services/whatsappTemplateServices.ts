@@ -0,0 +1,117 @@
+import { invokeSupabaseFunction } from "@/lib/queryClient";
+import type { Lead } from "@/types";
+import type { WhatsappTemplateButton, WhatsappTemplateParam, WhatsappTemplateRow, whatsappTemplateLeadFields } from "@shared/schema";
+
+// Template library (whatsapp-manager /templates). Values are filled here with the same rules the server
+// uses when sending, so the preview shows exactly what the lead receives
+
+export type WhatsappTemplateLeadField = typeof whatsappTemplateLeadFields[number];
+export type WhatsappTemplateCategory = "MARKETING" | "UTILITY" | "AUTHENTICATION";
+export type WhatsappTemplateHeaderType = "none" | "text" | "image" | "video" | "document";
+
+export interface WhatsappTemplate {
+  id: number;
+  name: string; // name approved in Meta
+  displayName: string;
+  description: string;
+  languageCode: string;
+  category: WhatsappTemplateCategory;
+  headerType: WhatsappTemplateHeaderType;
+  headerContent: string | null;
+  body: string;
+  bodyParams: WhatsappTemplateParam[];
+  buttons: WhatsappTemplateButton[];
+  active: boolean;
+}
+
+export type WhatsappTemplateInput = Omit<WhatsappTemplate, "id">;
+
+export const TEMPLATE_LEAD_FIELD_LABELS: Record<WhatsappTemplateLeadField, string> = {
+  name: "Nome completo",
+  first_name: "Primeiro nome",
+  email: "E-mail",
+  phone: "Telefone",
+  state: "Estado",
+  campaign: "Campanha",
+  source: "Origem",
+};
+
+export const TEMPLATE_CATEGORY_LABELS: Record<WhatsappTemplateCategory, string> = {
+  MARKETING: "Marketing",
+  UTILITY: "Utilitários",
+  AUTHENTICATION: "Autenticação",
+};
+
+export const TEMPLATE_HEADER_LABELS: Record<WhatsappTemplateHeaderType, string> = {
+  none: "Sem cabeçalho",
+  text: "Texto",
+  image: "Imagem",
+  video: "Vídeo",
+  document: "Documento",
+};
+
+// Lead used by previews when no real lead is at hand
+export const SAMPLE_TEMPLATE_LEAD: Pick<Lead, "name" | "email" | "phone" | "state" | "campaign" | "source"> = {
+  name: "Maria Silva",
+  email: "maria@exemplo.com",
+  phone: "(11) 99999-8888",
+  state: "SP",
+  campaign: "Instagram",
+  source: "Favale",
+};
+
+type TemplateLead = Partial<Pick<Lead, "name" | "email" | "phone" | "state" | "campaign" | "source">>;
+
+export const templateParamValue = (lead: TemplateLead, param: WhatsappTemplateParam): string => {
+  if (param.type === "text") return param.value;
+  const value = param.value === "first_name" ? String(lead.name ?? "").trim().split(/\s+/)[0] : lead[param.value];
+  return String(value ?? "").trim() || "-"; // WhatsApp rejects empty template parameters
+};
+
+// Placeholders without a value yet stay visible
+export const renderTemplateBody = (body: string, values: string[]) =>
+  body.replace(/\{\{(\d+)\}\}/g, (placeholder, n) => values[Number(n) - 1] || placeholder);
+
+const toWhatsappTemplate = (row: WhatsappTemplateRow): WhatsappTemplate => ({
+  id: row.id,
+  name: row.name,
+  displayName: row.display_name,
+  description: row.description ?? "",
+  languageCode: row.language_code,
+  category: row.category,
+  headerType: row.header_type,
+  headerContent: row.header_content ?? null,
+  body: row.body,
+  bodyParams: row.body_params || [],
+  buttons: row.buttons || [],
+  active: row.active,
+});
+
+export const fetchWhatsappTemplates = async (activeOnly = false): Promise<WhatsappTemplate[]> => {
+  const params: Record<string, string> = activeOnly ? { active: "true" } : {};
+  const response = await invokeSupabaseFunction<{ data: WhatsappTemplateRow[] }>("whatsapp-manager", "GET", undefined, { slug: "templates", params });
+  return (response.data || []).map(toWhatsappTemplate);
+};
+
+export const saveWhatsappTemplate = async (template: WhatsappTemplateInput, templateId?: number): Promise<WhatsappTemplate> => {
+  const payload = {
+    name: template.name,
+    display_name: template.displayName,
+    description: template.description,
+    language_code: template.languageCode,
+    category: template.category,
+    header_type: template.headerType,
+    header_content: template.headerContent,
+    body: template.body,
+    body_params: template.bodyParams,
+    buttons: template.buttons,
+    active: template.active,
+  };
+  const response = templateId
+    ? await invokeSupabaseFunction<{ data: WhatsappTemplateRow }>("whatsapp-manager", "PUT", payload, { slug: `templates/${templateId}` })
+    : await invokeSupabaseFunction<{ data: WhatsappTemplateRow }>("whatsapp-manager", "POST", payload, { slug: "templates" });
+  return toWhatsappTemplate(response.data);
+};
+
+export const deleteWhatsappTemplate = (templateId: number) =>
+  invokeSupabaseFunction("whatsapp-manager", "DELETE", undefined, { slug: `templates/${templateId}` });
@@ -1 +0,0 @@
-declare module 'react-beautiful-dnd'; 
\ No newline at end of file
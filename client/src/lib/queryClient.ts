@@ -65,7 +65,7 @@ export async function invokeSupabaseFunction<T = any>(
   functionName: string, // e.g., 'user-management', 'lead-functions'
   method: string, // 'GET', 'POST', 'PATCH', 'DELETE'
   // For GET, params can be an object that will be converted to query string
-  // For POST/PATCH, body is the request payload
+  // For POST/PATCH, body is the request payload (a FormData is sent as multipart/form-data)
   // For DELETE with ID, functionName might be like 'lead-functions/123' or pass ID in options
   payload?: unknown | undefined,
   options?: { slug?: string, params?: Record<string, string>} // slug for /function/slug, params for query string
@@ -108,10 +108,13 @@ export async function invokeSupabaseFunction<T = any>(
   const VITE_SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
   const functionUrl = `${VITE_SUPABASE_URL}/functions/v1/${fullFunctionName}${queryString}`;
 
+  // FormData payloads (file uploads) go as multipart; fetch sets the boundary in Content-Type itself
+  const isFormData = payload instanceof FormData;
+  const { 'Content-Type': _contentType, ...multipartHeaders } = headers;
   const res = await fetch(functionUrl, {
     method,
-    headers,
-    body: (method !== 'GET' && method !== 'HEAD' && payload) ? JSON.stringify(payload) : undefined,
+    headers: isFormData ? multipartHeaders : headers,
+    body: (method !== 'GET' && method !== 'HEAD' && payload) ? (isFormData ? payload : JSON.stringify(payload)) : undefined,
   });
 
   await throwIfResNotOk(res);
@@ -131,6 +134,24 @@ export async function invokeSupabaseFunction<T = any>(
 }
 
 
+// For edge function routes that return a file (e.g. exports) instead of JSON
+export async function fetchSupabaseFunctionFile(
+  functionName: string,
+  options?: { slug?: string, params?: Record<string, string> }
+): Promise<{ blob: Blob; fileName?: string }> {
+  const { headers } = await getSupabaseClientAndHeaders();
+  const VITE_SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+  const queryString = options?.params ? "?" + new URLSearchParams(options.params).toString() : "";
+  const functionUrl = `${VITE_SUPABASE_URL}/functions/v1/${functionName}${options?.slug ? `/${options.slug}` : ""}${queryString}`;
+
+  const res = await fetch(functionUrl, { method: 'GET', headers: { Authorization: headers.Authorization } });
+  await throwIfResNotOk(res);
+
+  const disposition = res.headers.get('Content-Disposition') || "";
+  const fileName = disposition.match(/filename="?([^";]+)"?/)?.[1];
+  return { blob: await res.blob(), fileName };
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 
 // Updated getQueryFn for Supabase Edge Functions
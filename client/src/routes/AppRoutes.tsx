@@ -11,6 +11,7 @@ import SessionsPage from "@/features/training/pages/SessionsPage"; // UPDATED
 import CalendarPage from "@/features/calendar/pages/CalendarPage"; // UPDATED
 import WhatsappPage from "@/features/whatsapp/pages/WhatsappPage"; // UPDATED
 import WhatsappConfigPage from "@/features/whatsapp/pages/WhatsappConfigPage"; // UPDATED
+import WhatsappBroadcastsPage from "@/features/whatsapp/pages/WhatsappBroadcastsPage";
 // ReportPage removed as unused
 import TasksPage from "@/features/tasks/pages/TasksPage"; // UPDATED
 import TaskDetailsPage from "@/features/tasks/pages/TaskDetailsPage"; // UPDATED
@@ -33,6 +34,7 @@ function Router() {
       <ProtectedRoute path="/calendario" component={CalendarPage} />
       <ProtectedRoute path="/whatsapp" component={WhatsappPage} />
       <ProtectedRoute path="/whatsapp/config" component={WhatsappConfigPage} />
+      <ProtectedRoute path="/whatsapp/campanhas" component={WhatsappBroadcastsPage} />
       <ProtectedRoute path="/favale-ia" component={FavaleIAPage} />
       <ProtectedRoute path="/tarefas" component={TasksPage} />
       <ProtectedRoute path="/tarefas/:id" component={TaskDetailsPage} />
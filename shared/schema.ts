@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, boolean, jsonb, uuid } from "drizzle-orm/pg-core"; // Added uuid
+import { pgTable, text, serial, integer, timestamp, boolean, jsonb, uuid, date, numeric, smallint, time, primaryKey, unique } from "drizzle-orm/pg-core"; // Added uuid
 import { relations } from "drizzle-orm"; // For relationships
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -9,6 +9,8 @@ export const profiles = pgTable("profiles", {
   username: text("username").unique(),
   fullName: text("full_name"), // Using snake_case to match database column
   role: text("role").default('user').notNull(), // e.g., 'admin', 'trainer', 'marketing', 'comercial'
+  active: boolean("active").default(true).notNull(), // Desativado: não entra no sistema nem recebe leads
+  deactivatedAt: timestamp("deactivated_at"),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   // Add other public profile fields here if needed in the future
 });
@@ -29,6 +31,7 @@ export const trainers = pgTable("trainers", {
   email: text("email").notNull().unique(),
   phone: text("phone"),
   specialties: text("specialties").array(),
+  locations: text("locations").array().default([]).notNull(), // Locais atendidos; vazio = qualquer local
   calendarId: text("calendar_id"), // ID do calendário no Google Calendar
   active: boolean("active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -46,6 +49,7 @@ export const trainerValidationSchema = insertTrainerSchema.extend({
   email: z.string().min(1, "O e-mail é obrigatório").email("E-mail inválido"),
   phone: z.string().optional(),
   specialties: z.array(z.string()).optional(),
+  locations: z.array(z.string()).optional(),
   calendarId: z.string().optional(),
   active: z.boolean().optional(),
 });
@@ -53,6 +57,62 @@ export const trainerValidationSchema = insertTrainerSchema.extend({
 export type InsertTrainer = z.infer<typeof insertTrainerSchema>;
 export type Trainer = typeof trainers.$inferSelect;
 
+// Professor como retornado pela scheduling-functions (colunas do banco, em snake_case)
+export interface TrainerRow {
+  id: number;
+  name: string;
+  email: string;
+  phone: string | null;
+  specialties: string[] | null;
+  locations: string[];
+  calendar_id: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Grade semanal de disponibilidade (horário local do estúdio); professor sem grade atende em qualquer horário
+export const trainerAvailability = pgTable("trainer_availability", {
+  id: serial("id").primaryKey(),
+  trainerId: integer("trainer_id").references(() => trainers.id, { onDelete: 'cascade' }).notNull(),
+  weekday: smallint("weekday").notNull(), // 0 = domingo ... 6 = sábado
+  startTime: time("start_time").notNull(), // HH:MM
+  endTime: time("end_time").notNull(),
+});
+
+const timeOfDay = (message: string) => z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:00)?$/, message);
+
+export const trainerAvailabilitySlotSchema = z.object({
+  weekday: z.number().int().min(0).max(6),
+  startTime: timeOfDay("Horário de início inválido"),
+  endTime: timeOfDay("Horário de término inválido"),
+}).refine(slot => slot.endTime > slot.startTime, {
+  message: "O horário de término deve ser posterior ao horário de início",
+  path: ["endTime"],
+});
+
+export type TrainerAvailabilitySlot = z.infer<typeof trainerAvailabilitySlotSchema>;
+export type TrainerAvailability = typeof trainerAvailability.$inferSelect;
+
+// Folgas, férias e afastamentos dos professores
+export const trainerTimeOff = pgTable("trainer_time_off", {
+  id: serial("id").primaryKey(),
+  trainerId: integer("trainer_id").references(() => trainers.id, { onDelete: 'cascade' }).notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  reason: text("reason"),
+  createdBy: uuid("created_by").references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type TrainerTimeOff = typeof trainerTimeOff.$inferSelect;
+
+// Professor retornado por scheduling-functions GET /trainers/:id, com a grade e as folgas atuais e futuras
+export interface TrainerDetailRow extends TrainerRow {
+  availability: { id: number; weekday: number; start_time: string; end_time: string }[];
+  timeOff: { id: number; starts_at: string; ends_at: string; reason: string | null }[];
+}
+
 // Tabela de alunos (expandindo leads com status "Aluno")
 export const students = pgTable("students", {
   id: serial("id").primaryKey(),
@@ -60,13 +120,18 @@ export const students = pgTable("students", {
   address: text("address"),
   preferences: text("preferences"),
   source: text("source").notNull(), // "Favale" ou "Pink"
+  plan: text("plan"), // Plano contratado na conversão (ex.: "2x por semana")
   active: boolean("active").default(true).notNull(),
+  deactivatedAt: timestamp("deactivated_at"),
+  deactivationReason: text("deactivation_reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 export const insertStudentSchema = createInsertSchema(students).omit({
   id: true,
+  deactivatedAt: true,
+  deactivationReason: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -75,6 +140,7 @@ export const studentValidationSchema = insertStudentSchema.extend({
   leadId: z.number().int().positive("ID do lead inválido"),
   address: z.string().optional(),
   preferences: z.string().optional(),
+  plan: z.string().optional(),
   source: z.string().min(1, "A origem é obrigatória"),
   active: z.boolean().optional(),
 });
@@ -82,6 +148,21 @@ export const studentValidationSchema = insertStudentSchema.extend({
 export type InsertStudent = z.infer<typeof insertStudentSchema>;
 export type Student = typeof students.$inferSelect;
 
+// Aluno como retornado pelas edge functions (colunas do banco, em snake_case)
+export interface StudentRow {
+  id: number;
+  lead_id: number | null;
+  address: string | null;
+  preferences: string | null;
+  source: string;
+  plan: string | null;
+  active: boolean;
+  deactivated_at: string | null;
+  deactivation_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Lead schema
 export const leads = pgTable("leads", {
   id: serial("id").primaryKey(),
@@ -95,6 +176,11 @@ export const leads = pgTable("leads", {
   source: text("source").notNull(), // "Favale" or "Pink"
   status: text("status").notNull(), // "Lead" or "Aluno"
   notes: text("notes"),
+  score: integer("score").notNull().default(0), // Pontuação pelas regras de lead_score_rules (mantida no banco)
+  ownerId: uuid("owner_id").references(() => profiles.id, { onDelete: 'set null' }), // Responsável; ver lead_assignment_settings
+  assignedAt: timestamp("assigned_at"),
+  deletedAt: timestamp("deleted_at"), // Exclusão em lote reversível; ver lead-functions batch/restore
+  deletedBy: uuid("deleted_by").references(() => profiles.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -102,6 +188,10 @@ export const leads = pgTable("leads", {
 // Criar um schema base para inserção de leads, omitindo campos autoincrementais/autogenerated
 export const baseInsertLeadSchema = createInsertSchema(leads).omit({
   id: true,
+  score: true,
+  assignedAt: true,
+  deletedAt: true,
+  deletedBy: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -145,6 +235,314 @@ export const leadValidationSchema = insertLeadSchema.extend({
 export type InsertLead = z.infer<typeof insertLeadSchema>;
 export type Lead = typeof leads.$inferSelect;
 
+// Lead como retornado pela lead-functions (colunas de leadListColumns; entryDate já é camelCase no banco)
+export interface LeadRow {
+  id: number;
+  entryDate: string;
+  name: string;
+  email: string;
+  phone: string;
+  state: string;
+  campaign: string;
+  tags: string[];
+  source: string;
+  status: string;
+  notes: string | null;
+  score: number;
+  owner_id: string | null;
+  assigned_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Par de possíveis duplicados retornado por lead-functions GET /duplicates
+export interface LeadDuplicatePairRow {
+  lead: LeadRow & { is_student: boolean };
+  duplicate: LeadRow & { is_student: boolean };
+  reasons: ("phone" | "email" | "name")[];
+  nameSimilarity: number | null;
+}
+
+// Campos do lead que podem receber colunas de uma planilha importada
+export const leadImportFields = ["name", "email", "phone", "state", "campaign", "source", "status", "tags", "notes", "entryDate"] as const;
+export type LeadImportField = typeof leadImportFields[number];
+
+// Mapeamento de colunas salvo por origem de arquivo (ex.: "Planilha Pink")
+export const leadImportPresets = pgTable("lead_import_presets", {
+  id: serial("id").primaryKey(),
+  fileSource: text("file_source").notNull().unique(),
+  mapping: jsonb("mapping").$type<Partial<Record<LeadImportField, string>>>().notNull(), // campo do lead -> cabeçalho da planilha
+  createdBy: uuid("created_by").references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type LeadImportPreset = typeof leadImportPresets.$inferSelect;
+
+// Modelo de importação como retornado pela lead-functions (colunas do banco, em snake_case)
+export interface LeadImportPresetRow {
+  id: number;
+  file_source: string;
+  mapping: Partial<Record<LeadImportField, string>> | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Períodos relativos são recalculados a cada uso do segmento; "custom" usa startDate/endDate fixos
+export const leadSegmentDateRanges = ["today", "last7days", "last30days", "thisMonth", "lastMonth", "thisYear", "custom"] as const;
+
+// Definição de filtros de um segmento (mesmos filtros da tabela de leads)
+export const leadSegmentFiltersSchema = z.object({
+  status: z.string().optional(),
+  source: z.string().optional(),
+  state: z.string().optional(),
+  campaign: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  search: z.string().optional(),
+  dateRange: z.enum(leadSegmentDateRanges).optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida").optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida").optional(),
+  whatsappReply: z.enum(["replied", "notReplied"]).optional(), // respondeu ou não no WhatsApp
+  ownerId: z.union([z.string().uuid(), z.literal("none")]).optional(), // responsável; "none" = sem responsável
+});
+
+export type LeadSegmentFilters = z.infer<typeof leadSegmentFiltersSchema>;
+
+// Segmentos salvos ("listas inteligentes"): privados do dono ou compartilhados com a equipe
+export const leadSegments = pgTable("lead_segments", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  filters: jsonb("filters").$type<LeadSegmentFilters>().notNull(),
+  visibility: text("visibility").notNull().default("private"), // "private" ou "team"
+  ownerId: uuid("owner_id").references(() => profiles.id, { onDelete: 'cascade' }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const leadSegmentValidationSchema = z.object({
+  name: z.string().trim().min(1, "O nome do segmento é obrigatório").max(80, "Nome muito longo"),
+  filters: leadSegmentFiltersSchema,
+  visibility: z.enum(["private", "team"]).default("private"),
+});
+
+export type LeadSegment = typeof leadSegments.$inferSelect;
+
+// Segmento como retornado pela lead-functions: colunas do banco mais a contagem atual e os dados do usuário
+export interface LeadSegmentRow {
+  id: number;
+  name: string;
+  filters: LeadSegmentFilters | null;
+  visibility: "private" | "team";
+  owner_id: string;
+  owner?: { username: string | null; full_name: string | null } | null; // ausente na criação
+  created_at: string;
+  updated_at: string;
+  count: number;
+  pinned: boolean;
+  is_owner: boolean;
+}
+
+// Segmentos fixados na barra lateral, por usuário
+export const leadSegmentPins = pgTable("lead_segment_pins", {
+  segmentId: integer("segment_id").references(() => leadSegments.id, { onDelete: 'cascade' }).notNull(),
+  userId: uuid("user_id").references(() => profiles.id, { onDelete: 'cascade' }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.segmentId, table.userId] }),
+}));
+
+// Pares marcados como "não são duplicados" no verificador de duplicados (leadId < duplicateId)
+export const leadDuplicateDismissals = pgTable("lead_duplicate_dismissals", {
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  duplicateId: integer("duplicate_id").references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  dismissedBy: uuid("dismissed_by").references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.leadId, table.duplicateId] }),
+}));
+
+// Etapas do funil de vendas por origem; source nulo = funil padrão das origens sem etapas próprias.
+// O lead guarda a etapa atual em leads.stage_id (mantida pelo trigger set_lead_stage)
+export const pipelineStageKinds = ["open", "won", "lost"] as const;
+
+export const pipelineStages = pgTable("pipeline_stages", {
+  id: serial("id").primaryKey(),
+  source: text("source"), // "Favale", "Pink" ou nulo
+  name: text("name").notNull(),
+  position: integer("position").notNull(),
+  kind: text("kind").notNull().default("open"), // "open", "won" (fechado) ou "lost" (perdido)
+  color: text("color"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const pipelineStageValidationSchema = z.object({
+  source: z.string().nullable().default(null),
+  name: z.string().trim().min(1, "O nome da etapa é obrigatório").max(60, "Nome muito longo"),
+  kind: z.enum(pipelineStageKinds).default("open"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Cor inválida").nullable().optional(),
+});
+
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+
+// Etapa como retornada pela lead-functions (colunas do banco, em snake_case)
+export interface PipelineStageRow {
+  id: number;
+  source: string | null;
+  name: string;
+  position: number;
+  kind: typeof pipelineStageKinds[number];
+  color: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Coluna do quadro retornada por lead-functions GET /pipeline/board; leads traz só os mais recentes da etapa
+export interface PipelineBoardColumnRow {
+  stage: PipelineStageRow;
+  leads: (LeadRow & { stage_id: number; stage_entered_at: string })[];
+  total: number;
+}
+
+// Cada mudança de etapa de um lead; alimenta tempo por etapa e conversão no dashboard
+export const leadStageHistory = pgTable("lead_stage_history", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  fromStageId: integer("from_stage_id").references(() => pipelineStages.id),
+  toStageId: integer("to_stage_id").references(() => pipelineStages.id).notNull(),
+  changedBy: uuid("changed_by").references(() => profiles.id, { onDelete: 'set null' }),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+});
+
+export type LeadStageHistory = typeof leadStageHistory.$inferSelect;
+
+// Notas e ligações registradas manualmente na linha do tempo do lead
+export const leadActivityTypes = ["note", "call"] as const;
+export const leadCallOutcomes = ["answered", "no_answer", "voicemail"] as const;
+
+export const leadActivities = pgTable("lead_activities", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  type: text("type").notNull(), // "note" ou "call"
+  content: text("content").notNull(),
+  callOutcome: text("call_outcome"), // só para ligações: "answered", "no_answer" ou "voicemail"
+  durationMinutes: integer("duration_minutes"),
+  occurredAt: timestamp("occurred_at").defaultNow().notNull(),
+  createdBy: uuid("created_by").references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const leadActivityValidationSchema = z.object({
+  type: z.enum(leadActivityTypes),
+  content: z.string().trim().min(1, "Descreva a nota ou a ligação").max(5000, "Texto muito longo"),
+  callOutcome: z.enum(leadCallOutcomes).nullable().optional(),
+  durationMinutes: z.number().int().min(0).nullable().optional(),
+  occurredAt: z.string().datetime().optional(),
+});
+
+export type LeadActivity = typeof leadActivities.$inferSelect;
+
+// Campo data de cada tipo de item da linha do tempo (montado por lead_timeline, em 0022_lead_timeline.sql)
+export interface LeadTimelineData {
+  whatsapp: { direction: "incoming" | "outgoing"; status: string; mediaType: string | null; mediaUrl: string | null };
+  task: { taskId: number; title: string; status: string; priority: string; dueDate: string | null; assignedToId: string };
+  task_comment: { taskId: number; title: string };
+  session: { sessionId: number; status: string; endTime: string; location: string; trainerName: string | null };
+  audit: { eventType: string; details: { updatedFields?: string[]; [key: string]: unknown } | null };
+  stage: { fromStage: string | null; toStage: string; toKind: string };
+  note: { activityId: number; callOutcome: null; durationMinutes: number | null };
+  call: { activityId: number; callOutcome: typeof leadCallOutcomes[number] | null; durationMinutes: number | null };
+}
+
+// Item retornado por lead-functions GET /:id/timeline; o formato de data depende de kind
+export type LeadTimelineItemRow = {
+  [K in keyof LeadTimelineData]: {
+    kind: K;
+    key: string;
+    occurredAt: string;
+    actorId: string | null;
+    actorName: string | null;
+    body: string | null;
+    data: LeadTimelineData[K];
+  };
+}[keyof LeadTimelineData];
+
+// Regras de pontuação de leads; cada regra ativa que casa com o lead soma seus pontos em leads.score
+// (calculado no banco pela função lead_score)
+export const leadScoreRuleFields = [
+  "source", "campaign", "state", "tag", "entry_recency", "whatsapp_reply", "whatsapp_no_reply", "task_status",
+] as const;
+
+export const leadScoreRules = pgTable("lead_score_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  field: text("field").notNull(),
+  value: text("value").notNull().default(""), // dias para entry_recency e whatsapp_reply
+  points: integer("points").notNull(), // pode ser negativo
+  active: boolean("active").notNull().default(true),
+  createdBy: uuid("created_by").references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const leadScoreRuleValidationSchema = z.object({
+  name: z.string().trim().min(1, "O nome da regra é obrigatório").max(80, "Nome muito longo"),
+  field: z.enum(leadScoreRuleFields),
+  value: z.string().trim().max(120, "Valor muito longo").default(""),
+  points: z.number().int().min(-1000, "Mínimo de -1000 pontos").max(1000, "Máximo de 1000 pontos"),
+  active: z.boolean().default(true),
+}).superRefine((rule, ctx) => {
+  if ((rule.field === "entry_recency" || rule.field === "whatsapp_reply") && !/^\d{1,4}$/.test(rule.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Informe o número de dias" });
+  } else if (rule.field !== "whatsapp_no_reply" && rule.value === "") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Informe o valor da regra" });
+  }
+});
+
+export type LeadScoreRule = typeof leadScoreRules.$inferSelect;
+
+// Distribuição automática de leads (linha única, id = 1). Regras por origem/estado têm prioridade;
+// sem regra, a estratégia escolhe entre os usuários ativos dos perfis em "roles"
+export const leadAssignmentStrategies = ["round_robin", "workload"] as const;
+
+export const leadAssignmentSettings = pgTable("lead_assignment_settings", {
+  id: integer("id").primaryKey().default(1),
+  autoAssign: boolean("auto_assign").notNull().default(false),
+  strategy: text("strategy").notNull().default("round_robin"), // "round_robin" ou "workload" (menos leads em aberto)
+  roles: text("roles").array().notNull(),
+  slaHours: integer("sla_hours").notNull().default(24), // Prazo da tarefa de primeiro contato
+  lastAssignedUserId: uuid("last_assigned_user_id").references(() => profiles.id, { onDelete: 'set null' }),
+  updatedBy: uuid("updated_by").references(() => profiles.id, { onDelete: 'set null' }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type LeadAssignmentSettings = typeof leadAssignmentSettings.$inferSelect;
+
+export const leadAssignmentRules = pgTable("lead_assignment_rules", {
+  id: serial("id").primaryKey(),
+  field: text("field").notNull(), // "source" ou "state"
+  value: text("value").notNull(),
+  userId: uuid("user_id").references(() => profiles.id, { onDelete: 'cascade' }).notNull(),
+  position: integer("position").notNull().default(0), // Menor posição é avaliada primeiro
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const leadAssignmentRuleValidationSchema = z.object({
+  field: z.enum(["source", "state"]),
+  value: z.string().trim().min(1, "Informe a origem ou o estado"),
+  userId: z.string().uuid("Usuário inválido"),
+  position: z.number().int().min(0).default(0),
+  active: z.boolean().default(true),
+});
+
+export type LeadAssignmentRule = typeof leadAssignmentRules.$inferSelect;
+
 // Tabela de sessões de treinamento
 export const sessions = pgTable("sessions", {
   id: serial("id").primaryKey(),
@@ -156,13 +554,23 @@ export const sessions = pgTable("sessions", {
   notes: text("notes"),
   status: text("status").default("agendado").notNull(), // agendado, concluído, cancelado, remarcado
   source: text("source").notNull(), // "Favale" ou "Pink"
+  price: numeric("price", { precision: 10, scale: 2 }), // Valor cobrado pela sessão (R$)
   googleEventId: text("google_event_id"), // ID do evento no Google Calendar
+  googleCalendarId: text("google_calendar_id"), // Calendário onde o evento está
+  googleTokenUserId: uuid("google_token_user_id"), // Conta Google dona do calendário (o mesmo ID pode existir em várias contas, ex.: 'primary')
+  googleSyncedAt: timestamp("google_synced_at"), // Última sincronização com o Google Calendar
+  seriesId: integer("series_id").references(() => sessionSeries.id), // Série recorrente de origem, se houver
+  seriesException: boolean("series_exception").default(false).notNull(), // Ocorrência editada individualmente
+  studentPackageId: integer("student_package_id").references(() => studentPackages.id, { onDelete: 'set null' }), // Pacote que teve o crédito consumido
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 export const insertSessionSchema = createInsertSchema(sessions).omit({
   id: true,
+  googleCalendarId: true,
+  googleTokenUserId: true,
+  googleSyncedAt: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -192,6 +600,7 @@ export const sessionBaseValidationSchema = insertSessionSchema.extend({
   notes: z.string().optional(),
   status: z.string().min(1, "O status é obrigatório"),
   source: z.string().min(1, "A origem é obrigatória"),
+  price: z.number().nonnegative("O valor não pode ser negativo").optional().nullable(),
   googleEventId: z.string().optional(),
 });
 
@@ -212,6 +621,28 @@ export const sessionValidationSchema = sessionBaseValidationSchema.refine(
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 export type Session = typeof sessions.$inferSelect;
 
+// Sessão com aluno e professor retornada por scheduling-functions GET /sessions/details
+export interface SessionDetailsRow {
+  id: number;
+  startTime: string;
+  endTime: string;
+  status: string;
+  source: string;
+  price: number | null;
+  googleEventId: string | null;
+  seriesId: number | null;
+  seriesException: boolean;
+  notes: string | null;
+  location: string;
+  studentId: number;
+  studentName: string;
+  studentEmail: string;
+  studentPhone: string;
+  trainerId: number;
+  trainerName: string;
+  trainerEmail: string;
+}
+
 // Tabela de histórico de alterações em sessões
 export const sessionHistory = pgTable("session_history", {
   id: serial("id").primaryKey(),
@@ -230,6 +661,120 @@ export const insertSessionHistorySchema = createInsertSchema(sessionHistory).omi
 export type InsertSessionHistory = z.infer<typeof insertSessionHistorySchema>;
 export type SessionHistory = typeof sessionHistory.$inferSelect;
 
+// Tabela de séries recorrentes de sessões (pacotes semanais, ex.: "2x por semana por 3 meses")
+export const sessionSeries = pgTable("session_series", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").references(() => students.id).notNull(),
+  trainerId: integer("trainer_id").references(() => trainers.id).notNull(),
+  location: text("location").notNull(),
+  source: text("source").notNull(),
+  notes: text("notes"),
+  weekdays: integer("weekdays").array().notNull(), // 0 = domingo ... 6 = sábado
+  intervalWeeks: integer("interval_weeks").default(1).notNull(), // 1 = toda semana, 2 = semana sim, semana não
+  startTime: timestamp("start_time").notNull(), // Horário da primeira ocorrência
+  endTime: timestamp("end_time").notNull(),
+  untilDate: date("until_date"), // Data final (AAAA-MM-DD), ou
+  occurrenceCount: integer("occurrence_count"), // número total de sessões do pacote
+  createdBy: uuid("created_by").references(() => profiles.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const sessionSeriesValidationSchema = sessionBaseValidationSchema.omit({
+  status: true,
+  googleEventId: true,
+  seriesId: true,
+  seriesException: true,
+}).extend({
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1, "Selecione ao menos um dia da semana"),
+  intervalWeeks: z.number().int().min(1).max(4).default(1),
+  untilDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data final inválida").optional(),
+  occurrenceCount: z.number().int().positive("Número de sessões inválido").max(200).optional(),
+}).refine(data => !!data.untilDate || !!data.occurrenceCount, {
+  message: "Informe a data final ou o número de sessões",
+  path: ["untilDate"],
+});
+
+export type InsertSessionSeries = z.infer<typeof sessionSeriesValidationSchema>;
+export type SessionSeries = typeof sessionSeries.$inferSelect;
+export type SeriesScope = 'this' | 'following' | 'all';
+
+// Feriados em que sessões recorrentes não são geradas
+export const holidays = pgTable("holidays", {
+  id: serial("id").primaryKey(),
+  date: date("date").notNull().unique(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type Holiday = typeof holidays.$inferSelect;
+
+// Pacotes de sessões oferecidos (preço, créditos e validade)
+export const billingPackages = pgTable("billing_packages", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  price: numeric("price", { precision: 10, scale: 2 }).notNull(),
+  sessionCredits: integer("session_credits").notNull(),
+  validityDays: integer("validity_days").notNull(),
+  source: text("source"), // "Favale", "Pink" ou null para ambas
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const billingPackageValidationSchema = z.object({
+  name: z.string().min(1, "O nome do pacote é obrigatório"),
+  price: z.number().nonnegative("O valor não pode ser negativo"),
+  sessionCredits: z.number().int().positive("Informe a quantidade de sessões"),
+  validityDays: z.number().int().positive("Informe a validade em dias"),
+  source: z.enum(["Favale", "Pink"]).optional().nullable(),
+  active: z.boolean().optional(),
+});
+
+export type InsertBillingPackage = z.infer<typeof billingPackageValidationSchema>;
+export type BillingPackage = typeof billingPackages.$inferSelect;
+
+// Pacotes vendidos a alunos; preço e créditos copiados do pacote no momento da venda
+export const studentPackages = pgTable("student_packages", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").references(() => students.id).notNull(),
+  packageId: integer("package_id").references(() => billingPackages.id, { onDelete: 'set null' }),
+  name: text("name").notNull(),
+  price: numeric("price", { precision: 10, scale: 2 }).notNull(),
+  creditsTotal: integer("credits_total").notNull(),
+  creditsUsed: integer("credits_used").default(0).notNull(),
+  startsOn: date("starts_on").notNull(),
+  expiresOn: date("expires_on").notNull(),
+  cancelledAt: timestamp("cancelled_at"),
+  createdBy: uuid("created_by").references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type StudentPackage = typeof studentPackages.$inferSelect;
+
+// Lançamentos financeiros do aluno: cobranças (charge) e pagamentos (payment), sempre com valor positivo
+export const billingEntryTypes = ["charge", "payment"] as const;
+export type BillingEntryType = typeof billingEntryTypes[number];
+export const paymentMethods = ["pix", "cartao", "dinheiro", "transferencia"] as const;
+export type PaymentMethod = typeof paymentMethods[number];
+
+export const billingLedger = pgTable("billing_ledger", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").references(() => students.id).notNull(),
+  entryType: text("entry_type").$type<BillingEntryType>().notNull(),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  description: text("description").notNull(),
+  occurredOn: date("occurred_on").defaultNow().notNull(),
+  dueDate: date("due_date"), // Apenas cobranças
+  paymentMethod: text("payment_method").$type<PaymentMethod>(), // Apenas pagamentos
+  studentPackageId: integer("student_package_id").references(() => studentPackages.id, { onDelete: 'set null' }),
+  sessionId: integer("session_id").references(() => sessions.id, { onDelete: 'set null' }),
+  createdBy: uuid("created_by").references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type BillingLedgerEntry = typeof billingLedger.$inferSelect;
+
 // WhatsApp mensagens
 export const whatsappMessages = pgTable("whatsapp_messages", {
   id: serial("id").primaryKey(),
@@ -239,10 +784,22 @@ export const whatsappMessages = pgTable("whatsapp_messages", {
   status: text("status").notNull(), // "sent", "delivered", "read", "failed"
   timestamp: timestamp("timestamp").defaultNow().notNull(),
   mediaUrl: text("media_url"), // URL opcional para mídia (imagens, áudio, etc.)
-  mediaType: text("media_type"), // Tipo de mídia (image, audio, video, document)
+  mediaType: text("media_type"), // Tipo de mídia (image, audio, video, document, location, contact)
   messageId: text("message_id"), // ID da mensagem na API do WhatsApp
+  errorMessage: text("error_message"), // motivo da falha no envio
+  mediaPath: text("media_path"), // arquivo no bucket whatsapp-media (mídia recebida ou enviada pelo chat)
+  mediaMimeType: text("media_mime_type"),
+  thumbnailPath: text("thumbnail_path"), // prévia JPEG de imagens e vídeos, no mesmo bucket
+  metadata: jsonb("metadata").$type<WhatsappMessageMetadata>(), // localização, contatos ou nome do documento
 });
 
+export interface WhatsappMessageMetadata {
+  location?: { latitude: number; longitude: number; name?: string | null; address?: string | null };
+  contacts?: { name: string; phones: string[] }[];
+  fileName?: string | null;
+  automationRuleId?: number; // resposta automática enviada por esta regra
+}
+
 export const insertWhatsappMessageSchema = createInsertSchema(whatsappMessages).omit({
   id: true,
 });
@@ -266,6 +823,41 @@ export const whatsappMessageValidationSchema = insertWhatsappMessageSchema.exten
 export type InsertWhatsappMessage = z.infer<typeof insertWhatsappMessageSchema>;
 export type WhatsappMessage = typeof whatsappMessages.$inferSelect;
 
+// Mensagem como retornada pela whatsapp-manager; media_url e thumbnail_url são links assinados do bucket
+export interface WhatsappMessageRow {
+  id: number;
+  lead_id: number;
+  direction: string;
+  content: string;
+  status: string;
+  timestamp: string;
+  media_url: string | null;
+  media_type: string | null;
+  message_id: string | null;
+  error_message: string | null;
+  media_path: string | null;
+  media_mime_type: string | null;
+  thumbnail_path: string | null;
+  thumbnail_url?: string | null; // só nas respostas, não é coluna
+  metadata: WhatsappMessageMetadata | null;
+}
+
+// Conversa da caixa de entrada retornada por whatsapp-manager GET /recent-messages
+export interface WhatsappConversationRow {
+  lead: { id: number; name: string; phone: string; email: string; status: string };
+  conversation: { owner_id: string | null; owner_name: string | null; status: "open" | "pending" | "closed"; unread_count: number } | null; // nula para leads sem mensagens
+  last_message: Pick<WhatsappMessageRow, "id" | "direction" | "content" | "status" | "media_type" | "timestamp"> | null;
+}
+
+// Configuração da Evolution API retornada por whatsapp-manager GET /config (o token nunca é enviado)
+export interface WhatsappConfigRow {
+  api_url: string;
+  api_instance: string;
+  has_token: boolean;
+  updated_at: string | null;
+  source: "database" | "env";
+}
+
 // Tabela de tarefas
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
@@ -345,16 +937,362 @@ export const whatsappSettingsTable = pgTable("whatsapp_settings", { // Renamed t
   apiToken: text("api_token").notNull(), // Consider encrypting this if stored in DB
   apiInstance: text("api_instance").notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  connectionState: text("connection_state"), // último connection.update do webhook (open, close, connecting)
+  connectionUpdatedAt: timestamp("connection_updated_at"),
 });
 
 export const insertWhatsappSettingsSchema = createInsertSchema(whatsappSettingsTable).omit({
   id: true,
   updatedAt: true,
+  connectionState: true,
+  connectionUpdatedAt: true,
 });
 
 export type InsertWhatsappSettings = z.infer<typeof insertWhatsappSettingsSchema>;
 export type WhatsappSettings = typeof whatsappSettingsTable.$inferSelect; // Use the renamed table
 
+// Leads criados a partir de números desconhecidos que mandam mensagem (linha única, id = 1)
+export const whatsappInboundSettings = pgTable("whatsapp_inbound_settings", {
+  id: integer("id").primaryKey().default(1),
+  autoCreateLeads: boolean("auto_create_leads").notNull().default(true),
+  defaultSource: text("default_source").notNull().default("Outro"),
+  dddSources: jsonb("ddd_sources").$type<Record<string, string>>().notNull(), // DDD -> origem do lead
+  triageUserId: uuid("triage_user_id").references(() => profiles.id, { onDelete: 'set null' }), // Vazio: responsável do lead ou primeiro admin
+  triageDueHours: integer("triage_due_hours").notNull().default(4),
+  updatedBy: uuid("updated_by").references(() => profiles.id, { onDelete: 'set null' }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type WhatsappInboundSettings = typeof whatsappInboundSettings.$inferSelect;
+
+// Linha de whatsapp_inbound_settings como retornada pela whatsapp-manager (colunas do banco, em snake_case)
+export interface WhatsappInboundSettingsRow {
+  id: number;
+  auto_create_leads: boolean;
+  default_source: string;
+  ddd_sources: Record<string, string> | null;
+  triage_user_id: string | null;
+  triage_due_hours: number;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+// Campos do lead usados nos parâmetros {{n}} dos templates
+export const whatsappTemplateLeadFields = ["name", "first_name", "email", "phone", "state", "campaign", "source"] as const;
+
+export type WhatsappTemplateParam =
+  | { type: "field"; value: typeof whatsappTemplateLeadFields[number] }
+  | { type: "text"; value: string };
+
+export const whatsappTemplateParamSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("field"), value: z.enum(whatsappTemplateLeadFields) }),
+  z.object({ type: z.literal("text"), value: z.string().trim().min(1, "Preencha o texto do parâmetro") }),
+]);
+
+export type WhatsappTemplateButton = { type: "quick_reply" | "url" | "phone_number"; text: string; value: string };
+
+// Biblioteca de templates aprovados na Meta; name + languageCode identificam o template na API
+export const whatsappTemplates = pgTable("whatsapp_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  displayName: text("display_name").notNull(),
+  description: text("description").notNull().default(""),
+  languageCode: text("language_code").notNull().default("pt_BR"),
+  category: text("category").notNull().default("MARKETING"), // MARKETING, UTILITY, AUTHENTICATION
+  headerType: text("header_type").notNull().default("none"), // none, text, image, video, document
+  headerContent: text("header_content"), // Texto do cabeçalho ou URL da mídia
+  body: text("body").notNull(), // Texto com {{1}}, {{2}}...
+  bodyParams: jsonb("body_params").$type<WhatsappTemplateParam[]>().notNull().default([]), // Valor de cada {{n}}, na ordem
+  buttons: jsonb("buttons").$type<WhatsappTemplateButton[]>().notNull().default([]),
+  active: boolean("active").notNull().default(true),
+  createdBy: uuid("created_by").references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  nameLanguageUnique: unique("whatsapp_templates_name_language_unique").on(table.name, table.languageCode),
+}));
+
+// Números dos {{n}} usados no texto, em ordem crescente e sem repetição
+export const whatsappTemplatePlaceholders = (text: string) =>
+  Array.from(new Set(Array.from(text.matchAll(/\{\{(\d+)\}\}/g), match => Number(match[1])))).sort((a, b) => a - b);
+
+export const whatsappTemplateValidationSchema = z.object({
+  name: z.string().trim().regex(/^[a-z0-9_]+$/, "Use o nome aprovado na Meta: letras minúsculas, números e _"),
+  displayName: z.string().trim().min(1, "O nome de exibição é obrigatório").max(120),
+  description: z.string().trim().max(500).default(""),
+  languageCode: z.string().trim().min(2, "Código de idioma inválido").default("pt_BR"),
+  category: z.enum(["MARKETING", "UTILITY", "AUTHENTICATION"]),
+  headerType: z.enum(["none", "text", "image", "video", "document"]).default("none"),
+  headerContent: z.string().trim().max(2000).nullable().default(null),
+  body: z.string().trim().min(1, "O texto do template é obrigatório").max(1024, "Máximo de 1024 caracteres"),
+  bodyParams: z.array(whatsappTemplateParamSchema).max(10).default([]),
+  buttons: z.array(z.object({
+    type: z.enum(["quick_reply", "url", "phone_number"]),
+    text: z.string().trim().min(1, "Preencha o texto do botão").max(25, "Texto do botão com até 25 caracteres"),
+    value: z.string().trim().max(2000).default(""),
+  })).max(3, "Máximo de 3 botões").default([]),
+  active: z.boolean().default(true),
+}).superRefine((template, ctx) => {
+  const placeholders = whatsappTemplatePlaceholders(template.body);
+  if (placeholders.some((n, index) => n !== index + 1)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["body"], message: "Numere as variáveis em sequência: {{1}}, {{2}}..." });
+  } else if (placeholders.length !== template.bodyParams.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["bodyParams"], message: "Defina o valor de cada variável do texto" });
+  }
+  if (template.headerType !== "none" && !template.headerContent) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["headerContent"], message: template.headerType === "text" ? "Preencha o texto do cabeçalho" : "Informe a URL da mídia do cabeçalho" });
+  }
+  template.buttons.forEach((button, index) => {
+    if (button.type !== "quick_reply" && !button.value) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["buttons", index, "value"], message: button.type === "url" ? "Informe a URL do botão" : "Informe o telefone do botão" });
+    }
+  });
+});
+
+export type WhatsappTemplateRecord = typeof whatsappTemplates.$inferSelect;
+
+// Template como retornado pela whatsapp-manager (colunas do banco, em snake_case)
+export interface WhatsappTemplateRow {
+  id: number;
+  name: string;
+  display_name: string;
+  description: string | null;
+  language_code: string;
+  category: "MARKETING" | "UTILITY" | "AUTHENTICATION";
+  header_type: "none" | "text" | "image" | "video" | "document";
+  header_content: string | null;
+  body: string;
+  body_params: WhatsappTemplateParam[] | null;
+  buttons: WhatsappTemplateButton[] | null;
+  active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Campanhas de WhatsApp: um template enviado a vários leads, em fila e com intervalo entre os envios
+export const whatsappBroadcasts = pgTable("whatsapp_broadcasts", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  templateName: text("template_name").notNull(),
+  languageCode: text("language_code").notNull().default("pt_BR"),
+  bodyParams: jsonb("body_params").$type<WhatsappTemplateParam[]>().notNull().default([]),
+  templateId: integer("template_id").references(() => whatsappTemplates.id, { onDelete: 'set null' }), // Cabeçalho e texto do histórico
+  status: text("status").notNull().default("queued"), // queued, sending, paused, completed, cancelled
+  intervalSeconds: integer("interval_seconds").notNull().default(20), // Intervalo mínimo entre duas mensagens
+  lastSentAt: timestamp("last_sent_at"),
+  createdBy: uuid("created_by").references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const whatsappBroadcastRecipients = pgTable("whatsapp_broadcast_recipients", {
+  id: serial("id").primaryKey(),
+  broadcastId: integer("broadcast_id").references(() => whatsappBroadcasts.id, { onDelete: 'cascade' }).notNull(),
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  status: text("status").notNull().default("queued"), // queued, sending, sent, failed, skipped
+  messageId: integer("message_id").references(() => whatsappMessages.id, { onDelete: 'set null' }), // Mensagem enviada; entregue/lida vem dela
+  error: text("error"),
+  processedAt: timestamp("processed_at"),
+});
+
+export const whatsappBroadcastValidationSchema = z.object({
+  name: z.string().trim().min(1, "O nome da campanha é obrigatório").max(120, "Nome muito longo"),
+  templateId: z.number().int().positive().optional(),
+  templateName: z.string().min(1, "Escolha um template"),
+  languageCode: z.string().min(2).default("pt_BR"),
+  bodyParams: z.array(whatsappTemplateParamSchema).max(10).default([]),
+  intervalSeconds: z.number().int().min(5, "Intervalo mínimo de 5 segundos").max(600).default(20),
+  leadIds: z.array(z.number().int().positive()).min(1, "Selecione ao menos um lead").max(5000, "Máximo de 5000 leads por campanha"),
+});
+
+export type WhatsappBroadcast = typeof whatsappBroadcasts.$inferSelect;
+export type WhatsappBroadcastRecipient = typeof whatsappBroadcastRecipients.$inferSelect;
+
+// Campanha como retornada pela whatsapp-manager, com as contagens de get_whatsapp_broadcast_stats
+export interface WhatsappBroadcastRow {
+  id: number;
+  name: string;
+  template_name: string;
+  language_code: string;
+  body_params: WhatsappTemplateParam[];
+  template_id: number | null;
+  status: "queued" | "sending" | "paused" | "completed" | "cancelled";
+  interval_seconds: number;
+  last_sent_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+  creator?: { username: string | null; full_name: string | null } | null; // ausente na criação
+  stats: { total: number; queued: number; sent: number; delivered: number; read: number; failed: number; skipped: number };
+}
+
+// Campanha com os destinatários e o status de cada mensagem, retornada por GET /broadcasts/:id
+export interface WhatsappBroadcastDetailsRow extends WhatsappBroadcastRow {
+  recipients: {
+    id: number;
+    lead_id: number;
+    status: "queued" | "sending" | "sent" | "failed" | "skipped";
+    error: string | null;
+    processed_at: string | null;
+    lead: { name: string; phone: string } | null;
+    message: { status: string; error_message: string | null } | null;
+  }[];
+}
+
+// Caixa de entrada do WhatsApp: uma conversa por lead, mantida por triggers em whatsapp_messages
+export const whatsappConversations = pgTable("whatsapp_conversations", {
+  leadId: integer("lead_id").primaryKey().references(() => leads.id, { onDelete: 'cascade' }),
+  ownerId: uuid("owner_id").references(() => profiles.id, { onDelete: 'set null' }), // Começa com o responsável do lead
+  status: text("status").notNull().default("open"), // open (aguarda a equipe), pending (aguarda o lead), closed
+  unreadCount: integer("unread_count").notNull().default(0), // Mensagens recebidas desde a última leitura
+  lastMessageAt: timestamp("last_message_at"),
+  lastReadAt: timestamp("last_read_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(), // Sinal do Realtime para atualizar a lista e a conversa
+});
+
+// Notas internas da conversa, visíveis só para a equipe
+export const whatsappConversationNotes = pgTable("whatsapp_conversation_notes", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  authorId: uuid("author_id").references(() => profiles.id, { onDelete: 'set null' }),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type WhatsappConversationRecord = typeof whatsappConversations.$inferSelect;
+export type WhatsappConversationNote = typeof whatsappConversationNotes.$inferSelect;
+
+// Nota como retornada pela whatsapp-manager, com o nome do autor
+export interface WhatsappConversationNoteRow {
+  id: number;
+  lead_id: number;
+  author_id: string | null;
+  content: string;
+  created_at: string;
+  author: { username: string | null; full_name: string | null } | null;
+}
+
+// Horário de atendimento do WhatsApp (horário local do estúdio); sem horários, nunca é "fora do horário"
+export const whatsappBusinessHours = pgTable("whatsapp_business_hours", {
+  id: serial("id").primaryKey(),
+  weekday: smallint("weekday").notNull(), // 0 = domingo ... 6 = sábado
+  startTime: time("start_time").notNull(), // HH:MM
+  endTime: time("end_time").notNull(),
+});
+
+// Automações: regras avaliadas a cada mensagem recebida no webhook
+export const whatsappAutomationTriggers = ["keyword", "regex", "first_contact", "outside_hours"] as const;
+
+export const whatsappAutomationRules = pgTable("whatsapp_automation_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  triggerType: text("trigger_type").notNull(), // keyword, regex, first_contact, outside_hours
+  triggerValue: text("trigger_value").notNull().default(""), // Palavras separadas por vírgula ou a expressão regular
+  templateId: integer("template_id").references(() => whatsappTemplates.id, { onDelete: 'set null' }),
+  tag: text("tag"),
+  taskTitle: text("task_title"),
+  taskAssigneeId: uuid("task_assignee_id").references(() => profiles.id, { onDelete: 'set null' }), // Vazio: responsável do lead
+  taskDueHours: integer("task_due_hours").notNull().default(4),
+  cooldownMinutes: integer("cooldown_minutes").notNull().default(1440), // Uma execução por lead neste intervalo
+  position: integer("position").notNull().default(0),
+  active: boolean("active").default(true).notNull(),
+  createdBy: uuid("created_by").references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const whatsappAutomationRuns = pgTable("whatsapp_automation_runs", {
+  id: serial("id").primaryKey(),
+  ruleId: integer("rule_id").references(() => whatsappAutomationRules.id, { onDelete: 'cascade' }).notNull(),
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  triggerMessageId: integer("trigger_message_id").references(() => whatsappMessages.id, { onDelete: 'set null' }),
+  status: text("status").notNull().default("running"), // running, done, failed
+  sentMessageId: integer("sent_message_id").references(() => whatsappMessages.id, { onDelete: 'set null' }), // Template enviado
+  taskId: integer("task_id").references(() => tasks.id, { onDelete: 'set null' }),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const whatsappAutomationRuleValidationSchema = z.object({
+  name: z.string().trim().min(1, "O nome da regra é obrigatório").max(120, "Nome muito longo"),
+  triggerType: z.enum(whatsappAutomationTriggers),
+  triggerValue: z.string().trim().max(500, "Gatilho muito longo").default(""),
+  templateId: z.number().int().positive().nullable().default(null),
+  tag: z.string().trim().max(50, "Etiqueta muito longa").nullable().default(null),
+  taskTitle: z.string().trim().max(200, "Título muito longo").nullable().default(null),
+  taskAssigneeId: z.string().uuid().nullable().default(null),
+  taskDueHours: z.number().int().min(1, "Prazo mínimo de 1 hora").max(720, "Prazo máximo de 720 horas").default(4),
+  cooldownMinutes: z.number().int().min(1, "Intervalo mínimo de 1 minuto").max(525600, "Intervalo máximo de 1 ano").default(1440),
+  position: z.number().int().default(0),
+  active: z.boolean().default(true),
+}).superRefine((rule, ctx) => {
+  if (rule.triggerType === "keyword" && !rule.triggerValue.split(",").some(word => word.trim())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["triggerValue"], message: "Informe ao menos uma palavra-chave" });
+  }
+  if (rule.triggerType === "regex") {
+    try {
+      if (!rule.triggerValue) throw new Error();
+      new RegExp(rule.triggerValue, "i");
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["triggerValue"], message: "Expressão regular inválida" });
+    }
+  }
+  if (!rule.templateId && !rule.tag && !rule.taskTitle) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["templateId"], message: "Escolha ao menos uma ação: template, etiqueta ou tarefa" });
+  }
+});
+
+export type WhatsappBusinessHoursSlot = typeof whatsappBusinessHours.$inferSelect;
+export type WhatsappAutomationRule = typeof whatsappAutomationRules.$inferSelect;
+export type WhatsappAutomationRun = typeof whatsappAutomationRuns.$inferSelect;
+
+// Regra como retornada pela whatsapp-manager; o template só vem na listagem
+export interface WhatsappAutomationRuleRow {
+  id: number;
+  name: string;
+  trigger_type: typeof whatsappAutomationTriggers[number];
+  trigger_value: string;
+  template_id: number | null;
+  tag: string | null;
+  task_title: string | null;
+  task_assignee_id: string | null;
+  task_due_hours: number;
+  cooldown_minutes: number;
+  position: number;
+  active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  template?: { display_name: string; active: boolean } | null;
+}
+
+// Execução com os nomes da regra e do lead (nulos quando foram excluídos)
+export interface WhatsappAutomationRunRow {
+  id: number;
+  rule_id: number;
+  lead_id: number;
+  trigger_message_id: number | null;
+  status: "running" | "done" | "failed";
+  sent_message_id: number | null;
+  task_id: number | null;
+  error: string | null;
+  created_at: string;
+  rule: { name: string } | null;
+  lead: { name: string } | null;
+}
+
+// Horário de atendimento; start_time/end_time vêm como HH:MM:SS
+export interface WhatsappBusinessHoursRow {
+  weekday: number;
+  start_time: string;
+  end_time: string;
+}
+
 // --- New Tables for Supabase specific features ---
 
 // Google OAuth Tokens Table
@@ -366,6 +1304,38 @@ export const googleTokens = pgTable("google_tokens", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Conta Google e calendário usados por cada professor na sincronização
+export const calendarSyncState = pgTable("calendar_sync_state", {
+  trainerId: integer("trainer_id").primaryKey().references(() => trainers.id, { onDelete: 'cascade' }),
+  calendarId: text("calendar_id").default('primary').notNull(),
+  tokenUserId: uuid("token_user_id").references(() => googleTokens.userId, { onDelete: 'cascade' }).notNull(),
+  syncToken: text("sync_token"), // Token incremental da última leitura
+  lastSyncedAt: timestamp("last_synced_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type CalendarSyncState = typeof calendarSyncState.$inferSelect;
+
+// Alterações externas do Google Calendar aguardando revisão
+export const calendarSyncConflicts = pgTable("calendar_sync_conflicts", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").references(() => sessions.id, { onDelete: 'cascade' }).notNull(),
+  trainerId: integer("trainer_id").references(() => trainers.id),
+  googleEventId: text("google_event_id").notNull(),
+  kind: text("kind").notNull(), // both_modified, external_delete, overlap
+  localValue: jsonb("local_value"),
+  remoteValue: jsonb("remote_value"),
+  status: text("status").default("pending").notNull(), // pending, resolved
+  resolution: text("resolution"), // keep_local, accept_remote
+  resolvedBy: uuid("resolved_by").references(() => profiles.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type CalendarSyncConflict = typeof calendarSyncConflicts.$inferSelect;
+
 export type InsertGoogleToken = typeof googleTokens.$inferInsert;
 export type GoogleToken = typeof googleTokens.$inferSelect;
 
@@ -432,6 +1402,22 @@ export const sessionRelations = relations(sessions, ({ one, many }) => ({
     references: [trainers.id],
   }),
   history: many(sessionHistory),
+  series: one(sessionSeries, {
+    fields: [sessions.seriesId],
+    references: [sessionSeries.id],
+  }),
+}));
+
+export const sessionSeriesRelations = relations(sessionSeries, ({ one, many }) => ({
+  student: one(students, {
+    fields: [sessionSeries.studentId],
+    references: [students.id],
+  }),
+  trainer: one(trainers, {
+    fields: [sessionSeries.trainerId],
+    references: [trainers.id],
+  }),
+  sessions: many(sessions),
 }));
 
 export const sessionHistoryRelations = relations(sessionHistory, ({ one }) => ({
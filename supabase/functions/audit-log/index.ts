@@ -35,6 +35,8 @@ enum AuditEventType {
   LEAD_BATCH_IMPORT = 'lead_batch_import',
   LEAD_BATCH_UPDATE = 'lead_batch_update',
   LEAD_BATCH_DELETE = 'lead_batch_delete',
+  LEAD_BATCH_RESTORE = 'lead_batch_restore',
+  LEAD_EXPORTED = 'lead_exported',
 }
 
 interface AuditLogEntry {
@@ -0,0 +1,442 @@
+// Follow this setup guide to integrate the Deno language server with your editor:
+// https://deno.land/manual/getting_started/setup_your_environment
+// This enables autocomplete, go to definition, etc.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from "https://deno.land/x/zod@v3.23.4/mod.ts";
+
+// --- Supabase Client Initialization & Env Vars ---
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+if (!supabaseUrl || !serviceRoleKey || !anonKey) {
+  console.error("Supabase URL, Service Role Key, or Anon Key is missing from environment variables.");
+}
+
+// --- Zod Schemas ---
+const dateOnly = (message: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, message);
+const moneyField = z.number().positive("O valor deve ser maior que zero").multipleOf(0.01, "Use no máximo duas casas decimais");
+
+const packageValidationSchema = z.object({
+  name: z.string().min(1, "O nome do pacote é obrigatório"),
+  price: z.number().nonnegative("O valor não pode ser negativo").multipleOf(0.01, "Use no máximo duas casas decimais"),
+  sessionCredits: z.number().int().positive("Informe a quantidade de sessões"),
+  validityDays: z.number().int().positive("Informe a validade em dias").max(730),
+  source: z.enum(["Favale", "Pink"]).optional().nullable(),
+  active: z.boolean().optional(),
+});
+const packageUpdateSchema = packageValidationSchema.partial();
+
+const sellPackageSchema = z.object({
+  packageId: z.number().int().positive("Pacote inválido"),
+  startsOn: dateOnly("Data de início inválida").optional(),
+  dueDate: dateOnly("Data de vencimento inválida").optional(),
+});
+
+const paymentSchema = z.object({
+  amount: moneyField,
+  paymentMethod: z.enum(["pix", "cartao", "dinheiro", "transferencia"]),
+  occurredOn: dateOnly("Data do pagamento inválida").optional(),
+  description: z.string().optional(),
+});
+
+const chargeSchema = z.object({
+  amount: moneyField,
+  description: z.string().min(1, "A descrição é obrigatória"),
+  dueDate: dateOnly("Data de vencimento inválida"),
+});
+
+const formatZodError = (error: z.ZodError) => error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ');
+
+// Billing dates follow the studio's calendar day, not UTC
+const todayInStudio = () => new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Sao_Paulo' }).format(new Date());
+
+const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+// --- Mappers (snake_case rows -> camelCase API) ---
+function mapPackage(p: any) {
+  return {
+    id: p.id,
+    name: p.name,
+    price: Number(p.price),
+    sessionCredits: p.session_credits,
+    validityDays: p.validity_days,
+    source: p.source,
+    active: p.active,
+  };
+}
+
+function mapStudentPackage(p: any, today: string) {
+  const expired = p.expires_on < today;
+  const exhausted = p.credits_used >= p.credits_total;
+  return {
+    id: p.id,
+    packageId: p.package_id,
+    name: p.name,
+    price: Number(p.price),
+    creditsTotal: p.credits_total,
+    creditsUsed: p.credits_used,
+    startsOn: p.starts_on,
+    expiresOn: p.expires_on,
+    status: p.cancelled_at ? 'cancelled' : exhausted ? 'exhausted' : expired ? 'expired' : 'active',
+  };
+}
+
+function mapLedgerEntry(e: any) {
+  return {
+    id: e.id,
+    entryType: e.entry_type,
+    amount: Number(e.amount),
+    description: e.description,
+    occurredOn: e.occurred_on,
+    dueDate: e.due_date,
+    paymentMethod: e.payment_method,
+    studentPackageId: e.student_package_id,
+    sessionId: e.session_id,
+    createdAt: e.created_at,
+  };
+}
+
+function mapBalance(b: any) {
+  return {
+    totalCharged: toNumber(b?.total_charged) ?? 0,
+    totalPaid: toNumber(b?.total_paid) ?? 0,
+    balance: toNumber(b?.balance) ?? 0,
+    overdueAmount: toNumber(b?.overdue_amount) ?? 0,
+    creditsRemaining: toNumber(b?.credits_remaining) ?? 0,
+    nextExpiration: b?.next_expiration ?? null,
+  };
+}
+
+async function fetchStudentSummary(adminClient: SupabaseClient, studentId: number) {
+  const { data, error } = await adminClient
+    .from('students')
+    .select('id, source, plan, active, lead:leads ( id, name, phone )')
+    .eq('id', studentId)
+    .single();
+  if (error) throw error;
+  return data as any;
+}
+
+async function requireAdmin(adminClient: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await adminClient.from('profiles').select('role').eq('id', userId).single();
+  if (error) throw error;
+  return data?.role === 'admin';
+}
+
+// --- Request Handler ---
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+  };
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const headers = {
+    "Content-Type": "application/json",
+    ...corsHeaders
+  };
+  if (!supabaseUrl || !serviceRoleKey || !anonKey) {
+    return new Response(JSON.stringify({ error: "Configuração do servidor incompleta." }), { status: 503, headers });
+  }
+
+  const adminSupabaseClient = createClient(supabaseUrl, serviceRoleKey);
+  const userSupabaseClient = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: req.headers.get('Authorization')! } }
+  });
+
+  const { data: { user } } = await userSupabaseClient.auth.getUser();
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Não autenticado" }), { status: 401, headers });
+  }
+
+  const { pathname, searchParams } = new URL(req.url);
+  const pathParts = pathname.split('/').filter(part => part);
+  const mainEntity = pathParts[3]; // 'packages', 'students', 'ledger'
+  const entityId = pathParts[4]; // package, student or ledger entry ID
+  const subAction = pathParts[5]; // 'packages', 'payments', 'charges'
+
+  console.log("Billing Request:", req.method, pathname, "Entity:", mainEntity, "ID:", entityId);
+
+  try {
+    // --- PACKAGES (catalog) ---
+    if (mainEntity === 'packages') {
+      if (req.method === 'GET') {
+        let query = adminSupabaseClient.from('billing_packages').select('*').order('name', { ascending: true });
+        if (searchParams.get('active') === 'true') query = query.eq('active', true);
+        const { data, error } = await query;
+        if (error) throw error;
+        return new Response(JSON.stringify({ data: (data || []).map(mapPackage) }), { headers, status: 200 });
+      }
+
+      // Changing the catalog is restricted to admins
+      if (!(await requireAdmin(adminSupabaseClient, user.id))) {
+        return new Response(JSON.stringify({ error: "Acesso negado. Requer privilégios de administrador." }), { status: 403, headers });
+      }
+
+      if (req.method === 'POST' && !entityId) {
+        const validationResult = packageValidationSchema.safeParse(await req.json());
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados do pacote inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const input = validationResult.data;
+        const { data, error } = await adminSupabaseClient.from('billing_packages').insert({
+          name: input.name,
+          price: input.price,
+          session_credits: input.sessionCredits,
+          validity_days: input.validityDays,
+          source: input.source ?? null,
+          active: input.active ?? true,
+        }).select().single();
+        if (error) throw error;
+        return new Response(JSON.stringify({ data: mapPackage(data) }), { headers, status: 201 });
+      }
+
+      // Packages are never deleted (sales keep a reference); PATCH {active:false} retires them
+      const packageId = parseInt(entityId);
+      if (req.method === 'PATCH' && !isNaN(packageId)) {
+        const validationResult = packageUpdateSchema.safeParse(await req.json());
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados do pacote inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const input = validationResult.data;
+        const changes: Record<string, unknown> = { updated_at: new Date().toISOString() };
+        if (input.name !== undefined) changes.name = input.name;
+        if (input.price !== undefined) changes.price = input.price;
+        if (input.sessionCredits !== undefined) changes.session_credits = input.sessionCredits;
+        if (input.validityDays !== undefined) changes.validity_days = input.validityDays;
+        if (input.source !== undefined) changes.source = input.source;
+        if (input.active !== undefined) changes.active = input.active;
+        const { data, error } = await adminSupabaseClient.from('billing_packages').update(changes).eq('id', packageId).select().single();
+        if (error) {
+          if (error.code === 'PGRST116') return new Response(JSON.stringify({ error: "Pacote não encontrado." }), { status: 404, headers });
+          throw error;
+        }
+        return new Response(JSON.stringify({ data: mapPackage(data) }), { headers, status: 200 });
+      }
+    }
+
+    // --- STUDENTS (balances, packages and ledger) ---
+    if (mainEntity === 'students') {
+      // GET balances of every student, with overdue amounts and remaining credits
+      if (req.method === 'GET' && !entityId) {
+        const { data, error } = await adminSupabaseClient
+          .from('students')
+          .select('id, source, plan, active, lead:leads ( id, name ), balance:student_balances ( * )')
+          .order('id', { ascending: true });
+        if (error) throw error;
+        const students = (data || [])
+          .filter((s: any) => searchParams.get('includeInactive') === 'true' || s.active)
+          .map((s: any) => ({
+            studentId: s.id,
+            leadId: s.lead?.id ?? null,
+            name: s.lead?.name || `Aluno #${s.id}`,
+            source: s.source,
+            plan: s.plan,
+            active: s.active,
+            ...mapBalance(Array.isArray(s.balance) ? s.balance[0] : s.balance),
+          }));
+        return new Response(JSON.stringify({ data: students }), { headers, status: 200 });
+      }
+
+      const studentId = parseInt(entityId);
+      if (isNaN(studentId)) {
+        return new Response(JSON.stringify({ error: "ID do aluno inválido." }), { status: 400, headers });
+      }
+
+      // GET student billing detail
+      if (req.method === 'GET' && !subAction) {
+        let student;
+        try {
+          student = await fetchStudentSummary(adminSupabaseClient, studentId);
+        } catch (error) {
+          if (error.code === 'PGRST116') return new Response(JSON.stringify({ error: "Aluno não encontrado." }), { status: 404, headers });
+          throw error;
+        }
+        const [balanceResult, packagesResult, ledgerResult] = await Promise.all([
+          adminSupabaseClient.from('student_balances').select('*').eq('student_id', studentId).maybeSingle(),
+          adminSupabaseClient.from('student_packages').select('*').eq('student_id', studentId).order('starts_on', { ascending: false }),
+          adminSupabaseClient.from('billing_ledger').select('*').eq('student_id', studentId)
+            .order('occurred_on', { ascending: false }).order('id', { ascending: false }),
+        ]);
+        if (balanceResult.error) throw balanceResult.error;
+        if (packagesResult.error) throw packagesResult.error;
+        if (ledgerResult.error) throw ledgerResult.error;
+
+        const today = todayInStudio();
+        return new Response(JSON.stringify({
+          data: {
+            studentId: student.id,
+            name: student.lead?.name || `Aluno #${student.id}`,
+            source: student.source,
+            plan: student.plan,
+            active: student.active,
+            ...mapBalance(balanceResult.data),
+            packages: (packagesResult.data || []).map(p => mapStudentPackage(p, today)),
+            ledger: (ledgerResult.data || []).map(mapLedgerEntry),
+          },
+        }), { headers, status: 200 });
+      }
+
+      // POST sell a package (creates the student package and its charge atomically)
+      if (req.method === 'POST' && subAction === 'packages') {
+        const validationResult = sellPackageSchema.safeParse(await req.json());
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados da venda inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const input = validationResult.data;
+        const startsOn = input.startsOn ?? todayInStudio();
+        const { data, error } = await adminSupabaseClient.rpc('sell_student_package', {
+          p_student_id: studentId,
+          p_package_id: input.packageId,
+          p_starts_on: startsOn,
+          p_due_date: input.dueDate ?? startsOn,
+          p_user_id: user.id,
+        });
+        if (error) {
+          if (error.code === 'PT404') return new Response(JSON.stringify({ error: error.message }), { status: 404, headers });
+          throw error;
+        }
+        return new Response(JSON.stringify({
+          data: { studentPackage: mapStudentPackage(data.studentPackage, todayInStudio()), chargeId: data.chargeId },
+        }), { headers, status: 201 });
+      }
+
+      // POST register a payment
+      if (req.method === 'POST' && subAction === 'payments') {
+        const validationResult = paymentSchema.safeParse(await req.json());
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados do pagamento inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const input = validationResult.data;
+        const { data, error } = await adminSupabaseClient.from('billing_ledger').insert({
+          student_id: studentId,
+          entry_type: 'payment',
+          amount: input.amount,
+          payment_method: input.paymentMethod,
+          occurred_on: input.occurredOn ?? todayInStudio(),
+          description: input.description || 'Pagamento',
+          created_by: user.id,
+        }).select().single();
+        if (error) {
+          if (error.code === '23503') return new Response(JSON.stringify({ error: "Aluno não encontrado." }), { status: 404, headers });
+          throw error;
+        }
+        return new Response(JSON.stringify({ data: mapLedgerEntry(data) }), { headers, status: 201 });
+      }
+
+      // POST register a manual charge (e.g. avaliação física, multa)
+      if (req.method === 'POST' && subAction === 'charges') {
+        const validationResult = chargeSchema.safeParse(await req.json());
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados da cobrança inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const input = validationResult.data;
+        const { data, error } = await adminSupabaseClient.from('billing_ledger').insert({
+          student_id: studentId,
+          entry_type: 'charge',
+          amount: input.amount,
+          description: input.description,
+          due_date: input.dueDate,
+          occurred_on: todayInStudio(),
+          created_by: user.id,
+        }).select().single();
+        if (error) {
+          if (error.code === '23503') return new Response(JSON.stringify({ error: "Aluno não encontrado." }), { status: 404, headers });
+          throw error;
+        }
+        return new Response(JSON.stringify({ data: mapLedgerEntry(data) }), { headers, status: 201 });
+      }
+    }
+
+    // --- LEDGER ---
+    // DELETE a manual entry typed by mistake; entries generated by package sales or sessions are kept
+    const entryId = parseInt(entityId);
+    if (mainEntity === 'ledger' && req.method === 'DELETE' && !isNaN(entryId)) {
+      if (!(await requireAdmin(adminSupabaseClient, user.id))) {
+        return new Response(JSON.stringify({ error: "Acesso negado. Requer privilégios de administrador." }), { status: 403, headers });
+      }
+      const { data: entry, error: fetchError } = await adminSupabaseClient.from('billing_ledger').select('*').eq('id', entryId).single();
+      if (fetchError) {
+        if (fetchError.code === 'PGRST116') return new Response(JSON.stringify({ error: "Lançamento não encontrado." }), { status: 404, headers });
+        throw fetchError;
+      }
+      if (entry.session_id || entry.student_package_id) {
+        return new Response(JSON.stringify({ error: "Lançamentos gerados por sessões ou pacotes não podem ser excluídos." }), { status: 409, headers });
+      }
+      const { error } = await adminSupabaseClient.from('billing_ledger').delete().eq('id', entryId);
+      if (error) throw error;
+      return new Response(null, { status: 204, headers });
+    }
+
+    return new Response(JSON.stringify({ error: "Rota financeira não encontrada ou método não permitido." }), { status: 404, headers });
+
+  } catch (error) {
+    console.error('Erro na função Billing:', error.message, error.stack);
+    return new Response(JSON.stringify({ error: error.message || "Erro interno do servidor financeiro." }), { status: 500, headers });
+  }
+});
+
+/*
+Table Dependencies (migration 0016_billing):
+- `billing_packages`: Catalog of session packages (price, credits, validity).
+- `student_packages`: Packages sold to students; `credits_used` is kept up to date by the
+  `sessions_apply_billing` trigger when a session becomes (or stops being) "concluído".
+- `billing_ledger`: Charges and payments per student.
+- `student_balances`: View with balance, overdue amount and remaining credits per student.
+
+Invocation Examples:
+
+GET packages (add ?active=true for the ones on sale):
+curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/billing-functions/packages' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+
+POST create package (admin):
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/billing-functions/packages' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"name":"Mensal 2x","price":960,"sessionCredits":8,"validityDays":30,"source":"Favale"}'
+
+PATCH retire package (admin):
+curl -i --location --request PATCH 'http://127.0.0.1:54321/functions/v1/billing-functions/packages/1' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"active":false}'
+
+GET balances of all active students (add ?includeInactive=true for everyone):
+curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/billing-functions/students' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+
+GET billing detail of a student (balance, packages and ledger):
+curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/billing-functions/students/1' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+
+POST sell a package to a student:
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/billing-functions/students/1/packages' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"packageId":1,"startsOn":"2024-05-01","dueDate":"2024-05-05"}'
+
+POST register a payment:
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/billing-functions/students/1/payments' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"amount":480,"paymentMethod":"pix"}'
+
+POST register a manual charge:
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/billing-functions/students/1/charges' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"amount":150,"description":"Avaliação física","dueDate":"2024-05-10"}'
+
+DELETE a manual ledger entry (admin):
+curl -i --location --request DELETE 'http://127.0.0.1:54321/functions/v1/billing-functions/ledger/10' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+*/
@@ -0,0 +1,103 @@
+// In-memory stand-in for the Google OAuth token endpoint and the Calendar v3 events API,
+// covering only what calendar-sync uses: insert/patch/delete events and incremental list with sync tokens.
+//
+// Run:  deno run --allow-net supabase/functions/calendar-sync/fake-google-api.ts [port]
+// Then point calendar-sync at it (GOOGLE_CALENDAR_API_URL=http://host.docker.internal:8787/calendar/v3,
+// GOOGLE_TOKEN_URI=http://host.docker.internal:8787/token) and simulate external edits with plain curl, e.g.:
+//   curl -X PATCH http://localhost:8787/calendar/v3/calendars/primary/events/EVENT_ID \
+//     -H 'Content-Type: application/json' -d '{"start":{"dateTime":"2024-05-10T13:00:00Z"},"end":{"dateTime":"2024-05-10T14:00:00Z"}}'
+//   curl -X DELETE http://localhost:8787/calendar/v3/calendars/primary/events/EVENT_ID
+//   curl -X POST http://localhost:8787/_reset-sync-tokens   # makes the next incremental list answer 410 Gone
+
+interface StoredEvent {
+  id: string;
+  status: string;
+  updated: string;
+  version: number; // Change counter used to answer incremental (syncToken) lists
+  [key: string]: unknown;
+}
+
+const port = parseInt(Deno.args[0] || '8787');
+const calendars = new Map<string, Map<string, StoredEvent>>();
+let version = 0;
+let tokenEpoch = 0; // Bumping it invalidates every sync token handed out so far
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+const notFound = () => json({ error: { code: 404, message: 'Not Found' } }, 404);
+
+const calendarEvents = (calendarId: string) => {
+  if (!calendars.has(calendarId)) calendars.set(calendarId, new Map());
+  return calendars.get(calendarId)!;
+};
+
+const touch = (event: StoredEvent) => {
+  event.version = ++version;
+  event.updated = new Date().toISOString();
+  return event;
+};
+
+const publicEvent = ({ version: _version, ...event }: StoredEvent) => event;
+
+Deno.serve({ port }, async (req) => {
+  const url = new URL(req.url);
+  const path = url.pathname.replace(/^\/calendar\/v3/, '');
+  console.log(req.method, url.pathname + url.search);
+
+  if (req.method === 'POST' && path === '/token') {
+    return json({ access_token: `fake-access-${crypto.randomUUID()}`, expires_in: 3600, token_type: 'Bearer' });
+  }
+  if (req.method === 'POST' && path === '/_reset-sync-tokens') {
+    tokenEpoch++;
+    return json({ ok: true, tokenEpoch });
+  }
+  if (!req.headers.get('Authorization')?.startsWith('Bearer ')) {
+    return json({ error: { code: 401, message: 'Login Required' } }, 401);
+  }
+
+  const match = path.match(/^\/calendars\/([^/]+)\/events(?:\/([^/]+))?$/);
+  if (!match) return notFound();
+  const events = calendarEvents(decodeURIComponent(match[1]));
+  const eventId = match[2] ? decodeURIComponent(match[2]) : undefined;
+
+  if (!eventId && req.method === 'GET') {
+    const syncToken = url.searchParams.get('syncToken');
+    let since = 0;
+    if (syncToken) {
+      const [epoch, tokenVersion] = syncToken.split(':').map(Number);
+      if (epoch !== tokenEpoch || isNaN(tokenVersion)) return json({ error: { code: 410, message: 'Sync token is no longer valid' } }, 410);
+      since = tokenVersion;
+    }
+    const showDeleted = url.searchParams.get('showDeleted') === 'true' || !!syncToken;
+    const items = [...events.values()]
+      .filter(e => e.version > since && (showDeleted || e.status !== 'cancelled'))
+      .map(publicEvent);
+    return json({ kind: 'calendar#events', items, nextSyncToken: `${tokenEpoch}:${version}` });
+  }
+
+  if (!eventId && req.method === 'POST') {
+    const body = await req.json();
+    const event = touch({ ...body, id: crypto.randomUUID().replace(/-/g, ''), status: body.status || 'confirmed', updated: '', version: 0 });
+    events.set(event.id, event);
+    return json(publicEvent(event));
+  }
+
+  const existing = eventId ? events.get(eventId) : undefined;
+  if (!existing) return notFound();
+
+  if (req.method === 'GET') return json(publicEvent(existing));
+  if (req.method === 'PATCH' || req.method === 'PUT') {
+    const body = await req.json();
+    const event = touch({ ...(req.method === 'PATCH' ? existing : { id: existing.id, status: 'confirmed' }), ...body, id: existing.id } as StoredEvent);
+    events.set(event.id, event);
+    return json(publicEvent(event));
+  }
+  if (req.method === 'DELETE') {
+    if (existing.status === 'cancelled') return json({ error: { code: 410, message: 'Resource has been deleted' } }, 410);
+    touch(Object.assign(existing, { status: 'cancelled' }));
+    return new Response(null, { status: 204 });
+  }
+  return json({ error: { code: 405, message: 'Method Not Allowed' } }, 405);
+});
+
+console.log(`Fake Google Calendar API listening on http://localhost:${port}`);
@@ -0,0 +1,758 @@
+// Follow this setup guide to integrate the Deno language server with your editor:
+// https://deno.land/manual/getting_started/setup_your_environment
+// This enables autocomplete, go to definition, etc.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from "https://deno.land/x/zod@v3.23.4/mod.ts";
+
+// --- Supabase Client Initialization & Env Vars ---
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+const googleClientId = Deno.env.get('GOOGLE_CLIENT_ID');
+const googleClientSecret = Deno.env.get('GOOGLE_CLIENT_SECRET');
+// Both endpoints can point to the local fake API (see fake-google-api.ts) during development
+const calendarApiUrl = (Deno.env.get('GOOGLE_CALENDAR_API_URL') || 'https://www.googleapis.com/calendar/v3').replace(/\/$/, '');
+const googleTokenUri = Deno.env.get('GOOGLE_TOKEN_URI') || 'https://oauth2.googleapis.com/token';
+const cronSecret = Deno.env.get('CALENDAR_SYNC_CRON_SECRET'); // Lets the scheduled job call POST /pull without a user session
+
+if (!supabaseUrl || !serviceRoleKey || !anonKey || !googleClientId || !googleClientSecret) {
+    console.error("Supabase or Google OAuth environment variables are missing for Calendar sync.");
+}
+
+const SYNC_TIME_ZONE = 'America/Sao_Paulo';
+const INITIAL_SYNC_LOOKBACK_DAYS = 30;
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000; // Refresh slightly before expiry to avoid mid-request failures
+
+// --- Types ---
+interface SyncState {
+  trainer_id: number;
+  calendar_id: string;
+  token_user_id: string;
+  sync_token: string | null;
+  last_synced_at: string | null;
+}
+
+interface GoogleEvent {
+  id: string;
+  status?: string; // 'confirmed' | 'tentative' | 'cancelled'
+  summary?: string;
+  location?: string;
+  start?: { dateTime?: string; date?: string };
+  end?: { dateTime?: string; date?: string };
+  extendedProperties?: { private?: Record<string, string> };
+}
+
+type ConflictKind = 'both_modified' | 'external_delete' | 'overlap';
+type PushAction = 'created' | 'updated' | 'deleted' | 'skipped';
+
+// --- Zod Schemas ---
+const connectSchema = z.object({
+  calendarId: z.string().min(1, "ID do calendário inválido").optional(),
+});
+
+const pushSchema = z.object({
+  sessionIds: z.array(z.number().int().positive()).min(1, "Informe ao menos uma sessão"),
+});
+
+const resolveSchema = z.object({
+  resolution: z.enum(["keep_local", "accept_remote"]),
+});
+
+const formatZodError = (error: z.ZodError) => error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ');
+
+// --- Audit Log Helper ---
+enum AuditEventType {
+  CALENDAR_SYNC_CONNECTED = 'calendar_sync_connected',
+  CALENDAR_SYNC_DISCONNECTED = 'calendar_sync_disconnected',
+  CALENDAR_SYNC_CONFLICT_RESOLVED = 'calendar_sync_conflict_resolved',
+}
+
+async function logAuditEvent(supabase: SupabaseClient, type: AuditEventType, userId: string, details: any = {}) {
+  try {
+    const { error } = await supabase.from('audit_logs').insert({
+      event_type: type.toString(),
+      user_id: userId,
+      details,
+    });
+    if (error) console.error(`Audit log error for ${type.toString()}:`, error.message);
+  } catch (e) {
+    console.error(`Exception during audit logging for ${type.toString()}:`, e.message);
+  }
+}
+
+// Scheduled calls present CALENDAR_SYNC_CRON_SECRET in x-cron-secret
+function isCronAuthorized(req: Request): boolean {
+  const secret = req.headers.get('x-cron-secret');
+  if (!cronSecret || !secret) return false;
+  const left = new TextEncoder().encode(secret);
+  const right = new TextEncoder().encode(cronSecret);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  return diff === 0;
+}
+
+// --- Google API Helpers ---
+const googleError = (status: number, message: string) => Object.assign(new Error(message), { status });
+const isGone = (error: any) => error?.status === 404 || error?.status === 410;
+const toUtcIso = (value: string | Date) => new Date(value).toISOString();
+
+// Returns a valid access token for the Google account, refreshing it when it is about to expire
+async function getAccessToken(adminClient: SupabaseClient, userId: string, forceRefresh = false): Promise<string> {
+  const { data: tokens, error } = await adminClient
+    .from('google_tokens')
+    .select('access_token, refresh_token, expiry_date')
+    .eq('user_id', userId)
+    .single();
+  if (error) {
+    if (error.code === 'PGRST116') throw googleError(412, "A conta Google vinculada não está mais autorizada.");
+    throw error;
+  }
+
+  const expiresAt = tokens.expiry_date ? new Date(tokens.expiry_date).getTime() : 0;
+  if (!forceRefresh && expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) return tokens.access_token;
+  if (!tokens.refresh_token) {
+    throw googleError(412, "O token do Google expirou e não há refresh token. Autorize o Google Calendar novamente.");
+  }
+
+  const res = await fetch(googleTokenUri, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: googleClientId!,
+      client_secret: googleClientSecret!,
+      refresh_token: tokens.refresh_token,
+      grant_type: 'refresh_token',
+    }),
+  });
+  if (!res.ok) throw googleError(res.status, `Falha ao renovar o token do Google: ${await res.text()}`);
+  const refreshed = await res.json();
+
+  const { error: saveError } = await adminClient.from('google_tokens').update({
+    access_token: refreshed.access_token,
+    refresh_token: refreshed.refresh_token ?? tokens.refresh_token, // Google only returns a new one occasionally
+    expiry_date: new Date(Date.now() + (refreshed.expires_in ?? 3600) * 1000).toISOString(),
+    updated_at: new Date().toISOString(),
+  }).eq('user_id', userId);
+  if (saveError) throw saveError;
+  return refreshed.access_token;
+}
+
+// Calls the Calendar API with the account's token, retrying once with a fresh token on 401
+async function googleRequest<T = any>(
+  adminClient: SupabaseClient,
+  userId: string,
+  method: string,
+  path: string,
+  body?: unknown,
+): Promise<T | null> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const accessToken = await getAccessToken(adminClient, userId, attempt > 0);
+    const res = await fetch(`${calendarApiUrl}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (res.status === 401 && attempt === 0) continue;
+    if (!res.ok) throw googleError(res.status, `Google Calendar respondeu ${res.status}: ${await res.text()}`);
+    if (res.status === 204) return null;
+    const text = await res.text();
+    return text ? JSON.parse(text) : null;
+  }
+  return null;
+}
+
+const eventsPath = (calendarId: string, eventId?: string) =>
+  `/calendars/${encodeURIComponent(calendarId)}/events${eventId ? `/${encodeURIComponent(eventId)}` : ''}`;
+
+function toGoogleEvent(session: Record<string, any>) {
+  const studentName = session.student?.lead?.name || `Aluno #${session.student_id}`;
+  return {
+    summary: `Treino - ${studentName}`,
+    location: session.location,
+    description: [`Professor: ${session.trainer?.name || session.trainer_id}`, `Origem: ${session.source}`, session.notes]
+      .filter(Boolean)
+      .join('\n'),
+    start: { dateTime: toUtcIso(session.start_time), timeZone: SYNC_TIME_ZONE },
+    end: { dateTime: toUtcIso(session.end_time), timeZone: SYNC_TIME_ZONE },
+    status: 'confirmed', // Restores events that were deleted on Google when the local version wins
+    extendedProperties: { private: { crmSessionId: String(session.id) } },
+  };
+}
+
+// --- Sync State Helpers ---
+async function getSyncState(adminClient: SupabaseClient, trainerId: number): Promise<SyncState | null> {
+  const { data, error } = await adminClient.from('calendar_sync_state').select('*').eq('trainer_id', trainerId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+async function getSyncStateByCalendar(adminClient: SupabaseClient, tokenUserId: string, calendarId: string): Promise<SyncState | null> {
+  const { data, error } = await adminClient
+    .from('calendar_sync_state')
+    .select('*')
+    .eq('token_user_id', tokenUserId)
+    .eq('calendar_id', calendarId)
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+async function recordSessionHistory(
+  adminClient: SupabaseClient,
+  sessionId: number,
+  changeType: 'updated' | 'cancelled',
+  userId: string,
+  oldValue: unknown,
+  newValue: unknown,
+) {
+  const { error } = await adminClient.from('session_history').insert({
+    session_id: sessionId,
+    change_type: changeType,
+    user_id: userId,
+    old_value: oldValue,
+    new_value: newValue,
+  });
+  if (error) console.error(`Erro ao registrar histórico (${changeType}) da sessão ${sessionId}:`, error.message);
+}
+
+// --- Push (CRM -> Google) ---
+// Creates, updates or removes the event of a session in its trainer's linked calendar
+async function pushSession(adminClient: SupabaseClient, sessionId: number): Promise<PushAction> {
+  const { data: session, error } = await adminClient
+    .from('sessions')
+    .select('*, student:students(id, lead:leads(name)), trainer:trainers(id, name)')
+    .eq('id', sessionId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!session) return 'skipped';
+
+  const state = await getSyncState(adminClient, session.trainer_id);
+  const shouldRemove = session.status === 'cancelado' || !state;
+  const syncedAt = new Date().toISOString();
+
+  // The event lives in another calendar or account (trainer changed) or the session no longer needs one
+  const movedCalendar = session.google_calendar_id !== state?.calendar_id || session.google_token_user_id !== state?.token_user_id;
+  if (session.google_event_id && (shouldRemove || movedCalendar)) {
+    const previousState = session.google_calendar_id && session.google_token_user_id
+      ? await getSyncStateByCalendar(adminClient, session.google_token_user_id, session.google_calendar_id)
+      : null;
+    if (previousState) {
+      try {
+        await googleRequest(adminClient, previousState.token_user_id, 'DELETE', eventsPath(previousState.calendar_id, session.google_event_id));
+      } catch (e) {
+        if (!isGone(e)) throw e;
+      }
+    }
+    const { error: clearError } = await adminClient
+      .from('sessions')
+      .update({ google_event_id: null, google_calendar_id: null, google_token_user_id: null, google_synced_at: syncedAt })
+      .eq('id', sessionId);
+    if (clearError) throw clearError;
+    if (shouldRemove) return 'deleted';
+    session.google_event_id = null;
+  }
+  if (shouldRemove || !state) return 'skipped';
+
+  const event = toGoogleEvent(session);
+  let remote: GoogleEvent | null = null;
+  if (session.google_event_id) {
+    try {
+      remote = await googleRequest<GoogleEvent>(adminClient, state.token_user_id, 'PATCH', eventsPath(state.calendar_id, session.google_event_id), event);
+    } catch (e) {
+      if (!isGone(e)) throw e; // Deleted for good on Google: recreate below
+    }
+  }
+  const action: PushAction = remote ? 'updated' : 'created';
+  if (!remote) {
+    remote = await googleRequest<GoogleEvent>(adminClient, state.token_user_id, 'POST', eventsPath(state.calendar_id), event);
+  }
+
+  const { error: saveError } = await adminClient
+    .from('sessions')
+    .update({ google_event_id: remote!.id, google_calendar_id: state.calendar_id, google_token_user_id: state.token_user_id, google_synced_at: syncedAt })
+    .eq('id', sessionId);
+  if (saveError) throw saveError;
+  return action;
+}
+
+// --- Pull (Google -> CRM) ---
+async function recordConflict(
+  adminClient: SupabaseClient,
+  kind: ConflictKind,
+  session: Record<string, any>,
+  eventId: string,
+  remoteValue: Record<string, unknown> | null,
+) {
+  // Only the latest pending conflict per session is kept
+  const { error: clearError } = await adminClient
+    .from('calendar_sync_conflicts')
+    .delete()
+    .eq('session_id', session.id)
+    .eq('status', 'pending');
+  if (clearError) throw clearError;
+
+  const { error } = await adminClient.from('calendar_sync_conflicts').insert({
+    session_id: session.id,
+    trainer_id: session.trainer_id,
+    google_event_id: eventId,
+    kind,
+    local_value: {
+      start_time: toUtcIso(session.start_time),
+      end_time: toUtcIso(session.end_time),
+      location: session.location,
+      status: session.status,
+    },
+    remote_value: remoteValue,
+  });
+  if (error) throw error;
+}
+
+async function hasOverlappingSessions(adminClient: SupabaseClient, session: Record<string, any>, startTime: string, endTime: string) {
+  const { count, error } = await adminClient
+    .from('sessions')
+    .select('id', { count: 'exact', head: true })
+    .neq('id', session.id)
+    .neq('status', 'cancelado')
+    .lt('start_time', endTime)
+    .gt('end_time', startTime)
+    .or(`trainer_id.eq.${session.trainer_id},student_id.eq.${session.student_id}`);
+  if (error) throw error;
+  return (count || 0) > 0;
+}
+
+type ReconcileResult = 'applied' | 'conflict' | 'unchanged' | 'ignored';
+
+// Applies an external change to the matching session, or files it for review when it cannot be applied safely
+async function reconcileEvent(adminClient: SupabaseClient, state: SyncState, event: GoogleEvent, userId: string): Promise<ReconcileResult> {
+  const { data: session, error } = await adminClient
+    .from('sessions')
+    .select('*')
+    .eq('google_token_user_id', state.token_user_id)
+    .eq('google_calendar_id', state.calendar_id)
+    .eq('google_event_id', event.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!session) return 'ignored'; // Personal events of the trainer are not CRM sessions
+
+  if (event.status === 'cancelled') {
+    if (session.status === 'cancelado') return 'unchanged';
+    await recordConflict(adminClient, 'external_delete', session, event.id, null);
+    return 'conflict';
+  }
+  if (!event.start?.dateTime || !event.end?.dateTime) return 'ignored'; // Turned into an all-day event
+
+  const remote = {
+    start_time: toUtcIso(event.start.dateTime),
+    end_time: toUtcIso(event.end.dateTime),
+    location: event.location ?? session.location,
+  };
+  const changed = remote.start_time !== toUtcIso(session.start_time)
+    || remote.end_time !== toUtcIso(session.end_time)
+    || remote.location !== session.location;
+  if (!changed) return 'unchanged'; // Echo of our own push
+
+  const locallyModified = !session.google_synced_at || new Date(session.updated_at) > new Date(session.google_synced_at);
+  if (locallyModified) {
+    await recordConflict(adminClient, 'both_modified', session, event.id, remote);
+    return 'conflict';
+  }
+  if (await hasOverlappingSessions(adminClient, session, remote.start_time, remote.end_time)) {
+    await recordConflict(adminClient, 'overlap', session, event.id, remote);
+    return 'conflict';
+  }
+
+  const now = new Date().toISOString();
+  const { error: updateError } = await adminClient
+    .from('sessions')
+    .update({ ...remote, updated_at: now, google_synced_at: now })
+    .eq('id', session.id);
+  if (updateError) {
+    if (updateError.code === '23P01') { // Lost a race against a concurrent booking
+      await recordConflict(adminClient, 'overlap', session, event.id, remote);
+      return 'conflict';
+    }
+    throw updateError;
+  }
+  await recordSessionHistory(
+    adminClient, session.id, 'updated', userId,
+    { start_time: toUtcIso(session.start_time), end_time: toUtcIso(session.end_time), location: session.location },
+    { ...remote, origin: 'google_calendar' },
+  );
+  return 'applied';
+}
+
+// Incremental pull using Google sync tokens; falls back to a full window when the token is invalidated (410)
+async function pullCalendar(adminClient: SupabaseClient, state: SyncState, userId: string) {
+  const summary = { applied: 0, conflict: 0, unchanged: 0, ignored: 0 };
+  let syncToken = state.sync_token;
+  let pageToken: string | undefined;
+  let nextSyncToken: string | undefined;
+
+  // Restarted from the first page when Google invalidates the sync token mid-listing
+  for (;;) {
+    const params = new URLSearchParams({ singleEvents: 'true', showDeleted: 'true', maxResults: '250' });
+    if (syncToken) {
+      params.set('syncToken', syncToken);
+    } else {
+      params.set('timeMin', new Date(Date.now() - INITIAL_SYNC_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString());
+    }
+    if (pageToken) params.set('pageToken', pageToken);
+
+    let page: { items?: GoogleEvent[]; nextPageToken?: string; nextSyncToken?: string } | null;
+    try {
+      page = await googleRequest(adminClient, state.token_user_id, 'GET', `${eventsPath(state.calendar_id)}?${params}`);
+    } catch (e) {
+      if ((e as any)?.status === 410 && syncToken) {
+        syncToken = null;
+        pageToken = undefined;
+        continue;
+      }
+      throw e;
+    }
+
+    for (const event of page?.items || []) {
+      summary[await reconcileEvent(adminClient, state, event, userId)]++;
+    }
+    pageToken = page?.nextPageToken;
+    nextSyncToken = page?.nextSyncToken;
+    if (!pageToken) break;
+  }
+
+  const { error } = await adminClient
+    .from('calendar_sync_state')
+    .update({ sync_token: nextSyncToken ?? syncToken, last_synced_at: new Date().toISOString(), last_error: null })
+    .eq('trainer_id', state.trainer_id);
+  if (error) throw error;
+  return summary;
+}
+
+// Pulls every linked calendar (or one trainer's); scheduled runs attribute changes to the account that owns each calendar
+async function pullLinkedCalendars(adminClient: SupabaseClient, trainerId?: number, userId?: string) {
+  let query = adminClient.from('calendar_sync_state').select('*');
+  if (trainerId) query = query.eq('trainer_id', trainerId);
+  const { data: states, error } = await query;
+  if (error) throw error;
+
+  const results = [];
+  for (const state of (states || []) as SyncState[]) {
+    try {
+      results.push({ trainerId: state.trainer_id, ...(await pullCalendar(adminClient, state, userId ?? state.token_user_id)) });
+    } catch (e) {
+      console.error(`Erro ao puxar calendário do professor ${state.trainer_id}:`, e.message);
+      await adminClient.from('calendar_sync_state').update({ last_error: e.message }).eq('trainer_id', state.trainer_id);
+      results.push({ trainerId: state.trainer_id, error: e.message });
+    }
+  }
+  return results;
+}
+
+// --- Request Handler ---
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  };
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const headers = {
+    "Content-Type": "application/json",
+    ...corsHeaders
+  };
+  if (!supabaseUrl || !serviceRoleKey || !anonKey || !googleClientId || !googleClientSecret) {
+    return new Response(JSON.stringify({ error: "Configuração do servidor incompleta." }), { status: 503, headers });
+  }
+
+  const adminSupabaseClient = createClient(supabaseUrl, serviceRoleKey);
+  const userSupabaseClient = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: req.headers.get('Authorization')! } }
+  });
+
+  const { pathname, searchParams } = new URL(req.url);
+  const pathParts = pathname.split('/').filter(part => part);
+  const action = pathParts[3]; // 'status', 'connect', 'push', 'pull', 'conflicts'
+  const targetId = pathParts[4]; // trainer ID or conflict ID
+  const subAction = pathParts[5]; // 'resolve'
+
+  console.log("Calendar Sync Request:", req.method, pathname, "Action:", action, "Target:", targetId);
+
+  // --- SCHEDULED PULL (no user session: the pg_cron job presents the cron secret) ---
+  if (req.method === 'POST' && action === 'pull' && isCronAuthorized(req)) {
+    try {
+      const data = await pullLinkedCalendars(adminSupabaseClient, targetId ? parseInt(targetId) : undefined);
+      return new Response(JSON.stringify({ data }), { headers, status: 200 });
+    } catch (error) {
+      console.error('Erro na leitura agendada do Calendar Sync:', error.message);
+      return new Response(JSON.stringify({ error: error.message || "Erro interno do servidor de sincronização." }), { status: 500, headers });
+    }
+  }
+
+  const { data: { user } } = await userSupabaseClient.auth.getUser();
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Não autenticado" }), { status: 401, headers });
+  }
+
+  try {
+    // --- STATUS ---
+    if (req.method === 'GET' && action === 'status') {
+      const { data: trainers, error } = await adminSupabaseClient
+        .from('trainers')
+        .select('id, name, calendar_id, active, sync:calendar_sync_state(calendar_id, token_user_id, last_synced_at, last_error)')
+        .eq('active', true)
+        .order('name', { ascending: true });
+      if (error) throw error;
+
+      const { count: pendingConflicts, error: countError } = await adminSupabaseClient
+        .from('calendar_sync_conflicts')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'pending');
+      if (countError) throw countError;
+
+      const data = (trainers || []).map((t: any) => {
+        const sync = Array.isArray(t.sync) ? t.sync[0] : t.sync;
+        return {
+          trainerId: t.id,
+          trainerName: t.name,
+          linked: !!sync,
+          calendarId: sync?.calendar_id ?? t.calendar_id ?? null,
+          linkedByCurrentUser: sync?.token_user_id === user.id,
+          lastSyncedAt: sync?.last_synced_at ?? null,
+          lastError: sync?.last_error ?? null,
+        };
+      });
+      return new Response(JSON.stringify({ data: { trainers: data, pendingConflicts: pendingConflicts || 0 } }), { headers, status: 200 });
+    }
+
+    // --- CONNECT / DISCONNECT a trainer calendar to the current user's Google account ---
+    if (action === 'connect' && targetId) {
+      const trainerId = parseInt(targetId);
+      if (isNaN(trainerId)) {
+        return new Response(JSON.stringify({ error: "ID do professor inválido." }), { status: 400, headers });
+      }
+
+      if (req.method === 'POST') {
+        const body = await req.json().catch(() => ({}));
+        const validationResult = connectSchema.safeParse(body);
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados de conexão inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+
+        const { data: token, error: tokenError } = await adminSupabaseClient.from('google_tokens').select('user_id').eq('user_id', user.id).maybeSingle();
+        if (tokenError) throw tokenError;
+        if (!token) {
+          return new Response(JSON.stringify({ error: "Autorize o Google Calendar antes de vincular calendários." }), { status: 412, headers });
+        }
+
+        const { data: trainer, error: trainerError } = await adminSupabaseClient.from('trainers').select('id, calendar_id').eq('id', trainerId).single();
+        if (trainerError) {
+          if (trainerError.code === 'PGRST116') return new Response(JSON.stringify({ error: "Professor não encontrado." }), { status: 404, headers });
+          throw trainerError;
+        }
+
+        const { data, error } = await adminSupabaseClient.from('calendar_sync_state').upsert({
+          trainer_id: trainerId,
+          calendar_id: validationResult.data.calendarId || trainer.calendar_id || 'primary',
+          token_user_id: user.id,
+          sync_token: null, // A new calendar always starts with a full pull
+          last_error: null,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'trainer_id' }).select().single();
+        if (error) throw error;
+
+        await logAuditEvent(adminSupabaseClient, AuditEventType.CALENDAR_SYNC_CONNECTED, user.id, { trainerId, calendarId: data.calendar_id });
+        return new Response(JSON.stringify({ data }), { headers, status: 200 });
+      }
+
+      if (req.method === 'DELETE') {
+        const { error } = await adminSupabaseClient.from('calendar_sync_state').delete().eq('trainer_id', trainerId);
+        if (error) throw error;
+        await logAuditEvent(adminSupabaseClient, AuditEventType.CALENDAR_SYNC_DISCONNECTED, user.id, { trainerId });
+        return new Response(null, { status: 204, headers });
+      }
+    }
+
+    // --- PUSH sessions to Google (called by scheduling-functions after every change) ---
+    if (req.method === 'POST' && action === 'push') {
+      const body = await req.json();
+      const validationResult = pushSchema.safeParse(body);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({ error: "Dados de sincronização inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+      }
+
+      const results: { sessionId: number; action?: PushAction; error?: string }[] = [];
+      for (const sessionId of validationResult.data.sessionIds) {
+        try {
+          results.push({ sessionId, action: await pushSession(adminSupabaseClient, sessionId) });
+        } catch (e) {
+          console.error(`Erro ao sincronizar sessão ${sessionId} com o Google Calendar:`, e.message);
+          results.push({ sessionId, error: e.message });
+        }
+      }
+      return new Response(JSON.stringify({ data: results }), { headers, status: 200 });
+    }
+
+    // --- PULL external changes (all linked calendars, or one trainer) ---
+    if (req.method === 'POST' && action === 'pull') {
+      const data = await pullLinkedCalendars(adminSupabaseClient, targetId ? parseInt(targetId) : undefined, user.id);
+      return new Response(JSON.stringify({ data }), { headers, status: 200 });
+    }
+
+    // --- CONFLICT REVIEW LIST ---
+    if (action === 'conflicts') {
+      if (req.method === 'GET' && !targetId) {
+        const status = searchParams.get('status') || 'pending';
+        const { data, error } = await adminSupabaseClient
+          .from('calendar_sync_conflicts')
+          .select(`
+            id, kind, status, resolution, google_event_id, local_value, remote_value, created_at, resolved_at,
+            session:sessions ( id, student:students ( id, lead:leads (name) ), trainer:trainers (id, name) )
+          `)
+          .eq('status', status)
+          .order('created_at', { ascending: false });
+        if (error) throw error;
+
+        const conflicts = (data || []).map((c: any) => ({
+          id: c.id,
+          kind: c.kind,
+          status: c.status,
+          resolution: c.resolution,
+          googleEventId: c.google_event_id,
+          localValue: c.local_value,
+          remoteValue: c.remote_value,
+          createdAt: c.created_at,
+          resolvedAt: c.resolved_at,
+          sessionId: c.session?.id,
+          studentName: c.session?.student?.lead?.name || 'N/A',
+          trainerName: c.session?.trainer?.name || 'N/A',
+        }));
+        return new Response(JSON.stringify({ data: conflicts }), { headers, status: 200 });
+      }
+
+      const conflictId = parseInt(targetId);
+      if (req.method === 'POST' && subAction === 'resolve' && !isNaN(conflictId)) {
+        const body = await req.json();
+        const validationResult = resolveSchema.safeParse(body);
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Resolução inválida.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const { resolution } = validationResult.data;
+
+        const { data: conflict, error: conflictError } = await adminSupabaseClient.from('calendar_sync_conflicts').select('*').eq('id', conflictId).single();
+        if (conflictError) {
+          if (conflictError.code === 'PGRST116') return new Response(JSON.stringify({ error: "Conflito não encontrado." }), { status: 404, headers });
+          throw conflictError;
+        }
+        if (conflict.status !== 'pending') {
+          return new Response(JSON.stringify({ error: "Este conflito já foi resolvido." }), { status: 400, headers });
+        }
+
+        if (resolution === 'keep_local') {
+          await pushSession(adminSupabaseClient, conflict.session_id);
+        } else {
+          const { data: session, error: sessionError } = await adminSupabaseClient.from('sessions').select('*').eq('id', conflict.session_id).single();
+          if (sessionError) throw sessionError;
+
+          const now = new Date().toISOString();
+          const changes = conflict.kind === 'external_delete' ? { status: 'cancelado' } : conflict.remote_value;
+          const { error: updateError } = await adminSupabaseClient
+            .from('sessions')
+            .update({ ...changes, updated_at: now, google_synced_at: now })
+            .eq('id', conflict.session_id);
+          if (updateError) {
+            if (updateError.code === '23P01') {
+              return new Response(JSON.stringify({ error: "O horário do Google conflita com outra sessão do professor ou do aluno." }), { status: 409, headers });
+            }
+            throw updateError;
+          }
+          await recordSessionHistory(
+            adminSupabaseClient, session.id, conflict.kind === 'external_delete' ? 'cancelled' : 'updated', user.id,
+            conflict.local_value, { ...changes, origin: 'google_calendar' },
+          );
+        }
+
+        const { data: resolved, error: resolveError } = await adminSupabaseClient
+          .from('calendar_sync_conflicts')
+          .update({ status: 'resolved', resolution, resolved_by: user.id, resolved_at: new Date().toISOString() })
+          .eq('id', conflictId)
+          .select()
+          .single();
+        if (resolveError) throw resolveError;
+
+        await logAuditEvent(adminSupabaseClient, AuditEventType.CALENDAR_SYNC_CONFLICT_RESOLVED, user.id, { conflictId, sessionId: conflict.session_id, resolution });
+        return new Response(JSON.stringify({ data: resolved }), { headers, status: 200 });
+      }
+    }
+
+    return new Response(JSON.stringify({ error: "Rota de sincronização não encontrada ou método não permitido." }), { status: 404, headers });
+
+  } catch (error) {
+    console.error('Erro na função Calendar Sync:', error.message, error.stack);
+    const status = typeof error.status === 'number' && error.status >= 400 && error.status < 600 ? error.status : 500;
+    return new Response(JSON.stringify({ error: error.message || "Erro interno do servidor de sincronização." }), { status, headers });
+  }
+});
+
+/*
+Table Dependencies:
+- `google_tokens`: OAuth tokens stored by `google-oauth`; refreshed here when they expire.
+- `calendar_sync_state`: Which Google account/calendar each trainer syncs with, plus the incremental sync token.
+- `calendar_sync_conflicts`: External changes that could not be applied automatically, waiting for review.
+- `sessions`: `google_event_id`, `google_calendar_id`, `google_token_user_id` (owner of the calendar) and
+  `google_synced_at` track the event of each session.
+
+Sync rules:
+- Push: every create/update/cancel/reschedule in `scheduling-functions` calls POST /push. Cancelled sessions remove the event.
+- Pull: run by the "calendar-sync-pull" pg_cron job (migration 0034) and on demand from the sync panel. External edits are applied to the session unless it was also changed locally since the last sync
+  (`both_modified`), the event was deleted on Google (`external_delete`) or the new time overlaps another
+  session (`overlap`). Those go to the review list, where they are resolved with `keep_local` or `accept_remote`.
+
+Local testing against the fake Calendar API:
+  deno run --allow-net supabase/functions/calendar-sync/fake-google-api.ts
+  # in supabase/functions/.env
+  GOOGLE_CALENDAR_API_URL=http://host.docker.internal:8787/calendar/v3
+  GOOGLE_TOKEN_URI=http://host.docker.internal:8787/token
+
+Invocation Examples:
+
+GET sync status of every active trainer:
+curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/calendar-sync/status' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+
+POST link a trainer (e.g., ID 1) to the current user's Google account (defaults to trainers.calendar_id or 'primary'):
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/calendar-sync/connect/1' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"calendarId":"trainer1@group.calendar.google.com"}'
+
+POST push sessions:
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/calendar-sync/push' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"sessionIds":[1,2]}'
+
+POST pull external changes (all linked calendars, or /pull/1 for one trainer):
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/calendar-sync/pull' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+
+POST scheduled pull (what the cron job sends; CALENDAR_SYNC_CRON_SECRET must be set on the function):
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/calendar-sync/pull' \
+  --header 'Authorization: Bearer YOUR_ANON_KEY' \
+  --header "x-cron-secret: $CALENDAR_SYNC_CRON_SECRET"
+
+GET pending conflicts:
+curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/calendar-sync/conflicts?status=pending' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+
+POST resolve a conflict (e.g., ID 1):
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/calendar-sync/conflicts/1/resolve' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"resolution":"accept_remote"}'
+*/
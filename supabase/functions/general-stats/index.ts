@@ -23,6 +23,7 @@ interface Lead {
   state: string;  // e.g., 'SP', 'RJ', 'MG'
   campaign: string; // e.g., 'Natal23', 'Verao24'
   entry_date: string | Date; // Keep as string or Date from DB
+  score: number; // lead_score_rules total (migration 0023)
 }
 
 interface Student {
@@ -36,6 +37,31 @@ interface Session {
   student_id: number;
 }
 
+// Row of lead_pipeline_metrics (migration 0021)
+interface PipelineStageMetric {
+  stage_id: number;
+  source: string | null; // null = default pipeline
+  name: string;
+  position: number;
+  kind: 'open' | 'won' | 'lost';
+  current_leads: number;
+  entered_leads: number;
+  advanced_leads: number;
+  avg_days_in_stage: number | null;
+}
+
+// Window for stage conversion and time in stage; ?pipelineDays=0 uses the whole history
+const DEFAULT_PIPELINE_DAYS = 90;
+
+// Score distribution buckets; min inclusive, max exclusive (null = unbounded)
+const SCORE_BUCKETS: { label: string; min: number | null; max: number | null }[] = [
+  { label: 'Negativo', min: null, max: 0 },
+  { label: '0-19', min: 0, max: 20 },
+  { label: '20-39', min: 20, max: 40 },
+  { label: '40-59', min: 40, max: 60 },
+  { label: '60+', min: 60, max: null },
+];
+
 
 // --- Request Handler ---
 Deno.serve(async (req) => {
@@ -74,17 +100,27 @@ Deno.serve(async (req) => {
   }
 
   try {
+    const pipelineDaysParam = parseInt(new URL(req.url).searchParams.get('pipelineDays') ?? '');
+    const pipelineDays = isNaN(pipelineDaysParam) || pipelineDaysParam < 0 ? DEFAULT_PIPELINE_DAYS : pipelineDaysParam;
+    const pipelineSince = pipelineDays > 0 ? new Date(Date.now() - pipelineDays * 24 * 60 * 60 * 1000).toISOString() : null;
+
+    // Recency rules age with the calendar, so scores computed before today are refreshed first
+    const { error: scoreError } = await adminSupabaseClient.rpc('refresh_lead_scores', { p_only_stale: true });
+    if (scoreError) throw new Error(`Erro ao atualizar pontuação dos leads: ${scoreError.message}`);
+
     // Fetch all necessary data in parallel
     // Ensure table names 'leads', 'students', 'sessions' are correct.
-    const [leadsResponse, studentsResponse, sessionsResponse] = await Promise.all([
-      adminSupabaseClient.from('leads').select('id, status, source, state, campaign, entry_date', { count: 'exact' }),
+    const [leadsResponse, studentsResponse, sessionsResponse, pipelineResponse] = await Promise.all([
+      adminSupabaseClient.from('leads').select('id, status, source, state, campaign, entry_date, score', { count: 'exact' }).is('deleted_at', null),
       adminSupabaseClient.from('students').select('id', { count: 'exact' }),
-      adminSupabaseClient.from('sessions').select('id, status, student_id', { count: 'exact' })
+      adminSupabaseClient.from('sessions').select('id, status, student_id', { count: 'exact' }),
+      adminSupabaseClient.rpc('lead_pipeline_metrics', { p_since: pipelineSince })
     ]);
 
     if (leadsResponse.error) throw new Error(`Erro ao buscar leads: ${leadsResponse.error.message}`);
     if (studentsResponse.error) throw new Error(`Erro ao buscar estudantes: ${studentsResponse.error.message}`);
     if (sessionsResponse.error) throw new Error(`Erro ao buscar sessões: ${sessionsResponse.error.message}`);
+    if (pipelineResponse.error) throw new Error(`Erro ao buscar métricas do funil: ${pipelineResponse.error.message}`);
 
     const allLeads: Lead[] = (leadsResponse.data as Lead[]) || [];
     const totalLeads: number = leadsResponse.count || 0;
@@ -140,6 +176,27 @@ Deno.serve(async (req) => {
       ? (totalSessions / totalStudents) // Using totalSessions for average
       : 0;
 
+    // Stage conversion: share of the leads that entered a stage and later reached a further (not lost) stage
+    const pipelineStages = ((pipelineResponse.data as PipelineStageMetric[]) || []).map(stage => ({
+      stageId: stage.stage_id,
+      source: stage.source,
+      name: stage.name,
+      position: stage.position,
+      kind: stage.kind,
+      currentLeads: stage.current_leads,
+      enteredLeads: stage.entered_leads,
+      conversionRate: stage.kind === 'open' && stage.entered_leads > 0
+        ? parseFloat(((stage.advanced_leads / stage.entered_leads) * 100).toFixed(1))
+        : null,
+      avgDaysInStage: stage.avg_days_in_stage === null ? null : Number(stage.avg_days_in_stage),
+    }));
+
+    const scoreDistribution = SCORE_BUCKETS.map(bucket => ({
+      ...bucket,
+      count: allLeads.filter(lead => (bucket.min === null || lead.score >= bucket.min) && (bucket.max === null || lead.score < bucket.max)).length,
+    }));
+    const averageScore = allLeads.length > 0 ? allLeads.reduce((sum, lead) => sum + (lead.score || 0), 0) / allLeads.length : 0;
+
     const stats = {
       totalLeads,
       totalStudents,
@@ -152,7 +209,11 @@ Deno.serve(async (req) => {
       leadsBySource,
       leadsByState,
       leadsByCampaign,
-      totalLeadsByCampaign: Object.values(leadsByCampaign).reduce((a, b) => a + b, 0) // Sum of leads grouped by campaign
+      totalLeadsByCampaign: Object.values(leadsByCampaign).reduce((a, b) => a + b, 0), // Sum of leads grouped by campaign
+      pipelineStages,
+      pipelineDays,
+      scoreDistribution,
+      averageScore: parseFloat(averageScore.toFixed(1))
     };
 
     return new Response(JSON.stringify({ data: stats }), { headers, status: 200 });
@@ -178,12 +239,20 @@ Deno.serve(async (req) => {
 
 /*
 Table Dependencies:
-- `leads`: (id, status, source, state, campaign, entryDate)
+- `leads`: (id, status, source, state, campaign, entryDate, score)
 - `students`: (id) - primarily for counting total students.
 - `sessions`: (id, status, studentId) - for session-related stats.
+- `lead_pipeline_metrics` rpc (pipeline_stages, lead_stage_history): leads per stage, stage conversion and
+  average days in stage over the last `pipelineDays` days (default 90; 0 = whole history).
+- `refresh_lead_scores` rpc (lead_score_rules): refreshes scores computed before today; `scoreDistribution`
+  counts leads per score bucket.
 
 Invocation Example:
 GET general statistics:
 curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/general-stats' \
   --header 'Authorization: Bearer YOUR_USER_JWT'
+
+GET with pipeline metrics over the last 30 days:
+curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/general-stats?pipelineDays=30' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
 */
@@ -4,6 +4,7 @@
 
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
 import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from "https://deno.land/x/zod@v3.23.4/mod.ts";
 
 // --- Supabase Client Initialization & Env Vars ---
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
@@ -36,8 +37,11 @@ interface Trainer {
   id: number;
   name: string;
   email: string;
+  phone?: string | null;
+  specialties?: string[] | null;
+  locations: string[];
+  calendar_id?: string | null;
   active: boolean;
-  // Add other relevant trainer fields
 }
 
 interface Session {
@@ -69,13 +73,510 @@ const toValidISOString = (dateInput: string | Date | undefined | null): string |
   }
 };
 
+// --- Zod Schemas (mirror sessionValidationSchema from shared/schema.ts) ---
+const sessionStatusEnum = z.enum(["agendado", "concluído", "cancelado", "remarcado"]);
+
+const sessionDateField = (message: string) => z.preprocess((arg) => {
+  if (typeof arg === "string" || arg instanceof Date) return new Date(arg);
+  return undefined;
+}, z.date({ invalid_type_error: message, required_error: message }).refine(d => !isNaN(d.getTime()), { message }));
+
+const sessionBaseValidationSchema = z.object({
+  startTime: sessionDateField("Horário de início precisa ser uma data válida"),
+  endTime: sessionDateField("Horário de término precisa ser uma data válida"),
+  studentId: z.number().int().positive("ID do aluno inválido"),
+  trainerId: z.number().int().positive("ID do professor inválido"),
+  location: z.string().min(1, "O local é obrigatório"),
+  notes: z.string().optional().nullable(),
+  status: sessionStatusEnum.default("agendado"),
+  source: z.string().min(1, "A origem é obrigatória"),
+  price: z.number().nonnegative("O valor não pode ser negativo").optional().nullable(),
+  googleEventId: z.string().optional().nullable(),
+});
+
+const endAfterStart = (data: { startTime?: Date; endTime?: Date }) =>
+  !data.startTime || !data.endTime || data.endTime > data.startTime;
+const endAfterStartError = {
+  message: "O horário de término deve ser posterior ao horário de início",
+  path: ["endTime"],
+};
+
+const sessionValidationSchema = sessionBaseValidationSchema.refine(endAfterStart, endAfterStartError);
+const sessionUpdateSchema = sessionBaseValidationSchema.partial().refine(endAfterStart, endAfterStartError);
+const sessionRescheduleSchema = sessionBaseValidationSchema
+  .pick({ startTime: true, endTime: true })
+  .extend({
+    trainerId: z.number().int().positive("ID do professor inválido").optional(),
+    location: z.string().min(1, "O local é obrigatório").optional(),
+    reason: z.string().optional(),
+  })
+  .refine(endAfterStart, endAfterStartError);
+
+const MAX_SERIES_OCCURRENCES = 200;
+const MAX_SERIES_SPAN_DAYS = 366;
+
+const seriesScopeEnum = z.enum(["this", "following", "all"]);
+
+// Recurrence rule of a series: startTime/endTime are the slot of the first occurrence,
+// repeated on the given weekdays (0 = domingo) every `intervalWeeks` weeks until a date or a number of sessions
+const sessionSeriesValidationSchema = sessionBaseValidationSchema
+  .omit({ status: true, googleEventId: true })
+  .extend({
+    weekdays: z.array(z.number().int().min(0).max(6)).min(1, "Selecione ao menos um dia da semana"),
+    intervalWeeks: z.number().int().min(1).max(4).default(1),
+    untilDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data final inválida").optional(),
+    occurrenceCount: z.number().int().positive("Número de sessões inválido").max(MAX_SERIES_OCCURRENCES).optional(),
+  })
+  .refine(endAfterStart, endAfterStartError)
+  .refine(data => !!data.untilDate || !!data.occurrenceCount, { message: "Informe a data final ou o número de sessões", path: ["untilDate"] });
+
+const holidayValidationSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida"),
+  name: z.string().min(1, "O nome do feriado é obrigatório"),
+});
+
+// Mirrors trainerValidationSchema / trainerAvailabilitySlotSchema from shared/schema.ts
+const trainerValidationSchema = z.object({
+  name: z.string().min(1, "O nome é obrigatório"),
+  email: z.string().min(1, "O e-mail é obrigatório").email("E-mail inválido"),
+  phone: z.string().optional().nullable(),
+  specialties: z.array(z.string().trim().min(1)).optional(),
+  locations: z.array(z.string().trim().min(1)).optional(),
+  calendarId: z.string().optional().nullable(),
+  active: z.boolean().optional(),
+});
+const trainerUpdateSchema = trainerValidationSchema.partial();
+
+const timeOfDay = (message: string) => z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:00)?$/, message);
+const availabilitySlotSchema = z.object({
+  weekday: z.number().int().min(0).max(6),
+  startTime: timeOfDay("Horário de início inválido"),
+  endTime: timeOfDay("Horário de término inválido"),
+}).refine(slot => slot.endTime > slot.startTime, { message: "O horário de término deve ser posterior ao horário de início", path: ["endTime"] });
+
+// The weekly grid is always replaced as a whole; slots of the same weekday may not overlap
+const trainerAvailabilitySchema = z.object({
+  slots: z.array(availabilitySlotSchema).max(70),
+}).refine(({ slots }) => slots.every((a, i) => slots.every((b, j) =>
+  i === j || a.weekday !== b.weekday || a.endTime <= b.startTime || b.endTime <= a.startTime
+)), { message: "Há horários sobrepostos no mesmo dia da semana", path: ["slots"] });
+
+const trainerTimeOffSchema = z.object({
+  startsAt: sessionDateField("Início da folga precisa ser uma data válida"),
+  endsAt: sessionDateField("Fim da folga precisa ser uma data válida"),
+  reason: z.string().optional().nullable(),
+}).refine(data => data.endsAt > data.startsAt, { message: "O fim da folga deve ser posterior ao início", path: ["endsAt"] });
+
+const trainerAvailabilityQuerySchema = z.object({
+  startTime: sessionDateField("Horário de início precisa ser uma data válida"),
+  endTime: sessionDateField("Horário de término precisa ser uma data válida"),
+  location: z.string().optional(),
+  specialty: z.string().optional(),
+  excludeSessionId: z.coerce.number().int().positive().optional(),
+}).refine(endAfterStart, endAfterStartError);
+
+// Lead-to-student conversion (migration 0014). The first session and onboarding tasks are optional
+// and are created in the same transaction as the student row.
+const studentConversionSchema = z.object({
+  leadId: z.number().int().positive("ID do lead inválido"),
+  address: z.string().optional().nullable(),
+  preferences: z.string().optional().nullable(),
+  plan: z.string().optional().nullable(),
+  source: z.string().min(1, "A origem é obrigatória"),
+  firstSession: sessionBaseValidationSchema
+    .pick({ startTime: true, endTime: true, trainerId: true, location: true, notes: true })
+    .refine(endAfterStart, endAfterStartError)
+    .optional()
+    .nullable(),
+  tasks: z.array(z.object({
+    title: z.string().min(1, "O título da tarefa é obrigatório"),
+    description: z.string().optional().nullable(),
+    assignedToId: z.string().uuid("Responsável da tarefa inválido"),
+    dueDate: sessionDateField("Data de vencimento inválida").optional().nullable(),
+    priority: z.enum(["low", "medium", "high"]).default("medium"),
+  })).max(20).default([]),
+});
+
+const studentDeactivationSchema = z.object({
+  reason: z.string().optional().nullable(),
+  cancelFutureSessions: z.boolean().default(true),
+});
+
+// convert_lead_to_student / deactivate_student / apply_session_change raise PTxxx codes for expected failures;
+// apply_session_change puts the clashing sessions in the error details
+function rpcErrorResponse(error: { code?: string; message: string; details?: string | null }, headers: Record<string, string>): Response | null {
+  if (error.code === 'PT400') return new Response(JSON.stringify({ error: error.message }), { status: 400, headers });
+  if (error.code === 'PT404') return new Response(JSON.stringify({ error: error.message }), { status: 404, headers });
+  if (error.code === 'PT409' && error.details) return conflictResponse(JSON.parse(error.details), headers);
+  if (error.code === 'PT409') return new Response(JSON.stringify({ error: error.message }), { status: 409, headers });
+  if (isOverlapViolation(error)) return conflictResponse([], headers);
+  return null;
+}
+
+type SessionInput = z.infer<typeof sessionBaseValidationSchema>;
+type SeriesScope = z.infer<typeof seriesScopeEnum>;
+type SessionChangeType = 'created' | 'updated' | 'cancelled' | 'rescheduled';
+
+const formatZodError = (error: z.ZodError) => error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ');
+
+// Maps validated camelCase input to the snake_case columns of the `sessions` table
+function toSessionRow(input: Partial<SessionInput>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  if (input.startTime !== undefined) row.start_time = input.startTime.toISOString();
+  if (input.endTime !== undefined) row.end_time = input.endTime.toISOString();
+  if (input.studentId !== undefined) row.student_id = input.studentId;
+  if (input.trainerId !== undefined) row.trainer_id = input.trainerId;
+  if (input.location !== undefined) row.location = input.location;
+  if (input.notes !== undefined) row.notes = input.notes;
+  if (input.status !== undefined) row.status = input.status;
+  if (input.source !== undefined) row.source = input.source;
+  if (input.price !== undefined) row.price = input.price;
+  if (input.googleEventId !== undefined) row.google_event_id = input.googleEventId;
+  return row;
+}
+
+interface SessionConflict {
+  sessionId: number;
+  type: 'trainer' | 'student';
+  startTime: string | null;
+  endTime: string | null;
+}
+
+// Finds non-cancelled sessions of the same trainer or student overlapping [start, end)
+async function findSessionConflicts(
+  adminClient: SupabaseClient,
+  slot: { startTime: Date; endTime: Date; trainerId: number; studentId: number },
+  ignoreSessionIds: number[] = [],
+): Promise<SessionConflict[]> {
+  let query = adminClient
+    .from('sessions')
+    .select('id, start_time, end_time, student_id, trainer_id')
+    .neq('status', 'cancelado')
+    .lt('start_time', slot.endTime.toISOString())
+    .gt('end_time', slot.startTime.toISOString())
+    .or(`trainer_id.eq.${slot.trainerId},student_id.eq.${slot.studentId}`);
+  if (ignoreSessionIds.length > 0) query = query.not('id', 'in', `(${ignoreSessionIds.join(',')})`);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map((s: any) => ({
+    sessionId: s.id,
+    type: s.trainer_id === slot.trainerId ? 'trainer' : 'student',
+    startTime: toValidISOString(s.start_time),
+    endTime: toValidISOString(s.end_time),
+  }));
+}
+
+function conflictResponse(conflicts: SessionConflict[], headers: Record<string, string>): Response {
+  const message = conflicts.some(c => c.type === 'trainer')
+    ? "O professor já possui uma sessão neste horário."
+    : conflicts.some(c => c.type === 'student')
+      ? "O aluno já possui uma sessão neste horário."
+      : "O professor ou o aluno já possui uma sessão neste horário.";
+  return new Response(JSON.stringify({ error: message, details: conflicts }), { status: 409, headers });
+}
+
+async function recordSessionHistory(
+  adminClient: SupabaseClient,
+  sessionId: number,
+  changeType: SessionChangeType,
+  userId: string,
+  oldValue: unknown,
+  newValue: unknown,
+) {
+  const { error } = await adminClient.from('session_history').insert({
+    session_id: sessionId,
+    change_type: changeType,
+    user_id: userId,
+    old_value: oldValue,
+    new_value: newValue,
+  });
+  if (error) console.error(`Erro ao registrar histórico (${changeType}) da sessão ${sessionId}:`, error.message);
+}
+
+// Postgres exclusion constraint violation (see migration 0009_session_conflict_constraints)
+const isOverlapViolation = (error: { code?: string } | null) => error?.code === '23P01';
+
+// Mirrors changed sessions to the trainers' Google Calendars through the calendar-sync function.
+// Sync problems are logged (and surface in the sync status screen) but never block scheduling.
+async function syncSessionsToCalendar(sessionIds: number[], authorization: string | null) {
+  if (sessionIds.length === 0) return;
+  try {
+    const res = await fetch(`${supabaseUrl}/functions/v1/calendar-sync/push`, {
+      method: 'POST',
+      headers: { Authorization: authorization ?? '', apikey: anonKey!, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionIds }),
+    });
+    if (!res.ok) console.warn(`Sincronização com o Google Calendar falhou (${res.status}):`, await res.text());
+  } catch (e) {
+    console.warn('Sincronização com o Google Calendar indisponível:', e.message);
+  }
+}
+
+// --- Reporting Helpers ---
+const reportGroupByEnum = z.enum(["student", "period", "category"]);
+const REPORT_PAGE_SIZE = 1000;
+
+const sessionReportQuerySchema = z.object({
+  groupBy: reportGroupByEnum.default("period"),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inicial inválida"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data final inválida"),
+  studentId: z.coerce.number().int().positive("ID do aluno inválido").optional(),
+  trainerId: z.coerce.number().int().positive("ID do professor inválido").optional(),
+  source: z.enum(["Favale", "Pink"]).optional(),
+  status: sessionStatusEnum.optional(),
+});
+
+type SessionReportQuery = z.infer<typeof sessionReportQuerySchema>;
+
+interface SessionReportRow {
+  id: number;
+  startTime: string | null;
+  endTime: string | null;
+  durationMinutes: number;
+  studentId: number;
+  studentName: string;
+  trainerId: number;
+  trainerName: string;
+  source: string;
+  status: string;
+  location: string;
+  price: number | null;
+}
+
+// Loads every session matching the filters, in pages, ordered by start time.
+// `from`/`to` are calendar days in the studio time zone (both inclusive).
+async function fetchReportSessions(adminClient: SupabaseClient, filters: SessionReportQuery): Promise<SessionReportRow[]> {
+  const fromIso = new Date(`${filters.from}T00:00:00-03:00`).toISOString();
+  const toIso = new Date(new Date(`${filters.to}T00:00:00-03:00`).getTime() + DAY_MS).toISOString();
+  const rows: SessionReportRow[] = [];
+
+  for (let offset = 0; ; offset += REPORT_PAGE_SIZE) {
+    let query = adminClient
+      .from('sessions')
+      .select(`
+        id, start_time, end_time, status, source, location, price,
+        student:students!inner ( id, lead:leads ( name ) ),
+        trainer:trainers!inner ( id, name )
+      `)
+      .gte('start_time', fromIso)
+      .lt('start_time', toIso)
+      .order('start_time', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + REPORT_PAGE_SIZE - 1);
+    if (filters.studentId) query = query.eq('student_id', filters.studentId);
+    if (filters.trainerId) query = query.eq('trainer_id', filters.trainerId);
+    if (filters.source) query = query.eq('source', filters.source);
+    if (filters.status) query = query.eq('status', filters.status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    for (const s of (data || []) as any[]) {
+      const start = new Date(s.start_time).getTime();
+      const end = new Date(s.end_time).getTime();
+      rows.push({
+        id: s.id,
+        startTime: toValidISOString(s.start_time),
+        endTime: toValidISOString(s.end_time),
+        durationMinutes: Math.max(0, Math.round((end - start) / 60000)),
+        studentId: s.student?.id,
+        studentName: s.student?.lead?.name || `Aluno #${s.student?.id}`,
+        trainerId: s.trainer?.id,
+        trainerName: s.trainer?.name || 'N/A',
+        source: s.source,
+        status: s.status,
+        location: s.location,
+        price: s.price !== null ? Number(s.price) : null,
+      });
+    }
+    if (!data || data.length < REPORT_PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+// Subtotals per student, per month (studio time zone) or per category, in first-appearance order
+function groupReportSessions(rows: SessionReportRow[], groupBy: z.infer<typeof reportGroupByEnum>) {
+  const groups = new Map<string, { key: string; label: string; sessions: number; minutes: number; value: number; unpriced: number }>();
+  for (const row of rows) {
+    const key = groupBy === 'student'
+      ? String(row.studentId)
+      : groupBy === 'category'
+        ? row.source
+        : toLocalDateKey(new Date(row.startTime!)).slice(0, 7); // YYYY-MM
+    const label = groupBy === 'student' ? row.studentName : key;
+    const group = groups.get(key) || { key, label, sessions: 0, minutes: 0, value: 0, unpriced: 0 };
+    group.sessions += 1;
+    group.minutes += row.durationMinutes;
+    group.value += row.price ?? 0;
+    if (row.price === null) group.unpriced += 1;
+    groups.set(key, group);
+  }
+  return [...groups.values()].map(g => ({ ...g, value: Math.round(g.value * 100) / 100 }));
+}
+
+// --- Recurring Series Helpers ---
+// Occurrences are generated in 24h steps from the first slot. Brazil has no daylight saving time,
+// so this keeps the wall-clock time; weekdays and holidays are evaluated in the studio's time zone.
+const SERIES_TIME_ZONE = 'America/Sao_Paulo';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const localDateFormatter = new Intl.DateTimeFormat('en-CA', { timeZone: SERIES_TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' });
+
+const toLocalDateKey = (date: Date) => localDateFormatter.format(date); // YYYY-MM-DD
+const localWeekday = (date: Date) => new Date(`${toLocalDateKey(date)}T00:00:00Z`).getUTCDay();
+
+interface SeriesRule {
+  startTime: Date;
+  endTime: Date;
+  weekdays: number[];
+  intervalWeeks: number;
+  untilDate?: string | null;
+  occurrenceCount?: number | null;
+}
+
+interface SkippedOccurrence {
+  date: string;
+  reason: 'holiday' | 'conflict';
+  detail: string;
+}
+
+// Expands a rule into concrete slots, skipping holidays and slots already taken by the trainer or the student.
+// Skipped dates do not count towards `occurrenceCount`, so a package always gets the sessions it was sold with.
+function generateSeriesOccurrences(rule: SeriesRule, holidayNames: Map<string, string>, busy: SessionConflict[]) {
+  const occurrences: { startTime: Date; endTime: Date }[] = [];
+  const skipped: SkippedOccurrence[] = [];
+  const firstWeekday = localWeekday(rule.startTime);
+  const duration = rule.endTime.getTime() - rule.startTime.getTime();
+  const limit = Math.min(rule.occurrenceCount || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  for (let day = 0; day <= MAX_SERIES_SPAN_DAYS && occurrences.length < limit; day++) {
+    const startTime = new Date(rule.startTime.getTime() + day * DAY_MS);
+    const dateKey = toLocalDateKey(startTime);
+    if (rule.untilDate && dateKey > rule.untilDate) break;
+
+    const weekOffset = Math.floor((firstWeekday + day) / 7);
+    if (weekOffset % rule.intervalWeeks !== 0 || !rule.weekdays.includes((firstWeekday + day) % 7)) continue;
+
+    if (holidayNames.has(dateKey)) {
+      skipped.push({ date: dateKey, reason: 'holiday', detail: holidayNames.get(dateKey)! });
+      continue;
+    }
+    const endTime = new Date(startTime.getTime() + duration);
+    const clash = busy.find(b => new Date(b.startTime!) < endTime && new Date(b.endTime!) > startTime);
+    if (clash) {
+      skipped.push({
+        date: dateKey,
+        reason: 'conflict',
+        detail: `${clash.type === 'trainer' ? 'Professor' : 'Aluno'} já possui a sessão ${clash.sessionId} neste horário`,
+      });
+      continue;
+    }
+    occurrences.push({ startTime, endTime });
+  }
+  return { occurrences, skipped };
+}
+
+async function fetchHolidayNames(adminClient: SupabaseClient, from: Date, to: Date): Promise<Map<string, string>> {
+  const { data, error } = await adminClient
+    .from('holidays')
+    .select('date, name')
+    .gte('date', toLocalDateKey(from))
+    .lte('date', toLocalDateKey(to));
+  if (error) throw error;
+  return new Map((data || []).map((h: any) => [h.date, h.name]));
+}
+
+// --- Trainer Availability Helpers ---
+const localTimeFormatter = new Intl.DateTimeFormat('en-GB', { timeZone: SERIES_TIME_ZONE, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+const toLocalTime = (date: Date) => localTimeFormatter.format(date); // HH:MM
+const normalizeLabel = (value: string) => value.trim().toLocaleLowerCase('pt-BR');
+
+// Maps validated camelCase input to the snake_case columns of the `trainers` table
+function toTrainerRow(input: Partial<z.infer<typeof trainerValidationSchema>>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  if (input.name !== undefined) row.name = input.name;
+  if (input.email !== undefined) row.email = input.email;
+  if (input.phone !== undefined) row.phone = input.phone || null;
+  if (input.specialties !== undefined) row.specialties = input.specialties;
+  if (input.locations !== undefined) row.locations = input.locations;
+  if (input.calendarId !== undefined) row.calendar_id = input.calendarId || null;
+  if (input.active !== undefined) row.active = input.active;
+  return row;
+}
+
+interface TrainerSlotCheck {
+  id: number;
+  name: string;
+  specialties: string[];
+  locations: string[];
+  available: boolean;
+  reasons: string[];
+}
+
+// Checks every active trainer against a slot: location and specialty, weekly grid, time off and other sessions.
+// Unavailable trainers are returned too (with the reasons) so the UI can explain why they are not offered.
+async function checkTrainersForSlot(
+  adminClient: SupabaseClient,
+  query: z.infer<typeof trainerAvailabilityQuerySchema>,
+): Promise<TrainerSlotCheck[]> {
+  const start = query.startTime.toISOString();
+  const end = query.endTime.toISOString();
+  let sessionsQuery = adminClient
+    .from('sessions')
+    .select('id, trainer_id')
+    .neq('status', 'cancelado')
+    .lt('start_time', end)
+    .gt('end_time', start);
+  if (query.excludeSessionId) sessionsQuery = sessionsQuery.neq('id', query.excludeSessionId);
+
+  const [trainersResult, slotsResult, timeOffResult, sessionsResult] = await Promise.all([
+    adminClient.from('trainers').select('id, name, specialties, locations').eq('active', true).order('name', { ascending: true }),
+    adminClient.from('trainer_availability').select('trainer_id, weekday, start_time, end_time'),
+    adminClient.from('trainer_time_off').select('trainer_id, reason').lt('starts_at', end).gt('ends_at', start),
+    sessionsQuery,
+  ]);
+  for (const result of [trainersResult, slotsResult, timeOffResult, sessionsResult]) {
+    if (result.error) throw result.error;
+  }
+
+  // Sessions crossing midnight never fit in a weekly slot
+  const sameLocalDay = toLocalDateKey(query.startTime) === toLocalDateKey(new Date(query.endTime.getTime() - 1));
+  const weekday = localWeekday(query.startTime);
+  const startLocal = toLocalTime(query.startTime);
+  const endLocal = toLocalTime(query.endTime) === '00:00' ? '24:00' : toLocalTime(query.endTime);
+
+  return (trainersResult.data || []).map((t: any) => {
+    const specialties: string[] = t.specialties || [];
+    const locations: string[] = t.locations || [];
+    const slots = (slotsResult.data || []).filter((s: any) => s.trainer_id === t.id);
+    const reasons: string[] = [];
+
+    if (query.location && locations.length > 0 && !locations.some(l => normalizeLabel(l) === normalizeLabel(query.location!))) {
+      reasons.push('Não atende neste local');
+    }
+    if (query.specialty && !specialties.some(sp => normalizeLabel(sp) === normalizeLabel(query.specialty!))) {
+      reasons.push('Não possui a especialidade');
+    }
+    if (slots.length > 0 && !(sameLocalDay && slots.some((s: any) =>
+      s.weekday === weekday && s.start_time.slice(0, 5) <= startLocal && s.end_time.slice(0, 5) >= endLocal
+    ))) {
+      reasons.push('Fora da grade de disponibilidade');
+    }
+    const timeOff = (timeOffResult.data || []).find((o: any) => o.trainer_id === t.id);
+    if (timeOff) reasons.push(timeOff.reason ? `De folga: ${timeOff.reason}` : 'De folga');
+    if ((sessionsResult.data || []).some((s: any) => s.trainer_id === t.id)) {
+      reasons.push('Já possui sessão neste horário');
+    }
+
+    return { id: t.id, name: t.name, specialties, locations, available: reasons.length === 0, reasons };
+  });
+}
 
 // --- Request Handler ---
 Deno.serve(async (req) => {
   const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
   };
 
   // Handle CORS preflight requests
@@ -117,10 +618,11 @@ Deno.serve(async (req) => {
           const { data: sessions, error } = await adminSupabaseClient
             .from('sessions') // Ensure table name is 'sessions'
             .select(`
-              id, start_time, end_time, status, google_event_id, notes, location,
+              id, start_time, end_time, status, source, price, google_event_id, notes, location, series_id, series_exception,
               student:students!inner ( id, lead:leads!inner (id, name, email, phone) ),
               trainer:trainers!inner (id, name, email)
-            `); // Use !inner to ensure related records exist or filter out
+            `) // Use !inner to ensure related records exist or filter out
+            .order('start_time', { ascending: true });
           if (error) throw error;
 
           const detailedSessions = sessions?.map((s: any) => ({
@@ -128,7 +630,11 @@ Deno.serve(async (req) => {
             startTime: toValidISOString(s.start_time),
             endTime: toValidISOString(s.end_time),
             status: s.status,
+            source: s.source,
+            price: s.price !== null ? Number(s.price) : null,
             googleEventId: s.google_event_id,
+            seriesId: s.series_id,
+            seriesException: s.series_exception,
             notes: s.notes,
             location: s.location,
             studentId: s.student?.id,
@@ -141,6 +647,27 @@ Deno.serve(async (req) => {
           })) || [];
           return new Response(JSON.stringify({ data: detailedSessions }), { headers, status: 200 });
         }
+        if (entityIdOrSubAction === 'report') { // Sessions report with subtotals (see SessionReport)
+          const validationResult = sessionReportQuerySchema.safeParse(Object.fromEntries(searchParams));
+          if (!validationResult.success) {
+            return new Response(JSON.stringify({ error: "Parâmetros do relatório inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+          }
+          const filters = validationResult.data;
+          if (filters.to < filters.from) {
+            return new Response(JSON.stringify({ error: "A data final deve ser igual ou posterior à data inicial." }), { status: 400, headers });
+          }
+
+          const rows = await fetchReportSessions(adminSupabaseClient, filters);
+          const summary = {
+            totalSessions: rows.length,
+            totalMinutes: rows.reduce((sum, r) => sum + r.durationMinutes, 0),
+            totalValue: Math.round(rows.reduce((sum, r) => sum + (r.price ?? 0), 0) * 100) / 100,
+            unpricedSessions: rows.filter(r => r.price === null).length,
+          };
+          return new Response(JSON.stringify({
+            data: { filters, summary, groups: groupReportSessions(rows, filters.groupBy), sessions: rows },
+          }), { headers, status: 200 });
+        }
         if (entityIdOrSubAction === 'range') { // Get sessions by date range
           const startDateParam = searchParams.get('start');
           const endDateParam = searchParams.get('end');
@@ -179,7 +706,221 @@ Deno.serve(async (req) => {
         })) || [];
         return new Response(JSON.stringify({ data: responseSessions, meta: {total: count, page, limit} }), { headers, status: 200 });
       }
-      // Add POST, PATCH, DELETE for sessions if needed, with Zod validation
+
+      // POST create session
+      if (req.method === 'POST' && !entityIdOrSubAction) {
+        const body = await req.json();
+        const validationResult = sessionValidationSchema.safeParse(body);
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados da sessão inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const input = validationResult.data;
+
+        const conflicts = await findSessionConflicts(adminSupabaseClient, input);
+        if (conflicts.length > 0) return conflictResponse(conflicts, headers);
+
+        const { data: newSession, error } = await adminSupabaseClient.from('sessions').insert(toSessionRow(input)).select().single();
+        if (error) {
+          if (isOverlapViolation(error)) return conflictResponse([], headers);
+          throw error;
+        }
+        await recordSessionHistory(adminSupabaseClient, newSession.id, 'created', user.id, null, newSession);
+        await syncSessionsToCalendar([newSession.id], req.headers.get('Authorization'));
+        return new Response(JSON.stringify({ data: newSession }), { headers, status: 201 });
+      }
+
+      // Operations on a single session: PATCH /sessions/:id, POST /sessions/:id/cancel, POST /sessions/:id/reschedule
+      const sessionId = parseInt(entityIdOrSubAction);
+      if (entityIdOrSubAction && !isNaN(sessionId)) {
+        const { data: existing, error: fetchError } = await adminSupabaseClient.from('sessions').select('*').eq('id', sessionId).single();
+        if (fetchError) {
+          if (fetchError.code === 'PGRST116') return new Response(JSON.stringify({ error: "Sessão não encontrada." }), { status: 404, headers });
+          throw fetchError;
+        }
+
+        let changeType: SessionChangeType | null = null;
+        let changes: Record<string, unknown> = {};
+        let reason: string | undefined;
+
+        if (req.method === 'PATCH' && !furtherAction) {
+          const body = await req.json();
+          const validationResult = sessionUpdateSchema.safeParse(body);
+          if (!validationResult.success) {
+            return new Response(JSON.stringify({ error: "Dados de atualização da sessão inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+          }
+          changeType = 'updated';
+          changes = toSessionRow(validationResult.data);
+          // An edit that moves the slot is a reschedule: one request, one history row, checked with the new trainer
+          const slotMoved = (['start_time', 'end_time'] as const).some(key =>
+            key in changes && toValidISOString(changes[key] as string) !== toValidISOString(existing[key]));
+          if (slotMoved && !('status' in changes)) {
+            if (existing.status === 'cancelado' || existing.status === 'concluído') {
+              return new Response(JSON.stringify({ error: "Sessões canceladas ou concluídas não podem ser remarcadas." }), { status: 400, headers });
+            }
+            changeType = 'rescheduled';
+            changes.status = 'remarcado';
+          }
+        } else if (req.method === 'POST' && furtherAction === 'cancel') {
+          if (existing.status === 'cancelado') {
+            return new Response(JSON.stringify({ error: "A sessão já está cancelada." }), { status: 400, headers });
+          }
+          const body = await req.json().catch(() => ({}));
+          reason = typeof body?.reason === 'string' ? body.reason : undefined;
+          changeType = 'cancelled';
+          changes = { status: 'cancelado' };
+        } else if (req.method === 'POST' && furtherAction === 'reschedule') {
+          if (existing.status === 'cancelado' || existing.status === 'concluído') {
+            return new Response(JSON.stringify({ error: "Sessões canceladas ou concluídas não podem ser remarcadas." }), { status: 400, headers });
+          }
+          const body = await req.json();
+          const validationResult = sessionRescheduleSchema.safeParse(body);
+          if (!validationResult.success) {
+            return new Response(JSON.stringify({ error: "Dados de remarcação inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+          }
+          reason = validationResult.data.reason;
+          changeType = 'rescheduled';
+          changes = { ...toSessionRow(validationResult.data), status: 'remarcado' };
+        }
+
+        if (changeType) {
+          // Occurrences of a series accept ?scope=this|following|all (default: this)
+          const scopeResult = seriesScopeEnum.safeParse(searchParams.get('scope') || 'this');
+          if (!scopeResult.success) {
+            return new Response(JSON.stringify({ error: "Escopo inválido. Use 'this', 'following' ou 'all'." }), { status: 400, headers });
+          }
+          const scope: SeriesScope = existing.series_id ? scopeResult.data : 'this';
+
+          // Targets, conflicts, series split and history are handled in one transaction (0033_session_changes.sql)
+          const { data: updatedSessions, error } = await adminSupabaseClient.rpc('apply_session_change', {
+            p_session_id: sessionId,
+            p_change_type: changeType,
+            p_changes: changes,
+            p_scope: scope,
+            p_reason: reason ?? null,
+            p_user_id: user.id,
+          });
+          if (error) {
+            const errorResponse = rpcErrorResponse(error, headers);
+            if (errorResponse) return errorResponse;
+            throw error;
+          }
+
+          const affectedSessionIds = (updatedSessions as Session[]).map(s => s.id);
+          await syncSessionsToCalendar(affectedSessionIds, req.headers.get('Authorization'));
+          return new Response(JSON.stringify({
+            data: (updatedSessions as Session[]).find(s => s.id === sessionId),
+            meta: { scope, affectedSessionIds },
+          }), { headers, status: 200 });
+        }
+      }
+    }
+
+    // --- SERIES ---
+    if (mainEntity === 'series') {
+      // POST create a recurring series and generate its sessions
+      if (req.method === 'POST' && !entityIdOrSubAction) {
+        const body = await req.json();
+        const validationResult = sessionSeriesValidationSchema.safeParse(body);
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados da série inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const input = validationResult.data;
+
+        const horizon = new Date(input.startTime.getTime() + (MAX_SERIES_SPAN_DAYS + 1) * DAY_MS);
+        const holidayNames = await fetchHolidayNames(adminSupabaseClient, input.startTime, horizon);
+        const busy = await findSessionConflicts(adminSupabaseClient, {
+          startTime: input.startTime, endTime: horizon, trainerId: input.trainerId, studentId: input.studentId,
+        });
+        const { occurrences, skipped } = generateSeriesOccurrences(input, holidayNames, busy);
+        if (occurrences.length === 0) {
+          return new Response(JSON.stringify({ error: "Nenhuma sessão pôde ser gerada para esta recorrência.", details: skipped }), { status: 400, headers });
+        }
+
+        const { data: series, error: seriesError } = await adminSupabaseClient
+          .from('session_series')
+          .insert({
+            student_id: input.studentId,
+            trainer_id: input.trainerId,
+            location: input.location,
+            source: input.source,
+            notes: input.notes ?? null,
+            weekdays: [...input.weekdays].sort(),
+            interval_weeks: input.intervalWeeks,
+            start_time: input.startTime.toISOString(),
+            end_time: input.endTime.toISOString(),
+            until_date: input.untilDate ?? null,
+            occurrence_count: input.occurrenceCount ?? null,
+            created_by: user.id,
+          })
+          .select()
+          .single();
+        if (seriesError) throw seriesError;
+
+        const sessionRows = occurrences.map(o => ({
+          ...toSessionRow({ ...input, startTime: o.startTime, endTime: o.endTime, status: 'agendado' }),
+          series_id: series.id,
+        }));
+        const { data: createdSessions, error: sessionsError } = await adminSupabaseClient.from('sessions').insert(sessionRows).select();
+        if (sessionsError) {
+          await adminSupabaseClient.from('session_series').delete().eq('id', series.id);
+          if (isOverlapViolation(sessionsError)) return conflictResponse([], headers);
+          throw sessionsError;
+        }
+        for (const created of createdSessions || []) {
+          await recordSessionHistory(adminSupabaseClient, created.id, 'created', user.id, null, created);
+        }
+        await syncSessionsToCalendar((createdSessions || []).map((c: any) => c.id), req.headers.get('Authorization'));
+        return new Response(JSON.stringify({ data: { series, sessions: createdSessions, skipped } }), { headers, status: 201 });
+      }
+
+      // GET a series with its sessions
+      const seriesId = parseInt(entityIdOrSubAction);
+      if (req.method === 'GET' && !isNaN(seriesId)) {
+        const { data: series, error } = await adminSupabaseClient
+          .from('session_series')
+          .select('*, sessions(id, start_time, end_time, status, series_exception)')
+          .eq('id', seriesId)
+          .order('start_time', { referencedTable: 'sessions', ascending: true })
+          .single();
+        if (error) {
+          if (error.code === 'PGRST116') return new Response(JSON.stringify({ error: "Série não encontrada." }), { status: 404, headers });
+          throw error;
+        }
+        return new Response(JSON.stringify({ data: series }), { headers, status: 200 });
+      }
+    }
+
+    // --- HOLIDAYS ---
+    if (mainEntity === 'holidays') {
+      if (req.method === 'GET') {
+        let query = adminSupabaseClient.from('holidays').select('*').order('date', { ascending: true });
+        const fromParam = searchParams.get('from');
+        const toParam = searchParams.get('to');
+        if (fromParam) query = query.gte('date', fromParam);
+        if (toParam) query = query.lte('date', toParam);
+        const { data, error } = await query;
+        if (error) throw error;
+        return new Response(JSON.stringify({ data }), { headers, status: 200 });
+      }
+      if (req.method === 'POST' && !entityIdOrSubAction) {
+        const body = await req.json();
+        const validationResult = holidayValidationSchema.safeParse(body);
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados do feriado inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const { data, error } = await adminSupabaseClient.from('holidays').insert(validationResult.data).select().single();
+        if (error) {
+          if (error.code === '23505') return new Response(JSON.stringify({ error: "Já existe um feriado nesta data." }), { status: 409, headers });
+          throw error;
+        }
+        return new Response(JSON.stringify({ data }), { headers, status: 201 });
+      }
+      const holidayId = parseInt(entityIdOrSubAction);
+      if (req.method === 'DELETE' && !isNaN(holidayId)) {
+        const { error } = await adminSupabaseClient.from('holidays').delete().eq('id', holidayId);
+        if (error) throw error;
+        return new Response(null, { status: 204, headers });
+      }
     }
 
     // --- TRAINERS ---
@@ -190,15 +931,147 @@ Deno.serve(async (req) => {
           if (error) throw error;
           return new Response(JSON.stringify({ data: data as Trainer[] }), { headers, status: 200 });
         }
+        if (entityIdOrSubAction === 'available') { // Trainers free and qualified for a slot (see SessionForm)
+          const validationResult = trainerAvailabilityQuerySchema.safeParse(Object.fromEntries(searchParams));
+          if (!validationResult.success) {
+            return new Response(JSON.stringify({ error: "Parâmetros de disponibilidade inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+          }
+          const data = await checkTrainersForSlot(adminSupabaseClient, validationResult.data);
+          return new Response(JSON.stringify({ data }), { headers, status: 200 });
+        }
+        // GET a trainer with the weekly grid and upcoming time off
+        const trainerId = parseInt(entityIdOrSubAction);
+        if (!isNaN(trainerId)) {
+          const { data, error } = await adminSupabaseClient
+            .from('trainers')
+            .select('*, availability:trainer_availability ( id, weekday, start_time, end_time ), timeOff:trainer_time_off ( id, starts_at, ends_at, reason )')
+            .eq('id', trainerId)
+            .gte('trainer_time_off.ends_at', new Date().toISOString())
+            .order('weekday', { referencedTable: 'trainer_availability', ascending: true })
+            .order('start_time', { referencedTable: 'trainer_availability', ascending: true })
+            .order('starts_at', { referencedTable: 'trainer_time_off', ascending: true })
+            .single();
+          if (error) {
+            if (error.code === 'PGRST116') return new Response(JSON.stringify({ error: "Professor não encontrado." }), { status: 404, headers });
+            throw error;
+          }
+          return new Response(JSON.stringify({ data }), { headers, status: 200 });
+        }
         // Default: Get all trainers (paginated)
         const page = parseInt(searchParams.get('page') || '1');
         const limit = parseInt(searchParams.get('limit') || '25');
         const offset = (page - 1) * limit;
-        const { data, error, count } = await adminSupabaseClient.from('trainers').select('*', {count: 'exact'}).range(offset, offset + limit -1);
+        const { data, error, count } = await adminSupabaseClient.from('trainers').select('*', {count: 'exact'}).order('name', { ascending: true }).range(offset, offset + limit -1);
         if (error) throw error;
         return new Response(JSON.stringify({ data: data as Trainer[], meta: {total: count, page, limit} }), { headers, status: 200 });
       }
-      // Add POST, PATCH, DELETE for trainers if needed
+
+      // POST create trainer
+      if (req.method === 'POST' && !entityIdOrSubAction) {
+        const validationResult = trainerValidationSchema.safeParse(await req.json());
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados do professor inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const { data, error } = await adminSupabaseClient.from('trainers').insert(toTrainerRow(validationResult.data)).select().single();
+        if (error) {
+          if (error.code === '23505') return new Response(JSON.stringify({ error: "Já existe um professor com este e-mail." }), { status: 409, headers });
+          throw error;
+        }
+        return new Response(JSON.stringify({ data }), { headers, status: 201 });
+      }
+
+      const trainerId = parseInt(entityIdOrSubAction);
+      if (isNaN(trainerId)) {
+        return new Response(JSON.stringify({ error: "ID do professor inválido." }), { status: 400, headers });
+      }
+
+      // PATCH update trainer
+      if (req.method === 'PATCH' && !furtherAction) {
+        const validationResult = trainerUpdateSchema.safeParse(await req.json());
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados do professor inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const { data, error } = await adminSupabaseClient
+          .from('trainers')
+          .update({ ...toTrainerRow(validationResult.data), updated_at: new Date().toISOString() })
+          .eq('id', trainerId)
+          .select()
+          .single();
+        if (error) {
+          if (error.code === 'PGRST116') return new Response(JSON.stringify({ error: "Professor não encontrado." }), { status: 404, headers });
+          if (error.code === '23505') return new Response(JSON.stringify({ error: "Já existe um professor com este e-mail." }), { status: 409, headers });
+          throw error;
+        }
+        return new Response(JSON.stringify({ data }), { headers, status: 200 });
+      }
+
+      // DELETE trainer. Trainers with sessions keep their history and must be deactivated instead
+      if (req.method === 'DELETE' && !furtherAction) {
+        const { error } = await adminSupabaseClient.from('trainers').delete().eq('id', trainerId);
+        if (error) {
+          if (error.code === '23503') {
+            return new Response(JSON.stringify({ error: "O professor possui sessões registradas. Desative-o em vez de excluir." }), { status: 409, headers });
+          }
+          throw error;
+        }
+        return new Response(null, { status: 204, headers });
+      }
+
+      // PUT replace the weekly availability grid
+      if (req.method === 'PUT' && furtherAction === 'availability') {
+        const validationResult = trainerAvailabilitySchema.safeParse(await req.json());
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Grade de disponibilidade inválida.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        // Delete and insert run in one transaction (migration 0017)
+        const { data, error } = await adminSupabaseClient.rpc('replace_trainer_availability', {
+          p_trainer_id: trainerId,
+          p_slots: validationResult.data.slots,
+        });
+        if (error) {
+          const response = rpcErrorResponse(error, headers);
+          if (response) return response;
+          throw error;
+        }
+        return new Response(JSON.stringify({ data }), { headers, status: 200 });
+      }
+
+      // POST add a time-off block; scheduled sessions inside it are returned so they can be reassigned
+      if (req.method === 'POST' && furtherAction === 'time-off') {
+        const validationResult = trainerTimeOffSchema.safeParse(await req.json());
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados da folga inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const input = validationResult.data;
+        const { data, error } = await adminSupabaseClient.from('trainer_time_off').insert({
+          trainer_id: trainerId,
+          starts_at: input.startsAt.toISOString(),
+          ends_at: input.endsAt.toISOString(),
+          reason: input.reason || null,
+          created_by: user.id,
+        }).select().single();
+        if (error) {
+          if (error.code === '23503') return new Response(JSON.stringify({ error: "Professor não encontrado." }), { status: 404, headers });
+          throw error;
+        }
+        const { data: affected, error: affectedError } = await adminSupabaseClient
+          .from('sessions')
+          .select('id, start_time, end_time')
+          .eq('trainer_id', trainerId)
+          .in('status', ['agendado', 'remarcado'])
+          .lt('start_time', input.endsAt.toISOString())
+          .gt('end_time', input.startsAt.toISOString());
+        if (affectedError) throw affectedError;
+        return new Response(JSON.stringify({ data, affectedSessions: affected || [] }), { headers, status: 201 });
+      }
+
+      // DELETE a time-off block
+      const timeOffId = parseInt(pathParts[6]);
+      if (req.method === 'DELETE' && furtherAction === 'time-off' && !isNaN(timeOffId)) {
+        const { error } = await adminSupabaseClient.from('trainer_time_off').delete().eq('id', timeOffId).eq('trainer_id', trainerId);
+        if (error) throw error;
+        return new Response(null, { status: 204, headers });
+      }
     }
 
     // --- STUDENTS ---
@@ -215,15 +1088,80 @@ Deno.serve(async (req) => {
           if (error) throw error;
           return new Response(JSON.stringify({ data: data as Student[], meta: {total: count, page, limit} }), { headers, status: 200 });
         }
-        // Default: Get all students (basic, paginated)
+        // Default: Get all students (basic, paginated); ?leadId= finds the student record of a lead
         const page = parseInt(searchParams.get('page') || '1');
         const limit = parseInt(searchParams.get('limit') || '25');
         const offset = (page - 1) * limit;
-        const { data, error, count } = await adminSupabaseClient.from('students').select('*', {count: 'exact'}).range(offset, offset + limit -1);
+        let query = adminSupabaseClient.from('students').select('*', {count: 'exact'});
+        const leadIdParam = parseInt(searchParams.get('leadId') || '');
+        if (!isNaN(leadIdParam)) query = query.eq('lead_id', leadIdParam);
+        const { data, error, count } = await query.range(offset, offset + limit -1);
         if (error) throw error;
         return new Response(JSON.stringify({ data: data as Student[], meta: {total: count, page, limit} }), { headers, status: 200 });
       }
-      // Add POST, PATCH, DELETE for students if needed
+
+      // POST convert a lead into a student (reactivates the previous student record if there is one)
+      if (req.method === 'POST' && entityIdOrSubAction === 'convert') {
+        const body = await req.json();
+        const validationResult = studentConversionSchema.safeParse(body);
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados da conversão inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const input = validationResult.data;
+
+        if (input.firstSession) {
+          const { data: existingStudent, error: studentError } = await adminSupabaseClient
+            .from('students').select('id').eq('lead_id', input.leadId).maybeSingle();
+          if (studentError) throw studentError;
+          // A brand-new student has no sessions yet, so only the trainer side can conflict
+          const conflicts = await findSessionConflicts(adminSupabaseClient, { ...input.firstSession, studentId: existingStudent?.id ?? 0 });
+          if (conflicts.length > 0) return conflictResponse(conflicts, headers);
+        }
+
+        const { data, error } = await adminSupabaseClient.rpc('convert_lead_to_student', {
+          p_lead_id: input.leadId,
+          p_student: { address: input.address || null, preferences: input.preferences || null, plan: input.plan || null, source: input.source },
+          p_first_session: input.firstSession ? {
+            startTime: input.firstSession.startTime.toISOString(),
+            endTime: input.firstSession.endTime.toISOString(),
+            trainerId: input.firstSession.trainerId,
+            location: input.firstSession.location,
+            notes: input.firstSession.notes || null,
+          } : null,
+          p_tasks: input.tasks.map(task => ({ ...task, dueDate: task.dueDate ? task.dueDate.toISOString() : null })),
+          p_user_id: user.id,
+        });
+        if (error) {
+          const response = rpcErrorResponse(error, headers);
+          if (response) return response;
+          throw error;
+        }
+        if (data.sessionId) await syncSessionsToCalendar([data.sessionId], req.headers.get('Authorization'));
+        return new Response(JSON.stringify({ data }), { headers, status: 201 });
+      }
+
+      // POST deactivate a student: lead becomes "Ex-Aluno" and upcoming sessions are cancelled unless told otherwise
+      const studentId = parseInt(entityIdOrSubAction);
+      if (req.method === 'POST' && !isNaN(studentId) && furtherAction === 'deactivate') {
+        const body = await req.json().catch(() => ({}));
+        const validationResult = studentDeactivationSchema.safeParse(body);
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Dados da desativação inválidos.", details: formatZodError(validationResult.error) }), { status: 400, headers });
+        }
+        const { data, error } = await adminSupabaseClient.rpc('deactivate_student', {
+          p_student_id: studentId,
+          p_reason: validationResult.data.reason || null,
+          p_cancel_future_sessions: validationResult.data.cancelFutureSessions,
+          p_user_id: user.id,
+        });
+        if (error) {
+          const response = rpcErrorResponse(error, headers);
+          if (response) return response;
+          throw error;
+        }
+        await syncSessionsToCalendar(data.cancelledSessionIds || [], req.headers.get('Authorization'));
+        return new Response(JSON.stringify({ data }), { headers, status: 200 });
+      }
     }
 
     return new Response(JSON.stringify({ error: "Rota de agendamento não encontrada ou método não permitido." }), { status: 404, headers });
@@ -240,6 +1178,17 @@ Table Dependencies:
 - `trainers`: Stores trainer data.
 - `students`: Stores student data.
 - `leads`: Stores lead data (referenced by students).
+- `session_history`: Audit trail of session changes (created, updated, cancelled, rescheduled).
+- `tasks`: Onboarding tasks created when a lead is converted into a student.
+- `convert_lead_to_student` / `deactivate_student`: Postgres functions (migration 0014) that run the conversion atomically.
+- `session_series`: Recurrence rules of weekly packages; generated sessions reference it through `series_id`.
+- `apply_session_change`: Postgres function (migration 0033) behind PATCH/cancel/reschedule; series splits, every
+  affected occurrence and its history row are written in one transaction.
+- `holidays`: Dates skipped when generating recurring sessions.
+- `trainer_availability` / `trainer_time_off`: Weekly grid and time off (migration 0017) used by `/trainers/available`.
+- `replace_trainer_availability`: Postgres function (migration 0017) behind PUT /trainers/:id/availability; the old
+  grid is deleted and the new one inserted in one transaction.
+- Every change is mirrored to Google Calendar through the `calendar-sync` function (push endpoint).
 
 Make sure these tables exist with appropriate columns and relationships (foreign keys).
 `students` table should have a `leadId` column referencing `leads.id`.
@@ -255,10 +1204,67 @@ GET detailed sessions:
 curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/scheduling-functions/sessions/details' \
   --header 'Authorization: Bearer YOUR_USER_JWT'
 
+GET sessions report (groupBy=student|period|category; optional studentId, trainerId, source and status filters):
+curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/scheduling-functions/sessions/report?groupBy=period&from=2024-05-01&to=2024-05-31&status=conclu%C3%ADdo' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+
 GET sessions by date range:
 curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/scheduling-functions/sessions/range?start=2023-01-01&end=2023-01-31' \
   --header 'Authorization: Bearer YOUR_USER_JWT'
 
+POST create session (rejects overlapping sessions of the same trainer or student with 409):
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/scheduling-functions/sessions' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"startTime":"2024-05-10T09:00:00Z","endTime":"2024-05-10T10:00:00Z","studentId":1,"trainerId":1,"location":"Casa","source":"Favale"}'
+
+PATCH update session (e.g., ID 1; use {"status":"concluído"} to mark it as completed; new startTime/endTime
+reschedule it in the same request):
+curl -i --location --request PATCH 'http://127.0.0.1:54321/functions/v1/scheduling-functions/sessions/1' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"location":"Bodytech Iguatemi"}'
+
+POST cancel session (e.g., ID 1):
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/scheduling-functions/sessions/1/cancel' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"reason":"Aluno viajando"}'
+
+POST reschedule session (e.g., ID 1):
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/scheduling-functions/sessions/1/reschedule' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"startTime":"2024-05-11T09:00:00Z","endTime":"2024-05-11T10:00:00Z"}'
+
+Every create/update/cancel/reschedule writes a `session_history` row with the old and new values.
+
+For sessions that belong to a series, PATCH/cancel/reschedule accept `?scope=this|following|all` (default `this`).
+`this` marks the occurrence as an exception; `following` splits the series at that occurrence; `all` changes
+every upcoming occurrence that was not edited individually. Time changes are applied as the same shift to each one.
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/scheduling-functions/sessions/1/reschedule?scope=following' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"startTime":"2024-05-13T10:00:00Z","endTime":"2024-05-13T11:00:00Z"}'
+
+POST create recurring series (2x per week, 24 sessions; holidays and conflicting slots are skipped and reported):
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/scheduling-functions/series' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"startTime":"2024-05-13T09:00:00-03:00","endTime":"2024-05-13T10:00:00-03:00","studentId":1,"trainerId":1,"location":"Casa","source":"Favale","weekdays":[1,3],"intervalWeeks":1,"occurrenceCount":24}'
+
+GET series with its sessions (e.g., ID 1):
+curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/scheduling-functions/series/1' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+
+GET / POST / DELETE holidays:
+curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/scheduling-functions/holidays?from=2024-01-01&to=2024-12-31' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/scheduling-functions/holidays' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"date":"2024-02-13","name":"Carnaval"}'
+
 GET all trainers:
 curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/scheduling-functions/trainers' \
   --header 'Authorization: Bearer YOUR_USER_JWT'
@@ -267,11 +1273,63 @@ GET active trainers:
 curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/scheduling-functions/trainers/active' \
   --header 'Authorization: Bearer YOUR_USER_JWT'
 
-GET all students:
+GET trainers free and qualified for a slot (optional location, specialty and excludeSessionId when editing):
+curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/scheduling-functions/trainers/available?startTime=2024-05-06T12:00:00Z&endTime=2024-05-06T13:00:00Z&location=Academia%20Central' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+
+GET a trainer with availability grid and upcoming time off:
+curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/scheduling-functions/trainers/1' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+
+POST create trainer:
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/scheduling-functions/trainers' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"name":"Ana Souza","email":"ana@example.com","specialties":["Pilates","Funcional"],"locations":["Academia Central"]}'
+
+PATCH update trainer (use {"active":false} to deactivate):
+curl -i --location --request PATCH 'http://127.0.0.1:54321/functions/v1/scheduling-functions/trainers/1' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"phone":"11999999999"}'
+
+DELETE trainer (only trainers without sessions):
+curl -i --location --request DELETE 'http://127.0.0.1:54321/functions/v1/scheduling-functions/trainers/1' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+
+PUT replace weekly availability (local time, weekday 0 = domingo):
+curl -i --location --request PUT 'http://127.0.0.1:54321/functions/v1/scheduling-functions/trainers/1/availability' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"slots":[{"weekday":1,"startTime":"07:00","endTime":"12:00"},{"weekday":3,"startTime":"14:00","endTime":"20:00"}]}'
+
+POST add time off:
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/scheduling-functions/trainers/1/time-off' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"startsAt":"2024-07-01T03:00:00Z","endsAt":"2024-07-15T03:00:00Z","reason":"Férias"}'
+
+DELETE time off:
+curl -i --location --request DELETE 'http://127.0.0.1:54321/functions/v1/scheduling-functions/trainers/1/time-off/3' \
+  --header 'Authorization: Bearer YOUR_USER_JWT'
+
+GET all students (add ?leadId=1 to find the student record of a lead):
 curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/scheduling-functions/students' \
   --header 'Authorization: Bearer YOUR_USER_JWT'
 
 GET detailed students (with lead info):
 curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/scheduling-functions/students/details' \
   --header 'Authorization: Bearer YOUR_USER_JWT'
+
+POST convert a lead into a student (first session and onboarding tasks are optional; everything is created in one transaction):
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/scheduling-functions/students/convert' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"leadId":1,"address":"Rua A, 10","preferences":"Manhãs","plan":"2x por semana","source":"Favale","firstSession":{"startTime":"2024-05-10T09:00:00Z","endTime":"2024-05-10T10:00:00Z","trainerId":1,"location":"Casa"},"tasks":[{"title":"Enviar contrato","assignedToId":"USER_UUID","priority":"high"}]}'
+
+POST deactivate a student (e.g., ID 1; lead goes to "Ex-Aluno" and upcoming sessions are cancelled):
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/scheduling-functions/students/1/deactivate' \
+  --header 'Authorization: Bearer YOUR_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"reason":"Mudou de cidade","cancelFutureSessions":true}'
 */
@@ -34,6 +34,7 @@ const updateUserSchema = z.object({ // For updating existing users (e.g. role, m
     role: userRoleEnum.optional(),
     username: z.string().min(3, "Nome de usuário deve ter pelo menos 3 caracteres.").optional(),
     fullName: z.string().min(1, "Nome completo deve ter pelo menos 1 caractere.").optional(),
+    active: z.boolean().optional(), // false deactivates: blocks sign-in and hands the user's open leads to others
     // Password updates should be handled by a separate, more secure flow (e.g., user-initiated password reset)
 });
 type UpdateUserPayload = z.infer<typeof updateUserSchema>;
@@ -108,7 +109,7 @@ Deno.serve(async (req) => {
       if (userIds.length > 0) {
         const { data: profilesData, error: profilesError } = await adminSupabaseClient
             .from('profiles')
-            .select('id, role, username, full_name')
+            .select('id, role, username, full_name, active')
             .in('id', userIds);
         if (profilesError) console.warn("Could not fetch all profiles for user list:", profilesError.message);
         else profilesData?.forEach(p => profilesMap.set(p.id, p));
@@ -124,6 +125,7 @@ Deno.serve(async (req) => {
             role: userProfile?.role || u.user_metadata?.role || 'N/A', // Prefer profile role, then metadata
             username: userProfile?.username || u.user_metadata?.username || u.email?.split('@')[0],
             fullName: userProfile?.full_name || u.user_metadata?.fullName || null,
+            active: userProfile?.active ?? true,
             // Add other relevant fields from Supabase user object or profile
         };
       });
@@ -226,7 +228,10 @@ Deno.serve(async (req) => {
         if(!validationResult.success) {
             return new Response(JSON.stringify({ error: "Dados de atualização inválidos.", details: validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ') }), { status: 400, headers });
         }
-        const { role, username, fullName, email: newEmail } = validationResult.data;
+        const { role, username, fullName, email: newEmail, active } = validationResult.data;
+        if (active === false && targetUserId === callingUser.id) {
+            return new Response(JSON.stringify({ error: "Não é possível desativar o próprio usuário." }), { status: 400, headers });
+        }
 
         // Update Auth user (email, metadata)
         const authUpdatePayload: any = { user_metadata: {} };
@@ -234,6 +239,7 @@ Deno.serve(async (req) => {
         if (role) authUpdatePayload.user_metadata.role = role;
         if (username) authUpdatePayload.user_metadata.username = username;
         if (fullName !== undefined) authUpdatePayload.user_metadata.fullName = fullName;
+        if (active !== undefined) authUpdatePayload.ban_duration = active ? 'none' : '876000h'; // ~100 years
         // Note: Supabase admin.updateUserById does not allow direct password change.
 
         const { data: { user: updatedAuthUser }, error: updateAuthError } = await adminSupabaseClient.auth.admin.updateUserById(targetUserId, authUpdatePayload);
@@ -247,13 +253,29 @@ Deno.serve(async (req) => {
         if (role) profileUpdatePayload.role = role;
         if (username) profileUpdatePayload.username = username;
         if (fullName !== undefined) profileUpdatePayload.full_name = fullName; // Using snake_case for database column
+        if (active !== undefined) {
+            profileUpdatePayload.active = active;
+            profileUpdatePayload.deactivated_at = active ? null : new Date().toISOString();
+        }
 
         if (Object.keys(profileUpdatePayload).length > 0) {
             const { error: updateProfileError } = await adminSupabaseClient.from('profiles').update(profileUpdatePayload).eq('id', targetUserId);
-            if (updateProfileError) console.warn(`Falha ao atualizar perfil para usuário ${targetUserId}: ${updateProfileError.message}`); // Log but don't fail if auth update succeeded
+            if (updateProfileError) {
+                // The active flag drives lead assignment, so it must not silently diverge from the sign-in ban
+                if (active !== undefined) throw updateProfileError;
+                console.warn(`Falha ao atualizar perfil para usuário ${targetUserId}: ${updateProfileError.message}`); // Log but don't fail if auth update succeeded
+            }
+        }
+
+        // Open leads of a deactivated user go to other owners (see reassign_user_leads, migration 0024)
+        let reassignedLeads = 0;
+        if (active === false) {
+            const { data: reassigned, error: reassignError } = await adminSupabaseClient.rpc('reassign_user_leads', { p_user_id: targetUserId, p_by: callingUser.id });
+            if (reassignError) throw reassignError;
+            reassignedLeads = reassigned ?? 0;
         }
-        const safeUpdatedUser = {id: updatedAuthUser!.id, email: updatedAuthUser!.email, ...updatedAuthUser!.user_metadata};
-        return new Response(JSON.stringify({data: safeUpdatedUser}), { headers, status: 200 });
+        const safeUpdatedUser = {id: updatedAuthUser!.id, email: updatedAuthUser!.email, ...updatedAuthUser!.user_metadata, ...(active !== undefined ? { active } : {})};
+        return new Response(JSON.stringify({data: safeUpdatedUser, meta: { reassignedLeads }}), { headers, status: 200 });
     }
 
 
@@ -305,6 +327,7 @@ Table Dependencies:
   - `full_name` (TEXT, nullable) - using snake_case for database column
   - `role` (TEXT, default 'user', e.g., 'admin', 'user', 'marketing', 'comercial', 'trainer')
   - `updated_at` (TIMESTAMP, default now()) - using snake_case for database column
+  - `active`, `deactivated_at` (migration 0024) - inactive users cannot sign in and receive no leads
   - Any other public profile information.
 
 Note: The profiles.id field should match auth.users.id but there's no database-level 
@@ -323,6 +346,12 @@ curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/user-mana
   --header 'Content-Type: application/json' \
   --data '{"email":"newuser@example.com", "password":"password123", "role":"trainer", "username":"newtrainer"}'
 
+PATCH deactivate a user (admin only; their open leads are reassigned, see meta.reassignedLeads):
+curl -i --location --request PATCH 'http://127.0.0.1:54321/functions/v1/user-management/USER_UUID' \
+  --header 'Authorization: Bearer ADMIN_USER_JWT' \
+  --header 'Content-Type: application/json' \
+  --data '{"active": false}'
+
 DELETE user by ID (admin only):
 curl -i --location --request DELETE 'http://127.0.0.1:54321/functions/v1/user-management/USER_UUID_TO_DELETE' \
   --header 'Authorization: Bearer ADMIN_USER_JWT'
@@ -15,6 +15,9 @@ const evolutionApiUrlEnv = Deno.env.get('EVOLUTION_API_URL'); // Recommended to
 const evolutionApiTokenEnv = Deno.env.get('EVOLUTION_API_TOKEN'); // Recommended to store in Vault
 const evolutionApiInstanceEnv = Deno.env.get('EVOLUTION_API_INSTANCE') || 'default';
 const whatsappWebhookVerifyTokenEnv = Deno.env.get('WHATSAPP_WEBHOOK_VERIFY_TOKEN') || 'YOUR_VERY_SECURE_VERIFY_TOKEN';
+const whatsappWebhookSecretEnv = Deno.env.get('WHATSAPP_WEBHOOK_SECRET'); // Shared secret for POST /webhook and /broadcasts/process
+
+const WHATSAPP_MEDIA_BUCKET = 'whatsapp-media';
 
 if (!supabaseUrl || !serviceRoleKey || !anonKey) {
     console.error("Supabase URL, Service Role Key, or Anon Key is missing.");
@@ -28,6 +31,10 @@ const whatsappConfigSchema = z.object({
     api_instance: z.string().min(1, "Instância da API é obrigatória.").default("default"),
 });
 type WhatsappConfig = z.infer<typeof whatsappConfigSchema>;
+// The token may be omitted when saving to keep the one already stored
+const saveWhatsappConfigSchema = whatsappConfigSchema.extend({
+    api_token: z.string().min(1, "Token da API é obrigatório.").optional(),
+});
 
 const sendMessageSchema = z.object({
     lead_id: z.number().int().positive(),
@@ -36,9 +43,27 @@ const sendMessageSchema = z.object({
     // media_type: z.enum(["image", "video", "audio", "document"]).optional(),
 });
 
+// Multipart fields of /send-media/:type (besides file and thumbnail)
+const sendMediaSchema = z.object({
+    lead_id: z.coerce.number().int().positive("ID do Lead inválido."),
+    caption: z.string().max(1024, "Legenda muito longa.").optional().default(""),
+});
+
+// Uploads accepted by /send-media/:type, within WhatsApp's own limits
+const SEND_MEDIA_RULES = {
+    image: { mimetypes: ['image/jpeg', 'image/png', 'image/webp'], maxMb: 5, placeholder: '[Imagem]' },
+    video: { mimetypes: ['video/mp4', 'video/3gpp'], maxMb: 16, placeholder: '[Vídeo]' },
+    audio: { mimetypes: ['audio/ogg', 'audio/mpeg', 'audio/mp4', 'audio/aac', 'audio/amr'], maxMb: 16, placeholder: '[Áudio]' },
+    document: { mimetypes: ['application/pdf'], maxMb: 20, placeholder: '[Documento]' },
+} as const;
+type SendMediaType = keyof typeof SEND_MEDIA_RULES;
+const THUMBNAIL_MAX_BYTES = 200 * 1024;
+
 const sendTemplateMessageSchema = z.object({
     lead_id: z.number().int().positive({ message: "ID do Lead inválido."}),
-    template_name: z.string().min(1, "Nome do template é obrigatório."),
+    // A template from the library (whatsapp_templates); its name, language, header and params are used
+    template_id: z.number().int().positive().optional(),
+    template_name: z.string().min(1, "Nome do template é obrigatório.").optional(),
     language_code: z.string().min(2, "Código de idioma inválido.").default("pt_BR"),
     // Parameters for the template body (e.g., replacing {{1}}, {{2}})
     body_params: z.array(z.string()).optional().default([]),
@@ -54,8 +79,129 @@ const sendTemplateMessageSchema = z.object({
         payload: z.string(), // or URL / phone number
         text: z.string(),
     })).optional(),
+}).refine(data => data.template_id || data.template_name, { message: "Informe o template.", path: ['template_name'] });
+
+const LEAD_SOURCES = ['Favale', 'Pink', 'Website', 'Referencia', 'Campanha', 'Outro', 'Google'] as const;
+// Partial: only the fields sent are changed
+const inboundSettingsSchema = z.object({
+    auto_create_leads: z.boolean(),
+    default_source: z.enum(LEAD_SOURCES),
+    ddd_sources: z.record(z.string().regex(/^[1-9]{2}$/, "DDD inválido."), z.enum(LEAD_SOURCES)),
+    triage_user_id: z.string().uuid("Usuário inválido.").nullable(),
+    triage_due_hours: z.number().int().min(1, "Prazo mínimo de 1 hora.").max(720, "Prazo máximo de 720 horas."),
+}).partial();
+
+// Template library; each body param is a lead field or fixed text, in {{1}}, {{2}}... order
+const TEMPLATE_LEAD_FIELDS = ['name', 'first_name', 'email', 'phone', 'state', 'campaign', 'source'] as const;
+const templateParamSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('field'), value: z.enum(TEMPLATE_LEAD_FIELDS) }),
+    z.object({ type: z.literal('text'), value: z.string().trim().min(1, "Preencha o texto do parâmetro.") }),
+]);
+type TemplateParam = z.infer<typeof templateParamSchema>;
+const templatePlaceholders = (text: string) =>
+    Array.from(new Set(Array.from(text.matchAll(/\{\{(\d+)\}\}/g), match => Number(match[1])))).sort((a, b) => a - b);
+const templateSchema = z.object({
+    name: z.string().trim().regex(/^[a-z0-9_]+$/, "Use o nome aprovado na Meta: letras minúsculas, números e _."),
+    display_name: z.string().trim().min(1, "O nome de exibição é obrigatório.").max(120),
+    description: z.string().trim().max(500).default(''),
+    language_code: z.string().trim().min(2, "Código de idioma inválido.").default('pt_BR'),
+    category: z.enum(['MARKETING', 'UTILITY', 'AUTHENTICATION']),
+    header_type: z.enum(['none', 'text', 'image', 'video', 'document']).default('none'),
+    header_content: z.string().trim().max(2000).nullable().default(null),
+    body: z.string().trim().min(1, "O texto do template é obrigatório.").max(1024, "Máximo de 1024 caracteres."),
+    body_params: z.array(templateParamSchema).max(10).default([]),
+    buttons: z.array(z.object({
+        type: z.enum(['quick_reply', 'url', 'phone_number']),
+        text: z.string().trim().min(1, "Preencha o texto do botão.").max(25, "Texto do botão com até 25 caracteres."),
+        value: z.string().trim().max(2000).default(''),
+    })).max(3, "Máximo de 3 botões.").default([]),
+    active: z.boolean().default(true),
+}).superRefine((template, ctx) => {
+    const placeholders = templatePlaceholders(template.body);
+    if (placeholders.some((n, index) => n !== index + 1)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['body'], message: "Numere as variáveis em sequência: {{1}}, {{2}}..." });
+    } else if (placeholders.length !== template.body_params.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['body_params'], message: "Defina o valor de cada variável do texto." });
+    }
+    if (template.header_type !== 'none' && !template.header_content) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['header_content'], message: "Preencha o cabeçalho." });
+    }
+    if (template.header_type !== 'none' && template.header_type !== 'text' && !z.string().url().safeParse(template.header_content).success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['header_content'], message: "URL da mídia do cabeçalho inválida." });
+    }
+    template.buttons.forEach((button, index) => {
+        if (button.type !== 'quick_reply' && !button.value) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['buttons', index, 'value'], message: "Preencha o destino do botão." });
+        }
+    });
 });
 
+// Broadcast campaigns
+const createBroadcastSchema = z.object({
+    name: z.string().trim().min(1, "O nome da campanha é obrigatório.").max(120, "Nome muito longo."),
+    template_id: z.number().int().positive().optional(),
+    template_name: z.string().min(1, "Nome do template é obrigatório."),
+    language_code: z.string().min(2, "Código de idioma inválido.").default("pt_BR"),
+    body_params: z.array(templateParamSchema).max(10).default([]),
+    interval_seconds: z.number().int().min(5, "Intervalo mínimo de 5 segundos.").max(600, "Intervalo máximo de 600 segundos.").default(20),
+    lead_ids: z.array(z.number().int().positive()).min(1, "Selecione ao menos um lead.").max(5000, "Máximo de 5000 leads por campanha."),
+});
+const BROADCAST_MANAGER_ROLES = ['admin', 'marketing'];
+const BROADCAST_RUN_MS = 50 * 1000;
+
+// Team inbox: conversation owner and status, internal notes
+const INBOX_VIEWS = ['mine', 'unassigned', 'all'];
+const CONVERSATION_STATUSES = ['open', 'pending', 'closed'] as const;
+const updateConversationSchema = z.object({
+    owner_id: z.string().uuid("Responsável inválido.").nullable().optional(),
+    status: z.enum(CONVERSATION_STATUSES).optional(),
+}).refine(data => data.owner_id !== undefined || data.status !== undefined, { message: "Informe owner_id ou status." });
+const conversationNoteSchema = z.object({
+    content: z.string().trim().min(1, "A nota não pode ficar vazia.").max(2000, "Nota muito longa."),
+});
+
+// Automation rules evaluated by the webhook for incoming messages (see 0032_whatsapp_automations.sql)
+const AUTOMATION_TRIGGERS = ['keyword', 'regex', 'first_contact', 'outside_hours'] as const;
+const automationRuleSchema = z.object({
+    name: z.string().trim().min(1, "O nome da regra é obrigatório.").max(120, "Nome muito longo."),
+    trigger_type: z.enum(AUTOMATION_TRIGGERS),
+    trigger_value: z.string().trim().max(500, "Gatilho muito longo.").default(''),
+    template_id: z.number().int().positive().nullable().default(null),
+    tag: z.string().trim().max(50, "Etiqueta muito longa.").nullable().default(null).transform(tag => tag || null),
+    task_title: z.string().trim().max(200, "Título muito longo.").nullable().default(null).transform(title => title || null),
+    task_assignee_id: z.string().uuid("Responsável inválido.").nullable().default(null),
+    task_due_hours: z.number().int().min(1, "Prazo mínimo de 1 hora.").max(720, "Prazo máximo de 720 horas.").default(4),
+    cooldown_minutes: z.number().int().min(1, "Intervalo mínimo de 1 minuto.").max(525600, "Intervalo máximo de 1 ano.").default(1440),
+    position: z.number().int().default(0),
+    active: z.boolean().default(true),
+}).superRefine((rule, ctx) => {
+    if (rule.trigger_type === 'keyword' && automationKeywords(rule.trigger_value).length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['trigger_value'], message: "Informe ao menos uma palavra-chave." });
+    }
+    if (rule.trigger_type === 'regex') {
+        try {
+            if (!rule.trigger_value) throw new Error();
+            new RegExp(rule.trigger_value, 'i');
+        } catch {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['trigger_value'], message: "Expressão regular inválida." });
+        }
+    }
+    if (!rule.template_id && !rule.tag && !rule.task_title) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['template_id'], message: "Escolha ao menos uma ação: template, etiqueta ou tarefa." });
+    }
+});
+// Weekly grid in the studio's local time, always replaced as a whole; slots of the same weekday may not overlap
+const timeOfDay = (message: string) => z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:00)?$/, message).transform(time => time.slice(0, 5));
+const businessHoursSchema = z.object({
+    slots: z.array(z.object({
+        weekday: z.number().int().min(0).max(6),
+        start_time: timeOfDay("Horário de início inválido."),
+        end_time: timeOfDay("Horário de término inválido."),
+    }).refine(slot => slot.end_time > slot.start_time, { message: "O horário de término deve ser posterior ao de início.", path: ['end_time'] })).max(70),
+}).refine(({ slots }) => slots.every((a, i) => slots.every((b, j) =>
+    i === j || a.weekday !== b.weekday || a.end_time <= b.start_time || b.end_time <= a.start_time
+)), { message: "Há horários sobrepostos no mesmo dia da semana.", path: ['slots'] });
+
 
 // --- Types (ensure column names like lead_id, message_id match DB) ---
 interface Lead { id: number; name: string; phone: string; } // Simplified
@@ -70,13 +216,19 @@ interface WhatsappMessage {
   message_id?: string | null; // API provider's message ID (e.g., from Evolution)
   timestamp?: string | Date; // Auto-generated by DB ideally
   error_message?: string | null; // To store error details if sending failed
+  media_path?: string | null; // Object in the whatsapp-media bucket (incoming media)
+  media_mime_type?: string | null;
+  metadata?: Record<string, unknown> | null; // Location, contacts or document name
+  thumbnail_path?: string | null; // JPEG preview of images and videos, in the same bucket
+  thumbnail_url?: string | null; // Signed link to thumbnail_path, only in responses
 }
 interface EvolutionApiResponse { // Generic structure for Evolution API responses
   success: boolean;
   key?: { id: string }; // For message sending response
   id?: string; // Sometimes ID is directly on response
   error?: string; // Error message from Evolution
-  message?: string; // Alternative error message field
+  message?: any; // Sent message on success, sometimes an error message
+  response?: { message?: string | string[] }; // Error details on 4xx responses
   data?: any; // For status, qrcode etc.
   instance?: any; // For instance status
   groups?: any[]; // For group list
@@ -93,19 +245,15 @@ async function getSupabaseAdminClient(): Promise<SupabaseClient> {
 }
 
 async function findLeadById(adminClient: SupabaseClient, leadId: number): Promise<Lead | null> {
-  const { data, error } = await adminClient.from('leads').select('id, name, phone').eq('id', leadId).single();
+  const { data, error } = await adminClient.from('leads').select('id, name, email, phone, state, campaign, source').eq('id', leadId).is('deleted_at', null).single();
   if (error && error.code !== 'PGRST116') console.error("Error finding lead by ID:", error.message);
   return data as Lead | null;
 }
+// Matches formatted phones, with or without country code and ninth digit (see 0026_whatsapp_webhook.sql)
 async function findLeadByPhone(adminClient: SupabaseClient, phoneNumber: string): Promise<Lead | null> {
-    const normalized = normalizePhoneForComparison(phoneNumber);
-    // Query for exact match or international format without '+'
-    const { data, error } = await adminClient.from('leads')
-        .select('id, name, phone')
-        .or(`phone.eq.${normalized},phone.like.%${normalized.slice(-9)}`) // Match full or last 9 digits
-        .limit(1).single();
-    if (error && error.code !== 'PGRST116') console.error("Error finding lead by phone:", error.message);
-    return data as Lead | null;
+    const { data, error } = await adminClient.rpc('find_lead_by_whatsapp_phone', { p_phone: normalizePhoneForComparison(phoneNumber) });
+    if (error) console.error("Error finding lead by phone:", error.message);
+    return (data?.[0] as Lead | undefined) ?? null;
 }
 
 async function getWhatsappMessagesForLead(adminClient: SupabaseClient, leadId: number, limit: number = 50): Promise<WhatsappMessage[]> {
@@ -113,14 +261,48 @@ async function getWhatsappMessagesForLead(adminClient: SupabaseClient, leadId: n
     .select('*').eq('lead_id', leadId)
     .order('timestamp', { ascending: false }).limit(limit);
   if (error) console.error("Error getting messages for lead:", error.message);
-  return (data as WhatsappMessage[] | null) || [];
+  return withSignedMediaUrls(adminClient, (data as WhatsappMessage[] | null) || []);
+}
+// Stored media is private; the client gets short-lived links in media_url and thumbnail_url
+async function withSignedMediaUrls(adminClient: SupabaseClient, messages: WhatsappMessage[]): Promise<WhatsappMessage[]> {
+  const paths = messages.flatMap(message => [message.media_path, message.thumbnail_path]).filter((path): path is string => !!path);
+  if (paths.length === 0) return messages;
+  const { data, error } = await adminClient.storage.from(WHATSAPP_MEDIA_BUCKET).createSignedUrls(paths, 60 * 60);
+  if (error) console.error("Error signing media URLs:", error.message);
+  const urls = new Map((data || []).map(item => [item.path, item.signedUrl]));
+  return messages.map(message => ({
+    ...message,
+    media_url: message.media_path ? urls.get(message.media_path) ?? message.media_url : message.media_url,
+    thumbnail_url: message.thumbnail_path ? urls.get(message.thumbnail_path) ?? null : null,
+  }));
+}
+// Inbox rows with the latest message of each lead (see 0031_whatsapp_inbox.sql); a search ignores the view and
+// status filters and also lists leads without messages
+async function getRecentConversations(
+  adminClient: SupabaseClient,
+  filters: { userId: string; view: string; status: string | null; search: string | null; limit: number },
+) {
+  const { data, error } = await adminClient.rpc('get_whatsapp_inbox', {
+    p_user: filters.userId, p_view: filters.view, p_status: filters.status, p_search: filters.search, p_limit: filters.limit,
+  });
+  if (error) throw new Error(`DB error listing conversations: ${error.message}`);
+  return (data || []).map((row: any) => ({
+    lead: { id: row.lead_id, name: row.name, phone: row.phone, email: row.email, status: row.lead_status },
+    conversation: row.conversation_status ? {
+      owner_id: row.owner_id, owner_name: row.owner_name, status: row.conversation_status, unread_count: row.unread_count,
+    } : null,
+    last_message: row.message_id ? {
+      id: row.message_id, direction: row.direction, content: row.content, status: row.message_status,
+      media_type: row.media_type, timestamp: row.timestamp,
+    } : null,
+  }));
 }
 async function getWhatsappMessageByApiId(adminClient: SupabaseClient, apiMessageId: string): Promise<WhatsappMessage | null> {
-    const { data, error } = await adminClient.from('whatsapp_messages').select('*').eq('message_id', apiMessageId).single();
+    const { data, error } = await adminClient.from('whatsapp_messages').select('*').eq('message_id', apiMessageId).maybeSingle();
     if (error && error.code !== 'PGRST116') console.error("Error getting message by API ID:", error.message);
     return data as WhatsappMessage | null;
 }
-async function createWhatsappMessageInDb(adminClient: SupabaseClient, message: Omit<WhatsappMessage, 'id' | 'timestamp'>): Promise<WhatsappMessage> {
+async function createWhatsappMessageInDb(adminClient: SupabaseClient, message: Omit<WhatsappMessage, 'id'>): Promise<WhatsappMessage> {
   const { data, error } = await adminClient.from('whatsapp_messages').insert(message).select().single();
   if (error) throw new Error(`DB error creating message: ${error.message}`);
   return data as WhatsappMessage;
@@ -148,6 +330,16 @@ async function getWhatsappConfigFromDb(adminClient: SupabaseClient): Promise<Wha
     }
     throw new Error("Configuração da API WhatsApp não encontrada no banco de dados nem nas variáveis de ambiente.");
 }
+// Stored settings as shown to admins: the token itself never leaves the server
+async function getWhatsappConfigSummary(adminClient: SupabaseClient) {
+    const { data, error } = await adminClient.from('whatsapp_settings').select('api_url, api_token, api_instance, updated_at').order('updated_at', { ascending: false }).limit(1).maybeSingle();
+    if (error) throw new Error(`DB error fetching whatsapp config: ${error.message}`);
+    if (data) return { api_url: data.api_url, api_instance: data.api_instance, has_token: !!data.api_token, updated_at: data.updated_at, source: 'database' };
+    if (evolutionApiUrlEnv && evolutionApiTokenEnv) {
+        return { api_url: evolutionApiUrlEnv, api_instance: evolutionApiInstanceEnv, has_token: true, updated_at: null, source: 'env' };
+    }
+    return null;
+}
 async function saveWhatsappConfigToDb(adminClient: SupabaseClient, config: WhatsappConfig): Promise<WhatsappConfig> {
     // Upsert logic: delete old configs, insert new one. Or use DB's ON CONFLICT.
     // For simplicity, assuming a single row or always inserting and relying on the SELECT query to get the latest.
@@ -194,10 +386,13 @@ async function makeEvolutionRequest(config: WhatsappConfig, endpoint: string, me
       headers: { 'Content-Type': 'application/json', 'apikey': api_token },
       body: body ? JSON.stringify(body) : undefined,
     });
-    const responseData: EvolutionApiResponse = await response.json();
+    const responseData: EvolutionApiResponse = await response.json().catch(() => ({ success: false }));
 
-    if (!response.ok || responseData.error || responseData.message) { // Check common error fields from Evolution
-      return { success: false, error: responseData.error || responseData.message || `Erro da API Evolution: ${response.status}`, data: responseData, statusCode: response.status };
+    // Successful sends also carry a `message` object, so only the HTTP status tells errors apart
+    if (!response.ok) {
+      const detail = responseData.response?.message ?? (typeof responseData.message === 'string' ? responseData.message : responseData.error);
+      const error = Array.isArray(detail) ? detail.join(', ') : detail;
+      return { success: false, error: error || `Erro da API Evolution: ${response.status}`, data: responseData, statusCode: response.status };
     }
     return { success: true, data: responseData, statusCode: response.status };
   } catch (e) {
@@ -206,12 +401,613 @@ async function makeEvolutionRequest(config: WhatsappConfig, endpoint: string, me
   }
 }
 
+// --- Webhook Processing ---
+// POST /webhook must carry WHATSAPP_WEBHOOK_SECRET, either as an HMAC-SHA256 of the raw body in
+// x-webhook-signature (hex, optionally "sha256=" prefixed; Meta's x-hub-signature-256 has the same format)
+// or, for senders that cannot sign such as Evolution, verbatim in x-webhook-secret or ?secret=
+async function hmacSha256Hex(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+function timingSafeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  return diff === 0;
+}
+async function isWebhookAuthorized(req: Request, url: URL, rawBody: string): Promise<boolean> {
+  if (!whatsappWebhookSecretEnv) return false;
+  const signature = req.headers.get('x-webhook-signature') || req.headers.get('x-hub-signature-256');
+  if (signature) {
+    return timingSafeEqual(signature.replace(/^sha256=/i, '').toLowerCase(), await hmacSha256Hex(whatsappWebhookSecretEnv, rawBody));
+  }
+  const secret = req.headers.get('x-webhook-secret') || url.searchParams.get('secret');
+  return !!secret && timingSafeEqual(secret, whatsappWebhookSecretEnv);
+}
+
+// Statuses only move forward (a late "delivered" does not undo "read"); failures always apply
+const statusOrder: Record<WhatsappMessage['status'], number> = { pending: 0, sent: 1, delivered: 2, read: 3, failed: 4, received: 5 };
+async function applyMessageStatusUpdate(adminClient: SupabaseClient, apiMessageId: string, newStatus: WhatsappMessage['status'], errorMessage?: string | null) {
+  const dbMessage = await getWhatsappMessageByApiId(adminClient, apiMessageId);
+  if (!dbMessage) {
+    console.warn(`Webhook: Message ${apiMessageId} not found in DB for status update.`);
+    return;
+  }
+  if (statusOrder[newStatus] > (statusOrder[dbMessage.status] ?? -1) || newStatus === 'failed') {
+    await updateWhatsappMessageStatusInDb(adminClient, dbMessage.id!, newStatus, errorMessage);
+  }
+}
+
+// Evolution (Baileys) acknowledgements, by name (v2) or number (v1)
+const EVOLUTION_STATUS_MAP: Record<string, WhatsappMessage['status']> = {
+  ERROR: 'failed', PENDING: 'pending', SERVER_ACK: 'sent', DELIVERY_ACK: 'delivered', READ: 'read', PLAYED: 'read',
+};
+const EVOLUTION_STATUS_CODES = ['ERROR', 'PENDING', 'SERVER_ACK', 'DELIVERY_ACK', 'READ', 'PLAYED'];
+
+interface IncomingContent {
+  content: string;
+  media_type: 'text' | 'image' | 'audio' | 'video' | 'document' | 'location' | 'contact';
+  metadata?: Record<string, unknown>;
+  media?: { mimetype: string; fileName?: string | null; thumbnail?: string | null }; // thumbnail: base64 JPEG
+}
+
+function parseVcardPhones(vcard?: string): string[] {
+  if (!vcard) return [];
+  return [...vcard.matchAll(/^(?:item\d+\.)?TEL[^:]*:(.+)$/gim)].map(match => match[1].trim());
+}
+
+// Baileys message content -> what we store. Returns null for unsupported types (stickers, reactions, polls...)
+function parseEvolutionMessage(raw: any): IncomingContent | null {
+  const message = raw?.ephemeralMessage?.message || raw?.viewOnceMessage?.message || raw?.viewOnceMessageV2?.message || raw;
+  if (!message) return null;
+  const text = message.conversation || message.extendedTextMessage?.text;
+  if (text) return { content: text, media_type: 'text' };
+  if (message.imageMessage) {
+    const { caption, mimetype, jpegThumbnail } = message.imageMessage;
+    return { content: caption || '[Imagem]', media_type: 'image', media: { mimetype: mimetype || 'image/jpeg', thumbnail: typeof jpegThumbnail === 'string' ? jpegThumbnail : null } };
+  }
+  if (message.audioMessage) {
+    return { content: '[Áudio]', media_type: 'audio', media: { mimetype: message.audioMessage.mimetype || 'audio/ogg' } };
+  }
+  if (message.videoMessage) {
+    const { caption, mimetype, jpegThumbnail } = message.videoMessage;
+    return { content: caption || '[Vídeo]', media_type: 'video', media: { mimetype: mimetype || 'video/mp4', thumbnail: typeof jpegThumbnail === 'string' ? jpegThumbnail : null } };
+  }
+  const document = message.documentMessage || message.documentWithCaptionMessage?.message?.documentMessage;
+  if (document) {
+    return {
+      content: document.caption || document.fileName || '[Documento]',
+      media_type: 'document',
+      metadata: { fileName: document.fileName ?? null },
+      media: { mimetype: document.mimetype || 'application/octet-stream', fileName: document.fileName },
+    };
+  }
+  const location = message.locationMessage || message.liveLocationMessage;
+  if (location) {
+    const latitude = location.degreesLatitude;
+    const longitude = location.degreesLongitude;
+    return {
+      content: location.name || location.address || `Localização: ${latitude}, ${longitude}`,
+      media_type: 'location',
+      metadata: { location: { latitude, longitude, name: location.name ?? null, address: location.address ?? null } },
+    };
+  }
+  const contacts: any[] | undefined = message.contactMessage ? [message.contactMessage] : message.contactsArrayMessage?.contacts;
+  if (contacts?.length) {
+    const parsed = contacts.map(contact => ({ name: contact.displayName || 'Contato', phones: parseVcardPhones(contact.vcard) }));
+    return { content: `[Contato] ${parsed.map(contact => contact.name).join(', ')}`, media_type: 'contact', metadata: { contacts: parsed } };
+  }
+  return null;
+}
+
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'audio/ogg': 'ogg', 'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a', 'audio/aac': 'aac', 'audio/amr': 'amr', 'video/mp4': 'mp4', 'video/3gpp': '3gp', 'application/pdf': 'pdf',
+};
+
+const hasBytesAt = (bytes: Uint8Array, offset: number, signature: number[] | string) => {
+  const expected = typeof signature === 'string' ? [...signature].map(char => char.charCodeAt(0)) : signature;
+  return expected.every((byte, i) => bytes[offset + i] === byte);
+};
+
+// Leading bytes of each type accepted by /send-media; the type declared by the browser only follows the file name
+const MEDIA_SIGNATURES: Record<string, (bytes: Uint8Array) => boolean> = {
+  'image/jpeg': bytes => hasBytesAt(bytes, 0, [0xff, 0xd8, 0xff]),
+  'image/png': bytes => hasBytesAt(bytes, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  'image/webp': bytes => hasBytesAt(bytes, 0, 'RIFF') && hasBytesAt(bytes, 8, 'WEBP'),
+  'video/mp4': bytes => hasBytesAt(bytes, 4, 'ftyp'),
+  'video/3gpp': bytes => hasBytesAt(bytes, 4, 'ftyp'),
+  'audio/mp4': bytes => hasBytesAt(bytes, 4, 'ftyp'),
+  'audio/ogg': bytes => hasBytesAt(bytes, 0, 'OggS'),
+  'audio/mpeg': bytes => hasBytesAt(bytes, 0, 'ID3') || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0), // ID3 tag or MPEG frame sync
+  'audio/aac': bytes => hasBytesAt(bytes, 0, 'ADIF') || (bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0), // ADTS header
+  'audio/amr': bytes => hasBytesAt(bytes, 0, '#!AMR'),
+  'application/pdf': bytes => hasBytesAt(bytes, 0, '%PDF-'),
+};
+
+async function matchesMediaSignature(file: Blob, mimetype: string): Promise<boolean> {
+  const check = MEDIA_SIGNATURES[mimetype];
+  return !!check && check(new Uint8Array(await file.slice(0, 16).arrayBuffer()));
+}
+
+function decodeBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64.replace(/^data:[^,]*,/, '')), char => char.charCodeAt(0));
+}
+
+// Copies the media of an incoming message to Storage; uses the base64 sent in the webhook when Evolution
+// is configured to include it, otherwise asks Evolution for it. Returns the object path, or null on failure
+async function storeIncomingMedia(adminClient: SupabaseClient, data: any, leadId: number, media: NonNullable<IncomingContent['media']>): Promise<string | null> {
+  let base64: string | undefined = data.message?.base64 || data.base64;
+  if (!base64) {
+    const config = await getWhatsappConfigFromDb(adminClient).catch(() => null);
+    if (!config) return null;
+    const result = await makeEvolutionRequest(config, `/chat/getBase64FromMediaMessage/{instance}`, 'POST', { message: { key: { id: data.key.id } }, convertToMp4: false });
+    if (!result.success) {
+      console.error(`Webhook: could not download media of ${data.key.id}:`, result.error);
+      return null;
+    }
+    base64 = result.data?.base64;
+  }
+  if (!base64) return null;
+
+  const bytes = decodeBase64(base64);
+  const contentType = media.mimetype.split(';')[0].trim();
+  const extension = MEDIA_EXTENSIONS[contentType] || media.fileName?.split('.').pop()?.toLowerCase() || 'bin';
+  const path = `leads/${leadId}/${data.key.id}.${extension}`;
+  const { error } = await adminClient.storage.from(WHATSAPP_MEDIA_BUCKET).upload(path, bytes, { contentType, upsert: true });
+  if (error) {
+    console.error(`Webhook: could not store media of ${data.key.id}:`, error.message);
+    return null;
+  }
+  return path;
+}
+
+// Messages we send through /send also come back as fromMe upserts, sometimes before the send call has
+// saved Evolution's id; those are linked to the pending row instead of being stored twice
+async function claimPendingOutgoingMessage(adminClient: SupabaseClient, leadId: number, content: string, apiMessageId: string): Promise<boolean> {
+  const { data } = await adminClient.from('whatsapp_messages')
+    .select('id')
+    .eq('lead_id', leadId).eq('direction', 'outgoing').eq('content', content).is('message_id', null)
+    .gte('timestamp', new Date(Date.now() - 5 * 60 * 1000).toISOString())
+    .order('timestamp', { ascending: false }).limit(1).maybeSingle();
+  if (!data) return false;
+  await updateWhatsappMessageApiIdInDb(adminClient, data.id, apiMessageId);
+  return true;
+}
+
+async function storeEvolutionMessage(adminClient: SupabaseClient, data: any) {
+  const key = data?.key;
+  // Groups, broadcast lists and status updates are not lead conversations
+  if (!key?.id || typeof key.remoteJid !== 'string' || !key.remoteJid.endsWith('@s.whatsapp.net')) return;
+  if (await getWhatsappMessageByApiId(adminClient, key.id)) return; // Retry or echo of a message already stored
+
+  const parsed = parseEvolutionMessage(data.message);
+  if (!parsed) {
+    console.log(`Webhook: ignoring unsupported message type ${data.messageType} (${key.id})`);
+    return;
+  }
+  const phone = key.remoteJid.split('@')[0];
+  // Only someone writing to us becomes a lead; messages sent from the phone to other numbers are skipped
+  const lead = await findLeadByPhone(adminClient, phone)
+    ?? (key.fromMe ? null : await createInboundLead(adminClient, phone, data.pushName, parsed.content));
+  if (!lead) {
+    console.warn(`Webhook: Lead não encontrado para o número ${phone}`);
+    return;
+  }
+  if (key.fromMe && await claimPendingOutgoingMessage(adminClient, lead.id, parsed.content, key.id)) return;
+
+  const mediaPath = parsed.media ? await storeIncomingMedia(adminClient, data, lead.id, parsed.media) : null;
+  let thumbnailPath: string | null = null;
+  if (mediaPath && parsed.media?.thumbnail) {
+    thumbnailPath = mediaPath.replace(/\.[^.]+$/, '_thumb.jpg');
+    const { error } = await adminClient.storage.from(WHATSAPP_MEDIA_BUCKET)
+      .upload(thumbnailPath, decodeBase64(parsed.media.thumbnail), { contentType: 'image/jpeg', upsert: true });
+    if (error) thumbnailPath = null;
+  }
+  try {
+    const stored = await createWhatsappMessageInDb(adminClient, {
+      lead_id: lead.id,
+      direction: key.fromMe ? 'outgoing' : 'incoming',
+      content: parsed.content,
+      status: key.fromMe ? 'sent' : 'received',
+      message_id: key.id,
+      media_type: parsed.media_type,
+      media_path: mediaPath,
+      media_mime_type: parsed.media?.mimetype ?? null,
+      thumbnail_path: thumbnailPath,
+      metadata: parsed.metadata ?? null,
+      timestamp: data.messageTimestamp ? new Date(Number(data.messageTimestamp) * 1000).toISOString() : undefined,
+    });
+    if (!key.fromMe) runWhatsappAutomationsInBackground(adminClient, lead.id, stored);
+  } catch (e) {
+    // A concurrent delivery of the same event stored it first (unique message_id)
+    if (!String(e.message).includes('duplicate key')) throw e;
+  }
+}
+
+async function updateConnectionState(adminClient: SupabaseClient, state: string | undefined) {
+  if (!state) return;
+  const { data } = await adminClient.from('whatsapp_settings').select('id').order('updated_at', { ascending: false }).limit(1).maybeSingle();
+  if (!data) return;
+  await adminClient.from('whatsapp_settings').update({ connection_state: state, connection_updated_at: new Date().toISOString() }).eq('id', data.id);
+}
+
+// Event names arrive as "messages.upsert" (v2) or "MESSAGES_UPSERT" (v1); data may be a single item or a list
+async function handleEvolutionEvent(adminClient: SupabaseClient, payload: any) {
+  const event = String(payload.event).toLowerCase().replace(/_/g, '.');
+  const items: any[] = Array.isArray(payload.data) ? payload.data : payload.data ? [payload.data] : [];
+
+  if (event === 'messages.upsert') {
+    for (const data of items) await storeEvolutionMessage(adminClient, data);
+  } else if (event === 'messages.update') {
+    for (const data of items) {
+      const apiMessageId = data.keyId || data.key?.id;
+      const code = typeof data.status === 'number' ? EVOLUTION_STATUS_CODES[data.status] : String(data.status).toUpperCase();
+      const status = EVOLUTION_STATUS_MAP[code];
+      if (apiMessageId && status) await applyMessageStatusUpdate(adminClient, apiMessageId, status);
+    }
+  } else if (event === 'connection.update') {
+    await updateConnectionState(adminClient, items[0]?.state);
+  } else {
+    console.log(`Webhook: ignoring Evolution event ${payload.event}`);
+  }
+}
+
+// Template message to one lead (/send-template and broadcast campaigns); the message row is stored either way
+type TemplateMessage = Omit<z.infer<typeof sendTemplateMessageSchema>, 'lead_id' | 'template_id'> & { template_name: string };
+// content: the text stored in the chat history, the rendered body when the template comes from the library
+// metadata: stored on the message row (automationRuleId for automated replies)
+async function sendTemplateToLead(adminClient: SupabaseClient, config: WhatsappConfig, leadId: number, phone: string, template: TemplateMessage, content?: string, metadata: WhatsappMessage['metadata'] = null) {
+    const { template_name, language_code, body_params, header_params, header_media_url, header_media_type, buttons_params } = template;
+    // Construct the payload for Evolution API's sendTemplate endpoint
+    // This payload structure is an assumption and might need adjustment based on actual Evolution API docs
+    const evolutionPayload: any = {
+        number: phone,
+        name: template_name, // Evolution API might use 'name' for templateName
+        language: { code: language_code, policy: "deterministic" },
+        components: []
+    };
+
+    // Header Component (if any)
+    if (header_media_url && header_media_type) {
+        evolutionPayload.components.push({
+            type: "header",
+            parameters: [{ type: header_media_type.toLowerCase(), [header_media_type.toLowerCase()]: { link: header_media_url } }]
+        });
+    } else if (header_params && header_params.length > 0) { // Simpler text header vars
+        evolutionPayload.components.push({
+            type: "header",
+            parameters: header_params.map(p => ({ type: "text", text: p }))
+        });
+    }
+
+
+    // Body Component (if params exist)
+    if (body_params && body_params.length > 0) {
+        evolutionPayload.components.push({
+            type: "body",
+            parameters: body_params.map(param => ({ type: "text", text: param }))
+        });
+    }
+
+    // Buttons Component (if any - example for quick replies)
+    if (buttons_params && buttons_params.length > 0) {
+        evolutionPayload.components.push({
+            type: "button",
+            sub_type: "quick_reply", // This can vary: "url", "call"
+            index: "0", // index of the button if multiple quick reply buttons are defined in the template
+            parameters: buttons_params.map(btn => ({ type: "payload", payload: btn.payload })) // or type: "text" for URL buttons
+        });
+    }
+
+    // Log the message in DB (content can be the template name + params for reference)
+    const dbContent = content ?? `Template: ${template_name} | Params: ${JSON.stringify(body_params)}`;
+    const dbMsg = await createWhatsappMessageInDb(adminClient, { lead_id: leadId, direction: 'outgoing', content: dbContent, status: 'pending', media_type: 'template', metadata });
+
+    // Make the request to Evolution API
+    // The endpoint /message/sendTemplate is a common convention, adjust if different for your Evolution API version
+    const result = await makeEvolutionRequest(config, `/message/sendTemplate/{instance}`, 'POST', evolutionPayload);
+
+    if (result.success && result.data?.key?.id) {
+        await updateWhatsappMessageApiIdInDb(adminClient, dbMsg.id!, result.data.key.id);
+        await updateWhatsappMessageStatusInDb(adminClient, dbMsg.id!, 'sent');
+    } else {
+        await updateWhatsappMessageStatusInDb(adminClient, dbMsg.id!, 'failed', result.error || JSON.stringify(result.data));
+    }
+    return { dbMsg, result };
+}
+
+// --- Inbound Leads (unknown numbers) ---
+const DDD_STATES: Record<string, string> = {
+  '11': 'SP', '12': 'SP', '13': 'SP', '14': 'SP', '15': 'SP', '16': 'SP', '17': 'SP', '18': 'SP', '19': 'SP',
+  '21': 'RJ', '22': 'RJ', '24': 'RJ', '27': 'ES', '28': 'ES',
+  '31': 'MG', '32': 'MG', '33': 'MG', '34': 'MG', '35': 'MG', '37': 'MG', '38': 'MG',
+  '41': 'PR', '42': 'PR', '43': 'PR', '44': 'PR', '45': 'PR', '46': 'PR', '47': 'SC', '48': 'SC', '49': 'SC',
+  '51': 'RS', '53': 'RS', '54': 'RS', '55': 'RS',
+  '61': 'DF', '62': 'GO', '64': 'GO', '63': 'TO', '65': 'MT', '66': 'MT', '67': 'MS', '68': 'AC', '69': 'RO',
+  '71': 'BA', '73': 'BA', '74': 'BA', '75': 'BA', '77': 'BA', '79': 'SE',
+  '81': 'PE', '87': 'PE', '82': 'AL', '83': 'PB', '84': 'RN', '85': 'CE', '88': 'CE', '86': 'PI', '89': 'PI',
+  '91': 'PA', '93': 'PA', '94': 'PA', '92': 'AM', '97': 'AM', '95': 'RR', '96': 'AP', '98': 'MA', '99': 'MA',
+};
+
+// WhatsApp ids are E.164 digits; only Brazilian numbers (55 + DDD + 8 or 9 digits) carry a DDD
+function dddFromPhone(phone: string): string | null {
+  const digits = normalizePhoneForComparison(phone);
+  if (!digits.startsWith('55') || (digits.length !== 12 && digits.length !== 13)) return null;
+  const ddd = digits.slice(2, 4);
+  return DDD_STATES[ddd] ? ddd : null;
+}
+
+// Lead for a number no lead matches (see 0027_whatsapp_inbound_leads.sql); null when disabled in the settings
+async function createInboundLead(adminClient: SupabaseClient, phone: string, pushName: string | null | undefined, firstMessage: string): Promise<Lead | null> {
+  const digits = normalizePhoneForComparison(phone);
+  const ddd = dddFromPhone(digits);
+  const name = pushName?.trim() || `WhatsApp ${digits}`;
+  const tags = ['WhatsApp', ...(ddd ? [`DDD ${ddd}`] : [])];
+  const { data, error } = await adminClient.rpc('create_whatsapp_inbound_lead', {
+    p_phone: digits, p_name: name, p_state: ddd ? DDD_STATES[ddd] : '', p_ddd: ddd ?? '', p_tags: tags, p_first_message: firstMessage,
+  });
+  if (error) throw new Error(`DB error creating inbound lead: ${error.message}`);
+  const lead = (data as Lead[] | null)?.[0] ?? null;
+  if (lead) console.log(`Webhook: lead ${lead.id} criado para o número ${digits}`);
+  return lead;
+}
+
+async function getInboundSettings(adminClient: SupabaseClient) {
+  const { data, error } = await adminClient.from('whatsapp_inbound_settings').select('*').eq('id', 1).single();
+  if (error) throw new Error(`DB error fetching inbound settings: ${error.message}`);
+  return data;
+}
+
+// --- Template Library ---
+function templateParamValue(lead: Record<string, any>, param: TemplateParam): string {
+  if (param.type === 'text') return param.value;
+  const value = param.value === 'first_name' ? String(lead.name ?? '').trim().split(/\s+/)[0] : lead[param.value];
+  return String(value ?? '').trim() || '-'; // WhatsApp rejects empty template parameters
+}
+
+async function getTemplateById(adminClient: SupabaseClient, templateId: number) {
+  const { data, error } = await adminClient.from('whatsapp_templates').select('*').eq('id', templateId).maybeSingle();
+  if (error) throw new Error(`DB error fetching template: ${error.message}`);
+  return data;
+}
+
+// Message for a library template: params filled from the lead (the template's mapping unless others are
+// given), media header, and the rendered body as the chat history text
+function buildTemplateMessage(template: any, lead: Record<string, any>, params: TemplateParam[] = template.body_params) {
+  const body_params = params.map(param => templateParamValue(lead, param));
+  const hasMediaHeader = ['image', 'video', 'document'].includes(template.header_type) && template.header_content;
+  const message: TemplateMessage = {
+    template_name: template.name,
+    language_code: template.language_code,
+    body_params,
+    header_params: [],
+    ...(hasMediaHeader ? { header_media_url: template.header_content, header_media_type: template.header_type.toUpperCase() } : {}),
+  };
+  const content = String(template.body).replace(/\{\{(\d+)\}\}/g, (placeholder, n) => body_params[Number(n) - 1] ?? placeholder);
+  return { message, content };
+}
+
+// --- Broadcast Campaigns ---
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function sendBroadcastRecipient(adminClient: SupabaseClient, config: WhatsappConfig, claim: { recipient_id: number; broadcast_id: number; lead_id: number }) {
+  const finish = (changes: Record<string, unknown>) =>
+    adminClient.from('whatsapp_broadcast_recipients').update(changes).eq('id', claim.recipient_id);
+  const [{ data: broadcast }, { data: lead }] = await Promise.all([
+    adminClient.from('whatsapp_broadcasts').select('template_name, language_code, body_params, template:whatsapp_templates(*)').eq('id', claim.broadcast_id).single(),
+    adminClient.from('leads').select('id, name, email, phone, state, campaign, source').eq('id', claim.lead_id).is('deleted_at', null).maybeSingle(),
+  ]);
+  const phone = lead ? formatPhoneNumberForApi(lead.phone) : null;
+  if (!broadcast || !lead || !phone) {
+    await finish({ status: 'skipped', error: !lead ? 'Lead excluído.' : 'Telefone inválido.' });
+    return;
+  }
+  try {
+    // The campaign's own name, language and params win over later edits of the library template
+    const { message, content } = buildTemplateMessage(
+      { ...(broadcast.template ?? { body: '' }), name: broadcast.template_name, language_code: broadcast.language_code },
+      lead,
+      broadcast.body_params as TemplateParam[],
+    );
+    const { dbMsg, result } = await sendTemplateToLead(adminClient, config, lead.id, phone, message, broadcast.template ? content : undefined);
+    await finish({ status: result.success ? 'sent' : 'failed', message_id: dbMsg.id, error: result.success ? null : result.error || 'Falha no envio.' });
+  } catch (e) {
+    await finish({ status: 'failed', error: e.message });
+  }
+}
+
+// Sends whatever is due for up to BROADCAST_RUN_MS; the throttle itself is in claim_whatsapp_broadcast_recipient
+// (0029_whatsapp_broadcasts.sql), so overlapping runs don't send faster. Returns whether campaigns remain
+async function drainBroadcastQueue(adminClient: SupabaseClient): Promise<boolean> {
+  const config = await getWhatsappConfigFromDb(adminClient).catch(() => null);
+  if (!config) return false;
+  const deadline = Date.now() + BROADCAST_RUN_MS;
+  while (Date.now() < deadline) {
+    const { data, error } = await adminClient.rpc('claim_whatsapp_broadcast_recipient');
+    if (error) throw new Error(`DB error claiming broadcast recipient: ${error.message}`);
+    const claim = data?.[0];
+    if (claim) {
+      await sendBroadcastRecipient(adminClient, config, claim);
+      continue;
+    }
+    const { count } = await adminClient.from('whatsapp_broadcasts').select('id', { count: 'exact', head: true }).in('status', ['queued', 'sending']);
+    if (!count) return false;
+    await sleep(Math.min(5000, Math.max(0, deadline - Date.now())));
+  }
+  return true;
+}
+
+// Runs the queue in the background and hands over to a new invocation of /broadcasts/process before this
+// one times out, until every campaign is done. Needs WHATSAPP_WEBHOOK_SECRET, which authorizes that route
+function runBroadcastQueue(adminClient: SupabaseClient) {
+  EdgeRuntime.waitUntil((async () => {
+    try {
+      if (!(await drainBroadcastQueue(adminClient)) || !whatsappWebhookSecretEnv) return;
+      const res = await fetch(`${supabaseUrl}/functions/v1/whatsapp-manager/broadcasts/process`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${anonKey}`, apikey: anonKey!, 'x-webhook-secret': whatsappWebhookSecretEnv },
+      });
+      if (!res.ok) console.warn(`Broadcast queue hand-over failed (${res.status}):`, await res.text());
+    } catch (e) {
+      console.error("Erro ao processar campanhas do WhatsApp:", e.message);
+    }
+  })());
+}
+
+async function withBroadcastStats(adminClient: SupabaseClient, broadcasts: any[]) {
+  if (broadcasts.length === 0) return [];
+  const { data, error } = await adminClient.rpc('get_whatsapp_broadcast_stats', { p_broadcast_ids: broadcasts.map(b => b.id) });
+  if (error) throw new Error(`DB error fetching broadcast stats: ${error.message}`);
+  const empty = { total: 0, queued: 0, sent: 0, delivered: 0, read: 0, failed: 0, skipped: 0 };
+  const stats = new Map((data || []).map((row: any) => [row.broadcast_id, row]));
+  return broadcasts.map(broadcast => {
+    const { broadcast_id: _id, ...counts } = (stats.get(broadcast.id) as any) ?? empty;
+    return { ...broadcast, stats: counts };
+  });
+}
+
+// --- Automation Rules ---
+// Accents and case are ignored, and a keyword only matches whole words ("oi" doesn't match "noite")
+const normalizeForMatching = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+function automationKeywords(triggerValue: string): string[] {
+  return triggerValue.split(',').map(word => normalizeForMatching(word.trim())).filter(Boolean);
+}
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+type IncomingMessage = Pick<WhatsappMessage, 'id' | 'content'>;
+
+async function automationRuleMatches(adminClient: SupabaseClient, rule: any, leadId: number, message: IncomingMessage): Promise<boolean> {
+  const content = message.content || '';
+  switch (rule.trigger_type) {
+    case 'keyword': {
+      const text = normalizeForMatching(content);
+      return automationKeywords(rule.trigger_value).some(word => new RegExp(`(^|[^a-z0-9])${escapeRegExp(word)}($|[^a-z0-9])`).test(text));
+    }
+    case 'regex':
+      try {
+        return new RegExp(rule.trigger_value, 'i').test(content);
+      } catch {
+        return false;
+      }
+    case 'first_contact': {
+      const { count } = await adminClient.from('whatsapp_messages').select('id', { count: 'exact', head: true })
+        .eq('lead_id', leadId).eq('direction', 'incoming').neq('id', message.id!);
+      return count === 0;
+    }
+    case 'outside_hours': {
+      const { data, error } = await adminClient.rpc('whatsapp_is_business_hours');
+      if (error) throw new Error(`DB error checking business hours: ${error.message}`);
+      return data === false;
+    }
+  }
+  return false;
+}
+
+// Task owner: the rule's assignee when active, else the lead owner, else the first active admin (as for triage tasks)
+async function automationTaskAssignee(adminClient: SupabaseClient, rule: any, lead: any): Promise<string | null> {
+  if (rule.task_assignee_id) {
+    const { data } = await adminClient.from('profiles').select('id').eq('id', rule.task_assignee_id).eq('active', true).maybeSingle();
+    if (data) return data.id;
+  }
+  if (lead.owner_id) return lead.owner_id;
+  const { data } = await adminClient.from('profiles').select('id').eq('role', 'admin').eq('active', true).order('id').limit(1).maybeSingle();
+  return data?.id ?? null;
+}
+
+// Runs every action of the rule; one failing doesn't stop the others, and the run records what happened
+async function executeAutomationRule(adminClient: SupabaseClient, rule: any, lead: any, message: IncomingMessage, runId: number) {
+  const errors: string[] = [];
+  const result: Record<string, unknown> = {};
+
+  if (rule.template_id) {
+    try {
+      const template = await getTemplateById(adminClient, rule.template_id);
+      const phone = formatPhoneNumberForApi(lead.phone);
+      if (!template?.active) throw new Error("Template indisponível.");
+      if (!phone) throw new Error("Telefone inválido.");
+      const config = await getWhatsappConfigFromDb(adminClient);
+      const { message: templateMessage, content } = buildTemplateMessage(template, lead);
+      const { dbMsg, result: sendResult } = await sendTemplateToLead(adminClient, config, lead.id, phone, templateMessage, content, { automationRuleId: rule.id });
+      result.sent_message_id = dbMsg.id;
+      if (!sendResult.success) throw new Error(sendResult.error || "Falha no envio do template.");
+    } catch (e) {
+      errors.push(`Template: ${e.message}`);
+    }
+  }
+
+  if (rule.tag && !(lead.tags || []).includes(rule.tag)) {
+    const { error } = await adminClient.rpc('add_lead_tag', { p_lead_id: lead.id, p_tag: rule.tag });
+    if (error) errors.push(`Etiqueta: ${error.message}`);
+  }
+
+  if (rule.task_title) {
+    try {
+      const assignee = await automationTaskAssignee(adminClient, rule, lead);
+      if (!assignee) throw new Error("Nenhum usuário ativo para receber a tarefa.");
+      const { data: task, error } = await adminClient.from('tasks').insert({
+        title: `${rule.task_title}: ${lead.name}`,
+        description: `Criada pela automação "${rule.name}". Mensagem recebida: ${String(message.content || '').slice(0, 500)}`,
+        assigned_by_id: assignee,
+        assigned_to_id: assignee,
+        due_date: new Date(Date.now() + rule.task_due_hours * 60 * 60 * 1000).toISOString(),
+        priority: 'medium',
+        status: 'pending',
+        related_lead_id: lead.id,
+      }).select('id').single();
+      if (error) throw new Error(error.message);
+      result.task_id = task.id;
+    } catch (e) {
+      errors.push(`Tarefa: ${e.message}`);
+    }
+  }
+
+  await adminClient.from('whatsapp_automation_runs')
+    .update({ ...result, status: errors.length ? 'failed' : 'done', error: errors.join(' | ') || null })
+    .eq('id', runId);
+}
+
+// Evaluates the active rules, in order, for an incoming message; a rule within its cooldown for the lead is skipped
+async function runWhatsappAutomations(adminClient: SupabaseClient, leadId: number, message: IncomingMessage) {
+  const { data: rules, error } = await adminClient.from('whatsapp_automation_rules').select('*')
+    .eq('active', true).order('position').order('id');
+  if (error) throw new Error(`DB error listing automation rules: ${error.message}`);
+  if (!rules?.length) return;
+  const { data: lead } = await adminClient.from('leads').select('id, name, email, phone, state, campaign, source, tags, owner_id')
+    .eq('id', leadId).is('deleted_at', null).maybeSingle();
+  if (!lead) return;
+
+  for (const rule of rules) {
+    try {
+      if (!(await automationRuleMatches(adminClient, rule, leadId, message))) continue;
+      const { data: runId, error: claimError } = await adminClient.rpc('claim_whatsapp_automation_run', {
+        p_rule_id: rule.id, p_lead_id: leadId, p_message_id: message.id,
+      });
+      if (claimError) throw new Error(`DB error claiming automation run: ${claimError.message}`);
+      if (!runId) continue; // cooldown
+      await executeAutomationRule(adminClient, rule, lead, message, runId);
+      if (rule.tag && !(lead.tags || []).includes(rule.tag)) lead.tags = [...(lead.tags || []), rule.tag];
+    } catch (e) {
+      console.error(`Erro na automação ${rule.id} para o lead ${leadId}:`, e.message);
+    }
+  }
+}
+
+// The webhook answers right away; rules run in the background
+function runWhatsappAutomationsInBackground(adminClient: SupabaseClient, leadId: number, message: IncomingMessage) {
+  EdgeRuntime.waitUntil(runWhatsappAutomations(adminClient, leadId, message).catch(e =>
+    console.error("Erro ao executar automações do WhatsApp:", e.message)));
+}
+
 // --- Main Handler ---
 Deno.serve(async (req: Request) => {
   const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
   };
 
   // Handle CORS preflight requests
@@ -239,16 +1035,24 @@ Deno.serve(async (req: Request) => {
   // --- Webhook Handling (NO AUTH for Meta verification, message intake needs validation if not from trusted source) ---
   if (mainAction === 'webhook') {
     if (req.method === 'POST') {
+      const rawBody = await req.text();
+      if (!(await isWebhookAuthorized(req, url, rawBody))) {
+        console.warn("Webhook POST rejeitado: assinatura ou segredo inválido.");
+        return new Response(JSON.stringify({ error: "Assinatura do webhook inválida." }), { status: 401, headers });
+      }
       try {
-        const payload = await req.json();
-        console.log('Webhook POST recebido:', JSON.stringify(payload, null, 2));
-        // Example: Meta/Facebook Webhook for incoming messages
-        if (payload?.object === 'whatsapp_business_account' && payload?.entry?.[0]?.changes?.[0]?.value?.messages?.[0]) {
+        const payload = JSON.parse(rawBody);
+        if (payload?.event) {
+            await handleEvolutionEvent(adminClient, payload);
+        } else if (payload?.object === 'whatsapp_business_account' && payload?.entry?.[0]?.changes?.[0]?.value?.messages?.[0]) {
+            // Meta Cloud API, text messages only
             const message = payload.entry[0].changes[0].value.messages[0];
-            if (message.from && message.id && message.type === 'text') { // Handle only text messages for now
-                const lead = await findLeadByPhone(adminClient, message.from);
+            if (message.from && message.id && message.type === 'text') {
+                const profileName = payload.entry[0].changes[0].value.contacts?.[0]?.profile?.name;
+                const lead = await findLeadByPhone(adminClient, message.from)
+                    ?? await createInboundLead(adminClient, message.from, profileName, message.text.body);
                 if (lead) {
-                    await createWhatsappMessageInDb(adminClient, {
+                    const stored = await createWhatsappMessageInDb(adminClient, {
                         lead_id: lead.id,
                         direction: 'incoming',
                         content: message.text.body,
@@ -256,41 +1060,19 @@ Deno.serve(async (req: Request) => {
                         message_id: message.id, // Store Meta's message ID
                         media_type: 'text'
                     });
+                    runWhatsappAutomationsInBackground(adminClient, lead.id, stored);
                 } else {
                     console.warn(`Webhook: Lead não encontrado para o número ${message.from}`);
                 }
             }
-            // TODO: Add handling for other incoming message types (media, location, etc.)
         } else if (payload?.entry?.[0]?.changes?.[0]?.value?.statuses?.[0]) {
             // Handle message status updates from Meta
             const statusUpdate = payload.entry[0].changes[0].value.statuses[0];
-            const wamid = statusUpdate.id; // WhatsApp Message ID
             const newStatus = statusUpdate.status as WhatsappMessage['status']; // sent, delivered, read, failed
-            const timestamp = statusUpdate.timestamp; // Unix timestamp
-            const recipientPhone = statusUpdate.recipient_id; // User's phone
-
-            console.log(`Webhook: Status update received for WAMID ${wamid}: ${newStatus} for ${recipientPhone} at ${new Date(parseInt(timestamp) * 1000).toISOString()}`);
-
-            if (wamid && newStatus && ['sent', 'delivered', 'read', 'failed'].includes(newStatus)) {
-                const dbMessage = await getWhatsappMessageByApiId(adminClient, wamid);
-                if (dbMessage) {
-                    // Prevent overwriting a "read" status with "delivered", for example.
-                    const statusOrder = { pending: 0, sent: 1, delivered: 2, read: 3, failed: 4, received: 5 };
-                    const currentStatusOrder = statusOrder[dbMessage.status] ?? -1;
-                    const newStatusOrder = statusOrder[newStatus] ?? -1;
-
-                    if (newStatusOrder > currentStatusOrder || newStatus === 'failed') { // Always update if failed or new status is "later"
-                        await updateWhatsappMessageStatusInDb(adminClient, dbMessage.id!, newStatus, statusUpdate.errors?.[0]?.message);
-                        console.log(`Webhook: Updated DB message ID ${dbMessage.id} (WAMID ${wamid}) to status ${newStatus}`);
-                    } else {
-                        console.log(`Webhook: Skipped updating status for WAMID ${wamid}. Current: ${dbMessage.status}, New: ${newStatus}`);
-                    }
-                } else {
-                    console.warn(`Webhook: Message with WAMID ${wamid} not found in DB for status update.`);
-                }
+            if (statusUpdate.id && ['sent', 'delivered', 'read', 'failed'].includes(newStatus)) {
+                await applyMessageStatusUpdate(adminClient, statusUpdate.id, newStatus, statusUpdate.errors?.[0]?.message);
             }
         }
-        // TODO: Add specific Evolution API webhook event processing here if applicable.
         return new Response('EVENT_RECEIVED', { status: 200 });
       } catch (e) {
         console.error("Erro ao processar webhook POST:", e.message, e.stack);
@@ -311,6 +1093,15 @@ Deno.serve(async (req: Request) => {
     return new Response(JSON.stringify({ error: "Método não permitido para webhook." }), { status: 405, headers });
   }
 
+  // --- Broadcast queue runner (no user auth: scheduled calls and hand-overs present the webhook secret) ---
+  if (mainAction === 'broadcasts' && param1 === 'process' && req.method === 'POST') {
+    if (!(await isWebhookAuthorized(req, url, ''))) {
+      return new Response(JSON.stringify({ error: "Segredo inválido." }), { status: 401, headers });
+    }
+    runBroadcastQueue(adminClient);
+    return new Response(JSON.stringify({ data: { started: true } }), { status: 202, headers });
+  }
+
   // --- Authenticated Routes Below ---
   const { data: { user: callingUser }, error: authError } = await userAuthClient.auth.getUser();
   if (authError || !callingUser) {
@@ -322,35 +1113,193 @@ Deno.serve(async (req: Request) => {
 
 
   try {
-    const evolutionConfig = await getWhatsappConfigFromDb(adminClient); // Fetch current config
-
     // --- Configuration Management (Admin Only) ---
+    // Handled before loading the config, so the first one can be saved
     if (mainAction === 'config') {
       if (callingUserRole !== 'admin') {
         return new Response(JSON.stringify({ error: "Acesso negado. Somente administradores." }), { status: 403, headers });
       }
       if (req.method === 'GET') {
-        return new Response(JSON.stringify({ data: evolutionConfig }), { headers, status: 200 });
+        return new Response(JSON.stringify({ data: await getWhatsappConfigSummary(adminClient) }), { headers, status: 200 });
       }
       if (req.method === 'POST') {
         const body = await req.json();
-        const validationResult = whatsappConfigSchema.safeParse(body);
+        const validationResult = saveWhatsappConfigSchema.safeParse(body);
         if (!validationResult.success) {
           return new Response(JSON.stringify({ error: "Dados de configuração inválidos.", details: validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ') }), { status: 400, headers });
         }
-        const newConfig = await saveWhatsappConfigToDb(adminClient, validationResult.data);
-        return new Response(JSON.stringify({ data: newConfig }), { headers, status: 200 });
+        const { api_url, api_instance } = validationResult.data;
+        let api_token = validationResult.data.api_token;
+        if (!api_token) {
+          api_token = await getWhatsappConfigFromDb(adminClient).then(config => config.api_token).catch(() => undefined);
+          if (!api_token) return new Response(JSON.stringify({ error: "Token da API é obrigatório." }), { status: 400, headers });
+        }
+        await saveWhatsappConfigToDb(adminClient, { api_url, api_token, api_instance });
+        return new Response(JSON.stringify({ data: await getWhatsappConfigSummary(adminClient) }), { headers, status: 200 });
+      }
+    }
+
+    // --- Leads from unknown numbers (Admin Only) ---
+    if (mainAction === 'inbound-settings') {
+      if (callingUserRole !== 'admin') {
+        return new Response(JSON.stringify({ error: "Acesso negado. Somente administradores." }), { status: 403, headers });
+      }
+      if (req.method === 'GET') {
+        return new Response(JSON.stringify({ data: await getInboundSettings(adminClient) }), { headers, status: 200 });
+      }
+      if (req.method === 'PUT') {
+        const validationResult = inboundSettingsSchema.safeParse(await req.json());
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({ error: "Configuração inválida.", details: validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ') }), { status: 400, headers });
+        }
+        const { data, error } = await adminClient.from('whatsapp_inbound_settings')
+          .update({ ...validationResult.data, updated_by: callingUser.id, updated_at: new Date().toISOString() })
+          .eq('id', 1).select().single();
+        if (error) throw new Error(`DB error saving inbound settings: ${error.message}`);
+        return new Response(JSON.stringify({ data }), { headers, status: 200 });
+      }
+    }
+
+    // --- Template Library (changes: Admin Only) ---
+    if (mainAction === 'templates') {
+      const templateId = param1 ? parseInt(param1) : null;
+      if (param1 && isNaN(templateId!)) return new Response(JSON.stringify({ error: "ID do template inválido." }), { status: 400, headers });
+      if (req.method === 'GET' && !templateId) {
+        let query = adminClient.from('whatsapp_templates').select('*').order('category').order('display_name');
+        if (url.searchParams.get('active') === 'true') query = query.eq('active', true);
+        const { data, error } = await query;
+        if (error) throw new Error(`DB error listing templates: ${error.message}`);
+        return new Response(JSON.stringify({ data: data || [] }), { headers, status: 200 });
+      }
+      if (callingUserRole !== 'admin') {
+        return new Response(JSON.stringify({ error: "Acesso negado. Somente administradores." }), { status: 403, headers });
+      }
+      if (req.method === 'DELETE' && templateId) {
+        const { error } = await adminClient.from('whatsapp_templates').delete().eq('id', templateId);
+        if (error) throw new Error(`DB error deleting template: ${error.message}`);
+        return new Response(null, { headers, status: 204 });
+      }
+      if ((req.method === 'POST' && !templateId) || (req.method === 'PUT' && templateId)) {
+        const validation = templateSchema.safeParse(await req.json());
+        if (!validation.success) {
+          return new Response(JSON.stringify({ error: "Dados do template inválidos.", details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ') }), { status: 400, headers });
+        }
+        const values = { ...validation.data, header_content: validation.data.header_type === 'none' ? null : validation.data.header_content };
+        const { data, error } = templateId
+          ? await adminClient.from('whatsapp_templates').update({ ...values, updated_at: new Date().toISOString() }).eq('id', templateId).select().maybeSingle()
+          : await adminClient.from('whatsapp_templates').insert({ ...values, created_by: callingUser.id }).select().single();
+        if (error?.code === '23505') {
+          return new Response(JSON.stringify({ error: "Já existe um template com esse nome e idioma." }), { status: 409, headers });
+        }
+        if (error) throw new Error(`DB error saving template: ${error.message}`);
+        if (!data) return new Response(JSON.stringify({ error: "Template não encontrado." }), { status: 404, headers });
+        return new Response(JSON.stringify({ data }), { headers, status: templateId ? 200 : 201 });
       }
     }
 
+    // --- Automation Rules and Business Hours (changes: Admin Only) ---
+    if (mainAction === 'automations') {
+      if (param1 === 'business-hours') {
+        if (req.method === 'GET') {
+          const { data, error } = await adminClient.from('whatsapp_business_hours').select('weekday, start_time, end_time').order('weekday').order('start_time');
+          if (error) throw new Error(`DB error listing business hours: ${error.message}`);
+          return new Response(JSON.stringify({ data: data || [] }), { headers, status: 200 });
+        }
+        if (req.method === 'PUT') {
+          if (callingUserRole !== 'admin') {
+            return new Response(JSON.stringify({ error: "Acesso negado. Somente administradores." }), { status: 403, headers });
+          }
+          const validation = businessHoursSchema.safeParse(await req.json());
+          if (!validation.success) {
+            return new Response(JSON.stringify({ error: "Horário de atendimento inválido.", details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ') }), { status: 400, headers });
+          }
+          // Delete and insert run in one transaction (migration 0032)
+          const { error } = await adminClient.rpc('replace_whatsapp_business_hours', { p_slots: validation.data.slots });
+          if (error) throw new Error(`DB error saving business hours: ${error.message}`);
+          return new Response(JSON.stringify({ data: validation.data.slots }), { headers, status: 200 });
+        }
+      }
+
+      // Latest runs, newest first, optionally of one rule
+      if (param1 === 'runs' && req.method === 'GET') {
+        let query = adminClient.from('whatsapp_automation_runs')
+          .select('*, rule:whatsapp_automation_rules(name), lead:leads(name)')
+          .order('created_at', { ascending: false }).limit(100);
+        const ruleId = parseInt(url.searchParams.get('rule_id') || '');
+        if (!isNaN(ruleId)) query = query.eq('rule_id', ruleId);
+        const { data, error } = await query;
+        if (error) throw new Error(`DB error listing automation runs: ${error.message}`);
+        return new Response(JSON.stringify({ data: data || [] }), { headers, status: 200 });
+      }
+
+      const ruleId = param1 ? parseInt(param1) : null;
+      if (param1 && isNaN(ruleId!)) return new Response(JSON.stringify({ error: "ID da regra inválido." }), { status: 400, headers });
+      if (req.method === 'GET' && !ruleId) {
+        const { data, error } = await adminClient.from('whatsapp_automation_rules')
+          .select('*, template:whatsapp_templates(display_name, active)').order('position').order('id');
+        if (error) throw new Error(`DB error listing automation rules: ${error.message}`);
+        return new Response(JSON.stringify({ data: data || [] }), { headers, status: 200 });
+      }
+      if (callingUserRole !== 'admin') {
+        return new Response(JSON.stringify({ error: "Acesso negado. Somente administradores." }), { status: 403, headers });
+      }
+      if (req.method === 'DELETE' && ruleId) {
+        const { error } = await adminClient.from('whatsapp_automation_rules').delete().eq('id', ruleId);
+        if (error) throw new Error(`DB error deleting automation rule: ${error.message}`);
+        return new Response(null, { headers, status: 204 });
+      }
+      if ((req.method === 'POST' && !ruleId) || (req.method === 'PUT' && ruleId)) {
+        const validation = automationRuleSchema.safeParse(await req.json());
+        if (!validation.success) {
+          return new Response(JSON.stringify({ error: "Dados da regra inválidos.", details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ') }), { status: 400, headers });
+        }
+        // Greetings and the after-hours reply have no trigger text
+        const values = { ...validation.data, trigger_value: ['keyword', 'regex'].includes(validation.data.trigger_type) ? validation.data.trigger_value : '' };
+        const { data, error } = ruleId
+          ? await adminClient.from('whatsapp_automation_rules').update({ ...values, updated_at: new Date().toISOString() }).eq('id', ruleId).select().maybeSingle()
+          : await adminClient.from('whatsapp_automation_rules').insert({ ...values, created_by: callingUser.id }).select().single();
+        if (error?.code === '23503') {
+          return new Response(JSON.stringify({ error: "Template ou responsável da tarefa não encontrado." }), { status: 400, headers });
+        }
+        if (error) throw new Error(`DB error saving automation rule: ${error.message}`);
+        if (!data) return new Response(JSON.stringify({ error: "Regra não encontrada." }), { status: 404, headers });
+        return new Response(JSON.stringify({ data }), { headers, status: ruleId ? 200 : 201 });
+      }
+    }
+
+    const evolutionConfig = await getWhatsappConfigFromDb(adminClient).catch(() => null);
+
     // --- Evolution API Instance Status & QR Code ---
+    // Always 200: the page shows the connection problem instead of failing the request
     if (mainAction === 'status' && req.method === 'GET') {
+        if (!evolutionConfig) {
+            return new Response(JSON.stringify({ data: { status: 'error', message: "WhatsApp não configurado." } }), { headers, status: 200 });
+        }
         const result = await makeEvolutionRequest(evolutionConfig, `/instance/connectionState/{instance}`);
-        return new Response(JSON.stringify(result), { headers, status: result.statusCode || (result.success ? 200 : 503) });
+        const state = result.data?.instance?.state ?? result.data?.state ?? null;
+        const status = !result.success ? 'error' : state === 'open' ? 'connected' : 'disconnected';
+        // Last connection.update received by the webhook
+        const { data: lastEvent } = await adminClient.from('whatsapp_settings').select('connection_state, connection_updated_at').order('updated_at', { ascending: false }).limit(1).maybeSingle();
+        return new Response(JSON.stringify({ data: {
+            status,
+            message: result.success ? (status === 'connected' ? "Conectado." : "WhatsApp desconectado.") : result.error,
+            details: {
+                name: evolutionConfig.api_instance,
+                state,
+                webhook_state: lastEvent?.connection_state ?? null,
+                webhook_state_at: lastEvent?.connection_updated_at ?? null,
+            },
+        } }), { headers, status: 200 });
+    }
+
+    if (!evolutionConfig) {
+        return new Response(JSON.stringify({ error: "Configuração da API WhatsApp não encontrada." }), { status: 503, headers });
     }
+
     if (mainAction === 'qrcode' && req.method === 'GET') { // Or connect for QR
         const result = await makeEvolutionRequest(evolutionConfig, `/instance/connect/{instance}`); // This endpoint often provides QR if not connected
-        return new Response(JSON.stringify(result.data || {error: result.error}), { headers, status: result.statusCode || (result.success ? 200 : 400 ) });
+        if (!result.success) return new Response(JSON.stringify({ error: result.error }), { headers, status: result.statusCode || 400 });
+        return new Response(JSON.stringify({ data: { qrcode: result.data?.base64 ?? null, pairing_code: result.data?.pairingCode ?? null } }), { headers, status: 200 });
     }
 
     // --- Send Messages ---
@@ -377,7 +1326,80 @@ Deno.serve(async (req: Request) => {
         } else {
             await updateWhatsappMessageStatusInDb(adminClient, dbMsg.id!, 'failed', result.error || JSON.stringify(result.data));
         }
-        return new Response(JSON.stringify({data: result.data, dbMessageId: dbMsg.id, status: result.success ? 'Enviado' : 'Falhou'}), { headers, status: result.success ? 201 : 400 });
+        return new Response(JSON.stringify({data: result.data, dbMessageId: dbMsg.id, status: result.success ? 'Enviado' : 'Falhou', error: result.success ? undefined : result.error}), { headers, status: result.success ? 201 : 400 });
+    }
+
+    // --- Send Media (multipart: file, lead_id, caption?, thumbnail?) ---
+    // The file goes to the whatsapp-media bucket and Evolution downloads it through a short-lived signed URL
+    if (mainAction === 'send-media' && req.method === 'POST') {
+        const mediaType = param1 as SendMediaType;
+        const rules = SEND_MEDIA_RULES[mediaType];
+        if (!rules) return new Response(JSON.stringify({ error: "Tipo de mídia inválido. Use image, video, audio ou document." }), { status: 400, headers });
+        const form = await req.formData().catch(() => null);
+        if (!form) return new Response(JSON.stringify({ error: "Envie o arquivo como multipart/form-data." }), { status: 400, headers });
+
+        const validation = sendMediaSchema.safeParse({ lead_id: form.get('lead_id'), caption: form.get('caption') ?? undefined });
+        if (!validation.success) {
+            return new Response(JSON.stringify({ error: "Dados de envio de mídia inválidos.", details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ') }), { status: 400, headers });
+        }
+        const { lead_id, caption } = validation.data;
+        const file = form.get('file');
+        if (!(file instanceof File) || file.size === 0) return new Response(JSON.stringify({ error: "Arquivo obrigatório." }), { status: 400, headers });
+        const mimetype = file.type.split(';')[0].trim();
+        if (!(rules.mimetypes as readonly string[]).includes(mimetype)) {
+            return new Response(JSON.stringify({ error: `Tipo de arquivo não permitido (${mimetype || 'desconhecido'}).`, details: `Aceitos: ${rules.mimetypes.join(', ')}` }), { status: 400, headers });
+        }
+        if (file.size > rules.maxMb * 1024 * 1024) {
+            return new Response(JSON.stringify({ error: `Arquivo maior que o limite de ${rules.maxMb} MB.` }), { status: 413, headers });
+        }
+        if (!(await matchesMediaSignature(file, mimetype))) {
+            return new Response(JSON.stringify({ error: `O conteúdo do arquivo não corresponde ao tipo ${mimetype}.` }), { status: 400, headers });
+        }
+
+        const lead = await findLeadById(adminClient, lead_id);
+        if (!lead) return new Response(JSON.stringify({ error: "Lead não encontrado." }), { status: 404, headers });
+        const phone = formatPhoneNumberForApi(lead.phone);
+        if (!phone) return new Response(JSON.stringify({ error: "Número de telefone do lead inválido ou não formatado." }), { status: 400, headers });
+
+        const bucket = adminClient.storage.from(WHATSAPP_MEDIA_BUCKET);
+        const stem = `leads/${lead_id}/${crypto.randomUUID()}`;
+        const mediaPath = `${stem}.${MEDIA_EXTENSIONS[mimetype] || file.name.split('.').pop()?.toLowerCase() || 'bin'}`;
+        const { error: uploadError } = await bucket.upload(mediaPath, file, { contentType: mimetype });
+        if (uploadError) throw new Error(`Storage error uploading media: ${uploadError.message}`);
+
+        // Previews come from the browser; anything that isn't a small JPEG is ignored
+        const thumbnail = form.get('thumbnail');
+        let thumbnailPath: string | null = null;
+        if ((mediaType === 'image' || mediaType === 'video') && thumbnail instanceof File && thumbnail.type === 'image/jpeg' && thumbnail.size <= THUMBNAIL_MAX_BYTES
+            && await matchesMediaSignature(thumbnail, 'image/jpeg')) {
+            const { error } = await bucket.upload(`${stem}_thumb.jpg`, thumbnail, { contentType: 'image/jpeg' });
+            if (!error) thumbnailPath = `${stem}_thumb.jpg`;
+        }
+        const { data: signed, error: signError } = await bucket.createSignedUrl(mediaPath, 10 * 60);
+        if (signError || !signed) throw new Error(`Storage error signing media: ${signError?.message}`);
+
+        const dbMsg = await createWhatsappMessageInDb(adminClient, {
+            lead_id, direction: 'outgoing', status: 'pending',
+            content: caption || (mediaType === 'document' ? file.name : rules.placeholder),
+            media_type: mediaType, media_path: mediaPath, media_mime_type: mimetype, thumbnail_path: thumbnailPath,
+            metadata: mediaType === 'document' ? { fileName: file.name } : null,
+        });
+        const result = mediaType === 'audio'
+            ? await makeEvolutionRequest(evolutionConfig, `/message/sendWhatsAppAudio/{instance}`, 'POST', {
+                number: phone, options: { delay: 1200, presence: "recording", encoding: true }, audioMessage: { audio: signed.signedUrl },
+            })
+            : await makeEvolutionRequest(evolutionConfig, `/message/sendMedia/{instance}`, 'POST', {
+                number: phone, options: { delay: 1200, presence: "composing" },
+                mediaMessage: { mediatype: mediaType, caption, media: signed.signedUrl, fileName: file.name },
+            });
+
+        if (result.success && result.data?.key?.id) {
+            await updateWhatsappMessageApiIdInDb(adminClient, dbMsg.id!, result.data.key.id);
+            await updateWhatsappMessageStatusInDb(adminClient, dbMsg.id!, 'sent');
+        } else {
+            await updateWhatsappMessageStatusInDb(adminClient, dbMsg.id!, 'failed', result.error || JSON.stringify(result.data));
+        }
+        return new Response(JSON.stringify({data: result.data, dbMessageId: dbMsg.id, status: result.success ? 'Enviado' : 'Falhou', error: result.success ? undefined : result.error}), { headers, status: result.success ? 201 : 400 });
     }
 
     // --- Send Template Message ---
@@ -387,83 +1409,208 @@ Deno.serve(async (req: Request) => {
         if (!validation.success) {
             return new Response(JSON.stringify({ error: "Dados de envio de template inválidos.", details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ') }), { status: 400, headers });
         }
-        const { lead_id, template_name, language_code, body_params, header_params, header_media_url, header_media_type, buttons_params } = validation.data;
+        const { lead_id, template_id, ...template } = validation.data;
 
         const lead = await findLeadById(adminClient, lead_id);
         if (!lead) return new Response(JSON.stringify({ error: "Lead não encontrado." }), { status: 404, headers });
         const phone = formatPhoneNumberForApi(lead.phone);
         if (!phone) return new Response(JSON.stringify({ error: "Número de telefone do lead inválido." }), { status: 400, headers });
 
-        // Construct the payload for Evolution API's sendTemplate endpoint
-        // This payload structure is an assumption and might need adjustment based on actual Evolution API docs
-        const evolutionPayload: any = {
-            number: phone,
-            name: template_name, // Evolution API might use 'name' for templateName
-            language: { code: language_code, policy: "deterministic" },
-            components: []
-        };
-
-        // Header Component (if any)
-        if (header_media_url && header_media_type) {
-            evolutionPayload.components.push({
-                type: "header",
-                parameters: [{ type: header_media_type.toLowerCase(), [header_media_type.toLowerCase()]: { link: header_media_url } }]
-            });
-        } else if (header_text_content) { // Assuming header_text_content for text headers
-             evolutionPayload.components.push({
-                type: "header",
-                parameters: [{ type: "text", text: header_text_content }]
-            });
-        } else if (header_params && header_params.length > 0) { // Simpler text header vars
-            evolutionPayload.components.push({
-                type: "header",
-                parameters: header_params.map(p => ({ type: "text", text: p }))
-            });
+        let message = template as TemplateMessage;
+        let content: string | undefined;
+        if (template_id) {
+            const stored = await getTemplateById(adminClient, template_id);
+            if (!stored?.active) return new Response(JSON.stringify({ error: "Template indisponível: foi excluído ou desativado." }), { status: 404, headers });
+            ({ message, content } = buildTemplateMessage(stored, lead));
         }
+        const { dbMsg, result } = await sendTemplateToLead(adminClient, evolutionConfig, lead_id, phone, message, content);
+        return new Response(JSON.stringify({ data: result.data, dbMessageId: dbMsg.id, status: result.success ? 'Template Enviado' : 'Falha no Envio do Template', error: result.success ? undefined : result.error }), { headers, status: result.success ? 201 : 400 });
+    }
 
+    // --- Broadcast Campaigns ---
+    if (mainAction === 'broadcasts') {
+        const broadcastId = param1 ? parseInt(param1) : null;
+        if (param1 && isNaN(broadcastId!)) return new Response(JSON.stringify({ error: "ID da campanha inválido." }), { status: 400, headers });
+        if (req.method !== 'GET' && !BROADCAST_MANAGER_ROLES.includes(callingUserRole)) {
+            return new Response(JSON.stringify({ error: "Acesso negado. Somente administradores e marketing." }), { status: 403, headers });
+        }
+        const broadcastColumns = '*, creator:profiles(username, full_name)';
 
-        // Body Component (if params exist)
-        if (body_params && body_params.length > 0) {
-            evolutionPayload.components.push({
-                type: "body",
-                parameters: body_params.map(param => ({ type: "text", text: param }))
-            });
+        // GET /broadcasts: latest campaigns with their counts
+        if (req.method === 'GET' && !broadcastId) {
+            const { data, error } = await adminClient.from('whatsapp_broadcasts').select(broadcastColumns)
+                .order('created_at', { ascending: false }).limit(50);
+            if (error) throw new Error(`DB error listing broadcasts: ${error.message}`);
+            return new Response(JSON.stringify({ data: await withBroadcastStats(adminClient, data || []) }), { headers, status: 200 });
         }
 
-        // Buttons Component (if any - example for quick replies)
-        if (buttons_params && buttons_params.length > 0) {
-            evolutionPayload.components.push({
-                type: "button",
-                sub_type: "quick_reply", // This can vary: "url", "call"
-                index: "0", // index of the button if multiple quick reply buttons are defined in the template
-                parameters: buttons_params.map(btn => ({ type: "payload", payload: btn.payload })) // or type: "text" for URL buttons
-            });
+        // GET /broadcasts/:id: counts plus every recipient with the status of its message
+        if (req.method === 'GET' && broadcastId && !param2) {
+            const { data: broadcast, error } = await adminClient.from('whatsapp_broadcasts').select(broadcastColumns).eq('id', broadcastId).maybeSingle();
+            if (error) throw new Error(`DB error fetching broadcast: ${error.message}`);
+            if (!broadcast) return new Response(JSON.stringify({ error: "Campanha não encontrada." }), { status: 404, headers });
+            const { data: recipients, error: recipientsError } = await adminClient.from('whatsapp_broadcast_recipients')
+                .select('id, lead_id, status, error, processed_at, lead:leads(name, phone), message:whatsapp_messages(status, error_message)')
+                .eq('broadcast_id', broadcastId).order('id').limit(5000);
+            if (recipientsError) throw new Error(`DB error fetching broadcast recipients: ${recipientsError.message}`);
+            const [withStats] = await withBroadcastStats(adminClient, [broadcast]);
+            return new Response(JSON.stringify({ data: { ...withStats, recipients: recipients || [] } }), { headers, status: 200 });
         }
 
-        // Log the message in DB (content can be the template name + params for reference)
-        const dbContent = `Template: ${template_name} | Params: ${JSON.stringify(body_params)}`;
-        const dbMsg = await createWhatsappMessageInDb(adminClient, { lead_id, direction: 'outgoing', content: dbContent, status: 'pending', media_type: 'template' });
+        // POST /broadcasts: queues the campaign; leads without a usable phone are skipped right away
+        if (req.method === 'POST' && !broadcastId) {
+            const validation = createBroadcastSchema.safeParse(await req.json());
+            if (!validation.success) {
+                return new Response(JSON.stringify({ error: "Dados da campanha inválidos.", details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ') }), { status: 400, headers });
+            }
+            const { lead_ids, ...campaign } = validation.data;
+            const { data: leads, error: leadsError } = await adminClient.from('leads').select('id, phone').in('id', [...new Set(lead_ids)]).is('deleted_at', null);
+            if (leadsError) throw new Error(`DB error fetching broadcast leads: ${leadsError.message}`);
+            if (!leads?.length) return new Response(JSON.stringify({ error: "Nenhum dos leads selecionados foi encontrado." }), { status: 400, headers });
 
-        // Make the request to Evolution API
-        // The endpoint /message/sendTemplate is a common convention, adjust if different for your Evolution API version
-        const result = await makeEvolutionRequest(evolutionConfig, `/message/sendTemplate/{instance}`, 'POST', evolutionPayload);
+            const { data: broadcast, error } = await adminClient.from('whatsapp_broadcasts')
+                .insert({ ...campaign, created_by: callingUser.id }).select().single();
+            if (error) throw new Error(`DB error creating broadcast: ${error.message}`);
+            const { error: recipientsError } = await adminClient.from('whatsapp_broadcast_recipients').insert(leads.map(lead => {
+                const hasPhone = !!formatPhoneNumberForApi(lead.phone);
+                return { broadcast_id: broadcast.id, lead_id: lead.id, status: hasPhone ? 'queued' : 'skipped', error: hasPhone ? null : 'Telefone inválido.' };
+            }));
+            if (recipientsError) {
+                await adminClient.from('whatsapp_broadcasts').delete().eq('id', broadcast.id);
+                throw new Error(`DB error queueing broadcast recipients: ${recipientsError.message}`);
+            }
+            runBroadcastQueue(adminClient);
+            const [withStats] = await withBroadcastStats(adminClient, [broadcast]);
+            return new Response(JSON.stringify({ data: withStats }), { headers, status: 201 });
+        }
 
-        if (result.success && result.data?.key?.id) {
-            await updateWhatsappMessageApiIdInDb(adminClient, dbMsg.id!, result.data.key.id);
-            await updateWhatsappMessageStatusInDb(adminClient, dbMsg.id!, 'sent');
-        } else {
-            await updateWhatsappMessageStatusInDb(adminClient, dbMsg.id!, 'failed', result.error || JSON.stringify(result.data));
+        // POST /broadcasts/:id/pause | resume | cancel
+        if (req.method === 'POST' && broadcastId && ['pause', 'resume', 'cancel'].includes(param2)) {
+            const transitions: Record<string, { from: string[]; to: string }> = {
+                pause: { from: ['queued', 'sending'], to: 'paused' },
+                resume: { from: ['paused'], to: 'queued' },
+                cancel: { from: ['queued', 'sending', 'paused'], to: 'cancelled' },
+            };
+            const { from, to } = transitions[param2];
+            const { data: broadcast, error } = await adminClient.from('whatsapp_broadcasts')
+                .update({ status: to, updated_at: new Date().toISOString(), ...(to === 'cancelled' ? { completed_at: new Date().toISOString() } : {}) })
+                .eq('id', broadcastId).in('status', from).select().maybeSingle();
+            if (error) throw new Error(`DB error updating broadcast: ${error.message}`);
+            if (!broadcast) return new Response(JSON.stringify({ error: "Campanha não encontrada ou já encerrada." }), { status: 409, headers });
+            if (to === 'cancelled') {
+                await adminClient.from('whatsapp_broadcast_recipients').update({ status: 'skipped', error: 'Campanha cancelada.' })
+                    .eq('broadcast_id', broadcastId).eq('status', 'queued');
+            }
+            if (to === 'queued') runBroadcastQueue(adminClient);
+            const [withStats] = await withBroadcastStats(adminClient, [broadcast]);
+            return new Response(JSON.stringify({ data: withStats }), { headers, status: 200 });
         }
-        return new Response(JSON.stringify({ data: result.data, dbMessageId: dbMsg.id, status: result.success ? 'Template Enviado' : 'Falha no Envio do Template' }), { headers, status: result.success ? 201 : 400 });
     }
-    // TODO: Add endpoints for other media messages (image, video, document, audio)
 
     // --- Message Management (Fetch, Update Status, Delete) ---
     if (mainAction === 'lead' && param1 && req.method === 'GET') { // Get messages for a specific lead
         const leadIdNum = parseInt(param1);
         if (isNaN(leadIdNum)) return new Response(JSON.stringify({ error: "ID do lead inválido." }), { status: 400, headers });
         const messages = await getWhatsappMessagesForLead(adminClient, leadIdNum);
-        return new Response(JSON.stringify({ data: messages }), { headers, status: 200 });
+        // Latest messages, returned oldest first as the chat shows them
+        return new Response(JSON.stringify({ data: messages.reverse() }), { headers, status: 200 });
+    }
+    if (mainAction === 'recent-messages' && req.method === 'GET') { // Inbox: ?view=mine|unassigned|all&status=open|pending|closed
+        const view = url.searchParams.get('view') || 'all';
+        const status = url.searchParams.get('status') || null;
+        if (!INBOX_VIEWS.includes(view) || (status && !(CONVERSATION_STATUSES as readonly string[]).includes(status))) {
+            return new Response(JSON.stringify({ error: "Filtro de conversas inválido." }), { status: 400, headers });
+        }
+        const search = url.searchParams.get('search')?.trim() || null;
+        const limit = parseInt(url.searchParams.get('limit') || '100');
+        const conversations = await getRecentConversations(adminClient, {
+            userId: callingUser.id, view, status, search, limit: isNaN(limit) ? 100 : limit,
+        });
+        return new Response(JSON.stringify({ data: conversations }), { headers, status: 200 });
+    }
+    if (mainAction === 'inbox-counts' && req.method === 'GET') { // Conversations with unread messages per view
+        const { data, error } = await adminClient.rpc('get_whatsapp_inbox_counts', { p_user: callingUser.id });
+        if (error) throw new Error(`DB error counting conversations: ${error.message}`);
+        return new Response(JSON.stringify({ data: data?.[0] ?? { mine: 0, unassigned: 0, all: 0 } }), { headers, status: 200 });
+    }
+
+    // --- Team Inbox: assignment, status, read state and internal notes ---
+    if (mainAction === 'conversations' && param1) {
+        const leadIdNum = parseInt(param1);
+        if (isNaN(leadIdNum)) return new Response(JSON.stringify({ error: "ID do lead inválido." }), { status: 400, headers });
+        const { data: conversation, error: conversationError } = await adminClient.from('whatsapp_conversations')
+            .select('*').eq('lead_id', leadIdNum).maybeSingle();
+        if (conversationError) throw new Error(`DB error fetching conversation: ${conversationError.message}`);
+
+        // GET /conversations/:leadId/notes
+        if (param2 === 'notes' && req.method === 'GET') {
+            const { data, error } = await adminClient.from('whatsapp_conversation_notes')
+                .select('*, author:profiles(username, full_name)').eq('lead_id', leadIdNum).order('created_at');
+            if (error) throw new Error(`DB error listing notes: ${error.message}`);
+            return new Response(JSON.stringify({ data: data || [] }), { headers, status: 200 });
+        }
+
+        if (!conversation) return new Response(JSON.stringify({ error: "Conversa não encontrada." }), { status: 404, headers });
+
+        // POST /conversations/:leadId/notes: internal note, never sent to the lead
+        if (param2 === 'notes' && req.method === 'POST') {
+            const validation = conversationNoteSchema.safeParse(await req.json());
+            if (!validation.success) {
+                return new Response(JSON.stringify({ error: "Dados inválidos.", details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ') }), { status: 400, headers });
+            }
+            const { data, error } = await adminClient.from('whatsapp_conversation_notes')
+                .insert({ lead_id: leadIdNum, author_id: callingUser.id, content: validation.data.content })
+                .select('*, author:profiles(username, full_name)').single();
+            if (error) throw new Error(`DB error creating note: ${error.message}`);
+            return new Response(JSON.stringify({ data }), { headers, status: 201 });
+        }
+
+        // POST /conversations/:leadId/read
+        if (param2 === 'read' && req.method === 'POST') {
+            const { data, error } = await adminClient.from('whatsapp_conversations')
+                .update({ unread_count: 0, last_read_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+                .eq('lead_id', leadIdNum).select().single();
+            if (error) throw new Error(`DB error marking conversation as read: ${error.message}`);
+            return new Response(JSON.stringify({ data }), { headers, status: 200 });
+        }
+
+        // PATCH /conversations/:leadId { owner_id?, status? }. Admins assign any conversation; other users hand
+        // over their own or take unassigned ones, as with lead owners
+        if (!param2 && req.method === 'PATCH') {
+            const validation = updateConversationSchema.safeParse(await req.json());
+            if (!validation.success) {
+                return new Response(JSON.stringify({ error: "Dados inválidos.", details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ') }), { status: 400, headers });
+            }
+            const { owner_id: ownerId, status } = validation.data;
+            const changes: Record<string, unknown> = { updated_at: new Date().toISOString() };
+            if (status) changes.status = status;
+
+            if (ownerId !== undefined && ownerId !== conversation.owner_id) {
+                const canAssign = callingUserRole === 'admin'
+                    || conversation.owner_id === callingUser.id
+                    || (!conversation.owner_id && ownerId === callingUser.id);
+                if (!canAssign) {
+                    return new Response(JSON.stringify({ error: "Somente administradores podem reatribuir conversas de outros usuários." }), { status: 403, headers });
+                }
+                if (ownerId) {
+                    const { data: owner } = await adminClient.from('profiles').select('id').eq('id', ownerId).eq('active', true).maybeSingle();
+                    if (!owner) return new Response(JSON.stringify({ error: "Responsável não encontrado ou inativo." }), { status: 400, headers });
+                }
+                changes.owner_id = ownerId;
+            }
+
+            const { data, error } = await adminClient.from('whatsapp_conversations').update(changes).eq('lead_id', leadIdNum).select().single();
+            if (error) throw new Error(`DB error updating conversation: ${error.message}`);
+            if ('owner_id' in changes) {
+                const { error: auditError } = await adminClient.from('audit_logs').insert({
+                    event_type: 'whatsapp_conversation_assigned',
+                    user_id: callingUser.id,
+                    details: { leadId: leadIdNum, ownerId, previousOwnerId: conversation.owner_id },
+                });
+                if (auditError) console.error("Audit log error for whatsapp_conversation_assigned:", auditError.message);
+            }
+            return new Response(JSON.stringify({ data }), { headers, status: 200 });
+        }
     }
     // Example: Update message status by its DB ID (e.g., if callback from Evolution updates it)
     // This would typically be an internal or webhook-driven endpoint.
@@ -518,13 +1665,101 @@ Environment Variables Needed:
 - EVOLUTION_API_TOKEN (optional, defaults in code)
 - EVOLUTION_API_INSTANCE (optional, defaults to 'default')
 - WHATSAPP_WEBHOOK_VERIFY_TOKEN (for Meta webhook verification)
+- WHATSAPP_WEBHOOK_SECRET (required by POST /webhook and /broadcasts/process; without it every delivery is rejected)
 
 Database Tables:
 - `leads` (id, name, phone)
-- `whatsapp_messages` (id, leadId, direction, content, status, mediaUrl, mediaType, messageId, timestamp)
+- `whatsapp_messages` (id, leadId, direction, content, status, mediaUrl, mediaType, messageId, errorMessage, timestamp)
 - `whatsapp_settings` (apiUrl, apiToken, apiInstance, updatedAt) - Stores Evolution API config
 - `profiles` (id, role) - For checking admin role
+- `whatsapp_inbound_settings` (single row) - Leads for unknown numbers, see 0027_whatsapp_inbound_leads.sql
+
+The team inbox is `whatsapp_conversations` (owner, status, unread count; kept by triggers on whatsapp_messages)
+and `whatsapp_conversation_notes`; RPCs `get_whatsapp_inbox` and `get_whatsapp_inbox_counts` back `/recent-messages`
+and `/inbox-counts` (0031_whatsapp_inbox.sql). Clients refresh through Realtime changes on whatsapp_conversations.
+Broadcast campaigns use `whatsapp_broadcasts`, `whatsapp_broadcast_recipients` and the RPCs in 0029_whatsapp_broadcasts.sql.
+The template library is `whatsapp_templates` (0030_whatsapp_templates.sql).
+Automations are `whatsapp_automation_rules`, `whatsapp_automation_runs` and `whatsapp_business_hours`, with the RPCs
+`claim_whatsapp_automation_run` (per-lead cooldown), `whatsapp_is_business_hours`, `replace_whatsapp_business_hours`
+and `add_lead_tag` (0032_whatsapp_automations.sql).
+
+Routes (authenticated):
+- GET  /config                 (admin) { api_url, api_instance, has_token, updated_at, source } or null
+- POST /config                 (admin) { api_url, api_token?, api_instance }; api_token omitted keeps the stored one
+- GET  /inbound-settings       (admin) leads created for unknown numbers
+- PUT  /inbound-settings       (admin) { auto_create_leads?, default_source?, ddd_sources?, triage_user_id?, triage_due_hours? }
+- GET  /status                 { status: connected | disconnected | error, message, details: { name, state, webhook_state, webhook_state_at } }
+- GET  /qrcode                 { qrcode (base64 image), pairing_code }
+- POST /send                   { lead_id, content }
+- POST /send-media/:type       multipart { file, lead_id, caption?, thumbnail? }; type image (JPEG, PNG, WebP up to 5 MB),
+                               video (MP4, 3GP up to 16 MB), audio (OGG, MP3, M4A, AAC, AMR up to 16 MB) or
+                               document (PDF up to 20 MB); the first bytes must match the declared type; thumbnail is an
+                               optional JPEG preview (200 KB) for images and videos
+- POST /send-template          { lead_id, template_name, language_code, body_params, ... } or { lead_id, template_id }
+                               (library template: name, language, media header and params filled from the lead)
+- GET  /lead/:id               latest 50 messages of the lead, oldest first, with signed media_url and thumbnail_url
+- GET  /recent-messages        ?view=mine|unassigned|all&status=open|pending|closed&search=&limit=
+                               -> [{ lead: { id, name, phone, email, status }, conversation: { owner_id, owner_name,
+                               status, unread_count } | null, last_message }]; a search ignores view and status
+- GET  /inbox-counts           { mine, unassigned, all }: conversations with unread messages
+- PATCH /conversations/:leadId { owner_id?, status? }; non-admins only take unassigned conversations or hand over their own
+- POST /conversations/:leadId/read    clears the unread count
+- GET  /conversations/:leadId/notes   internal notes, oldest first, with author
+- POST /conversations/:leadId/notes   { content }
+- GET  /broadcasts             latest 50 campaigns with stats { total, queued, sent, delivered, read, failed, skipped }
+- GET  /broadcasts/:id         campaign, stats and recipients (lead, status, message status)
+- GET  /templates              template library, ?active=true for the ones that can be sent
+- POST /templates              (admin) { name, display_name, description?, language_code?, category, header_type?,
+                               header_content?, body, body_params, buttons?, active? }; one body_params entry per {{n}}
+- PUT  /templates/:id          (admin) same body as POST
+- DELETE /templates/:id        (admin)
+- GET  /automations            automation rules in evaluation order, with the template's display_name
+- POST /automations            (admin) { name, trigger_type: keyword | regex | first_contact | outside_hours, trigger_value?,
+                               template_id?, tag?, task_title?, task_assignee_id?, task_due_hours?, cooldown_minutes?,
+                               position?, active? }; at least one action (template, tag or task)
+- PUT  /automations/:id        (admin) same body as POST
+- DELETE /automations/:id      (admin)
+- GET  /automations/runs       latest 100 runs (?rule_id=), with rule and lead names
+- GET  /automations/business-hours   weekly slots [{ weekday (0 = domingo), start_time, end_time }]
+- PUT  /automations/business-hours   (admin) { slots }; replaces every slot, none means always open
+- POST /broadcasts             (admin, marketing) { name, template_id?, template_name, language_code?, body_params?, interval_seconds?, lead_ids }
+                               body_params: [{ type: "field", value: "first_name" } | { type: "text", value: "..." }]
+- POST /broadcasts/:id/pause | resume | cancel   (admin, marketing)
+
+Webhook (no user auth; see isWebhookAuthorized):
+- POST /webhook                Evolution events messages.upsert, messages.update and connection.update
+                               (text, image, audio, video, document, location and contact), or Meta Cloud API
+                               payloads. Media is copied to the private whatsapp-media bucket and /lead/:id
+                               returns it as signed URLs. In Evolution, point the webhook to
+                               $SUPABASE_URL/functions/v1/whatsapp-manager/webhook?secret=$WHATSAPP_WEBHOOK_SECRET
+                               An incoming message from a number no lead matches creates a "WhatsApp Inbound"
+                               lead (name from the profile, state and source from the DDD) with a triage task,
+                               unless auto_create_leads is off.
+                               Every incoming message then runs the active automation rules in the background; a
+                               template they send is stored like any outgoing message, with metadata.automationRuleId.
+- GET  /webhook                Meta verification (hub.challenge)
+- POST /broadcasts/process     Sends due campaign messages for ~50s in the background (202), then hands over to a
+                               new call while campaigns remain. Creating or resuming a campaign starts it; the
+                               whatsapp-broadcasts-process job (0034_scheduled_jobs.sql) also calls it every 5 minutes
+                               with x-webhook-secret, read from the Vault secret whatsapp_webhook_secret.
 
-Assumes an RPC function `get_recent_whatsapp_messages_per_lead` for `/recent-messages` endpoint.
-If not available, that endpoint will return an empty object or error.
+curl -X POST -H "Content-Type: application/json" -H "x-webhook-secret: $WHATSAPP_WEBHOOK_SECRET" \
+  -d '{"event": "messages.upsert", "instance": "default", "data": {"key": {"remoteJid": "5511999998888@s.whatsapp.net", "fromMe": false, "id": "3EB0C431C26A1916E1"}, "pushName": "Ana", "message": {"conversation": "Oi, quero saber dos planos"}, "messageTimestamp": 1760000000}}' \
+  "$SUPABASE_URL/functions/v1/whatsapp-manager/webhook"
+curl -H "Authorization: Bearer $TOKEN" "$SUPABASE_URL/functions/v1/whatsapp-manager/recent-messages?search=ana"
+curl -X PATCH -H "Authorization: Bearer $TOKEN" -H "Content-Type: application/json" \
+  -d '{"owner_id": "00000000-0000-0000-0000-000000000000", "status": "pending"}' \
+  "$SUPABASE_URL/functions/v1/whatsapp-manager/conversations/42"
+curl -X POST -H "Authorization: Bearer $TOKEN" \
+  -F lead_id=42 -F caption="Seu treino" -F file=@treino.pdf \
+  "$SUPABASE_URL/functions/v1/whatsapp-manager/send-media/document"
+curl -X POST -H "Authorization: Bearer $TOKEN" -H "Content-Type: application/json" \
+  -d '{"name": "Black Friday Pink", "template_name": "special_offer", "body_params": [{"type": "field", "value": "first_name"}], "interval_seconds": 30, "lead_ids": [42, 43]}' \
+  "$SUPABASE_URL/functions/v1/whatsapp-manager/broadcasts"
+curl -X PUT -H "Authorization: Bearer $TOKEN" -H "Content-Type: application/json" \
+  -d '{"auto_create_leads": true, "ddd_sources": {"11": "Favale", "21": "Pink"}}' \
+  "$SUPABASE_URL/functions/v1/whatsapp-manager/inbound-settings"
+curl -X POST -H "Authorization: Bearer $TOKEN" -H "Content-Type: application/json" \
+  -d '{"name": "Preços", "trigger_type": "keyword", "trigger_value": "preço, valor, quanto custa", "template_id": 3, "tag": "Interesse em planos", "cooldown_minutes": 1440}' \
+  "$SUPABASE_URL/functions/v1/whatsapp-manager/automations"
 */
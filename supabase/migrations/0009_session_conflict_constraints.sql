@@ -0,0 +1,20 @@
+-- Prevent double-booking of trainers and students at the database level.
+-- The scheduling-functions edge function already checks for overlaps before writing,
+-- these constraints close the race window between two concurrent requests.
+-- Cancelled sessions ('cancelado') do not block the slot.
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_trainer_no_overlap"
+  EXCLUDE USING gist (
+    "trainer_id" WITH =,
+    tsrange("start_time", "end_time", '[)') WITH &&
+  ) WHERE ("status" <> 'cancelado');
+
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_student_no_overlap"
+  EXCLUDE USING gist (
+    "student_id" WITH =,
+    tsrange("start_time", "end_time", '[)') WITH &&
+  ) WHERE ("status" <> 'cancelado');
+
+CREATE INDEX IF NOT EXISTS "session_history_session_id_idx" ON "session_history" ("session_id", "changed_at");
@@ -0,0 +1,53 @@
+-- Recurring session series (weekly packages such as "2x per week for 3 months").
+-- Each generated occurrence is a regular row in "sessions" pointing back to its series.
+
+CREATE TABLE "session_series" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"student_id" integer NOT NULL REFERENCES "students"("id"),
+	"trainer_id" integer NOT NULL REFERENCES "trainers"("id"),
+	"location" text NOT NULL,
+	"source" text NOT NULL,
+	"notes" text,
+	"weekdays" integer[] NOT NULL,
+	"interval_weeks" integer DEFAULT 1 NOT NULL,
+	"start_time" timestamp NOT NULL,
+	"end_time" timestamp NOT NULL,
+	"until_date" date,
+	"occurrence_count" integer,
+	"created_by" uuid REFERENCES "profiles"("id"),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "session_series_end_check" CHECK ("until_date" IS NOT NULL OR "occurrence_count" IS NOT NULL)
+);
+
+ALTER TABLE "sessions" ADD COLUMN "series_id" integer REFERENCES "session_series"("id") ON DELETE SET NULL;
+-- Set when a single occurrence is edited on its own; series-wide edits leave these rows alone
+ALTER TABLE "sessions" ADD COLUMN "series_exception" boolean DEFAULT false NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "sessions_series_id_idx" ON "sessions" ("series_id", "start_time");
+
+-- Days on which recurring sessions are not generated
+CREATE TABLE "holidays" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"date" date NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "holidays_date_unique" UNIQUE("date")
+);
+
+-- Fixed-date national holidays; movable ones (Carnaval, Sexta-feira Santa, Corpus Christi) are added through the API
+INSERT INTO "holidays" ("date", "name")
+SELECT make_date(y, h.month, h.day), h.name
+FROM generate_series(2025, 2027) AS y,
+	(VALUES
+		(1, 1, 'Confraternização Universal'),
+		(4, 21, 'Tiradentes'),
+		(5, 1, 'Dia do Trabalho'),
+		(9, 7, 'Independência do Brasil'),
+		(10, 12, 'Nossa Senhora Aparecida'),
+		(11, 2, 'Finados'),
+		(11, 15, 'Proclamação da República'),
+		(11, 20, 'Dia da Consciência Negra'),
+		(12, 25, 'Natal')
+	) AS h(month, day, name)
+ON CONFLICT ("date") DO NOTHING;
@@ -0,0 +1,39 @@
+-- Two-way Google Calendar sync (see supabase/functions/calendar-sync).
+
+-- Calendar holding the session's event, the Google account that owns it (calendar IDs such as 'primary'
+-- repeat across accounts) and when it was last mirrored; a session changed after "google_synced_at"
+-- has local edits that were not pushed yet
+ALTER TABLE "sessions" ADD COLUMN "google_calendar_id" text;
+ALTER TABLE "sessions" ADD COLUMN "google_token_user_id" uuid;
+ALTER TABLE "sessions" ADD COLUMN "google_synced_at" timestamp;
+CREATE INDEX IF NOT EXISTS "sessions_google_event_idx" ON "sessions" ("google_token_user_id", "google_calendar_id", "google_event_id") WHERE "google_event_id" IS NOT NULL;
+
+-- Google account and calendar used for each trainer, plus the incremental sync token of the last pull
+CREATE TABLE "calendar_sync_state" (
+	"trainer_id" integer PRIMARY KEY NOT NULL REFERENCES "trainers"("id") ON DELETE CASCADE,
+	"calendar_id" text DEFAULT 'primary' NOT NULL,
+	"token_user_id" uuid NOT NULL REFERENCES "google_tokens"("user_id") ON DELETE CASCADE,
+	"sync_token" text,
+	"last_synced_at" timestamp,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- External changes that could not be applied automatically
+CREATE TABLE "calendar_sync_conflicts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" integer NOT NULL REFERENCES "sessions"("id") ON DELETE CASCADE,
+	"trainer_id" integer REFERENCES "trainers"("id") ON DELETE SET NULL,
+	"google_event_id" text NOT NULL,
+	"kind" text NOT NULL, -- both_modified, external_delete, overlap
+	"local_value" jsonb,
+	"remote_value" jsonb,
+	"status" text DEFAULT 'pending' NOT NULL, -- pending, resolved
+	"resolution" text, -- keep_local, accept_remote
+	"resolved_by" uuid REFERENCES "profiles"("id"),
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "calendar_sync_conflicts_status_idx" ON "calendar_sync_conflicts" ("status", "created_at");
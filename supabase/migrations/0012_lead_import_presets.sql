@@ -0,0 +1,10 @@
+-- Column mapping presets for the lead importer (see lead-functions /import-presets).
+-- One preset per file source, e.g. "Planilha Pink" or "Facebook Lead Ads"
+CREATE TABLE "lead_import_presets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"file_source" text NOT NULL UNIQUE,
+	"mapping" jsonb NOT NULL, -- { "<lead field>": "<spreadsheet header>" }
+	"created_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
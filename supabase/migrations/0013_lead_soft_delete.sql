@@ -0,0 +1,23 @@
+-- Batch lead deletion is soft for an undo window (see lead-functions batch/delete and batch/restore).
+-- Leads past the window are purged by lead-functions whenever leads are listed, deleted or restored,
+-- except leads linked to a student record, which stay hidden so the student's history is preserved.
+ALTER TABLE "leads" ADD COLUMN "deleted_at" timestamp;
+ALTER TABLE "leads" ADD COLUMN "deleted_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS "leads_deleted_at_idx" ON "leads" ("deleted_at") WHERE "deleted_at" IS NOT NULL;
+
+-- What a batch delete would hide, counted per lead in SQL (lead-functions batch/impact): selecting the related
+-- rows instead would be cut off by the API row limit for leads with long WhatsApp histories
+CREATE OR REPLACE FUNCTION "lead_delete_impact"(p_lead_ids integer[])
+RETURNS TABLE ("with_tasks" integer, "with_sessions" integer, "with_whatsapp" integer, "students" integer)
+LANGUAGE sql
+STABLE
+AS $$
+	SELECT
+		(SELECT count(DISTINCT "related_lead_id")::integer FROM "tasks" WHERE "related_lead_id" = ANY(p_lead_ids)),
+		(SELECT count(DISTINCT s."lead_id")::integer FROM "students" s
+			WHERE s."lead_id" = ANY(p_lead_ids) AND EXISTS (SELECT 1 FROM "sessions" se WHERE se."student_id" = s."id")),
+		(SELECT count(DISTINCT "lead_id")::integer FROM "whatsapp_messages" WHERE "lead_id" = ANY(p_lead_ids)),
+		(SELECT count(*)::integer FROM "students" WHERE "lead_id" = ANY(p_lead_ids));
+$$;
+
+REVOKE EXECUTE ON FUNCTION "lead_delete_impact"(integer[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,166 @@
+-- Lead-to-student conversion and its reverse (see scheduling-functions POST /students/convert
+-- and POST /students/:id/deactivate). Both run as a single function call so every write commits
+-- or rolls back together: a first session that overlaps another one (0009 constraints) or an
+-- invalid task aborts the whole conversion.
+
+ALTER TABLE "students" ADD COLUMN "plan" text;
+ALTER TABLE "students" ADD COLUMN "deactivated_at" timestamp;
+ALTER TABLE "students" ADD COLUMN "deactivation_reason" text;
+
+-- A lead has at most one student record; converting again reactivates it
+CREATE UNIQUE INDEX IF NOT EXISTS "students_lead_id_unique" ON "students" ("lead_id") WHERE "lead_id" IS NOT NULL;
+
+-- Errors use PostgREST's PTxxx codes so the edge function can answer with the matching HTTP status.
+-- p_student: { address, preferences, plan, source }
+-- p_first_session: null or { startTime, endTime, trainerId, location, notes }
+-- p_tasks: [{ title, description, assignedToId, dueDate, priority }]
+CREATE OR REPLACE FUNCTION "convert_lead_to_student"(
+	p_lead_id integer,
+	p_student jsonb,
+	p_first_session jsonb,
+	p_tasks jsonb,
+	p_user_id uuid
+) RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_lead "leads"%ROWTYPE;
+	v_student "students"%ROWTYPE;
+	v_reactivated boolean := false;
+	v_session "sessions"%ROWTYPE;
+	v_task jsonb;
+	v_task_id integer;
+	v_task_ids integer[] := '{}';
+BEGIN
+	SELECT * INTO v_lead FROM "leads" WHERE "id" = p_lead_id AND "deleted_at" IS NULL FOR UPDATE;
+	IF NOT FOUND THEN
+		RAISE EXCEPTION 'Lead não encontrado.' USING ERRCODE = 'PT404';
+	END IF;
+
+	SELECT * INTO v_student FROM "students" WHERE "lead_id" = p_lead_id FOR UPDATE;
+	IF FOUND AND v_student."active" THEN
+		RAISE EXCEPTION 'Este lead já é um aluno ativo.' USING ERRCODE = 'PT409';
+	END IF;
+
+	IF FOUND THEN
+		v_reactivated := true;
+		UPDATE "students" SET
+			"address" = COALESCE(p_student->>'address', "address"),
+			"preferences" = COALESCE(p_student->>'preferences', "preferences"),
+			"plan" = COALESCE(p_student->>'plan', "plan"),
+			"source" = COALESCE(p_student->>'source', "source"),
+			"active" = true,
+			"deactivated_at" = NULL,
+			"deactivation_reason" = NULL,
+			"updated_at" = now()
+		WHERE "id" = v_student."id"
+		RETURNING * INTO v_student;
+	ELSE
+		INSERT INTO "students" ("lead_id", "address", "preferences", "plan", "source", "active")
+		VALUES (p_lead_id, p_student->>'address', p_student->>'preferences', p_student->>'plan',
+			COALESCE(p_student->>'source', v_lead."source"::text), true)
+		RETURNING * INTO v_student;
+	END IF;
+
+	UPDATE "leads" SET "status" = 'Aluno', "updated_at" = now() WHERE "id" = p_lead_id;
+
+	IF p_first_session IS NOT NULL THEN
+		INSERT INTO "sessions" ("start_time", "end_time", "student_id", "trainer_id", "location", "notes", "status", "source")
+		VALUES (
+			(p_first_session->>'startTime')::timestamp,
+			(p_first_session->>'endTime')::timestamp,
+			v_student."id",
+			(p_first_session->>'trainerId')::integer,
+			p_first_session->>'location',
+			p_first_session->>'notes',
+			'agendado',
+			v_student."source"
+		)
+		RETURNING * INTO v_session;
+
+		INSERT INTO "session_history" ("session_id", "change_type", "user_id", "old_value", "new_value")
+		VALUES (v_session."id", 'created', p_user_id, NULL, to_jsonb(v_session));
+	END IF;
+
+	FOR v_task IN SELECT * FROM jsonb_array_elements(COALESCE(p_tasks, '[]'::jsonb)) LOOP
+		INSERT INTO "tasks" ("title", "description", "assigned_by_id", "assigned_to_id", "due_date", "priority", "status", "related_lead_id")
+		VALUES (
+			v_task->>'title',
+			v_task->>'description',
+			p_user_id,
+			(v_task->>'assignedToId')::uuid,
+			(v_task->>'dueDate')::timestamp,
+			COALESCE(v_task->>'priority', 'medium'),
+			'pending',
+			p_lead_id
+		)
+		RETURNING "id" INTO v_task_id;
+		v_task_ids := v_task_ids || v_task_id;
+	END LOOP;
+
+	RETURN jsonb_build_object(
+		'studentId', v_student."id",
+		'reactivated', v_reactivated,
+		'sessionId', v_session."id",
+		'taskIds', to_jsonb(v_task_ids)
+	);
+END;
+$$;
+
+-- Marks the student inactive, moves the lead to "Ex-Aluno" and optionally cancels upcoming sessions
+CREATE OR REPLACE FUNCTION "deactivate_student"(
+	p_student_id integer,
+	p_reason text,
+	p_cancel_future_sessions boolean,
+	p_user_id uuid
+) RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_student "students"%ROWTYPE;
+	v_session "sessions"%ROWTYPE;
+	v_cancelled_ids integer[] := '{}';
+BEGIN
+	SELECT * INTO v_student FROM "students" WHERE "id" = p_student_id FOR UPDATE;
+	IF NOT FOUND THEN
+		RAISE EXCEPTION 'Aluno não encontrado.' USING ERRCODE = 'PT404';
+	END IF;
+	IF NOT v_student."active" THEN
+		RAISE EXCEPTION 'Este aluno já está inativo.' USING ERRCODE = 'PT409';
+	END IF;
+
+	UPDATE "students" SET
+		"active" = false,
+		"deactivated_at" = now(),
+		"deactivation_reason" = p_reason,
+		"updated_at" = now()
+	WHERE "id" = p_student_id;
+
+	IF v_student."lead_id" IS NOT NULL THEN
+		UPDATE "leads" SET "status" = 'Ex-Aluno', "updated_at" = now() WHERE "id" = v_student."lead_id";
+	END IF;
+
+	IF p_cancel_future_sessions THEN
+		FOR v_session IN
+			UPDATE "sessions" SET "status" = 'cancelado', "updated_at" = now()
+			WHERE "student_id" = p_student_id AND "start_time" > now() AND "status" IN ('agendado', 'remarcado')
+			RETURNING *
+		LOOP
+			INSERT INTO "session_history" ("session_id", "change_type", "user_id", "old_value", "new_value")
+			VALUES (v_session."id", 'cancelled', p_user_id, NULL,
+				jsonb_build_object('status', 'cancelado', 'reason', COALESCE(p_reason, 'Aluno desativado')));
+			v_cancelled_ids := v_cancelled_ids || v_session."id";
+		END LOOP;
+	END IF;
+
+	RETURN jsonb_build_object(
+		'studentId', p_student_id,
+		'leadId', v_student."lead_id",
+		'cancelledSessionIds', to_jsonb(v_cancelled_ids)
+	);
+END;
+$$;
+
+-- Only the edge functions (service role) may call these
+REVOKE EXECUTE ON FUNCTION "convert_lead_to_student"(integer, jsonb, jsonb, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION "deactivate_student"(integer, text, boolean, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,6 @@
+-- Amount charged for each session, used by the session report (scheduling-functions GET /sessions/report).
+-- Sessions created before this column exist without a price and are reported as "sem valor".
+ALTER TABLE "sessions" ADD COLUMN "price" numeric(10, 2);
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_price_check" CHECK ("price" IS NULL OR "price" >= 0);
+
+CREATE INDEX IF NOT EXISTS "sessions_start_time_idx" ON "sessions" ("start_time");
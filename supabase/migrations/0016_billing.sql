@@ -0,0 +1,181 @@
+-- Student billing (see billing-functions): a catalog of session packages, packages sold to students,
+-- and a ledger of charges and payments per student.
+-- Completing a session consumes one credit of the student's package; without a package the
+-- session price (0015) is charged on its own.
+
+CREATE TABLE "billing_packages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"price" numeric(10, 2) NOT NULL CHECK ("price" >= 0),
+	"session_credits" integer NOT NULL CHECK ("session_credits" > 0),
+	"validity_days" integer NOT NULL CHECK ("validity_days" > 0),
+	"source" text, -- "Favale", "Pink" or null for both
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Price and credits are copied from the catalog so later catalog edits don't change past sales
+CREATE TABLE "student_packages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"student_id" integer NOT NULL REFERENCES "students"("id"),
+	"package_id" integer REFERENCES "billing_packages"("id") ON DELETE SET NULL,
+	"name" text NOT NULL,
+	"price" numeric(10, 2) NOT NULL,
+	"credits_total" integer NOT NULL CHECK ("credits_total" > 0),
+	"credits_used" integer DEFAULT 0 NOT NULL,
+	"starts_on" date NOT NULL,
+	"expires_on" date NOT NULL,
+	"cancelled_at" timestamp,
+	"created_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "student_packages_credits_check" CHECK ("credits_used" >= 0 AND "credits_used" <= "credits_total"),
+	CONSTRAINT "student_packages_dates_check" CHECK ("expires_on" >= "starts_on")
+);
+
+CREATE INDEX IF NOT EXISTS "student_packages_student_idx" ON "student_packages" ("student_id", "expires_on");
+
+-- Amounts are always positive; entry_type tells whether it increases (charge) or settles (payment) the balance
+CREATE TABLE "billing_ledger" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"student_id" integer NOT NULL REFERENCES "students"("id"),
+	"entry_type" text NOT NULL CHECK ("entry_type" IN ('charge', 'payment')),
+	"amount" numeric(10, 2) NOT NULL CHECK ("amount" > 0),
+	"description" text NOT NULL,
+	"occurred_on" date DEFAULT CURRENT_DATE NOT NULL,
+	"due_date" date, -- charges only
+	"payment_method" text, -- payments only: pix, cartao, dinheiro, transferencia
+	"student_package_id" integer REFERENCES "student_packages"("id") ON DELETE SET NULL,
+	-- Deferred: a session inserted as "concluído" is charged by its BEFORE INSERT trigger, before the row exists
+	"session_id" integer REFERENCES "sessions"("id") ON DELETE SET NULL DEFERRABLE INITIALLY DEFERRED,
+	"created_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "billing_ledger_student_idx" ON "billing_ledger" ("student_id", "occurred_on");
+CREATE UNIQUE INDEX IF NOT EXISTS "billing_ledger_session_charge_unique" ON "billing_ledger" ("session_id") WHERE "entry_type" = 'charge';
+
+ALTER TABLE "sessions" ADD COLUMN "student_package_id" integer REFERENCES "student_packages"("id") ON DELETE SET NULL;
+
+-- Overdue = charges already past their due date that the payments received so far don't cover
+-- (payments settle the oldest charges first)
+CREATE VIEW "student_balances" AS
+SELECT
+	s."id" AS "student_id",
+	COALESCE(l."total_charged", 0) AS "total_charged",
+	COALESCE(l."total_paid", 0) AS "total_paid",
+	COALESCE(l."total_charged", 0) - COALESCE(l."total_paid", 0) AS "balance",
+	GREATEST(COALESCE(l."charged_past_due", 0) - COALESCE(l."total_paid", 0), 0) AS "overdue_amount",
+	COALESCE(p."credits_remaining", 0) AS "credits_remaining",
+	p."next_expiration"
+FROM "students" s
+LEFT JOIN (
+	SELECT
+		"student_id",
+		SUM("amount") FILTER (WHERE "entry_type" = 'charge') AS "total_charged",
+		SUM("amount") FILTER (WHERE "entry_type" = 'payment') AS "total_paid",
+		SUM("amount") FILTER (WHERE "entry_type" = 'charge' AND "due_date" < CURRENT_DATE) AS "charged_past_due"
+	FROM "billing_ledger"
+	GROUP BY "student_id"
+) l ON l."student_id" = s."id"
+LEFT JOIN (
+	SELECT "student_id", SUM("credits_total" - "credits_used") AS "credits_remaining", MIN("expires_on") AS "next_expiration"
+	FROM "student_packages"
+	WHERE "cancelled_at" IS NULL AND "expires_on" >= CURRENT_DATE AND "credits_used" < "credits_total"
+	GROUP BY "student_id"
+) p ON p."student_id" = s."id";
+
+-- Sells a package: the student package and its charge are created together
+CREATE OR REPLACE FUNCTION "sell_student_package"(
+	p_student_id integer,
+	p_package_id integer,
+	p_starts_on date,
+	p_due_date date,
+	p_user_id uuid
+) RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_package "billing_packages"%ROWTYPE;
+	v_student_package "student_packages"%ROWTYPE;
+	v_charge_id integer;
+BEGIN
+	PERFORM 1 FROM "students" WHERE "id" = p_student_id;
+	IF NOT FOUND THEN
+		RAISE EXCEPTION 'Aluno não encontrado.' USING ERRCODE = 'PT404';
+	END IF;
+
+	SELECT * INTO v_package FROM "billing_packages" WHERE "id" = p_package_id AND "active";
+	IF NOT FOUND THEN
+		RAISE EXCEPTION 'Pacote não encontrado ou inativo.' USING ERRCODE = 'PT404';
+	END IF;
+
+	INSERT INTO "student_packages" ("student_id", "package_id", "name", "price", "credits_total", "starts_on", "expires_on", "created_by")
+	VALUES (p_student_id, v_package."id", v_package."name", v_package."price", v_package."session_credits",
+		p_starts_on, p_starts_on + v_package."validity_days" - 1, p_user_id)
+	RETURNING * INTO v_student_package;
+
+	IF v_package."price" > 0 THEN
+		INSERT INTO "billing_ledger" ("student_id", "entry_type", "amount", "description", "due_date", "student_package_id", "created_by")
+		VALUES (p_student_id, 'charge', v_package."price", 'Pacote ' || v_package."name", COALESCE(p_due_date, p_starts_on),
+			v_student_package."id", p_user_id)
+		RETURNING "id" INTO v_charge_id;
+	END IF;
+
+	RETURN jsonb_build_object('studentPackage', to_jsonb(v_student_package), 'chargeId', v_charge_id);
+END;
+$$;
+
+-- Keeps credits and per-session charges in step with the session status:
+-- becoming "concluído" (or being created as such) consumes a credit (or charges the session price),
+-- leaving it gives it back
+CREATE OR REPLACE FUNCTION "apply_session_billing"() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_package "student_packages"%ROWTYPE;
+	v_was_completed boolean := TG_OP = 'UPDATE' AND OLD."status" = 'concluído';
+	v_is_completed boolean := NEW."status" = 'concluído';
+	-- start_time is stored in UTC; packages and charges use the studio's calendar day
+	v_session_day date := (NEW."start_time" AT TIME ZONE 'UTC' AT TIME ZONE 'America/Sao_Paulo')::date;
+BEGIN
+	IF v_was_completed = v_is_completed THEN
+		RETURN NEW;
+	END IF;
+
+	IF v_is_completed THEN
+		SELECT * INTO v_package FROM "student_packages"
+		WHERE "student_id" = NEW."student_id"
+			AND "cancelled_at" IS NULL
+			AND "credits_used" < "credits_total"
+			AND v_session_day BETWEEN "starts_on" AND "expires_on"
+		ORDER BY "expires_on", "id"
+		LIMIT 1
+		FOR UPDATE;
+
+		IF FOUND THEN
+			UPDATE "student_packages" SET "credits_used" = "credits_used" + 1 WHERE "id" = v_package."id";
+			NEW."student_package_id" := v_package."id";
+			NEW."price" := COALESCE(NEW."price", round(v_package."price" / v_package."credits_total", 2));
+		ELSIF NEW."price" > 0 THEN
+			INSERT INTO "billing_ledger" ("student_id", "entry_type", "amount", "description", "occurred_on", "due_date", "session_id")
+			VALUES (NEW."student_id", 'charge', NEW."price", 'Sessão avulsa de ' || to_char(v_session_day, 'DD/MM/YYYY'),
+				v_session_day, v_session_day, NEW."id");
+		END IF;
+	ELSE
+		IF OLD."student_package_id" IS NOT NULL THEN
+			UPDATE "student_packages" SET "credits_used" = GREATEST("credits_used" - 1, 0) WHERE "id" = OLD."student_package_id";
+			NEW."student_package_id" := NULL;
+		END IF;
+		DELETE FROM "billing_ledger" WHERE "session_id" = OLD."id" AND "entry_type" = 'charge';
+	END IF;
+
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER "sessions_apply_billing"
+BEFORE INSERT OR UPDATE OF "status" ON "sessions"
+FOR EACH ROW EXECUTE FUNCTION "apply_session_billing"();
+
+REVOKE EXECUTE ON FUNCTION "sell_student_package"(integer, integer, date, date, uuid) FROM PUBLIC, anon, authenticated;
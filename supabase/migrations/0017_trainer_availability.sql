@@ -0,0 +1,58 @@
+-- Trainer management (see scheduling-functions /trainers): weekly availability grid, time-off blocks
+-- and the locations each trainer attends. Used by SessionForm to offer only free and qualified trainers.
+
+-- Empty means the trainer attends any location
+ALTER TABLE "trainers" ADD COLUMN "locations" text[] DEFAULT '{}' NOT NULL;
+
+-- Weekly slots in the studio's local time (America/Sao_Paulo); weekday 0 = domingo.
+-- A trainer without slots is treated as available at any time.
+CREATE TABLE "trainer_availability" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"trainer_id" integer NOT NULL REFERENCES "trainers"("id") ON DELETE CASCADE,
+	"weekday" smallint NOT NULL CHECK ("weekday" BETWEEN 0 AND 6),
+	"start_time" time NOT NULL,
+	"end_time" time NOT NULL,
+	CONSTRAINT "trainer_availability_time_check" CHECK ("end_time" > "start_time")
+);
+
+CREATE INDEX IF NOT EXISTS "trainer_availability_trainer_idx" ON "trainer_availability" ("trainer_id", "weekday");
+
+-- Vacations, medical leave, etc. Stored in UTC like sessions
+CREATE TABLE "trainer_time_off" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"trainer_id" integer NOT NULL REFERENCES "trainers"("id") ON DELETE CASCADE,
+	"starts_at" timestamp NOT NULL,
+	"ends_at" timestamp NOT NULL,
+	"reason" text,
+	"created_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "trainer_time_off_range_check" CHECK ("ends_at" > "starts_at")
+);
+
+CREATE INDEX IF NOT EXISTS "trainer_time_off_trainer_idx" ON "trainer_time_off" ("trainer_id", "starts_at");
+
+-- Replaces a trainer's weekly grid in one transaction, so a failed insert never leaves the trainer without
+-- slots (which would read as "available at any time"). Locking the trainer serializes concurrent saves.
+-- p_slots: [{ weekday, startTime, endTime }]
+CREATE OR REPLACE FUNCTION "replace_trainer_availability"(p_trainer_id integer, p_slots jsonb)
+RETURNS SETOF "trainer_availability"
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	PERFORM 1 FROM "trainers" WHERE "id" = p_trainer_id FOR UPDATE;
+	IF NOT FOUND THEN
+		RAISE EXCEPTION 'Professor não encontrado.' USING ERRCODE = 'PT404';
+	END IF;
+
+	DELETE FROM "trainer_availability" WHERE "trainer_id" = p_trainer_id;
+
+	RETURN QUERY
+	INSERT INTO "trainer_availability" ("trainer_id", "weekday", "start_time", "end_time")
+	SELECT p_trainer_id, s."weekday", s."startTime", s."endTime"
+	FROM jsonb_to_recordset(COALESCE(p_slots, '[]'::jsonb)) AS s("weekday" smallint, "startTime" time, "endTime" time)
+	ORDER BY s."weekday", s."startTime"
+	RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION "replace_trainer_availability"(integer, jsonb) FROM PUBLIC, anon, authenticated;
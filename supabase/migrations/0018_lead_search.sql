@@ -0,0 +1,24 @@
+-- Server-side lead search (see lead-functions GET /search and /export).
+-- search_text holds name, e-mail and phone without accents and in lower case, so "joao" finds "João".
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- unaccent() is only STABLE; pinning the dictionary makes it usable in a generated column
+CREATE OR REPLACE FUNCTION "immutable_unaccent"(text) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+AS $$ SELECT extensions.unaccent('extensions.unaccent'::regdictionary, $1) $$;
+
+ALTER TABLE "leads" ADD COLUMN "search_text" text
+	GENERATED ALWAYS AS (lower("immutable_unaccent"("name" || ' ' || "email" || ' ' || "phone"))) STORED;
+
+-- Trigram index so ILIKE '%term%' does not scan the whole table
+CREATE INDEX IF NOT EXISTS "leads_search_text_trgm_idx" ON "leads" USING gin ("search_text" extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "leads_tags_idx" ON "leads" USING gin ("tags");
+
+-- Keyset pagination: every sort key is paired with id as tie-breaker
+CREATE INDEX IF NOT EXISTS "leads_entry_date_id_idx" ON "leads" ("entryDate", "id") WHERE "deleted_at" IS NULL;
+CREATE INDEX IF NOT EXISTS "leads_name_id_idx" ON "leads" ("name", "id") WHERE "deleted_at" IS NULL;
+CREATE INDEX IF NOT EXISTS "leads_created_at_id_idx" ON "leads" ("created_at", "id") WHERE "deleted_at" IS NULL;
+CREATE INDEX IF NOT EXISTS "leads_updated_at_id_idx" ON "leads" ("updated_at", "id") WHERE "deleted_at" IS NULL;
+CREATE INDEX IF NOT EXISTS "leads_status_source_idx" ON "leads" ("status", "source") WHERE "deleted_at" IS NULL;
@@ -0,0 +1,50 @@
+-- Saved lead segments (see lead-functions /segments): a named filter definition evaluated on every use,
+-- so relative periods like "últimos 30 dias" always refer to today.
+
+CREATE TABLE "lead_segments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"filters" jsonb NOT NULL, -- { status, source, state, campaign, tags, search, dateRange, startDate, endDate, whatsappReply }
+	"visibility" text DEFAULT 'private' NOT NULL CHECK ("visibility" IN ('private', 'team')),
+	"owner_id" uuid NOT NULL REFERENCES "profiles"("id") ON DELETE CASCADE,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "lead_segments_owner_idx" ON "lead_segments" ("owner_id");
+
+-- Pins are personal, also for team segments
+CREATE TABLE "lead_segment_pins" (
+	"segment_id" integer NOT NULL REFERENCES "lead_segments"("id") ON DELETE CASCADE,
+	"user_id" uuid NOT NULL REFERENCES "profiles"("id") ON DELETE CASCADE,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	PRIMARY KEY ("segment_id", "user_id")
+);
+
+-- Last incoming WhatsApp message of the lead, for the "respondeu / não respondeu no WhatsApp" criterion
+ALTER TABLE "leads" ADD COLUMN "last_whatsapp_reply_at" timestamp;
+
+UPDATE "leads" l SET "last_whatsapp_reply_at" = m."last_reply"
+FROM (
+	SELECT "lead_id", max("timestamp") AS "last_reply"
+	FROM "whatsapp_messages"
+	WHERE "direction" = 'incoming'
+	GROUP BY "lead_id"
+) m
+WHERE m."lead_id" = l."id";
+
+CREATE OR REPLACE FUNCTION "track_lead_whatsapp_reply"() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	IF NEW."direction" = 'incoming' THEN
+		UPDATE "leads" SET "last_whatsapp_reply_at" = NEW."timestamp"
+		WHERE "id" = NEW."lead_id" AND ("last_whatsapp_reply_at" IS NULL OR "last_whatsapp_reply_at" < NEW."timestamp");
+	END IF;
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER "whatsapp_messages_track_reply"
+	AFTER INSERT ON "whatsapp_messages"
+	FOR EACH ROW EXECUTE FUNCTION "track_lead_whatsapp_reply"();
@@ -0,0 +1,176 @@
+-- Duplicate lead scanner and merge (see lead-functions /duplicates and /merge).
+-- The importer only dedupes on the exact phone or e-mail of incoming rows; this looks at the leads
+-- already stored, with looser keys.
+
+-- Last 8 digits: the same mobile is often stored with and without +55, the area code or the extra 9
+CREATE OR REPLACE FUNCTION "lead_phone_key"(text) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+AS $$
+	SELECT CASE WHEN length(d) >= 8 THEN right(d, 8) END
+	FROM (SELECT regexp_replace($1, '\D', '', 'g') AS d) s
+$$;
+
+-- Lower case without "+alias"; Gmail also ignores dots in the local part
+CREATE OR REPLACE FUNCTION "lead_email_key"(text) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+AS $$
+	SELECT CASE
+		WHEN position('@' in e) = 0 THEN NULL
+		WHEN split_part(e, '@', 2) IN ('gmail.com', 'googlemail.com')
+			THEN replace(split_part(split_part(e, '@', 1), '+', 1), '.', '') || '@gmail.com'
+		ELSE split_part(split_part(e, '@', 1), '+', 1) || '@' || split_part(e, '@', 2)
+	END
+	FROM (SELECT lower(trim($1)) AS e) s
+$$;
+
+CREATE OR REPLACE FUNCTION "lead_name_key"(text) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+AS $$ SELECT lower(trim(public."immutable_unaccent"($1))) $$;
+
+CREATE INDEX IF NOT EXISTS "leads_phone_key_idx" ON "leads" ("lead_phone_key"("phone")) WHERE "deleted_at" IS NULL;
+CREATE INDEX IF NOT EXISTS "leads_email_key_idx" ON "leads" ("lead_email_key"("email")) WHERE "deleted_at" IS NULL;
+CREATE INDEX IF NOT EXISTS "leads_name_key_trgm_idx" ON "leads" USING gin ("lead_name_key"("name") extensions.gin_trgm_ops);
+
+-- Pairs marked as "não são duplicados"; lead_id is always the smaller id
+CREATE TABLE "lead_duplicate_dismissals" (
+	"lead_id" integer NOT NULL REFERENCES "leads"("id") ON DELETE CASCADE,
+	"duplicate_id" integer NOT NULL REFERENCES "leads"("id") ON DELETE CASCADE,
+	"dismissed_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	PRIMARY KEY ("lead_id", "duplicate_id"),
+	CONSTRAINT "lead_duplicate_dismissals_order_check" CHECK ("lead_id" < "duplicate_id")
+);
+
+-- Candidate pairs (lead_id < duplicate_id) and why they matched: 'phone', 'email' and/or 'name'.
+-- A similar name alone only counts above 0.85 similarity, since common names repeat
+CREATE OR REPLACE FUNCTION "find_lead_duplicates"(p_limit integer DEFAULT 200)
+RETURNS TABLE ("lead_id" integer, "duplicate_id" integer, "reasons" text[], "name_similarity" real)
+LANGUAGE sql STABLE
+AS $$
+	WITH "candidates" AS (
+		SELECT a."id" AS a_id, b."id" AS b_id, 'phone' AS reason
+		FROM "leads" a JOIN "leads" b ON "lead_phone_key"(a."phone") = "lead_phone_key"(b."phone") AND a."id" < b."id"
+		WHERE a."deleted_at" IS NULL AND b."deleted_at" IS NULL
+		UNION ALL
+		SELECT a."id", b."id", 'email'
+		FROM "leads" a JOIN "leads" b ON "lead_email_key"(a."email") = "lead_email_key"(b."email") AND a."id" < b."id"
+		WHERE a."deleted_at" IS NULL AND b."deleted_at" IS NULL
+		UNION ALL
+		SELECT a."id", b."id", 'name'
+		FROM "leads" a JOIN "leads" b ON "lead_name_key"(a."name") OPERATOR(extensions.%) "lead_name_key"(b."name") AND a."id" < b."id"
+		WHERE a."deleted_at" IS NULL AND b."deleted_at" IS NULL
+			AND extensions.similarity("lead_name_key"(a."name"), "lead_name_key"(b."name")) >= 0.85
+	)
+	SELECT c.a_id, c.b_id, array_agg(DISTINCT c.reason ORDER BY c.reason),
+		extensions.similarity("lead_name_key"(a."name"), "lead_name_key"(b."name"))
+	FROM "candidates" c
+	JOIN "leads" a ON a."id" = c.a_id
+	JOIN "leads" b ON b."id" = c.b_id
+	WHERE NOT EXISTS (
+		SELECT 1 FROM "lead_duplicate_dismissals" d WHERE d."lead_id" = c.a_id AND d."duplicate_id" = c.b_id
+	)
+	GROUP BY c.a_id, c.b_id, a."name", b."name"
+	ORDER BY count(DISTINCT c.reason) DESC, 4 DESC, c.a_id
+	LIMIT p_limit
+$$;
+
+-- Merges p_merged_ids into p_survivor_id in one transaction.
+-- p_fields: { "<field>": <lead id whose value wins> } for name, email, phone, state, campaign, source,
+-- status, notes and entryDate; fields left out keep the survivor's value. Tags are always the union.
+-- WhatsApp history, tasks and the student record move to the survivor, then the merged leads are deleted
+-- and an audit_logs entry is written.
+CREATE OR REPLACE FUNCTION "merge_leads"(
+	p_survivor_id integer,
+	p_merged_ids integer[],
+	p_fields jsonb,
+	p_user_id uuid
+) RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_all_ids integer[] := p_survivor_id || p_merged_ids;
+	v_rows jsonb;
+	v_values jsonb := '{}';
+	v_field text;
+	v_source text;
+	v_students integer;
+	v_messages integer;
+	v_tasks integer;
+	v_moved_students integer;
+	v_lead "leads"%ROWTYPE;
+	v_result jsonb;
+BEGIN
+	IF p_survivor_id = ANY(p_merged_ids) OR cardinality(p_merged_ids) = 0 THEN
+		RAISE EXCEPTION 'Informe o lead principal e ao menos um lead diferente para mesclar.' USING ERRCODE = 'PT400';
+	END IF;
+
+	SELECT jsonb_object_agg(l."id"::text, to_jsonb(l)) INTO v_rows
+	FROM (SELECT * FROM "leads" WHERE "id" = ANY(v_all_ids) AND "deleted_at" IS NULL ORDER BY "id" FOR UPDATE) l;
+	IF v_rows IS NULL OR (SELECT count(*) FROM jsonb_object_keys(v_rows)) <> cardinality(v_all_ids) THEN
+		RAISE EXCEPTION 'Um ou mais leads não foram encontrados.' USING ERRCODE = 'PT404';
+	END IF;
+
+	-- students.lead_id is unique: two student records cannot share the surviving lead
+	SELECT count(*) INTO v_students FROM "students" WHERE "lead_id" = ANY(v_all_ids);
+	IF v_students > 1 THEN
+		RAISE EXCEPTION 'Mais de um destes leads já tem cadastro de aluno; não é possível mesclá-los.' USING ERRCODE = 'PT409';
+	END IF;
+
+	FOR v_field, v_source IN SELECT key, value FROM jsonb_each_text(COALESCE(p_fields, '{}')) LOOP
+		IF v_field NOT IN ('name', 'email', 'phone', 'state', 'campaign', 'source', 'status', 'notes', 'entryDate') THEN
+			RAISE EXCEPTION 'Campo inválido para mesclagem: %', v_field USING ERRCODE = 'PT400';
+		END IF;
+		IF NOT v_rows ? v_source THEN
+			RAISE EXCEPTION 'O campo % deve vir de um dos leads mesclados.', v_field USING ERRCODE = 'PT400';
+		END IF;
+		v_values := v_values || jsonb_build_object(v_field, v_rows->v_source->v_field);
+	END LOOP;
+
+	UPDATE "whatsapp_messages" SET "lead_id" = p_survivor_id WHERE "lead_id" = ANY(p_merged_ids);
+	GET DIAGNOSTICS v_messages = ROW_COUNT;
+	UPDATE "tasks" SET "related_lead_id" = p_survivor_id WHERE "related_lead_id" = ANY(p_merged_ids);
+	GET DIAGNOSTICS v_tasks = ROW_COUNT;
+	UPDATE "students" SET "lead_id" = p_survivor_id, "updated_at" = now() WHERE "lead_id" = ANY(p_merged_ids);
+	GET DIAGNOSTICS v_moved_students = ROW_COUNT;
+
+	UPDATE "leads" SET
+		"name" = CASE WHEN v_values ? 'name' THEN v_values->>'name' ELSE "name" END,
+		"email" = CASE WHEN v_values ? 'email' THEN v_values->>'email' ELSE "email" END,
+		"phone" = CASE WHEN v_values ? 'phone' THEN v_values->>'phone' ELSE "phone" END,
+		"state" = CASE WHEN v_values ? 'state' THEN v_values->>'state' ELSE "state" END,
+		"campaign" = CASE WHEN v_values ? 'campaign' THEN v_values->>'campaign' ELSE "campaign" END,
+		"source" = CASE WHEN v_values ? 'source' THEN (v_values->>'source')::"source_enum" ELSE "source" END,
+		"status" = CASE WHEN v_values ? 'status' THEN v_values->>'status' ELSE "status" END,
+		"notes" = CASE WHEN v_values ? 'notes' THEN v_values->>'notes' ELSE "notes" END,
+		"entryDate" = CASE WHEN v_values ? 'entryDate' THEN (v_values->>'entryDate')::timestamp ELSE "entryDate" END,
+		"tags" = ARRAY(
+			SELECT DISTINCT t FROM "leads" l, unnest(l."tags") t
+			WHERE l."id" = ANY(v_all_ids) AND t IS NOT NULL AND t <> ''
+			ORDER BY t
+		),
+		"last_whatsapp_reply_at" = (SELECT max(l."last_whatsapp_reply_at") FROM "leads" l WHERE l."id" = ANY(v_all_ids)),
+		"updated_at" = now()
+	WHERE "id" = p_survivor_id
+	RETURNING * INTO v_lead;
+
+	DELETE FROM "leads" WHERE "id" = ANY(p_merged_ids);
+
+	v_result := jsonb_build_object(
+		'lead', to_jsonb(v_lead),
+		'mergedIds', to_jsonb(p_merged_ids),
+		'moved', jsonb_build_object('whatsappMessages', v_messages, 'tasks', v_tasks, 'students', v_moved_students)
+	);
+
+	-- Written in the same transaction, with the full merged records, so a merge can be audited or redone by hand
+	INSERT INTO "audit_logs" ("user_id", "event_type", "details")
+	VALUES (p_user_id, 'lead_merged', v_result - 'lead' || jsonb_build_object(
+		'survivorId', p_survivor_id,
+		'fields', COALESCE(p_fields, '{}'),
+		'mergedLeads', (SELECT jsonb_agg(value) FROM jsonb_each(v_rows) WHERE key <> p_survivor_id::text)
+	));
+
+	RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION "merge_leads"(integer, integer[], jsonb, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,214 @@
+-- Lead pipeline (see lead-functions /pipeline): configurable funnel stages per source, the current stage of
+-- each lead and the history of stage changes, which feeds the time-in-stage and conversion metrics.
+-- leads.status ("Lead", "Aluno", ...) is kept as is; the stage is the sales funnel position.
+
+-- Stages with source NULL form the default pipeline, used by sources without stages of their own
+CREATE TABLE "pipeline_stages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source" "source_enum",
+	"name" text NOT NULL,
+	"position" integer NOT NULL,
+	"kind" text DEFAULT 'open' NOT NULL CHECK ("kind" IN ('open', 'won', 'lost')),
+	"color" text,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- NULLS NOT DISTINCT so the default pipeline (source NULL) cannot repeat a stage name either
+CREATE UNIQUE INDEX IF NOT EXISTS "pipeline_stages_source_name_idx" ON "pipeline_stages" ("source", lower("name")) NULLS NOT DISTINCT;
+
+INSERT INTO "pipeline_stages" ("source", "name", "position", "kind", "color")
+SELECT s."source", v."name", v."position", v."kind", v."color"
+FROM (VALUES (NULL::"source_enum"), ('Favale'), ('Pink')) s("source")
+CROSS JOIN (VALUES
+	('Novo', 1, 'open', '#64748b'),
+	('Contatado', 2, 'open', '#3b82f6'),
+	('Avaliação agendada', 3, 'open', '#8b5cf6'),
+	('Proposta', 4, 'open', '#f59e0b'),
+	('Fechado', 5, 'won', '#22c55e'),
+	('Perdido', 6, 'lost', '#ef4444')
+) v("name", "position", "kind", "color");
+
+ALTER TABLE "leads" ADD COLUMN "stage_id" integer REFERENCES "pipeline_stages"("id");
+ALTER TABLE "leads" ADD COLUMN "stage_entered_at" timestamp;
+
+CREATE INDEX IF NOT EXISTS "leads_stage_idx" ON "leads" ("stage_id") WHERE "deleted_at" IS NULL;
+
+CREATE TABLE "lead_stage_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"lead_id" integer NOT NULL REFERENCES "leads"("id") ON DELETE CASCADE,
+	"from_stage_id" integer REFERENCES "pipeline_stages"("id"),
+	"to_stage_id" integer NOT NULL REFERENCES "pipeline_stages"("id"),
+	"changed_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "lead_stage_history_lead_idx" ON "lead_stage_history" ("lead_id", "changed_at");
+CREATE INDEX IF NOT EXISTS "lead_stage_history_stage_idx" ON "lead_stage_history" ("to_stage_id");
+
+-- Pipeline a source uses: its own stages or, when it has none, the default pipeline (NULL)
+CREATE OR REPLACE FUNCTION "lead_pipeline_source"(p_source "source_enum") RETURNS "source_enum"
+LANGUAGE sql STABLE
+AS $$
+	SELECT CASE WHEN EXISTS (SELECT 1 FROM "pipeline_stages" WHERE "source" = p_source AND "active") THEN p_source END
+$$;
+
+-- Existing leads: best guess from the old status, entered when the lead was last updated
+UPDATE "leads" l SET
+	"stage_id" = (
+		SELECT ps."id" FROM "pipeline_stages" ps
+		WHERE ps."source" IS NOT DISTINCT FROM "lead_pipeline_source"(l."source")
+			AND ps."name" = CASE
+				WHEN l."status" IN ('Aluno', 'Cliente', 'Ex-Aluno') THEN 'Fechado'
+				WHEN l."status" = 'Perdido' THEN 'Perdido'
+				WHEN l."status" = 'Oportunidade' THEN 'Proposta'
+				WHEN l."status" = 'Contato' THEN 'Contatado'
+				ELSE 'Novo'
+			END
+	),
+	"stage_entered_at" = l."updated_at";
+
+INSERT INTO "lead_stage_history" ("lead_id", "to_stage_id", "changed_at")
+SELECT "id", "stage_id", "stage_entered_at" FROM "leads" WHERE "stage_id" IS NOT NULL;
+
+-- Keeps stage_id inside the pipeline of the lead's source:
+-- new leads start at the first stage; when the source changes the lead goes to the stage with the same name
+-- in the new pipeline (or its first stage); converting the lead to a student ("Aluno") closes it as won
+CREATE OR REPLACE FUNCTION "set_lead_stage"() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_pipeline "source_enum" := "lead_pipeline_source"(NEW."source");
+	v_stage "pipeline_stages"%ROWTYPE;
+	v_stage_name text;
+BEGIN
+	IF TG_OP = 'UPDATE' AND NEW."stage_id" IS NOT DISTINCT FROM OLD."stage_id"
+		AND NEW."status" = 'Aluno' AND OLD."status" IS DISTINCT FROM 'Aluno' THEN
+		SELECT "id" INTO NEW."stage_id" FROM "pipeline_stages"
+		WHERE "source" IS NOT DISTINCT FROM v_pipeline AND "active" AND "kind" = 'won'
+		ORDER BY "position" LIMIT 1;
+		NEW."stage_id" := COALESCE(NEW."stage_id", OLD."stage_id");
+	END IF;
+
+	IF NEW."stage_id" IS NOT NULL THEN
+		SELECT * INTO v_stage FROM "pipeline_stages" WHERE "id" = NEW."stage_id";
+	END IF;
+
+	IF v_stage."id" IS NULL OR v_stage."source" IS DISTINCT FROM v_pipeline OR NOT v_stage."active" THEN
+		IF TG_OP = 'UPDATE' AND NEW."stage_id" IS DISTINCT FROM OLD."stage_id" AND NEW."stage_id" IS NOT NULL THEN
+			RAISE EXCEPTION 'A etapa escolhida não está ativa no funil da origem do lead.' USING ERRCODE = 'PT400';
+		END IF;
+		v_stage_name := v_stage."name";
+		SELECT * INTO v_stage FROM "pipeline_stages"
+		WHERE "source" IS NOT DISTINCT FROM v_pipeline AND "active"
+		ORDER BY ("name" = v_stage_name) IS TRUE DESC, "position"
+		LIMIT 1;
+		NEW."stage_id" := v_stage."id";
+	END IF;
+
+	IF TG_OP = 'INSERT' OR NEW."stage_id" IS DISTINCT FROM OLD."stage_id" THEN
+		NEW."stage_entered_at" := now();
+	END IF;
+	RETURN NEW;
+END;
+$$;
+
+-- changed_by comes from the transaction-local app.user_id, set by move_lead_stage; other changes
+-- (new leads, source changes, conversions) are recorded without a user
+CREATE OR REPLACE FUNCTION "record_lead_stage_change"() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	IF NEW."stage_id" IS NOT NULL AND (TG_OP = 'INSERT' OR NEW."stage_id" IS DISTINCT FROM OLD."stage_id") THEN
+		INSERT INTO "lead_stage_history" ("lead_id", "from_stage_id", "to_stage_id", "changed_by", "changed_at")
+		VALUES (
+			NEW."id",
+			CASE WHEN TG_OP = 'UPDATE' THEN OLD."stage_id" END,
+			NEW."stage_id",
+			NULLIF(current_setting('app.user_id', true), '')::uuid,
+			NEW."stage_entered_at"
+		);
+	END IF;
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER "leads_set_stage"
+	BEFORE INSERT OR UPDATE OF "stage_id", "source", "status" ON "leads"
+	FOR EACH ROW EXECUTE FUNCTION "set_lead_stage"();
+
+CREATE TRIGGER "leads_record_stage_change"
+	AFTER INSERT OR UPDATE OF "stage_id", "source", "status" ON "leads"
+	FOR EACH ROW EXECUTE FUNCTION "record_lead_stage_change"();
+
+-- Moves a lead on the Kanban board, recording who moved it
+CREATE OR REPLACE FUNCTION "move_lead_stage"(p_lead_id integer, p_stage_id integer, p_user_id uuid)
+RETURNS "leads"
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_lead "leads"%ROWTYPE;
+BEGIN
+	PERFORM set_config('app.user_id', COALESCE(p_user_id::text, ''), true);
+	UPDATE "leads" SET "stage_id" = p_stage_id, "updated_at" = now()
+	WHERE "id" = p_lead_id AND "deleted_at" IS NULL
+	RETURNING * INTO v_lead;
+	IF v_lead."id" IS NULL THEN
+		RAISE EXCEPTION 'Lead não encontrado.' USING ERRCODE = 'PT404';
+	END IF;
+	PERFORM set_config('app.user_id', '', true);
+	RETURN v_lead;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION "move_lead_stage"(integer, integer, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Per stage: leads in it now, leads that entered it since p_since, how many of those later reached a
+-- further (not lost) stage of the funnel, and the average days spent in it (finished stays only)
+CREATE OR REPLACE FUNCTION "lead_pipeline_metrics"(p_since timestamp DEFAULT NULL)
+RETURNS TABLE (
+	"stage_id" integer,
+	"source" "source_enum",
+	"name" text,
+	"position" integer,
+	"kind" text,
+	"current_leads" integer,
+	"entered_leads" integer,
+	"advanced_leads" integer,
+	"avg_days_in_stage" numeric
+)
+LANGUAGE sql STABLE
+AS $$
+	WITH "stays" AS (
+		SELECT h."lead_id", h."to_stage_id", h."changed_at" AS "entered_at",
+			lead(h."changed_at") OVER (PARTITION BY h."lead_id" ORDER BY h."changed_at", h."id") AS "left_at"
+		FROM "lead_stage_history" h
+		JOIN "leads" l ON l."id" = h."lead_id" AND l."deleted_at" IS NULL
+	),
+	"furthest" AS (
+		SELECT st."lead_id", max(ps."position") FILTER (WHERE ps."kind" <> 'lost') AS "position"
+		FROM "stays" st JOIN "pipeline_stages" ps ON ps."id" = st."to_stage_id"
+		GROUP BY st."lead_id"
+	),
+	"per_stage" AS (
+		SELECT st."to_stage_id",
+			count(DISTINCT st."lead_id") AS "entered",
+			count(DISTINCT st."lead_id") FILTER (WHERE f."position" > ps."position") AS "advanced",
+			avg(EXTRACT(EPOCH FROM st."left_at" - st."entered_at") / 86400) FILTER (WHERE st."left_at" IS NOT NULL) AS "avg_days"
+		FROM "stays" st
+		JOIN "pipeline_stages" ps ON ps."id" = st."to_stage_id"
+		JOIN "furthest" f ON f."lead_id" = st."lead_id"
+		WHERE p_since IS NULL OR st."entered_at" >= p_since
+		GROUP BY st."to_stage_id"
+	)
+	SELECT ps."id", ps."source", ps."name", ps."position", ps."kind",
+		(SELECT count(*) FROM "leads" l WHERE l."stage_id" = ps."id" AND l."deleted_at" IS NULL)::integer,
+		COALESCE(m."entered", 0)::integer,
+		COALESCE(m."advanced", 0)::integer,
+		round(m."avg_days"::numeric, 1)
+	FROM "pipeline_stages" ps
+	LEFT JOIN "per_stage" m ON m."to_stage_id" = ps."id"
+	WHERE ps."active"
+	ORDER BY ps."source" NULLS FIRST, ps."position"
+$$;
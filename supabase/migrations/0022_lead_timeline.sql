@@ -0,0 +1,197 @@
+-- Lead activity timeline (see lead-functions /:id/timeline): every touchpoint of a lead in one list,
+-- plus the notes and calls registered by hand, which had nowhere to live.
+
+CREATE TABLE "lead_activities" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"lead_id" integer NOT NULL REFERENCES "leads"("id") ON DELETE CASCADE,
+	"type" text NOT NULL CHECK ("type" IN ('note', 'call')),
+	"content" text NOT NULL,
+	"call_outcome" text CHECK ("call_outcome" IN ('answered', 'no_answer', 'voicemail')), -- calls only
+	"duration_minutes" integer CHECK ("duration_minutes" >= 0),
+	"occurred_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "lead_activities_lead_idx" ON "lead_activities" ("lead_id", "occurred_at");
+
+-- Audit entries refer to leads through details.leadId, details.leadIds (batch actions) or
+-- details.survivorId (merges)
+CREATE INDEX IF NOT EXISTS "audit_logs_details_idx" ON "audit_logs" USING gin ("details" jsonb_path_ops);
+CREATE INDEX IF NOT EXISTS "whatsapp_messages_lead_timestamp_idx" ON "whatsapp_messages" ("lead_id", "timestamp");
+CREATE INDEX IF NOT EXISTS "tasks_related_lead_idx" ON "tasks" ("related_lead_id");
+
+-- Newest first, keyset-paginated on (occurred_at, item_key); item_key ("kind:id") breaks ties.
+-- p_kinds filters by whatsapp, task (tasks and their comments), session, audit, stage, note and call;
+-- NULL returns every kind
+CREATE OR REPLACE FUNCTION "lead_timeline"(
+	p_lead_id integer,
+	p_kinds text[] DEFAULT NULL,
+	p_before timestamp DEFAULT NULL,
+	p_before_key text DEFAULT NULL,
+	p_limit integer DEFAULT 30
+)
+RETURNS TABLE ("kind" text, "item_key" text, "occurred_at" timestamp, "actor_id" uuid, "body" text, "data" jsonb)
+LANGUAGE sql STABLE
+AS $$
+	SELECT t.* FROM (
+		SELECT 'whatsapp', 'whatsapp:' || lpad(m."id"::text, 12, '0'), m."timestamp", NULL::uuid, m."content",
+			jsonb_build_object('direction', m."direction", 'status', m."status", 'mediaType', m."media_type", 'mediaUrl', m."media_url")
+		FROM "whatsapp_messages" m
+		WHERE m."lead_id" = p_lead_id AND (p_kinds IS NULL OR 'whatsapp' = ANY(p_kinds))
+
+		UNION ALL
+		SELECT 'task', 'task:' || lpad(tk."id"::text, 12, '0'), tk."created_at", tk."assigned_by_id", tk."description",
+			jsonb_build_object('taskId', tk."id", 'title', tk."title", 'status', tk."status", 'priority', tk."priority",
+				'dueDate', tk."due_date", 'assignedToId', tk."assigned_to_id")
+		FROM "tasks" tk
+		WHERE tk."related_lead_id" = p_lead_id AND (p_kinds IS NULL OR 'task' = ANY(p_kinds))
+
+		UNION ALL
+		SELECT 'task_comment', 'task_comment:' || lpad(c."id"::text, 12, '0'), c."created_at", c."user_id", c."content",
+			jsonb_build_object('taskId', tk."id", 'title', tk."title")
+		FROM "task_comments" c JOIN "tasks" tk ON tk."id" = c."task_id"
+		WHERE tk."related_lead_id" = p_lead_id AND (p_kinds IS NULL OR 'task' = ANY(p_kinds))
+
+		UNION ALL
+		SELECT 'session', 'session:' || lpad(s."id"::text, 12, '0'), s."start_time", NULL::uuid, s."notes",
+			jsonb_build_object('sessionId', s."id", 'status', s."status", 'endTime', s."end_time", 'location', s."location",
+				'trainerName', tr."name")
+		FROM "sessions" s
+		JOIN "students" st ON st."id" = s."student_id"
+		LEFT JOIN "trainers" tr ON tr."id" = s."trainer_id"
+		WHERE st."lead_id" = p_lead_id AND (p_kinds IS NULL OR 'session' = ANY(p_kinds))
+
+		UNION ALL
+		SELECT 'audit', 'audit:' || lpad(a."id"::text, 12, '0'), a."timestamp", a."user_id", NULL,
+			jsonb_build_object('eventType', a."event_type", 'details', a."details")
+		FROM "audit_logs" a
+		WHERE (a."details" @> jsonb_build_object('leadId', p_lead_id)
+				OR a."details" @> jsonb_build_object('leadIds', jsonb_build_array(p_lead_id))
+				OR a."details" @> jsonb_build_object('survivorId', p_lead_id))
+			AND (p_kinds IS NULL OR 'audit' = ANY(p_kinds))
+
+		UNION ALL
+		SELECT 'stage', 'stage:' || lpad(h."id"::text, 12, '0'), h."changed_at", h."changed_by", NULL,
+			jsonb_build_object('fromStage', fs."name", 'toStage', ts."name", 'toKind', ts."kind")
+		FROM "lead_stage_history" h
+		JOIN "pipeline_stages" ts ON ts."id" = h."to_stage_id"
+		LEFT JOIN "pipeline_stages" fs ON fs."id" = h."from_stage_id"
+		WHERE h."lead_id" = p_lead_id AND (p_kinds IS NULL OR 'stage' = ANY(p_kinds))
+
+		UNION ALL
+		SELECT la."type", la."type" || ':' || lpad(la."id"::text, 12, '0'), la."occurred_at", la."created_by", la."content",
+			jsonb_build_object('activityId', la."id", 'callOutcome', la."call_outcome", 'durationMinutes', la."duration_minutes")
+		FROM "lead_activities" la
+		WHERE la."lead_id" = p_lead_id AND (p_kinds IS NULL OR la."type" = ANY(p_kinds))
+	) t ("kind", "item_key", "occurred_at", "actor_id", "body", "data")
+	WHERE p_before IS NULL OR (t."occurred_at", t."item_key") < (p_before, p_before_key)
+	ORDER BY t."occurred_at" DESC, t."item_key" DESC
+	LIMIT p_limit
+$$;
+
+-- Same as in 0020, but the notes, calls and stage history of the merged leads also move to the survivor
+-- instead of being deleted with them, so its timeline keeps every touchpoint
+CREATE OR REPLACE FUNCTION "merge_leads"(
+	p_survivor_id integer,
+	p_merged_ids integer[],
+	p_fields jsonb,
+	p_user_id uuid
+) RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_all_ids integer[] := p_survivor_id || p_merged_ids;
+	v_rows jsonb;
+	v_values jsonb := '{}';
+	v_field text;
+	v_source text;
+	v_students integer;
+	v_messages integer;
+	v_tasks integer;
+	v_moved_students integer;
+	v_activities integer;
+	v_stage_changes integer;
+	v_lead "leads"%ROWTYPE;
+	v_result jsonb;
+BEGIN
+	IF p_survivor_id = ANY(p_merged_ids) OR cardinality(p_merged_ids) = 0 THEN
+		RAISE EXCEPTION 'Informe o lead principal e ao menos um lead diferente para mesclar.' USING ERRCODE = 'PT400';
+	END IF;
+
+	SELECT jsonb_object_agg(l."id"::text, to_jsonb(l)) INTO v_rows
+	FROM (SELECT * FROM "leads" WHERE "id" = ANY(v_all_ids) AND "deleted_at" IS NULL ORDER BY "id" FOR UPDATE) l;
+	IF v_rows IS NULL OR (SELECT count(*) FROM jsonb_object_keys(v_rows)) <> cardinality(v_all_ids) THEN
+		RAISE EXCEPTION 'Um ou mais leads não foram encontrados.' USING ERRCODE = 'PT404';
+	END IF;
+
+	-- students.lead_id is unique: two student records cannot share the surviving lead
+	SELECT count(*) INTO v_students FROM "students" WHERE "lead_id" = ANY(v_all_ids);
+	IF v_students > 1 THEN
+		RAISE EXCEPTION 'Mais de um destes leads já tem cadastro de aluno; não é possível mesclá-los.' USING ERRCODE = 'PT409';
+	END IF;
+
+	FOR v_field, v_source IN SELECT key, value FROM jsonb_each_text(COALESCE(p_fields, '{}')) LOOP
+		IF v_field NOT IN ('name', 'email', 'phone', 'state', 'campaign', 'source', 'status', 'notes', 'entryDate') THEN
+			RAISE EXCEPTION 'Campo inválido para mesclagem: %', v_field USING ERRCODE = 'PT400';
+		END IF;
+		IF NOT v_rows ? v_source THEN
+			RAISE EXCEPTION 'O campo % deve vir de um dos leads mesclados.', v_field USING ERRCODE = 'PT400';
+		END IF;
+		v_values := v_values || jsonb_build_object(v_field, v_rows->v_source->v_field);
+	END LOOP;
+
+	UPDATE "whatsapp_messages" SET "lead_id" = p_survivor_id WHERE "lead_id" = ANY(p_merged_ids);
+	GET DIAGNOSTICS v_messages = ROW_COUNT;
+	UPDATE "tasks" SET "related_lead_id" = p_survivor_id WHERE "related_lead_id" = ANY(p_merged_ids);
+	GET DIAGNOSTICS v_tasks = ROW_COUNT;
+	UPDATE "students" SET "lead_id" = p_survivor_id, "updated_at" = now() WHERE "lead_id" = ANY(p_merged_ids);
+	GET DIAGNOSTICS v_moved_students = ROW_COUNT;
+	UPDATE "lead_activities" SET "lead_id" = p_survivor_id WHERE "lead_id" = ANY(p_merged_ids);
+	GET DIAGNOSTICS v_activities = ROW_COUNT;
+	UPDATE "lead_stage_history" SET "lead_id" = p_survivor_id WHERE "lead_id" = ANY(p_merged_ids);
+	GET DIAGNOSTICS v_stage_changes = ROW_COUNT;
+
+	UPDATE "leads" SET
+		"name" = CASE WHEN v_values ? 'name' THEN v_values->>'name' ELSE "name" END,
+		"email" = CASE WHEN v_values ? 'email' THEN v_values->>'email' ELSE "email" END,
+		"phone" = CASE WHEN v_values ? 'phone' THEN v_values->>'phone' ELSE "phone" END,
+		"state" = CASE WHEN v_values ? 'state' THEN v_values->>'state' ELSE "state" END,
+		"campaign" = CASE WHEN v_values ? 'campaign' THEN v_values->>'campaign' ELSE "campaign" END,
+		"source" = CASE WHEN v_values ? 'source' THEN (v_values->>'source')::"source_enum" ELSE "source" END,
+		"status" = CASE WHEN v_values ? 'status' THEN v_values->>'status' ELSE "status" END,
+		"notes" = CASE WHEN v_values ? 'notes' THEN v_values->>'notes' ELSE "notes" END,
+		"entryDate" = CASE WHEN v_values ? 'entryDate' THEN (v_values->>'entryDate')::timestamp ELSE "entryDate" END,
+		"tags" = ARRAY(
+			SELECT DISTINCT t FROM "leads" l, unnest(l."tags") t
+			WHERE l."id" = ANY(v_all_ids) AND t IS NOT NULL AND t <> ''
+			ORDER BY t
+		),
+		"last_whatsapp_reply_at" = (SELECT max(l."last_whatsapp_reply_at") FROM "leads" l WHERE l."id" = ANY(v_all_ids)),
+		"updated_at" = now()
+	WHERE "id" = p_survivor_id
+	RETURNING * INTO v_lead;
+
+	DELETE FROM "leads" WHERE "id" = ANY(p_merged_ids);
+
+	v_result := jsonb_build_object(
+		'lead', to_jsonb(v_lead),
+		'mergedIds', to_jsonb(p_merged_ids),
+		'moved', jsonb_build_object('whatsappMessages', v_messages, 'tasks', v_tasks, 'students', v_moved_students,
+			'activities', v_activities, 'stageChanges', v_stage_changes)
+	);
+
+	-- Written in the same transaction, with the full merged records, so a merge can be audited or redone by hand
+	INSERT INTO "audit_logs" ("user_id", "event_type", "details")
+	VALUES (p_user_id, 'lead_merged', v_result - 'lead' || jsonb_build_object(
+		'survivorId', p_survivor_id,
+		'fields', COALESCE(p_fields, '{}'),
+		'mergedLeads', (SELECT jsonb_agg(value) FROM jsonb_each(v_rows) WHERE key <> p_survivor_id::text)
+	));
+
+	RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION "merge_leads"(integer, integer[], jsonb, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,105 @@
+-- Lead scoring (see lead-functions /scoring): each active rule that matches a lead adds its points (which
+-- may be negative) to leads.score. Scores are recomputed by triggers when the lead, its WhatsApp replies or
+-- its tasks change, and for every lead when the rules change.
+--
+-- Rule fields and how "value" is read:
+--   source, state          equal, ignoring case
+--   campaign               contains, ignoring case and accents
+--   tag                    the lead has the tag, ignoring case
+--   entry_recency          entryDate within the last <value> days
+--   whatsapp_reply         replied on WhatsApp within the last <value> days
+--   whatsapp_no_reply      never replied on WhatsApp (value ignored)
+--   task_status            has a related task with status <value> (e.g. completed, cancelled)
+
+CREATE TABLE "lead_score_rules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"field" text NOT NULL CHECK ("field" IN ('source', 'campaign', 'state', 'tag', 'entry_recency', 'whatsapp_reply', 'whatsapp_no_reply', 'task_status')),
+	"value" text DEFAULT '' NOT NULL,
+	"points" integer NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "lead_score_rules_days_check" CHECK ("field" NOT IN ('entry_recency', 'whatsapp_reply') OR "value" ~ '^[0-9]{1,4}$')
+);
+
+INSERT INTO "lead_score_rules" ("name", "field", "value", "points") VALUES
+	('Entrou nos últimos 7 dias', 'entry_recency', '7', 20),
+	('Respondeu no WhatsApp nos últimos 30 dias', 'whatsapp_reply', '30', 30),
+	('Nunca respondeu no WhatsApp', 'whatsapp_no_reply', '', -10),
+	('Tem tarefa concluída', 'task_status', 'completed', 10),
+	('Tem tarefa cancelada', 'task_status', 'cancelled', -5);
+
+ALTER TABLE "leads" ADD COLUMN "score" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "leads" ADD COLUMN "score_updated_at" timestamp;
+
+CREATE INDEX IF NOT EXISTS "leads_score_idx" ON "leads" ("score", "id") WHERE "deleted_at" IS NULL;
+
+CREATE OR REPLACE FUNCTION "lead_score"(l "leads") RETURNS integer
+LANGUAGE sql STABLE
+AS $$
+	SELECT COALESCE(sum(r."points"), 0)::integer
+	FROM "lead_score_rules" r
+	WHERE r."active" AND CASE r."field"
+		WHEN 'source' THEN lower(l."source"::text) = lower(r."value")
+		WHEN 'state' THEN upper(l."state") = upper(r."value")
+		WHEN 'campaign' THEN lower("immutable_unaccent"(l."campaign")) LIKE '%' || lower("immutable_unaccent"(r."value")) || '%'
+		WHEN 'tag' THEN EXISTS (SELECT 1 FROM unnest(l."tags") t WHERE lower(t) = lower(r."value"))
+		WHEN 'entry_recency' THEN l."entryDate" >= now() - make_interval(days => r."value"::integer)
+		WHEN 'whatsapp_reply' THEN l."last_whatsapp_reply_at" >= now() - make_interval(days => r."value"::integer)
+		WHEN 'whatsapp_no_reply' THEN l."last_whatsapp_reply_at" IS NULL
+		WHEN 'task_status' THEN EXISTS (SELECT 1 FROM "tasks" tk WHERE tk."related_lead_id" = l."id" AND tk."status" = r."value")
+		ELSE false
+	END
+$$;
+
+-- Recency rules depend on the current date, so p_only_stale refreshes the scores computed before today;
+-- lead-functions /search and general-stats call it before reading scores
+CREATE OR REPLACE FUNCTION "refresh_lead_scores"(p_only_stale boolean DEFAULT false) RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_count integer;
+BEGIN
+	UPDATE "leads" l SET "score" = "lead_score"(l), "score_updated_at" = now()
+	WHERE NOT p_only_stale OR l."score_updated_at" IS NULL OR l."score_updated_at" < date_trunc('day', now());
+	GET DIAGNOSTICS v_count = ROW_COUNT;
+	RETURN v_count;
+END;
+$$;
+
+SELECT "refresh_lead_scores"();
+
+CREATE OR REPLACE FUNCTION "set_lead_score"() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	NEW."score" := "lead_score"(NEW);
+	NEW."score_updated_at" := now();
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER "leads_set_score"
+	BEFORE INSERT OR UPDATE OF "source", "campaign", "state", "tags", "entryDate", "last_whatsapp_reply_at" ON "leads"
+	FOR EACH ROW EXECUTE FUNCTION "set_lead_score"();
+
+CREATE OR REPLACE FUNCTION "refresh_task_lead_score"() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	UPDATE "leads" l SET "score" = "lead_score"(l), "score_updated_at" = now()
+	WHERE l."id" IN (
+		CASE WHEN TG_OP <> 'DELETE' THEN NEW."related_lead_id" END,
+		CASE WHEN TG_OP <> 'INSERT' THEN OLD."related_lead_id" END
+	);
+	RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER "tasks_refresh_lead_score"
+	AFTER INSERT OR UPDATE OF "status", "related_lead_id" OR DELETE ON "tasks"
+	FOR EACH ROW EXECUTE FUNCTION "refresh_task_lead_score"();
+
+REVOKE EXECUTE ON FUNCTION "refresh_lead_scores"(boolean) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,216 @@
+-- Lead ownership (see lead-functions /assignment): each lead may have an owner among the active users.
+-- New leads (form, import or any other insert) are assigned automatically when enabled: the first matching
+-- source/state rule wins, otherwise the strategy picks someone from the roles in the pool. Every assignment
+-- creates a follow-up task for the owner, due within the SLA, and deactivating a user hands their open
+-- leads to someone else.
+
+ALTER TABLE "profiles" ADD COLUMN "active" boolean DEFAULT true NOT NULL;
+ALTER TABLE "profiles" ADD COLUMN "deactivated_at" timestamp;
+
+ALTER TABLE "leads" ADD COLUMN "owner_id" uuid REFERENCES "profiles"("id") ON DELETE SET NULL;
+ALTER TABLE "leads" ADD COLUMN "assigned_at" timestamp;
+
+CREATE INDEX IF NOT EXISTS "leads_owner_idx" ON "leads" ("owner_id") WHERE "deleted_at" IS NULL;
+
+-- Single row (id = 1)
+CREATE TABLE "lead_assignment_settings" (
+	"id" integer PRIMARY KEY DEFAULT 1 CHECK ("id" = 1),
+	"auto_assign" boolean DEFAULT false NOT NULL,
+	"strategy" text DEFAULT 'round_robin' NOT NULL CHECK ("strategy" IN ('round_robin', 'workload')),
+	"roles" text[] DEFAULT '{comercial}' NOT NULL, -- roles that receive leads when no rule matches
+	"sla_hours" integer DEFAULT 24 NOT NULL CHECK ("sla_hours" BETWEEN 1 AND 720),
+	"last_assigned_user_id" uuid REFERENCES "profiles"("id") ON DELETE SET NULL, -- round-robin position
+	"updated_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+INSERT INTO "lead_assignment_settings" ("id") VALUES (1);
+
+CREATE TABLE "lead_assignment_rules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"field" text NOT NULL CHECK ("field" IN ('source', 'state')),
+	"value" text NOT NULL,
+	"user_id" uuid NOT NULL REFERENCES "profiles"("id") ON DELETE CASCADE,
+	"position" integer DEFAULT 0 NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Open leads are the ones still being worked on: they count as workload and move when the owner leaves
+CREATE OR REPLACE FUNCTION "lead_is_open"(p_status text) RETURNS boolean
+LANGUAGE sql IMMUTABLE
+AS $$
+	SELECT p_status IN ('Lead', 'Contato', 'Oportunidade')
+$$;
+
+-- Owner for a lead of this source and state, or NULL when nobody is eligible. p_exclude skips a user
+-- (the one whose leads are being handed over)
+CREATE OR REPLACE FUNCTION "pick_lead_owner"(p_source text, p_state text, p_exclude uuid DEFAULT NULL) RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_settings "lead_assignment_settings"%ROWTYPE;
+	v_owner uuid;
+BEGIN
+	-- Locked so concurrent inserts advance the round-robin one at a time
+	SELECT * INTO v_settings FROM "lead_assignment_settings" WHERE "id" = 1 FOR UPDATE;
+
+	SELECT r."user_id" INTO v_owner
+	FROM "lead_assignment_rules" r
+	JOIN "profiles" p ON p."id" = r."user_id"
+	WHERE r."active" AND p."active" AND r."user_id" IS DISTINCT FROM p_exclude
+		AND ((r."field" = 'source' AND lower(r."value") = lower(p_source))
+			OR (r."field" = 'state' AND upper(r."value") = upper(p_state)))
+	ORDER BY r."position", r."id"
+	LIMIT 1;
+	IF v_owner IS NOT NULL THEN
+		RETURN v_owner;
+	END IF;
+
+	IF v_settings."strategy" = 'workload' THEN
+		SELECT p."id" INTO v_owner
+		FROM "profiles" p
+		WHERE p."active" AND p."role" = ANY(v_settings."roles") AND p."id" IS DISTINCT FROM p_exclude
+		ORDER BY (
+			SELECT count(*) FROM "leads" l
+			WHERE l."owner_id" = p."id" AND l."deleted_at" IS NULL AND "lead_is_open"(l."status")
+		), p."id"
+		LIMIT 1;
+	ELSE
+		SELECT p."id" INTO v_owner
+		FROM "profiles" p
+		WHERE p."active" AND p."role" = ANY(v_settings."roles") AND p."id" IS DISTINCT FROM p_exclude
+		ORDER BY p."id" <= COALESCE(v_settings."last_assigned_user_id", '00000000-0000-0000-0000-000000000000'), p."id"
+		LIMIT 1;
+		IF v_owner IS NOT NULL THEN
+			UPDATE "lead_assignment_settings" SET "last_assigned_user_id" = v_owner WHERE "id" = 1;
+		END IF;
+	END IF;
+
+	RETURN v_owner;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION "set_lead_owner"() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	IF TG_OP = 'INSERT' AND NEW."owner_id" IS NULL AND NEW."deleted_at" IS NULL AND "lead_is_open"(NEW."status")
+		AND (SELECT "auto_assign" FROM "lead_assignment_settings" WHERE "id" = 1) THEN
+		NEW."owner_id" := "pick_lead_owner"(NEW."source"::text, NEW."state");
+	END IF;
+	IF TG_OP = 'INSERT' OR NEW."owner_id" IS DISTINCT FROM OLD."owner_id" THEN
+		NEW."assigned_at" := CASE WHEN NEW."owner_id" IS NOT NULL THEN now() END;
+	END IF;
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER "leads_set_owner"
+	BEFORE INSERT OR UPDATE OF "owner_id" ON "leads"
+	FOR EACH ROW EXECUTE FUNCTION "set_lead_owner"();
+
+-- The follow-up task and the audit entry are attributed to the transaction-local app.user_id (set by
+-- assign_lead_owner and reassign_user_leads); automatic assignments of new leads have no user
+CREATE OR REPLACE FUNCTION "record_lead_assignment"() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_user_id uuid := NULLIF(current_setting('app.user_id', true), '')::uuid;
+	v_previous uuid := CASE WHEN TG_OP = 'UPDATE' THEN OLD."owner_id" END;
+BEGIN
+	IF NEW."owner_id" IS NOT DISTINCT FROM v_previous THEN
+		RETURN NULL;
+	END IF;
+
+	INSERT INTO "audit_logs" ("event_type", "user_id", "details")
+	VALUES ('lead_assigned', v_user_id, jsonb_build_object('leadId', NEW."id", 'ownerId', NEW."owner_id", 'previousOwnerId', v_previous));
+
+	IF NEW."owner_id" IS NOT NULL AND NEW."deleted_at" IS NULL AND "lead_is_open"(NEW."status") THEN
+		INSERT INTO "tasks" ("title", "description", "assigned_by_id", "assigned_to_id", "due_date", "priority", "status", "related_lead_id")
+		VALUES (
+			'Primeiro contato: ' || NEW."name",
+			CASE WHEN v_previous IS NULL
+				THEN 'Lead atribuído a você. Faça o primeiro contato dentro do prazo.'
+				ELSE 'Lead transferido para você. Retome o contato dentro do prazo.' END,
+			COALESCE(v_user_id, NEW."owner_id"),
+			NEW."owner_id",
+			now() + make_interval(hours => (SELECT "sla_hours" FROM "lead_assignment_settings" WHERE "id" = 1)),
+			'high',
+			'pending',
+			NEW."id"
+		);
+	END IF;
+	RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER "leads_record_assignment"
+	AFTER INSERT OR UPDATE OF "owner_id" ON "leads"
+	FOR EACH ROW EXECUTE FUNCTION "record_lead_assignment"();
+
+-- Manual assignment; p_owner_id NULL with p_automatic picks the owner like a new lead, NULL alone unassigns
+CREATE OR REPLACE FUNCTION "assign_lead_owner"(p_lead_id integer, p_owner_id uuid, p_automatic boolean, p_user_id uuid)
+RETURNS "leads"
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_lead "leads"%ROWTYPE;
+	v_owner uuid := p_owner_id;
+BEGIN
+	SELECT * INTO v_lead FROM "leads" WHERE "id" = p_lead_id AND "deleted_at" IS NULL FOR UPDATE;
+	IF v_lead."id" IS NULL THEN
+		RAISE EXCEPTION 'Lead não encontrado.' USING ERRCODE = 'PT404';
+	END IF;
+
+	IF p_automatic THEN
+		v_owner := "pick_lead_owner"(v_lead."source"::text, v_lead."state", NULL);
+		IF v_owner IS NULL THEN
+			RAISE EXCEPTION 'Nenhum usuário disponível para receber o lead.' USING ERRCODE = 'PT409';
+		END IF;
+	ELSIF v_owner IS NOT NULL AND NOT EXISTS (SELECT 1 FROM "profiles" WHERE "id" = v_owner AND "active") THEN
+		RAISE EXCEPTION 'Responsável inválido ou desativado.' USING ERRCODE = 'PT400';
+	END IF;
+
+	PERFORM set_config('app.user_id', COALESCE(p_user_id::text, ''), true);
+	UPDATE "leads" SET "owner_id" = v_owner, "updated_at" = now() WHERE "id" = p_lead_id
+	RETURNING * INTO v_lead;
+	PERFORM set_config('app.user_id', '', true);
+	RETURN v_lead;
+END;
+$$;
+
+-- Hands the open leads of a user to other owners (rules first, then the strategy); leads nobody can take
+-- are left unassigned. The previous owner's pending tasks for those leads are cancelled, since the new
+-- owner gets a follow-up of their own
+CREATE OR REPLACE FUNCTION "reassign_user_leads"(p_user_id uuid, p_by uuid) RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_lead record;
+	v_lead_ids integer[] := '{}';
+BEGIN
+	PERFORM set_config('app.user_id', COALESCE(p_by::text, ''), true);
+	FOR v_lead IN
+		SELECT "id", "source", "state" FROM "leads"
+		WHERE "owner_id" = p_user_id AND "deleted_at" IS NULL AND "lead_is_open"("status")
+		ORDER BY "id"
+		FOR UPDATE
+	LOOP
+		UPDATE "leads" SET "owner_id" = "pick_lead_owner"(v_lead."source"::text, v_lead."state", p_user_id), "updated_at" = now()
+		WHERE "id" = v_lead."id";
+		v_lead_ids := v_lead_ids || v_lead."id";
+	END LOOP;
+
+	UPDATE "tasks" SET "status" = 'cancelled', "updated_at" = now()
+	WHERE "assigned_to_id" = p_user_id AND "status" IN ('pending', 'in_progress') AND "related_lead_id" = ANY(v_lead_ids);
+
+	PERFORM set_config('app.user_id', '', true);
+	RETURN cardinality(v_lead_ids);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION "pick_lead_owner"(text, text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION "assign_lead_owner"(integer, uuid, boolean, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION "reassign_user_leads"(uuid, uuid) FROM PUBLIC, anon, authenticated;
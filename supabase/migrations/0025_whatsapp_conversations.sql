@@ -0,0 +1,47 @@
+-- whatsapp-manager records why a send failed
+ALTER TABLE "whatsapp_messages" ADD COLUMN "error_message" text;
+
+-- Conversation list of the WhatsApp page (whatsapp-manager /recent-messages): one row per lead with its
+-- latest message, newest first. Without a search only leads that have messages are listed; with a search
+-- any lead matching name, e-mail or phone is returned, so a conversation can be started from there
+CREATE OR REPLACE FUNCTION "get_recent_whatsapp_messages_per_lead"(p_search text DEFAULT NULL, p_limit integer DEFAULT 100)
+RETURNS TABLE (
+	"lead_id" integer,
+	"name" text,
+	"phone" text,
+	"email" text,
+	"lead_status" text,
+	"message_id" integer,
+	"direction" text,
+	"content" text,
+	"message_status" text,
+	"media_type" text,
+	"timestamp" timestamp
+)
+LANGUAGE sql STABLE
+AS $$
+	WITH term AS (
+		SELECT lower("immutable_unaccent"(trim(p_search))) AS "text", regexp_replace(p_search, '\D', '', 'g') AS "digits"
+		WHERE NULLIF(trim(p_search), '') IS NOT NULL
+	)
+	SELECT l."id", l."name", l."phone", l."email", l."status",
+		m."id", m."direction", m."content", m."status", m."media_type", m."timestamp"
+	FROM "leads" l
+	LEFT JOIN LATERAL (
+		SELECT wm.* FROM "whatsapp_messages" wm
+		WHERE wm."lead_id" = l."id"
+		ORDER BY wm."timestamp" DESC, wm."id" DESC
+		LIMIT 1
+	) m ON true
+	LEFT JOIN term t ON true
+	WHERE l."deleted_at" IS NULL
+		AND CASE
+			WHEN t."text" IS NULL THEN m."id" IS NOT NULL
+			ELSE l."search_text" LIKE '%' || t."text" || '%'
+				OR (t."digits" <> '' AND regexp_replace(l."phone", '\D', '', 'g') LIKE '%' || t."digits" || '%')
+		END
+	ORDER BY m."timestamp" DESC NULLS LAST, l."name"
+	LIMIT LEAST(GREATEST(COALESCE(p_limit, 100), 1), 500)
+$$;
+
+REVOKE EXECUTE ON FUNCTION "get_recent_whatsapp_messages_per_lead"(text, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,40 @@
+-- Evolution API webhook (whatsapp-manager /webhook): incoming media is copied to the private
+-- whatsapp-media bucket and served through signed URLs; locations and contacts keep their details
+-- in metadata.
+
+INSERT INTO storage.buckets ("id", "name", "public", "file_size_limit")
+VALUES ('whatsapp-media', 'whatsapp-media', false, 52428800)
+ON CONFLICT ("id") DO NOTHING;
+
+ALTER TABLE "whatsapp_messages" ADD COLUMN "media_path" text; -- object in the whatsapp-media bucket
+ALTER TABLE "whatsapp_messages" ADD COLUMN "media_mime_type" text;
+ALTER TABLE "whatsapp_messages" ADD COLUMN "metadata" jsonb; -- location { latitude, longitude, name, address }, contacts [{ name, phones }], document { fileName }
+
+-- Evolution retries deliveries and also echoes the messages we send, so its message id must be unique
+DELETE FROM "whatsapp_messages" a
+USING "whatsapp_messages" b
+WHERE a."message_id" IS NOT NULL AND a."message_id" = b."message_id" AND a."id" > b."id";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "whatsapp_messages_message_id_idx" ON "whatsapp_messages" ("message_id") WHERE "message_id" IS NOT NULL;
+
+-- Last connection.update received, shown next to the live status
+ALTER TABLE "whatsapp_settings" ADD COLUMN "connection_state" text;
+ALTER TABLE "whatsapp_settings" ADD COLUMN "connection_updated_at" timestamp;
+
+CREATE INDEX IF NOT EXISTS "leads_phone_suffix_idx" ON "leads" (right(regexp_replace("phone", '\D', '', 'g'), 8)) WHERE "deleted_at" IS NULL;
+
+-- Lead of an incoming WhatsApp number. Phones are stored formatted and with or without the country code
+-- and the mobile ninth digit, so the last 8 digits are compared; a full match wins, then the newest lead
+CREATE OR REPLACE FUNCTION "find_lead_by_whatsapp_phone"(p_phone text) RETURNS SETOF "leads"
+LANGUAGE sql STABLE
+AS $$
+	WITH target AS (SELECT regexp_replace(p_phone, '\D', '', 'g') AS "digits")
+	SELECT l.* FROM "leads" l, target t
+	WHERE l."deleted_at" IS NULL
+		AND length(t."digits") >= 8
+		AND right(regexp_replace(l."phone", '\D', '', 'g'), 8) = right(t."digits", 8)
+	ORDER BY (t."digits" LIKE '%' || regexp_replace(l."phone", '\D', '', 'g')) DESC, l."created_at" DESC
+	LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION "find_lead_by_whatsapp_phone"(text) FROM PUBLIC, anon, authenticated;
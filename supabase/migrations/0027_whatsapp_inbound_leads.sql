@@ -0,0 +1,79 @@
+-- Leads for unknown WhatsApp numbers (whatsapp-manager webhook): an incoming message from a phone that
+-- matches no lead creates one in the "WhatsApp Inbound" campaign, named after the sender's profile, with
+-- state and source taken from the DDD. The message is stored on the new lead and a triage task is opened.
+-- Admins can turn this off, in which case those messages are dropped as before.
+
+-- Single row (id = 1)
+CREATE TABLE "whatsapp_inbound_settings" (
+	"id" integer PRIMARY KEY DEFAULT 1 CHECK ("id" = 1),
+	"auto_create_leads" boolean DEFAULT true NOT NULL,
+	"default_source" "source_enum" DEFAULT 'Outro' NOT NULL,
+	"ddd_sources" jsonb DEFAULT '{}'::jsonb NOT NULL, -- { "11": "Favale", "21": "Pink" }: source by DDD, default_source otherwise
+	"triage_user_id" uuid REFERENCES "profiles"("id") ON DELETE SET NULL, -- NULL: the lead owner, or the first active admin
+	"triage_due_hours" integer DEFAULT 4 NOT NULL CHECK ("triage_due_hours" BETWEEN 1 AND 720),
+	"updated_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+INSERT INTO "whatsapp_inbound_settings" ("id") VALUES (1);
+
+-- Lead for an unknown number, or the existing one when a concurrent message created it first. Returns no
+-- row when automatic creation is disabled. p_state and p_ddd come from the phone (empty when not Brazilian)
+CREATE OR REPLACE FUNCTION "create_whatsapp_inbound_lead"(p_phone text, p_name text, p_state text, p_ddd text, p_tags text[], p_first_message text)
+RETURNS SETOF "leads"
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_settings "whatsapp_inbound_settings"%ROWTYPE;
+	v_lead "leads"%ROWTYPE;
+	v_source "source_enum";
+	v_triage uuid;
+BEGIN
+	SELECT * INTO v_settings FROM "whatsapp_inbound_settings" WHERE "id" = 1;
+	IF NOT COALESCE(v_settings."auto_create_leads", false) THEN
+		RETURN;
+	END IF;
+
+	-- Same key as find_lead_by_whatsapp_phone, so two messages from a new number create a single lead
+	PERFORM pg_advisory_xact_lock(hashtext('whatsapp_inbound:' || right(regexp_replace(p_phone, '\D', '', 'g'), 8)));
+	SELECT * INTO v_lead FROM "find_lead_by_whatsapp_phone"(p_phone);
+	IF v_lead."id" IS NOT NULL THEN
+		RETURN NEXT v_lead;
+		RETURN;
+	END IF;
+
+	v_source := CASE WHEN v_settings."ddd_sources" ->> p_ddd IN (SELECT unnest(enum_range(NULL::"source_enum"))::text)
+		THEN (v_settings."ddd_sources" ->> p_ddd)::"source_enum" ELSE v_settings."default_source" END;
+
+	INSERT INTO "leads" ("name", "email", "phone", "state", "campaign", "tags", "source", "status", "notes")
+	VALUES (p_name, '', p_phone, COALESCE(p_state, ''), 'WhatsApp Inbound', p_tags, v_source, 'Lead',
+		'Criado automaticamente a partir de uma mensagem recebida no WhatsApp.')
+	RETURNING * INTO v_lead;
+
+	v_triage := COALESCE(
+		(SELECT "id" FROM "profiles" WHERE "id" = v_settings."triage_user_id" AND "active"),
+		v_lead."owner_id",
+		(SELECT "id" FROM "profiles" WHERE "role" = 'admin' AND "active" ORDER BY "id" LIMIT 1)
+	);
+	IF v_triage IS NOT NULL THEN
+		INSERT INTO "tasks" ("title", "description", "assigned_by_id", "assigned_to_id", "due_date", "priority", "status", "related_lead_id")
+		VALUES (
+			'Triagem WhatsApp: ' || v_lead."name",
+			'Novo contato pelo WhatsApp. Confira os dados do lead e responda. Primeira mensagem: ' || left(COALESCE(p_first_message, ''), 500),
+			v_triage,
+			v_triage,
+			now() + make_interval(hours => v_settings."triage_due_hours"),
+			'high',
+			'pending',
+			v_lead."id"
+		);
+	END IF;
+
+	INSERT INTO "audit_logs" ("event_type", "user_id", "details")
+	VALUES ('lead_created_from_whatsapp', NULL, jsonb_build_object('leadId', v_lead."id", 'phone', p_phone, 'triageUserId', v_triage));
+
+	RETURN NEXT v_lead;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION "create_whatsapp_inbound_lead"(text, text, text, text, text[], text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,5 @@
+-- Media sent from the chat (whatsapp-manager /send-media/:type) is uploaded to the whatsapp-media bucket
+-- like incoming media. Images and videos get a small JPEG preview, generated by the browser for uploads and
+-- taken from WhatsApp's own thumbnail for incoming messages, so the message list doesn't load the full file.
+
+ALTER TABLE "whatsapp_messages" ADD COLUMN "thumbnail_path" text; -- object in the whatsapp-media bucket
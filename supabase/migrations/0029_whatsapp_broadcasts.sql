@@ -0,0 +1,107 @@
+-- WhatsApp broadcast campaigns (whatsapp-manager /broadcasts): one template sent to a list of leads, with the
+-- body parameters filled from each lead. Recipients are queued and sent one at a time by /broadcasts/process,
+-- at most one message every interval_seconds and one campaign at a time, so the number isn't flagged for spam.
+-- Delivery and read counts come from the status of each recipient's whatsapp_messages row.
+
+CREATE TABLE "whatsapp_broadcasts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"template_name" text NOT NULL,
+	"language_code" text DEFAULT 'pt_BR' NOT NULL,
+	"body_params" jsonb DEFAULT '[]'::jsonb NOT NULL, -- [{ "type": "field", "value": "first_name" } | { "type": "text", "value": "..." }], one per {{n}}
+	"status" text DEFAULT 'queued' NOT NULL CHECK ("status" IN ('queued', 'sending', 'paused', 'completed', 'cancelled')),
+	"interval_seconds" integer DEFAULT 20 NOT NULL CHECK ("interval_seconds" BETWEEN 5 AND 600),
+	"last_sent_at" timestamp, -- throttle: the next recipient is claimed interval_seconds after this
+	"created_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE "whatsapp_broadcast_recipients" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"broadcast_id" integer NOT NULL REFERENCES "whatsapp_broadcasts"("id") ON DELETE CASCADE,
+	"lead_id" integer NOT NULL REFERENCES "leads"("id") ON DELETE CASCADE,
+	"status" text DEFAULT 'queued' NOT NULL CHECK ("status" IN ('queued', 'sending', 'sent', 'failed', 'skipped')),
+	"message_id" integer REFERENCES "whatsapp_messages"("id") ON DELETE SET NULL,
+	"error" text,
+	"processed_at" timestamp,
+	CONSTRAINT "whatsapp_broadcast_recipients_lead_unique" UNIQUE ("broadcast_id", "lead_id")
+);
+
+CREATE INDEX IF NOT EXISTS "whatsapp_broadcast_recipients_queue_idx" ON "whatsapp_broadcast_recipients" ("broadcast_id", "id") WHERE "status" = 'queued';
+
+-- Next recipient to send, or no row when nothing is due. Campaigns go in creation order; a campaign whose
+-- last send is more recent than its interval returns nothing, so concurrent /broadcasts/process calls can't
+-- speed it up. Recipients left in "sending" by an interrupted run are failed instead of being sent twice
+CREATE OR REPLACE FUNCTION "claim_whatsapp_broadcast_recipient"()
+RETURNS TABLE ("recipient_id" integer, "broadcast_id" integer, "lead_id" integer)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_broadcast "whatsapp_broadcasts"%ROWTYPE;
+	v_recipient_id integer;
+	v_lead_id integer;
+BEGIN
+	UPDATE "whatsapp_broadcast_recipients" r
+	SET "status" = 'failed', "error" = 'Envio interrompido.'
+	WHERE r."status" = 'sending' AND r."processed_at" < now() - interval '10 minutes';
+
+	SELECT * INTO v_broadcast FROM "whatsapp_broadcasts" b
+	WHERE b."status" IN ('queued', 'sending')
+	ORDER BY b."created_at", b."id"
+	LIMIT 1
+	FOR UPDATE SKIP LOCKED;
+	IF v_broadcast."id" IS NULL THEN
+		RETURN;
+	END IF;
+	IF v_broadcast."last_sent_at" > now() - make_interval(secs => v_broadcast."interval_seconds") THEN
+		RETURN;
+	END IF;
+
+	SELECT r."id", r."lead_id" INTO v_recipient_id, v_lead_id FROM "whatsapp_broadcast_recipients" r
+	WHERE r."broadcast_id" = v_broadcast."id" AND r."status" = 'queued'
+	ORDER BY r."id"
+	LIMIT 1
+	FOR UPDATE SKIP LOCKED;
+	IF v_recipient_id IS NULL THEN
+		UPDATE "whatsapp_broadcasts" SET "status" = 'completed', "completed_at" = now(), "updated_at" = now() WHERE "id" = v_broadcast."id";
+		RETURN;
+	END IF;
+
+	UPDATE "whatsapp_broadcast_recipients" SET "status" = 'sending', "processed_at" = now() WHERE "id" = v_recipient_id;
+	UPDATE "whatsapp_broadcasts"
+	SET "status" = 'sending', "started_at" = COALESCE("started_at", now()), "last_sent_at" = now(), "updated_at" = now()
+	WHERE "id" = v_broadcast."id";
+
+	"recipient_id" := v_recipient_id;
+	"broadcast_id" := v_broadcast."id";
+	"lead_id" := v_lead_id;
+	RETURN NEXT;
+END;
+$$;
+
+-- Cumulative counts per campaign: delivered includes read, sent includes both; failed covers recipients
+-- Evolution rejected and messages that failed afterwards
+CREATE OR REPLACE FUNCTION "get_whatsapp_broadcast_stats"(p_broadcast_ids integer[])
+RETURNS TABLE ("broadcast_id" integer, "total" bigint, "queued" bigint, "sent" bigint, "delivered" bigint, "read" bigint, "failed" bigint, "skipped" bigint)
+LANGUAGE sql STABLE
+AS $$
+	SELECT
+		r."broadcast_id",
+		count(*),
+		count(*) FILTER (WHERE r."status" IN ('queued', 'sending')),
+		count(*) FILTER (WHERE r."status" = 'sent' AND m."status" IN ('sent', 'delivered', 'read')),
+		count(*) FILTER (WHERE r."status" = 'sent' AND m."status" IN ('delivered', 'read')),
+		count(*) FILTER (WHERE r."status" = 'sent' AND m."status" = 'read'),
+		count(*) FILTER (WHERE r."status" = 'failed' OR (r."status" = 'sent' AND m."status" = 'failed')),
+		count(*) FILTER (WHERE r."status" = 'skipped')
+	FROM "whatsapp_broadcast_recipients" r
+	LEFT JOIN "whatsapp_messages" m ON m."id" = r."message_id"
+	WHERE r."broadcast_id" = ANY(p_broadcast_ids)
+	GROUP BY r."broadcast_id"
+$$;
+
+REVOKE EXECUTE ON FUNCTION "claim_whatsapp_broadcast_recipient"() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION "get_whatsapp_broadcast_stats"(integer[]) FROM PUBLIC, anon, authenticated;
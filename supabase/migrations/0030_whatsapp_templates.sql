@@ -0,0 +1,56 @@
+-- WhatsApp template library (whatsapp-manager /templates), replacing the list hard-coded in the client.
+-- "name" and "language_code" must match a template approved in Meta's WhatsApp Manager; "body" is a copy of
+-- its text, used for previews and for the chat history. "body_params" maps each {{n}} of the body, in order,
+-- to a lead field or a fixed text, and is filled from the lead when the template is sent.
+
+CREATE TABLE "whatsapp_templates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"display_name" text NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"language_code" text DEFAULT 'pt_BR' NOT NULL,
+	"category" text DEFAULT 'MARKETING' NOT NULL CHECK ("category" IN ('MARKETING', 'UTILITY', 'AUTHENTICATION')),
+	"header_type" text DEFAULT 'none' NOT NULL CHECK ("header_type" IN ('none', 'text', 'image', 'video', 'document')),
+	"header_content" text, -- header text, or the public URL of the header media
+	"body" text NOT NULL,
+	"body_params" jsonb DEFAULT '[]'::jsonb NOT NULL, -- [{ "type": "field", "value": "first_name" } | { "type": "text", "value": "..." }], one per {{n}}
+	"buttons" jsonb DEFAULT '[]'::jsonb NOT NULL, -- [{ "type": "quick_reply" | "url" | "phone_number", "text": "...", "value": "..." }]
+	"active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "whatsapp_templates_name_language_unique" UNIQUE ("name", "language_code")
+);
+
+-- Campaigns keep their own copy of name, language and params; the template adds the header media and the
+-- text stored in the chat history
+ALTER TABLE "whatsapp_broadcasts" ADD COLUMN "template_id" integer REFERENCES "whatsapp_templates"("id") ON DELETE SET NULL;
+
+-- The templates the client used to list, with their approved text to be reviewed by an admin
+INSERT INTO "whatsapp_templates" ("name", "display_name", "description", "category", "body", "body_params", "buttons") VALUES
+	('hello_world', 'Boas-vindas', 'Mensagem de boas-vindas para novos leads', 'MARKETING',
+		'Olá, {{1}}! Seja bem-vindo(a) à Favale Trainer. Estamos à disposição para ajudar você a alcançar seus objetivos.',
+		'[{"type": "field", "value": "first_name"}]', '[]'),
+	('welcome_personal_training', 'Boas-vindas Treinamento', 'Mensagem de boas-vindas específica para treinamento pessoal', 'MARKETING',
+		'Olá, {{1}}! Que bom ter você no treinamento personalizado da Favale Trainer. Em breve entraremos em contato para agendar sua avaliação.',
+		'[{"type": "field", "value": "first_name"}]', '[]'),
+	('special_offer', 'Oferta Especial', 'Informar sobre promoção ou pacote especial', 'MARKETING',
+		'Olá, {{1}}! Temos uma oferta especial para você: {{2}}. Responda esta mensagem para saber mais.',
+		'[{"type": "field", "value": "first_name"}, {"type": "text", "value": "condições exclusivas nos nossos pacotes"}]',
+		'[{"type": "quick_reply", "text": "Quero saber mais", "value": ""}]'),
+	('workout_plan', 'Plano de Treino', 'Confirmação de envio do plano de treino personalizado', 'UTILITY',
+		'Olá, {{1}}! Seu plano de treino personalizado já está disponível. Qualquer dúvida, é só responder esta mensagem.',
+		'[{"type": "field", "value": "first_name"}]', '[]'),
+	('agendamento_confirmado', 'Confirmação de Agendamento', 'Confirmar um agendamento de sessão de treinamento', 'UTILITY',
+		'Olá, {{1}}! Seu agendamento está confirmado. Até breve!',
+		'[{"type": "field", "value": "first_name"}]', '[]'),
+	('lembrete_sessao', 'Lembrete de Sessão', 'Lembrar o cliente sobre uma sessão agendada', 'UTILITY',
+		'Olá, {{1}}! Passando para lembrar da sua sessão de treino agendada. Se precisar remarcar, responda esta mensagem.',
+		'[{"type": "field", "value": "first_name"}]',
+		'[{"type": "quick_reply", "text": "Confirmar presença", "value": ""}]'),
+	('nutritional_plan', 'Plano Nutricional', 'Confirmação de envio do plano nutricional', 'UTILITY',
+		'Olá, {{1}}! Seu plano nutricional foi enviado. Siga as orientações e conte com a gente para os ajustes.',
+		'[{"type": "field", "value": "first_name"}]', '[]'),
+	('progress_update', 'Atualização de Progresso', 'Solicitar atualização de progresso do aluno', 'UTILITY',
+		'Olá, {{1}}! Como está a sua evolução nos treinos? Conte para a gente como você está se sentindo.',
+		'[{"type": "field", "value": "first_name"}]', '[]');
@@ -0,0 +1,208 @@
+-- WhatsApp team inbox (whatsapp-manager /recent-messages and /conversations): each lead with messages has a
+-- conversation with an owner, a status and an unread count. The counters are kept by triggers on
+-- whatsapp_messages, so every message, whichever path stored it (chat, webhook, campaign), is counted.
+-- Clients subscribe to whatsapp_conversations through Supabase Realtime: every change to a conversation,
+-- its messages or its notes touches updated_at, which is the signal to refresh the list and the thread.
+
+CREATE TABLE "whatsapp_conversations" (
+	"lead_id" integer PRIMARY KEY NOT NULL REFERENCES "leads"("id") ON DELETE CASCADE,
+	"owner_id" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	-- open: waiting on the team; pending: waiting on the lead; closed: done until the lead writes again
+	"status" text DEFAULT 'open' NOT NULL CHECK ("status" IN ('open', 'pending', 'closed')),
+	"unread_count" integer DEFAULT 0 NOT NULL,
+	"last_message_at" timestamp,
+	"last_read_at" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "whatsapp_conversations_owner_idx" ON "whatsapp_conversations" ("owner_id", "last_message_at" DESC);
+CREATE INDEX IF NOT EXISTS "whatsapp_conversations_last_message_idx" ON "whatsapp_conversations" ("last_message_at" DESC);
+
+-- Internal notes shown in the thread; never sent to the lead
+CREATE TABLE "whatsapp_conversation_notes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"lead_id" integer NOT NULL REFERENCES "leads"("id") ON DELETE CASCADE,
+	"author_id" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "whatsapp_conversation_notes_lead_idx" ON "whatsapp_conversation_notes" ("lead_id", "created_at");
+
+-- A new conversation takes the lead's owner. Incoming messages count as unread and reopen the conversation;
+-- one started by the team (a send or a campaign) waits on the lead
+CREATE OR REPLACE FUNCTION "track_whatsapp_conversation"() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	INSERT INTO "whatsapp_conversations" ("lead_id", "owner_id", "status", "unread_count", "last_message_at")
+	SELECT l."id", l."owner_id",
+		CASE WHEN NEW."direction" = 'incoming' THEN 'open' ELSE 'pending' END,
+		CASE WHEN NEW."direction" = 'incoming' THEN 1 ELSE 0 END,
+		NEW."timestamp"
+	FROM "leads" l
+	WHERE l."id" = NEW."lead_id"
+	ON CONFLICT ("lead_id") DO UPDATE SET
+		"unread_count" = "whatsapp_conversations"."unread_count" + EXCLUDED."unread_count",
+		"status" = CASE WHEN NEW."direction" = 'incoming' THEN 'open' ELSE "whatsapp_conversations"."status" END,
+		"last_message_at" = GREATEST("whatsapp_conversations"."last_message_at", EXCLUDED."last_message_at"),
+		"updated_at" = now();
+	RETURN NEW;
+END;
+$$;
+
+-- Delivery and read receipts, and new notes, only need the thread to refresh
+CREATE OR REPLACE FUNCTION "touch_whatsapp_conversation"() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	UPDATE "whatsapp_conversations" SET "updated_at" = now() WHERE "lead_id" = NEW."lead_id";
+	RETURN NEW;
+END;
+$$;
+
+-- Merging leads moves their messages to the surviving lead (see merge_leads); the conversation and its notes
+-- follow, before the merged lead is deleted and its rows cascade
+CREATE OR REPLACE FUNCTION "move_whatsapp_conversation"() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	INSERT INTO "whatsapp_conversations" ("lead_id", "owner_id", "status", "unread_count", "last_message_at", "last_read_at")
+	SELECT NEW."lead_id", c."owner_id", c."status", c."unread_count", c."last_message_at", c."last_read_at"
+	FROM "whatsapp_conversations" c
+	WHERE c."lead_id" = OLD."lead_id"
+	ON CONFLICT ("lead_id") DO UPDATE SET
+		"owner_id" = COALESCE("whatsapp_conversations"."owner_id", EXCLUDED."owner_id"),
+		"unread_count" = GREATEST("whatsapp_conversations"."unread_count", EXCLUDED."unread_count"),
+		"last_message_at" = GREATEST("whatsapp_conversations"."last_message_at", EXCLUDED."last_message_at"),
+		"updated_at" = now();
+	UPDATE "whatsapp_conversation_notes" SET "lead_id" = NEW."lead_id" WHERE "lead_id" = OLD."lead_id";
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER "whatsapp_messages_move_conversation"
+	AFTER UPDATE OF "lead_id" ON "whatsapp_messages"
+	FOR EACH ROW WHEN (NEW."lead_id" IS DISTINCT FROM OLD."lead_id")
+	EXECUTE FUNCTION "move_whatsapp_conversation"();
+
+CREATE TRIGGER "whatsapp_messages_track_conversation"
+	AFTER INSERT ON "whatsapp_messages"
+	FOR EACH ROW EXECUTE FUNCTION "track_whatsapp_conversation"();
+
+CREATE TRIGGER "whatsapp_messages_touch_conversation"
+	AFTER UPDATE OF "status" ON "whatsapp_messages"
+	FOR EACH ROW WHEN (NEW."status" IS DISTINCT FROM OLD."status")
+	EXECUTE FUNCTION "touch_whatsapp_conversation"();
+
+CREATE TRIGGER "whatsapp_conversation_notes_touch_conversation"
+	AFTER INSERT ON "whatsapp_conversation_notes"
+	FOR EACH ROW EXECUTE FUNCTION "touch_whatsapp_conversation"();
+
+-- Existing history starts read; conversations whose last message came from the lead start open
+INSERT INTO "whatsapp_conversations" ("lead_id", "owner_id", "status", "last_message_at", "last_read_at")
+SELECT l."id", l."owner_id",
+	CASE WHEN last."direction" = 'incoming' THEN 'open' ELSE 'pending' END,
+	last."timestamp", now()
+FROM "leads" l
+JOIN LATERAL (
+	SELECT wm."direction", wm."timestamp" FROM "whatsapp_messages" wm
+	WHERE wm."lead_id" = l."id"
+	ORDER BY wm."timestamp" DESC, wm."id" DESC
+	LIMIT 1
+) last ON true
+ON CONFLICT ("lead_id") DO NOTHING;
+
+-- Realtime only delivers rows the subscriber can select: any active user may see the conversation rows,
+-- which carry no message content. Notes are read through whatsapp-manager only
+ALTER TABLE "whatsapp_conversations" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "whatsapp_conversation_notes" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active users can read whatsapp conversations" ON "whatsapp_conversations"
+	FOR SELECT TO authenticated USING (
+		EXISTS (SELECT 1 FROM "profiles" WHERE "id" = auth.uid() AND "active")
+	);
+
+ALTER PUBLICATION "supabase_realtime" ADD TABLE "whatsapp_conversations";
+
+-- Inbox list, replacing get_recent_whatsapp_messages_per_lead: one row per conversation with its latest
+-- message, newest first. p_view is 'mine' (owned by p_user), 'unassigned' or 'all'; p_status filters by
+-- conversation status. A search ignores both filters and returns any lead matching name, e-mail or phone,
+-- with or without a conversation, so a conversation can be started from there
+DROP FUNCTION IF EXISTS "get_recent_whatsapp_messages_per_lead"(text, integer);
+
+CREATE OR REPLACE FUNCTION "get_whatsapp_inbox"(
+	p_user uuid,
+	p_view text DEFAULT 'all',
+	p_status text DEFAULT NULL,
+	p_search text DEFAULT NULL,
+	p_limit integer DEFAULT 100
+)
+RETURNS TABLE (
+	"lead_id" integer,
+	"name" text,
+	"phone" text,
+	"email" text,
+	"lead_status" text,
+	"owner_id" uuid,
+	"owner_name" text,
+	"conversation_status" text,
+	"unread_count" integer,
+	"message_id" integer,
+	"direction" text,
+	"content" text,
+	"message_status" text,
+	"media_type" text,
+	"timestamp" timestamp
+)
+LANGUAGE sql STABLE
+AS $$
+	WITH term AS (
+		SELECT lower("immutable_unaccent"(trim(p_search))) AS "text", regexp_replace(p_search, '\D', '', 'g') AS "digits"
+		WHERE NULLIF(trim(p_search), '') IS NOT NULL
+	)
+	SELECT l."id", l."name", l."phone", l."email", l."status",
+		c."owner_id", COALESCE(NULLIF(p."full_name", ''), p."username"), c."status", c."unread_count",
+		m."id", m."direction", m."content", m."status", m."media_type", m."timestamp"
+	FROM "leads" l
+	LEFT JOIN "whatsapp_conversations" c ON c."lead_id" = l."id"
+	LEFT JOIN "profiles" p ON p."id" = c."owner_id"
+	LEFT JOIN LATERAL (
+		SELECT wm.* FROM "whatsapp_messages" wm
+		WHERE wm."lead_id" = l."id"
+		ORDER BY wm."timestamp" DESC, wm."id" DESC
+		LIMIT 1
+	) m ON true
+	LEFT JOIN term t ON true
+	WHERE l."deleted_at" IS NULL
+		AND CASE
+			WHEN t."text" IS NULL THEN c."lead_id" IS NOT NULL
+				AND CASE p_view
+					WHEN 'mine' THEN c."owner_id" = p_user
+					WHEN 'unassigned' THEN c."owner_id" IS NULL
+					ELSE true
+				END
+				AND (p_status IS NULL OR c."status" = p_status)
+			ELSE l."search_text" LIKE '%' || t."text" || '%'
+				OR (t."digits" <> '' AND regexp_replace(l."phone", '\D', '', 'g') LIKE '%' || t."digits" || '%')
+		END
+	ORDER BY COALESCE(m."timestamp", c."last_message_at") DESC NULLS LAST, l."name"
+	LIMIT LEAST(GREATEST(COALESCE(p_limit, 100), 1), 500)
+$$;
+
+-- Tab badges: conversations with unread messages per view
+CREATE OR REPLACE FUNCTION "get_whatsapp_inbox_counts"(p_user uuid)
+RETURNS TABLE ("mine" integer, "unassigned" integer, "all" integer)
+LANGUAGE sql STABLE
+AS $$
+	SELECT
+		count(*) FILTER (WHERE c."owner_id" = p_user)::integer,
+		count(*) FILTER (WHERE c."owner_id" IS NULL)::integer,
+		count(*)::integer
+	FROM "whatsapp_conversations" c
+	JOIN "leads" l ON l."id" = c."lead_id" AND l."deleted_at" IS NULL
+	WHERE c."unread_count" > 0
+$$;
+
+REVOKE EXECUTE ON FUNCTION "get_whatsapp_inbox"(uuid, text, text, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION "get_whatsapp_inbox_counts"(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,130 @@
+-- WhatsApp automation (whatsapp-manager /automations): rules evaluated by the webhook for each incoming message.
+-- A rule fires on keywords, a regex, the lead's first message or a message outside business hours, and then
+-- sends a library template, tags the lead and/or opens a task. Each rule fires at most once per lead within
+-- its cooldown; every run is logged, and the template it sends is stored in whatsapp_messages like any other.
+
+-- Business hours for the outside_hours trigger: weekly slots in the studio's local time (America/Sao_Paulo),
+-- weekday 0 = domingo. Without slots every time counts as business hours, so the trigger never fires
+CREATE TABLE "whatsapp_business_hours" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"weekday" smallint NOT NULL CHECK ("weekday" BETWEEN 0 AND 6),
+	"start_time" time NOT NULL,
+	"end_time" time NOT NULL,
+	CONSTRAINT "whatsapp_business_hours_time_check" CHECK ("end_time" > "start_time")
+);
+
+CREATE TABLE "whatsapp_automation_rules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"trigger_type" text NOT NULL CHECK ("trigger_type" IN ('keyword', 'regex', 'first_contact', 'outside_hours')),
+	"trigger_value" text DEFAULT '' NOT NULL, -- keyword: comma-separated words or phrases; regex: the pattern
+	"template_id" integer REFERENCES "whatsapp_templates"("id") ON DELETE SET NULL,
+	"tag" text,
+	"task_title" text,
+	"task_assignee_id" uuid REFERENCES "profiles"("id") ON DELETE SET NULL, -- NULL: the lead owner, or the first active admin
+	"task_due_hours" integer DEFAULT 4 NOT NULL CHECK ("task_due_hours" BETWEEN 1 AND 720),
+	"cooldown_minutes" integer DEFAULT 1440 NOT NULL CHECK ("cooldown_minutes" BETWEEN 1 AND 525600),
+	"position" integer DEFAULT 0 NOT NULL, -- evaluation order; every matching rule fires
+	"active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE "whatsapp_automation_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"rule_id" integer NOT NULL REFERENCES "whatsapp_automation_rules"("id") ON DELETE CASCADE,
+	"lead_id" integer NOT NULL REFERENCES "leads"("id") ON DELETE CASCADE,
+	"trigger_message_id" integer REFERENCES "whatsapp_messages"("id") ON DELETE SET NULL,
+	"status" text DEFAULT 'running' NOT NULL CHECK ("status" IN ('running', 'done', 'failed')),
+	"sent_message_id" integer REFERENCES "whatsapp_messages"("id") ON DELETE SET NULL,
+	"task_id" integer REFERENCES "tasks"("id") ON DELETE SET NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "whatsapp_automation_runs_cooldown_idx" ON "whatsapp_automation_runs" ("rule_id", "lead_id", "created_at" DESC);
+CREATE INDEX IF NOT EXISTS "whatsapp_automation_runs_created_idx" ON "whatsapp_automation_runs" ("created_at" DESC);
+
+ALTER TABLE "whatsapp_business_hours" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "whatsapp_automation_rules" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "whatsapp_automation_runs" ENABLE ROW LEVEL SECURITY;
+
+-- Starts a run of the rule for the lead, or returns NULL while the rule's cooldown for that lead lasts.
+-- The lock makes concurrent webhook deliveries for the same lead fire a rule once
+CREATE OR REPLACE FUNCTION "claim_whatsapp_automation_run"(p_rule_id integer, p_lead_id integer, p_message_id integer)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_cooldown integer;
+	v_run_id integer;
+BEGIN
+	PERFORM pg_advisory_xact_lock(hashtext('whatsapp_automation:' || p_rule_id || ':' || p_lead_id));
+	SELECT "cooldown_minutes" INTO v_cooldown FROM "whatsapp_automation_rules" WHERE "id" = p_rule_id AND "active";
+	IF v_cooldown IS NULL THEN
+		RETURN NULL;
+	END IF;
+	IF EXISTS (
+		SELECT 1 FROM "whatsapp_automation_runs"
+		WHERE "rule_id" = p_rule_id AND "lead_id" = p_lead_id
+			AND "created_at" > now() - make_interval(mins => v_cooldown)
+	) THEN
+		RETURN NULL;
+	END IF;
+	INSERT INTO "whatsapp_automation_runs" ("rule_id", "lead_id", "trigger_message_id")
+	VALUES (p_rule_id, p_lead_id, p_message_id)
+	RETURNING "id" INTO v_run_id;
+	RETURN v_run_id;
+END;
+$$;
+
+-- Whether p_at falls in a business-hours slot, in the studio's local time
+CREATE OR REPLACE FUNCTION "whatsapp_is_business_hours"(p_at timestamptz DEFAULT now())
+RETURNS boolean
+LANGUAGE sql STABLE
+AS $$
+	WITH local AS (SELECT (p_at AT TIME ZONE 'America/Sao_Paulo') AS "at")
+	SELECT NOT EXISTS (SELECT 1 FROM "whatsapp_business_hours")
+		OR EXISTS (
+			SELECT 1 FROM "whatsapp_business_hours" h, local
+			WHERE h."weekday" = extract(dow FROM local."at")
+				AND local."at"::time >= h."start_time" AND local."at"::time < h."end_time"
+		)
+$$;
+
+-- Replaces the weekly grid in one transaction, so a failed insert never leaves it empty (which would read as
+-- "always open" and silence the outside_hours trigger). The table lock serializes concurrent saves.
+-- p_slots: [{ weekday, start_time, end_time }]
+CREATE OR REPLACE FUNCTION "replace_whatsapp_business_hours"(p_slots jsonb)
+RETURNS SETOF "whatsapp_business_hours"
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	LOCK TABLE "whatsapp_business_hours" IN EXCLUSIVE MODE;
+	DELETE FROM "whatsapp_business_hours";
+
+	RETURN QUERY
+	INSERT INTO "whatsapp_business_hours" ("weekday", "start_time", "end_time")
+	SELECT s."weekday", s."start_time", s."end_time"
+	FROM jsonb_to_recordset(COALESCE(p_slots, '[]'::jsonb)) AS s("weekday" smallint, "start_time" time, "end_time" time)
+	ORDER BY s."weekday", s."start_time"
+	RETURNING *;
+END;
+$$;
+
+-- Adds the tag within the UPDATE, so tags written at the same time by a user or another delivery are kept.
+-- Returns NULL when the lead already had it
+CREATE OR REPLACE FUNCTION "add_lead_tag"(p_lead_id integer, p_tag text)
+RETURNS boolean
+LANGUAGE sql
+AS $$
+	UPDATE "leads" SET "tags" = array_append("tags", p_tag), "updated_at" = now()
+	WHERE "id" = p_lead_id AND NOT (p_tag = ANY("tags"))
+	RETURNING true
+$$;
+
+REVOKE EXECUTE ON FUNCTION "claim_whatsapp_automation_run"(integer, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION "whatsapp_is_business_hours"(timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION "replace_whatsapp_business_hours"(jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION "add_lead_tag"(integer, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,194 @@
+-- Session edits as one transaction (see scheduling-functions PATCH /sessions/:id, /cancel and /reschedule).
+-- A series-wide change splits the series, updates its template and then each occurrence with its history row;
+-- all of it commits or rolls back together, so a failure halfway can't leave a series partly changed.
+
+-- Studio local time of a stored session time; sessions keep UTC in timestamp columns
+CREATE OR REPLACE FUNCTION "session_local_time"(p_time timestamp) RETURNS timestamp
+LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+AS $$ SELECT (p_time AT TIME ZONE 'UTC') AT TIME ZONE 'America/Sao_Paulo' $$;
+
+-- Edit, cancellation or reschedule of a session (scheduling-functions PATCH /sessions/:id, /cancel, /reschedule).
+-- Occurrences of a series take p_scope: 'this' marks the occurrence as an exception; 'following' splits the
+-- series at it; 'all' changes every upcoming occurrence not edited on its own (cancellation takes those too).
+-- Time changes are applied to every target as the same shift applied to the edited occurrence. Targets, the
+-- series split and the session_history rows commit or roll back together.
+-- p_changes: sessions columns (snake_case) and their new values. Returns the updated sessions.
+-- Errors: PT404 unknown session, PT400 end before start, PT409 conflicts (DETAIL: JSON list of the clashes)
+CREATE OR REPLACE FUNCTION "apply_session_change"(
+	p_session_id integer,
+	p_change_type text,
+	p_changes jsonb,
+	p_scope text,
+	p_reason text,
+	p_user_id uuid
+) RETURNS SETOF "sessions"
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	v_existing "sessions"%ROWTYPE;
+	v_series "session_series"%ROWTYPE;
+	v_target "sessions"%ROWTYPE;
+	v_updated "sessions"%ROWTYPE;
+	v_targets "sessions"[] := '{}';
+	v_merged "sessions"[] := '{}';
+	v_scope text := p_scope;
+	v_changes jsonb;
+	v_start_shift interval := interval '0';
+	v_end_shift interval := interval '0';
+	v_weekday_shift integer;
+	v_conflicts jsonb;
+	v_old jsonb;
+	v_new jsonb;
+BEGIN
+	SELECT * INTO v_existing FROM "sessions" WHERE "id" = p_session_id FOR UPDATE;
+	IF NOT FOUND THEN
+		RAISE EXCEPTION 'Sessão não encontrada.' USING ERRCODE = 'PT404';
+	END IF;
+	IF v_existing."series_id" IS NULL THEN
+		v_scope := 'this';
+	END IF;
+	IF p_changes ? 'start_time' THEN
+		v_start_shift := (p_changes->>'start_time')::timestamp - v_existing."start_time";
+	END IF;
+	IF p_changes ? 'end_time' THEN
+		v_end_shift := (p_changes->>'end_time')::timestamp - v_existing."end_time";
+	END IF;
+
+	-- Series-wide changes only touch upcoming occurrences; individually edited ones keep their edits,
+	-- except on cancellation, which ends the package for every remaining occurrence
+	FOR v_target IN
+		SELECT * FROM "sessions"
+		WHERE "id" = p_session_id
+			OR (v_scope <> 'this' AND "series_id" = v_existing."series_id"
+				AND "status" IN ('agendado', 'remarcado')
+				AND CASE WHEN v_scope = 'following' THEN "start_time" > v_existing."start_time" ELSE "start_time" >= now() END
+				AND (p_change_type = 'cancelled' OR NOT "series_exception"))
+		ORDER BY "start_time"
+		FOR UPDATE
+	LOOP
+		v_targets := v_targets || v_target;
+		v_changes := p_changes;
+		IF v_target."id" <> p_session_id THEN
+			IF p_changes ? 'start_time' THEN
+				v_changes := v_changes || jsonb_build_object('start_time', v_target."start_time" + v_start_shift);
+			END IF;
+			IF p_changes ? 'end_time' THEN
+				v_changes := v_changes || jsonb_build_object('end_time', v_target."end_time" + v_end_shift);
+			END IF;
+		END IF;
+		v_merged := v_merged || jsonb_populate_record(v_target, v_changes);
+	END LOOP;
+
+	IF EXISTS (SELECT 1 FROM unnest(v_merged) m WHERE m."end_time" <= m."start_time") THEN
+		RAISE EXCEPTION 'O horário de término deve ser posterior ao horário de início' USING ERRCODE = 'PT400';
+	END IF;
+
+	-- One query for every target whose slot changes or that comes back from a cancellation
+	SELECT jsonb_agg(DISTINCT jsonb_build_object(
+		'sessionId', s."id",
+		'type', CASE WHEN s."trainer_id" = m."trainer_id" THEN 'trainer' ELSE 'student' END,
+		'startTime', to_char(s."start_time", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+		'endTime', to_char(s."end_time", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+	)) INTO v_conflicts
+	FROM unnest(v_merged) m
+	JOIN unnest(v_targets) t ON t."id" = m."id"
+	JOIN "sessions" s ON s."status" <> 'cancelado'
+		AND s."id" <> ALL (SELECT u."id" FROM unnest(v_targets) u)
+		AND s."start_time" < m."end_time" AND s."end_time" > m."start_time"
+		AND (s."trainer_id" = m."trainer_id" OR s."student_id" = m."student_id")
+	WHERE m."status" <> 'cancelado'
+		AND (p_changes ?| ARRAY['start_time', 'end_time', 'trainer_id', 'student_id'] OR t."status" = 'cancelado');
+	IF v_conflicts IS NOT NULL THEN
+		RAISE EXCEPTION 'O professor ou o aluno já possui uma sessão neste horário.'
+			USING ERRCODE = 'PT409', DETAIL = v_conflicts::text;
+	END IF;
+
+	IF v_scope <> 'this' AND p_change_type <> 'cancelled' THEN
+		SELECT * INTO v_series FROM "session_series" WHERE "id" = v_existing."series_id" FOR UPDATE;
+		-- "This and following": the edited occurrence starts a new series and the original one ends the day before
+		IF v_scope = 'following' AND EXISTS (
+			SELECT 1 FROM "sessions" WHERE "series_id" = v_series."id" AND "start_time" < v_existing."start_time"
+		) THEN
+			UPDATE "session_series" SET
+				"until_date" = "session_local_time"(v_existing."start_time")::date - 1,
+				"occurrence_count" = NULL,
+				"updated_at" = now()
+			WHERE "id" = v_series."id";
+			INSERT INTO "session_series" ("student_id", "trainer_id", "location", "source", "notes", "weekdays",
+				"interval_weeks", "start_time", "end_time", "until_date", "occurrence_count", "created_by")
+			SELECT v_series."student_id", v_series."trainer_id", v_series."location", v_series."source", v_series."notes",
+				v_series."weekdays", v_series."interval_weeks", v_existing."start_time", v_existing."end_time",
+				v_series."until_date", CASE WHEN v_series."occurrence_count" IS NOT NULL THEN count(*)::integer END,
+				v_series."created_by"
+			FROM "sessions" WHERE "series_id" = v_series."id" AND "start_time" >= v_existing."start_time"
+			RETURNING * INTO v_series;
+			UPDATE "sessions" SET "series_id" = v_series."id"
+			WHERE "series_id" = v_existing."series_id" AND "start_time" >= v_existing."start_time";
+		END IF;
+
+		-- The series template follows the change, with its weekdays moved along with the times
+		v_weekday_shift := ((extract(dow FROM "session_local_time"(v_series."start_time" + v_start_shift))
+			- extract(dow FROM "session_local_time"(v_series."start_time")))::integer + 7) % 7;
+		UPDATE "session_series" SET
+			"student_id" = COALESCE((p_changes->>'student_id')::integer, "student_id"),
+			"trainer_id" = COALESCE((p_changes->>'trainer_id')::integer, "trainer_id"),
+			"location" = COALESCE(p_changes->>'location', "location"),
+			"source" = COALESCE(p_changes->>'source', "source"),
+			"notes" = CASE WHEN p_changes ? 'notes' THEN p_changes->>'notes' ELSE "notes" END,
+			"start_time" = "start_time" + v_start_shift,
+			"end_time" = "end_time" + v_end_shift,
+			"weekdays" = ARRAY(SELECT (w + v_weekday_shift) % 7 FROM unnest("weekdays") w ORDER BY 1),
+			"updated_at" = now()
+		WHERE "id" = v_series."id";
+	ELSIF v_scope = 'following' AND p_change_type = 'cancelled' THEN
+		UPDATE "session_series" SET
+			"until_date" = "session_local_time"(v_existing."start_time")::date - 1,
+			"occurrence_count" = NULL,
+			"updated_at" = now()
+		WHERE "id" = v_existing."series_id";
+	END IF;
+
+	-- Later occurrences move first when shifting forward (earlier ones when shifting back), so siblings never
+	-- collide with each other's old slot in the exclusion constraints (0009)
+	FOR v_target IN
+		SELECT * FROM unnest(v_targets) t
+		ORDER BY CASE WHEN v_start_shift > interval '0' THEN t."start_time" END DESC, t."start_time"
+	LOOP
+		SELECT m.* INTO v_updated FROM unnest(v_merged) m WHERE m."id" = v_target."id";
+		UPDATE "sessions" SET
+			"start_time" = v_updated."start_time",
+			"end_time" = v_updated."end_time",
+			"student_id" = v_updated."student_id",
+			"trainer_id" = v_updated."trainer_id",
+			"location" = v_updated."location",
+			"notes" = v_updated."notes",
+			"status" = v_updated."status",
+			"source" = v_updated."source",
+			"price" = v_updated."price",
+			"google_event_id" = v_updated."google_event_id",
+			"series_exception" = "series_exception"
+				OR (v_scope = 'this' AND "series_id" IS NOT NULL AND p_change_type <> 'cancelled'),
+			"updated_at" = now()
+		WHERE "id" = v_target."id"
+		RETURNING * INTO v_updated;
+
+		-- History keeps only the columns whose value changed
+		SELECT COALESCE(jsonb_object_agg(k, to_jsonb(v_target)->k), '{}'), COALESCE(jsonb_object_agg(k, to_jsonb(v_updated)->k), '{}')
+		INTO v_old, v_new
+		FROM jsonb_object_keys(p_changes || '{"series_exception": null}') k
+		WHERE to_jsonb(v_target)->k IS DISTINCT FROM to_jsonb(v_updated)->k;
+		IF p_reason IS NOT NULL THEN
+			v_new := v_new || jsonb_build_object('reason', p_reason);
+		END IF;
+		IF v_scope <> 'this' THEN
+			v_new := v_new || jsonb_build_object('scope', v_scope);
+		END IF;
+		INSERT INTO "session_history" ("session_id", "change_type", "user_id", "old_value", "new_value")
+		VALUES (v_target."id", p_change_type, p_user_id, v_old, v_new);
+
+		RETURN NEXT v_updated;
+	END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION "apply_session_change"(integer, text, jsonb, text, text, uuid) FROM PUBLIC, anon, authenticated;
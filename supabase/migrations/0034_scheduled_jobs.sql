@@ -0,0 +1,59 @@
+-- Jobs that call edge functions on a schedule (pg_cron + pg_net).
+-- The project URL, anon key and function secrets are read from Vault when each job runs, so they
+-- stay out of the migration. Create them once per project:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<anon key>', 'anon_key');
+--   SELECT vault.create_secret('<same value as CALENDAR_SYNC_CRON_SECRET>', 'calendar_sync_cron_secret');
+--   SELECT vault.create_secret('<same value as WHATSAPP_WEBHOOK_SECRET>', 'whatsapp_webhook_secret');
+
+CREATE EXTENSION IF NOT EXISTS "pg_cron";
+CREATE EXTENSION IF NOT EXISTS "pg_net" WITH SCHEMA "extensions";
+
+-- POSTs to an edge function route with the anon key and one extra auth header taken from Vault
+CREATE OR REPLACE FUNCTION "invoke_scheduled_function"(p_path text, p_header text, p_secret_name text)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+	v_url text;
+	v_anon_key text;
+	v_secret text;
+BEGIN
+	SELECT "decrypted_secret" INTO v_url FROM "vault"."decrypted_secrets" WHERE "name" = 'project_url';
+	SELECT "decrypted_secret" INTO v_anon_key FROM "vault"."decrypted_secrets" WHERE "name" = 'anon_key';
+	SELECT "decrypted_secret" INTO v_secret FROM "vault"."decrypted_secrets" WHERE "name" = p_secret_name;
+	IF v_url IS NULL OR v_anon_key IS NULL OR v_secret IS NULL THEN
+		RAISE WARNING 'Scheduled call to % skipped: Vault secrets project_url, anon_key or % are missing', p_path, p_secret_name;
+		RETURN NULL;
+	END IF;
+
+	RETURN "net"."http_post"(
+		url := rtrim(v_url, '/') || '/functions/v1/' || p_path,
+		headers := jsonb_build_object(
+			'Content-Type', 'application/json',
+			'Authorization', 'Bearer ' || v_anon_key,
+			'apikey', v_anon_key,
+			p_header, v_secret
+		),
+		body := '{}'::jsonb
+	);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION "invoke_scheduled_function"(text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Google Calendar: reads external changes of every linked calendar
+SELECT cron.schedule(
+	'calendar-sync-pull',
+	'*/10 * * * *',
+	$$ SELECT "invoke_scheduled_function"('calendar-sync/pull', 'x-cron-secret', 'calendar_sync_cron_secret') $$
+);
+
+-- WhatsApp campaigns: resumes the broadcast queue if a hand-over between runs was lost (see whatsapp-manager)
+SELECT cron.schedule(
+	'whatsapp-broadcasts-process',
+	'*/5 * * * *',
+	$$ SELECT "invoke_scheduled_function"('whatsapp-manager/broadcasts/process', 'x-webhook-secret', 'whatsapp_webhook_secret') $$
+);